@@ -34,6 +34,7 @@ agents=(
   "agent-news-analyst"
   "agent-social-media-analyst"
   "agent-fundamentals-analyst"
+  "agent-custom-analyst"
   "agent-bull-researcher"
   "agent-bear-researcher"
   "agent-research-manager"
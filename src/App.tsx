@@ -17,8 +17,10 @@ import RegisterPage from "./pages/RegisterPage";
 import Settings from "./pages/Settings";
 import Profile from "./pages/Profile";
 import AnalysisRecords from "./pages/AnalysisRecords";
+import Backtests from "./pages/Backtests";
 import RebalanceRecords from "./pages/RebalanceRecords";
 import TradeHistory from "./pages/TradeHistory";
+import TradeApproval from "./pages/TradeApproval";
 import AdminInvitations from "./pages/AdminInvitationsNew";
 import AdminRoleManager from "./pages/AdminRoleManager";
 import AdminUserManager from "./pages/AdminUserManager";
@@ -43,8 +45,10 @@ const AppRoutes = () => {
       <Route path="/settings" element={<Settings />} />
       <Route path="/profile" element={<Profile />} />
       <Route path="/analysis-records" element={<AnalysisRecords />} />
+      <Route path="/backtests" element={<Backtests />} />
       <Route path="/rebalance-records" element={<RebalanceRecords />} />
       <Route path="/trade-history" element={<TradeHistory />} />
+      <Route path="/trade-approval" element={<TradeApproval />} />
       <Route path="/admin/invitations" element={
         <AdminRouteProtection>
           <AdminInvitations />
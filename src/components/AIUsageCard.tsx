@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, Loader2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/lib/auth";
+import {
+  type AIUsageEvent,
+  formatTokenCount,
+  formatUsageCost,
+  summarizeUsageByAgent
+} from "@/lib/aiUsage";
+
+interface AIUsageCardProps {
+  analysisId?: string;
+  rebalanceRequestId?: string;
+  // Re-fetch while the workflow is still producing usage
+  isRunning?: boolean;
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+// Per-agent token usage, latency and estimated cost for one analysis or rebalance
+export default function AIUsageCard({ analysisId, rebalanceRequestId, isRunning = false }: AIUsageCardProps) {
+  const { apiSettings } = useAuth();
+  const [events, setEvents] = useState<AIUsageEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!analysisId && !rebalanceRequestId) return;
+
+    let cancelled = false;
+    const loadUsage = async () => {
+      let query = supabase
+        .from('ai_usage_events')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      query = analysisId
+        ? query.eq('analysis_id', analysisId)
+        : query.eq('rebalance_request_id', rebalanceRequestId);
+
+      const { data, error } = await query;
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error loading AI usage:', error);
+      } else {
+        setEvents((data || []) as AIUsageEvent[]);
+      }
+      setLoading(false);
+    };
+
+    loadUsage();
+    const interval = isRunning ? setInterval(loadUsage, REFRESH_INTERVAL_MS) : null;
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [analysisId, rebalanceRequestId, isRunning]);
+
+  const summaries = useMemo(
+    () => summarizeUsageByAgent(events, apiSettings?.ai_model_prices),
+    [events, apiSettings?.ai_model_prices]
+  );
+
+  const totals = useMemo(() => summaries.reduce(
+    (acc, s) => ({
+      calls: acc.calls + s.calls,
+      promptTokens: acc.promptTokens + s.promptTokens,
+      completionTokens: acc.completionTokens + s.completionTokens,
+      cachedTokens: acc.cachedTokens + s.cachedTokens,
+      latencyMs: acc.latencyMs + s.latencyMs,
+      costUsd: s.costUsd === null ? acc.costUsd : (acc.costUsd ?? 0) + s.costUsd,
+      estimated: acc.estimated || s.estimated
+    }),
+    { calls: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0, latencyMs: 0, costUsd: null as number | null, estimated: false }
+  ), [summaries]);
+
+  if (!loading && summaries.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Coins className="w-4 h-4" />
+          AI Usage & Cost
+          {totals.estimated && (
+            <Badge variant="outline" className="text-xs font-normal">
+              Includes estimates
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            Loading usage...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Agent</TableHead>
+                <TableHead className="text-right text-xs px-2">Input</TableHead>
+                <TableHead className="text-right text-xs px-2">Cached</TableHead>
+                <TableHead className="text-right text-xs px-2">Output</TableHead>
+                <TableHead className="text-right text-xs px-2">Latency</TableHead>
+                <TableHead className="text-right text-xs">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summaries.map(summary => (
+                <TableRow key={summary.agentName}>
+                  <TableCell className="text-xs">
+                    <div className="font-medium">
+                      {summary.agentName}
+                      {summary.calls > 1 && (
+                        <span className="text-muted-foreground font-normal"> ×{summary.calls}</span>
+                      )}
+                    </div>
+                    <div className="text-muted-foreground truncate max-w-[180px]">{summary.models.join(', ')}</div>
+                  </TableCell>
+                  <TableCell className="text-right text-xs px-2">
+                    {summary.estimated && '~'}{formatTokenCount(summary.promptTokens)}
+                  </TableCell>
+                  <TableCell className="text-right text-xs px-2">{formatTokenCount(summary.cachedTokens)}</TableCell>
+                  <TableCell className="text-right text-xs px-2">
+                    {summary.estimated && '~'}{formatTokenCount(summary.completionTokens)}
+                  </TableCell>
+                  <TableCell className="text-right text-xs px-2">{(summary.latencyMs / 1000).toFixed(1)}s</TableCell>
+                  <TableCell className="text-right text-xs">{formatUsageCost(summary.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell className="text-xs">Total</TableCell>
+                <TableCell className="text-right text-xs px-2">{formatTokenCount(totals.promptTokens)}</TableCell>
+                <TableCell className="text-right text-xs px-2">{formatTokenCount(totals.cachedTokens)}</TableCell>
+                <TableCell className="text-right text-xs px-2">{formatTokenCount(totals.completionTokens)}</TableCell>
+                <TableCell className="text-right text-xs px-2">{(totals.latencyMs / 1000).toFixed(1)}s</TableCell>
+                <TableCell className="text-right text-xs">{formatUsageCost(totals.costUsd)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground mt-3">
+          Costs are estimated from the model price table in Settings. Agents backed by Perplefina search are not included.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
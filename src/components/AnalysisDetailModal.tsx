@@ -45,6 +45,7 @@ import HorizontalWorkflow from "./workflow";
 import WorkflowVisualization from "./WorkflowVisualization";
 import MarkdownRenderer from "./MarkdownRenderer";
 import MessageRenderer from "./MessageRenderer";
+import AIUsageCard from "./AIUsageCard";
 import { formatDistanceToNow } from "date-fns";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 // Import centralized status system
@@ -637,13 +638,18 @@ export default function AnalysisDetailModal({ ticker, analysisId, isOpen, onClos
 
                     <TabsContent value="workflow" className="mt-6">
                       {(analysisData.workflowSteps?.length > 0 || analysisData.full_analysis) ? (
-                        <WorkflowStepsLayout
-                          analysisData={analysisData}
-                          onApproveOrder={handleApproveOrder}
-                          onRejectOrder={handleRejectOrder}
-                          isOrderExecuted={isOrderExecuted}
-                          onNavigateToInsight={handleNavigateToInsight}
-                        />
+                        <div className="space-y-6">
+                          <WorkflowStepsLayout
+                            analysisData={analysisData}
+                            onApproveOrder={handleApproveOrder}
+                            onRejectOrder={handleRejectOrder}
+                            isOrderExecuted={isOrderExecuted}
+                            onNavigateToInsight={handleNavigateToInsight}
+                          />
+                          {analysisData.id && (
+                            <AIUsageCard analysisId={analysisData.id} isRunning={isLiveAnalysis} />
+                          )}
+                        </div>
                       ) : (
                         <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
                           <Activity className="w-12 h-12 mb-4 opacity-20" />
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Briefcase } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { BROKER, BROKER_LABELS, MAIN_ACCOUNT_LABEL, useBrokerAccounts } from "@/lib/brokerAccounts";
+
+const MAIN_ACCOUNT_VALUE = 'main';
+
+// Header switcher between the main account and named broker accounts; hidden until a named account exists
+export default function BrokerAccountSwitcher() {
+  const { user } = useAuth();
+  const { accounts, activePortfolioId, loadAccounts, setActivePortfolioId } = useBrokerAccounts();
+
+  useEffect(() => {
+    if (user?.id) {
+      loadAccounts();
+    }
+  }, [user?.id, loadAccounts]);
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <Select
+      value={activePortfolioId ?? MAIN_ACCOUNT_VALUE}
+      onValueChange={(value) => setActivePortfolioId(value === MAIN_ACCOUNT_VALUE ? null : value)}
+    >
+      <SelectTrigger className="h-9 w-[180px]" aria-label="Broker account">
+        <Briefcase className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={MAIN_ACCOUNT_VALUE}>{MAIN_ACCOUNT_LABEL}</SelectItem>
+        {accounts.map(account => (
+          <SelectItem key={account.id} value={account.id}>
+            {account.name} ({account.broker !== BROKER.ALPACA && `${BROKER_LABELS[account.broker]} `}{account.paper_trading ? 'Paper' : 'Live'})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
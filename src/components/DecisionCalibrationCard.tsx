@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Loader2, Target } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/lib/auth";
+import { formatPercent, percentColor } from "@/lib/backtest";
+import {
+  HOLD_TOLERANCE_PCT,
+  SCORE_BENCHMARK,
+  SCORE_HORIZON,
+  SCORE_HORIZON_LABELS,
+  buildCalibration,
+  calculateAccuracy,
+  type AnalysisScore,
+  type ScoreHorizon
+} from "@/lib/decisionScore";
+
+const PAGE_SIZE = 1000;
+const MAX_SCORES = 10000;
+
+type DecisionFilter = 'all' | 'BUY' | 'SELL' | 'HOLD';
+
+function StatTile({ label, value, className = '' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-md border">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`text-lg font-semibold ${className}`}>{value}</p>
+    </div>
+  );
+}
+
+// Confidence bucket vs realized accuracy for scored analyses, per horizon
+export default function DecisionCalibrationCard() {
+  const { user } = useAuth();
+  const [horizon, setHorizon] = useState<ScoreHorizon>(SCORE_HORIZON.ONE_MONTH);
+  const [decisionFilter, setDecisionFilter] = useState<DecisionFilter>('all');
+  const [scores, setScores] = useState<AnalysisScore[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+    const loadScores = async () => {
+      setLoading(true);
+      const loaded: AnalysisScore[] = [];
+
+      for (let from = 0; from < MAX_SCORES; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('analysis_scores')
+          .select('analysis_id, ticker, decision, confidence, decision_date, horizon, ticker_return_pct, benchmark_return_pct, excess_return_pct, correct')
+          .eq('user_id', user.id)
+          .eq('horizon', horizon)
+          .order('decision_date', { ascending: false })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('Error loading decision scores:', error);
+          break;
+        }
+        loaded.push(...((data || []) as AnalysisScore[]));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      if (cancelled) return;
+      setScores(loaded);
+      setLoading(false);
+    };
+
+    loadScores();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, horizon]);
+
+  const filteredScores = useMemo(
+    () => decisionFilter === 'all' ? scores : scores.filter(score => score.decision === decisionFilter),
+    [scores, decisionFilter]
+  );
+
+  const buckets = useMemo(() => buildCalibration(filteredScores), [filteredScores]);
+  const accuracy = calculateAccuracy(filteredScores);
+  const avgExcess = filteredScores.length > 0
+    ? filteredScores.reduce((sum, score) => sum + Number(score.excess_return_pct), 0) / filteredScores.length
+    : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Confidence Calibration
+            </CardTitle>
+            <CardDescription>
+              Share of calls that were right versus {SCORE_BENCHMARK}, by the confidence the agents reported
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={decisionFilter} onValueChange={(value) => setDecisionFilter(value as DecisionFilter)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All calls</SelectItem>
+                <SelectItem value="BUY">BUY</SelectItem>
+                <SelectItem value="SELL">SELL</SelectItem>
+                <SelectItem value="HOLD">HOLD</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={horizon} onValueChange={(value) => setHorizon(value as ScoreHorizon)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SCORE_HORIZON).map(value => (
+                  <SelectItem key={value} value={value}>
+                    {SCORE_HORIZON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-10 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            Loading scores...
+          </div>
+        ) : filteredScores.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No scored calls for this horizon yet. Completed analyses are scored daily once the horizon has closed.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3 mb-4">
+              <StatTile label="Scored Calls" value={String(filteredScores.length)} />
+              <StatTile label="Accuracy" value={accuracy === null ? '—' : `${accuracy.toFixed(1)}%`} />
+              <StatTile label={`Avg vs ${SCORE_BENCHMARK}`} value={formatPercent(avgExcess)} className={percentColor(avgExcess)} />
+            </div>
+            <ResponsiveContainer width="100%" height={260}>
+              <ComposedChart data={buckets}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} domain={[0, 100]} unit="%" />
+                <Tooltip
+                  formatter={(value: number | null, name: string) => [value === null ? '—' : `${value.toFixed(1)}%`, name]}
+                  labelFormatter={(label: string) => {
+                    const bucket = buckets.find(b => b.label === label);
+                    return `Confidence ${label} · ${bucket?.count ?? 0} call(s)`;
+                  }}
+                />
+                <Legend />
+                <Bar dataKey="realizedAccuracy" name="Realized accuracy" fill="#10b981" radius={[4, 4, 0, 0]} />
+                <Line type="linear" dataKey="expectedAccuracy" name="Perfect calibration" stroke="#6b7280" strokeDasharray="4 4" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-muted-foreground mt-3">
+              BUY is right when the ticker beat {SCORE_BENCHMARK}, SELL when it lagged, HOLD when it stayed
+              within ±{HOLD_TOLERANCE_PCT[horizon]}% of {SCORE_BENCHMARK}. Returns run from the next session's open.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
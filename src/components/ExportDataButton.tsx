@@ -0,0 +1,193 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  EXPORT_DATASET_LABELS,
+  EXPORT_FORMAT,
+  downloadExport,
+  type ExportDataset,
+  type ExportFilters,
+  type ExportFormat
+} from "@/lib/dataExport";
+
+interface ExportDataButtonProps {
+  dataset: ExportDataset;
+  defaultFilters?: ExportFilters;
+  statusOptions?: { value: string; label: string }[];
+}
+
+const ALL_STATUSES = 'all';
+
+// Export dialog for the history views; the file is generated by the export-data edge function
+export default function ExportDataButton({ dataset, defaultFilters = {}, statusOptions = [] }: ExportDataButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>(EXPORT_FORMAT.CSV);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [ticker, setTicker] = useState('');
+  const [status, setStatus] = useState(ALL_STATUSES);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      // Start from the filters the view is currently showing
+      setStartDate(defaultFilters.startDate || '');
+      setEndDate(defaultFilters.endDate || '');
+      setTicker(defaultFilters.ticker || '');
+      setStatus(defaultFilters.status || ALL_STATUSES);
+    }
+    setOpen(nextOpen);
+  };
+
+  const dateError = startDate && endDate && startDate > endDate
+    ? 'Start date must be on or before end date'
+    : null;
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const result = await downloadExport(dataset, format, {
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        ticker: ticker.trim().toUpperCase() || undefined,
+        status: status === ALL_STATUSES ? undefined : status
+      });
+      toast({
+        title: "Export ready",
+        description: result.truncated
+          ? `Exported the first ${result.maxRows.toLocaleString()} rows. Narrow the date range to export the rest.`
+          : `${result.rowCount.toLocaleString()} record${result.rowCount === 1 ? '' : 's'} saved to ${result.filename}`,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0 hover:bg-[#fc0]/10 hover:text-[#fc0]"
+          title="Export"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export {EXPORT_DATASET_LABELS[dataset]}</DialogTitle>
+          <DialogDescription>
+            Leave the dates empty to export everything.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor={`${dataset}-export-start`}>From</Label>
+              <Input
+                id={`${dataset}-export-start`}
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${dataset}-export-end`}>To</Label>
+              <Input
+                id={`${dataset}-export-end`}
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor={`${dataset}-export-ticker`}>Ticker</Label>
+              <Input
+                id={`${dataset}-export-ticker`}
+                placeholder="All tickers"
+                value={ticker}
+                onChange={(e) => setTicker(e.target.value)}
+              />
+            </div>
+            {statusOptions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                    {statusOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={EXPORT_FORMAT.CSV}>CSV (spreadsheets)</SelectItem>
+                <SelectItem value={EXPORT_FORMAT.JSON}>JSON (full detail)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {dateError && <p className="text-sm text-red-500">{dateError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={exporting || !!dateError}>
+            {exporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
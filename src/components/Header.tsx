@@ -13,10 +13,13 @@ import {
   UserPlus,
   Activity,
   Menu,
-  Loader2
+  Loader2,
+  FlaskConical
 } from "lucide-react";
 import { useAuth, hasRequiredApiKeys, hasAlpacaCredentials, isSessionValid } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
 import { RoleBadge, RoleGate } from "@/components/RoleBasedAccess";
+import BrokerAccountSwitcher from "@/components/BrokerAccountSwitcher";
 import { useRBAC } from "@/hooks/useRBAC";
 import { supabase } from "@/lib/supabase";
 import {
@@ -37,7 +40,8 @@ import {
 export default function Header() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user, profile, isAuthenticated, logout, apiSettings } = useAuth();
+  const { user, profile, isAuthenticated, logout } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const { getPrimaryRole, isLoading: isRoleLoading } = useRBAC();
   const [runningAnalyses, setRunningAnalyses] = useState(0);
   const [runningRebalances, setRunningRebalances] = useState(0);
@@ -148,6 +152,12 @@ export default function Header() {
                       Analysis Records
                     </Button>
                   </Link>
+                  <Link to="/backtests">
+                    <Button variant="ghost" size="sm">
+                      <FlaskConical className="h-4 w-4 mr-2" />
+                      Backtests
+                    </Button>
+                  </Link>
                   <Link to="/rebalance-records">
                     <Button variant="ghost" size="sm">
                       <RefreshCw className="h-4 w-4 mr-2" />
@@ -167,6 +177,10 @@ export default function Header() {
             <div className="flex items-center gap-2 sm:gap-3">
               {isAuthenticated ? (
                 <>
+                  <div className="hidden md:block">
+                    <BrokerAccountSwitcher />
+                  </div>
+
                   {/* Desktop Profile Dropdown */}
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild className="hidden md:flex">
@@ -284,6 +298,12 @@ export default function Header() {
                           Analysis Records
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link to="/backtests" className="flex items-center">
+                          <FlaskConical className="h-4 w-4 mr-2" />
+                          Backtests
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuItem asChild>
                         <Link to="/rebalance-records" className="flex items-center">
                           <RefreshCw className="h-4 w-4 mr-2" />
@@ -0,0 +1,161 @@
+import type { SyntheticEvent } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type OrderParams,
+  type OrderType,
+  type TimeInForce,
+  ORDER_TYPE,
+  ORDER_TYPE_LABELS,
+  TIME_IN_FORCE_LABELS,
+  getAllowedOrderTypes,
+  getAllowedTimeInForce,
+  requiresLimitPrice,
+  requiresStopPrice
+} from "@/lib/orderTypes";
+
+interface OrderTypeSelectorProps {
+  value: OrderParams;
+  onChange: (value: OrderParams) => void;
+  isCrypto?: boolean;
+  disabled?: boolean;
+  error?: string | null;
+}
+
+const AUTO_TIME_IN_FORCE = 'auto';
+
+// Compact order type / time-in-force / price editor used on trade order cards before approval
+export default function OrderTypeSelector({
+  value,
+  onChange,
+  isCrypto = false,
+  disabled = false,
+  error
+}: OrderTypeSelectorProps) {
+  const allowedTimeInForce = getAllowedTimeInForce(value.orderType, isCrypto);
+
+  const parsePrice = (raw: string): number | null => {
+    if (raw.trim() === '') return null;
+    const num = Number(raw);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const handleOrderTypeChange = (orderType: OrderType) => {
+    const nextAllowed = getAllowedTimeInForce(orderType, isCrypto);
+    onChange({
+      ...value,
+      orderType,
+      timeInForce: value.timeInForce && nextAllowed.includes(value.timeInForce) ? value.timeInForce : null
+    });
+  };
+
+  const handleTimeInForceChange = (tif: string) => {
+    onChange({
+      ...value,
+      timeInForce: tif === AUTO_TIME_IN_FORCE ? null : tif as TimeInForce
+    });
+  };
+
+  const stopPropagation = (e: SyntheticEvent) => e.stopPropagation();
+
+  return (
+    <div className="space-y-2" onClick={stopPropagation}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={value.orderType} onValueChange={(v) => handleOrderTypeChange(v as OrderType)} disabled={disabled}>
+          <SelectTrigger className="h-7 w-[130px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getAllowedOrderTypes(isCrypto).map(type => (
+              <SelectItem key={type} value={type} className="text-xs">
+                {ORDER_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={value.timeInForce || AUTO_TIME_IN_FORCE} onValueChange={handleTimeInForceChange} disabled={disabled}>
+          <SelectTrigger className="h-7 w-[150px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO_TIME_IN_FORCE} className="text-xs">
+              Auto ({isCrypto ? 'GTC' : 'Day'})
+            </SelectItem>
+            {allowedTimeInForce.map(tif => (
+              <SelectItem key={tif} value={tif} className="text-xs">
+                {TIME_IN_FORCE_LABELS[tif]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {requiresStopPrice(value.orderType) && (
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="Stop $"
+            value={value.stopPrice ?? ''}
+            onChange={(e) => onChange({ ...value, stopPrice: parsePrice(e.target.value) })}
+            disabled={disabled}
+            className="h-7 w-[100px] text-xs"
+          />
+        )}
+
+        {requiresLimitPrice(value.orderType) && (
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="Limit $"
+            value={value.limitPrice ?? ''}
+            onChange={(e) => onChange({ ...value, limitPrice: parsePrice(e.target.value) })}
+            disabled={disabled}
+            className="h-7 w-[100px] text-xs"
+          />
+        )}
+
+        {value.orderType === ORDER_TYPE.TRAILING_STOP && (
+          <>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.1"
+              placeholder="Trail %"
+              value={value.trailPercent ?? ''}
+              onChange={(e) => onChange({ ...value, trailPercent: parsePrice(e.target.value), trailPrice: null })}
+              disabled={disabled}
+              className="h-7 w-[90px] text-xs"
+            />
+            <span className="text-xs text-muted-foreground">or</span>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="0.01"
+              placeholder="Trail $"
+              value={value.trailPrice ?? ''}
+              onChange={(e) => onChange({ ...value, trailPrice: parsePrice(e.target.value), trailPercent: null })}
+              disabled={disabled}
+              className="h-7 w-[90px] text-xs"
+            />
+          </>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
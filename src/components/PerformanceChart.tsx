@@ -8,10 +8,25 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { alpacaAPI } from "@/lib/alpaca";
 import { useAuth, isSessionValid, hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
-import { fetchPortfolioDataForPeriod, fetchStockDataForPeriod, type PortfolioData, type StockData, type PortfolioDataPoint } from "@/lib/portfolio-data";
+import { fetchBenchmarkBarsForPeriod, fetchPortfolioDataForPeriod, fetchStockDataForPeriod, type PortfolioData, type StockData, type PortfolioDataPoint } from "@/lib/portfolio-data";
 import { useNavigate } from "react-router-dom";
 import StockTickerAutocomplete from "@/components/StockTickerAutocomplete";
+import BenchmarkSelector from "@/components/performance-chart/BenchmarkSelector";
+import BenchmarkComparisonTable from "@/components/performance-chart/BenchmarkComparisonTable";
+import {
+  BENCHMARK_COLORS,
+  BUILT_IN_BENCHMARKS,
+  MAX_ACTIVE_BENCHMARKS,
+  benchmarkDataKey,
+  buildBenchmarkIndex,
+  calculateBenchmarkComparison,
+  getBenchmarkSymbols,
+  isValidBenchmarkDefinition,
+  type BenchmarkBar,
+  type BenchmarkDefinition
+} from "@/lib/benchmarks";
 
 interface PerformanceChartProps {
   selectedStock?: string;
@@ -119,8 +134,9 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
   const [portfolioData, setPortfolioData] = useState<{ [period: string]: PortfolioDataPoint[] }>({});
   const [stockData, setStockData] = useState<{ [ticker: string]: { [period: string]: PortfolioDataPoint[] } }>({});
   const [positions, setPositions] = useState<any[]>([]);
-  const { apiSettings, isAuthenticated } = useAuth();
-  const hasConfiguredAlpaca = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
+  const { apiSettings, isAuthenticated, updateApiSettings } = useAuth();
+  const activeApiSettings = useActiveApiSettings();
+  const hasConfiguredAlpaca = useMemo(() => hasAlpacaCredentials(activeApiSettings), [activeApiSettings]);
   const [hasAlpacaConfig, setHasAlpacaConfig] = useState(hasConfiguredAlpaca);
   const { toast } = useToast();
 
@@ -132,6 +148,10 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
   // Use prop or internal state
   const selectedStock = propSelectedStock || internalSelectedStock;
 
+  // Benchmark overlays (portfolio view only); bars are cached per period and symbol set
+  const [selectedBenchmarkIds, setSelectedBenchmarkIds] = useState<string[]>([]);
+  const [benchmarkBars, setBenchmarkBars] = useState<{ [key: string]: Record<string, BenchmarkBar[]> }>({});
+
   // Track if we've already fetched for current apiSettings and selectedStock
   const fetchedRef = useRef<string>('');
   const lastFetchTimeRef = useRef<number>(0);
@@ -498,6 +518,115 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
     return dataCopy;
   }, [baseData, metrics, selectedStock, selectedPeriod]);
 
+  const customBenchmarks = useMemo(
+    () => (Array.isArray(apiSettings?.performance_benchmarks) ? apiSettings.performance_benchmarks.filter(isValidBenchmarkDefinition) : []),
+    [apiSettings?.performance_benchmarks]
+  );
+  const customBenchmarkIds = useMemo(() => new Set(customBenchmarks.map(benchmark => benchmark.id)), [customBenchmarks]);
+  const availableBenchmarks = useMemo(() => [...BUILT_IN_BENCHMARKS, ...customBenchmarks], [customBenchmarks]);
+  const selectedBenchmarks = useMemo(
+    () => selectedBenchmarkIds
+      .map(id => availableBenchmarks.find(benchmark => benchmark.id === id))
+      .filter((benchmark): benchmark is BenchmarkDefinition => Boolean(benchmark)),
+    [selectedBenchmarkIds, availableBenchmarks]
+  );
+  const benchmarkSymbols = useMemo(() => getBenchmarkSymbols(selectedBenchmarks), [selectedBenchmarks]);
+  const benchmarkKey = `${selectedPeriod}:${benchmarkSymbols.join(',')}`;
+  const periodStartTimestamp = Number(baseData[0]?.timestamp ?? 0);
+
+  // Fetch benchmark bars through alpaca-batch once the period's portfolio history is known
+  useEffect(() => {
+    if (selectedStock || benchmarkSymbols.length === 0 || !periodStartTimestamp || benchmarkBars[benchmarkKey]) {
+      return;
+    }
+
+    let cancelled = false;
+    fetchBenchmarkBarsForPeriod(benchmarkSymbols, selectedPeriod, periodStartTimestamp)
+      .then(bars => {
+        if (!cancelled) {
+          setBenchmarkBars(prev => ({ ...prev, [benchmarkKey]: bars }));
+        }
+      })
+      .catch(err => {
+        console.warn('Failed to fetch benchmark bars:', err);
+        if (!cancelled) {
+          toast({
+            title: "Benchmark data unavailable",
+            description: err instanceof Error ? err.message : 'Failed to fetch benchmark bars',
+            variant: "destructive",
+          });
+          setSelectedBenchmarkIds([]);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedStock, benchmarkSymbols, selectedPeriod, periodStartTimestamp, benchmarkKey, benchmarkBars, toast]);
+
+  // Benchmark indexes rebased to the portfolio value at the start of the period
+  const benchmarkIndexes = useMemo(() => {
+    const bars = benchmarkBars[benchmarkKey];
+    if (selectedStock || !bars || currentData.length === 0) return [];
+
+    const timestamps = currentData.map(point => Number(point.timestamp ?? 0));
+    return selectedBenchmarks.map(definition => ({
+      definition,
+      index: buildBenchmarkIndex(definition, bars, timestamps)
+    }));
+  }, [benchmarkBars, benchmarkKey, selectedStock, currentData, selectedBenchmarks]);
+
+  const chartData = useMemo(() => {
+    if (benchmarkIndexes.length === 0) return currentData;
+
+    const startValue = currentData[0]?.value || 0;
+    return currentData.map((point, pointIndex) => {
+      const row: Record<string, any> = { ...point };
+      for (const { definition, index } of benchmarkIndexes) {
+        const value = index[pointIndex];
+        row[benchmarkDataKey(definition)] = value === null ? null : startValue * value;
+      }
+      return row;
+    });
+  }, [currentData, benchmarkIndexes]);
+
+  const benchmarkComparisons = useMemo(() => {
+    if (benchmarkIndexes.length === 0) return [];
+
+    const timestamps = currentData.map(point => Number(point.timestamp ?? 0));
+    const portfolioGrowth = currentData.map(point =>
+      Number.isFinite(Number(point.pnlPercent)) ? 1 + Number(point.pnlPercent) / 100 : null
+    );
+    return benchmarkIndexes.map(({ definition, index }) =>
+      calculateBenchmarkComparison(definition, portfolioGrowth, index, timestamps)
+    );
+  }, [currentData, benchmarkIndexes]);
+
+  const handleToggleBenchmark = useCallback((id: string) => {
+    setSelectedBenchmarkIds(prev => {
+      if (prev.includes(id)) return prev.filter(selectedId => selectedId !== id);
+      return prev.length >= MAX_ACTIVE_BENCHMARKS ? prev : [...prev, id];
+    });
+  }, []);
+
+  const handleAddBenchmark = useCallback(async (definition: BenchmarkDefinition) => {
+    await updateApiSettings({ performance_benchmarks: [...customBenchmarks, definition] });
+    setSelectedBenchmarkIds(prev => prev.length >= MAX_ACTIVE_BENCHMARKS ? prev : [...prev, definition.id]);
+  }, [customBenchmarks, updateApiSettings]);
+
+  const handleRemoveBenchmark = useCallback(async (id: string) => {
+    try {
+      await updateApiSettings({ performance_benchmarks: customBenchmarks.filter(benchmark => benchmark.id !== id) });
+      setSelectedBenchmarkIds(prev => prev.filter(selectedId => selectedId !== id));
+    } catch (err) {
+      toast({
+        title: "Failed to remove benchmark",
+        description: err instanceof Error ? err.message : 'Could not update settings',
+        variant: "destructive",
+      });
+    }
+  }, [customBenchmarks, updateApiSettings, toast]);
+
   // Custom tick formatter for X-axis based on period
   const formatXAxisTick = useCallback((value: string) => {
     // For 1M period, show abbreviated format
@@ -551,7 +680,12 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
       return ['auto', 'auto'];
     }
 
-    const values = currentData.map(d => d.value).filter(v => v !== null && v !== undefined && !isNaN(v));
+    // Overlaid benchmarks share the dollar axis, so they widen the domain too
+    const benchmarkValues = benchmarkIndexes.length > 0
+      ? chartData.flatMap(row => benchmarkIndexes.map(({ definition }) => row[benchmarkDataKey(definition)]))
+      : [];
+    const values = [...currentData.map(d => d.value), ...benchmarkValues]
+      .filter(v => v !== null && v !== undefined && !isNaN(v));
 
     if (values.length === 0) {
       return ['auto', 'auto'];
@@ -599,7 +733,7 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
     // Debug logging removed to prevent console spam
 
     return [domainMin, domainMax];
-  }, [currentData, selectedStock, selectedPeriod, firstValue]);
+  }, [currentData, chartData, benchmarkIndexes, selectedStock, selectedPeriod, firstValue]);
 
   const yAxisDomain = useMemo(() => getYAxisDomain(), [getYAxisDomain]);
 
@@ -707,6 +841,17 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
             ))}
           </TabsList>
 
+          {!selectedStock && hasAlpacaConfig && (
+            <BenchmarkSelector
+              benchmarks={availableBenchmarks}
+              customIds={customBenchmarkIds}
+              selectedIds={selectedBenchmarkIds}
+              onToggle={handleToggleBenchmark}
+              onAddCustom={handleAddBenchmark}
+              onRemoveCustom={handleRemoveBenchmark}
+            />
+          )}
+
           {periods.map((period) => (
             <TabsContent key={period.value} value={period.value} className="space-y-4">
               <div className="h-48">
@@ -716,7 +861,7 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
                   </div>
                 ) : currentData.length > 0 ? (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={currentData}>
+                    <LineChart data={chartData}>
                       <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                       <XAxis
                         dataKey="time"
@@ -741,8 +886,8 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
                       />
                       <Tooltip
                         formatter={(value: number, name: string) => [
-                          name === 'value' ? `$${value.toLocaleString()}` : `$${value.toLocaleString()}`,
-                          name === 'value' ? (selectedStock ? 'Stock Price' : 'Portfolio Value') : 'P&L'
+                          `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+                          name === 'value' ? (selectedStock ? 'Stock Price' : 'Portfolio Value') : name
                         ]}
                         labelFormatter={(label) => `Time: ${label}`}
                         contentStyle={{
@@ -777,6 +922,19 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
                         dot={false}
                         activeDot={{ r: 4, fill: isPositive ? "#10b981" : "#ef4444" }}
                       />
+                      {benchmarkIndexes.map(({ definition }, index) => (
+                        <Line
+                          key={definition.id}
+                          type="monotone"
+                          dataKey={benchmarkDataKey(definition)}
+                          name={definition.label}
+                          stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+                          strokeWidth={1.5}
+                          strokeDasharray="4 2"
+                          dot={false}
+                          connectNulls
+                        />
+                      ))}
                       <defs>
                         <linearGradient id="colorGradient" x1="0%" y1="0%" x2="100%" y2="0%">
                           {currentData.map((point, index) => {
@@ -801,6 +959,10 @@ const PerformanceChart = React.memo(({ selectedStock: propSelectedStock, selecte
                 )}
               </div>
 
+              {!selectedStock && (
+                <BenchmarkComparisonTable comparisons={benchmarkComparisons} period={selectedPeriod} />
+              )}
+
               {!selectedStock ? (
                 // Portfolio metrics
                 <div className="space-y-4">
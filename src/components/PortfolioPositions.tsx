@@ -9,6 +9,7 @@ import { alpacaAPI } from "@/lib/alpaca";
 import { formatTickerForDisplay } from "@/lib/tickers";
 import { useAuth, isSessionValid, hasAlpacaCredentials } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
+import { getActivePortfolioId, useActiveApiSettings } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import { useAlpacaConnectionStore } from "@/hooks/useAlpacaConnection";
 import { useRBAC } from "@/hooks/useRBAC";
@@ -55,7 +56,8 @@ interface PortfolioPositionsProps {
 
 export default function PortfolioPositions({ onSelectStock, selectedStock }: PortfolioPositionsProps) {
   const navigate = useNavigate();
-  const { apiSettings, isAuthenticated, user } = useAuth();
+  const { isAuthenticated, user } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const { toast } = useToast();
   const { isConnected: isAlpacaConnected } = useAlpacaConnectionStore();
   const { hasRebalanceAccess } = useRBAC();
@@ -727,6 +729,7 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
             const { data, error } = await supabase.functions.invoke('rebalance-coordinator', {
               body: {
                 userId: user?.id,
+                portfolioId: getActivePortfolioId(),
                 tickers: selectedPositions.map(p => p.ticker),
                 action: 'start-rebalance',
                 targetAllocations,
@@ -47,6 +47,7 @@ import {
   isAlpacaOrderFilled,
   getStatusDisplayText
 } from "@/lib/statusTypes";
+import { type OrderParams, getOrderParamsFromTradeOrder } from "@/lib/orderTypes";
 import AnalysisDetailModal from "./AnalysisDetailModal";
 import RebalanceActionsTab from "./rebalance-detail/RebalanceActionsTab";
 import RebalanceWorkflowTab from "./rebalance-detail/RebalanceWorkflowTab";
@@ -73,6 +74,7 @@ interface RebalancePosition {
   orderStatus?: string;
   alpacaOrderId?: string;
   tradeActionId?: string;
+  orderParams?: OrderParams;
 }
 
 // Custom DialogContent without the default close button
@@ -329,6 +331,7 @@ export default function RebalanceDetailModal({ rebalanceId, isOpen, onClose, reb
 
           // Create a map of ticker to trade action for easier lookup
           const tradeActionMap = new Map();
+          const orderParamsMap = new Map<string, OrderParams>();
 
           tradingActions.forEach(action => {
             const alpacaOrderId = action.metadata?.alpaca_order?.id;
@@ -341,6 +344,7 @@ export default function RebalanceDetailModal({ rebalanceId, isOpen, onClose, reb
             });
 
             tradeActionMap.set(action.ticker, action.id);
+            orderParamsMap.set(action.ticker, getOrderParamsFromTradeOrder(action));
 
             // Update executed/rejected sets based on actual status
             if (isTradeOrderApproved(action.status as TradeOrderStatus)) {
@@ -362,6 +366,10 @@ export default function RebalanceDetailModal({ rebalanceId, isOpen, onClose, reb
             if (tradeActionId) {
               position.tradeActionId = tradeActionId;
             }
+            const orderParams = orderParamsMap.get(position.ticker);
+            if (orderParams) {
+              position.orderParams = orderParams;
+            }
           });
 
           if (mounted) {
@@ -44,6 +44,8 @@ import {
   ChevronRight
 } from 'lucide-react';
 import RebalanceDetailModal from './RebalanceDetailModal';
+import ExportDataButton from './ExportDataButton';
+import { EXPORT_DATASET } from '@/lib/dataExport';
 import {
   type RebalanceStatus,
   REBALANCE_STATUS,
@@ -810,6 +812,15 @@ export default function RebalanceHistoryTable() {
               >
                 <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
               </Button>
+
+              <ExportDataButton
+                dataset={EXPORT_DATASET.REBALANCES}
+                defaultFilters={{ startDate: selectedDate, endDate: selectedDate }}
+                statusOptions={Object.values(REBALANCE_STATUS).map(status => ({
+                  value: status,
+                  label: getStatusDisplayText(status)
+                }))}
+              />
               
               <div className="w-px h-6 bg-border" />
               
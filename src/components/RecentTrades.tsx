@@ -7,6 +7,7 @@ import { alpacaAPI } from "@/lib/alpaca";
 import { useAuth, isSessionValid, hasAlpacaCredentials } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
 import { getCachedSession } from "@/lib/cachedAuth";
+import { scopeToAccount, useActiveApiSettings, useBrokerAccounts } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import AnalysisDetailModal from "@/components/AnalysisDetailModal";
 import RebalanceDetailModal from "@/components/RebalanceDetailModal";
@@ -74,7 +75,9 @@ function RecentTrades() {
   const [selectedAnalysisId, setSelectedAnalysisId] = useState<string | null>(null);
   const [selectedRebalanceId, setSelectedRebalanceId] = useState<string | null>(null);
   const [executingOrderId, setExecutingOrderId] = useState<string | null>(null);
-  const { apiSettings, user, isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const apiSettings = useActiveApiSettings();
+  const activePortfolioId = useBrokerAccounts(state => state.activePortfolioId);
   const hasAlpacaConfig = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
   const { toast } = useToast();
 
@@ -91,12 +94,14 @@ function RecentTrades() {
       const twoDaysAgo = new Date();
       twoDaysAgo.setDate(twoDaysAgo.getDate() - 2);
 
-      const { data, error } = await supabase
-        .from('trading_actions')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('created_at', twoDaysAgo.toISOString())
-        .order('created_at', { ascending: false });
+      const { data, error } = await scopeToAccount(
+        supabase
+          .from('trading_actions')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('created_at', twoDaysAgo.toISOString()),
+        activePortfolioId
+      ).order('created_at', { ascending: false });
 
       if (error) throw error;
 
@@ -138,7 +143,7 @@ function RecentTrades() {
     } finally {
       setLoading(false);
     }
-  }, [user?.id, isAuthenticated, toast]); // isSessionValid is a pure function, doesn't need to be in deps
+  }, [user?.id, isAuthenticated, activePortfolioId, toast]); // isSessionValid is a pure function, doesn't need to be in deps
 
   // Function to update Alpaca order status for approved orders using batch API
   const updateAlpacaOrderStatus = async () => {
@@ -151,12 +156,16 @@ function RecentTrades() {
 
       // Get approved and executed orders with Alpaca IDs in metadata from last 48 hours
       // Include executed orders in case they need status updates (partial fills, etc.)
-      const { data: approvedOrders, error } = await supabase
-        .from('trading_actions')
-        .select('id, metadata, status, created_at')
-        .eq('user_id', user.id)
-        .in('status', ['approved', 'executed'])
-        .gte('created_at', twoDaysAgo.toISOString());
+      // Orders are looked up with the active account's keys, so only sync that account's orders
+      const { data: approvedOrders, error } = await scopeToAccount(
+        supabase
+          .from('trading_actions')
+          .select('id, metadata, status, created_at')
+          .eq('user_id', user.id)
+          .in('status', ['approved', 'executed'])
+          .gte('created_at', twoDaysAgo.toISOString()),
+        activePortfolioId
+      );
 
       if (error || !approvedOrders || approvedOrders.length === 0) {
         console.log('No approved orders found to update');
@@ -192,7 +201,8 @@ function RecentTrades() {
         },
         body: JSON.stringify({
           orderIds: alpacaOrderIds,
-          includeOrders: true
+          includeOrders: true,
+          portfolioId: activePortfolioId
         })
       });
 
@@ -701,7 +711,7 @@ function RecentTrades() {
             className="h-7 w-7"
             onClick={() => {
               fetchAllTrades();
-              const hasCredentials = apiSettings?.alpaca_paper_api_key || apiSettings?.alpaca_live_api_key;
+              const hasCredentials = apiSettings?.simulated_trading || apiSettings?.alpaca_paper_api_key || apiSettings?.alpaca_live_api_key;
               if (hasCredentials) {
                 updateAlpacaOrderStatus();
               }
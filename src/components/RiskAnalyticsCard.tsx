@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, ShieldAlert } from "lucide-react";
+import { alpacaAPI } from "@/lib/alpaca";
+import { formatTickerForDisplay } from "@/lib/tickers";
+import { isSessionValid, hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
+import {
+  RETURN_SOURCE,
+  correlationCellClass,
+  formatRiskValue,
+  type PortfolioRiskReport
+} from "@/lib/riskAnalytics";
+
+function StatTile({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="p-3 rounded-md border">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  );
+}
+
+const formatDollars = (value: number | null) =>
+  value === null ? '' : `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+
+// Beta, volatility, drawdown, VaR and correlations for the connected account
+export default function RiskAnalyticsCard() {
+  const apiSettings = useActiveApiSettings();
+  const [report, setReport] = useState<PortfolioRiskReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const hasAlpacaConfig = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
+
+  const loadReport = useCallback(async () => {
+    if (!isSessionValid() || !hasAlpacaConfig) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await alpacaAPI.getBatchAccountData({ includeRiskAnalytics: true });
+      if (!data.riskAnalytics) {
+        throw new Error('Risk analytics are unavailable right now');
+      }
+      setReport(data.riskAnalytics as PortfolioRiskReport);
+    } catch (err) {
+      console.error('Error loading risk analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load risk analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [hasAlpacaConfig]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (!hasAlpacaConfig) return null;
+
+  const portfolio = report?.portfolio;
+  const confidenceLabel = report ? `${Math.round(report.confidence * 100)}%` : '95%';
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Risk Analytics
+            </CardTitle>
+            <CardDescription>
+              {report
+                ? `${report.startDate} – ${report.endDate} · ${report.portfolio.observations} daily returns vs ${report.benchmark}`
+                : 'Beta, volatility, drawdown and tail risk from your account history'}
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadReport}
+            disabled={loading}
+            className="h-8 w-8 p-0 hover:bg-[#fc0]/10 hover:text-[#fc0]"
+            title="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !report ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error && !report ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : report && portfolio ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <StatTile
+                label={`Beta vs ${report.benchmark}`}
+                value={formatRiskValue(portfolio.beta)}
+                detail={`Correlation ${formatRiskValue(portfolio.correlationToBenchmark)}`}
+              />
+              <StatTile
+                label="Annualized Volatility"
+                value={formatRiskValue(portfolio.annualizedVolatility, '%')}
+                detail={`${report.benchmark} ${formatRiskValue(report.benchmarkMetrics.annualizedVolatility, '%')}`}
+              />
+              <StatTile
+                label="Sharpe / Sortino"
+                value={`${formatRiskValue(portfolio.sharpeRatio)} / ${formatRiskValue(portfolio.sortinoRatio)}`}
+                detail={`Risk-free ${(report.riskFreeRate * 100).toFixed(1)}%`}
+              />
+              <StatTile
+                label="Max Drawdown"
+                value={formatRiskValue(portfolio.maxDrawdown, '%')}
+                detail={`Current ${formatRiskValue(portfolio.currentDrawdown, '%')}`}
+              />
+              <StatTile
+                label={`1-Day VaR (${confidenceLabel})`}
+                value={formatRiskValue(portfolio.valueAtRisk, '%')}
+                detail={formatDollars(portfolio.valueAtRiskDollars)}
+              />
+              <StatTile
+                label={`1-Day CVaR (${confidenceLabel})`}
+                value={formatRiskValue(portfolio.conditionalValueAtRisk, '%')}
+                detail={formatDollars(portfolio.conditionalValueAtRiskDollars)}
+              />
+              <StatTile
+                label="Annualized Return"
+                value={formatRiskValue(portfolio.annualizedReturn, '%')}
+                detail={`${report.benchmark} ${formatRiskValue(report.benchmarkMetrics.annualizedReturn, '%')}`}
+              />
+              <StatTile
+                label="Return Source"
+                value={report.returnSource === RETURN_SOURCE.HOLDINGS ? 'Holdings' : 'Account'}
+                detail={report.returnSource === RETURN_SOURCE.HOLDINGS ? 'Current weights replayed' : 'Daily equity history'}
+              />
+            </div>
+
+            {report.positions.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Weight</TableHead>
+                    <TableHead className="text-right">Beta</TableHead>
+                    <TableHead className="text-right">Volatility</TableHead>
+                    <TableHead className="text-right">Corr. to Portfolio</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.positions.map(position => (
+                    <TableRow key={position.symbol}>
+                      <TableCell className="font-medium">{formatTickerForDisplay(position.symbol)}</TableCell>
+                      <TableCell className="text-right">{position.weight.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{formatRiskValue(position.beta)}</TableCell>
+                      <TableCell className="text-right">{formatRiskValue(position.annualizedVolatility, '%')}</TableCell>
+                      <TableCell className="text-right">{formatRiskValue(position.correlationToPortfolio)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {report.correlation.symbols.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Correlation Matrix</p>
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-collapse">
+                    <thead>
+                      <tr>
+                        <th className="p-1" />
+                        {report.correlation.symbols.map(symbol => (
+                          <th key={symbol} className="p-1 font-medium text-muted-foreground">
+                            {formatTickerForDisplay(symbol)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.correlation.symbols.map((rowSymbol, rowIndex) => (
+                        <tr key={rowSymbol}>
+                          <th className="p-1 pr-2 text-left font-medium text-muted-foreground">
+                            {formatTickerForDisplay(rowSymbol)}
+                          </th>
+                          {report.correlation.values[rowIndex].map((value, columnIndex) => (
+                            <td
+                              key={report.correlation.symbols[columnIndex]}
+                              className={`p-1 text-center border min-w-[3rem] ${correlationCellClass(rowIndex === columnIndex ? null : value)}`}
+                            >
+                              {formatRiskValue(value)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {report.warnings.length > 0 && (
+              <div className="space-y-1">
+                {report.warnings.slice(0, 5).map(warning => (
+                  <p key={warning} className="text-xs text-yellow-600">{warning}</p>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Historical figures from daily returns; past volatility and correlations do not predict future losses.
+            </p>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -44,6 +44,7 @@ import {
 } from "lucide-react";
 import { useAuth } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
+import { getActivePortfolioId, scopeToAccount } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import { useRBAC } from "@/hooks/useRBAC";
 import { getTrueUTCTime, calculateNextRunUTC } from "@/lib/timeUtils";
@@ -109,11 +110,13 @@ export default function ScheduleListModal({ isOpen, onClose }: ScheduleListModal
   const loadSchedules = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('rebalance_schedules')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
+      const { data, error } = await scopeToAccount(
+        supabase
+          .from('rebalance_schedules')
+          .select('*')
+          .eq('user_id', user?.id),
+        getActivePortfolioId()
+      ).order('created_at', { ascending: false });
 
       if (error) throw error;
       setSchedules(data || []);
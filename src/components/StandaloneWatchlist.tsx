@@ -11,6 +11,7 @@ import { supabase } from "@/lib/supabase";
 import { useAuth, isSessionValid, hasAlpacaCredentials } from "@/lib/auth";
 import { useRBAC } from "@/hooks/useRBAC";
 import { alpacaAPI } from "@/lib/alpaca";
+import { getActivePortfolioId, scopeToAccount, useActiveApiSettings } from "@/lib/brokerAccounts";
 import AnalysisDetailModal from "./AnalysisDetailModal";
 import {
   AlertDialog,
@@ -48,7 +49,8 @@ interface StandaloneWatchlistProps {
 }
 
 export default function StandaloneWatchlist({ onSelectStock, selectedStock }: StandaloneWatchlistProps) {
-  const { user, isAuthenticated, apiSettings } = useAuth();
+  const { user, isAuthenticated } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const hasAlpacaConfig = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
   const { getMaxParallelAnalysis, getMaxWatchlistStocks } = useRBAC();
   const { toast } = useToast();
@@ -141,11 +143,13 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('watchlist')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('added_at', { ascending: false });
+      const { data, error } = await scopeToAccount(
+        supabase
+          .from('watchlist')
+          .select('*')
+          .eq('user_id', user.id),
+        getActivePortfolioId()
+      ).order('added_at', { ascending: false });
 
       if (error) throw error;
 
@@ -423,6 +427,7 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
         .from('watchlist')
         .insert({
           user_id: user.id,
+          portfolio_id: getActivePortfolioId(),
           ticker: ticker
         })
         .select()
@@ -589,6 +594,7 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
           body: {
             ticker,
             userId: user?.id,
+            portfolioId: getActivePortfolioId(),
             // No phase/agent - indicates new analysis request
           }
         });
@@ -2,7 +2,8 @@ import { useState, useEffect, useRef, useMemo } from "react";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Loader2 } from "lucide-react";
-import { useAuth, hasAlpacaCredentials } from "@/lib/auth";
+import { hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
 import { alpacaAPI } from "@/lib/alpaca";
 import { cn } from "@/lib/utils";
 
@@ -36,7 +37,7 @@ export default function StockTickerAutocomplete({
   required = false,
   id
 }: StockTickerAutocompleteProps) {
-  const { apiSettings } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const hasAlpacaConfig = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
   const [suggestions, setSuggestions] = useState<StockSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -0,0 +1,256 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, ChevronDown, ChevronRight, Loader2, Receipt, RefreshCw } from "lucide-react";
+import { alpacaAPI } from "@/lib/alpaca";
+import { formatTickerForDisplay } from "@/lib/tickers";
+import { isSessionValid, hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
+import {
+  HOLDING_TERM,
+  TAX_LOT_METHOD_LABELS,
+  WASH_SALE_WINDOW_DAYS,
+  formatGain,
+  gainColor,
+  type TaxLotReport
+} from "@/lib/taxLots";
+
+function StatTile({ label, value, className = '' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-md border">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`text-lg font-semibold ${className}`}>{value}</p>
+    </div>
+  );
+}
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : '—';
+
+// Realized/unrealized P&L by holding term from the account's fill history
+export default function TaxLotsCard() {
+  const apiSettings = useActiveApiSettings();
+  const [report, setReport] = useState<TaxLotReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const hasAlpacaConfig = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
+
+  const loadReport = useCallback(async () => {
+    if (!isSessionValid() || !hasAlpacaConfig) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await alpacaAPI.getBatchAccountData({ includeTaxLots: true });
+      if (!data.taxLots) {
+        throw new Error('Tax lots are unavailable right now');
+      }
+      setReport(data.taxLots as TaxLotReport);
+    } catch (err) {
+      console.error('Error loading tax lots:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tax lots');
+    } finally {
+      setLoading(false);
+    }
+  }, [hasAlpacaConfig]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport, apiSettings?.tax_lot_method]);
+
+  const toggleSymbol = (symbol: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(symbol)) {
+        next.delete(symbol);
+      } else {
+        next.add(symbol);
+      }
+      return next;
+    });
+  };
+
+  if (!hasAlpacaConfig) return null;
+
+  const currentYear = new Date().getFullYear().toString();
+  const yearToDate = report?.realizedByYear[currentYear];
+  const heldPositions = (report?.positions ?? []).filter(position => position.quantity > 0 || position.realizedGain !== 0);
+  const recentWashSales = (report?.washSaleCandidates ?? []).slice(-5).reverse();
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Tax Lots & Realized P&L
+            </CardTitle>
+            <CardDescription>
+              {report ? `${TAX_LOT_METHOD_LABELS[report.method]} · ${report.fillCount} fills` : 'Lots built from your Alpaca fill history'}
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadReport}
+            disabled={loading}
+            className="h-8 w-8 p-0 hover:bg-[#fc0]/10 hover:text-[#fc0]"
+            title="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !report ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error && !report ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : report ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <StatTile
+                label={`Realized ST (${currentYear})`}
+                value={formatGain(yearToDate?.shortTerm ?? 0)}
+                className={gainColor(yearToDate?.shortTerm)}
+              />
+              <StatTile
+                label={`Realized LT (${currentYear})`}
+                value={formatGain(yearToDate?.longTerm ?? 0)}
+                className={gainColor(yearToDate?.longTerm)}
+              />
+              <StatTile
+                label="Unrealized ST"
+                value={formatGain(report.totals.unrealized.shortTerm)}
+                className={gainColor(report.totals.unrealized.shortTerm)}
+              />
+              <StatTile
+                label="Unrealized LT"
+                value={formatGain(report.totals.unrealized.longTerm)}
+                className={gainColor(report.totals.unrealized.longTerm)}
+              />
+              <StatTile
+                label="Wash-sale loss deferred"
+                value={formatGain(-report.totals.disallowedLossEstimate)}
+                className={gainColor(-report.totals.disallowedLossEstimate)}
+              />
+            </div>
+
+            {heldPositions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No fills found for this account yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">Shares</TableHead>
+                    <TableHead className="text-right">Cost Basis</TableHead>
+                    <TableHead className="text-right">Unrealized ST / LT</TableHead>
+                    <TableHead className="text-right">Realized</TableHead>
+                    <TableHead className="text-right">Next Long-Term</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {heldPositions.map(position => {
+                    const isExpanded = expanded.has(position.symbol);
+                    return (
+                      <Fragment key={position.symbol}>
+                        <TableRow
+                          className={position.openLots.length > 0 ? 'cursor-pointer' : ''}
+                          onClick={() => position.openLots.length > 0 && toggleSymbol(position.symbol)}
+                        >
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-1">
+                              {position.openLots.length > 0 && (isExpanded
+                                ? <ChevronDown className="h-3 w-3" />
+                                : <ChevronRight className="h-3 w-3" />)}
+                              {formatTickerForDisplay(position.symbol)}
+                              {position.washSaleWindowEndsAt && (
+                                <Badge
+                                  variant="outline"
+                                  className="ml-1 text-xs border-yellow-500/50 text-yellow-600"
+                                  title={`Buying before ${formatDate(position.washSaleWindowEndsAt)} repurchases into a recent loss sale`}
+                                >
+                                  Wash-sale window
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{position.quantity.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{formatGain(position.costBasis).replace('+', '')}</TableCell>
+                          <TableCell className="text-right">
+                            <span className={gainColor(position.unrealizedShortTerm)}>{formatGain(position.unrealizedShortTerm)}</span>
+                            {' / '}
+                            <span className={gainColor(position.unrealizedLongTerm)}>{formatGain(position.unrealizedLongTerm)}</span>
+                          </TableCell>
+                          <TableCell className={`text-right ${gainColor(position.realizedGain)}`}>
+                            {formatGain(position.realizedGain)}
+                          </TableCell>
+                          <TableCell className="text-right">{formatDate(position.nextLongTermAt)}</TableCell>
+                        </TableRow>
+                        {isExpanded && position.openLots.map(lot => (
+                          <TableRow key={lot.lotId} className="bg-muted/30 text-xs">
+                            <TableCell className="pl-8">
+                              Bought {formatDate(lot.acquiredAt)}
+                              <Badge variant="outline" className="ml-2 text-xs">
+                                {lot.term === HOLDING_TERM.LONG ? 'Long-term' : 'Short-term'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">{lot.quantity.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                              {formatGain(lot.costBasis).replace('+', '')} @ ${lot.costPerShare.toFixed(2)}
+                            </TableCell>
+                            <TableCell className={`text-right ${gainColor(lot.unrealizedGain)}`}>
+                              {formatGain(lot.unrealizedGain)}
+                            </TableCell>
+                            <TableCell />
+                            <TableCell className="text-right">
+                              {lot.term === HOLDING_TERM.LONG ? '—' : formatDate(lot.longTermAt)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {recentWashSales.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  Wash-sale candidates
+                </p>
+                {recentWashSales.map(candidate => (
+                  <p key={candidate.saleId} className="text-xs text-muted-foreground">
+                    {formatTickerForDisplay(candidate.symbol)}: sold {candidate.quantity} shares at a {formatGain(-candidate.loss)} loss on {formatDate(candidate.disposedAt)} with {candidate.replacementQuantity} shares bought within {WASH_SALE_WINDOW_DAYS} days
+                    {' '}(≈{formatGain(-candidate.disallowedLossEstimate)} deferred)
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {report.warnings.length > 0 && (
+              <div className="space-y-1">
+                {report.warnings.slice(0, 5).map(warning => (
+                  <p key={warning} className="text-xs text-yellow-600">{warning}</p>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Estimates from Alpaca fills only; fees, transfers and corporate actions are not included. Not tax advice.
+            </p>
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
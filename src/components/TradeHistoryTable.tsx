@@ -9,9 +9,21 @@ import { ArrowUpRight, ArrowDownRight, Clock, CheckCircle, XCircle, TrendingUp,
 import { useAuth, hasAlpacaCredentials } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
 import { getCachedSession } from "@/lib/cachedAuth";
+import { getActivePortfolioId, scopeToAccount, useActiveApiSettings } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import AnalysisDetailModal from "@/components/AnalysisDetailModal";
 import RebalanceDetailModal from "@/components/RebalanceDetailModal";
+import {
+  EXIT_ORDER_MODE,
+  EXIT_ORDER_STATUS,
+  EXIT_ORDER_MODE_LABELS,
+  EXIT_ORDER_STATUS_LABELS,
+  getExitOrdersFromMetadata,
+  type ExitOrders
+} from "@/lib/exitOrders";
+import ExportDataButton from "@/components/ExportDataButton";
+import { EXPORT_DATASET } from "@/lib/dataExport";
+import { TRADE_ORDER_STATUS, getTradeOrderStatusDisplayText } from "@/lib/statusTypes";
 
 const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY || '';
 
@@ -35,6 +47,7 @@ interface TradeDecision {
   alpacaOrderStatus?: string;
   alpacaFilledQty?: number;
   alpacaFilledPrice?: number;
+  exitOrders?: ExitOrders | null;
   createdAt: string;
 }
 
@@ -85,7 +98,8 @@ export default function TradeHistoryTable() {
   const [selectedRebalanceId, setSelectedRebalanceId] = useState<string | null>(null);
   const [executingOrderId, setExecutingOrderId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("all");
-  const { apiSettings, user } = useAuth();
+  const { user } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const hasAlpacaConfig = useMemo(() => hasAlpacaCredentials(apiSettings), [apiSettings]);
   const { toast } = useToast();
 
@@ -205,6 +219,7 @@ export default function TradeHistoryTable() {
           alpacaOrderStatus: item.metadata?.alpaca_order?.status,
           alpacaFilledQty: item.metadata?.alpaca_order?.filled_qty ? Number(item.metadata.alpaca_order.filled_qty) : undefined,
           alpacaFilledPrice: item.metadata?.alpaca_order?.filled_avg_price ? Number(item.metadata.alpaca_order.filled_avg_price) : undefined,
+          exitOrders: getExitOrdersFromMetadata(item.metadata),
           createdAt: item.created_at
         }));
 
@@ -234,11 +249,16 @@ export default function TradeHistoryTable() {
     try {
       // Get all approved and executed orders with Alpaca IDs in metadata
       // Include executed orders in case they need status updates (partial fills, etc.)
-      const { data: approvedOrders, error } = await supabase
-        .from('trading_actions')
-        .select('id, metadata, status')
-        .eq('user_id', user.id)
-        .in('status', ['approved', 'executed']);
+      // Orders are looked up with the active account's keys, so only sync that account's orders
+      const portfolioId = getActivePortfolioId();
+      const { data: approvedOrders, error } = await scopeToAccount(
+        supabase
+          .from('trading_actions')
+          .select('id, metadata, status')
+          .eq('user_id', user.id)
+          .in('status', ['approved', 'executed']),
+        portfolioId
+      );
 
       if (error || !approvedOrders || approvedOrders.length === 0) {
         console.log('No approved orders found to update');
@@ -252,9 +272,14 @@ export default function TradeHistoryTable() {
         return;
       }
 
-      // Extract all Alpaca order IDs
+      // Extract all Alpaca order IDs, including bracket / OCO exit legs
       const alpacaOrderIds = ordersWithAlpacaIds.map(o => o.metadata.alpaca_order.id);
-      console.log(`Fetching status for ${alpacaOrderIds.length} Alpaca orders:`, alpacaOrderIds);
+      const exitLegIds: string[] = ordersWithAlpacaIds.flatMap(o =>
+        Array.isArray(o.metadata?.exit_orders?.legs)
+          ? o.metadata.exit_orders.legs.map((leg: { id: string }) => leg.id).filter(Boolean)
+          : []
+      );
+      console.log(`Fetching status for ${alpacaOrderIds.length} Alpaca orders and ${exitLegIds.length} exit legs:`, alpacaOrderIds);
 
       // Fetch all orders from Alpaca using batch API
       const session = await getCachedSession();
@@ -271,8 +296,9 @@ export default function TradeHistoryTable() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          orderIds: alpacaOrderIds,
-          includeOrders: true
+          orderIds: [...alpacaOrderIds, ...exitLegIds],
+          includeOrders: true,
+          portfolioId
         })
       });
 
@@ -301,8 +327,27 @@ export default function TradeHistoryTable() {
           const hasStatusChanged = currentAlpacaStatus !== alpacaOrder.status;
           const hasNewFillData = alpacaOrder.filled_qty && alpacaOrder.filled_qty !== currentFilledQty;
 
+          // Refresh exit leg statuses (take profit / stop loss)
+          const exitOrders = order.metadata?.exit_orders;
+          let hasExitLegChanges = false;
+          const refreshedExitLegs = Array.isArray(exitOrders?.legs)
+            ? exitOrders.legs.map((leg: Record<string, unknown>) => {
+              const alpacaLeg = alpacaOrders.find((o: { id: string }) => o.id === leg.id);
+              if (!alpacaLeg || (alpacaLeg.status === leg.status && alpacaLeg.filled_qty === leg.filled_qty)) {
+                return leg;
+              }
+              hasExitLegChanges = true;
+              return {
+                ...leg,
+                status: alpacaLeg.status,
+                filled_qty: alpacaLeg.filled_qty ?? null,
+                filled_avg_price: alpacaLeg.filled_avg_price ?? null
+              };
+            })
+            : null;
+
           // Always update if we don't have a status yet, or if something changed
-          if (!currentAlpacaStatus || hasStatusChanged || hasNewFillData) {
+          if (!currentAlpacaStatus || hasStatusChanged || hasNewFillData || hasExitLegChanges) {
             console.log(`Order ${alpacaOrderId} updating: current status "${currentAlpacaStatus}" -> new status "${alpacaOrder.status}"`);
             hasUpdates = true;
 
@@ -324,7 +369,14 @@ export default function TradeHistoryTable() {
             // Update metadata with latest Alpaca order info
             const updatedMetadata = {
               ...(order.metadata || {}),
-              alpaca_order: alpacaOrderUpdate
+              alpaca_order: alpacaOrderUpdate,
+              ...(hasExitLegChanges ? {
+                exit_orders: {
+                  ...exitOrders,
+                  legs: refreshedExitLegs,
+                  updated_at: new Date().toISOString()
+                }
+              } : {})
             };
 
             const updates: any = {
@@ -509,6 +561,44 @@ export default function TradeHistoryTable() {
     }
   };
 
+  const handleRetryExitOrders = async (decision: TradeDecision) => {
+    setExecutingOrderId(decision.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('execute-trade', {
+        body: {
+          tradeActionId: decision.id,
+          action: 'place_exit_orders'
+        }
+      });
+
+      if (error) throw error;
+
+      if (data.success) {
+        toast({
+          title: "Exit Orders Placed",
+          description: `Take-profit and stop-loss orders placed for ${decision.symbol}.`,
+        });
+      } else {
+        toast({
+          title: "Exit Orders Failed",
+          description: extractErrorMessage(data) || "Failed to place exit orders",
+          variant: "destructive",
+        });
+      }
+
+      fetchAllTrades(false);
+    } catch (err) {
+      console.error('Error placing exit orders:', err);
+      toast({
+        title: "Exit Orders Failed",
+        description: extractErrorMessage(err) || 'Failed to place exit orders',
+        variant: "destructive"
+      });
+    } finally {
+      setExecutingOrderId(null);
+    }
+  };
+
   // Filter trades by status
   const getFilteredTrades = (status?: string) => {
     if (!status || status === 'all') return allTrades;
@@ -566,6 +656,70 @@ export default function TradeHistoryTable() {
     return allItems;
   };
 
+  const getExitLegBadgeClasses = (status: string) => {
+    const normalized = status.toLowerCase();
+    if (normalized === 'filled') return 'border-green-500/50 text-green-600';
+    if (['canceled', 'cancelled', 'expired', 'rejected'].includes(normalized)) return 'border-slate-500/50 text-muted-foreground';
+    return 'border-yellow-500/50 text-yellow-600';
+  };
+
+  const renderExitOrders = (decision: TradeDecision, exitOrders: ExitOrders) => {
+    const takeProfitLeg = exitOrders.legs.find(leg => leg.role === 'take_profit');
+    const stopLossLeg = exitOrders.legs.find(leg => leg.role === 'stop_loss');
+    const takeProfitPrice = takeProfitLeg?.limitPrice ?? exitOrders.takeProfitPrice;
+    const stopLossPrice = stopLossLeg?.stopPrice ?? exitOrders.stopLossPrice;
+
+    return (
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        <span className="text-muted-foreground">
+          {EXIT_ORDER_MODE_LABELS[exitOrders.mode]} exits
+          {exitOrders.qty ? ` (${exitOrders.qty} shares)` : ''}:
+        </span>
+
+        {exitOrders.status === EXIT_ORDER_STATUS.PLACED ? (
+          <>
+            <Badge variant="outline" className={`text-xs ${getExitLegBadgeClasses(takeProfitLeg?.status || 'new')}`}>
+              TP {takeProfitPrice ? `$${takeProfitPrice.toFixed(2)}` : '—'} · {takeProfitLeg?.status || 'new'}
+            </Badge>
+            <Badge variant="outline" className={`text-xs ${getExitLegBadgeClasses(stopLossLeg?.status || 'new')}`}>
+              SL {stopLossPrice ? `$${stopLossPrice.toFixed(2)}` : '—'} · {stopLossLeg?.status || 'new'}
+            </Badge>
+          </>
+        ) : (
+          <Badge
+            variant={exitOrders.status === EXIT_ORDER_STATUS.FAILED ? 'destructive' : 'outline'}
+            className="text-xs"
+          >
+            {EXIT_ORDER_STATUS_LABELS[exitOrders.status]}
+            {exitOrders.status === EXIT_ORDER_STATUS.PENDING_FILL && exitOrders.takeProfitPercent !== null && exitOrders.stopLossPercent !== null &&
+              ` (+${exitOrders.takeProfitPercent}% / -${exitOrders.stopLossPercent}%)`}
+          </Badge>
+        )}
+
+        {exitOrders.error && exitOrders.status !== EXIT_ORDER_STATUS.PLACED && (
+          <span className="text-muted-foreground">{exitOrders.error}</span>
+        )}
+
+        {exitOrders.status === EXIT_ORDER_STATUS.FAILED && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-6 px-2 text-xs"
+            onClick={() => handleRetryExitOrders(decision)}
+            disabled={executingOrderId === decision.id}
+          >
+            {executingOrderId === decision.id ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-3 w-3 mr-1" />
+            )}
+            Retry
+          </Button>
+        )}
+      </div>
+    );
+  };
+
   const renderTradeCard = (decision: TradeDecision, isInGroup = false) => {
     const isPending = decision.status === 'pending';
     const isExecuted = decision.alpacaOrderStatus === 'filled' || decision.alpacaOrderStatus === 'partially_filled';
@@ -788,6 +942,9 @@ export default function TradeHistoryTable() {
           </div>
         </div>
 
+        {/* Bracket / OCO exit orders */}
+        {decision.exitOrders && renderExitOrders(decision, decision.exitOrders)}
+
         {/* Metadata - at bottom of card */}
         <div className="flex items-center gap-2 text-xs text-muted-foreground border-t border-slate-800 pt-2">
           {decision.agent && !decision.agent.toLowerCase().includes('portfolio') && (
@@ -903,6 +1060,15 @@ export default function TradeHistoryTable() {
             >
               <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
             </Button>
+
+            <ExportDataButton
+              dataset={EXPORT_DATASET.TRADES}
+              defaultFilters={{ startDate: selectedDate, endDate: selectedDate }}
+              statusOptions={Object.values(TRADE_ORDER_STATUS).map(status => ({
+                value: status,
+                label: getTradeOrderStatusDisplayText(status)
+              }))}
+            />
             
             <div className="w-px h-6 bg-border" />
             
@@ -24,6 +24,9 @@ import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/lib/auth";
 import { formatDistanceToNow } from "date-fns";
 import AnalysisDetailModal from "./AnalysisDetailModal";
+import DecisionCalibrationCard from "./DecisionCalibrationCard";
+import ExportDataButton from "./ExportDataButton";
+import { EXPORT_DATASET } from "@/lib/dataExport";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -876,6 +879,15 @@ export default function UnifiedAnalysisHistory() {
               >
                 <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
               </Button>
+
+              <ExportDataButton
+                dataset={EXPORT_DATASET.ANALYSES}
+                defaultFilters={{ startDate: selectedDate, endDate: selectedDate }}
+                statusOptions={Object.values(ANALYSIS_STATUS).map(status => ({
+                  value: status,
+                  label: getStatusDisplayText(status)
+                }))}
+              />
               
               <div className="w-px h-6 bg-border" />
               
@@ -1566,6 +1578,11 @@ export default function UnifiedAnalysisHistory() {
         </CardContent>
       </Card>
 
+      {/* Forward-return scorecard of completed calls */}
+      <div className="mt-6">
+        <DecisionCalibrationCard />
+      </div>
+
       {/* Analysis Detail Modal */}
       {(selectedTicker || selectedViewAnalysisId) && (
         <AnalysisDetailModal
@@ -11,10 +11,11 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import TradeOrderCard from "./TradeOrderCard";
 import RebalanceDetailModal from "@/components/RebalanceDetailModal";
+import type { OrderParams } from "@/lib/orderTypes";
 
 interface AnalysisActionsTabProps {
   analysisData: any;
-  handleApproveOrder: () => void;
+  handleApproveOrder: (orderParams?: OrderParams) => void;
   handleRejectOrder: () => void;
   isOrderExecuted: boolean;
   isExecuting?: boolean;
@@ -116,6 +117,7 @@ export default function AnalysisActionsTab({
       <div>
         <h3 className="text-lg font-semibold mb-3">Trade Order</h3>
         <TradeOrderCard
+          key={analysisData.tradeOrder?.id || 'no-trade-order'}
           analysisData={analysisData}
           onApprove={handleApproveOrder}
           onReject={handleRejectOrder}
@@ -27,6 +27,8 @@ import MarkdownRenderer from "../MarkdownRenderer";
 import MarketAnalystInsight from "./MarketAnalystInsight";
 import FundamentalsAnalystInsight from "./FundamentalsAnalystInsight";
 import SourcesSection, { CompactSourceBadges } from "./SourcesSection";
+import { getWorkflowGraph } from "@/lib/workflowGraph";
+import { getCustomAnalystAgentName } from "@/lib/customAnalysts";
 
 interface AnalysisInsightsTabProps {
   analysisData: any;
@@ -100,6 +102,15 @@ export default function AnalysisInsightsTab({
     'portfolioManager': 16
   };
 
+  // Custom analysts are keyed by agent name and sort after the built-in agents of their phase
+  const customAnalysts = new Map(
+    (getWorkflowGraph(analysisData.full_analysis).customAnalysts || [])
+      .map(custom => [getCustomAnalystAgentName(custom.id), custom] as const)
+  );
+  customAnalysts.forEach((custom, agentKey) => {
+    orderMap[agentKey] = custom.phase === 'risk' ? 14.5 : 5.5;
+  });
+
   // Sort entries based on the defined order
   // Get entries from agent_insights
   let entries = Object.entries(analysisData.agent_insights);
@@ -407,14 +418,16 @@ export default function AnalysisInsightsTab({
           />;
         }
 
-        // Special rendering for Fundamentals Analyst with data
-        if (agent === 'fundamentalsAnalyst' && additionalData) {
+        // Special rendering for Fundamentals Analyst with data or structured financials
+        const fundamentals = typeof insight === 'object' && insight !== null ? (insight as any).fundamentals ?? null : null;
+        if (agent === 'fundamentalsAnalyst' && (additionalData || fundamentals)) {
           const isCollapsed = collapsedCards.has(agent);
           return <FundamentalsAnalystInsight 
             key={agent} 
             id={`insight-${agent}`} 
             insightContent={insightContent} 
             additionalData={additionalData}
+            fundamentals={fundamentals}
             isCollapsed={isCollapsed}
             onToggleCollapse={() => toggleCollapse(agent)}
           />;
@@ -457,9 +470,11 @@ export default function AnalysisInsightsTab({
           );
         }
 
-        // Check if this agent has sources (News, Social Media, Fundamentals, Macro analysts)
-        const hasPerplefinaSources = ['newsAnalyst', 'socialMediaAnalyst', 'fundamentalsAnalyst', 'macroAnalyst'].includes(agent);
+        // Check if this agent has sources (News, Social Media, Fundamentals, Macro and custom analysts)
+        const customAnalyst = customAnalysts.get(agent);
+        const hasPerplefinaSources = !!customAnalyst || ['newsAnalyst', 'socialMediaAnalyst', 'fundamentalsAnalyst', 'macroAnalyst'].includes(agent);
         const sources = hasPerplefinaSources && insight?.sources ? insight.sources : null;
+        const agentName = customAnalyst ? customAnalyst.name : formatAgentName(agent);
 
         // Default rendering for all other agents
         const isCollapsed = collapsedCards.has(agent);
@@ -470,14 +485,17 @@ export default function AnalysisInsightsTab({
                 <CardHeader className="bg-muted/30 cursor-pointer hover:bg-muted/40 transition-colors">
                   <CardTitle className="text-base flex items-center justify-between">
                     <div className="flex items-center gap-2 flex-1 min-w-0">
-                      {getAgentIcon(agent)}
-                      <span className="shrink-0">{formatAgentName(agent)}</span>
+                      {customAnalyst ? <Brain className="w-4 h-4" /> : getAgentIcon(agent)}
+                      <span className="shrink-0">{agentName}</span>
+                      {customAnalyst && (
+                        <Badge variant="outline" className="text-xs shrink-0">Custom</Badge>
+                      )}
                       
                       {/* Show compact source badges when collapsed */}
                       {isCollapsed && sources && sources.length > 0 && (
                         <CompactSourceBadges 
                           sources={sources} 
-                          agentName={formatAgentName(agent)}
+                          agentName={agentName}
                           maxVisible={3}
                           showLabels={false}
                         />
@@ -505,7 +523,7 @@ export default function AnalysisInsightsTab({
                   {sources && sources.length > 0 && (
                     <SourcesSection 
                       sources={sources} 
-                      agentName={formatAgentName(agent)} 
+                      agentName={agentName} 
                     />
                   )}
                 </CardContent>
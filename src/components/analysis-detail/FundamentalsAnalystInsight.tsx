@@ -8,10 +8,13 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import MarkdownRenderer from "../MarkdownRenderer";
+import FundamentalsTables from "./FundamentalsTables";
+import type { FundamentalsSnapshot } from "@/lib/fundamentals";
 
 interface FundamentalsAnalystInsightProps {
   insightContent: string;
   additionalData: any;
+  fundamentals?: FundamentalsSnapshot | null;
   id?: string;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
@@ -20,6 +23,7 @@ interface FundamentalsAnalystInsightProps {
 export default function FundamentalsAnalystInsight({ 
   insightContent,
   additionalData,
+  fundamentals,
   id,
   isCollapsed = false,
   onToggleCollapse
@@ -93,6 +97,7 @@ export default function FundamentalsAnalystInsight({
             )}
           </div>
         )}
+        {fundamentals && <FundamentalsTables fundamentals={fundamentals} />}
         <MarkdownRenderer content={insightContent} />
       </CardContent>
         </CollapsibleContent>
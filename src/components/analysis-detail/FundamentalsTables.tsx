@@ -0,0 +1,154 @@
+import { ExternalLink, FileCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  formatFundamentalsValue,
+  type FundamentalsSnapshot,
+  type FundamentalsStatement
+} from "@/lib/fundamentals";
+
+interface FundamentalsTablesProps {
+  fundamentals: FundamentalsSnapshot;
+}
+
+const STATEMENT_TABS = [
+  { id: 'income', label: 'Income', statement: 'incomeStatement' },
+  { id: 'balance', label: 'Balance Sheet', statement: 'balanceSheet' },
+  { id: 'cash', label: 'Cash Flow', statement: 'cashFlow' },
+  { id: 'ratios', label: 'Ratios', statement: 'ratios' }
+] as const;
+
+const CalculatedMark = () => (
+  <span className="ml-1 text-[10px] text-muted-foreground" title="Calculated from reported figures">calc</span>
+);
+
+function StatementTable({ statement }: { statement: FundamentalsStatement }) {
+  if (statement.items.length === 0) {
+    return <p className="text-xs text-muted-foreground py-2">Not reported in the filings.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="text-xs">Line Item</TableHead>
+          {statement.periods.map(period => (
+            <TableHead key={period.periodEnd} className="text-xs text-right" title={`Period ended ${period.periodEnd}${period.form ? ` · ${period.form} filed ${period.filed}` : ''}`}>
+              {period.label}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {statement.items.map(item => (
+          <TableRow key={item.key}>
+            <TableCell className="text-xs font-medium" title={item.concept ?? 'Calculated from reported figures'}>
+              {item.label}
+              {item.source === 'calculated' && <CalculatedMark />}
+            </TableCell>
+            {item.values.map((value, index) => (
+              <TableCell key={index} className={`text-xs text-right ${value !== null && value < 0 ? 'text-danger' : ''}`}>
+                {formatFundamentalsValue(value, item.unit)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Statements, ratios and quarterly earnings from the structured fundamentals provider
+export default function FundamentalsTables({ fundamentals }: FundamentalsTablesProps) {
+  const periods = fundamentals.incomeStatement.periods;
+  const latestFiling = periods.find(period => period.form);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="font-semibold text-sm flex items-center gap-2">
+          <FileCheck className="w-4 h-4" />
+          Reported Financials
+          <Badge variant="outline" className="text-xs">
+            {fundamentals.currency}
+          </Badge>
+        </h4>
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          Source: {fundamentals.sourceUrl ? (
+            <a
+              href={fundamentals.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 underline underline-offset-2 hover:text-foreground"
+            >
+              {fundamentals.providerLabel}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          ) : fundamentals.providerLabel}
+        </span>
+      </div>
+
+      <Tabs defaultValue="income">
+        <TabsList className="w-full p-1">
+          {STATEMENT_TABS.map(tab => (
+            <TabsTrigger key={tab.id} value={tab.id} className="flex-1 text-xs data-[state=active]:bg-background">
+              {tab.label}
+            </TabsTrigger>
+          ))}
+          {fundamentals.earnings.length > 0 && (
+            <TabsTrigger value="earnings" className="flex-1 text-xs data-[state=active]:bg-background">
+              Earnings
+            </TabsTrigger>
+          )}
+        </TabsList>
+        {STATEMENT_TABS.map(tab => (
+          <TabsContent key={tab.id} value={tab.id}>
+            <StatementTable statement={fundamentals[tab.statement]} />
+          </TabsContent>
+        ))}
+        {fundamentals.earnings.length > 0 && (
+          <TabsContent value="earnings">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Quarter</TableHead>
+                  <TableHead className="text-xs text-right">Revenue</TableHead>
+                  <TableHead className="text-xs text-right">Net Income</TableHead>
+                  <TableHead className="text-xs text-right">EPS (Diluted)</TableHead>
+                  <TableHead className="text-xs text-right">Revenue YoY</TableHead>
+                  <TableHead className="text-xs text-right">EPS YoY</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fundamentals.earnings.map(record => (
+                  <TableRow key={record.period.periodEnd}>
+                    <TableCell className="text-xs font-medium" title={`Period ended ${record.period.periodEnd}`}>
+                      {record.period.label}
+                      {record.derived && <CalculatedMark />}
+                    </TableCell>
+                    <TableCell className="text-xs text-right">{formatFundamentalsValue(record.revenue, 'USD')}</TableCell>
+                    <TableCell className="text-xs text-right">{formatFundamentalsValue(record.netIncome, 'USD')}</TableCell>
+                    <TableCell className="text-xs text-right">{formatFundamentalsValue(record.epsDiluted, 'USD/share')}</TableCell>
+                    <TableCell className={`text-xs text-right ${(record.revenueGrowthYoY ?? 0) < 0 ? 'text-danger' : ''}`}>
+                      {formatFundamentalsValue(record.revenueGrowthYoY, 'percent')}
+                    </TableCell>
+                    <TableCell className={`text-xs text-right ${(record.epsGrowthYoY ?? 0) < 0 ? 'text-danger' : ''}`}>
+                      {formatFundamentalsValue(record.epsGrowthYoY, 'percent')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <p className="text-[11px] text-muted-foreground">
+        Figures as reported in company filings{latestFiling?.filed ? `, latest ${latestFiling.form} filed ${latestFiling.filed}` : ''}.
+        Rows marked calc are calculated from reported figures; a calc quarter is the fiscal year less the other three quarters.
+        The analysis below combines these with web research.
+      </p>
+    </div>
+  );
+}
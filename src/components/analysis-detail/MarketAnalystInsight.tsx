@@ -1,7 +1,9 @@
-import React from "react";
+import React, { useState } from "react";
 import { 
   Activity,
   BarChart3,
+  Layers,
+  Shapes,
   FileText,
   ChevronDown,
   ChevronUp
@@ -15,7 +17,114 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import MarkdownRenderer from "../MarkdownRenderer";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea, ReferenceDot } from 'recharts';
+
+const TOOLTIP_CONTENT_STYLE = {
+  backgroundColor: '#1f2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#f9fafb',
+  fontSize: '12px',
+  boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)'
+};
+
+// Price chart overlays the user can toggle; the first two match the original chart
+const PRICE_OVERLAYS = [
+  { id: 'moving_averages', label: 'Moving Averages', series: 'sma_20' },
+  { id: 'bollinger', label: 'Bollinger', series: 'bollinger_upper' },
+  { id: 'keltner', label: 'Keltner', series: 'keltner_upper' },
+  { id: 'ichimoku', label: 'Ichimoku', series: 'ichimoku_tenkan' },
+  { id: 'vwap', label: 'VWAP', series: 'vwap' },
+  { id: 'parabolic_sar', label: 'Parabolic SAR', series: 'parabolic_sar' },
+  { id: 'pivot_points', label: 'Pivots', series: null },
+  { id: 'volume_profile', label: 'Volume Profile', series: null },
+  { id: 'patterns', label: 'Patterns', series: null }
+] as const;
+
+type PriceOverlay = typeof PRICE_OVERLAYS[number]['id'];
+
+const TREND_BADGE_CLASSES: Record<string, string> = {
+  bullish: 'bg-green-500/10 text-green-600 border-green-500/30',
+  bearish: 'bg-red-500/10 text-red-600 border-red-500/30',
+  neutral: 'bg-muted text-muted-foreground'
+};
+
+const PATTERN_COLORS: Record<string, string> = {
+  bullish: '#22c55e',
+  bearish: '#ef4444',
+  neutral: '#6b7280'
+};
+
+const ALIGNMENT_LABELS: Record<string, string> = {
+  aligned_bullish: 'Aligned Bullish',
+  aligned_bearish: 'Aligned Bearish',
+  mixed: 'Mixed',
+  neutral: 'No Clear Trend'
+};
+
+const ALIGNMENT_BADGE_CLASSES: Record<string, string> = {
+  aligned_bullish: TREND_BADGE_CLASSES.bullish,
+  aligned_bearish: TREND_BADGE_CLASSES.bearish,
+  mixed: 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-400 border-yellow-500/30',
+  neutral: TREND_BADGE_CLASSES.neutral
+};
+
+const hasSeries = (series: any) => Array.isArray(series) && series.some((v: any) => typeof v === 'number' && !isNaN(v));
+
+interface OscillatorLine {
+  dataKey: string;
+  name: string;
+  color: string;
+}
+
+interface OscillatorChartProps {
+  title: string;
+  data: any[];
+  lines: OscillatorLine[];
+  referenceLines: number[];
+  domain?: [number, number];
+}
+
+function OscillatorChart({ title, data, lines, referenceLines, domain }: OscillatorChartProps) {
+  return (
+    <div className="space-y-2">
+      <h5 className="text-xs font-medium text-muted-foreground">{title}</h5>
+      <div className="h-32 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis
+              dataKey="dateShort"
+              fontSize={8}
+              interval={Math.floor(data.length / 6)}
+            />
+            <YAxis domain={domain ?? ['auto', 'auto']} fontSize={8} />
+            <Tooltip
+              contentStyle={TOOLTIP_CONTENT_STYLE}
+              labelStyle={{ color: '#d1d5db', fontWeight: 'bold' }}
+              formatter={(value: any, name: string) => [typeof value === 'number' ? value.toFixed(2) : value, name]}
+              labelFormatter={(label: string) => `Date: ${label}`}
+            />
+            {referenceLines.map(y => (
+              <ReferenceLine key={y} y={y} stroke="#6b7280" strokeDasharray="3 3" opacity={0.5} />
+            ))}
+            {lines.map(line => (
+              <Line
+                key={line.dataKey}
+                type="monotone"
+                dataKey={line.dataKey}
+                stroke={line.color}
+                strokeWidth={1}
+                dot={false}
+                name={line.name}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
 
 interface MarketAnalystInsightProps {
   insight: any;
@@ -39,6 +148,22 @@ export default function MarketAnalystInsight({
   const technicalIndicators = insight?.technical_indicators || {};
   const analysisRange = insight?.data?.analysisRange || additionalData?.analysisRange;
   const dataPoints = insight?.data?.dataPoints || additionalData?.dataPoints;
+  const pivotPoints = technicalIndicators.pivot_points;
+  const multiTimeframe = insight?.multi_timeframe;
+  const volumeProfile = technicalIndicators.volume_profile;
+  const patterns: any[] = insight?.patterns || [];
+  const [activeOverlays, setActiveOverlays] = useState<PriceOverlay[]>(['moving_averages', 'bollinger', 'patterns']);
+  
+  const availableOverlays = PRICE_OVERLAYS.filter(overlay => {
+    if (overlay.id === 'pivot_points') return !!pivotPoints;
+    if (overlay.id === 'volume_profile') return !!volumeProfile;
+    if (overlay.id === 'patterns') return patterns.length > 0;
+    return hasSeries(technicalIndicators[overlay.series]);
+  });
+  const showOverlay = (id: PriceOverlay) => activeOverlays.includes(id) && availableOverlays.some(o => o.id === id);
+  const toggleOverlay = (id: PriceOverlay) => {
+    setActiveOverlays(current => current.includes(id) ? current.filter(o => o !== id) : [...current, id]);
+  };
   
   // Format data for candlestick chart
   const chartData = marketHistorical.map((price: any, index: number) => ({
@@ -59,8 +184,37 @@ export default function MarketAnalystInsight({
     macd: technicalIndicators.macd?.[index],
     macd_signal: technicalIndicators.macd_signal?.[index],
     bollinger_upper: technicalIndicators.bollinger_upper?.[index],
-    bollinger_lower: technicalIndicators.bollinger_lower?.[index]
+    bollinger_lower: technicalIndicators.bollinger_lower?.[index],
+    keltner_upper: technicalIndicators.keltner_upper?.[index],
+    keltner_lower: technicalIndicators.keltner_lower?.[index],
+    ichimoku_tenkan: technicalIndicators.ichimoku_tenkan?.[index],
+    ichimoku_kijun: technicalIndicators.ichimoku_kijun?.[index],
+    ichimoku_senkou_a: technicalIndicators.ichimoku_senkou_a?.[index],
+    ichimoku_senkou_b: technicalIndicators.ichimoku_senkou_b?.[index],
+    vwap: technicalIndicators.vwap?.[index],
+    anchored_vwap: technicalIndicators.anchored_vwap?.[index],
+    parabolic_sar: technicalIndicators.parabolic_sar?.[index],
+    adx: technicalIndicators.adx?.[index],
+    plus_di: technicalIndicators.plus_di?.[index],
+    minus_di: technicalIndicators.minus_di?.[index],
+    cci: technicalIndicators.cci?.[index],
+    mfi: technicalIndicators.mfi?.[index],
+    williams_r: technicalIndicators.williams_r?.[index]
   })).filter((d: any) => d.close); // Filter out any invalid data points
+
+  // Pattern bar indices point into market_historical; annotate at those bars' x values
+  const patternX = (index: number) => {
+    const bar = marketHistorical[index];
+    return bar ? new Date(bar.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : null;
+  };
+  const patternMarkers = patterns
+    .map((pattern: any) => {
+      const bar = marketHistorical[pattern.endIndex];
+      if (!bar) return null;
+      const y = pattern.bias === 'bullish' ? bar.low : pattern.bias === 'bearish' ? bar.high : bar.close;
+      return { ...pattern, x: patternX(pattern.endIndex), startX: patternX(pattern.startIndex), y };
+    })
+    .filter((marker: any) => marker && marker.x);
   
   return (
     <Collapsible open={!isCollapsed}>
@@ -129,13 +283,62 @@ export default function MarketAnalystInsight({
           </div>
         )}
         
+        {/* Multi-Timeframe Alignment */}
+        {multiTimeframe?.timeframes?.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-semibold text-sm flex items-center gap-2">
+              <Layers className="w-4 h-4" />
+              Multi-Timeframe Alignment
+              <Badge variant="outline" className={`text-xs ${ALIGNMENT_BADGE_CLASSES[multiTimeframe.alignment] || ''}`}>
+                {ALIGNMENT_LABELS[multiTimeframe.alignment] || multiTimeframe.alignment}
+              </Badge>
+            </h4>
+            <p className="text-xs text-muted-foreground">{multiTimeframe.summary}</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {multiTimeframe.timeframes.map((trend: any) => (
+                <div key={trend.timeframe} className="p-3 border rounded-lg text-xs space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{trend.label}</span>
+                    <Badge variant="outline" className={`text-xs capitalize ${TREND_BADGE_CLASSES[trend.direction] || ''}`}>
+                      {trend.direction} {trend.score > 0 ? `+${trend.score}` : trend.score}
+                    </Badge>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {trend.bars} × {trend.barSize} bars · close ${trend.close?.toFixed(2)}
+                  </div>
+                  <div className="flex gap-3">
+                    <span>RSI <span className="font-medium">{trend.rsi?.toFixed(1) ?? 'N/A'}</span></span>
+                    <span>ADX <span className="font-medium">{trend.adx?.toFixed(1) ?? 'N/A'}</span></span>
+                    {trend.strength && <span className="text-muted-foreground capitalize">{trend.strength}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Historical Price Chart */}
         {chartData.length > 0 && (
           <div className="space-y-4">
             <h4 className="font-semibold text-sm flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
-              Historical Price & Moving Averages
+              Historical Price & Overlays
             </h4>
+            {availableOverlays.length > 2 && (
+              <div className="flex flex-wrap gap-1">
+                {availableOverlays.map(overlay => (
+                  <Button
+                    key={overlay.id}
+                    variant={activeOverlays.includes(overlay.id) ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => toggleOverlay(overlay.id)}
+                  >
+                    {overlay.label}
+                  </Button>
+                ))}
+              </div>
+            )}
             <div className="h-64 w-full">
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={chartData}>
@@ -184,7 +387,7 @@ export default function MarketAnalystInsight({
                     name="Close Price"
                   />
                   {/* Moving Averages */}
-                  {technicalIndicators.sma_20 && (
+                  {showOverlay('moving_averages') && technicalIndicators.sma_20 && (
                     <Line 
                       type="monotone" 
                       dataKey="sma_20" 
@@ -195,7 +398,7 @@ export default function MarketAnalystInsight({
                       strokeDasharray="5 5"
                     />
                   )}
-                  {technicalIndicators.sma_50 && (
+                  {showOverlay('moving_averages') && technicalIndicators.sma_50 && (
                     <Line 
                       type="monotone" 
                       dataKey="sma_50" 
@@ -206,7 +409,7 @@ export default function MarketAnalystInsight({
                       strokeDasharray="10 5"
                     />
                   )}
-                  {technicalIndicators.sma_200 && (
+                  {showOverlay('moving_averages') && technicalIndicators.sma_200 && (
                     <Line 
                       type="monotone" 
                       dataKey="sma_200" 
@@ -218,7 +421,7 @@ export default function MarketAnalystInsight({
                     />
                   )}
                   {/* Bollinger Bands */}
-                  {technicalIndicators.bollinger_upper && (
+                  {showOverlay('bollinger') && (
                     <>
                       <Line 
                         type="monotone" 
@@ -240,12 +443,197 @@ export default function MarketAnalystInsight({
                       />
                     </>
                   )}
+                  {/* Keltner Channels */}
+                  {showOverlay('keltner') && (
+                    <>
+                      <Line
+                        type="monotone"
+                        dataKey="keltner_upper"
+                        stroke="#06b6d4"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Keltner Upper"
+                        strokeDasharray="2 2"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="keltner_lower"
+                        stroke="#06b6d4"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Keltner Lower"
+                        strokeDasharray="2 2"
+                      />
+                    </>
+                  )}
+                  {/* Ichimoku Cloud */}
+                  {showOverlay('ichimoku') && (
+                    <>
+                      <Line
+                        type="monotone"
+                        dataKey="ichimoku_tenkan"
+                        stroke="#f43f5e"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Tenkan"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="ichimoku_kijun"
+                        stroke="#0ea5e9"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Kijun"
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="ichimoku_senkou_a"
+                        stroke="#22c55e"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Senkou A"
+                        opacity={0.6}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="ichimoku_senkou_b"
+                        stroke="#ef4444"
+                        strokeWidth={1}
+                        dot={false}
+                        name="Senkou B"
+                        opacity={0.6}
+                      />
+                    </>
+                  )}
+                  {/* VWAP */}
+                  {showOverlay('vwap') && (
+                    <>
+                      <Line
+                        type="monotone"
+                        dataKey="vwap"
+                        stroke="#a855f7"
+                        strokeWidth={1.5}
+                        dot={false}
+                        name="VWAP"
+                      />
+                      {hasSeries(technicalIndicators.anchored_vwap) && (
+                        <Line
+                          type="monotone"
+                          dataKey="anchored_vwap"
+                          stroke="#ec4899"
+                          strokeWidth={1.5}
+                          dot={false}
+                          name="Anchored VWAP"
+                          strokeDasharray="6 3"
+                        />
+                      )}
+                    </>
+                  )}
+                  {/* Parabolic SAR - dots only */}
+                  {showOverlay('parabolic_sar') && (
+                    <Line
+                      type="monotone"
+                      dataKey="parabolic_sar"
+                      stroke="#f97316"
+                      strokeWidth={0}
+                      dot={{ r: 1.5, fill: '#f97316', strokeWidth: 0 }}
+                      activeDot={false}
+                      name="Parabolic SAR"
+                    />
+                  )}
+                  {/* Pivot Points */}
+                  {showOverlay('pivot_points') && (['s2', 's1', 'pivot', 'r1', 'r2'] as const).map(level => (
+                    <ReferenceLine
+                      key={level}
+                      y={pivotPoints[level]}
+                      stroke={level === 'pivot' ? '#6b7280' : level.startsWith('r') ? '#ef4444' : '#22c55e'}
+                      strokeDasharray="4 4"
+                      opacity={0.6}
+                      label={{ value: level === 'pivot' ? 'P' : level.toUpperCase(), position: 'right', fontSize: 9 }}
+                    />
+                  ))}
+                  {/* Volume Profile - value area and point of control */}
+                  {showOverlay('volume_profile') && (
+                    <>
+                      <ReferenceArea
+                        y1={volumeProfile.value_area_low}
+                        y2={volumeProfile.value_area_high}
+                        fill="#eab308"
+                        fillOpacity={0.08}
+                      />
+                      <ReferenceLine
+                        y={volumeProfile.poc}
+                        stroke="#eab308"
+                        strokeWidth={1.5}
+                        label={{ value: 'POC', position: 'right', fontSize: 9 }}
+                      />
+                    </>
+                  )}
+                  {/* Detected patterns - chart pattern levels span the pattern, markers sit on the last bar */}
+                  {showOverlay('patterns') && patternMarkers.map((marker: any) => (
+                    <React.Fragment key={`${marker.pattern}-${marker.startIndex}-${marker.endIndex}`}>
+                      {marker.kind === 'chart' && marker.level != null && marker.startX && (
+                        <ReferenceLine
+                          segment={[{ x: marker.startX, y: marker.level }, { x: marker.x, y: marker.level }]}
+                          stroke={PATTERN_COLORS[marker.bias]}
+                          strokeDasharray={marker.confirmed ? undefined : '4 2'}
+                          opacity={0.7}
+                          ifOverflow="extendDomain"
+                        />
+                      )}
+                      <ReferenceDot
+                        x={marker.x}
+                        y={marker.y}
+                        r={marker.kind === 'chart' ? 4 : 3}
+                        fill={PATTERN_COLORS[marker.bias]}
+                        stroke="none"
+                        ifOverflow="extendDomain"
+                        label={marker.kind === 'chart'
+                          ? { value: marker.label, position: marker.bias === 'bullish' ? 'bottom' : 'top', fontSize: 9 }
+                          : undefined}
+                      />
+                    </React.Fragment>
+                  ))}
                 </LineChart>
               </ResponsiveContainer>
             </div>
           </div>
         )}
         
+        {/* Detected Patterns */}
+        {patterns.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-semibold text-sm flex items-center gap-2">
+              <Shapes className="w-4 h-4" />
+              Detected Patterns
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {patterns.map((pattern: any) => (
+                <div key={`${pattern.pattern}-${pattern.startIndex}-${pattern.endIndex}`} className="p-3 border rounded-lg text-xs space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{pattern.label}</span>
+                    <div className="flex items-center gap-1">
+                      {pattern.kind === 'chart' && (
+                        <Badge variant="outline" className="text-xs">
+                          {pattern.confirmed ? 'Confirmed' : 'Forming'}
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className={`text-xs capitalize ${TREND_BADGE_CLASSES[pattern.bias] || ''}`}>
+                        {pattern.bias} {Math.round(pattern.confidence * 100)}%
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {pattern.startDate === pattern.endDate ? pattern.endDate : `${pattern.startDate} → ${pattern.endDate}`}
+                    {' · '}<span className="capitalize">{pattern.kind}</span>
+                  </div>
+                  <div>{pattern.description}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Technical Indicators */}
         {Object.keys(technicalIndicators).length > 0 && (
           <div className="space-y-4">
@@ -373,6 +761,46 @@ export default function MarketAnalystInsight({
               </div>
             )}
             
+            {/* Trend strength and oscillators */}
+            {hasSeries(technicalIndicators.adx) && (
+              <OscillatorChart
+                title="ADX / DMI"
+                data={chartData}
+                lines={[
+                  { dataKey: 'adx', name: 'ADX', color: '#3b82f6' },
+                  { dataKey: 'plus_di', name: '+DI', color: '#22c55e' },
+                  { dataKey: 'minus_di', name: '-DI', color: '#ef4444' }
+                ]}
+                referenceLines={[25]}
+              />
+            )}
+            {hasSeries(technicalIndicators.cci) && (
+              <OscillatorChart
+                title="CCI (Commodity Channel Index)"
+                data={chartData}
+                lines={[{ dataKey: 'cci', name: 'CCI', color: '#3b82f6' }]}
+                referenceLines={[100, 0, -100]}
+              />
+            )}
+            {hasSeries(technicalIndicators.mfi) && (
+              <OscillatorChart
+                title="MFI (Money Flow Index)"
+                data={chartData}
+                lines={[{ dataKey: 'mfi', name: 'MFI', color: '#3b82f6' }]}
+                referenceLines={[80, 20]}
+                domain={[0, 100]}
+              />
+            )}
+            {hasSeries(technicalIndicators.williams_r) && (
+              <OscillatorChart
+                title="Williams %R"
+                data={chartData}
+                lines={[{ dataKey: 'williams_r', name: 'Williams %R', color: '#3b82f6' }]}
+                referenceLines={[-20, -80]}
+                domain={[-100, 0]}
+              />
+            )}
+            
             {/* Indicators Summary */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2 p-3 bg-muted/30 rounded-lg text-xs">
               {technicalIndicators.sma_20 && (
@@ -403,6 +831,34 @@ export default function MarketAnalystInsight({
                   </span>
                 </div>
               )}
+              {hasSeries(technicalIndicators.adx) && (
+                <div>
+                  <span className="text-muted-foreground">ADX:</span>
+                  <span className="ml-1 font-medium">
+                    {technicalIndicators.adx[technicalIndicators.adx.length - 1]?.toFixed(1) || 'N/A'}
+                  </span>
+                </div>
+              )}
+              {hasSeries(technicalIndicators.vwap) && (
+                <div>
+                  <span className="text-muted-foreground">VWAP:</span>
+                  <span className="ml-1 font-medium">
+                    ${technicalIndicators.vwap[technicalIndicators.vwap.length - 1]?.toFixed(2) || 'N/A'}
+                  </span>
+                </div>
+              )}
+              {volumeProfile && (
+                <div>
+                  <span className="text-muted-foreground">POC:</span>
+                  <span className="ml-1 font-medium">${volumeProfile.poc.toFixed(2)}</span>
+                </div>
+              )}
+              {pivotPoints && (
+                <div>
+                  <span className="text-muted-foreground">Pivot:</span>
+                  <span className="ml-1 font-medium">${pivotPoints.pivot.toFixed(2)}</span>
+                </div>
+              )}
               {insight?.metadata && (
                 <div>
                   <span className="text-muted-foreground">Indicators:</span>
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import {
   Activity,
   AlertCircle,
@@ -14,6 +15,13 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import OrderTypeSelector from "@/components/OrderTypeSelector";
+import {
+  type OrderParams,
+  formatOrderParams,
+  getOrderParamsError,
+  getOrderParamsFromTradeOrder
+} from "@/lib/orderTypes";
 // Import centralized status system
 import {
   type TradeOrderStatus,
@@ -30,7 +38,7 @@ import {
 
 interface TradeOrderCardProps {
   analysisData: any;
-  onApprove: () => void;
+  onApprove: (orderParams?: OrderParams) => void;
   onReject: () => void;
   isExecuted?: boolean;
   isExecuting?: boolean;
@@ -47,6 +55,9 @@ export default function TradeOrderCard({
   // Use the actual trade order data if available (from trading_actions table)
   const tradeOrder = analysisData.tradeOrder;
 
+  // Order type / time in force / prices chosen before approval (seeded from the stored order)
+  const [orderParams, setOrderParams] = useState<OrderParams>(() => getOrderParamsFromTradeOrder(tradeOrder));
+
   // Use Portfolio Manager's decision if available, preferring trade order action
   const decision = tradeOrder?.action ||
     analysisData.agent_insights?.portfolioManager?.finalDecision?.action ||
@@ -203,6 +214,8 @@ export default function TradeOrderCard({
   const alpacaOrderId = tradeOrder?.alpacaOrderId;
   const alpacaOrderStatus = tradeOrder?.alpacaOrderStatus;
   const isOrderExecuted = alpacaOrderStatus === ALPACA_ORDER_STATUS.FILLED || isExecuted;
+  const canEditOrder = isPending && !isApproved && !isRejected && (decision === 'BUY' || decision === 'SELL');
+  const orderParamsError = canEditOrder ? getOrderParamsError(orderParams, decision) : null;
 
   // Determine card background based on status and action
   const getCardClasses = () => {
@@ -273,6 +286,11 @@ export default function TradeOrderCard({
                   rejected
                 </Badge>
               )}
+              {tradeOrder && !canEditOrder && (
+                <Badge variant="outline" className="text-xs">
+                  {formatOrderParams(orderParams)}
+                </Badge>
+              )}
             </div>
             <p className="text-xs text-muted-foreground line-clamp-2">
               {portfolioManagerInsight?.rationale || 'Trade order ready for execution'}
@@ -407,9 +425,9 @@ export default function TradeOrderCard({
                 className="h-7 px-3 text-xs border-green-500/50 text-green-600 hover:bg-green-500/10 hover:border-green-500"
                 onClick={(e) => {
                   e.stopPropagation();
-                  onApprove();
+                  onApprove(orderParams);
                 }}
-                disabled={isExecuting}
+                disabled={isExecuting || !!orderParamsError}
               >
                 {isExecuting ? (
                   <Loader2 className="h-3 w-3 mr-1 animate-spin" />
@@ -436,6 +454,17 @@ export default function TradeOrderCard({
         </div>
       </div>
 
+      {/* Order type selection - only while the order awaits approval */}
+      {canEditOrder && tradeOrder && (
+        <OrderTypeSelector
+          value={orderParams}
+          onChange={setOrderParams}
+          isCrypto={ticker?.includes('/')}
+          disabled={isExecuting}
+          error={orderParamsError}
+        />
+      )}
+
       {/* Additional Details - Confidence and Portfolio Impact */}
       <div className="space-y-3">
         {/* Confidence Level */}
@@ -44,6 +44,8 @@ import {
   REBALANCE_STATUS,
   getStatusDisplayText
 } from "@/lib/statusTypes";
+import { getWorkflowGraph, getWorkflowStepLayout } from "@/lib/workflowGraph";
+import { getCustomAnalystAgentName } from "@/lib/customAnalysts";
 
 interface WorkflowStepsLayoutProps {
   analysisData: any;
@@ -134,6 +136,18 @@ export default function WorkflowStepsLayout({
     });
   }
 
+  // Only show the phases and agents of the graph this analysis ran with, in its order
+  const workflowGraph = getWorkflowGraph(analysisData.full_analysis);
+  const visibleSteps = getWorkflowStepLayout(workflowGraph)
+    .flatMap(({ phaseId, agentKeys }) => {
+      const step = workflowSteps.find(s => s.id === phaseId);
+      if (!step) return [];
+      const customAgents = (workflowGraph.customAnalysts || [])
+        .filter(custom => agentKeys.includes(getCustomAnalystAgentName(custom.id)))
+        .map(custom => ({ name: custom.name, key: getCustomAnalystAgentName(custom.id), icon: Brain }));
+      return [{ ...step, agents: [...step.agents.filter(agent => agentKeys.includes(agent.key)), ...customAgents] }];
+    });
+
   const getAgentStatus = (agentKey: string, stepId?: string) => {
     // Check if analysis is cancelled
     const isAnalysisCancelled = analysisData.status === ANALYSIS_STATUS.CANCELLED || 
@@ -167,6 +181,9 @@ export default function WorkflowStepsLayout({
       for (const step of analysisData.workflowSteps) {
         // Find the agent in workflow steps by matching names
         const agent = step.agents?.find((a: any) => {
+          // Custom analysts are tracked under their agent name
+          if (a.name === agentKey || a.functionName === agentKey) return true;
+
           const agentNameLower = a.name.toLowerCase().replace(/\s+/g, '');
           const keyLower = agentKey.toLowerCase();
           
@@ -401,7 +418,7 @@ export default function WorkflowStepsLayout({
         );
       })()}
 
-      {workflowSteps.map((step, stepIndex) => {
+      {visibleSteps.map((step, stepIndex) => {
         const Icon = step.icon;
         
         // Check if overall analysis is cancelled first
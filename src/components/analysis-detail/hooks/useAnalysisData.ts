@@ -225,7 +225,13 @@ export function useAnalysisData({ ticker, analysisId, analysisDate, isOpen }: Us
               beforeShares: order.metadata?.beforePosition?.shares,
               afterShares: order.metadata?.afterPosition?.shares,
               beforeValue: order.metadata?.beforePosition?.value,
-              afterValue: order.metadata?.afterPosition?.value
+              afterValue: order.metadata?.afterPosition?.value,
+              orderType: order.order_type || 'market',
+              timeInForce: order.time_in_force,
+              limitPrice: order.limit_price != null ? parseFloat(order.limit_price) : null,
+              stopPrice: order.stop_price != null ? parseFloat(order.stop_price) : null,
+              trailPercent: order.trail_percent != null ? parseFloat(order.trail_percent) : null,
+              trailPrice: order.trail_price != null ? parseFloat(order.trail_price) : null
             };
           }
 
@@ -11,6 +11,7 @@ import {
   isAlpacaOrderTerminal,
   isAlpacaOrderFilled
 } from "@/lib/statusTypes";
+import type { OrderParams } from "@/lib/orderTypes";
 
 interface UseOrderActionsProps {
   analysisData: any;
@@ -118,7 +119,7 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
   };
 
   // Handle order approval
-  const handleApproveOrder = async () => {
+  const handleApproveOrder = async (orderParams?: OrderParams) => {
     if (!analysisData?.tradeOrder?.id) {
       toast({
         title: "Error",
@@ -133,6 +134,7 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
       console.log('Approving order with data:', {
         tradeActionId: analysisData.tradeOrder.id,
         action: 'approve',
+        orderParams,
         analysisData: analysisData
       });
 
@@ -145,7 +147,8 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
       const { data, error } = await supabase.functions.invoke('execute-trade', {
         body: {
           tradeActionId: analysisData.tradeOrder.id,
-          action: 'approve'
+          action: 'approve',
+          orderParams
         }
       });
 
@@ -172,7 +175,8 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
             ...analysisData.tradeOrder,
             status: TRADE_ORDER_STATUS.APPROVED,
             alpacaOrderId: data.alpacaOrderId,
-            alpacaOrderStatus: data.alpacaStatus
+            alpacaOrderStatus: data.alpacaStatus,
+            ...(orderParams || {})
           };
           updateAnalysisData({
             tradeOrder: updatedTradeOrder
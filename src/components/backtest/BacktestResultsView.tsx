@@ -0,0 +1,244 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { AlertCircle } from "lucide-react";
+import {
+  BACKTEST_STATUS,
+  BACKTEST_SOURCE_LABELS,
+  formatPercent,
+  percentColor,
+  type BacktestRun,
+  type BacktestSummary
+} from "@/lib/backtest";
+
+interface BacktestResultsViewProps {
+  run: BacktestRun;
+}
+
+const MAX_TRADE_ROWS = 200;
+
+function StatTile({ label, value, className = '' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 rounded-md border">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className={`text-lg font-semibold ${className}`}>{value}</p>
+    </div>
+  );
+}
+
+export default function BacktestResultsView({ run }: BacktestResultsViewProps) {
+  const results = run.results;
+  const [curveKey, setCurveKey] = useState('all');
+
+  const selectedSummary: BacktestSummary | null = useMemo(() => {
+    if (!results) return null;
+    if (curveKey === 'all') return results.overall;
+    return results.configurations.find(c => c.configKey === curveKey) || results.overall;
+  }, [results, curveKey]);
+
+  const skipReasons = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const skip of results?.skipped || []) {
+      counts.set(skip.reason, (counts.get(skip.reason) || 0) + 1);
+    }
+    return Array.from(counts.entries());
+  }, [results]);
+
+  const configLabels = useMemo(
+    () => new Map((results?.configurations || []).map(c => [c.configKey, c.configLabel])),
+    [results]
+  );
+
+  if (run.status === BACKTEST_STATUS.ERROR) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{run.error_message || 'Backtest failed'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!results || !selectedSummary) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center text-muted-foreground">
+          This backtest is still running.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { parameters } = run;
+  const overall = results.overall;
+  const trades = [...results.trades].sort((a, b) => b.entryDate.localeCompare(a.entryDate));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{run.name}</CardTitle>
+          <CardDescription>
+            {BACKTEST_SOURCE_LABELS[parameters.source]} from {parameters.startDate} to {parameters.endDate} ·
+            held {parameters.holdingDays} sessions · {parameters.positionSizePct}% per call · vs {parameters.benchmark}
+            {parameters.minConfidence > 0 && ` · confidence ≥ ${parameters.minConfidence}%`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+            <StatTile label="Trades" value={`${results.tradesSimulated} / ${results.decisionsConsidered}`} />
+            <StatTile label="Hit Rate" value={overall.hitRate === null ? '—' : `${overall.hitRate.toFixed(1)}%`} />
+            <StatTile label="Total Return" value={formatPercent(overall.totalReturnPct)} className={percentColor(overall.totalReturnPct)} />
+            <StatTile label={`${parameters.benchmark} Return`} value={formatPercent(overall.benchmarkReturnPct)} className={percentColor(overall.benchmarkReturnPct)} />
+            <StatTile label="Avg Excess / Call" value={formatPercent(overall.avgExcessReturnPct)} className={percentColor(overall.avgExcessReturnPct)} />
+            <StatTile label="Max Drawdown" value={overall.maxDrawdownPct ? `-${overall.maxDrawdownPct.toFixed(2)}%` : '0.00%'} />
+          </div>
+          {skipReasons.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-3">
+              Not simulated: {skipReasons.map(([reason, count]) => `${count} × ${reason.toLowerCase()}`).join(', ')}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedSummary.equityCurve.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-base">Equity Curve</CardTitle>
+              {results.configurations.length > 1 && (
+                <Select value={curveKey} onValueChange={setCurveKey}>
+                  <SelectTrigger className="w-[280px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All configurations</SelectItem>
+                    {results.configurations.map(config => (
+                      <SelectItem key={config.configKey} value={config.configKey}>
+                        {config.configLabel}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={selectedSummary.equityCurve}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={40} />
+                <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} />
+                <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                <Legend />
+                <Line type="monotone" dataKey="equity" name="Strategy" stroke="#10b981" dot={false} strokeWidth={2} />
+                <Line type="monotone" dataKey="benchmark" name={parameters.benchmark} stroke="#6b7280" dot={false} strokeDasharray="4 4" />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">By Agent Configuration</CardTitle>
+          <CardDescription>
+            Analyses run before configuration tracking was added are grouped as "Unrecorded configuration".
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Configuration</TableHead>
+                <TableHead className="text-right text-xs">Trades</TableHead>
+                <TableHead className="text-right text-xs">Hit Rate</TableHead>
+                <TableHead className="text-right text-xs">Avg Return</TableHead>
+                <TableHead className="text-right text-xs">Avg Excess</TableHead>
+                <TableHead className="text-right text-xs">Total</TableHead>
+                <TableHead className="text-right text-xs">Max DD</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.configurations.map(config => (
+                <TableRow key={config.configKey}>
+                  <TableCell className="text-xs max-w-[280px]">{config.configLabel}</TableCell>
+                  <TableCell className="text-right text-xs">
+                    {config.trades}
+                    <span className="text-muted-foreground"> ({config.buys}B/{config.sells}S)</span>
+                  </TableCell>
+                  <TableCell className="text-right text-xs">{config.hitRate === null ? '—' : `${config.hitRate.toFixed(1)}%`}</TableCell>
+                  <TableCell className={`text-right text-xs ${percentColor(config.avgReturnPct)}`}>{formatPercent(config.avgReturnPct)}</TableCell>
+                  <TableCell className={`text-right text-xs ${percentColor(config.avgExcessReturnPct)}`}>{formatPercent(config.avgExcessReturnPct)}</TableCell>
+                  <TableCell className={`text-right text-xs ${percentColor(config.totalReturnPct)}`}>{formatPercent(config.totalReturnPct)}</TableCell>
+                  <TableCell className="text-right text-xs">-{config.maxDrawdownPct.toFixed(2)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Simulated Trades</CardTitle>
+          {trades.length > MAX_TRADE_ROWS && (
+            <CardDescription>Showing the {MAX_TRADE_ROWS} most recent of {trades.length} trades</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Ticker</TableHead>
+                <TableHead className="text-xs">Call</TableHead>
+                <TableHead className="text-xs">Entry</TableHead>
+                <TableHead className="text-xs">Exit</TableHead>
+                <TableHead className="text-right text-xs">Return</TableHead>
+                <TableHead className="text-right text-xs">vs {parameters.benchmark}</TableHead>
+                <TableHead className="text-xs">Configuration</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trades.slice(0, MAX_TRADE_ROWS).map(trade => (
+                <TableRow key={trade.decisionId}>
+                  <TableCell className="text-xs font-medium">{trade.ticker}</TableCell>
+                  <TableCell className="text-xs">
+                    <Badge variant={trade.action === 'BUY' ? 'buy' : 'sell'} className="text-xs">
+                      {trade.action}
+                    </Badge>
+                    {trade.confidence !== null && (
+                      <span className="text-muted-foreground ml-1">{trade.confidence}%</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {trade.entryDate}
+                    <div className="text-muted-foreground">${trade.entryPrice.toFixed(2)}</div>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {trade.exitDate}
+                    <div className="text-muted-foreground">${trade.exitPrice.toFixed(2)}</div>
+                  </TableCell>
+                  <TableCell className={`text-right text-xs ${percentColor(trade.returnPct)}`}>{formatPercent(trade.returnPct)}</TableCell>
+                  <TableCell className={`text-right text-xs ${percentColor(trade.excessReturnPct)}`}>{formatPercent(trade.excessReturnPct)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[220px] truncate">
+                    {configLabels.get(trade.configKey) || trade.configKey}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BACKTEST_SOURCE,
+  BACKTEST_SOURCE_LABELS,
+  DEFAULT_BACKTEST_PARAMETERS,
+  type BacktestSource
+} from "@/lib/backtest";
+
+interface BacktestRunFormProps {
+  onRunComplete: (runId: string | null) => void;
+}
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const defaultStartDate = () => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - 6);
+  return toDateInput(date);
+};
+
+export default function BacktestRunForm({ onRunComplete }: BacktestRunFormProps) {
+  const { toast } = useToast();
+  const [running, setRunning] = useState(false);
+  const [name, setName] = useState('');
+  const [source, setSource] = useState<BacktestSource>(BACKTEST_SOURCE.ANALYSIS);
+  const [startDate, setStartDate] = useState(defaultStartDate());
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [holdingDays, setHoldingDays] = useState(String(DEFAULT_BACKTEST_PARAMETERS.holdingDays));
+  const [benchmark, setBenchmark] = useState(DEFAULT_BACKTEST_PARAMETERS.benchmark);
+  const [minConfidence, setMinConfidence] = useState(String(DEFAULT_BACKTEST_PARAMETERS.minConfidence));
+  const [positionSizePct, setPositionSizePct] = useState(String(DEFAULT_BACKTEST_PARAMETERS.positionSizePct));
+  const [includeSells, setIncludeSells] = useState(DEFAULT_BACKTEST_PARAMETERS.includeSells);
+  const [tickers, setTickers] = useState('');
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('run-backtest', {
+        body: {
+          name: name.trim() || undefined,
+          source,
+          startDate,
+          endDate,
+          holdingDays: Number(holdingDays),
+          benchmark: benchmark.trim().toUpperCase(),
+          minConfidence: Number(minConfidence),
+          positionSizePct: Number(positionSizePct),
+          includeSells,
+          tickers: tickers.split(',').map(t => t.trim().toUpperCase()).filter(Boolean)
+        }
+      });
+
+      if (error) {
+        if (data?.error) {
+          throw new Error(data.error);
+        }
+        throw error;
+      }
+      if (!data?.success) {
+        throw new Error(data?.error || 'Backtest failed');
+      }
+
+      toast({
+        title: "Backtest complete",
+        description: `${data.results.tradesSimulated} of ${data.results.decisionsConsidered} decisions simulated`,
+      });
+      onRunComplete(data.runId);
+    } catch (error) {
+      console.error('Backtest failed:', error);
+      toast({
+        title: "Backtest failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive",
+      });
+      onRunComplete(null);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          New Backtest
+        </CardTitle>
+        <CardDescription>
+          Replay past calls against daily prices. Each call is bought (or shorted, for SELL) at the next session's open and closed after the holding period.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Name</Label>
+          <Input placeholder="Optional" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Decisions</Label>
+          <Select value={source} onValueChange={(value) => setSource(value as BacktestSource)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(BACKTEST_SOURCE).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {BACKTEST_SOURCE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Holding Period (sessions)</Label>
+            <Input type="number" min="1" max="252" value={holdingDays} onChange={(e) => setHoldingDays(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Benchmark</Label>
+            <Input value={benchmark} onChange={(e) => setBenchmark(e.target.value)} className="uppercase" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Min Confidence (%)</Label>
+            <Input type="number" min="0" max="100" value={minConfidence} onChange={(e) => setMinConfidence(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Size per Call (%)</Label>
+            <Input type="number" min="1" max="100" value={positionSizePct} onChange={(e) => setPositionSizePct(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Tickers</Label>
+          <Input placeholder="All tickers (or e.g. AAPL, MSFT)" value={tickers} onChange={(e) => setTickers(e.target.value)} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="backtest-include-sells">Score SELL calls as shorts</Label>
+          <Switch id="backtest-include-sells" checked={includeSells} onCheckedChange={setIncludeSells} />
+        </div>
+
+        <Button onClick={handleRun} disabled={running} className="w-full">
+          {running ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Running...
+            </>
+          ) : (
+            <>
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Run Backtest
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { History, Loader2, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { BACKTEST_STATUS, BACKTEST_SOURCE_LABELS, formatPercent, percentColor, type BacktestRun } from "@/lib/backtest";
+
+interface BacktestRunListProps {
+  runs: BacktestRun[];
+  loading: boolean;
+  selectedRunId: string | null;
+  onSelect: (runId: string) => void;
+  onDelete: (runId: string) => void;
+}
+
+export default function BacktestRunList({ runs, loading, selectedRunId, onSelect, onDelete }: BacktestRunListProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Previous Runs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            Loading runs...
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No backtests yet</p>
+        ) : (
+          runs.map(run => (
+            <div
+              key={run.id}
+              onClick={() => onSelect(run.id)}
+              className={`p-3 rounded-md border cursor-pointer transition-colors ${selectedRunId === run.id ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{run.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {BACKTEST_SOURCE_LABELS[run.source]} · {formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(run.id);
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <div className="mt-2">
+                {run.status === BACKTEST_STATUS.COMPLETED && run.results ? (
+                  <span className={`text-xs font-medium ${percentColor(run.results.overall.totalReturnPct)}`}>
+                    {formatPercent(run.results.overall.totalReturnPct)} · {run.results.tradesSimulated} trades
+                  </span>
+                ) : run.status === BACKTEST_STATUS.ERROR ? (
+                  <Badge variant="error" className="text-xs">Failed</Badge>
+                ) : (
+                  <Badge variant="running" className="text-xs">Running</Badge>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BENCHMARK_COLORS, type BenchmarkComparison } from "@/lib/benchmarks";
+import { RISK_FREE_RATE } from "@/lib/riskAnalytics";
+
+interface BenchmarkComparisonTableProps {
+  comparisons: BenchmarkComparison[];
+  period: string;
+}
+
+const formatPercent = (value: number | null, signed = true): string => {
+  if (value === null || !Number.isFinite(value)) return '—';
+  return `${signed && value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const signClass = (value: number | null): string => {
+  if (value === null || value === 0) return '';
+  return value > 0 ? 'text-success' : 'text-danger';
+};
+
+// Period return, excess return, alpha, beta and tracking error against each overlaid benchmark
+export default function BenchmarkComparisonTable({ comparisons, period }: BenchmarkComparisonTableProps) {
+  if (comparisons.length === 0) return null;
+
+  return (
+    <div className="pt-4 border-t space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-xs">Benchmark ({period})</TableHead>
+            <TableHead className="text-xs text-right">Return</TableHead>
+            <TableHead className="text-xs text-right">Excess</TableHead>
+            <TableHead className="text-xs text-right">Alpha</TableHead>
+            <TableHead className="text-xs text-right">Beta</TableHead>
+            <TableHead className="text-xs text-right">Tracking Error</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {comparisons.map((comparison, index) => (
+            <TableRow key={comparison.benchmarkId}>
+              <TableCell className="text-xs font-medium">
+                <span className="flex items-center gap-1.5">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: BENCHMARK_COLORS[index % BENCHMARK_COLORS.length] }}
+                  />
+                  {comparison.label}
+                </span>
+              </TableCell>
+              <TableCell className={`text-xs text-right ${signClass(comparison.benchmarkReturn)}`}>
+                {formatPercent(comparison.benchmarkReturn)}
+              </TableCell>
+              <TableCell className={`text-xs text-right ${signClass(comparison.excessReturn)}`}>
+                {formatPercent(comparison.excessReturn)}
+              </TableCell>
+              <TableCell className={`text-xs text-right ${signClass(comparison.alpha)}`}>
+                {formatPercent(comparison.alpha)}
+              </TableCell>
+              <TableCell className="text-xs text-right">
+                {comparison.beta === null ? '—' : comparison.beta.toFixed(2)}
+              </TableCell>
+              <TableCell className="text-xs text-right">
+                {formatPercent(comparison.trackingError, false)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-[11px] text-muted-foreground">
+        Portfolio return {formatPercent(comparisons[0].portfolioReturn)} from account P&L, so deposits and withdrawals are excluded.
+        Alpha is Jensen's alpha for the period with a {(RISK_FREE_RATE * 100).toFixed(0)}% risk-free rate; tracking error is annualized from the chart points.
+      </p>
+    </div>
+  );
+}
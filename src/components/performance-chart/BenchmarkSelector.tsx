@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Plus, X } from "lucide-react";
+import {
+  BENCHMARK_COLORS,
+  MAX_ACTIVE_BENCHMARKS,
+  MAX_CUSTOM_BENCHMARKS,
+  parseBenchmarkInput,
+  type BenchmarkDefinition
+} from "@/lib/benchmarks";
+
+interface BenchmarkSelectorProps {
+  benchmarks: BenchmarkDefinition[];
+  customIds: Set<string>;
+  selectedIds: string[];
+  onToggle: (id: string) => void;
+  onAddCustom: (definition: BenchmarkDefinition) => Promise<void>;
+  onRemoveCustom: (id: string) => Promise<void>;
+}
+
+// Benchmark toggles above the portfolio chart, plus custom tickers and static baskets
+export default function BenchmarkSelector({
+  benchmarks,
+  customIds,
+  selectedIds,
+  onToggle,
+  onAddCustom,
+  onRemoveCustom
+}: BenchmarkSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [composition, setComposition] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    const { definition, error: parseError } = parseBenchmarkInput(composition, label);
+    if (!definition) {
+      setError(parseError || 'Invalid benchmark');
+      return;
+    }
+    if (benchmarks.some(benchmark => benchmark.id === definition.id)) {
+      setError('That benchmark is already in the list');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onAddCustom(definition);
+      setLabel("");
+      setComposition("");
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save benchmark');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-muted-foreground">Compare:</span>
+      {benchmarks.map(benchmark => {
+        const selectedIndex = selectedIds.indexOf(benchmark.id);
+        const isSelected = selectedIndex >= 0;
+        return (
+          <div key={benchmark.id} className="flex items-center">
+            <Button
+              variant={isSelected ? "secondary" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onToggle(benchmark.id)}
+              disabled={!isSelected && selectedIds.length >= MAX_ACTIVE_BENCHMARKS}
+              title={benchmark.components.map(component => `${component.symbol} ${component.weight}`).join(', ')}
+            >
+              {isSelected && (
+                <span
+                  className="mr-1.5 h-2 w-2 rounded-full"
+                  style={{ backgroundColor: BENCHMARK_COLORS[selectedIndex % BENCHMARK_COLORS.length] }}
+                />
+              )}
+              {benchmark.label}
+            </Button>
+            {customIds.has(benchmark.id) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-6 p-0 text-muted-foreground hover:text-foreground"
+                onClick={() => onRemoveCustom(benchmark.id)}
+                aria-label={`Remove ${benchmark.label}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs hover:bg-[#fc0]/10 hover:text-[#fc0]"
+            disabled={customIds.size >= MAX_CUSTOM_BENCHMARKS}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Custom
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2" align="start">
+          <Input
+            value={composition}
+            onChange={(e) => setComposition(e.target.value)}
+            placeholder="IWM or AAPL:50, MSFT:30, NVDA:20"
+            className="h-8 text-sm"
+          />
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name (optional)"
+            className="h-8 text-sm"
+          />
+          <p className="text-[11px] text-muted-foreground">
+            Baskets are bought at these relative weights at the period start and held; leave weights out for an equal-weight basket.
+          </p>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+          <Button size="sm" className="w-full" onClick={handleAdd} disabled={saving || !composition.trim()}>
+            Add Benchmark
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -24,6 +24,21 @@ import {
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import OrderTypeSelector from "@/components/OrderTypeSelector";
+import {
+  type OrderParams,
+  formatOrderParams,
+  getOrderParamsError,
+  getOrderParamsFromTradeOrder
+} from "@/lib/orderTypes";
+import {
+  HOLDING_TERM,
+  TAX_LOT_METHOD_LABELS,
+  formatGain,
+  gainColor,
+  type OrderTaxImplication,
+  type RebalanceTaxImplications
+} from "@/lib/taxLots";
 
 interface RebalancePosition {
   ticker: string;
@@ -39,6 +54,7 @@ interface RebalancePosition {
   orderStatus?: string;
   alpacaOrderId?: string;
   tradeActionId?: string;
+  orderParams?: OrderParams;
 }
 
 interface RebalanceActionsTabProps {
@@ -61,13 +77,40 @@ interface RebalanceActionsTabProps {
   onClose: () => void;
 }
 
-function RebalancePositionCard({ position, onApprove, onReject, isExecuted, orderStatus, isExecuting }: {
+function TaxImpactLine({ implication }: { implication: OrderTaxImplication }) {
+  if (implication.action === 'BUY') {
+    if (!implication.washSaleRisk) return null;
+    return (
+      <p className="text-xs text-yellow-600">
+        Wash-sale window open until {implication.washSaleWindowEndsAt?.slice(0, 10)} - buying now defers a recent loss
+      </p>
+    );
+  }
+
+  const lotCount = implication.lots?.length ?? 0;
+  const longTermLots = implication.lots?.filter(lot => lot.term === HOLDING_TERM.LONG).length ?? 0;
+  return (
+    <p className="text-xs text-muted-foreground">
+      Est. tax impact:{' '}
+      <span className={`font-medium ${gainColor(implication.estimatedGain)}`}>{formatGain(implication.estimatedGain)}</span>
+      {' '}(ST <span className={gainColor(implication.shortTermGain)}>{formatGain(implication.shortTermGain)}</span>
+      {' '}/ LT <span className={gainColor(implication.longTermGain)}>{formatGain(implication.longTermGain)}</span>)
+      {lotCount > 0 && ` · ${lotCount} lot${lotCount === 1 ? '' : 's'}${longTermLots > 0 ? `, ${longTermLots} long-term` : ''}`}
+      {implication.washSaleRisk && <span className="text-yellow-600"> · possible wash sale</span>}
+    </p>
+  );
+}
+
+function RebalancePositionCard({ position, onApprove, onReject, isExecuted, orderStatus, isExecuting, orderParams, onOrderParamsChange, taxImplication }: {
   position: RebalancePosition;
   onApprove: () => void;
   onReject: () => void;
   isExecuted: boolean;
   orderStatus?: { status: string; alpacaOrderId?: string; alpacaStatus?: string };
   isExecuting?: boolean;
+  orderParams?: OrderParams;
+  onOrderParamsChange?: (orderParams: OrderParams) => void;
+  taxImplication?: OrderTaxImplication;
 }) {
   const pricePerShare = position.currentShares > 0
     ? position.currentValue / position.currentShares
@@ -77,6 +120,9 @@ function RebalancePositionCard({ position, onApprove, onReject, isExecuted, orde
   const isApproved = orderStatus?.status === 'approved';
   const isRejected = orderStatus?.status === 'rejected';
   const isHold = position.shareChange === 0;
+  const effectiveOrderParams = orderParams || position.orderParams || getOrderParamsFromTradeOrder(null);
+  const canEditOrder = isPending && !!onOrderParamsChange && position.action !== 'HOLD';
+  const orderParamsError = canEditOrder ? getOrderParamsError(effectiveOrderParams, position.action as 'BUY' | 'SELL') : null;
 
   // Determine card background based on status and action
   const getCardClasses = () => {
@@ -140,10 +186,16 @@ function RebalancePositionCard({ position, onApprove, onReject, isExecuted, orde
                     rejected
                   </Badge>
                 )}
+                {!canEditOrder && !isHold && position.orderParams && (
+                  <Badge variant="outline" className="text-xs">
+                    {formatOrderParams(position.orderParams)}
+                  </Badge>
+                )}
               </div>
               <p className="text-xs text-muted-foreground line-clamp-2">
                 {position.reasoning}
               </p>
+              {!isHold && taxImplication && <TaxImpactLine implication={taxImplication} />}
             </div>
           </div>
 
@@ -229,7 +281,7 @@ function RebalancePositionCard({ position, onApprove, onReject, isExecuted, orde
                     e.stopPropagation();
                     onApprove();
                   }}
-                  disabled={isExecuting}
+                  disabled={isExecuting || !!orderParamsError}
                 >
                   {isExecuting ? (
                     <Loader2 className="h-3 w-3 mr-1 animate-spin" />
@@ -256,6 +308,16 @@ function RebalancePositionCard({ position, onApprove, onReject, isExecuted, orde
           </div>
         </div>
 
+        {/* Order type selection - only while the order awaits approval */}
+        {canEditOrder && (
+          <OrderTypeSelector
+            value={effectiveOrderParams}
+            onChange={onOrderParamsChange}
+            isCrypto={position.ticker.includes('/')}
+            disabled={isExecuting}
+            error={orderParamsError}
+          />
+        )}
         
         {/* Additional Details - Portfolio Allocation */}
         {position.shareChange !== 0 && (
@@ -301,6 +363,15 @@ export default function RebalanceActionsTab({
 }: RebalanceActionsTabProps) {
   const { toast } = useToast();
   const [executingTicker, setExecutingTicker] = useState<string | null>(null);
+  // Order type edits made on pending cards, keyed by ticker (falls back to the stored order parameters)
+  const [orderParamsByTicker, setOrderParamsByTicker] = useState<Map<string, OrderParams>>(new Map());
+
+  const getPositionOrderParams = (position: RebalancePosition): OrderParams =>
+    orderParamsByTicker.get(position.ticker) || position.orderParams || getOrderParamsFromTradeOrder(null);
+
+  const handleOrderParamsChange = (ticker: string, orderParams: OrderParams) => {
+    setOrderParamsByTicker(prev => new Map(prev).set(ticker, orderParams));
+  };
   
   // Debug log to see what data we have
   console.log('RebalanceActionsTab data:', {
@@ -340,7 +411,8 @@ export default function RebalanceActionsTab({
       const response = await supabase.functions.invoke('execute-trade', {
         body: {
           tradeActionId: position.tradeActionId,
-          action: 'approve'
+          action: 'approve',
+          orderParams: getPositionOrderParams(position)
         }
       });
 
@@ -573,7 +645,8 @@ export default function RebalanceActionsTab({
           return supabase.functions.invoke('execute-trade', {
             body: {
               tradeActionId: position.tradeActionId,
-              action: 'approve'
+              action: 'approve',
+              orderParams: getPositionOrderParams(position)
             }
           });
         })
@@ -811,6 +884,11 @@ export default function RebalanceActionsTab({
     }
   });
 
+  const taxImplications: RebalanceTaxImplications | null = rebalanceData?.rebalance_plan?.taxImplications ?? null;
+  const taxImplicationByTicker = new Map<string, OrderTaxImplication>(
+    (taxImplications?.orders ?? []).map(order => [order.ticker, order])
+  );
+
   const planActionByTicker = new Map<string, any>();
   planActionsArray.forEach((action: any) => {
     if (action?.ticker) {
@@ -1428,6 +1506,29 @@ export default function RebalanceActionsTab({
                   </Card>
                 </div>
 
+                {/* Estimated tax impact of the proposed orders */}
+                {taxImplications && taxImplications.orders.length > 0 && (
+                  <Card className="p-4 mb-6">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">
+                        Estimated Tax Impact ({TAX_LOT_METHOD_LABELS[taxImplications.method] ?? taxImplications.method})
+                      </span>
+                      {taxImplications.totals.washSaleWarnings > 0 && (
+                        <Badge variant="outline" className="text-xs border-yellow-500/50 text-yellow-600">
+                          {taxImplications.totals.washSaleWarnings} wash-sale {taxImplications.totals.washSaleWarnings === 1 ? 'warning' : 'warnings'}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className={`text-lg font-semibold ${gainColor(taxImplications.totals.total)}`}>
+                      {formatGain(taxImplications.totals.total)}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Short-term {formatGain(taxImplications.totals.shortTerm)} · Long-term {formatGain(taxImplications.totals.longTerm)}
+                      {' '}· Realized this year {formatGain(taxImplications.realizedYearToDate.total)}. Estimates only, not tax advice.
+                    </p>
+                  </Card>
+                )}
+
                 {/* Approved Orders Section */}
                 {(() => {
                   // Get approved positions from multiple sources
@@ -1508,6 +1609,7 @@ export default function RebalanceActionsTab({
                             <RebalancePositionCard
                               key={`approved-${position.ticker}`}
                               position={position}
+                              taxImplication={taxImplicationByTicker.get(position.ticker)}
                               isExecuted={true}
                               orderStatus={effectiveOrderStatus}
                               isExecuting={false}
@@ -1545,11 +1647,14 @@ export default function RebalanceActionsTab({
                         <RebalancePositionCard
                           key={position.ticker}
                           position={position}
+                          taxImplication={taxImplicationByTicker.get(position.ticker)}
                           isExecuted={false}
                           orderStatus={orderStatus}
                           isExecuting={executingTicker === position.ticker}
                           onApprove={() => handleApproveOrder(position.ticker)}
                           onReject={() => handleRejectOrder(position.ticker)}
+                          orderParams={getPositionOrderParams(position)}
+                          onOrderParamsChange={(orderParams) => handleOrderParamsChange(position.ticker, orderParams)}
                         />
                       );
                     })}
@@ -1591,6 +1696,7 @@ export default function RebalanceActionsTab({
                             <RebalancePositionCard
                               key={`rejected-${position.ticker}`}
                               position={position}
+                              taxImplication={taxImplicationByTicker.get(position.ticker)}
                               isExecuted={false}
                               orderStatus={{ ...orderStatus, status: 'rejected' }}
                               isExecuting={false}
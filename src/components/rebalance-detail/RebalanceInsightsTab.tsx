@@ -21,10 +21,17 @@ import {
   XCircle,
   FileText,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Layers
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import MarkdownRenderer from "../MarkdownRenderer";
+import {
+  EXPOSURE_CHECK_STATUS,
+  formatExposureLimit,
+  type ExposureCheckStatus,
+  type ExposureLimitReport
+} from "@/lib/assetClassification";
 
 interface RebalanceInsightsTabProps {
   rebalanceData: any;
@@ -56,6 +63,14 @@ const getDecisionIcon = (decision: string) => {
   }
 };
 
+const getExposureStatusVariant = (status: ExposureCheckStatus): "outline" | "secondary" | "destructive" => {
+  switch (status) {
+    case EXPOSURE_CHECK_STATUS.VIOLATION: return 'destructive';
+    case EXPOSURE_CHECK_STATUS.ADJUSTED: return 'secondary';
+    default: return 'outline';
+  }
+};
+
 const getConfidenceColor = (confidence: number) => {
   if (confidence >= 80) return 'text-green-600 dark:text-green-400';
   if (confidence >= 60) return 'text-yellow-600 dark:text-yellow-400';
@@ -529,6 +544,84 @@ export default function RebalanceInsightsTab({
             </div>
           )}
 
+          {/* Exposure Limit Checks */}
+          {(() => {
+            const exposureReport = rebalanceData.rebalance_plan?.exposureLimits as ExposureLimitReport | null | undefined;
+            if (!exposureReport || exposureReport.checks.length === 0) return null;
+
+            const isCollapsed = collapsedCards.has('exposureLimits');
+            return (
+              <Collapsible key="exposureLimits" open={!isCollapsed}>
+                <Card className="overflow-hidden">
+                  <CollapsibleTrigger asChild>
+                    <CardHeader className="bg-muted/30 cursor-pointer hover:bg-muted/40 transition-colors">
+                      <CardTitle className="text-base flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <Layers className="w-4 h-4" />
+                          Exposure Limits
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleCollapse('exposureLimits');
+                          }}
+                        >
+                          {isCollapsed ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+                        </Button>
+                      </CardTitle>
+                    </CardHeader>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <CardContent className="pt-4 space-y-3">
+                      {exposureReport.checks.map((check, index) => (
+                        <div key={index} className="p-3 bg-muted/30 rounded space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium">{formatExposureLimit(check.limit)}</span>
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm text-muted-foreground">
+                                {check.beforePercent.toFixed(1)}% → {check.afterPercent.toFixed(1)}%
+                              </span>
+                              <Badge variant={getExposureStatusVariant(check.status)} className="text-xs capitalize">
+                                {check.status}
+                              </Badge>
+                            </div>
+                          </div>
+                          {check.symbols.length > 0 && (
+                            <p className="text-xs text-muted-foreground">Holdings: {check.symbols.join(', ')}</p>
+                          )}
+                          {check.note && (
+                            <p className="text-sm text-muted-foreground">{check.note}</p>
+                          )}
+                          {check.adjustments.length > 0 && (
+                            <div className="space-y-1">
+                              {check.adjustments.map(adjustment => (
+                                <div key={adjustment.ticker} className="flex items-center justify-between text-xs">
+                                  <span className="font-mono font-medium">{adjustment.ticker}</span>
+                                  <span className="text-orange-500">
+                                    BUY ${adjustment.fromAmount.toFixed(0)} → ${adjustment.toAmount.toFixed(0)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+
+                      {exposureReport.unclassified.length > 0 && (
+                        <p className="text-xs text-muted-foreground border-t pt-3">
+                          No sector or industry data for {exposureReport.unclassified.join(', ')}; sector and industry caps could not be checked for these tickers.
+                        </p>
+                      )}
+                    </CardContent>
+                  </CollapsibleContent>
+                </Card>
+              </Collapsible>
+            );
+          })()}
+
           {/* Portfolio Manager Insights */}
           {(() => {
             const portfolioStep = rebalanceData.workflowSteps?.find((s: any) => s.id === 'rebalance');
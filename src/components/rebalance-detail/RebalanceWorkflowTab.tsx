@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { isRebalanceActive, convertLegacyRebalanceStatus } from "@/lib/statusTypes";
+import AIUsageCard from "@/components/AIUsageCard";
 
 interface RebalanceWorkflowTabProps {
   workflowData: any;
@@ -546,6 +547,14 @@ export default function RebalanceWorkflowTab({
             onNavigateToInsight={onNavigateToInsight}
             onOpenAnalysisModal={onOpenAnalysisModal}
           />
+          {workflowData?.id && (
+            <div className="mt-6">
+              <AIUsageCard
+                rebalanceRequestId={workflowData.id}
+                isRunning={isRebalanceActive(workflowData.status)}
+              />
+            </div>
+          )}
         </div>
       </ScrollArea>
     </TabsContent>
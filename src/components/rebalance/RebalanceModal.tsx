@@ -16,7 +16,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { RefreshCw, Settings, List, AlertCircle } from "lucide-react";
 import { useRBAC } from "@/hooks/useRBAC";
 import { useToast } from "@/hooks/use-toast";
-import { useAuth, hasRequiredApiKeys, hasAlpacaCredentials } from "@/lib/auth";
+import { hasRequiredApiKeys, hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
 import { useRebalanceData } from "./hooks/useRebalanceData";
 import { useWatchlist } from "./hooks/useWatchlist";
 import { ConfigurationTab } from "./tabs/ConfigurationTab";
@@ -27,7 +28,7 @@ import type { RebalanceModalProps } from "./types";
 export default function RebalanceModal({ isOpen, onClose, onApprove }: RebalanceModalProps) {
   const { getMaxRebalanceStocks } = useRBAC();
   const { toast } = useToast();
-  const { apiSettings } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const [activeTab, setActiveTab] = useState("config");
   
   // Check for required credentials
@@ -3,13 +3,14 @@
 
 import { useState, useEffect } from "react";
 import { alpacaAPI } from "@/lib/alpaca";
-import { useAuth, hasAlpacaCredentials } from "@/lib/auth";
+import { hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import { useRBAC } from "@/hooks/useRBAC";
 import type { RebalancePosition, RebalanceConfig } from "../types";
 
 export function useRebalanceData(isOpen: boolean) {
-  const { apiSettings } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const hasAlpacaConfig = hasAlpacaCredentials(apiSettings);
   const { toast } = useToast();
   const { hasOpportunityAgentAccess } = useRBAC();
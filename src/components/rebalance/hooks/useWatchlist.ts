@@ -3,6 +3,7 @@
 
 import { useState, useEffect } from "react";
 import { supabase } from "@/lib/supabase";
+import { getActivePortfolioId, scopeToAccount } from "@/lib/brokerAccounts";
 import { useAuth } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import type { RebalancePosition } from "../types";
@@ -48,11 +49,13 @@ export function useWatchlist(
     
     setLoadingWatchlist(true);
     try {
-      const { data, error } = await supabase
-        .from('watchlist')
-        .select('ticker')
-        .eq('user_id', user.id)
-        .order('ticker');
+      const { data, error } = await scopeToAccount(
+        supabase
+          .from('watchlist')
+          .select('ticker')
+          .eq('user_id', user.id),
+        getActivePortfolioId()
+      ).order('ticker');
       
       if (error) {
         console.error('Error loading watchlist:', error);
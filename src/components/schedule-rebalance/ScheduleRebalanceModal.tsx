@@ -25,6 +25,7 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Clock, Calendar, Settings, List, Loader2, AlertCircle } from "lucide-react";
 import { useAuth, hasRequiredApiKeys, hasAlpacaCredentials } from "@/lib/auth";
+import { useActiveApiSettings } from "@/lib/brokerAccounts";
 // Import hooks
 import { useScheduleData } from "./hooks/useScheduleData";
 import { useScheduleConfig } from "./hooks/useScheduleConfig";
@@ -37,7 +38,8 @@ import { SettingsTab } from "./tabs/SettingsTab";
 import type { ScheduleRebalanceModalProps } from "./types";
 
 export default function ScheduleRebalanceModal({ isOpen, onClose, scheduleToEdit }: ScheduleRebalanceModalProps) {
-  const { user, apiSettings } = useAuth();
+  const { user } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const [activeTab, setActiveTab] = useState("schedule");
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   
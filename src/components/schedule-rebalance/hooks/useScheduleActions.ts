@@ -3,6 +3,7 @@
 
 import { useAuth } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
+import { getActivePortfolioId } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import type { ScheduleConfig, RebalanceConfig, ExistingSchedule } from "../types";
 
@@ -91,7 +92,7 @@ export function useScheduleActions({
         // Create new schedule
         const { error } = await supabase
           .from('rebalance_schedules')
-          .insert(scheduleData);
+          .insert({ ...scheduleData, portfolio_id: getActivePortfolioId() });
 
         if (error) throw error;
 
@@ -5,6 +5,7 @@ import { useState, useEffect } from "react";
 import { useAuth, hasAlpacaCredentials } from "@/lib/auth";
 import { alpacaAPI } from "@/lib/alpaca";
 import { supabase } from "@/lib/supabase";
+import { getActivePortfolioId, scopeToAccount, useActiveApiSettings } from "@/lib/brokerAccounts";
 import { useToast } from "@/hooks/use-toast";
 import { useRBAC } from "@/hooks/useRBAC";
 import { normalizeTickerForComparison } from "@/lib/tickers";
@@ -16,7 +17,8 @@ import type {
 } from "../types";
 
 export function useScheduleData(isOpen: boolean, scheduleId: string | null = null) {
-  const { user, apiSettings } = useAuth();
+  const { user } = useAuth();
+  const apiSettings = useActiveApiSettings();
   const { toast } = useToast();
   const { getMaxRebalanceStocks, hasOpportunityAgentAccess } = useRBAC();
   const maxStocks = getMaxRebalanceStocks();
@@ -43,11 +45,13 @@ export function useScheduleData(isOpen: boolean, scheduleId: string | null = nul
 
     setLoadingWatchlist(true);
     try {
-      const { data, error } = await supabase
-        .from('watchlist')
-        .select('ticker')
-        .eq('user_id', user.id)
-        .order('ticker');
+      const { data, error } = await scopeToAccount(
+        supabase
+          .from('watchlist')
+          .select('ticker')
+          .eq('user_id', user.id),
+        getActivePortfolioId()
+      ).order('ticker');
 
       if (error) {
         console.error('Error loading watchlist:', error);
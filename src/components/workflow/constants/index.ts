@@ -18,9 +18,26 @@ import {
   Grid2x2Check,
   ChartCandlestick,
   OctagonAlert,
-  CircleSlash
+  CircleSlash,
+  Brain
 } from 'lucide-react';
 import type { WorkflowStep } from '../types';
+import {
+  WORKFLOW_PHASE_ID,
+  getWorkflowStepLayout,
+  type WorkflowGraph,
+  type WorkflowPhaseId
+} from '@/lib/workflowGraph';
+import { getCustomAnalystAgentName } from '@/lib/customAnalysts';
+
+// Workflow step id for each backend phase id
+export const PHASE_STEP_IDS: Record<WorkflowPhaseId, string> = {
+  [WORKFLOW_PHASE_ID.ANALYSIS]: 'analysis',
+  [WORKFLOW_PHASE_ID.RESEARCH]: 'research-debate',
+  [WORKFLOW_PHASE_ID.TRADING]: 'trading-decision',
+  [WORKFLOW_PHASE_ID.RISK]: 'risk-assessment',
+  [WORKFLOW_PHASE_ID.PORTFOLIO]: 'portfolio-management'
+};
 
 export const getInitialWorkflowSteps = (): WorkflowStep[] => [
   {
@@ -35,6 +52,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '1',
         name: 'Macro Analyst',
+        key: 'macroAnalyst',
         icon: BarChart3,
         status: 'pending',
         lastAction: 'Not started',
@@ -43,6 +61,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '2',
         name: 'Market Analyst',
+        key: 'marketAnalyst',
         icon: History,
         status: 'pending',
         lastAction: 'Not started',
@@ -51,6 +70,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '3',
         name: 'Social Media Analyst',
+        key: 'socialMediaAnalyst',
         icon: Share2,
         status: 'pending',
         lastAction: 'Not started',
@@ -59,6 +79,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '4',
         name: 'News Analyst',
+        key: 'newsAnalyst',
         icon: FileText,
         status: 'pending',
         lastAction: 'Not started',
@@ -67,6 +88,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '5',
         name: 'Fundamentals Analyst',
+        key: 'fundamentalsAnalyst',
         icon: Grid2x2Check,
         status: 'pending',
         lastAction: 'Not started',
@@ -87,6 +109,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '6',
         name: 'Bull Researcher',
+        key: 'bullResearcher',
         icon: TrendingUp,
         status: 'pending',
         lastAction: 'Not started',
@@ -95,6 +118,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '7',
         name: 'Bear Researcher',
+        key: 'bearResearcher',
         icon: TrendingDown,
         status: 'pending',
         lastAction: 'Not started',
@@ -103,6 +127,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '8',
         name: 'Research Manager',
+        key: 'researchManager',
         icon: Users,
         status: 'pending',
         lastAction: 'Not started',
@@ -122,6 +147,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '9',
         name: 'Trader',
+        key: 'trader',
         icon: ChartCandlestick,
         status: 'pending',
         lastAction: 'Not started',
@@ -142,6 +168,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '10',
         name: 'Risky Analyst',
+        key: 'riskyAnalyst',
         icon: OctagonAlert,
         status: 'pending',
         lastAction: 'Not started',
@@ -150,6 +177,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '11',
         name: 'Safe Analyst',
+        key: 'safeAnalyst',
         icon: ShieldCheck,
         status: 'pending',
         lastAction: 'Not started',
@@ -158,6 +186,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '12',
         name: 'Neutral Analyst',
+        key: 'neutralAnalyst',
         icon: CircleSlash,
         status: 'pending',
         lastAction: 'Not started',
@@ -166,6 +195,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '13',
         name: 'Risk Manager',
+        key: 'riskManager',
         icon: Shield,
         status: 'pending',
         lastAction: 'Not started',
@@ -186,6 +216,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       {
         id: '14',
         name: 'Portfolio Manager',
+        key: 'portfolioManager',
         icon: Briefcase,
         status: 'pending',
         lastAction: 'Not started',
@@ -194,4 +225,31 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
     ],
     insights: []
   }
-];
\ No newline at end of file
+];
+
+/**
+ * Steps and agents for the graph an analysis runs with, in its phase order
+ */
+export const getWorkflowStepsForGraph = (graph: WorkflowGraph): WorkflowStep[] => {
+  const steps = getInitialWorkflowSteps();
+
+  return getWorkflowStepLayout(graph).flatMap(({ phaseId, agentKeys }) => {
+    const step = steps.find(s => s.id === PHASE_STEP_IDS[phaseId]);
+    if (!step) return [];
+    const customAgents = (graph.customAnalysts || [])
+      .filter(custom => agentKeys.includes(getCustomAnalystAgentName(custom.id)))
+      .map(custom => ({
+        id: getCustomAnalystAgentName(custom.id),
+        name: custom.name,
+        key: getCustomAnalystAgentName(custom.id),
+        icon: Brain,
+        status: 'pending' as const,
+        lastAction: 'Not started',
+        progress: 0
+      }));
+    return [{
+      ...step,
+      agents: [...step.agents.filter(agent => agent.key && agentKeys.includes(agent.key)), ...customAgents]
+    }];
+  });
+};
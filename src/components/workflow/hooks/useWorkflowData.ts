@@ -3,13 +3,14 @@
  */
 
 import { useState, useCallback } from 'react';
-import { getInitialWorkflowSteps } from '../constants';
+import { getInitialWorkflowSteps, getWorkflowStepsForGraph } from '../constants';
 import { getAgentStatus, convertAgentStatus } from '../utils/agentHelpers';
 import {
   ANALYSIS_STATUS,
   convertLegacyAnalysisStatus
 } from '@/lib/statusTypes';
-import type { WorkflowStep, StepAgentMapping } from '../types';
+import { getWorkflowGraph } from '@/lib/workflowGraph';
+import type { WorkflowStep } from '../types';
 
 export function useWorkflowData(setIsRebalanceContext: (value: boolean) => void) {
   const [workflowData, setWorkflowData] = useState<WorkflowStep[]>(() => getInitialWorkflowSteps());
@@ -40,8 +41,8 @@ export function useWorkflowData(setIsRebalanceContext: (value: boolean) => void)
     const isCompleted = currentStatus === ANALYSIS_STATUS.COMPLETED || currentStatus === ANALYSIS_STATUS.ERROR;
     const isRunning = currentStatus === ANALYSIS_STATUS.RUNNING || currentStatus === ANALYSIS_STATUS.PENDING;
 
-    // Build workflow steps using unified agent status checking
-    let baseSteps = getInitialWorkflowSteps();
+    // Build workflow steps from the graph this analysis runs with
+    let baseSteps = getWorkflowStepsForGraph(getWorkflowGraph(analysis.full_analysis));
 
     // Filter out portfolio management step for rebalance analyses
     if (isRebalanceAnalysis) {
@@ -54,39 +55,9 @@ export function useWorkflowData(setIsRebalanceContext: (value: boolean) => void)
 
     // Update each step using unified agent status checking
     const updatedSteps = baseSteps.map((step) => {
-      // Map step agents to their respective agent keys for status checking
-      const agentStatusMapping: StepAgentMapping = {
-        'analysis': [
-          { agent: step.agents[0], key: 'macroAnalyst' },
-          { agent: step.agents[1], key: 'marketAnalyst' },
-          { agent: step.agents[2], key: 'socialMediaAnalyst' },
-          { agent: step.agents[3], key: 'newsAnalyst' },
-          { agent: step.agents[4], key: 'fundamentalsAnalyst' }
-        ],
-        'research-debate': [
-          { agent: step.agents[0], key: 'bullResearcher' },
-          { agent: step.agents[1], key: 'bearResearcher' },
-          { agent: step.agents[2], key: 'researchManager' }
-        ],
-        'trading-decision': [
-          { agent: step.agents[0], key: 'trader' }
-        ],
-        'risk-assessment': [
-          { agent: step.agents[0], key: 'riskyAnalyst' },
-          { agent: step.agents[1], key: 'safeAnalyst' },
-          { agent: step.agents[2], key: 'neutralAnalyst' },
-          { agent: step.agents[3], key: 'riskManager' }
-        ],
-        'portfolio-management': [
-          { agent: step.agents[0], key: 'portfolioManager' }
-        ]
-      };
-
-      const stepMappings = agentStatusMapping[step.id as keyof typeof agentStatusMapping] || [];
-
       // Update each agent using unified status checking
-      const updatedAgents = stepMappings.map(({ agent, key }) => {
-        const status = getAgentStatus(key, step.id, analysis);
+      const updatedAgents = step.agents.map((agent) => {
+        const status = getAgentStatus(agent.key || '', step.id, analysis);
         const agentStatus = convertAgentStatus(status);
 
         // Debug for research agents
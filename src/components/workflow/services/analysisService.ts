@@ -3,6 +3,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { getActivePortfolioId } from '@/lib/brokerAccounts';
 
 interface StartAnalysisParams {
   ticker: string;
@@ -23,6 +24,7 @@ export async function startAnalysis({ ticker, userId }: StartAnalysisParams): Pr
       body: {
         ticker,
         userId,
+        portfolioId: getActivePortfolioId(),
         // No phase/agent - indicates new analysis request
       }
     });
@@ -5,6 +5,8 @@
 export interface Agent {
   id: string;
   name: string;
+  // Key of the agent's output in agent_insights
+  key?: string;
   icon: any;
   status: 'pending' | 'running' | 'completed' | 'error';
   lastAction: string;
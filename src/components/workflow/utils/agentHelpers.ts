@@ -63,6 +63,9 @@ export const getAgentStatus = (agentKey: string, stepId: string, analysis: any)
     for (const step of analysis.full_analysis.workflowSteps) {
       // Find the agent in workflow steps by matching names
       const agent = step.agents?.find((a: any) => {
+        // Custom analysts are tracked under their agent name
+        if (a.name === agentKey || a.functionName === agentKey) return true;
+
         const agentNameLower = a.name.toLowerCase().replace(/\s+/g, '');
         const keyLower = agentKey.toLowerCase();
 
@@ -19,6 +19,7 @@ export function useRBAC() {
         max_rebalance_stocks?: number;
         max_scheduled_rebalances?: number;
         max_debate_rounds?: number;
+        max_custom_analysts?: number;
         schedule_resolution?: string;
         optimization_mode?: string;
         number_of_search_sources?: number;
@@ -100,6 +101,7 @@ export function useRBAC() {
                             const maxRebalanceStocks = limits?.max_rebalance_stocks !== undefined ? Number(limits.max_rebalance_stocks) : undefined;
                             const maxScheduledRebalances = limits?.max_scheduled_rebalances !== undefined ? Number(limits.max_scheduled_rebalances) : undefined;
                             const maxDebateRounds = limits?.max_debate_rounds !== undefined ? Number(limits.max_debate_rounds) : undefined;
+                            const maxCustomAnalysts = limits?.max_custom_analysts !== undefined ? Number(limits.max_custom_analysts) : undefined;
                             const scheduleResolution = limits?.schedule_resolution || undefined;
                             const optimizationMode = limits?.optimization_mode || undefined;
                             const numberOfSearchSources = limits?.number_of_search_sources !== undefined ? Number(limits.number_of_search_sources) : undefined;
@@ -124,6 +126,7 @@ export function useRBAC() {
                                 max_rebalance_stocks: maxRebalanceStocks,
                                 max_scheduled_rebalances: maxScheduledRebalances,
                                 max_debate_rounds: maxDebateRounds,
+                                max_custom_analysts: maxCustomAnalysts,
                                 schedule_resolution: scheduleResolution,
                                 optimization_mode: optimizationMode,
                                 number_of_search_sources: numberOfSearchSources,
@@ -390,6 +393,20 @@ export function useRBAC() {
         return result;
     };
 
+    const getMaxCustomAnalysts = (): number => {
+        // Get the highest custom analyst limit from all user roles
+        let maxLimit = 0;
+
+        for (const userRole of userRoles) {
+            const roleDetail = roleDetails.get(userRole.role_id);
+            if (roleDetail && typeof roleDetail.max_custom_analysts === 'number') {
+                maxLimit = Math.max(maxLimit, roleDetail.max_custom_analysts);
+            }
+        }
+
+        return maxLimit; // Custom analysts are off unless a role allows them
+    };
+
     const getScheduleResolution = (): string[] => {
         // Don't hardcode for admin - use database values
         // Collect all available resolutions from all user roles
@@ -568,6 +585,7 @@ export function useRBAC() {
         getMaxRebalanceStocks,
         getMaxScheduledRebalances,
         getMaxDebateRounds,
+        getMaxCustomAnalysts,
         getScheduleResolution,
         getMaxSearchSources,
         getAvailableOptimizationModes,
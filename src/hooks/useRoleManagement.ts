@@ -10,6 +10,7 @@ export interface RoleLimit {
   max_rebalance_stocks: number;
   max_scheduled_rebalances: number;
   max_debate_rounds?: number;
+  max_custom_analysts?: number;
   schedule_resolution: string;
   optimization_mode?: string;
   number_of_search_sources?: number;
@@ -49,6 +50,7 @@ export interface RoleWithLimits {
   max_rebalance_stocks: number;
   max_scheduled_rebalances: number;
   max_debate_rounds?: number;
+  max_custom_analysts?: number;
   schedule_resolution: string;
   optimization_mode?: string;
   number_of_search_sources?: number;
@@ -133,6 +135,7 @@ export function useRoleManagement() {
           max_rebalance_stocks: limits?.max_rebalance_stocks ?? 5,
           max_scheduled_rebalances: limits?.max_scheduled_rebalances ?? 2,
           max_debate_rounds: limits?.max_debate_rounds ?? 2,
+          max_custom_analysts: limits?.max_custom_analysts ?? 0,
           schedule_resolution: limits?.schedule_resolution ?? 'Month',
           optimization_mode: limits?.optimization_mode ?? 'speed',
           number_of_search_sources: limits?.number_of_search_sources ?? 5,
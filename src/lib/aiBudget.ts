@@ -0,0 +1,52 @@
+/**
+ * AI Spend Budget
+ *
+ * Frontend mirror of supabase/functions/_shared/aiBudget.ts.
+ * A daily or monthly cap on estimated AI spend (USD) and/or tokens; workflows
+ * refuse to start or pause at phase boundaries when the spend so far plus the
+ * expected cost of the run would pass a cap.
+ */
+
+export const AI_BUDGET_PERIOD = {
+  NONE: 'none' as const,
+  DAILY: 'daily' as const,
+  MONTHLY: 'monthly' as const
+} as const;
+
+export type AIBudgetPeriod = typeof AI_BUDGET_PERIOD[keyof typeof AI_BUDGET_PERIOD];
+
+export const AI_BUDGET_PERIOD_LABELS: Record<AIBudgetPeriod, string> = {
+  none: 'No budget',
+  daily: 'Daily (resets 00:00 UTC)',
+  monthly: 'Monthly (resets on the 1st, UTC)'
+};
+
+export interface AIUsageTotals {
+  cost_usd: number;
+  total_tokens: number;
+  calls: number;
+}
+
+export function isValidAIBudgetPeriod(period: unknown): period is AIBudgetPeriod {
+  return typeof period === 'string' && Object.values(AI_BUDGET_PERIOD).includes(period as AIBudgetPeriod);
+}
+
+/**
+ * Current budget window in UTC: the calendar day or calendar month containing `now`
+ */
+export function getBudgetPeriodBounds(
+  period: AIBudgetPeriod,
+  now: Date = new Date()
+): { start: Date; end: Date } | null {
+  if (period === AI_BUDGET_PERIOD.DAILY) {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    return { start, end };
+  }
+  if (period === AI_BUDGET_PERIOD.MONTHLY) {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    return { start, end };
+  }
+  return null;
+}
@@ -0,0 +1,179 @@
+/**
+ * AI Token Usage and Cost Accounting
+ *
+ * Frontend mirror of supabase/functions/_shared/aiUsage.ts.
+ * Per-call usage is stored in ai_usage_events; costs are recomputed here from
+ * token counts so edits to the price table in Settings apply retroactively.
+ */
+
+/**
+ * USD prices per 1M tokens
+ */
+export interface ModelPrice {
+  input: number;
+  cached_input?: number;
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface AIUsageEvent {
+  id: string;
+  agent_name: string;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cached_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+  cost_usd: number | null;
+  is_estimated: boolean;
+  created_at: string;
+}
+
+export interface AgentUsageSummary {
+  agentName: string;
+  models: string[];
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  costUsd: number | null;   // null when none of the agent's models has a known price
+  estimated: boolean;
+}
+
+// Keep in sync with DEFAULT_MODEL_PRICES in supabase/functions/_shared/aiUsage.ts
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  'gpt-5': { input: 1.25, cached_input: 0.125, output: 10 },
+  'gpt-5-chat': { input: 1.25, cached_input: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cached_input: 0.025, output: 2 },
+  'gpt-4.1': { input: 2, cached_input: 0.5, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, cached_input: 0.1, output: 1.6 },
+  'gpt-4o': { input: 2.5, cached_input: 1.25, output: 10 },
+  'claude-opus-4-1': { input: 15, cached_input: 1.5, output: 75 },
+  'claude-opus-4': { input: 15, cached_input: 1.5, output: 75 },
+  'claude-sonnet-4': { input: 3, cached_input: 0.3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, cached_input: 0.3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, cached_input: 0.08, output: 4 },
+  'gemini-2.5-pro': { input: 1.25, cached_input: 0.31, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, cached_input: 0.075, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, cached_input: 0.025, output: 0.4 },
+  'deepseek-chat': { input: 0.56, cached_input: 0.07, output: 1.68 },
+  'deepseek-chat-v3.1': { input: 0.56, cached_input: 0.07, output: 1.68 },
+  'grok-4': { input: 3, cached_input: 0.75, output: 15 },
+  'grok-code-fast-1': { input: 0.2, cached_input: 0.02, output: 1.5 },
+  'qwen3-max': { input: 1.2, cached_input: 0.24, output: 6 }
+};
+
+const normalizeModelKey = (model: string): string =>
+  model.toLowerCase().split('/').pop()!.replace(/\./g, '-').replace(/:.*$/, '');
+
+/**
+ * Finds the price for a model. User overrides win over defaults; a dated model
+ * id (claude-sonnet-4-20250514) falls back to the longest matching prefix.
+ */
+export function getModelPrice(
+  model: string | null | undefined,
+  overrides?: ModelPriceTable | null
+): ModelPrice | null {
+  if (!model) return null;
+
+  const table: ModelPriceTable = { ...DEFAULT_MODEL_PRICES, ...(overrides || {}) };
+  const exact = table[model];
+  if (exact) return exact;
+
+  const normalized = normalizeModelKey(model);
+  let bestKey: string | null = null;
+  for (const key of Object.keys(table)) {
+    const candidate = normalizeModelKey(key);
+    if (normalized === candidate) return table[key];
+    if (normalized.startsWith(`${candidate}-`) && (!bestKey || candidate.length > normalizeModelKey(bestKey).length)) {
+      bestKey = key;
+    }
+  }
+
+  return bestKey ? table[bestKey] : null;
+}
+
+/**
+ * Estimated USD cost of a call; null when the model has no known price
+ */
+export function calculateUsageCost(
+  usage: Pick<AIUsageEvent, 'model' | 'prompt_tokens' | 'completion_tokens' | 'cached_tokens'>,
+  overrides?: ModelPriceTable | null
+): number | null {
+  const price = getModelPrice(usage.model, overrides);
+  if (!price) return null;
+
+  const cached = Math.min(usage.cached_tokens || 0, usage.prompt_tokens || 0);
+  const uncached = (usage.prompt_tokens || 0) - cached;
+  return (
+    uncached * price.input +
+    cached * (price.cached_input ?? price.input) +
+    (usage.completion_tokens || 0) * price.output
+  ) / 1_000_000;
+}
+
+/**
+ * Groups usage events by agent, in the order each agent first ran
+ */
+export function summarizeUsageByAgent(
+  events: AIUsageEvent[],
+  overrides?: ModelPriceTable | null
+): AgentUsageSummary[] {
+  const byAgent = new Map<string, AgentUsageSummary>();
+
+  [...events]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach(event => {
+      let summary = byAgent.get(event.agent_name);
+      if (!summary) {
+        summary = {
+          agentName: event.agent_name,
+          models: [],
+          calls: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          cachedTokens: 0,
+          totalTokens: 0,
+          latencyMs: 0,
+          costUsd: null,
+          estimated: false
+        };
+        byAgent.set(event.agent_name, summary);
+      }
+
+      if (!summary.models.includes(event.model)) {
+        summary.models.push(event.model);
+      }
+      summary.calls += 1;
+      summary.promptTokens += event.prompt_tokens || 0;
+      summary.completionTokens += event.completion_tokens || 0;
+      summary.cachedTokens += event.cached_tokens || 0;
+      summary.totalTokens += event.total_tokens || 0;
+      summary.latencyMs += event.latency_ms || 0;
+      summary.estimated = summary.estimated || event.is_estimated;
+
+      const cost = calculateUsageCost(event, overrides);
+      if (cost !== null) {
+        summary.costUsd = (summary.costUsd ?? 0) + cost;
+      }
+    });
+
+  return Array.from(byAgent.values());
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 10_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return tokens.toLocaleString();
+}
+
+export function formatUsageCost(cost: number | null): string {
+  if (cost === null) return '—';
+  if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
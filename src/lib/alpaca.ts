@@ -1,9 +1,13 @@
 /**
  * Alpaca Trading API Integration
+ *
+ * Requests use Alpaca's endpoint paths and payloads; alpaca-proxy and
+ * alpaca-batch translate them for the active account's broker.
  */
 
 import { useAuth } from './auth';
 import { supabase } from './supabase';
+import { getActivePortfolioId } from './brokerAccounts';
 
 const addUnique = (list: string[], value?: string | null) => {
   if (!value) return;
@@ -236,7 +240,8 @@ class AlpacaAPI {
       body: {
         method: options.method || 'GET',
         endpoint,
-        body: options.body ? JSON.parse(options.body as string) : undefined
+        body: options.body ? JSON.parse(options.body as string) : undefined,
+        portfolioId: getActivePortfolioId()
       }
     });
 
@@ -348,7 +353,8 @@ class AlpacaAPI {
     const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
       body: {
         method: 'GET',
-        endpoint: `/v2/stocks/${symbol}/quotes/latest`
+        endpoint: `/v2/stocks/${symbol}/quotes/latest`,
+        portfolioId: getActivePortfolioId()
       }
     });
 
@@ -406,7 +412,8 @@ class AlpacaAPI {
           body: {
             method: 'GET',
             endpoint: '/v1beta3/crypto/us/bars',
-            params
+            params,
+            portfolioId: getActivePortfolioId()
           }
         });
 
@@ -457,7 +464,8 @@ class AlpacaAPI {
       body: {
         method: 'GET',
         endpoint: `/v2/stocks/${upperSymbol}/bars`,
-        params
+        params,
+        portfolioId: getActivePortfolioId()
       }
     });
 
@@ -534,7 +542,8 @@ class AlpacaAPI {
           params: {
             status: 'active',
             asset_class: 'us_equity'
-          }
+          },
+          portfolioId: getActivePortfolioId()
         }
       });
       
@@ -588,7 +597,8 @@ class AlpacaAPI {
         params: {
           status: 'active',
           asset_class: 'us_equity'
-        }
+        },
+        portfolioId: getActivePortfolioId()
       }
     });
     
@@ -612,7 +622,8 @@ class AlpacaAPI {
     const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
       body: {
         method: 'GET',
-        endpoint: `/v2/assets/${symbol}`
+        endpoint: `/v2/assets/${symbol}`,
+        portfolioId: getActivePortfolioId()
       }
     });
     
@@ -656,6 +667,34 @@ class AlpacaAPI {
     return data.data || {};
   }
 
+  // Close prices for benchmark overlays, keyed by symbol
+  async getBenchmarkBars(
+    symbols: string[],
+    timeframe: string,
+    start: string,
+    end?: string
+  ): Promise<Record<string, Array<{ t: string; c: number }>>> {
+    const { data, error } = await supabase.functions.invoke('alpaca-batch', {
+      body: {
+        includeQuotes: false,
+        benchmarkSymbols: symbols,
+        benchmarkTimeframe: timeframe,
+        benchmarkStart: start,
+        benchmarkEnd: end
+      }
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch benchmark bars: ${error.message}`);
+    }
+
+    if (data?.error) {
+      throw new Error(`Benchmark data error: ${typeof data.error === 'string' ? data.error : JSON.stringify(data.error)}`);
+    }
+
+    return data?.data?.benchmarkBars || {};
+  }
+
   // Batch method for account and positions data
   async getBatchAccountData(options?: {
     includeActivities?: boolean;
@@ -664,6 +703,8 @@ class AlpacaAPI {
     activitiesUntil?: string;
     maxActivityPages?: number;
     activityPageSize?: number;
+    includeTaxLots?: boolean;
+    includeRiskAnalytics?: boolean;
   }) {
     const { data, error } = await supabase.functions.invoke('alpaca-batch', {
       body: {
@@ -674,7 +715,10 @@ class AlpacaAPI {
         activitiesSince: options?.activitiesSince,
         activitiesUntil: options?.activitiesUntil,
         maxActivityPages: options?.maxActivityPages,
-        activityPageSize: options?.activityPageSize
+        activityPageSize: options?.activityPageSize,
+        includeTaxLots: options?.includeTaxLots ?? false,
+        includeRiskAnalytics: options?.includeRiskAnalytics ?? false,
+        portfolioId: getActivePortfolioId()
       }
     });
 
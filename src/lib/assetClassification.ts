@@ -0,0 +1,89 @@
+/**
+ * Asset Classification & Exposure Limits
+ *
+ * Frontend mirror of supabase/functions/_shared/assetClassification.ts.
+ * Limits are stored in api_settings.rebalance_exposure_limits and enforced by
+ * the rebalance portfolio manager; the result lands in rebalance_plan.exposureLimits.
+ */
+
+export const EXPOSURE_DIMENSION = {
+  SECTOR: 'sector' as const,
+  INDUSTRY: 'industry' as const,
+  ASSET_CLASS: 'asset_class' as const
+} as const;
+
+export type ExposureDimension = typeof EXPOSURE_DIMENSION[keyof typeof EXPOSURE_DIMENSION];
+
+export const ASSET_CLASS = {
+  EQUITY: 'equity' as const,
+  ETF: 'etf' as const,
+  CRYPTO: 'crypto' as const,
+  OPTION: 'option' as const,
+  OTHER: 'other' as const
+} as const;
+
+export type AssetClass = typeof ASSET_CLASS[keyof typeof ASSET_CLASS];
+
+export const EXPOSURE_CHECK_STATUS = {
+  OK: 'ok' as const,
+  ADJUSTED: 'adjusted' as const,
+  VIOLATION: 'violation' as const
+} as const;
+
+export type ExposureCheckStatus = typeof EXPOSURE_CHECK_STATUS[keyof typeof EXPOSURE_CHECK_STATUS];
+
+export const EXPOSURE_DIMENSION_LABELS: Record<ExposureDimension, string> = {
+  [EXPOSURE_DIMENSION.SECTOR]: 'Sector',
+  [EXPOSURE_DIMENSION.INDUSTRY]: 'Industry',
+  [EXPOSURE_DIMENSION.ASSET_CLASS]: 'Asset class'
+};
+
+// Sector names produced from SEC SIC codes
+export const SECTOR_OPTIONS = [
+  'Communication Services',
+  'Consumer Discretionary',
+  'Consumer Staples',
+  'Energy',
+  'Financials',
+  'Health Care',
+  'Industrials',
+  'Information Technology',
+  'Materials',
+  'Real Estate',
+  'Utilities'
+];
+
+export interface ExposureLimit {
+  dimension: ExposureDimension;
+  value: string;
+  maxPercent: number;
+}
+
+export interface ExposureAdjustment {
+  ticker: string;
+  fromAmount: number;
+  toAmount: number;
+}
+
+export interface ExposureCheck {
+  limit: ExposureLimit;
+  symbols: string[];
+  beforePercent: number;
+  afterPercent: number;
+  status: ExposureCheckStatus;
+  adjustments: ExposureAdjustment[];
+  note: string;
+}
+
+export interface ExposureLimitReport {
+  evaluatedAt: string;
+  checks: ExposureCheck[];
+  unclassified: string[];
+}
+
+export function isValidExposureDimension(value: unknown): value is ExposureDimension {
+  return typeof value === 'string' && Object.values(EXPOSURE_DIMENSION).includes(value as ExposureDimension);
+}
+
+export const formatExposureLimit = (limit: ExposureLimit): string =>
+  `${EXPOSURE_DIMENSION_LABELS[limit.dimension]} "${limit.value}" ≤ ${limit.maxPercent}%`;
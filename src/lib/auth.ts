@@ -1348,6 +1348,9 @@ export const validateGoogleKey = (key: string): boolean => {
 // Check if Alpaca credentials are configured
 export const hasAlpacaCredentials = (settings: ApiSettings | null): boolean => {
   if (!settings) return false;
+
+  // The simulated broker trades without keys
+  if (settings.simulated_trading) return true;
   
   const isPaper = settings.alpaca_paper_trading ?? true;
   
@@ -0,0 +1,129 @@
+/**
+ * Backtesting
+ *
+ * Frontend mirror of the types in supabase/functions/_shared/backtest.ts.
+ * Runs are executed by the run-backtest edge function and stored in backtest_runs.
+ */
+
+export const BACKTEST_SOURCE = {
+  ANALYSIS: 'analysis' as const,
+  REBALANCE: 'rebalance' as const
+} as const;
+
+export type BacktestSource = typeof BACKTEST_SOURCE[keyof typeof BACKTEST_SOURCE];
+
+export const BACKTEST_SOURCE_LABELS: Record<BacktestSource, string> = {
+  analysis: 'Analysis decisions',
+  rebalance: 'Rebalance plans'
+};
+
+export const BACKTEST_STATUS = {
+  RUNNING: 'running' as const,
+  COMPLETED: 'completed' as const,
+  ERROR: 'error' as const
+} as const;
+
+export type BacktestStatus = typeof BACKTEST_STATUS[keyof typeof BACKTEST_STATUS];
+
+// Keep in sync with DEFAULT_BACKTEST_PARAMETERS in supabase/functions/_shared/backtest.ts
+export const DEFAULT_BACKTEST_PARAMETERS = {
+  holdingDays: 20,
+  benchmark: 'SPY',
+  minConfidence: 0,
+  positionSizePct: 10,
+  includeSells: true
+};
+
+export interface BacktestParameters {
+  source: BacktestSource;
+  startDate: string;
+  endDate: string;
+  holdingDays: number;
+  benchmark: string;
+  minConfidence: number;
+  positionSizePct: number;
+  includeSells: boolean;
+  tickers?: string[];
+}
+
+export interface BacktestTrade {
+  decisionId: string;
+  analysisId: string | null;
+  rebalanceRequestId: string | null;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  confidence: number | null;
+  configKey: string;
+  decidedAt: string;
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  referencePrice: number | null;
+  returnPct: number;
+  benchmarkReturnPct: number | null;
+  excessReturnPct: number | null;
+  hit: boolean;
+}
+
+export interface BacktestSkip {
+  decisionId: string;
+  ticker: string;
+  reason: string;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  benchmark: number;
+}
+
+export interface BacktestSummary {
+  configKey: string;
+  configLabel: string;
+  trades: number;
+  buys: number;
+  sells: number;
+  hitRate: number | null;
+  avgReturnPct: number | null;
+  avgExcessReturnPct: number | null;
+  totalReturnPct: number;
+  benchmarkReturnPct: number | null;
+  maxDrawdownPct: number;
+  bestTradePct: number | null;
+  worstTradePct: number | null;
+  equityCurve: EquityPoint[];
+}
+
+export interface BacktestResults {
+  generatedAt: string;
+  decisionsConsidered: number;
+  tradesSimulated: number;
+  skipped: BacktestSkip[];
+  overall: BacktestSummary;
+  configurations: BacktestSummary[];
+  trades: BacktestTrade[];
+}
+
+export interface BacktestRun {
+  id: string;
+  name: string;
+  source: BacktestSource;
+  status: BacktestStatus;
+  parameters: BacktestParameters;
+  results: BacktestResults | null;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export function formatPercent(value: number | null | undefined, signed = true): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '—';
+  const sign = signed && value > 0 ? '+' : '';
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+export function percentColor(value: number | null | undefined): string {
+  if (value === null || value === undefined || value === 0) return '';
+  return value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
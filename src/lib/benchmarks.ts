@@ -0,0 +1,278 @@
+/**
+ * Performance Benchmarks
+ *
+ * Benchmark overlays for PerformanceChart. A benchmark is a single ticker or a
+ * static weighted basket; bars come from alpaca-batch (benchmarkSymbols) and are
+ * normalized to the first point of the selected period. Custom benchmarks are
+ * stored in api_settings.performance_benchmarks.
+ */
+
+import { RISK_FREE_RATE, TRADING_DAYS_PER_YEAR } from './riskAnalytics';
+
+export const BENCHMARK_KIND = {
+  TICKER: 'ticker' as const,
+  BASKET: 'basket' as const
+} as const;
+
+export type BenchmarkKind = typeof BENCHMARK_KIND[keyof typeof BENCHMARK_KIND];
+
+export interface BenchmarkComponent {
+  symbol: string;
+  weight: number;   // relative weight, normalized when the index is built
+}
+
+export interface BenchmarkDefinition {
+  id: string;
+  label: string;
+  kind: BenchmarkKind;
+  components: BenchmarkComponent[];
+}
+
+export interface BenchmarkBar {
+  t: string;
+  c: number;
+}
+
+export interface BenchmarkComparison {
+  benchmarkId: string;
+  label: string;
+  observations: number;
+  portfolioReturn: number | null;   // % over the period
+  benchmarkReturn: number | null;   // % over the period
+  excessReturn: number | null;      // percentage points
+  alpha: number | null;             // Jensen's alpha over the period, percentage points
+  beta: number | null;
+  trackingError: number | null;     // annualized %
+}
+
+export const MAX_ACTIVE_BENCHMARKS = 3;
+export const MAX_CUSTOM_BENCHMARKS = 10;
+export const MAX_BASKET_COMPONENTS = 10;
+
+export const BUILT_IN_BENCHMARKS: BenchmarkDefinition[] = [
+  { id: 'SPY', label: 'SPY', kind: BENCHMARK_KIND.TICKER, components: [{ symbol: 'SPY', weight: 1 }] },
+  { id: 'QQQ', label: 'QQQ', kind: BENCHMARK_KIND.TICKER, components: [{ symbol: 'QQQ', weight: 1 }] }
+];
+
+// Line colors in selection order; the portfolio line keeps its green/red gradient
+export const BENCHMARK_COLORS = ['#3b82f6', '#a855f7', '#f97316'];
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const SECONDS_PER_TRADING_DAY = 6.5 * 60 * 60;
+
+export const benchmarkDataKey = (definition: BenchmarkDefinition): string => `benchmark_${definition.id}`;
+
+export const getBenchmarkSymbols = (definitions: BenchmarkDefinition[]): string[] =>
+  Array.from(new Set(definitions.flatMap(definition => definition.components.map(component => component.symbol)))).sort();
+
+/**
+ * Parses "AAPL" or a basket such as "AAPL:40, MSFT:40, NVDA:20".
+ * Components without a weight count as 1, so leaving weights out gives an equal-weight basket.
+ */
+export function parseBenchmarkInput(input: string, label?: string): { definition?: BenchmarkDefinition; error?: string } {
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    return { error: 'Enter a ticker or a basket like AAPL:50, MSFT:50' };
+  }
+  if (parts.length > MAX_BASKET_COMPONENTS) {
+    return { error: `Baskets are limited to ${MAX_BASKET_COMPONENTS} tickers` };
+  }
+
+  const components: BenchmarkComponent[] = [];
+  for (const part of parts) {
+    const [rawSymbol, rawWeight] = part.split(':').map(value => value.trim());
+    const symbol = rawSymbol.toUpperCase();
+    if (!/^[A-Z][A-Z0-9./-]{0,11}$/.test(symbol)) {
+      return { error: `"${rawSymbol}" is not a valid ticker` };
+    }
+
+    const weight = rawWeight === undefined ? 1 : parseFloat(rawWeight);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      return { error: `Weight for ${symbol} must be a positive number` };
+    }
+    if (components.some(component => component.symbol === symbol)) {
+      return { error: `${symbol} is listed twice` };
+    }
+    components.push({ symbol, weight });
+  }
+
+  const kind = components.length === 1 ? BENCHMARK_KIND.TICKER : BENCHMARK_KIND.BASKET;
+  const id = components.map(component => `${component.symbol}:${component.weight}`).join(',');
+  const defaultLabel = kind === BENCHMARK_KIND.TICKER ? components[0].symbol : components.map(component => component.symbol).join('/');
+
+  return {
+    definition: {
+      id,
+      label: label?.trim() || defaultLabel,
+      kind,
+      components
+    }
+  };
+}
+
+export function isValidBenchmarkDefinition(value: unknown): value is BenchmarkDefinition {
+  const definition = value as BenchmarkDefinition;
+  return Boolean(
+    definition &&
+    typeof definition.id === 'string' &&
+    typeof definition.label === 'string' &&
+    Object.values(BENCHMARK_KIND).includes(definition.kind) &&
+    Array.isArray(definition.components) &&
+    definition.components.length > 0 &&
+    definition.components.every(component => typeof component?.symbol === 'string' && Number(component?.weight) > 0)
+  );
+}
+
+/**
+ * Price of each bar series as of the given unix timestamps (seconds).
+ * Points before the first bar use the first bar so the series starts with the period.
+ */
+function pricesAsOf(bars: BenchmarkBar[], timestamps: number[]): Array<number | null> {
+  const series = bars
+    .map(bar => ({ time: Date.parse(bar.t) / 1000, close: bar.c }))
+    .filter(bar => Number.isFinite(bar.time) && bar.close > 0)
+    .sort((a, b) => a.time - b.time);
+  if (series.length === 0) return timestamps.map(() => null);
+
+  let cursor = 0;
+  return timestamps.map(timestamp => {
+    while (cursor + 1 < series.length && series[cursor + 1].time <= timestamp) {
+      cursor++;
+    }
+    return series[cursor].close;
+  });
+}
+
+/**
+ * Benchmark growth of 1 at the first timestamp, or null where a component has no price
+ */
+export function buildBenchmarkIndex(
+  definition: BenchmarkDefinition,
+  barsBySymbol: Record<string, BenchmarkBar[]>,
+  timestamps: number[]
+): Array<number | null> {
+  const totalWeight = definition.components.reduce((sum, component) => sum + component.weight, 0);
+  if (timestamps.length === 0 || totalWeight <= 0) return timestamps.map(() => null);
+
+  const componentPrices = definition.components.map(component => ({
+    weight: component.weight / totalWeight,
+    prices: pricesAsOf(barsBySymbol[component.symbol] || [], timestamps)
+  }));
+
+  if (componentPrices.some(component => component.prices[0] === null)) {
+    return timestamps.map(() => null);
+  }
+
+  return timestamps.map((_, index) => {
+    let value = 0;
+    for (const component of componentPrices) {
+      const price = component.prices[index];
+      if (price === null) return null;
+      value += component.weight * (price / (component.prices[0] as number));
+    }
+    return value;
+  });
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sampleVariance = (values: number[]): number => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+/**
+ * Observations per year for the spacing of the chart points
+ */
+function periodsPerYear(timestamps: number[]): number {
+  const gaps = timestamps.slice(1).map((timestamp, index) => timestamp - timestamps[index]).filter(gap => gap > 0).sort((a, b) => a - b);
+  if (gaps.length === 0) return TRADING_DAYS_PER_YEAR;
+
+  const medianGap = gaps[Math.floor(gaps.length / 2)];
+  if (medianGap < SECONDS_PER_DAY * 0.9) {
+    return TRADING_DAYS_PER_YEAR * Math.max(1, SECONDS_PER_TRADING_DAY / medianGap);
+  }
+  if (medianGap <= SECONDS_PER_DAY * 1.5) {
+    return TRADING_DAYS_PER_YEAR;
+  }
+  return 365.25 / (medianGap / SECONDS_PER_DAY);
+}
+
+/**
+ * Compares the portfolio growth path (1 + cumulative return) against a benchmark index
+ */
+export function calculateBenchmarkComparison(
+  definition: BenchmarkDefinition,
+  portfolioGrowth: Array<number | null>,
+  benchmarkIndex: Array<number | null>,
+  timestamps: number[]
+): BenchmarkComparison {
+  const portfolioReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  let first = -1;
+  let last = -1;
+
+  for (let i = 0; i < timestamps.length; i++) {
+    const growth = portfolioGrowth[i];
+    const index = benchmarkIndex[i];
+    if (growth === null || index === null || growth <= 0 || index <= 0) continue;
+
+    if (last >= 0) {
+      portfolioReturns.push(growth / (portfolioGrowth[last] as number) - 1);
+      benchmarkReturns.push(index / (benchmarkIndex[last] as number) - 1);
+    } else {
+      first = i;
+    }
+    last = i;
+  }
+
+  const empty: BenchmarkComparison = {
+    benchmarkId: definition.id,
+    label: definition.label,
+    observations: portfolioReturns.length,
+    portfolioReturn: null,
+    benchmarkReturn: null,
+    excessReturn: null,
+    alpha: null,
+    beta: null,
+    trackingError: null
+  };
+  if (first < 0 || last <= first) return empty;
+
+  const portfolioReturn = (portfolioGrowth[last] as number) / (portfolioGrowth[first] as number) - 1;
+  const benchmarkReturn = (benchmarkIndex[last] as number) / (benchmarkIndex[first] as number) - 1;
+
+  let beta: number | null = null;
+  let trackingError: number | null = null;
+  if (portfolioReturns.length >= 2) {
+    const benchmarkVariance = sampleVariance(benchmarkReturns);
+    if (benchmarkVariance > 0) {
+      const portfolioMean = mean(portfolioReturns);
+      const benchmarkMean = mean(benchmarkReturns);
+      const covariance = portfolioReturns.reduce(
+        (sum, value, index) => sum + (value - portfolioMean) * (benchmarkReturns[index] - benchmarkMean),
+        0
+      ) / (portfolioReturns.length - 1);
+      beta = covariance / benchmarkVariance;
+    }
+
+    const activeReturns = portfolioReturns.map((value, index) => value - benchmarkReturns[index]);
+    trackingError = Math.sqrt(sampleVariance(activeReturns) * periodsPerYear(timestamps.slice(first, last + 1))) * 100;
+  }
+
+  const years = (timestamps[last] - timestamps[first]) / (365.25 * SECONDS_PER_DAY);
+  const riskFreeReturn = Math.pow(1 + RISK_FREE_RATE, years) - 1;
+  const alpha = beta === null
+    ? null
+    : (portfolioReturn - (riskFreeReturn + beta * (benchmarkReturn - riskFreeReturn))) * 100;
+
+  return {
+    ...empty,
+    portfolioReturn: portfolioReturn * 100,
+    benchmarkReturn: benchmarkReturn * 100,
+    excessReturn: (portfolioReturn - benchmarkReturn) * 100,
+    alpha,
+    beta,
+    trackingError
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Broker Accounts
+ *
+ * Frontend mirror of supabase/functions/_shared/brokerAccounts.ts.
+ * Named accounts are rows in the portfolios table and are managed through
+ * settings-proxy, which masks their keys. The active account is kept in
+ * localStorage; null selects the main account configured in api_settings.
+ */
+
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from './supabase';
+import type { ApiSettings } from './supabase';
+import { useAuth } from './auth';
+
+export const BROKER = {
+  ALPACA: 'alpaca' as const,
+  TRADIER: 'tradier' as const,
+  SIMULATED: 'simulated' as const
+} as const;
+
+export type Broker = typeof BROKER[keyof typeof BROKER];
+
+export const BROKER_LABELS: Record<Broker, string> = {
+  [BROKER.ALPACA]: 'Alpaca',
+  [BROKER.TRADIER]: 'Tradier',
+  [BROKER.SIMULATED]: 'Simulated'
+};
+
+// api_settings columns a broker account may override
+export const ACCOUNT_SETTING_KEYS = [
+  'rebalance_threshold',
+  'rebalance_min_position_size',
+  'rebalance_max_position_size',
+  'near_position_threshold',
+  'rebalance_tax_aware',
+  'rebalance_exposure_limits',
+  'target_stock_allocation',
+  'target_cash_allocation',
+  'simulated_starting_cash',
+  'simulated_slippage_bps',
+  'simulated_commission'
+] as const;
+
+export type AccountSettingKey = typeof ACCOUNT_SETTING_KEYS[number];
+
+export type BrokerAccountSettings = Partial<Record<AccountSettingKey, any>>;
+
+export interface BrokerAccount {
+  id: string;
+  name: string;
+  broker: Broker;
+  paper_trading: boolean;
+  api_key: string | null;      // masked
+  secret_key: string | null;   // masked
+  settings: BrokerAccountSettings;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BrokerAccountInput {
+  id?: string;
+  name: string;
+  broker?: Broker;
+  paper_trading: boolean;
+  api_key?: string;
+  secret_key?: string;
+  settings?: BrokerAccountSettings;
+}
+
+export const MAX_BROKER_ACCOUNT_NAME_LENGTH = 60;
+
+export const MAIN_ACCOUNT_LABEL = 'Main account';
+
+/**
+ * Keeps only the overridable keys that have a value
+ */
+export function pickAccountSettings(value: unknown): BrokerAccountSettings {
+  if (!value || typeof value !== 'object') return {};
+
+  const settings: BrokerAccountSettings = {};
+  for (const key of ACCOUNT_SETTING_KEYS) {
+    const setting = (value as Record<string, unknown>)[key];
+    if (setting !== undefined && setting !== null) {
+      settings[key] = setting;
+    }
+  }
+  return settings;
+}
+
+/**
+ * Returns apiSettings with the account's masked keys in the matching paper/live
+ * slot and its setting overrides applied. Keys of non-Alpaca accounts land in
+ * the same slots so the UI's "keys configured" checks hold for every broker;
+ * simulated accounts have no keys and are flagged with simulated_trading.
+ */
+export function applyBrokerAccount(apiSettings: ApiSettings | null, account: BrokerAccount | null): ApiSettings | null {
+  if (!apiSettings || !account) return apiSettings;
+
+  const slot = account.paper_trading ? 'paper' : 'live';
+  return {
+    ...apiSettings,
+    ...pickAccountSettings(account.settings),
+    simulated_trading: account.broker === BROKER.SIMULATED,
+    alpaca_paper_trading: account.paper_trading,
+    [`alpaca_${slot}_api_key`]: account.api_key || undefined,
+    [`alpaca_${slot}_secret_key`]: account.secret_key || undefined
+  };
+}
+
+/**
+ * Limits a query on an account-scoped table (watchlist, rebalance_schedules,
+ * trading_actions, ...) to one account; null is the main account
+ */
+export function scopeToAccount<T>(query: T, portfolioId: string | null): T {
+  // Matching the builder's generic filter signatures directly makes tsc recurse too deeply
+  const filterable = query as unknown as {
+    eq: (column: string, value: string) => T;
+    is: (column: string, value: null) => T;
+  };
+  return portfolioId ? filterable.eq('portfolio_id', portfolioId) : filterable.is('portfolio_id', null);
+}
+
+// Edge function errors arrive as FunctionsHttpError with the JSON body in context
+async function invokeSettingsProxy(body: Record<string, unknown>): Promise<any> {
+  const { data, error } = await supabase.functions.invoke('settings-proxy', { body });
+
+  if (error) {
+    let message = error.message;
+    try {
+      const errorResponse = await (error as any).context?.json();
+      if (errorResponse?.error) message = errorResponse.error;
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(message);
+  }
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+  return data;
+}
+
+/**
+ * Wipes the simulated account's cash, positions and orders; it reopens with
+ * its starting cash on next use. null resets the main account.
+ */
+export async function resetSimulatedAccount(portfolioId: string | null): Promise<void> {
+  await invokeSettingsProxy({ action: 'reset_simulated_account', portfolioId });
+}
+
+interface BrokerAccountsState {
+  accounts: BrokerAccount[];
+  activePortfolioId: string | null;
+  isLoading: boolean;
+  loaded: boolean;
+
+  loadAccounts: () => Promise<void>;
+  saveAccount: (account: BrokerAccountInput) => Promise<BrokerAccount>;
+  deleteAccount: (accountId: string) => Promise<void>;
+  setActivePortfolioId: (portfolioId: string | null) => void;
+}
+
+export const useBrokerAccounts = create<BrokerAccountsState>()(
+  persist(
+    (set, get) => ({
+      accounts: [],
+      activePortfolioId: null,
+      isLoading: false,
+      loaded: false,
+
+      loadAccounts: async () => {
+        set({ isLoading: true });
+        try {
+          const data = await invokeSettingsProxy({ action: 'get_broker_accounts' });
+          const accounts: BrokerAccount[] = data?.accounts || [];
+          const { activePortfolioId } = get();
+
+          set({
+            accounts,
+            loaded: true,
+            // Fall back to the main account when the stored account was deleted elsewhere
+            activePortfolioId: activePortfolioId && accounts.some(account => account.id === activePortfolioId)
+              ? activePortfolioId
+              : null
+          });
+        } catch (error) {
+          console.error('Failed to load broker accounts:', error);
+          set({ loaded: true });
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      saveAccount: async (account: BrokerAccountInput) => {
+        const data = await invokeSettingsProxy({ action: 'save_broker_account', account });
+        const saved: BrokerAccount = data.account;
+
+        set(state => ({
+          accounts: state.accounts.some(existing => existing.id === saved.id)
+            ? state.accounts.map(existing => existing.id === saved.id ? saved : existing)
+            : [...state.accounts, saved]
+        }));
+        return saved;
+      },
+
+      deleteAccount: async (accountId: string) => {
+        await invokeSettingsProxy({ action: 'delete_broker_account', accountId });
+
+        set(state => ({
+          accounts: state.accounts.filter(account => account.id !== accountId),
+          activePortfolioId: state.activePortfolioId === accountId ? null : state.activePortfolioId
+        }));
+      },
+
+      setActivePortfolioId: (portfolioId: string | null) => {
+        set({ activePortfolioId: portfolioId });
+      }
+    }),
+    {
+      name: 'broker-account-storage',
+      partialize: (state) => ({
+        activePortfolioId: state.activePortfolioId
+      })
+    }
+  )
+);
+
+// Active account id for non-React callers (alpacaAPI, analysis/rebalance starters)
+export const getActivePortfolioId = (): string | null => useBrokerAccounts.getState().activePortfolioId;
+
+export const getActiveBrokerAccount = (): BrokerAccount | null => {
+  const { accounts, activePortfolioId } = useBrokerAccounts.getState();
+  return activePortfolioId ? accounts.find(account => account.id === activePortfolioId) || null : null;
+};
+
+export const useActiveBrokerAccount = (): BrokerAccount | null =>
+  useBrokerAccounts(state =>
+    state.activePortfolioId ? state.accounts.find(account => account.id === state.activePortfolioId) || null : null
+  );
+
+// apiSettings as seen by the active account, for credential checks and rebalance defaults
+export function useActiveApiSettings(): ApiSettings | null {
+  const apiSettings = useAuth(state => state.apiSettings);
+  const account = useActiveBrokerAccount();
+  return useMemo(() => applyBrokerAccount(apiSettings, account), [apiSettings, account]);
+}
@@ -0,0 +1,105 @@
+/**
+ * Custom Analysts
+ *
+ * Frontend mirror of supabase/functions/_shared/customAnalysts.ts.
+ * Definitions are stored in the custom_analysts table; each analysis keeps the
+ * definitions it ran with in full_analysis.workflowGraph.customAnalysts, and the
+ * agent's report is saved in agent_insights under its agent name.
+ */
+
+export const CUSTOM_ANALYST_FUNCTION = 'agent-custom-analyst';
+
+const CUSTOM_ANALYST_PREFIX = `${CUSTOM_ANALYST_FUNCTION}:`;
+
+export const CUSTOM_ANALYST_INPUT = {
+  PRICE_HISTORY: 'price_history' as const,
+  INDICATORS: 'indicators' as const,
+  PERPLEFINA: 'perplefina' as const,
+  POSITIONS: 'positions' as const
+} as const;
+
+export type CustomAnalystInput = typeof CUSTOM_ANALYST_INPUT[keyof typeof CUSTOM_ANALYST_INPUT];
+
+export const CUSTOM_ANALYST_INPUT_LABELS: Record<CustomAnalystInput, string> = {
+  [CUSTOM_ANALYST_INPUT.PRICE_HISTORY]: 'Price history',
+  [CUSTOM_ANALYST_INPUT.INDICATORS]: 'Technical indicators',
+  [CUSTOM_ANALYST_INPUT.PERPLEFINA]: 'Web research (Perplefina)',
+  [CUSTOM_ANALYST_INPUT.POSITIONS]: 'Positions'
+};
+
+export type CustomAnalystFocusMode = 'news' | 'social' | 'fundamentals' | 'macroEconomy';
+
+export const CUSTOM_ANALYST_FOCUS_MODE_LABELS: Record<CustomAnalystFocusMode, string> = {
+  news: 'News',
+  social: 'Social media',
+  fundamentals: 'Fundamentals',
+  macroEconomy: 'Macro economy'
+};
+
+export const CUSTOM_ANALYST_PHASES = ['analysis', 'risk'] as const;
+
+export type CustomAnalystPhase = typeof CUSTOM_ANALYST_PHASES[number];
+
+export const CUSTOM_ANALYST_PHASE_LABELS: Record<CustomAnalystPhase, string> = {
+  analysis: 'Market Analysis',
+  risk: 'Risk Assessment'
+};
+
+export const MAX_CUSTOM_ANALYST_NAME_LENGTH = 60;
+export const MAX_CUSTOM_ANALYST_PROMPT_LENGTH = 4000;
+
+// Shape of the definitions stored with an analysis
+export interface CustomAnalystDefinition {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  dataInputs: CustomAnalystInput[];
+  focusMode: CustomAnalystFocusMode | null;
+  phase: CustomAnalystPhase;
+}
+
+// Row of the custom_analysts table
+export interface CustomAnalystRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  system_prompt: string;
+  data_inputs: CustomAnalystInput[];
+  focus_mode: CustomAnalystFocusMode | null;
+  phase: CustomAnalystPhase;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export function getCustomAnalystAgentName(customAnalystId: string): string {
+  return `${CUSTOM_ANALYST_PREFIX}${customAnalystId}`;
+}
+
+export function isCustomAnalystAgent(agentName: string | null | undefined): boolean {
+  return typeof agentName === 'string' && agentName.startsWith(CUSTOM_ANALYST_PREFIX);
+}
+
+/**
+ * Problems that would stop a definition from saving
+ */
+export function validateCustomAnalyst(draft: {
+  name: string;
+  system_prompt: string;
+  data_inputs: CustomAnalystInput[];
+  focus_mode: CustomAnalystFocusMode | null;
+}): string[] {
+  const errors: string[] = [];
+  if (!draft.name.trim()) errors.push('Name is required');
+  if (draft.name.length > MAX_CUSTOM_ANALYST_NAME_LENGTH) {
+    errors.push(`Name must be at most ${MAX_CUSTOM_ANALYST_NAME_LENGTH} characters`);
+  }
+  if (!draft.system_prompt.trim()) errors.push('System prompt is required');
+  if (draft.system_prompt.length > MAX_CUSTOM_ANALYST_PROMPT_LENGTH) {
+    errors.push(`System prompt must be at most ${MAX_CUSTOM_ANALYST_PROMPT_LENGTH} characters`);
+  }
+  if (draft.data_inputs.includes(CUSTOM_ANALYST_INPUT.PERPLEFINA) && !draft.focus_mode) {
+    errors.push('Choose a focus mode for web research');
+  }
+  return errors;
+}
@@ -0,0 +1,83 @@
+/**
+ * Data Export
+ *
+ * Frontend mirror of supabase/functions/_shared/dataExport.ts.
+ * Exports are generated by the export-data edge function and downloaded here.
+ */
+
+import { supabase } from "@/lib/supabase";
+
+export const EXPORT_DATASET = {
+  TRADES: 'trades' as const,
+  ANALYSES: 'analyses' as const,
+  REBALANCES: 'rebalances' as const
+} as const;
+
+export type ExportDataset = typeof EXPORT_DATASET[keyof typeof EXPORT_DATASET];
+
+export const EXPORT_FORMAT = {
+  CSV: 'csv' as const,
+  JSON: 'json' as const
+} as const;
+
+export type ExportFormat = typeof EXPORT_FORMAT[keyof typeof EXPORT_FORMAT];
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  [EXPORT_DATASET.TRADES]: 'Trade History',
+  [EXPORT_DATASET.ANALYSES]: 'Analyses',
+  [EXPORT_DATASET.REBALANCES]: 'Rebalances'
+};
+
+export interface ExportFilters {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;   // YYYY-MM-DD, inclusive
+  ticker?: string;
+  status?: string;
+}
+
+export interface ExportResult {
+  filename: string;
+  rowCount: number;
+  truncated: boolean;
+  maxRows: number;
+}
+
+/**
+ * Generates the export server-side and saves it as a file in the browser
+ */
+export async function downloadExport(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  filters: ExportFilters
+): Promise<ExportResult> {
+  const { data, error } = await supabase.functions.invoke('export-data', {
+    body: { dataset, format, filters }
+  });
+
+  if (error) {
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+    throw error;
+  }
+  if (!data?.success) {
+    throw new Error(data?.error || 'Export failed');
+  }
+
+  const blob = new Blob([data.content], { type: `${data.contentType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = data.filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return {
+    filename: data.filename,
+    rowCount: data.rowCount,
+    truncated: data.truncated,
+    maxRows: data.maxRows
+  };
+}
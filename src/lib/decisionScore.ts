@@ -0,0 +1,96 @@
+/**
+ * Decision Scorecard
+ *
+ * Frontend mirror of supabase/functions/_shared/decisionScore.ts.
+ * Scores are written to analysis_scores by the score-analysis-decisions edge
+ * function; calibration is aggregated here so the chart can be filtered freely.
+ */
+
+export const SCORE_BENCHMARK = 'SPY';
+
+export const SCORE_HORIZON = {
+  ONE_DAY: '1d' as const,
+  ONE_WEEK: '1w' as const,
+  ONE_MONTH: '1m' as const,
+  THREE_MONTHS: '3m' as const
+} as const;
+
+export type ScoreHorizon = typeof SCORE_HORIZON[keyof typeof SCORE_HORIZON];
+
+export const SCORE_HORIZON_LABELS: Record<ScoreHorizon, string> = {
+  [SCORE_HORIZON.ONE_DAY]: '1 Day',
+  [SCORE_HORIZON.ONE_WEEK]: '1 Week',
+  [SCORE_HORIZON.ONE_MONTH]: '1 Month',
+  [SCORE_HORIZON.THREE_MONTHS]: '3 Months'
+};
+
+export const HOLD_TOLERANCE_PCT: Record<ScoreHorizon, number> = {
+  [SCORE_HORIZON.ONE_DAY]: 1,
+  [SCORE_HORIZON.ONE_WEEK]: 2,
+  [SCORE_HORIZON.ONE_MONTH]: 4,
+  [SCORE_HORIZON.THREE_MONTHS]: 7
+};
+
+export type ScoredDecision = 'BUY' | 'SELL' | 'HOLD';
+
+export interface AnalysisScore {
+  analysis_id: string;
+  ticker: string;
+  decision: ScoredDecision;
+  confidence: number;
+  decision_date: string;
+  horizon: ScoreHorizon;
+  ticker_return_pct: number;
+  benchmark_return_pct: number;
+  excess_return_pct: number;
+  correct: boolean;
+}
+
+export interface CalibrationBucket {
+  label: string;
+  minConfidence: number;
+  maxConfidence: number;
+  // Midpoint of the bucket: the accuracy a perfectly calibrated model would show
+  expectedAccuracy: number;
+  realizedAccuracy: number | null;
+  count: number;
+  avgExcessReturnPct: number | null;
+}
+
+// Confidence below 50% is rare and means "coin flip", so it is one bucket
+const BUCKET_EDGES = [0, 50, 60, 70, 80, 90, 100];
+
+/**
+ * Groups scores into confidence buckets and compares the share of correct
+ * calls in each bucket with the confidence the agents claimed
+ */
+export function buildCalibration(scores: AnalysisScore[]): CalibrationBucket[] {
+  return BUCKET_EDGES.slice(0, -1).map((min, index) => {
+    const max = BUCKET_EDGES[index + 1];
+    const isLast = index === BUCKET_EDGES.length - 2;
+    const inBucket = scores.filter(score =>
+      Number(score.confidence) >= min && (isLast ? Number(score.confidence) <= max : Number(score.confidence) < max)
+    );
+    const correct = inBucket.filter(score => score.correct).length;
+
+    return {
+      label: `${min}–${max}%`,
+      minConfidence: min,
+      maxConfidence: max,
+      expectedAccuracy: (min + max) / 2,
+      realizedAccuracy: inBucket.length > 0 ? (correct / inBucket.length) * 100 : null,
+      count: inBucket.length,
+      avgExcessReturnPct: inBucket.length > 0
+        ? inBucket.reduce((sum, score) => sum + Number(score.excess_return_pct), 0) / inBucket.length
+        : null
+    };
+  });
+}
+
+/**
+ * Share of correct calls, or null when nothing has been scored
+ */
+export function calculateAccuracy(scores: AnalysisScore[]): number | null {
+  if (scores.length === 0) return null;
+  return (scores.filter(score => score.correct).length / scores.length) * 100;
+}
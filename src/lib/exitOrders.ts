@@ -0,0 +1,108 @@
+/**
+ * Exit Order (Bracket / OCO) Definitions
+ *
+ * Frontend mirror of supabase/functions/_shared/exitOrders.ts.
+ * Exit state is stored on trading_actions.metadata.exit_orders by execute-trade.
+ */
+
+export const EXIT_ORDER_MODE = {
+  NONE: 'none' as const,
+  BRACKET: 'bracket' as const,
+  OCO: 'oco' as const
+} as const;
+
+export type ExitOrderMode = typeof EXIT_ORDER_MODE[keyof typeof EXIT_ORDER_MODE];
+
+export const EXIT_ORDER_STATUS = {
+  PENDING_FILL: 'pending_fill' as const,
+  PLACED: 'placed' as const,
+  SKIPPED: 'skipped' as const,
+  FAILED: 'failed' as const
+} as const;
+
+export type ExitOrderStatus = typeof EXIT_ORDER_STATUS[keyof typeof EXIT_ORDER_STATUS];
+
+export interface ExitOrderLeg {
+  id: string;
+  role: 'take_profit' | 'stop_loss';
+  type: string;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  status: string;
+  filledQty: number | null;
+  filledAvgPrice: number | null;
+}
+
+export interface ExitOrders {
+  mode: ExitOrderMode;
+  status: ExitOrderStatus;
+  takeProfitPercent: number | null;
+  stopLossPercent: number | null;
+  takeProfitPrice: number | null;
+  stopLossPrice: number | null;
+  qty: number | null;
+  legs: ExitOrderLeg[];
+  error: string | null;
+}
+
+export const EXIT_ORDER_MODE_LABELS: Record<ExitOrderMode, string> = {
+  none: 'None',
+  bracket: 'Bracket',
+  oco: 'OCO'
+};
+
+export const EXIT_ORDER_STATUS_LABELS: Record<ExitOrderStatus, string> = {
+  pending_fill: 'Waiting for fill',
+  placed: 'Placed',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+export function isValidExitOrderMode(mode: unknown): mode is ExitOrderMode {
+  return typeof mode === 'string' && Object.values(EXIT_ORDER_MODE).includes(mode as ExitOrderMode);
+}
+
+export function isValidExitOrderStatus(status: unknown): status is ExitOrderStatus {
+  return typeof status === 'string' && Object.values(EXIT_ORDER_STATUS).includes(status as ExitOrderStatus);
+}
+
+/**
+ * Reads metadata.exit_orders from a trading_actions row
+ */
+export function getExitOrdersFromMetadata(metadata: Record<string, unknown> | null | undefined): ExitOrders | null {
+  const raw = metadata?.exit_orders as Record<string, unknown> | undefined;
+  if (!raw || !isValidExitOrderMode(raw.mode) || raw.mode === EXIT_ORDER_MODE.NONE) {
+    return null;
+  }
+
+  const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const legs = Array.isArray(raw.legs) ? raw.legs as Record<string, unknown>[] : [];
+
+  return {
+    mode: raw.mode,
+    status: isValidExitOrderStatus(raw.status) ? raw.status : EXIT_ORDER_STATUS.PENDING_FILL,
+    takeProfitPercent: toNumber(raw.take_profit_percent),
+    stopLossPercent: toNumber(raw.stop_loss_percent),
+    takeProfitPrice: toNumber(raw.take_profit_price),
+    stopLossPrice: toNumber(raw.stop_loss_price),
+    qty: toNumber(raw.qty),
+    error: typeof raw.error === 'string' ? raw.error : null,
+    legs: legs
+      .filter(leg => typeof leg?.id === 'string')
+      .map(leg => ({
+        id: leg.id as string,
+        role: leg.role === 'take_profit' ? 'take_profit' : 'stop_loss',
+        type: String(leg.type || ''),
+        limitPrice: toNumber(leg.limit_price),
+        stopPrice: toNumber(leg.stop_price),
+        status: String(leg.status || 'new'),
+        filledQty: toNumber(leg.filled_qty),
+        filledAvgPrice: toNumber(leg.filled_avg_price)
+      }))
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Fundamentals
+ *
+ * Frontend mirror of the snapshot types and value formatting in
+ * supabase/functions/_shared/fundamentals. The Fundamentals Analyst stores the
+ * snapshot on its insight as `fundamentals`; every line item says whether it
+ * was reported in a filing or calculated from reported figures.
+ */
+
+export type FundamentalsUnit = 'USD' | 'USD/share' | 'shares' | 'percent' | 'ratio';
+
+export interface FundamentalsPeriod {
+  label: string;
+  fiscalYear: number;
+  fiscalPeriod: 'FY' | 'Q1' | 'Q2' | 'Q3' | 'Q4';
+  periodEnd: string;
+  form: string | null;
+  filed: string | null;
+}
+
+export interface FundamentalsLineItem {
+  key: string;
+  label: string;
+  unit: FundamentalsUnit;
+  values: (number | null)[];
+  source: 'reported' | 'calculated';
+  concept: string | null;
+}
+
+export interface FundamentalsStatement {
+  periods: FundamentalsPeriod[];
+  items: FundamentalsLineItem[];
+}
+
+export interface EarningsRecord {
+  period: FundamentalsPeriod;
+  revenue: number | null;
+  netIncome: number | null;
+  epsDiluted: number | null;
+  revenueGrowthYoY: number | null;
+  epsGrowthYoY: number | null;
+  derived: boolean;
+}
+
+export interface FundamentalsSnapshot {
+  symbol: string;
+  companyName: string;
+  provider: string;
+  providerLabel: string;
+  sourceUrl: string | null;
+  currency: string;
+  fetchedAt: string;
+  incomeStatement: FundamentalsStatement;
+  balanceSheet: FundamentalsStatement;
+  cashFlow: FundamentalsStatement;
+  ratios: FundamentalsStatement;
+  earnings: EarningsRecord[];
+}
+
+export function formatFundamentalsValue(value: number | null, unit: FundamentalsUnit): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+
+  switch (unit) {
+    case 'USD': {
+      const abs = Math.abs(value);
+      const sign = value < 0 ? '-' : '';
+      if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+      if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+      return `${sign}$${abs.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+    }
+    case 'USD/share':
+      return `$${value.toFixed(2)}`;
+    case 'shares':
+      return value >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : value.toLocaleString('en-US');
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    case 'ratio':
+      return value.toFixed(2);
+  }
+}
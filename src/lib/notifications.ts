@@ -0,0 +1,106 @@
+/**
+ * User Notifications
+ *
+ * Frontend mirror of supabase/functions/_shared/notifications.ts.
+ * Preferences are stored in the notification_preferences table; event_channels
+ * maps each event to the channels it is delivered on.
+ */
+
+export const NOTIFICATION_EVENT = {
+  ANALYSIS_COMPLETED: 'analysis_completed' as const,
+  ANALYSIS_FAILED: 'analysis_failed' as const,
+  REBALANCE_COMPLETED: 'rebalance_completed' as const,
+  REBALANCE_FAILED: 'rebalance_failed' as const,
+  ORDERS_PENDING: 'orders_pending' as const,
+  ORDERS_EXECUTED: 'orders_executed' as const,
+  ORDERS_FAILED: 'orders_failed' as const
+} as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENT[keyof typeof NOTIFICATION_EVENT];
+
+export const NOTIFICATION_CHANNEL = {
+  EMAIL: 'email' as const,
+  DISCORD: 'discord' as const,
+  WEBHOOK: 'webhook' as const
+} as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNEL[keyof typeof NOTIFICATION_CHANNEL];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, { label: string; description: string }> = {
+  [NOTIFICATION_EVENT.ANALYSIS_COMPLETED]: {
+    label: 'Analysis completed',
+    description: 'A standalone stock analysis finished'
+  },
+  [NOTIFICATION_EVENT.ANALYSIS_FAILED]: {
+    label: 'Analysis failed',
+    description: 'A standalone stock analysis stopped with an error'
+  },
+  [NOTIFICATION_EVENT.REBALANCE_COMPLETED]: {
+    label: 'Rebalance completed',
+    description: 'A manual or scheduled rebalance finished'
+  },
+  [NOTIFICATION_EVENT.REBALANCE_FAILED]: {
+    label: 'Rebalance failed',
+    description: 'A rebalance stopped with an error'
+  },
+  [NOTIFICATION_EVENT.ORDERS_PENDING]: {
+    label: 'Orders awaiting approval',
+    description: 'New trade orders are pending because auto-execute is off'
+  },
+  [NOTIFICATION_EVENT.ORDERS_EXECUTED]: {
+    label: 'Orders auto-executed',
+    description: 'Trade orders were submitted to Alpaca by auto-execute'
+  },
+  [NOTIFICATION_EVENT.ORDERS_FAILED]: {
+    label: 'Orders failed',
+    description: 'Auto-execute could not submit one or more trade orders'
+  }
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  [NOTIFICATION_CHANNEL.EMAIL]: 'Email',
+  [NOTIFICATION_CHANNEL.DISCORD]: 'Discord DM',
+  [NOTIFICATION_CHANNEL.WEBHOOK]: 'Webhook'
+};
+
+// Row of the notification_preferences table
+export interface NotificationPreferences {
+  user_id: string;
+  email_enabled: boolean;
+  discord_enabled: boolean;
+  webhook_enabled: boolean;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  event_channels: Partial<Record<NotificationEvent, NotificationChannel[]>>;
+}
+
+export function defaultNotificationPreferences(userId: string): NotificationPreferences {
+  return {
+    user_id: userId,
+    email_enabled: false,
+    discord_enabled: false,
+    webhook_enabled: false,
+    webhook_url: null,
+    webhook_secret: null,
+    event_channels: {
+      [NOTIFICATION_EVENT.REBALANCE_COMPLETED]: [NOTIFICATION_CHANNEL.EMAIL],
+      [NOTIFICATION_EVENT.REBALANCE_FAILED]: [NOTIFICATION_CHANNEL.EMAIL],
+      [NOTIFICATION_EVENT.ORDERS_PENDING]: [NOTIFICATION_CHANNEL.EMAIL]
+    }
+  };
+}
+
+/**
+ * Problems that would stop the preferences from saving
+ */
+export function validateNotificationPreferences(preferences: NotificationPreferences): string[] {
+  const errors: string[] = [];
+  const webhookUrl = preferences.webhook_url?.trim();
+  if (preferences.webhook_enabled && !webhookUrl) {
+    errors.push('Webhook URL is required when webhooks are enabled');
+  }
+  if (webhookUrl && !webhookUrl.startsWith('https://')) {
+    errors.push('Webhook URL must start with https://');
+  }
+  return errors;
+}
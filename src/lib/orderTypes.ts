@@ -0,0 +1,170 @@
+/**
+ * Order Type Definitions
+ *
+ * Frontend mirror of supabase/functions/_shared/orderTypes.ts.
+ * Values are stored on trading_actions (order_type, time_in_force, limit_price,
+ * stop_price, trail_percent, trail_price) and sent to execute-trade as orderParams.
+ */
+
+export const ORDER_TYPE = {
+  MARKET: 'market' as const,
+  LIMIT: 'limit' as const,
+  STOP: 'stop' as const,
+  STOP_LIMIT: 'stop_limit' as const,
+  TRAILING_STOP: 'trailing_stop' as const
+} as const;
+
+export type OrderType = typeof ORDER_TYPE[keyof typeof ORDER_TYPE];
+
+export const TIME_IN_FORCE = {
+  DAY: 'day' as const,
+  GTC: 'gtc' as const,
+  OPG: 'opg' as const,
+  CLS: 'cls' as const,
+  IOC: 'ioc' as const,
+  FOK: 'fok' as const
+} as const;
+
+export type TimeInForce = typeof TIME_IN_FORCE[keyof typeof TIME_IN_FORCE];
+
+export interface OrderParams {
+  orderType: OrderType;
+  timeInForce?: TimeInForce | null;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  trailPercent?: number | null;
+  trailPrice?: number | null;
+}
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop',
+  stop_limit: 'Stop Limit',
+  trailing_stop: 'Trailing Stop'
+};
+
+export const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  day: 'Day',
+  gtc: 'Good Till Canceled',
+  opg: 'Market Open',
+  cls: 'Market Close',
+  ioc: 'Immediate or Cancel',
+  fok: 'Fill or Kill'
+};
+
+export function isValidOrderType(type: unknown): type is OrderType {
+  return typeof type === 'string' && Object.values(ORDER_TYPE).includes(type as OrderType);
+}
+
+export function isValidTimeInForce(tif: unknown): tif is TimeInForce {
+  return typeof tif === 'string' && Object.values(TIME_IN_FORCE).includes(tif as TimeInForce);
+}
+
+export function requiresLimitPrice(type: OrderType): boolean {
+  return type === ORDER_TYPE.LIMIT || type === ORDER_TYPE.STOP_LIMIT;
+}
+
+export function requiresStopPrice(type: OrderType): boolean {
+  return type === ORDER_TYPE.STOP || type === ORDER_TYPE.STOP_LIMIT;
+}
+
+/**
+ * Time-in-force values that are valid for the given order type / asset
+ */
+export function getAllowedTimeInForce(type: OrderType, isCrypto: boolean = false): TimeInForce[] {
+  if (isCrypto) {
+    return [TIME_IN_FORCE.GTC, TIME_IN_FORCE.IOC];
+  }
+  if (type === ORDER_TYPE.TRAILING_STOP) {
+    return [TIME_IN_FORCE.DAY, TIME_IN_FORCE.GTC];
+  }
+  return Object.values(TIME_IN_FORCE);
+}
+
+/**
+ * Order types that are valid for the given asset
+ */
+export function getAllowedOrderTypes(isCrypto: boolean = false): OrderType[] {
+  if (isCrypto) {
+    return [ORDER_TYPE.MARKET, ORDER_TYPE.LIMIT, ORDER_TYPE.STOP_LIMIT];
+  }
+  return Object.values(ORDER_TYPE);
+}
+
+/**
+ * Builds OrderParams from a trading_actions row (snake_case) or a mapped trade order (camelCase)
+ */
+export function getOrderParamsFromTradeOrder(order: Record<string, unknown> | null | undefined): OrderParams {
+  const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const orderType = order?.orderType ?? order?.order_type;
+  const timeInForce = order?.timeInForce ?? order?.time_in_force;
+
+  return {
+    orderType: isValidOrderType(orderType) ? orderType : ORDER_TYPE.MARKET,
+    timeInForce: isValidTimeInForce(timeInForce) ? timeInForce : null,
+    limitPrice: toNumber(order?.limitPrice ?? order?.limit_price),
+    stopPrice: toNumber(order?.stopPrice ?? order?.stop_price),
+    trailPercent: toNumber(order?.trailPercent ?? order?.trail_percent),
+    trailPrice: toNumber(order?.trailPrice ?? order?.trail_price)
+  };
+}
+
+/**
+ * Client-side sanity check before sending an order for execution.
+ * Quote-based validation happens in execute-trade.
+ */
+export function getOrderParamsError(params: OrderParams, side: 'BUY' | 'SELL'): string | null {
+  const { orderType, limitPrice, stopPrice, trailPercent, trailPrice } = params;
+
+  if (requiresLimitPrice(orderType) && !(limitPrice && limitPrice > 0)) {
+    return 'Enter a limit price';
+  }
+  if (requiresStopPrice(orderType) && !(stopPrice && stopPrice > 0)) {
+    return 'Enter a stop price';
+  }
+  if (orderType === ORDER_TYPE.STOP_LIMIT) {
+    if (side === 'BUY' && limitPrice! < stopPrice!) {
+      return 'Buy stop-limit needs a limit price at or above the stop price';
+    }
+    if (side === 'SELL' && limitPrice! > stopPrice!) {
+      return 'Sell stop-limit needs a limit price at or below the stop price';
+    }
+  }
+  if (orderType === ORDER_TYPE.TRAILING_STOP) {
+    const hasPercent = !!(trailPercent && trailPercent > 0);
+    const hasPrice = !!(trailPrice && trailPrice > 0);
+    if (hasPercent === hasPrice) {
+      return 'Enter either a trail percent or a trail amount';
+    }
+  }
+  return null;
+}
+
+/**
+ * Short human-readable summary, e.g. "Limit $12.50 · GTC"
+ */
+export function formatOrderParams(params: OrderParams): string {
+  const parts: string[] = [ORDER_TYPE_LABELS[params.orderType] || params.orderType];
+
+  if (params.orderType === ORDER_TYPE.STOP_LIMIT) {
+    parts[0] += ` $${params.stopPrice} → $${params.limitPrice}`;
+  } else if (params.orderType === ORDER_TYPE.LIMIT && params.limitPrice) {
+    parts[0] += ` $${params.limitPrice}`;
+  } else if (params.orderType === ORDER_TYPE.STOP && params.stopPrice) {
+    parts[0] += ` $${params.stopPrice}`;
+  } else if (params.orderType === ORDER_TYPE.TRAILING_STOP) {
+    parts[0] += params.trailPercent ? ` ${params.trailPercent}%` : ` $${params.trailPrice}`;
+  }
+
+  if (params.timeInForce) {
+    parts.push(params.timeInForce.toUpperCase());
+  }
+
+  return parts.join(' · ');
+}
@@ -1,5 +1,6 @@
 import { alpacaAPI } from './alpaca';
 import { useAuth } from './auth';
+import type { BenchmarkBar } from './benchmarks';
 
 export interface PortfolioDataPoint {
   time: string;
@@ -279,6 +280,28 @@ export const fetchPortfolioDataForPeriod = async (period: string): Promise<Portf
   }
 };
 
+// Bar timeframes for benchmark overlays, close to the portfolio history spacing
+const BENCHMARK_TIMEFRAMES: Record<string, string> = {
+  '1D': '5Min',
+  '1W': '1Hour',
+  'All': '1Week'
+};
+
+// Fetch benchmark closes covering a portfolio period, starting at its first point
+export const fetchBenchmarkBarsForPeriod = async (
+  symbols: string[],
+  period: string,
+  startTimestamp: number
+): Promise<Record<string, BenchmarkBar[]>> => {
+  if (symbols.length === 0) return {};
+
+  // Start one bar early so the first portfolio point has a price to normalize against
+  const lookbackSeconds = period === '1D' ? 15 * 60 : period === '1W' ? 2 * 60 * 60 : 7 * 24 * 60 * 60;
+  const start = new Date((startTimestamp - lookbackSeconds) * 1000).toISOString();
+
+  return alpacaAPI.getBenchmarkBars(symbols, BENCHMARK_TIMEFRAMES[period] || '1Day', start);
+};
+
 // Legacy function - kept for backward compatibility but now fetches all periods
 // This should be avoided in favor of fetchPortfolioDataForPeriod
 export const fetchPortfolioData = async (): Promise<PortfolioData> => {
@@ -479,9 +502,9 @@ const checkAlpacaCredentials = (): void => {
   const authState = useAuth.getState();
   const apiSettings = authState.apiSettings;
   const isPaperTrading = apiSettings?.alpaca_paper_trading ?? true;
-  const hasCredentials = isPaperTrading
+  const hasCredentials = apiSettings?.simulated_trading || (isPaperTrading
     ? (apiSettings?.alpaca_paper_api_key && apiSettings?.alpaca_paper_secret_key)
-    : (apiSettings?.alpaca_live_api_key && apiSettings?.alpaca_live_secret_key);
+    : (apiSettings?.alpaca_live_api_key && apiSettings?.alpaca_live_secret_key));
 
   if (!hasCredentials) {
     console.error('Alpaca API credentials not configured');
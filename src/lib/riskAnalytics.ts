@@ -0,0 +1,82 @@
+/**
+ * Portfolio Risk Analytics
+ *
+ * Frontend mirror of supabase/functions/_shared/riskAnalytics.ts.
+ * The report is built by alpaca-batch (includeRiskAnalytics) from Alpaca
+ * portfolio history and daily position bars.
+ */
+
+export const RISK_BENCHMARK_SYMBOL = 'SPY';
+export const TRADING_DAYS_PER_YEAR = 252;
+export const RISK_FREE_RATE = 0.04;       // annual, used for Sharpe/Sortino
+export const MIN_RISK_OBSERVATIONS = 20;
+
+export const RETURN_SOURCE = {
+  ACCOUNT_HISTORY: 'account_history' as const,
+  HOLDINGS: 'holdings' as const
+} as const;
+
+export type ReturnSource = typeof RETURN_SOURCE[keyof typeof RETURN_SOURCE];
+
+export interface RiskMetrics {
+  observations: number;
+  annualizedReturn: number | null;
+  annualizedVolatility: number | null;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: number | null;
+  currentDrawdown: number | null;
+  valueAtRisk: number | null;
+  conditionalValueAtRisk: number | null;
+}
+
+export interface PortfolioRiskMetrics extends RiskMetrics {
+  beta: number | null;
+  correlationToBenchmark: number | null;
+  valueAtRiskDollars: number | null;
+  conditionalValueAtRiskDollars: number | null;
+}
+
+export interface PositionRisk {
+  symbol: string;
+  weight: number;
+  marketValue: number;
+  observations: number;
+  beta: number | null;
+  annualizedVolatility: number | null;
+  correlationToPortfolio: number | null;
+}
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  values: Array<Array<number | null>>;
+}
+
+export interface PortfolioRiskReport {
+  generatedAt: string;
+  startDate: string;
+  endDate: string;
+  benchmark: string;
+  riskFreeRate: number;
+  confidence: number;
+  equity: number;
+  returnSource: ReturnSource;
+  portfolio: PortfolioRiskMetrics;
+  benchmarkMetrics: RiskMetrics;
+  positions: PositionRisk[];
+  correlation: CorrelationMatrix;
+  warnings: string[];
+}
+
+export const formatRiskValue = (value: number | null | undefined, suffix = '', digits = 2): string =>
+  value === null || value === undefined ? '—' : `${value.toFixed(digits)}${suffix}`;
+
+// Background for a correlation cell: red for strongly correlated, green for diversifying
+export const correlationCellClass = (value: number | null): string => {
+  if (value === null) return 'text-muted-foreground';
+  if (value >= 0.8) return 'bg-red-500/30';
+  if (value >= 0.5) return 'bg-red-500/15';
+  if (value <= -0.3) return 'bg-green-500/20';
+  if (value < 0.2) return 'bg-green-500/10';
+  return '';
+};
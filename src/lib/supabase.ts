@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import type { WorkflowGraphConfig } from './workflowGraph';
+import type { ExposureLimit } from './assetClassification';
+import type { BenchmarkDefinition } from './benchmarks';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabasePublishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY || '';
@@ -90,9 +93,14 @@ export interface Profile {
 export interface ApiSettings {
   id: string;
   user_id: string;
-  ai_provider: 'openai' | 'anthropic' | 'google' | 'openrouter' | 'deepseek';
+  ai_provider: 'openai' | 'anthropic' | 'google' | 'openrouter' | 'deepseek' | 'openai-compatible';
   ai_api_key: string;
   ai_model?: string;
+  ai_base_url?: string | null;
+  ai_model_prices?: Record<string, { input: number; cached_input?: number; output: number }> | null;
+  ai_budget_period?: string | null;  // 'none' | 'daily' | 'monthly'
+  ai_budget_usd?: number | null;
+  ai_budget_tokens?: number | null;
   polygon_api_key?: string;
   alpaca_paper_api_key?: string;
   alpaca_paper_secret_key?: string;
@@ -107,6 +115,7 @@ export interface ApiSettings {
   openrouter_api_key?: string;
   // Team-specific AI settings
   research_debate_rounds?: number;
+  workflow_config?: WorkflowGraphConfig | null;  // Phase order and enabled agents
   analysis_team_ai?: string;
   analysis_team_model?: string;
   analysis_team_provider_id?: string;
@@ -129,9 +138,25 @@ export interface ApiSettings {
   analysis_depth?: number;
   analysis_history_days?: number | string;  // Can be number or string like "1M", "3M", etc.
   analysis_search_sources?: number;
+  // Indicator groups in the Market Analyst prompt; null for the default set
+  analysis_indicators?: string[] | null;
   // Position management preferences
   profit_target?: number;
   stop_loss?: number;
+  // Order execution preferences
+  default_order_type?: string;
+  default_time_in_force?: string;
+  limit_order_offset?: number;
+  exit_order_mode?: string;
+  // Tax lot accounting method (fifo, lifo, specific_id)
+  tax_lot_method?: string;
+  // Built-in simulated broker (main account); named accounts may override the numbers
+  simulated_trading?: boolean;
+  simulated_starting_cash?: number;
+  simulated_slippage_bps?: number;
+  simulated_commission?: number;
+  // Custom tickers and baskets offered as PerformanceChart benchmarks
+  performance_benchmarks?: BenchmarkDefinition[];
   // Max tokens settings
   analysis_max_tokens?: number;
   research_max_tokens?: number;
@@ -139,8 +164,12 @@ export interface ApiSettings {
   risk_max_tokens?: number;
   // Rebalance settings
   rebalance_threshold?: number;
+  default_rebalance_threshold?: number;
   rebalance_min_position_size?: number;
   rebalance_max_position_size?: number;
+  near_position_threshold?: number;
+  rebalance_tax_aware?: boolean;
+  rebalance_exposure_limits?: ExposureLimit[];
   target_stock_allocation?: number;
   target_cash_allocation?: number;
   rebalance_enabled?: boolean;
@@ -434,6 +463,7 @@ export const supabaseHelpers = {
     nickname: string;
     provider: string;
     api_key: string;
+    base_url?: string | null;
     is_default?: boolean;
   }) {
     try {
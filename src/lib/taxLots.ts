@@ -0,0 +1,144 @@
+/**
+ * Tax Lot Accounting
+ *
+ * Frontend mirror of supabase/functions/_shared/taxLots.ts.
+ * The report is built by alpaca-batch (includeTaxLots) from Alpaca FILL activities.
+ */
+
+export const TAX_LOT_METHOD = {
+  FIFO: 'fifo' as const,
+  LIFO: 'lifo' as const,
+  SPECIFIC_ID: 'specific_id' as const
+} as const;
+
+export type TaxLotMethod = typeof TAX_LOT_METHOD[keyof typeof TAX_LOT_METHOD];
+
+export const DEFAULT_TAX_LOT_METHOD: TaxLotMethod = TAX_LOT_METHOD.FIFO;
+
+export const TAX_LOT_METHOD_LABELS: Record<TaxLotMethod, string> = {
+  [TAX_LOT_METHOD.FIFO]: 'FIFO (first in, first out)',
+  [TAX_LOT_METHOD.LIFO]: 'LIFO (last in, first out)',
+  [TAX_LOT_METHOD.SPECIFIC_ID]: 'Specific ID'
+};
+
+export const HOLDING_TERM = {
+  SHORT: 'short' as const,
+  LONG: 'long' as const
+} as const;
+
+export type HoldingTerm = typeof HOLDING_TERM[keyof typeof HOLDING_TERM];
+
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+export interface OpenTaxLot {
+  lotId: string;
+  symbol: string;
+  acquiredAt: string;
+  quantity: number;
+  originalQuantity: number;
+  costPerShare: number;
+  costBasis: number;
+  term: HoldingTerm;
+  longTermAt: string;
+  unrealizedGain: number | null;
+}
+
+export interface RealizedLot {
+  saleId: string;
+  orderId: string | null;
+  symbol: string;
+  lotId: string;
+  acquiredAt: string;
+  disposedAt: string;
+  quantity: number;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+  term: HoldingTerm;
+  washSaleCandidate: boolean;
+}
+
+export interface WashSaleCandidate {
+  saleId: string;
+  symbol: string;
+  disposedAt: string;
+  quantity: number;
+  loss: number;
+  replacementFillIds: string[];
+  replacementQuantity: number;
+  disallowedLossEstimate: number;
+}
+
+export interface PositionTaxSummary {
+  symbol: string;
+  quantity: number;
+  costBasis: number;
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  unrealizedShortTerm: number;
+  unrealizedLongTerm: number;
+  realizedGain: number;
+  realizedShortTerm: number;
+  realizedLongTerm: number;
+  openLots: OpenTaxLot[];
+  nextLongTermAt: string | null;
+  washSaleWindowEndsAt: string | null;
+}
+
+export interface TaxGainTotals {
+  shortTerm: number;
+  longTerm: number;
+  total: number;
+}
+
+export interface TaxLotReport {
+  method: TaxLotMethod;
+  generatedAt: string;
+  fillCount: number;
+  positions: PositionTaxSummary[];
+  realized: RealizedLot[];
+  washSaleCandidates: WashSaleCandidate[];
+  totals: {
+    realized: TaxGainTotals;
+    unrealized: TaxGainTotals;
+    disallowedLossEstimate: number;
+  };
+  realizedByYear: Record<string, TaxGainTotals>;
+  warnings: string[];
+}
+
+export interface OrderTaxImplication {
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  estimatedGain: number | null;
+  shortTermGain: number | null;
+  longTermGain: number | null;
+  washSaleRisk: boolean;
+  washSaleWindowEndsAt: string | null;
+  lots?: Array<{ lotId: string; acquiredAt: string; quantity: number; gain: number; term: HoldingTerm }>;
+}
+
+export interface RebalanceTaxImplications {
+  method: TaxLotMethod;
+  estimatedAt: string;
+  orders: OrderTaxImplication[];
+  totals: TaxGainTotals & { washSaleWarnings: number };
+  realizedYearToDate: TaxGainTotals;
+}
+
+export function isValidTaxLotMethod(value: unknown): value is TaxLotMethod {
+  return typeof value === 'string' && Object.values(TAX_LOT_METHOD).includes(value as TaxLotMethod);
+}
+
+export const formatGain = (value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—';
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+export const gainColor = (value: number | null | undefined): string => {
+  if (!value) return '';
+  return value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+};
@@ -0,0 +1,91 @@
+/**
+ * Technical Indicators
+ *
+ * Frontend mirror of the indicator groups in
+ * supabase/functions/_shared/technicalIndicators.ts. Every group is calculated
+ * for the Market Analyst; api_settings.analysis_indicators picks the ones its
+ * prompt includes, and null keeps the default set.
+ */
+
+export const INDICATOR_SET = {
+  MOVING_AVERAGES: 'moving_averages' as const,
+  MACD: 'macd' as const,
+  RSI: 'rsi' as const,
+  STOCHASTIC: 'stochastic' as const,
+  BOLLINGER: 'bollinger' as const,
+  ATR: 'atr' as const,
+  VOLUME: 'volume' as const,
+  SUPPORT_RESISTANCE: 'support_resistance' as const,
+  ADX: 'adx' as const,
+  ICHIMOKU: 'ichimoku' as const,
+  VWAP: 'vwap' as const,
+  KELTNER: 'keltner' as const,
+  CCI: 'cci' as const,
+  MFI: 'mfi' as const,
+  WILLIAMS_R: 'williams_r' as const,
+  PARABOLIC_SAR: 'parabolic_sar' as const,
+  PIVOT_POINTS: 'pivot_points' as const,
+  VOLUME_PROFILE: 'volume_profile' as const
+} as const;
+
+export type IndicatorSetKey = typeof INDICATOR_SET[keyof typeof INDICATOR_SET];
+
+export const INDICATOR_SET_LABELS: Record<IndicatorSetKey, string> = {
+  [INDICATOR_SET.MOVING_AVERAGES]: 'Moving Averages',
+  [INDICATOR_SET.MACD]: 'MACD',
+  [INDICATOR_SET.RSI]: 'RSI',
+  [INDICATOR_SET.STOCHASTIC]: 'Stochastic',
+  [INDICATOR_SET.BOLLINGER]: 'Bollinger Bands',
+  [INDICATOR_SET.ATR]: 'ATR',
+  [INDICATOR_SET.VOLUME]: 'Volume & OBV',
+  [INDICATOR_SET.SUPPORT_RESISTANCE]: 'Support/Resistance',
+  [INDICATOR_SET.ADX]: 'ADX/DMI',
+  [INDICATOR_SET.ICHIMOKU]: 'Ichimoku Cloud',
+  [INDICATOR_SET.VWAP]: 'VWAP & Anchored VWAP',
+  [INDICATOR_SET.KELTNER]: 'Keltner Channels',
+  [INDICATOR_SET.CCI]: 'CCI',
+  [INDICATOR_SET.MFI]: 'MFI',
+  [INDICATOR_SET.WILLIAMS_R]: 'Williams %R',
+  [INDICATOR_SET.PARABOLIC_SAR]: 'Parabolic SAR',
+  [INDICATOR_SET.PIVOT_POINTS]: 'Pivot Points',
+  [INDICATOR_SET.VOLUME_PROFILE]: 'Volume Profile'
+};
+
+export const INDICATOR_SET_DESCRIPTIONS: Record<IndicatorSetKey, string> = {
+  [INDICATOR_SET.MOVING_AVERAGES]: 'SMA 20/50 and EMA 12/26',
+  [INDICATOR_SET.MACD]: 'MACD line and signal (12/26/9)',
+  [INDICATOR_SET.RSI]: '14-period relative strength',
+  [INDICATOR_SET.STOCHASTIC]: '%K and %D (14/3)',
+  [INDICATOR_SET.BOLLINGER]: '20-period bands at 2 standard deviations',
+  [INDICATOR_SET.ATR]: '14-period average true range',
+  [INDICATOR_SET.VOLUME]: 'Bar volume and on-balance volume',
+  [INDICATOR_SET.SUPPORT_RESISTANCE]: 'Levels from local highs and lows',
+  [INDICATOR_SET.ADX]: 'Trend strength with +DI / -DI (14)',
+  [INDICATOR_SET.ICHIMOKU]: 'Tenkan, Kijun and cloud (9/26/52)',
+  [INDICATOR_SET.VWAP]: 'Session or 20-bar VWAP, plus VWAP anchored at the main move',
+  [INDICATOR_SET.KELTNER]: 'EMA 20 with 2x ATR(10) channels',
+  [INDICATOR_SET.CCI]: '20-period commodity channel index',
+  [INDICATOR_SET.MFI]: '14-period money flow index',
+  [INDICATOR_SET.WILLIAMS_R]: '14-period %R',
+  [INDICATOR_SET.PARABOLIC_SAR]: 'Stop and reverse (0.02 / 0.2)',
+  [INDICATOR_SET.PIVOT_POINTS]: 'Classic floor pivots from the prior session',
+  [INDICATOR_SET.VOLUME_PROFILE]: 'Point of control and 70% value area'
+};
+
+// What the Market Analyst prompt carried before the selection existed
+export const DEFAULT_INDICATOR_SET: IndicatorSetKey[] = [
+  INDICATOR_SET.MOVING_AVERAGES,
+  INDICATOR_SET.MACD,
+  INDICATOR_SET.RSI,
+  INDICATOR_SET.BOLLINGER,
+  INDICATOR_SET.ATR,
+  INDICATOR_SET.VOLUME,
+  INDICATOR_SET.SUPPORT_RESISTANCE
+];
+
+export function resolveIndicatorSet(selection: unknown): IndicatorSetKey[] {
+  if (!Array.isArray(selection)) return DEFAULT_INDICATOR_SET;
+  const valid = Object.values(INDICATOR_SET) as string[];
+  const resolved = selection.filter((key): key is IndicatorSetKey => typeof key === 'string' && valid.includes(key));
+  return resolved.length > 0 ? resolved : DEFAULT_INDICATOR_SET;
+}
@@ -0,0 +1,260 @@
+/**
+ * Workflow Graph
+ *
+ * Frontend mirror of supabase/functions/_shared/workflowGraph.ts.
+ * The user's configuration is saved to api_settings.workflow_config; each
+ * analysis stores the graph it was started with in full_analysis.workflowGraph,
+ * which the workflow views use to decide which steps and agents to show.
+ */
+
+import { getCustomAnalystAgentName, type CustomAnalystDefinition } from './customAnalysts';
+
+export const WORKFLOW_PHASE_ID = {
+  ANALYSIS: 'analysis' as const,
+  RESEARCH: 'research' as const,
+  TRADING: 'trading' as const,
+  RISK: 'risk' as const,
+  PORTFOLIO: 'portfolio' as const
+} as const;
+
+export type WorkflowPhaseId = typeof WORKFLOW_PHASE_ID[keyof typeof WORKFLOW_PHASE_ID];
+
+export interface WorkflowAgentDefinition {
+  functionName: string;
+  displayName: string;
+  // Key of the agent's output in analysis_history.agent_insights
+  insightKey: string;
+  required: boolean;
+}
+
+export interface WorkflowPhaseDefinition {
+  id: WorkflowPhaseId;
+  name: string;
+  description: string;
+  agents: WorkflowAgentDefinition[];
+  finalAgent: WorkflowAgentDefinition | null;
+  stepOnlyAgents: WorkflowAgentDefinition[];
+  optional: boolean;
+  minAgents: number;
+}
+
+const agent = (functionName: string, displayName: string, insightKey: string, required = false): WorkflowAgentDefinition => ({
+  functionName,
+  displayName,
+  insightKey,
+  required
+});
+
+export const WORKFLOW_PHASE_DEFINITIONS: Record<WorkflowPhaseId, WorkflowPhaseDefinition> = {
+  [WORKFLOW_PHASE_ID.ANALYSIS]: {
+    id: WORKFLOW_PHASE_ID.ANALYSIS,
+    name: 'Market Analysis',
+    description: 'Specialist analysts gather market, news, macro, social and fundamental data',
+    agents: [
+      agent('agent-macro-analyst', 'Macro Analyst', 'macroAnalyst'),
+      agent('agent-market-analyst', 'Market Analyst', 'marketAnalyst', true),
+      agent('agent-news-analyst', 'News Analyst', 'newsAnalyst'),
+      agent('agent-social-media-analyst', 'Social Media Analyst', 'socialMediaAnalyst'),
+      agent('agent-fundamentals-analyst', 'Fundamentals Analyst', 'fundamentalsAnalyst')
+    ],
+    finalAgent: null,
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  },
+  [WORKFLOW_PHASE_ID.RESEARCH]: {
+    id: WORKFLOW_PHASE_ID.RESEARCH,
+    name: 'Research Debate',
+    description: 'Bull and Bear researchers debate, then the Research Manager summarizes',
+    agents: [
+      agent('agent-bull-researcher', 'Bull Researcher', 'bullResearcher', true),
+      agent('agent-bear-researcher', 'Bear Researcher', 'bearResearcher', true)
+    ],
+    finalAgent: null,
+    stepOnlyAgents: [agent('agent-research-manager', 'Research Manager', 'researchManager', true)],
+    optional: true,
+    minAgents: 2
+  },
+  [WORKFLOW_PHASE_ID.TRADING]: {
+    id: WORKFLOW_PHASE_ID.TRADING,
+    name: 'Trading Decision',
+    description: 'The Trader turns the reports into a trading plan',
+    agents: [agent('agent-trader', 'Trader', 'trader', true)],
+    finalAgent: null,
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  },
+  [WORKFLOW_PHASE_ID.RISK]: {
+    id: WORKFLOW_PHASE_ID.RISK,
+    name: 'Risk Assessment',
+    description: 'Risk analysts review the plan before the Risk Manager makes the final call',
+    agents: [
+      agent('agent-risky-analyst', 'Risky Analyst', 'riskyAnalyst'),
+      agent('agent-safe-analyst', 'Safe Analyst', 'safeAnalyst'),
+      agent('agent-neutral-analyst', 'Neutral Analyst', 'neutralAnalyst')
+    ],
+    finalAgent: agent('agent-risk-manager', 'Risk Manager', 'riskManager', true),
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  },
+  [WORKFLOW_PHASE_ID.PORTFOLIO]: {
+    id: WORKFLOW_PHASE_ID.PORTFOLIO,
+    name: 'Portfolio Management',
+    description: 'Position sizing and trade order generation',
+    agents: [agent('analysis-portfolio-manager', 'Portfolio Manager', 'portfolioManager', true)],
+    finalAgent: null,
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  }
+};
+
+export const DEFAULT_PHASE_ORDER: WorkflowPhaseId[] = [
+  WORKFLOW_PHASE_ID.ANALYSIS,
+  WORKFLOW_PHASE_ID.RESEARCH,
+  WORKFLOW_PHASE_ID.TRADING,
+  WORKFLOW_PHASE_ID.RISK,
+  WORKFLOW_PHASE_ID.PORTFOLIO
+];
+
+// Phases that may be reordered between analysis and risk
+export const MOVABLE_PHASES: WorkflowPhaseId[] = [WORKFLOW_PHASE_ID.RESEARCH, WORKFLOW_PHASE_ID.TRADING];
+
+export interface WorkflowAgentConfig {
+  functionName: string;
+  enabled?: boolean;
+}
+
+export interface WorkflowPhaseConfig {
+  id: string;
+  enabled?: boolean;
+  agents?: WorkflowAgentConfig[];
+}
+
+// Shape of api_settings.workflow_config
+export interface WorkflowGraphConfig {
+  phases?: WorkflowPhaseConfig[];
+}
+
+// Shape of full_analysis.workflowGraph
+export interface WorkflowGraph {
+  phases: Array<{
+    id: WorkflowPhaseId;
+    agents: string[];
+  }>;
+  customAnalysts?: CustomAnalystDefinition[];
+}
+
+const isPhaseId = (value: unknown): value is WorkflowPhaseId =>
+  typeof value === 'string' && value in WORKFLOW_PHASE_DEFINITIONS;
+
+/**
+ * Every phase and agent listed explicitly, in run order, so the settings
+ * editor can toggle and move them. Unmentioned phases and agents are enabled.
+ */
+export function toEditableWorkflowConfig(config: WorkflowGraphConfig | null | undefined): Required<WorkflowGraphConfig> {
+  const listed = (config?.phases || []).filter(phase => isPhaseId(phase?.id));
+  const order = listed.map(phase => phase.id as WorkflowPhaseId)
+    .filter((id, index, all) => all.indexOf(id) === index);
+  DEFAULT_PHASE_ORDER.forEach((id, index) => {
+    if (order.includes(id)) return;
+    const previous = DEFAULT_PHASE_ORDER.slice(0, index).reverse().find(p => order.includes(p));
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, id);
+  });
+
+  return {
+    phases: order.map(id => {
+      const phaseConfig = listed.find(phase => phase.id === id);
+      const definition = WORKFLOW_PHASE_DEFINITIONS[id];
+      const listedAgents = (phaseConfig?.agents || [])
+        .filter(entry => definition.agents.some(a => a.functionName === entry.functionName));
+
+      return {
+        id,
+        enabled: phaseConfig?.enabled !== false,
+        agents: [
+          ...listedAgents.map(entry => ({ functionName: entry.functionName, enabled: entry.enabled !== false })),
+          ...definition.agents
+            .filter(a => !listedAgents.some(entry => entry.functionName === a.functionName))
+            .map(a => ({ functionName: a.functionName, enabled: true }))
+        ]
+      };
+    })
+  };
+}
+
+/**
+ * Problems that would stop the configuration from running; the backend falls
+ * back to the default graph for configurations that fail these checks
+ */
+export function validateWorkflowGraphConfig(config: WorkflowGraphConfig | null | undefined): string[] {
+  const errors: string[] = [];
+  const editable = toEditableWorkflowConfig(config);
+
+  for (const phase of editable.phases) {
+    const definition = WORKFLOW_PHASE_DEFINITIONS[phase.id as WorkflowPhaseId];
+    if (!phase.enabled) {
+      if (!definition.optional) errors.push(`${definition.name} cannot be disabled`);
+      continue;
+    }
+
+    const enabled = (phase.agents || []).filter(a => a.enabled !== false).map(a => a.functionName);
+    for (const requiredAgent of definition.agents.filter(a => a.required && !enabled.includes(a.functionName))) {
+      errors.push(`${requiredAgent.displayName} cannot be disabled`);
+    }
+    if (enabled.length < definition.minAgents) {
+      errors.push(`${definition.name} needs at least ${definition.minAgents} agent${definition.minAgents === 1 ? '' : 's'}`);
+    }
+  }
+
+  const order = editable.phases.filter(phase => phase.enabled).map(phase => phase.id);
+  if (order[0] !== WORKFLOW_PHASE_ID.ANALYSIS ||
+    order[order.length - 2] !== WORKFLOW_PHASE_ID.RISK ||
+    order[order.length - 1] !== WORKFLOW_PHASE_ID.PORTFOLIO) {
+    errors.push('Market Analysis must run first, Risk Assessment second to last and Portfolio Management last');
+  }
+
+  return errors;
+}
+
+export function getDefaultWorkflowGraph(): WorkflowGraph {
+  return {
+    phases: DEFAULT_PHASE_ORDER.map(id => ({
+      id,
+      agents: WORKFLOW_PHASE_DEFINITIONS[id].agents.map(a => a.functionName)
+    }))
+  };
+}
+
+/**
+ * Graph an analysis ran with; analyses from before graphs were stored used the default
+ */
+export function getWorkflowGraph(fullAnalysis: any): WorkflowGraph {
+  const stored = fullAnalysis?.workflowGraph;
+  if (stored && Array.isArray(stored.phases) && stored.phases.every((phase: any) => isPhaseId(phase?.id) && Array.isArray(phase.agents))) {
+    return stored as WorkflowGraph;
+  }
+  return getDefaultWorkflowGraph();
+}
+
+/**
+ * Phases in run order with the insight keys of the agents shown in each,
+ * including the research manager and risk manager. Custom analysts are keyed
+ * by their agent name, which is also their agent_insights key.
+ */
+export function getWorkflowStepLayout(graph: WorkflowGraph): Array<{ phaseId: WorkflowPhaseId; agentKeys: string[] }> {
+  return graph.phases.map(phase => {
+    const definition = WORKFLOW_PHASE_DEFINITIONS[phase.id];
+    return {
+      phaseId: phase.id,
+      agentKeys: [
+        ...definition.agents.filter(a => phase.agents.includes(a.functionName)).map(a => a.insightKey),
+        ...definition.stepOnlyAgents.map(a => a.insightKey),
+        ...(definition.finalAgent ? [definition.finalAgent.insightKey] : []),
+        ...phase.agents.filter(name => (graph.customAnalysts || []).some(custom => getCustomAnalystAgentName(custom.id) === name))
+      ]
+    };
+  });
+}
@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import BacktestRunForm from '@/components/backtest/BacktestRunForm';
+import BacktestRunList from '@/components/backtest/BacktestRunList';
+import BacktestResultsView from '@/components/backtest/BacktestResultsView';
+import { Card, CardContent } from '@/components/ui/card';
+import { FlaskConical } from 'lucide-react';
+import { useAuth } from '@/lib/auth';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import type { BacktestRun } from '@/lib/backtest';
+
+export default function Backtests() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [runs, setRuns] = useState<BacktestRun[]>([]);
+  const [loadingRuns, setLoadingRuns] = useState(true);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      navigate('/');
+    }
+  }, [isAuthenticated, isLoading, navigate]);
+
+  const loadRuns = useCallback(async (selectId?: string | null) => {
+    if (!user?.id) return;
+
+    const { data, error } = await supabase
+      .from('backtest_runs')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error loading backtests:', error);
+    } else {
+      const loaded = (data || []) as BacktestRun[];
+      setRuns(loaded);
+      setSelectedRunId(current => selectId ?? current ?? loaded[0]?.id ?? null);
+    }
+    setLoadingRuns(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleDelete = async (runId: string) => {
+    const { error } = await supabase.from('backtest_runs').delete().eq('id', runId);
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete backtest",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRuns(current => current.filter(run => run.id !== runId));
+    if (selectedRunId === runId) {
+      setSelectedRunId(null);
+    }
+  };
+
+  // Don't render content until auth is checked
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  const selectedRun = runs.find(run => run.id === selectedRunId) || null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-6 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <FlaskConical className="h-8 w-8" />
+            Backtests
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Measure how past AI calls would have performed against the market
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[340px_1fr] gap-6">
+          <div className="space-y-6">
+            <BacktestRunForm onRunComplete={(runId) => loadRuns(runId)} />
+            <BacktestRunList
+              runs={runs}
+              loading={loadingRuns}
+              selectedRunId={selectedRunId}
+              onSelect={setSelectedRunId}
+              onDelete={handleDelete}
+            />
+          </div>
+
+          <div>
+            {selectedRun ? (
+              <BacktestResultsView run={selectedRun} />
+            ) : (
+              <Card>
+                <CardContent className="py-16 text-center text-muted-foreground">
+                  Run a backtest to see hit rate, returns and drawdown per agent configuration.
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -7,7 +7,10 @@ import RecentTrades from "@/components/RecentTrades";
 import PerformanceChart from "@/components/PerformanceChart";
 import HorizontalWorkflow from "@/components/workflow";
 import StandaloneWatchlist from "@/components/StandaloneWatchlist";
+import TaxLotsCard from "@/components/TaxLotsCard";
+import RiskAnalyticsCard from "@/components/RiskAnalyticsCard";
 import { useAuth } from "@/lib/auth";
+import { useBrokerAccounts } from "@/lib/brokerAccounts";
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -15,6 +18,7 @@ const Dashboard = () => {
   const [selectedStockDescription, setSelectedStockDescription] = useState<string | undefined>(undefined);
   const [loadingTimeout, setLoadingTimeout] = useState(false);
   const { isAuthenticated, isLoading, user } = useAuth();
+  const activePortfolioId = useBrokerAccounts(state => state.activePortfolioId);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -68,7 +72,8 @@ const Dashboard = () => {
     <div className="min-h-screen bg-background flex flex-col">
       <Header />
       
-      <main className="flex-1 container mx-auto px-6 py-8">
+      {/* Keyed by account so every card reloads when the header switcher changes accounts */}
+      <main key={activePortfolioId ?? 'main'} className="flex-1 container mx-auto px-6 py-8">
         {/* Main Content */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
           {/* Left Side - Performance and Watchlist */}
@@ -82,6 +87,8 @@ const Dashboard = () => {
               onSelectStock={handleSelectStock}
               selectedStock={selectedStock}
             />
+            <RiskAnalyticsCard />
+            <TaxLotsCard />
           </div>
           
           {/* Right Side - Portfolio Holdings, Workflow, and Trading Actions */}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -18,6 +18,7 @@ import {
   TrendingUp,
   Bot,
   RefreshCw,
+  Bell,
 } from "lucide-react";
 import { useAuth } from "@/lib/auth";
 import { supabaseHelpers, supabase } from "@/lib/supabase";
@@ -32,7 +33,22 @@ import ProvidersTab from "./settings/ProvidersTab";
 import AgentsTab from "./settings/AgentsTab";
 import RebalanceTab from "./settings/RebalanceTab";
 import TradingTab from "./settings/TradingTab";
-import type { AiProvider } from "./settings/types";
+import NotificationsTab from "./settings/NotificationsTab";
+import type { AiProvider, ModelPriceOverride } from "./settings/types";
+import type { ModelPriceTable } from "@/lib/aiUsage";
+import { type WorkflowGraphConfig, toEditableWorkflowConfig, validateWorkflowGraphConfig } from "@/lib/workflowGraph";
+import { AI_BUDGET_PERIOD, type AIUsageTotals, getBudgetPeriodBounds, isValidAIBudgetPeriod } from "@/lib/aiBudget";
+import { DEFAULT_TAX_LOT_METHOD } from "@/lib/taxLots";
+import type { ExposureLimit } from "@/lib/assetClassification";
+import { resolveIndicatorSet, type IndicatorSetKey } from "@/lib/technicalIndicators";
+import {
+  ACCOUNT_SETTING_KEYS,
+  applyBrokerAccount,
+  pickAccountSettings,
+  resetSimulatedAccount,
+  useActiveBrokerAccount,
+  useBrokerAccounts
+} from "@/lib/brokerAccounts";
 
 // Helper function to validate credentials via edge function
 const validateCredential = async (provider: string, apiKey: string, model?: string, secretKey?: string): Promise<{ valid: boolean; message: string }> => {
@@ -72,10 +88,32 @@ const checkConfiguredProviders = async (): Promise<{ configured: Record<string,
   }
 };
 
+// Convert the stored price table into editable rows and back
+const toModelPriceOverrides = (prices: ModelPriceTable | null | undefined): ModelPriceOverride[] =>
+  Object.entries(prices || {}).map(([model, price], index) => ({
+    id: `${index + 1}`,
+    model,
+    input: String(price.input ?? ''),
+    cachedInput: price.cached_input !== undefined && price.cached_input !== null ? String(price.cached_input) : '',
+    output: String(price.output ?? '')
+  }));
+
+const toModelPriceTable = (rows: ModelPriceOverride[]): ModelPriceTable =>
+  rows.reduce<ModelPriceTable>((table, row) => {
+    table[row.model.trim()] = {
+      input: Number(row.input),
+      output: Number(row.output),
+      ...(row.cachedInput.trim() !== '' ? { cached_input: Number(row.cachedInput) } : {})
+    };
+    return table;
+  }, {});
+
 export default function SettingsPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { user, apiSettings, updateApiSettings, isAuthenticated, isLoading, initialize } = useAuth();
+  const activeBrokerAccount = useActiveBrokerAccount();
+  const saveBrokerAccount = useBrokerAccounts(state => state.saveAccount);
   const { toast } = useToast();
   const {
     hasRebalanceAccess,
@@ -100,14 +138,24 @@ export default function SettingsPage() {
   // Form state
 
   // AI Provider configurations - Default AI is always first, additional providers follow
-  const [aiProviders, setAiProviders] = useState<Array<{ id: string, nickname: string, provider: string, apiKey: string }>>([]);
+  const [aiProviders, setAiProviders] = useState<AiProvider[]>([]);
 
   // Default AI settings
   const [defaultAiModel, setDefaultAiModel] = useState(apiSettings?.ai_model || 'gpt-4');
   const [defaultCustomModel, setDefaultCustomModel] = useState('');
 
+  // Model price overrides used for AI cost estimates
+  const [modelPrices, setModelPrices] = useState<ModelPriceOverride[]>(toModelPriceOverrides(apiSettings?.ai_model_prices));
+
+  // AI spend budget (form values kept as strings, empty = no cap)
+  const [aiBudgetPeriod, setAiBudgetPeriod] = useState<string>(apiSettings?.ai_budget_period || AI_BUDGET_PERIOD.NONE);
+  const [aiBudgetUsd, setAiBudgetUsd] = useState(apiSettings?.ai_budget_usd?.toString() || '');
+  const [aiBudgetTokens, setAiBudgetTokens] = useState(apiSettings?.ai_budget_tokens?.toString() || '');
+  const [aiBudgetUsage, setAiBudgetUsage] = useState<AIUsageTotals | null>(null);
+
   // Team-specific settings - now storing provider IDs instead of provider names
   const [researchDebateRounds, setResearchDebateRounds] = useState(apiSettings?.research_debate_rounds || 2);
+  const [workflowConfig, setWorkflowConfig] = useState<WorkflowGraphConfig>(toEditableWorkflowConfig(apiSettings?.workflow_config));
   const [analysisTeamProviderId, setAnalysisTeamProviderId] = useState('1'); // Default to first provider
   const [analysisTeamModel, setAnalysisTeamModel] = useState(apiSettings?.analysis_team_model || 'gpt-4');
   const [analysisCustomModel, setAnalysisCustomModel] = useState('');
@@ -128,6 +176,9 @@ export default function SettingsPage() {
   // Historical data time ranges (separate from opportunity agent)
   const [analysisHistoryDays, setAnalysisHistoryDays] = useState((apiSettings as any)?.analysis_history_days || '1M');
 
+  // Indicator groups for the Market Analyst prompt
+  const [analysisIndicators, setAnalysisIndicators] = useState<IndicatorSetKey[]>(resolveIndicatorSet(apiSettings?.analysis_indicators));
+
   // Max tokens settings for each workflow step
   const [analysisMaxTokens, setAnalysisMaxTokens] = useState(apiSettings?.analysis_max_tokens || 2000);
   const [researchMaxTokens, setResearchMaxTokens] = useState(apiSettings?.research_max_tokens || 3000);
@@ -139,6 +190,8 @@ export default function SettingsPage() {
   const [rebalanceMinPositionSize, setRebalanceMinPositionSize] = useState(apiSettings?.rebalance_min_position_size || 2); // Default 2%
   const [rebalanceMaxPositionSize, setRebalanceMaxPositionSize] = useState(apiSettings?.rebalance_max_position_size || 25); // Default 25%
   const [nearPositionThreshold, setNearPositionThreshold] = useState(apiSettings?.near_position_threshold || 20); // Default 20%
+  const [rebalanceTaxAware, setRebalanceTaxAware] = useState(apiSettings?.rebalance_tax_aware ?? false);
+  const [rebalanceExposureLimits, setRebalanceExposureLimits] = useState<ExposureLimit[]>(apiSettings?.rebalance_exposure_limits ?? []);
   const [targetStockAllocation, setTargetStockAllocation] = useState(apiSettings?.target_stock_allocation || 80);
   const [targetCashAllocation, setTargetCashAllocation] = useState(apiSettings?.target_cash_allocation || 20);
 
@@ -168,6 +221,15 @@ export default function SettingsPage() {
   const [profitTarget, setProfitTarget] = useState(apiSettings?.profit_target || 25);
   const [stopLoss, setStopLoss] = useState(apiSettings?.stop_loss || 10);
   const [nearLimitThreshold, setNearLimitThreshold] = useState(apiSettings?.near_limit_threshold || 20);
+  const [defaultOrderType, setDefaultOrderType] = useState<string>(apiSettings?.default_order_type || 'market');
+  const [defaultTimeInForce, setDefaultTimeInForce] = useState<string>(apiSettings?.default_time_in_force || 'day');
+  const [limitOrderOffset, setLimitOrderOffset] = useState(apiSettings?.limit_order_offset ?? 0.5);
+  const [exitOrderMode, setExitOrderMode] = useState<string>(apiSettings?.exit_order_mode || 'none');
+  const [taxLotMethod, setTaxLotMethod] = useState<string>(apiSettings?.tax_lot_method || DEFAULT_TAX_LOT_METHOD);
+  const [simulatedTrading, setSimulatedTrading] = useState(apiSettings?.simulated_trading ?? false);
+  const [simulatedStartingCash, setSimulatedStartingCash] = useState(apiSettings?.simulated_starting_cash ?? 100000);
+  const [simulatedSlippageBps, setSimulatedSlippageBps] = useState(apiSettings?.simulated_slippage_bps ?? 5);
+  const [simulatedCommission, setSimulatedCommission] = useState(apiSettings?.simulated_commission ?? 0);
 
   // Track if initial load is complete to prevent re-loading
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
@@ -205,6 +267,37 @@ export default function SettingsPage() {
     }
   }, [isAuthenticated, user?.id]);
 
+  // Load spend for the selected budget period so the cap can be compared against it
+  useEffect(() => {
+    const period = isValidAIBudgetPeriod(aiBudgetPeriod) ? aiBudgetPeriod : AI_BUDGET_PERIOD.NONE;
+    const bounds = getBudgetPeriodBounds(period);
+    if (!user?.id || !bounds) {
+      setAiBudgetUsage(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .rpc('get_ai_usage_summary', { p_user_id: user.id, p_since: bounds.start.toISOString() })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error loading AI budget usage:', error);
+          return;
+        }
+        const summary = Array.isArray(data) ? data[0] : data;
+        setAiBudgetUsage({
+          cost_usd: Number(summary?.cost_usd) || 0,
+          total_tokens: Number(summary?.total_tokens) || 0,
+          calls: Number(summary?.calls) || 0
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, aiBudgetPeriod]);
+
   useEffect(() => {
     // Load settings when apiSettings changes - but only on initial load
     if (apiSettings && !initialLoadComplete) {
@@ -241,6 +334,7 @@ export default function SettingsPage() {
       if (historyDays !== undefined) {
         setAnalysisHistoryDays(historyDays || '1M');
       }
+      setAnalysisIndicators(resolveIndicatorSet(apiSettings.analysis_indicators));
 
       // Load all other settings once to avoid overwriting user changes
       // Default settings (ai_provider is handled by provider configuration loading)
@@ -276,9 +370,31 @@ export default function SettingsPage() {
       setStopLoss(apiSettings.stop_loss || 10);
       setNearLimitThreshold(apiSettings.near_limit_threshold || 20);
       setNearPositionThreshold(apiSettings.near_position_threshold || 20);
+      setRebalanceTaxAware(apiSettings.rebalance_tax_aware ?? false);
+      setRebalanceExposureLimits(apiSettings.rebalance_exposure_limits ?? []);
+
+      // Order execution preferences
+      setDefaultOrderType(apiSettings.default_order_type || 'market');
+      setDefaultTimeInForce(apiSettings.default_time_in_force || 'day');
+      setLimitOrderOffset(apiSettings.limit_order_offset ?? 0.5);
+      setExitOrderMode(apiSettings.exit_order_mode || 'none');
+      setTaxLotMethod(apiSettings.tax_lot_method || DEFAULT_TAX_LOT_METHOD);
+
+      // Simulated broker
+      setSimulatedTrading(apiSettings.simulated_trading ?? false);
+      setSimulatedStartingCash(apiSettings.simulated_starting_cash ?? 100000);
+      setSimulatedSlippageBps(apiSettings.simulated_slippage_bps ?? 5);
+      setSimulatedCommission(apiSettings.simulated_commission ?? 0);
+
+      // AI cost estimation
+      setModelPrices(toModelPriceOverrides(apiSettings.ai_model_prices));
+      setAiBudgetPeriod(apiSettings.ai_budget_period || AI_BUDGET_PERIOD.NONE);
+      setAiBudgetUsd(apiSettings.ai_budget_usd?.toString() || '');
+      setAiBudgetTokens(apiSettings.ai_budget_tokens?.toString() || '');
 
       // Team-specific settings
       setResearchDebateRounds(apiSettings.research_debate_rounds || 2);
+      setWorkflowConfig(toEditableWorkflowConfig(apiSettings.workflow_config));
 
       // NOTE: Team provider IDs will be set after providers are loaded (see separate useEffect below)
 
@@ -309,6 +425,26 @@ export default function SettingsPage() {
     }
   }, [apiSettings, initialLoadComplete]); // Only runs when apiSettings first becomes available
 
+  // Rebalance limits belong to the active broker account; reload them when the header switcher changes accounts
+  const loadedRebalanceAccountRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!initialLoadComplete || !apiSettings) return;
+    const accountKey = activeBrokerAccount?.id ?? 'main';
+    if (loadedRebalanceAccountRef.current === accountKey) return;
+    loadedRebalanceAccountRef.current = accountKey;
+
+    const source = applyBrokerAccount(apiSettings, activeBrokerAccount);
+    if (!source) return;
+    setRebalanceThreshold(source.rebalance_threshold || source.default_rebalance_threshold || 10);
+    setRebalanceMinPositionSize(source.rebalance_min_position_size || 2);
+    setRebalanceMaxPositionSize(source.rebalance_max_position_size || 25);
+    setNearPositionThreshold(source.near_position_threshold || 20);
+    setRebalanceTaxAware(source.rebalance_tax_aware ?? false);
+    setRebalanceExposureLimits(source.rebalance_exposure_limits ?? []);
+    setTargetStockAllocation(source.target_stock_allocation || 80);
+    setTargetCashAllocation(source.target_cash_allocation || 20);
+  }, [activeBrokerAccount, apiSettings, initialLoadComplete]);
+
 
   const handleSaveTab = async (tab: string) => {
     console.log(`Save button clicked for tab: ${tab}`);
@@ -357,6 +493,9 @@ export default function SettingsPage() {
           if (!provider.apiKey) {
             newErrors[`provider_${provider.id}`] = 'API key is required';
           }
+          if (provider.provider === 'openai-compatible' && !provider.baseUrl?.trim()) {
+            newErrors[`provider_${provider.id}`] = 'Base URL is required for OpenAI-compatible providers';
+          }
         }
 
         // Validate default provider's custom model if selected
@@ -364,13 +503,39 @@ export default function SettingsPage() {
           newErrors.default_custom_model = 'Custom model name is required for default provider';
         }
 
+        // Validate model price overrides
+        for (const price of modelPrices) {
+          const values = [price.input, price.output, price.cachedInput].filter(v => v.trim() !== '');
+          if (!price.model.trim()) {
+            newErrors[`model_price_${price.id}`] = 'Model name is required';
+          } else if (!price.input.trim() || !price.output.trim() || values.some(v => !(Number(v) >= 0))) {
+            newErrors[`model_price_${price.id}`] = 'Input and output prices must be non-negative numbers';
+          }
+        }
+
+        // Validate AI budget caps
+        if (aiBudgetUsd.trim() && !(Number(aiBudgetUsd) > 0)) {
+          newErrors.ai_budget_usd = 'Dollar cap must be a positive number';
+        }
+        if (aiBudgetTokens.trim() && !(Number.isInteger(Number(aiBudgetTokens)) && Number(aiBudgetTokens) > 0)) {
+          newErrors.ai_budget_tokens = 'Token cap must be a positive whole number';
+        }
+        if (aiBudgetPeriod !== AI_BUDGET_PERIOD.NONE && !aiBudgetUsd.trim() && !aiBudgetTokens.trim()) {
+          newErrors.ai_budget_usd = 'Set a dollar or token cap, or choose "No budget"';
+        }
+
         if (Object.keys(newErrors).length > 0) {
           setErrors(newErrors);
           return;
         }
 
         // Build settings object
-        settingsToSave = {};
+        settingsToSave = {
+          ai_model_prices: toModelPriceTable(modelPrices),
+          ai_budget_period: aiBudgetPeriod,
+          ai_budget_usd: aiBudgetUsd.trim() ? Number(aiBudgetUsd) : null,
+          ai_budget_tokens: aiBudgetTokens.trim() ? Number(aiBudgetTokens) : null
+        };
 
         // Save each provider
         for (let index = 0; index < aiProviders.length; index++) {
@@ -380,6 +545,7 @@ export default function SettingsPage() {
             // Always save the Default AI provider (ID '1') to api_settings via settings-proxy
             if (provider.id === '1') {
               settingsToSave.ai_provider = provider.provider as any;
+              settingsToSave.ai_base_url = provider.provider === 'openai-compatible' ? provider.baseUrl?.trim() : null;
               // Update API key via settings-proxy
               if (provider.apiKey) {
                 settingsToSave.ai_api_key = provider.apiKey;
@@ -397,6 +563,7 @@ export default function SettingsPage() {
                       nickname: provider.nickname,
                       provider: provider.provider,
                       api_key: provider.apiKey,
+                      base_url: provider.provider === 'openai-compatible' ? provider.baseUrl?.trim() : null,
                       is_default: false
                     }
                   }
@@ -409,6 +576,7 @@ export default function SettingsPage() {
                     nickname: provider.nickname,
                     provider: provider.provider,
                     api_key: provider.apiKey,
+                    base_url: provider.provider === 'openai-compatible' ? provider.baseUrl?.trim() : null,
                     is_default: false
                   });
 
@@ -429,6 +597,7 @@ export default function SettingsPage() {
                   nickname: provider.nickname,
                   provider: provider.provider,
                   api_key: provider.apiKey,
+                  base_url: provider.provider === 'openai-compatible' ? provider.baseUrl?.trim() : null,
                   is_default: false
                 });
 
@@ -543,6 +712,11 @@ export default function SettingsPage() {
           newErrors.portfolio_custom_model = 'Custom model name is required';
         }
 
+        const workflowErrors = validateWorkflowGraphConfig(workflowConfig);
+        if (workflowErrors.length > 0) {
+          newErrors.workflow_config = workflowErrors.join('. ');
+        }
+
         if (Object.keys(newErrors).length > 0) {
           setErrors(newErrors);
           return;
@@ -590,6 +764,7 @@ export default function SettingsPage() {
 
         settingsToSave = {
           research_debate_rounds: researchDebateRounds,
+          workflow_config: workflowConfig,
           analysis_team_ai: analysisProvider.provider,
           analysis_team_model: getModelValue(analysisTeamProviderId, analysisTeamModel, analysisCustomModel),
           // Save provider IDs - use null for the default provider (ID "1")
@@ -612,6 +787,7 @@ export default function SettingsPage() {
           analysis_optimization: analysisOptimization,
           analysis_search_sources: analysisSearchSources,
           analysis_history_days: analysisHistoryDays, // Separate time range for analysis agents
+          analysis_indicators: analysisIndicators,
           // Max tokens for each workflow step
           analysis_max_tokens: analysisMaxTokens,
           research_max_tokens: researchMaxTokens,
@@ -708,7 +884,16 @@ export default function SettingsPage() {
           default_position_size_dollars: defaultPositionSizeDollars,
           profit_target: profitTarget,
           stop_loss: stopLoss,
-          near_limit_threshold: nearLimitThreshold
+          near_limit_threshold: nearLimitThreshold,
+          default_order_type: defaultOrderType,
+          default_time_in_force: defaultTimeInForce,
+          limit_order_offset: limitOrderOffset,
+          exit_order_mode: exitOrderMode,
+          tax_lot_method: taxLotMethod,
+          simulated_trading: simulatedTrading,
+          simulated_starting_cash: simulatedStartingCash,
+          simulated_slippage_bps: simulatedSlippageBps,
+          simulated_commission: simulatedCommission
         };
 
         // Use settings-proxy to save with credential masking
@@ -810,6 +995,11 @@ export default function SettingsPage() {
           rebalance_min_position_size: rebalanceMinPositionSize,
           rebalance_max_position_size: rebalanceMaxPositionSize,
           near_position_threshold: nearPositionThreshold,
+          rebalance_tax_aware: rebalanceTaxAware,
+          // Drop rows left without a value (e.g. an empty industry name)
+          rebalance_exposure_limits: rebalanceExposureLimits
+            .map(limit => ({ ...limit, value: limit.value.trim() }))
+            .filter(limit => limit.value && limit.maxPercent >= 0 && limit.maxPercent <= 100),
           target_stock_allocation: targetStockAllocation,
           target_cash_allocation: targetCashAllocation,
           opportunity_market_range: opportunityMarketRange,
@@ -823,6 +1013,20 @@ export default function SettingsPage() {
         // DO NOT include API keys when saving rebalance configurations
         // API keys should only be saved from the Providers tab
         // This prevents the "Rejecting suspicious masked credential" error
+
+        // A named broker account keeps its own limits; only the shared agent settings go to api_settings
+        if (activeBrokerAccount) {
+          const accountSettings = pickAccountSettings(settingsToSave);
+          ACCOUNT_SETTING_KEYS.forEach(key => delete settingsToSave[key]);
+          await saveBrokerAccount({
+            id: activeBrokerAccount.id,
+            name: activeBrokerAccount.name,
+            paper_trading: activeBrokerAccount.paper_trading,
+            api_key: activeBrokerAccount.api_key || undefined,
+            secret_key: activeBrokerAccount.secret_key || undefined,
+            settings: { ...activeBrokerAccount.settings, ...accountSettings }
+          });
+        }
       }
 
       console.log(`Settings to save for ${tab}:`, settingsToSave);
@@ -855,7 +1059,9 @@ export default function SettingsPage() {
           successMessage = 'Agent configuration saved successfully!';
           break;
         case 'rebalance':
-          successMessage = 'Rebalance configuration saved successfully!';
+          successMessage = activeBrokerAccount
+            ? `Rebalance configuration saved for ${activeBrokerAccount.name}!`
+            : 'Rebalance configuration saved successfully!';
           break;
         default:
           successMessage = 'Settings saved successfully!';
@@ -941,7 +1147,21 @@ export default function SettingsPage() {
     setAiProviders([...aiProviders, { id: newId, nickname: defaultNickname, provider: 'openrouter', apiKey: '' }]);
   };
 
-  const updateAiProvider = (id: string, field: 'nickname' | 'provider' | 'apiKey', value: string) => {
+  const addModelPrice = () => {
+    setModelPrices([...modelPrices, { id: Date.now().toString(), model: '', input: '', cachedInput: '', output: '' }]);
+  };
+
+  const updateModelPrice = (id: string, field: 'model' | 'input' | 'cachedInput' | 'output', value: string) => {
+    setModelPrices(modelPrices.map(p =>
+      p.id === id ? { ...p, [field]: value } : p
+    ));
+  };
+
+  const removeModelPrice = (id: string) => {
+    setModelPrices(modelPrices.filter(p => p.id !== id));
+  };
+
+  const updateAiProvider = (id: string, field: 'nickname' | 'provider' | 'apiKey' | 'baseUrl', value: string) => {
     setAiProviders(aiProviders.map(p =>
       p.id === id ? { ...p, [field]: value } : p
     ));
@@ -1005,6 +1225,8 @@ export default function SettingsPage() {
         ai_provider: 'openrouter', // Keep a default provider to satisfy required field
         ai_api_key: '',  // Use empty string instead of null
         ai_model: 'gpt-4',
+        ai_base_url: null,
+        ai_model_prices: {},
       };
 
       const { data, error } = await supabase.functions.invoke('settings-proxy', {
@@ -1030,6 +1252,7 @@ export default function SettingsPage() {
       setAiProviders([{ id: '1', nickname: 'Default AI', provider: 'openrouter', apiKey: '' }]);
       setDefaultAiModel('gpt-4');
       setDefaultCustomModel('');
+      setModelPrices([]);
 
       // Reload settings from backend to refresh auth context
       await checkConfiguredProviders();
@@ -1073,6 +1296,15 @@ export default function SettingsPage() {
         profit_target: 25,
         stop_loss: 10,
         near_limit_threshold: 20,
+        default_order_type: 'market',
+        default_time_in_force: 'day',
+        limit_order_offset: 0.5,
+        exit_order_mode: 'none',
+        tax_lot_method: DEFAULT_TAX_LOT_METHOD,
+        simulated_trading: false,
+        simulated_starting_cash: 100000,
+        simulated_slippage_bps: 5,
+        simulated_commission: 0,
       };
 
       const { data, error } = await supabase.functions.invoke('settings-proxy', {
@@ -1097,6 +1329,15 @@ export default function SettingsPage() {
       setProfitTarget(25);
       setStopLoss(10);
       setNearLimitThreshold(20);
+      setDefaultOrderType('market');
+      setDefaultTimeInForce('day');
+      setLimitOrderOffset(0.5);
+      setExitOrderMode('none');
+      setTaxLotMethod(DEFAULT_TAX_LOT_METHOD);
+      setSimulatedTrading(false);
+      setSimulatedStartingCash(100000);
+      setSimulatedSlippageBps(5);
+      setSimulatedCommission(0);
 
       // Reload settings from backend to refresh auth context
       await checkConfiguredProviders();
@@ -1119,6 +1360,28 @@ export default function SettingsPage() {
     }
   };
 
+  // Wipe the main account's simulated cash, positions and orders
+  const handleResetSimulator = async () => {
+    if (!window.confirm('Reset the simulator? All simulated positions and orders are deleted and cash returns to the starting amount.')) {
+      return;
+    }
+
+    try {
+      await resetSimulatedAccount(null);
+      toast({
+        title: "Simulator reset",
+        description: `Simulated account restarts with $${simulatedStartingCash.toLocaleString()} on its next use.`,
+      });
+    } catch (error) {
+      console.error('Error resetting simulator:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset the simulator",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Get the default provider ID (first provider in the list)
   const defaultProviderId = aiProviders.length > 0 ? aiProviders[0].id : '1';
 
@@ -1150,7 +1413,8 @@ export default function SettingsPage() {
           id: '1',
           nickname: 'Default AI', // Fixed nickname for default provider
           provider: maskedSettings?.ai_provider || apiSettings?.ai_provider || 'openrouter',
-          apiKey: maskedSettings?.ai_api_key || ''
+          apiKey: maskedSettings?.ai_api_key || '',
+          baseUrl: maskedSettings?.ai_base_url || ''
         });
       } else {
         // Empty default provider
@@ -1211,7 +1475,8 @@ export default function SettingsPage() {
               id: config.id,
               nickname: config.nickname,
               provider: config.provider,
-              apiKey: config.api_key // Already masked by settings-proxy
+              apiKey: config.api_key, // Already masked by settings-proxy
+              baseUrl: config.base_url || ''
             });
           });
       }
@@ -1596,7 +1861,7 @@ export default function SettingsPage() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:w-[700px] lg:mx-auto">
+          <TabsList className="grid w-full grid-cols-5 lg:w-[850px] lg:mx-auto">
             <TabsTrigger value="providers" className="flex items-center gap-2">
               <Key className="h-4 w-4" />
               Providers
@@ -1613,6 +1878,10 @@ export default function SettingsPage() {
               <TrendingUp className="h-4 w-4" />
               Trading
             </TabsTrigger>
+            <TabsTrigger value="notifications" className="flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              Notifications
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="providers" className="space-y-6">
@@ -1635,6 +1904,17 @@ export default function SettingsPage() {
               handleClearProviders={handleClearProviders}
               getModelOptions={getModelOptions}
               hasAdditionalProviderAccess={hasAdditionalProviderAccess()}
+              modelPrices={modelPrices}
+              addModelPrice={addModelPrice}
+              updateModelPrice={updateModelPrice}
+              removeModelPrice={removeModelPrice}
+              aiBudgetPeriod={aiBudgetPeriod}
+              setAiBudgetPeriod={setAiBudgetPeriod}
+              aiBudgetUsd={aiBudgetUsd}
+              setAiBudgetUsd={setAiBudgetUsd}
+              aiBudgetTokens={aiBudgetTokens}
+              setAiBudgetTokens={setAiBudgetTokens}
+              aiBudgetUsage={aiBudgetUsage}
             />
           </TabsContent>
 
@@ -1651,6 +1931,7 @@ export default function SettingsPage() {
             <AgentsTab
               aiProviders={aiProviders}
               researchDebateRounds={researchDebateRounds}
+              workflowConfig={workflowConfig}
               analysisTeamProviderId={analysisTeamProviderId}
               analysisTeamModel={analysisTeamModel}
               analysisCustomModel={analysisCustomModel}
@@ -1669,6 +1950,7 @@ export default function SettingsPage() {
               analysisOptimization={analysisOptimization}
               analysisSearchSources={analysisSearchSources}
               analysisHistoryDays={analysisHistoryDays}
+              analysisIndicators={analysisIndicators}
               analysisMaxTokens={analysisMaxTokens}
               researchMaxTokens={researchMaxTokens}
               tradingMaxTokens={tradingMaxTokens}
@@ -1680,6 +1962,7 @@ export default function SettingsPage() {
               activeTab={activeTab}
               isSaving={savingTab === 'agents'}
               setResearchDebateRounds={setResearchDebateRounds}
+              setWorkflowConfig={setWorkflowConfig}
               setAnalysisTeamProviderId={setAnalysisTeamProviderId}
               setAnalysisTeamModel={setAnalysisTeamModel}
               setAnalysisCustomModel={setAnalysisCustomModel}
@@ -1698,6 +1981,7 @@ export default function SettingsPage() {
               setAnalysisOptimization={setAnalysisOptimization}
               setAnalysisSearchSources={setAnalysisSearchSources}
               setAnalysisHistoryDays={setAnalysisHistoryDays}
+              setAnalysisIndicators={setAnalysisIndicators}
               setAnalysisMaxTokens={setAnalysisMaxTokens}
               setResearchMaxTokens={setResearchMaxTokens}
               setTradingMaxTokens={setTradingMaxTokens}
@@ -1714,10 +1998,13 @@ export default function SettingsPage() {
           <TabsContent value="rebalance" className="space-y-6">
             <RebalanceTab
               aiProviders={aiProviders}
+              accountName={activeBrokerAccount?.name ?? null}
               rebalanceThreshold={rebalanceThreshold}
               rebalanceMinPositionSize={rebalanceMinPositionSize}
               rebalanceMaxPositionSize={rebalanceMaxPositionSize}
               nearPositionThreshold={nearPositionThreshold}
+              rebalanceTaxAware={rebalanceTaxAware}
+              rebalanceExposureLimits={rebalanceExposureLimits}
               targetStockAllocation={targetStockAllocation}
               targetCashAllocation={targetCashAllocation}
               opportunityAgentProviderId={opportunityAgentProviderId}
@@ -1735,6 +2022,8 @@ export default function SettingsPage() {
               setRebalanceMinPositionSize={setRebalanceMinPositionSize}
               setRebalanceMaxPositionSize={setRebalanceMaxPositionSize}
               setNearPositionThreshold={setNearPositionThreshold}
+              setRebalanceTaxAware={setRebalanceTaxAware}
+              setRebalanceExposureLimits={setRebalanceExposureLimits}
               setTargetStockAllocation={setTargetStockAllocation}
               setTargetCashAllocation={setTargetCashAllocation}
               setOpportunityAgentProviderId={setOpportunityAgentProviderId}
@@ -1765,6 +2054,15 @@ export default function SettingsPage() {
               profitTarget={profitTarget}
               stopLoss={stopLoss}
               nearLimitThreshold={nearLimitThreshold}
+              defaultOrderType={defaultOrderType}
+              defaultTimeInForce={defaultTimeInForce}
+              limitOrderOffset={limitOrderOffset}
+              exitOrderMode={exitOrderMode}
+              taxLotMethod={taxLotMethod}
+              simulatedTrading={simulatedTrading}
+              simulatedStartingCash={simulatedStartingCash}
+              simulatedSlippageBps={simulatedSlippageBps}
+              simulatedCommission={simulatedCommission}
               configuredProviders={configuredProviders}
               showKeys={showKeys}
               saved={saved}
@@ -1782,6 +2080,16 @@ export default function SettingsPage() {
               setProfitTarget={setProfitTarget}
               setStopLoss={setStopLoss}
               setNearLimitThreshold={setNearLimitThreshold}
+              setDefaultOrderType={setDefaultOrderType}
+              setDefaultTimeInForce={setDefaultTimeInForce}
+              setLimitOrderOffset={setLimitOrderOffset}
+              setExitOrderMode={setExitOrderMode}
+              setTaxLotMethod={setTaxLotMethod}
+              setSimulatedTrading={setSimulatedTrading}
+              setSimulatedStartingCash={setSimulatedStartingCash}
+              setSimulatedSlippageBps={setSimulatedSlippageBps}
+              setSimulatedCommission={setSimulatedCommission}
+              handleResetSimulator={handleResetSimulator}
               toggleShowKey={toggleShowKey}
               handleSaveTab={handleSaveTab}
               handleClearTrading={handleClearTrading}
@@ -1790,6 +2098,10 @@ export default function SettingsPage() {
               canUseNearLimitAnalysis={canUseNearLimitAnalysis()}
             />
           </TabsContent>
+
+          <TabsContent value="notifications" className="space-y-6">
+            <NotificationsTab />
+          </TabsContent>
         </Tabs>
 
 
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+
+// Response of the trade-approval edge function
+interface TradeApprovalPreview {
+  linkAction: 'approve' | 'reject';
+  expiresAt: string;
+  maxDriftPercent: number;
+  referencePrice: number | null;
+  currentPrice: number | null;
+  driftPercent: number | null;
+  quote: { bid: number | null; ask: number | null; last: number | null; timestamp: string | null } | null;
+  order: {
+    id: string;
+    ticker: string;
+    action: 'BUY' | 'SELL';
+    shares: number;
+    dollarAmount: number;
+    orderType: string;
+    limitPrice: number | null;
+    stopPrice: number | null;
+    createdAt: string;
+  };
+}
+
+const formatPrice = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+
+// Landing page for one-click approve/reject links sent in notifications; the token is the credential
+export default function TradeApproval() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [preview, setPreview] = useState<TradeApprovalPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const invoke = useCallback(async (action: 'preview' | 'confirm') => {
+    const { data, error: invokeError } = await supabase.functions.invoke('trade-approval', {
+      body: { token, action }
+    });
+    if (invokeError) throw new Error(invokeError.message);
+    if (!data?.success) throw new Error(data?.error || 'This link is no longer valid');
+    return data;
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) {
+      setError('This link is missing its approval token');
+      setLoading(false);
+      return;
+    }
+
+    invoke('preview')
+      .then(data => setPreview(data.preview))
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [token, invoke]);
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const data = await invoke('confirm');
+      setResultMessage(data.message);
+    } catch (err: any) {
+      setError(err.message);
+    }
+    setSubmitting(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-8">
+            <div className="flex flex-col items-center space-y-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-muted-foreground">Loading trade order...</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (resultMessage || error || !preview) {
+    const succeeded = !!resultMessage;
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="py-8">
+            <div className="flex flex-col items-center space-y-4">
+              <div className={`mx-auto w-12 h-12 rounded-full flex items-center justify-center mb-2 ${succeeded ? 'bg-green-100' : 'bg-red-100'}`}>
+                {succeeded
+                  ? <CheckCircle className="h-6 w-6 text-green-600" />
+                  : <AlertCircle className="h-6 w-6 text-red-600" />}
+              </div>
+              <h3 className="text-lg font-semibold">{succeeded ? 'Done' : 'Link unavailable'}</h3>
+              <p className="text-muted-foreground text-center">{resultMessage || error}</p>
+              <Button variant="outline" onClick={() => navigate('/trade-history')}>
+                View Trade History
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { order } = preview;
+  const isApprove = preview.linkAction === 'approve';
+  const size = order.dollarAmount > 0
+    ? `$${order.dollarAmount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+    : `${order.shares} shares`;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle>{isApprove ? 'Approve' : 'Reject'} trade order</CardTitle>
+          <CardDescription className="mt-2">
+            {order.action} {size} of {order.ticker} ({order.orderType.replace('_', ' ')})
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-muted-foreground">Price when created</span>
+            <span className="text-right font-medium">{formatPrice(preview.referencePrice)}</span>
+            <span className="text-muted-foreground">Current price</span>
+            <span className="text-right font-medium">{formatPrice(preview.currentPrice)}</span>
+            <span className="text-muted-foreground">Bid / Ask</span>
+            <span className="text-right font-medium">
+              {formatPrice(preview.quote?.bid)} / {formatPrice(preview.quote?.ask)}
+            </span>
+            {preview.driftPercent !== null && (
+              <>
+                <span className="text-muted-foreground">Change since created</span>
+                <span className={`text-right font-medium ${preview.driftPercent >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {preview.driftPercent >= 0 ? '+' : ''}{preview.driftPercent.toFixed(2)}%
+                </span>
+              </>
+            )}
+            {order.limitPrice !== null && (
+              <>
+                <span className="text-muted-foreground">Limit price</span>
+                <span className="text-right font-medium">{formatPrice(order.limitPrice)}</span>
+              </>
+            )}
+            {order.stopPrice !== null && (
+              <>
+                <span className="text-muted-foreground">Stop price</span>
+                <span className="text-right font-medium">{formatPrice(order.stopPrice)}</span>
+              </>
+            )}
+          </div>
+
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="text-xs">
+              This link works once and expires {new Date(preview.expiresAt).toLocaleString()}.
+              {isApprove && ` Approval is refused if the price moves more than ${preview.maxDriftPercent}% from the price when the order was created.`}
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+        <CardFooter className="flex gap-3">
+          <Button variant="outline" className="flex-1" onClick={() => navigate('/trade-history')} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1"
+            variant={isApprove ? "default" : "destructive"}
+            onClick={handleConfirm}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : isApprove ? (
+              <CheckCircle className="h-4 w-4 mr-2" />
+            ) : (
+              <XCircle className="h-4 w-4 mr-2" />
+            )}
+            {isApprove ? 'Approve & Execute' : 'Reject Order'}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
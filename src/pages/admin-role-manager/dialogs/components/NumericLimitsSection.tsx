@@ -38,6 +38,20 @@ export default function NumericLimitsSection({
           Number of debate rounds between bull and bear researchers. More rounds provide deeper analysis.
         </p>
       </div>
+      <div>
+        <Label>Max Custom Analysts: {limits.max_custom_analysts || 0}</Label>
+        <Slider
+          value={[limits.max_custom_analysts || 0]}
+          onValueChange={(v) => onUpdate({ ...limits, max_custom_analysts: v[0] })}
+          min={0}
+          max={10}
+          step={1}
+          className="mt-2"
+        />
+        <p className="text-sm text-muted-foreground mt-1">
+          Number of user-defined analysts that can take part in an analysis. 0 disables custom analysts.
+        </p>
+      </div>
       <div>
         <Label>Max Watchlist Stocks: {limits.max_watchlist_stocks}</Label>
         <Slider
@@ -11,6 +11,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Bot,
   Save,
@@ -22,10 +23,19 @@ import {
 import type { AgentsTabProps } from "./types";
 import { useRBAC } from "@/hooks/useRBAC";
 import { HelpButton, LabelWithHelp } from "@/components/ui/help-button";
+import WorkflowGraphSection from "./WorkflowGraphSection";
+import CustomAnalystsSection from "./CustomAnalystsSection";
+import {
+  INDICATOR_SET,
+  INDICATOR_SET_DESCRIPTIONS,
+  INDICATOR_SET_LABELS,
+  type IndicatorSetKey
+} from "@/lib/technicalIndicators";
 
 export default function AgentsTab({
   aiProviders,
   researchDebateRounds,
+  workflowConfig,
   analysisTeamProviderId,
   analysisTeamModel,
   analysisCustomModel,
@@ -44,6 +54,7 @@ export default function AgentsTab({
   analysisOptimization,
   analysisSearchSources,
   analysisHistoryDays,
+  analysisIndicators,
   analysisMaxTokens,
   researchMaxTokens,
   tradingMaxTokens,
@@ -55,6 +66,7 @@ export default function AgentsTab({
   activeTab,
   isSaving,
   setResearchDebateRounds,
+  setWorkflowConfig,
   setAnalysisTeamProviderId,
   setAnalysisTeamModel,
   setAnalysisCustomModel,
@@ -73,6 +85,7 @@ export default function AgentsTab({
   setAnalysisOptimization,
   setAnalysisSearchSources,
   setAnalysisHistoryDays,
+  setAnalysisIndicators,
   setAnalysisMaxTokens,
   setResearchMaxTokens,
   setTradingMaxTokens,
@@ -90,6 +103,12 @@ export default function AgentsTab({
   const maxDebateRounds = getMaxDebateRounds();
   const availableOptimizationModes = getAvailableOptimizationModes();
 
+  // Keep the catalogue order and at least one group selected
+  const toggleIndicator = (key: IndicatorSetKey, checked: boolean) => {
+    const next = Object.values(INDICATOR_SET).filter(k => (k === key ? checked : analysisIndicators.includes(k)));
+    if (next.length > 0) setAnalysisIndicators(next);
+  };
+
   // Debug logging
   console.log('AgentsTab received props:', {
     analysisOptimization,
@@ -257,6 +276,29 @@ export default function AgentsTab({
               </p>
             </div>
           </div>
+          <div className="space-y-2">
+            <LabelWithHelp
+              label="Market Analyst Indicators"
+              helpContent="Indicators included in the Market Analyst prompt. All of them are still calculated and charted; fewer indicators means a shorter prompt"
+            />
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {Object.values(INDICATOR_SET).map(key => (
+                <div key={key} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`analysis-indicator-${key}`}
+                    checked={analysisIndicators.includes(key)}
+                    onCheckedChange={(checked) => toggleIndicator(key, checked === true)}
+                    disabled={!hasAgentConfigAccess}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`analysis-indicator-${key}`} className="text-sm font-normal leading-tight">
+                    {INDICATOR_SET_LABELS[key]}
+                    <span className="block text-xs text-muted-foreground">{INDICATOR_SET_DESCRIPTIONS[key]}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
           <div className="space-y-2">
             <LabelWithHelp
               label="Number of Search Sources"
@@ -738,6 +780,16 @@ export default function AgentsTab({
         </div>
 
 
+        {/* Workflow Graph */}
+        <WorkflowGraphSection
+          workflowConfig={workflowConfig}
+          setWorkflowConfig={setWorkflowConfig}
+          hasAgentConfigAccess={hasAgentConfigAccess}
+        />
+
+        {/* Custom Analysts */}
+        <CustomAnalystsSection hasAgentConfigAccess={hasAgentConfigAccess} />
+
         {/* Save Button for Agents Tab */}
         <div className="flex justify-end pt-4">
           <Button
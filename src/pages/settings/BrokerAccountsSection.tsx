@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Lock, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { HelpButton } from "@/components/ui/help-button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BROKER,
+  BROKER_LABELS,
+  MAX_BROKER_ACCOUNT_NAME_LENGTH,
+  resetSimulatedAccount,
+  useBrokerAccounts,
+  type Broker,
+  type BrokerAccount
+} from "@/lib/brokerAccounts";
+
+interface BrokerAccountsSectionProps {
+  canUseLiveTrading: boolean;
+}
+
+interface BrokerAccountDraft {
+  id: string | null;
+  name: string;
+  broker: Broker;
+  paper_trading: boolean;
+  api_key: string;
+  secret_key: string;
+}
+
+const emptyDraft = (): BrokerAccountDraft => ({
+  id: null,
+  name: '',
+  broker: BROKER.ALPACA,
+  paper_trading: true,
+  api_key: '',
+  secret_key: ''
+});
+
+// Tradier identifies the account by number and authenticates with an access token
+const KEY_FIELD_LABELS: Record<Broker, { apiKey: string; secretKey: string }> = {
+  [BROKER.ALPACA]: { apiKey: 'API Key', secretKey: 'Secret Key' },
+  [BROKER.TRADIER]: { apiKey: 'Access Token', secretKey: 'Account Number' },
+  [BROKER.SIMULATED]: { apiKey: 'API Key', secretKey: 'Secret Key' }
+};
+
+// Named broker accounts next to the main account; saved through settings-proxy, separate from the trading settings
+export default function BrokerAccountsSection({ canUseLiveTrading }: BrokerAccountsSectionProps) {
+  const { toast } = useToast();
+  const { accounts, loaded, activePortfolioId, loadAccounts, saveAccount, deleteAccount } = useBrokerAccounts();
+
+  const [draft, setDraft] = useState<BrokerAccountDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const isNewDraft = !draft?.id;
+  const savedBroker = accounts.find(account => account.id === draft?.id)?.broker;
+  const isSimulatedDraft = draft?.broker === BROKER.SIMULATED;
+  const needsNewKeys = !isSimulatedDraft && (isNewDraft || (!!draft && draft.broker !== savedBroker));
+  const keyLabels = KEY_FIELD_LABELS[draft?.broker ?? BROKER.ALPACA];
+  const draftError = !draft
+    ? null
+    : !draft.name.trim()
+      ? 'Name is required'
+      : needsNewKeys && (!draft.api_key.trim() || !draft.secret_key.trim())
+        ? `${keyLabels.apiKey} and ${keyLabels.secretKey.toLowerCase()} are required`
+        : !draft.paper_trading && !canUseLiveTrading
+          ? 'Live trading requires a higher subscription plan'
+          : null;
+
+  const handleSave = async () => {
+    if (!draft || draftError) return;
+    setSaving(true);
+
+    try {
+      await saveAccount({
+        id: draft.id || undefined,
+        name: draft.name.trim(),
+        broker: draft.broker,
+        paper_trading: draft.paper_trading,
+        // Masked keys are sent back unchanged and resolved by settings-proxy
+        api_key: draft.api_key.trim() || undefined,
+        secret_key: draft.secret_key.trim() || undefined
+      });
+      toast({
+        title: "Saved",
+        description: `${draft.name.trim()} is available in the account switcher`,
+      });
+      setDraft(null);
+    } catch (error) {
+      console.error('Error saving broker account:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save broker account",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetSimulator = async (account: BrokerAccount) => {
+    if (!window.confirm(`Reset ${account.name}? Its simulated positions and orders are deleted and cash returns to the starting amount.`)) {
+      return;
+    }
+
+    try {
+      await resetSimulatedAccount(account.id);
+      toast({
+        title: "Simulator reset",
+        description: `${account.name} restarts with its starting cash`,
+      });
+    } catch (error) {
+      console.error('Error resetting simulated account:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset the simulated account",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (account: BrokerAccount) => {
+    if (!window.confirm(`Delete ${account.name}? Its watchlist, schedules and trade orders are deleted too; past rebalances are kept.`)) {
+      return;
+    }
+
+    try {
+      await deleteAccount(account.id);
+      toast({
+        title: "Deleted",
+        description: `${account.name} has been removed`,
+      });
+    } catch (error) {
+      console.error('Error deleting broker account:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete broker account",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-card">
+      <div className="flex items-center gap-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          Additional Broker Accounts
+          <HelpButton content="Add more Alpaca, Tradier or simulated accounts and switch between them from the header. Each account keeps its own watchlist, rebalance schedules, trade orders and rebalance settings. The keys above stay your main account; agent and trade execution settings are shared by all accounts." />
+        </h3>
+      </div>
+
+      {!loaded ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading broker accounts...
+        </div>
+      ) : accounts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No additional accounts</p>
+      ) : (
+        <div className="space-y-2">
+          {accounts.map(account => (
+            <div key={account.id} className="flex items-center justify-between gap-2 p-3 border rounded-md">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{account.name}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <Badge variant="outline" className="text-xs">
+                    {BROKER_LABELS[account.broker] ?? account.broker}
+                  </Badge>
+                  <Badge variant={account.paper_trading ? "secondary" : "destructive"} className="text-xs">
+                    {account.paper_trading ? "Paper" : "Live"}
+                  </Badge>
+                  {account.id === activePortfolioId && (
+                    <Badge variant="outline" className="text-xs">Active</Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground font-mono">{account.api_key}</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {account.broker === BROKER.SIMULATED && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Reset simulator"
+                    onClick={() => handleResetSimulator(account)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft({
+                    id: account.id,
+                    name: account.name,
+                    broker: account.broker,
+                    paper_trading: account.paper_trading,
+                    api_key: account.api_key || '',
+                    secret_key: account.secret_key || ''
+                  })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(account)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <div className="space-y-4 p-3 border rounded-md">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-name">Name</Label>
+              <Input
+                id="broker-account-name"
+                value={draft.name}
+                maxLength={MAX_BROKER_ACCOUNT_NAME_LENGTH}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Roth IRA"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-paper">Trading Mode</Label>
+              <div className="flex items-center gap-3 h-10">
+                <Switch
+                  id="broker-account-paper"
+                  checked={draft.paper_trading}
+                  onCheckedChange={(checked) => setDraft({ ...draft, paper_trading: checked })}
+                  disabled={isSimulatedDraft || (!canUseLiveTrading && draft.paper_trading)}
+                  className="data-[state=checked]:bg-green-600 data-[state=unchecked]:bg-red-500/80"
+                />
+                <span className="text-sm flex items-center gap-1">
+                  {draft.paper_trading ? "Paper Trading" : "Live Trading"}
+                  {!canUseLiveTrading && <Lock className="h-3 w-3 text-muted-foreground" />}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-broker">Broker</Label>
+              <Select
+                value={draft.broker}
+                // Keys belong to one broker, so switching clears them
+                onValueChange={(value) => setDraft({
+                  ...draft,
+                  broker: value as Broker,
+                  api_key: '',
+                  secret_key: '',
+                  paper_trading: value === BROKER.SIMULATED ? true : draft.paper_trading
+                })}
+              >
+                <SelectTrigger id="broker-account-broker">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(BROKER).map(broker => (
+                    <SelectItem key={broker} value={broker}>{BROKER_LABELS[broker]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isSimulatedDraft ? (
+            <p className="text-xs text-muted-foreground">
+              Simulated accounts need no keys. They open with the starting cash, slippage and commission set for the simulator above, fill orders at prices cached by your analyses and trade stocks and ETFs only: no crypto, trailing stop or bracket/OCO orders.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="broker-account-key">{keyLabels.apiKey}</Label>
+                  <Input
+                    id="broker-account-key"
+                    type="password"
+                    value={draft.api_key}
+                    onChange={(e) => setDraft({ ...draft, api_key: e.target.value })}
+                    placeholder={`${draft.paper_trading ? 'Paper' : 'Live'} ${keyLabels.apiKey.toLowerCase()}`}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="broker-account-secret">{keyLabels.secretKey}</Label>
+                  <Input
+                    id="broker-account-secret"
+                    type={draft.broker === BROKER.TRADIER ? "text" : "password"}
+                    value={draft.secret_key}
+                    onChange={(e) => setDraft({ ...draft, secret_key: e.target.value })}
+                    placeholder={`${draft.paper_trading ? 'Paper' : 'Live'} ${keyLabels.secretKey.toLowerCase()}`}
+                    className="font-mono text-sm"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Keys are checked against {BROKER_LABELS[draft.broker]} when saved. Switching modes needs keys from the matching paper or live account.
+                {draft.broker === BROKER.TRADIER && " Paper mode uses the Tradier sandbox. Tradier accounts trade whole-share stocks and ETFs only: no crypto, dollar-amount, trailing stop or bracket/OCO orders. Market data for analysis still comes from the main account's Alpaca keys."}
+              </p>
+            </>
+          )}
+
+          {draftError && <p className="text-sm text-red-500">{draftError}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !!draftError}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {draft.id ? 'Save Account' : 'Add Account'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => setDraft(emptyDraft())}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Broker Account
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Lock, Pencil, Plus, Trash2 } from "lucide-react";
+import { HelpButton } from "@/components/ui/help-button";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/lib/supabase";
+import { useRBAC } from "@/hooks/useRBAC";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CUSTOM_ANALYST_FOCUS_MODE_LABELS,
+  CUSTOM_ANALYST_INPUT,
+  CUSTOM_ANALYST_INPUT_LABELS,
+  CUSTOM_ANALYST_PHASES,
+  CUSTOM_ANALYST_PHASE_LABELS,
+  MAX_CUSTOM_ANALYST_NAME_LENGTH,
+  MAX_CUSTOM_ANALYST_PROMPT_LENGTH,
+  validateCustomAnalyst,
+  type CustomAnalystFocusMode,
+  type CustomAnalystInput,
+  type CustomAnalystPhase,
+  type CustomAnalystRecord
+} from "@/lib/customAnalysts";
+
+interface CustomAnalystsSectionProps {
+  hasAgentConfigAccess: boolean;
+}
+
+interface CustomAnalystDraft {
+  id: string | null;
+  name: string;
+  system_prompt: string;
+  data_inputs: CustomAnalystInput[];
+  focus_mode: CustomAnalystFocusMode | null;
+  phase: CustomAnalystPhase;
+}
+
+const emptyDraft = (): CustomAnalystDraft => ({
+  id: null,
+  name: '',
+  system_prompt: '',
+  data_inputs: [CUSTOM_ANALYST_INPUT.PRICE_HISTORY],
+  focus_mode: null,
+  phase: 'analysis'
+});
+
+// User-defined analysts; rows are saved directly, separate from the agent settings
+export default function CustomAnalystsSection({ hasAgentConfigAccess }: CustomAnalystsSectionProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { getMaxCustomAnalysts } = useRBAC();
+  const maxCustomAnalysts = getMaxCustomAnalysts();
+
+  const [analysts, setAnalysts] = useState<CustomAnalystRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<CustomAnalystDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const canEdit = hasAgentConfigAccess && maxCustomAnalysts > 0;
+  const draftErrors = draft ? validateCustomAnalyst(draft) : [];
+
+  const loadAnalysts = useCallback(async () => {
+    if (!user?.id) return;
+
+    const { data, error } = await supabase
+      .from('custom_analysts')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading custom analysts:', error);
+    } else {
+      setAnalysts((data || []) as CustomAnalystRecord[]);
+    }
+    setLoading(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadAnalysts();
+  }, [loadAnalysts]);
+
+  const toggleInput = (input: CustomAnalystInput, checked: boolean) => {
+    if (!draft) return;
+    const dataInputs = checked
+      ? [...draft.data_inputs, input]
+      : draft.data_inputs.filter(i => i !== input);
+    setDraft({
+      ...draft,
+      data_inputs: dataInputs,
+      focus_mode: dataInputs.includes(CUSTOM_ANALYST_INPUT.PERPLEFINA) ? (draft.focus_mode || 'news') : null
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || !draft || draftErrors.length > 0) return;
+    setSaving(true);
+
+    const row = {
+      name: draft.name.trim(),
+      system_prompt: draft.system_prompt.trim(),
+      data_inputs: draft.data_inputs,
+      focus_mode: draft.focus_mode,
+      phase: draft.phase
+    };
+    const { error } = draft.id
+      ? await supabase.from('custom_analysts').update(row).eq('id', draft.id)
+      : await supabase.from('custom_analysts').insert({ ...row, user_id: user.id });
+
+    if (error) {
+      console.error('Error saving custom analyst:', error);
+      toast({
+        title: "Error",
+        description: draft.id ? "Failed to save custom analyst" : `Failed to add custom analyst. Your plan allows ${maxCustomAnalysts}.`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Saved",
+        description: `${row.name} will take part in new analyses`,
+      });
+      setDraft(null);
+      await loadAnalysts();
+    }
+    setSaving(false);
+  };
+
+  const handleToggleEnabled = async (analyst: CustomAnalystRecord, enabled: boolean) => {
+    const { error } = await supabase.from('custom_analysts').update({ enabled }).eq('id', analyst.id);
+    if (error) {
+      console.error('Error updating custom analyst:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update custom analyst",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAnalysts(prev => prev.map(a => a.id === analyst.id ? { ...a, enabled } : a));
+  };
+
+  const handleDelete = async (analyst: CustomAnalystRecord) => {
+    const { error } = await supabase.from('custom_analysts').delete().eq('id', analyst.id);
+    if (error) {
+      console.error('Error deleting custom analyst:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete custom analyst",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAnalysts(prev => prev.filter(a => a.id !== analyst.id));
+  };
+
+  return (
+    <div className={`space-y-4 p-4 border rounded-lg bg-card ${!canEdit ? 'opacity-50' : ''}`}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          Custom Analysts
+          {!canEdit && <Lock className="h-4 w-4 text-muted-foreground" />}
+          <HelpButton content="Define your own analysts with a system prompt and the data they receive. Their reports join the research debate (Market Analysis phase) or the Risk Manager's review (Risk Assessment phase). They use the Analysis Team model and apply to analyses started after saving." />
+        </h3>
+        <span className="text-sm text-muted-foreground">{analysts.length} / {maxCustomAnalysts}</span>
+      </div>
+
+      {maxCustomAnalysts === 0 && (
+        <p className="text-sm text-muted-foreground">Custom analysts are not included in your plan.</p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading custom analysts...
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {analysts.map((analyst, index) => (
+            <div key={analyst.id} className="flex items-center justify-between gap-2 p-3 border rounded-md">
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {analyst.name}
+                  {index >= maxCustomAnalysts && <span className="text-muted-foreground"> (over plan limit, skipped)</span>}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <Badge variant="secondary" className="text-xs">{CUSTOM_ANALYST_PHASE_LABELS[analyst.phase]}</Badge>
+                  {analyst.data_inputs.map(input => (
+                    <Badge key={input} variant="outline" className="text-xs">{CUSTOM_ANALYST_INPUT_LABELS[input]}</Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Switch
+                  checked={analyst.enabled}
+                  onCheckedChange={(checked) => handleToggleEnabled(analyst, checked)}
+                  disabled={!canEdit}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft({
+                    id: analyst.id,
+                    name: analyst.name,
+                    system_prompt: analyst.system_prompt,
+                    data_inputs: analyst.data_inputs,
+                    focus_mode: analyst.focus_mode,
+                    phase: analyst.phase
+                  })}
+                  disabled={!canEdit}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(analyst)}
+                  disabled={!hasAgentConfigAccess}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <div className="space-y-4 p-3 border rounded-md">
+          <div className="space-y-2">
+            <Label htmlFor="custom-analyst-name">Name</Label>
+            <Input
+              id="custom-analyst-name"
+              value={draft.name}
+              maxLength={MAX_CUSTOM_ANALYST_NAME_LENGTH}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Options Flow Analyst"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-analyst-prompt">System Prompt</Label>
+            <Textarea
+              id="custom-analyst-prompt"
+              value={draft.system_prompt}
+              maxLength={MAX_CUSTOM_ANALYST_PROMPT_LENGTH}
+              onChange={(e) => setDraft({ ...draft, system_prompt: e.target.value })}
+              rows={6}
+              placeholder="You are an analyst who focuses on..."
+            />
+            <p className="text-xs text-muted-foreground">
+              {draft.system_prompt.length} / {MAX_CUSTOM_ANALYST_PROMPT_LENGTH} characters
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Data Inputs</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {Object.values(CUSTOM_ANALYST_INPUT).map(input => (
+                <div key={input} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`custom-analyst-input-${input}`}
+                    checked={draft.data_inputs.includes(input)}
+                    onCheckedChange={(checked) => toggleInput(input, checked === true)}
+                  />
+                  <Label htmlFor={`custom-analyst-input-${input}`} className="text-sm">
+                    {CUSTOM_ANALYST_INPUT_LABELS[input]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {draft.data_inputs.includes(CUSTOM_ANALYST_INPUT.PERPLEFINA) && (
+              <div className="space-y-2">
+                <Label>Research Focus</Label>
+                <Select
+                  value={draft.focus_mode || 'news'}
+                  onValueChange={(value) => setDraft({ ...draft, focus_mode: value as CustomAnalystFocusMode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CUSTOM_ANALYST_FOCUS_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Phase</Label>
+              <Select
+                value={draft.phase}
+                onValueChange={(value) => setDraft({ ...draft, phase: value as CustomAnalystPhase })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_ANALYST_PHASES.map(phase => (
+                    <SelectItem key={phase} value={phase}>{CUSTOM_ANALYST_PHASE_LABELS[phase]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draftErrors.map(error => (
+            <p key={error} className="text-sm text-red-500">{error}</p>
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || draftErrors.length > 0}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {draft.id ? 'Save Analyst' : 'Add Analyst'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          onClick={() => setDraft(emptyDraft())}
+          disabled={!canEdit || analysts.length >= maxCustomAnalysts}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Custom Analyst
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { LabelWithHelp } from "@/components/ui/help-button";
+import {
+  ASSET_CLASS,
+  EXPOSURE_DIMENSION,
+  EXPOSURE_DIMENSION_LABELS,
+  SECTOR_OPTIONS,
+  isValidExposureDimension,
+  type ExposureDimension,
+  type ExposureLimit
+} from "@/lib/assetClassification";
+
+const MAX_EXPOSURE_LIMITS = 10;
+
+const defaultValueFor = (dimension: ExposureDimension): string => {
+  switch (dimension) {
+    case EXPOSURE_DIMENSION.SECTOR:
+      return SECTOR_OPTIONS[0];
+    case EXPOSURE_DIMENSION.ASSET_CLASS:
+      return ASSET_CLASS.CRYPTO;
+    default:
+      return '';
+  }
+};
+
+interface ExposureLimitsSectionProps {
+  limits: ExposureLimit[];
+  setLimits: (limits: ExposureLimit[]) => void;
+  disabled?: boolean;
+}
+
+// Sector, industry and asset-class caps enforced by the rebalance manager
+export default function ExposureLimitsSection({ limits, setLimits, disabled }: ExposureLimitsSectionProps) {
+  const updateLimit = (index: number, changes: Partial<ExposureLimit>) => {
+    setLimits(limits.map((limit, i) => i === index ? { ...limit, ...changes } : limit));
+  };
+
+  const removeLimit = (index: number) => {
+    setLimits(limits.filter((_, i) => i !== index));
+  };
+
+  const addLimit = () => {
+    setLimits([...limits, { dimension: EXPOSURE_DIMENSION.SECTOR, value: defaultValueFor(EXPOSURE_DIMENSION.SECTOR), maxPercent: 35 }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <LabelWithHelp
+        label="Exposure Limits"
+        helpContent="Caps the share of your portfolio in a sector, industry or asset class. BUYs that would push a bucket over its cap are reduced or turned into HOLDs, and holdings already over a cap are flagged in the rebalance insights. Sectors and industries come from SEC filings and are cached for 30 days; industry names match partially, so 'Semiconductors' covers 'Semiconductors & Related Devices'."
+      />
+
+      {limits.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No exposure limits set</p>
+      ) : (
+        <div className="space-y-2">
+          {limits.map((limit, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={limit.dimension}
+                onValueChange={(value) => {
+                  if (!isValidExposureDimension(value)) return;
+                  updateLimit(index, { dimension: value, value: defaultValueFor(value) });
+                }}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(EXPOSURE_DIMENSION).map(dimension => (
+                    <SelectItem key={dimension} value={dimension}>
+                      {EXPOSURE_DIMENSION_LABELS[dimension]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {limit.dimension === EXPOSURE_DIMENSION.INDUSTRY ? (
+                <Input
+                  value={limit.value}
+                  onChange={(e) => updateLimit(index, { value: e.target.value })}
+                  placeholder="e.g. Semiconductors"
+                  className="flex-1"
+                  disabled={disabled}
+                />
+              ) : (
+                <Select
+                  value={limit.value}
+                  onValueChange={(value) => updateLimit(index, { value })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(limit.dimension === EXPOSURE_DIMENSION.SECTOR ? SECTOR_OPTIONS : Object.values(ASSET_CLASS)).map(option => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <div className="flex items-center gap-1">
+                <span className="text-sm text-muted-foreground">≤</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={limit.maxPercent}
+                  onChange={(e) => updateLimit(index, { maxPercent: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+                  className="w-20"
+                  disabled={disabled}
+                />
+                <span className="text-sm text-muted-foreground">%</span>
+              </div>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => removeLimit(index)}
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={addLimit}
+        disabled={disabled || limits.length >= MAX_EXPOSURE_LIMITS}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Limit
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { HelpButton } from "@/components/ui/help-button";
+import { Bell, Eye, EyeOff, Loader2, Save } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  NOTIFICATION_CHANNEL,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENT,
+  NOTIFICATION_EVENT_LABELS,
+  defaultNotificationPreferences,
+  validateNotificationPreferences,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationPreferences
+} from "@/lib/notifications";
+
+const EVENTS = Object.values(NOTIFICATION_EVENT);
+const CHANNELS = Object.values(NOTIFICATION_CHANNEL);
+
+const CHANNEL_ENABLED_KEY: Record<NotificationChannel, 'email_enabled' | 'discord_enabled' | 'webhook_enabled'> = {
+  [NOTIFICATION_CHANNEL.EMAIL]: 'email_enabled',
+  [NOTIFICATION_CHANNEL.DISCORD]: 'discord_enabled',
+  [NOTIFICATION_CHANNEL.WEBHOOK]: 'webhook_enabled'
+};
+
+// Notification channels and per-event choices; the row is saved directly, separate from api_settings
+export default function NotificationsTab() {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showSecret, setShowSecret] = useState(false);
+
+  const errors = preferences ? validateNotificationPreferences(preferences) : [];
+
+  const loadPreferences = useCallback(async () => {
+    if (!user?.id) return;
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading notification preferences:', error);
+    }
+    setPreferences((data as NotificationPreferences | null) || defaultNotificationPreferences(user.id));
+    setLoading(false);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const toggleEventChannel = (event: NotificationEvent, channel: NotificationChannel, checked: boolean) => {
+    if (!preferences) return;
+    const current = preferences.event_channels[event] || [];
+    setPreferences({
+      ...preferences,
+      event_channels: {
+        ...preferences.event_channels,
+        [event]: checked ? [...current, channel] : current.filter(c => c !== channel)
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user?.id || !preferences || errors.length > 0) return;
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        email_enabled: preferences.email_enabled,
+        discord_enabled: preferences.discord_enabled,
+        webhook_enabled: preferences.webhook_enabled,
+        webhook_url: preferences.webhook_url?.trim() || null,
+        webhook_secret: preferences.webhook_secret?.trim() || null,
+        event_channels: preferences.event_channels
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving notification preferences:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save notification preferences",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Saved",
+        description: "Notification preferences updated",
+      });
+    }
+    setSaving(false);
+  };
+
+  if (loading || !preferences) {
+    return (
+      <Card>
+        <CardContent className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading notification preferences...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Get told when analyses and rebalances finish or trade orders need your attention
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Channels */}
+        <div className="space-y-4 p-4 border rounded-lg bg-card">
+          <h3 className="text-lg font-semibold">Channels</h3>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Email</Label>
+              <p className="text-sm text-muted-foreground">
+                Sent to {profile?.email || 'your account email'}
+              </p>
+            </div>
+            <Switch
+              checked={preferences.email_enabled}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, email_enabled: checked })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Discord DM</Label>
+              <p className="text-sm text-muted-foreground">
+                Direct message from the TradingGoose bot to the Discord account linked on your Profile page
+              </p>
+            </div>
+            <Switch
+              checked={preferences.discord_enabled}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, discord_enabled: checked })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="flex items-center gap-2">
+                  Webhook
+                  <HelpButton content="TradingGoose POSTs JSON ({ event, title, message, url, data, sentAt }) to this URL. When a signing secret is set, the X-TradingGoose-Signature header carries the hex HMAC-SHA256 of the request body." />
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Send events to Slack, Zapier or your own service
+                </p>
+              </div>
+              <Switch
+                checked={preferences.webhook_enabled}
+                onCheckedChange={(checked) => setPreferences({ ...preferences, webhook_enabled: checked })}
+              />
+            </div>
+            {preferences.webhook_enabled && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-url">Webhook URL</Label>
+                  <Input
+                    id="webhook-url"
+                    placeholder="https://example.com/hooks/tradinggoose"
+                    value={preferences.webhook_url || ''}
+                    onChange={(e) => setPreferences({ ...preferences, webhook_url: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="webhook-secret">Signing secret (optional)</Label>
+                  <div className="relative">
+                    <Input
+                      id="webhook-secret"
+                      type={showSecret ? "text" : "password"}
+                      value={preferences.webhook_secret || ''}
+                      onChange={(e) => setPreferences({ ...preferences, webhook_secret: e.target.value })}
+                      className="font-mono text-sm"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8"
+                      onClick={() => setShowSecret(!showSecret)}
+                    >
+                      {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Per-event channel selection */}
+        <div className="space-y-4 p-4 border rounded-lg bg-card">
+          <h3 className="text-lg font-semibold">Events</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left font-medium py-2 pr-4">Event</th>
+                  {CHANNELS.map(channel => (
+                    <th key={channel} className="font-medium py-2 px-2 text-center">
+                      {NOTIFICATION_CHANNEL_LABELS[channel]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {EVENTS.map(event => (
+                  <tr key={event} className="border-b last:border-0">
+                    <td className="py-2 pr-4">
+                      <p className="font-medium">{NOTIFICATION_EVENT_LABELS[event].label}</p>
+                      <p className="text-xs text-muted-foreground">{NOTIFICATION_EVENT_LABELS[event].description}</p>
+                    </td>
+                    {CHANNELS.map(channel => (
+                      <td key={channel} className="py-2 px-2 text-center">
+                        <Checkbox
+                          checked={(preferences.event_channels[event] || []).includes(channel)}
+                          onCheckedChange={(checked) => toggleEventChannel(event, channel, checked === true)}
+                          disabled={!preferences[CHANNEL_ENABLED_KEY[channel]]}
+                          aria-label={`${NOTIFICATION_EVENT_LABELS[event].label} via ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-500 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end pt-4">
+          <Button onClick={handleSave} disabled={saving || errors.length > 0} size="lg">
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Notification Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
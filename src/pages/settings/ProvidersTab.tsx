@@ -25,6 +25,8 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { HelpButton, LabelWithHelp, HelpContent } from "@/components/ui/help-button";
 import type { ProvidersTabProps } from "./types";
+import { AI_BUDGET_PERIOD, AI_BUDGET_PERIOD_LABELS, type AIBudgetPeriod } from "@/lib/aiBudget";
+import { formatTokenCount, formatUsageCost } from "@/lib/aiUsage";
 
 export default function ProvidersTab({
   aiProviders,
@@ -45,6 +47,17 @@ export default function ProvidersTab({
   handleClearProviders,
   getModelOptions,
   hasAdditionalProviderAccess = true,
+  modelPrices,
+  addModelPrice,
+  updateModelPrice,
+  removeModelPrice,
+  aiBudgetPeriod,
+  setAiBudgetPeriod,
+  aiBudgetUsd,
+  setAiBudgetUsd,
+  aiBudgetTokens,
+  setAiBudgetTokens,
+  aiBudgetUsage,
 }: ProvidersTabProps) {
   return (
     <Card>
@@ -116,6 +129,7 @@ export default function ProvidersTab({
                         <SelectItem value="google">Google AI</SelectItem>
                         <SelectItem value="deepseek">DeepSeek</SelectItem>
                         <SelectItem value="openrouter">OpenRouter</SelectItem>
+                        <SelectItem value="openai-compatible">OpenAI-Compatible (Local)</SelectItem>
                       </SelectContent>
                     </Select>
                     {!provider.provider && (
@@ -123,6 +137,38 @@ export default function ProvidersTab({
                     )}
                   </div>
                 </div>
+                {provider.provider === 'openai-compatible' && (
+                  <div>
+                    <LabelWithHelp
+                      label="Base URL"
+                      required={true}
+                      helpContent={
+                        <HelpContent
+                          title="OpenAI-Compatible Server"
+                          description="Root URL of a server that implements the OpenAI chat completions API, such as Ollama, LM Studio or vLLM. Requests are sent to {base URL}/chat/completions."
+                          tips={[
+                            "The server must be reachable from Supabase Edge Functions, not just your own machine",
+                            "If your server does not check API keys, enter any placeholder value as the key",
+                            "Select the Custom model option and enter the model name your server exposes"
+                          ]}
+                          example="http://localhost:11434/v1"
+                        />
+                      }
+                      className="text-xs mb-1"
+                    />
+                    <Input
+                      type="url"
+                      placeholder="http://localhost:11434/v1"
+                      value={provider.baseUrl || ''}
+                      onChange={(e) => updateAiProvider(provider.id, 'baseUrl', e.target.value)}
+                      className={!provider.baseUrl ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
+                      required
+                    />
+                    {!provider.baseUrl && (
+                      <p className="text-sm text-red-500 mt-1">Base URL is required</p>
+                    )}
+                  </div>
+                )}
                 <div className="flex gap-4 items-start">
                   <div className="flex-1">
                     <LabelWithHelp
@@ -328,6 +374,7 @@ export default function ProvidersTab({
                         <SelectItem value="google">Google AI</SelectItem>
                         <SelectItem value="deepseek">DeepSeek</SelectItem>
                         <SelectItem value="openrouter">OpenRouter</SelectItem>
+                        <SelectItem value="openai-compatible">OpenAI-Compatible (Local)</SelectItem>
                       </SelectContent>
                     </Select>
                     {!provider.provider && (
@@ -335,6 +382,39 @@ export default function ProvidersTab({
                     )}
                   </div>
                 </div>
+                {provider.provider === 'openai-compatible' && (
+                  <div>
+                    <LabelWithHelp
+                      label="Base URL"
+                      required={true}
+                      helpContent={
+                        <HelpContent
+                          title="OpenAI-Compatible Server"
+                          description="Root URL of a server that implements the OpenAI chat completions API, such as Ollama, LM Studio or vLLM. Requests are sent to {base URL}/chat/completions."
+                          tips={[
+                            "The server must be reachable from Supabase Edge Functions, not just your own machine",
+                            "If your server does not check API keys, enter any placeholder value as the key",
+                            "Select the Custom model option and enter the model name your server exposes"
+                          ]}
+                          example="http://localhost:11434/v1"
+                        />
+                      }
+                      className="text-xs mb-1"
+                    />
+                    <Input
+                      type="url"
+                      placeholder="http://localhost:11434/v1"
+                      value={provider.baseUrl || ''}
+                      onChange={(e) => updateAiProvider(provider.id, 'baseUrl', e.target.value)}
+                      className={!provider.baseUrl ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
+                      disabled={!hasAdditionalProviderAccess}
+                      required
+                    />
+                    {!provider.baseUrl && (
+                      <p className="text-sm text-red-500 mt-1">Base URL is required</p>
+                    )}
+                  </div>
+                )}
                 <div className="flex gap-4 items-start">
                   <div className="flex-1">
                     <LabelWithHelp
@@ -415,6 +495,184 @@ export default function ProvidersTab({
           </div>
         </div>
 
+        {/* Model Pricing for AI cost estimates */}
+        <div className="space-y-4 p-4 border rounded-lg bg-card">
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold">Model Pricing</h3>
+            <HelpButton
+              content={
+                <HelpContent
+                  title="Model Pricing"
+                  description="Prices used to estimate the cost of each agent's AI calls, shown in the Workflow tab of analyses and rebalances. Common OpenAI, Anthropic, Google, DeepSeek and xAI models are priced by default."
+                  tips={[
+                    "Prices are in USD per 1 million tokens",
+                    "Add a row to price a model that is not built in, or to override a default price",
+                    "Dated model names match their base entry, e.g. claude-sonnet-4 covers claude-sonnet-4-20250514",
+                    "Leave cached input empty to bill cached tokens at the input price"
+                  ]}
+                  example="gpt-4.1-mini · input 0.40 · cached 0.10 · output 1.60"
+                />
+              }
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Override or add per-model prices (USD per 1M tokens) for AI usage cost estimates.
+          </p>
+
+          {modelPrices.map((price) => (
+            <div key={price.id} className="space-y-1">
+              <div className="flex gap-2 items-end">
+                <div className="flex-[2]">
+                  <Label className="text-xs">Model</Label>
+                  <Input
+                    placeholder="e.g., gpt-4.1-mini"
+                    value={price.model}
+                    onChange={(e) => updateModelPrice(price.id, 'model', e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label className="text-xs">Input</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={price.input}
+                    onChange={(e) => updateModelPrice(price.id, 'input', e.target.value)}
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label className="text-xs">Cached Input</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Same as input"
+                    value={price.cachedInput}
+                    onChange={(e) => updateModelPrice(price.id, 'cachedInput', e.target.value)}
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label className="text-xs">Output</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={price.output}
+                    onChange={(e) => updateModelPrice(price.id, 'output', e.target.value)}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeModelPrice(price.id)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {errors[`model_price_${price.id}`] && (
+                <p className="text-sm text-red-500">{errors[`model_price_${price.id}`]}</p>
+              )}
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            onClick={addModelPrice}
+            className="w-full"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Model Price
+          </Button>
+        </div>
+
+        {/* AI Spend Budget */}
+        <div className="space-y-4 p-4 border rounded-lg bg-card">
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold">AI Spend Budget</h3>
+            <HelpButton
+              content={
+                <HelpContent
+                  title="AI Spend Budget"
+                  description="A hard cap on AI usage. When the spend so far plus the expected cost of a run would pass the cap, new analyses and rebalances are refused, running ones pause at their next phase, and scheduled rebalances and near-limit analyses are skipped until the period resets."
+                  tips={[
+                    "Spend is estimated from the Model Pricing table above",
+                    "The expected cost of a run is the average of your last 10 completed analyses or rebalances",
+                    "Set a dollar cap, a token cap, or both - whichever is reached first applies",
+                    "Paused workflows can be retried once the budget allows"
+                  ]}
+                />
+              }
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Stop AI workflows before spend in the current day or month would pass a cap.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Budget Period</Label>
+              <Select value={aiBudgetPeriod} onValueChange={setAiBudgetPeriod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(AI_BUDGET_PERIOD).map((period: AIBudgetPeriod) => (
+                    <SelectItem key={period} value={period}>
+                      {AI_BUDGET_PERIOD_LABELS[period]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Dollar Cap (USD)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="No cap"
+                value={aiBudgetUsd}
+                onChange={(e) => setAiBudgetUsd(e.target.value)}
+                disabled={aiBudgetPeriod === AI_BUDGET_PERIOD.NONE}
+              />
+              {errors.ai_budget_usd && (
+                <p className="text-sm text-red-500">{errors.ai_budget_usd}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Token Cap</Label>
+              <Input
+                type="number"
+                min="0"
+                step="1000"
+                placeholder="No cap"
+                value={aiBudgetTokens}
+                onChange={(e) => setAiBudgetTokens(e.target.value)}
+                disabled={aiBudgetPeriod === AI_BUDGET_PERIOD.NONE}
+              />
+              {errors.ai_budget_tokens && (
+                <p className="text-sm text-red-500">{errors.ai_budget_tokens}</p>
+              )}
+            </div>
+          </div>
+
+          {aiBudgetPeriod !== AI_BUDGET_PERIOD.NONE && aiBudgetUsage && (
+            <p className="text-sm text-muted-foreground">
+              Used this {aiBudgetPeriod === AI_BUDGET_PERIOD.DAILY ? 'day' : 'month'}:{' '}
+              <span className="font-medium text-foreground">{formatUsageCost(aiBudgetUsage.cost_usd)}</span>
+              {aiBudgetUsd && Number(aiBudgetUsd) > 0 && ` of ${formatUsageCost(Number(aiBudgetUsd))}`}
+              {' · '}
+              <span className="font-medium text-foreground">{formatTokenCount(aiBudgetUsage.total_tokens)}</span> tokens
+              {aiBudgetTokens && Number(aiBudgetTokens) > 0 && ` of ${formatTokenCount(Number(aiBudgetTokens))}`}
+            </p>
+          )}
+        </div>
+
         {/* Save and Clear Buttons for Providers Tab */}
         <div className="flex flex-col sm:flex-row gap-3 sm:justify-between pt-4">
           {handleClearProviders && (
@@ -10,6 +10,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
@@ -21,14 +22,18 @@ import {
   Lock,
 } from "lucide-react";
 import { HelpButton, LabelWithHelp } from "@/components/ui/help-button";
+import ExposureLimitsSection from "./ExposureLimitsSection";
 import type { RebalanceTabProps } from "./types";
 
 export default function RebalanceTab({
   aiProviders,
+  accountName,
   rebalanceThreshold,
   rebalanceMinPositionSize,
   rebalanceMaxPositionSize,
   nearPositionThreshold,
+  rebalanceTaxAware,
+  rebalanceExposureLimits,
   targetStockAllocation,
   targetCashAllocation,
   opportunityAgentProviderId,
@@ -46,6 +51,8 @@ export default function RebalanceTab({
   setRebalanceMinPositionSize,
   setRebalanceMaxPositionSize,
   setNearPositionThreshold,
+  setRebalanceTaxAware,
+  setRebalanceExposureLimits,
   setTargetStockAllocation,
   setTargetCashAllocation,
   setOpportunityAgentProviderId,
@@ -83,6 +90,15 @@ export default function RebalanceTab({
           </Alert>
         )}
 
+        {accountName && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Portfolio limits, allocations, tax-aware mode and exposure limits below are saved for <span className="font-medium">{accountName}</span>. Switch to the main account in the header to edit its settings. The Opportunity Agent settings are shared by all accounts.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Portfolio Limits - New separate section */}
         <div className={`space-y-4 p-4 border rounded-lg bg-card ${!hasRebalanceAccess ? 'opacity-50' : ''}`}>
           <h3 className="text-lg font-semibold flex items-center gap-2">
@@ -168,6 +184,34 @@ export default function RebalanceTab({
             </p>
           </div>
 
+          {/* Tax-Aware Rebalancing */}
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <LabelWithHelp
+                htmlFor="rebalance-tax-aware"
+                label="Tax-Aware Rebalancing"
+                helpContent="Uses your tax lots when sizing rebalance orders. Re-buys inside a wash-sale window are blocked, trims stop short of lots that turn long-term within 30 days, and with the Specific ID lot method the lots with losses or long-term gains are sold first. Full exits are never held back."
+              />
+              <p className="text-sm text-muted-foreground">
+                Prefer selling losses and long-term gains, avoid wash sales
+              </p>
+            </div>
+            <Switch
+              id="rebalance-tax-aware"
+              checked={rebalanceTaxAware}
+              onCheckedChange={setRebalanceTaxAware}
+              disabled={!hasRebalanceAccess}
+              className="data-[state=checked]:bg-primary data-[state=unchecked]:bg-muted-foreground/30"
+            />
+          </div>
+
+          {/* Exposure Limits */}
+          <ExposureLimitsSection
+            limits={rebalanceExposureLimits}
+            setLimits={setRebalanceExposureLimits}
+            disabled={!hasRebalanceAccess}
+          />
+
           {/* Portfolio Allocation */}
           <div className="space-y-2">
             <LabelWithHelp
@@ -29,8 +29,12 @@ import {
   Target,
   ShieldAlert,
   Trash2,
+  Settings2,
+  FlaskConical,
 } from "lucide-react";
+import { TAX_LOT_METHOD, TAX_LOT_METHOD_LABELS } from "@/lib/taxLots";
 import type { TradingTabProps } from "./types";
+import BrokerAccountsSection from "./BrokerAccountsSection";
 
 export default function TradingTab({
   alpacaPaperApiKey,
@@ -45,6 +49,15 @@ export default function TradingTab({
   profitTarget,
   stopLoss,
   nearLimitThreshold,
+  defaultOrderType,
+  defaultTimeInForce,
+  limitOrderOffset,
+  exitOrderMode,
+  taxLotMethod,
+  simulatedTrading,
+  simulatedStartingCash,
+  simulatedSlippageBps,
+  simulatedCommission,
   configuredProviders,
   showKeys,
   saved,
@@ -62,9 +75,19 @@ export default function TradingTab({
   setProfitTarget,
   setStopLoss,
   setNearLimitThreshold,
+  setDefaultOrderType,
+  setDefaultTimeInForce,
+  setLimitOrderOffset,
+  setExitOrderMode,
+  setTaxLotMethod,
+  setSimulatedTrading,
+  setSimulatedStartingCash,
+  setSimulatedSlippageBps,
+  setSimulatedCommission,
   toggleShowKey,
   handleSaveTab,
   handleClearTrading,
+  handleResetSimulator,
   canUseLiveTrading = true,
   canUseAutoTrading = true,
   canUseNearLimitAnalysis = true,
@@ -165,6 +188,100 @@ export default function TradingTab({
           </div>
         </div>
 
+        {/* Simulated Broker */}
+        <div className="space-y-4 p-4 border rounded-lg bg-card">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <LabelWithHelp
+                htmlFor="simulated-trading"
+                label="Simulated Broker"
+                helpContent={
+                  <HelpContent
+                    description="Trade against a built-in simulated account instead of Alpaca. Cash, positions and orders are kept in TradingGoose, and orders fill at the prices cached by your analyses."
+                    tips={[
+                      "No brokerage account or trading keys needed",
+                      "A stock can be traded once it has been analyzed, so its prices are cached",
+                      "Market orders fill at the last cached close plus slippage",
+                      "Limit and stop orders fill when a later cached daily bar crosses their price",
+                      "Analyses still fetch market data with Alpaca keys (free paper keys work)"
+                    ]}
+                  />
+                }
+                className="text-base font-medium cursor-pointer"
+              />
+              <p className="text-sm text-muted-foreground">
+                {simulatedTrading
+                  ? "The main account trades in the simulator - Alpaca orders are not placed"
+                  : "Paper trade without a brokerage account"}
+              </p>
+            </div>
+            <Switch
+              id="simulated-trading"
+              checked={simulatedTrading}
+              onCheckedChange={setSimulatedTrading}
+              className="data-[state=checked]:bg-primary data-[state=unchecked]:bg-muted-foreground/30"
+            />
+          </div>
+
+          {simulatedTrading && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="simulated-starting-cash">Starting Cash</Label>
+                  <div className="flex items-center gap-2">
+                    <DollarSign className="h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="simulated-starting-cash"
+                      type="number"
+                      min="1000"
+                      step="1000"
+                      value={simulatedStartingCash}
+                      onChange={(e) => setSimulatedStartingCash(Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="simulated-slippage">Slippage (basis points)</Label>
+                  <Input
+                    id="simulated-slippage"
+                    type="number"
+                    min="0"
+                    max="500"
+                    step="1"
+                    value={simulatedSlippageBps}
+                    onChange={(e) => setSimulatedSlippageBps(Number(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="simulated-commission">Commission per Fill</Label>
+                  <div className="flex items-center gap-2">
+                    <DollarSign className="h-4 w-4 text-muted-foreground" />
+                    <Input
+                      id="simulated-commission"
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={simulatedCommission}
+                      onChange={(e) => setSimulatedCommission(Number(e.target.value))}
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  Starting cash applies when the simulated account is opened or reset. Slippage moves market and stop fills against you ({(simulatedSlippageBps / 100).toFixed(2)}%).
+                </p>
+                {handleResetSimulator && (
+                  <Button variant="outline" size="sm" onClick={handleResetSimulator} className="shrink-0">
+                    <FlaskConical className="w-4 h-4 mr-2" />
+                    Reset Simulator
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Trade Execution Settings */}
         <div className="space-y-4 p-4 border rounded-lg bg-card">
           <div className="flex items-center gap-2">
@@ -502,6 +619,185 @@ export default function TradingTab({
           </Alert>
         </div>
 
+        {/* Order Execution Preferences */}
+        <div className="space-y-4 p-4 border rounded-lg bg-card">
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <Settings2 className="h-4 w-4" />
+              Order Execution Preferences
+            </h3>
+            <HelpButton
+              content={
+                <HelpContent
+                  description="Choose how new trade orders are submitted to Alpaca by default."
+                  tips={[
+                    "Market orders fill immediately at the best available price",
+                    "Limit orders protect against poor fills in illiquid stocks",
+                    "You can change the order type on each order before approving"
+                  ]}
+                />
+              }
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Defaults applied when the Portfolio Manager creates trade orders.
+          </p>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Default Order Type */}
+            <div className="space-y-2">
+              <LabelWithHelp
+                htmlFor="default-order-type"
+                label="Default Order Type"
+                helpContent={
+                  <HelpContent
+                    description="Order type attached to new trade orders."
+                    tips={[
+                      "Market: fills at the current price",
+                      "Limit: never pays more (BUY) or receives less (SELL) than the limit price",
+                      "Limit orders may not fill if the price moves away"
+                    ]}
+                  />
+                }
+                className="text-sm"
+              />
+              <Select value={defaultOrderType} onValueChange={setDefaultOrderType}>
+                <SelectTrigger id="default-order-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="market">Market</SelectItem>
+                  <SelectItem value="limit">Limit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Default Time in Force */}
+            <div className="space-y-2">
+              <LabelWithHelp
+                htmlFor="default-time-in-force"
+                label="Default Time in Force"
+                helpContent={
+                  <HelpContent
+                    description="How long an unfilled order stays open."
+                    tips={[
+                      "Day: canceled at market close if not filled",
+                      "Good Till Canceled: stays open until filled or canceled",
+                      "Crypto orders always use Good Till Canceled"
+                    ]}
+                  />
+                }
+                className="text-sm"
+              />
+              <Select value={defaultTimeInForce} onValueChange={setDefaultTimeInForce}>
+                <SelectTrigger id="default-time-in-force">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Day</SelectItem>
+                  <SelectItem value="gtc">Good Till Canceled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {defaultOrderType === 'limit' && (
+            <div className="space-y-2">
+              <LabelWithHelp
+                htmlFor="limit-order-offset"
+                label={`Limit Price Offset: ${limitOrderOffset}%`}
+                helpContent={
+                  <HelpContent
+                    description="How far from the current price the default limit price is set."
+                    tips={[
+                      "BUY limit = current price + offset",
+                      "SELL limit = current price - offset",
+                      "Larger offsets fill more reliably but at worse prices"
+                    ]}
+                  />
+                }
+                className="text-sm"
+              />
+              <Slider
+                id="limit-order-offset"
+                min={0}
+                max={5}
+                step={0.1}
+                value={[limitOrderOffset]}
+                onValueChange={(value) => setLimitOrderOffset(Number(value[0].toFixed(1)))}
+                className="w-full"
+              />
+              <p className="text-xs text-muted-foreground">
+                Distance from the current price used for default limit prices
+              </p>
+            </div>
+          )}
+
+          {/* Exit Orders */}
+          <div className="space-y-2">
+            <LabelWithHelp
+              htmlFor="exit-order-mode"
+              label="Exit Orders for Buys"
+              helpContent={
+                <HelpContent
+                  description="Automatically protect new positions with a take-profit and stop-loss based on your Profit Target and Stop Loss."
+                  tips={[
+                    "Bracket: exits are attached to the buy order and activate when it fills",
+                    "OCO: a take-profit/stop-loss pair is placed after the buy fills - when one executes the other is canceled",
+                    "Exits use whole shares only and are not available for crypto"
+                  ]}
+                />
+              }
+              className="text-sm"
+            />
+            <Select value={exitOrderMode} onValueChange={setExitOrderMode}>
+              <SelectTrigger id="exit-order-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="bracket">Bracket Order</SelectItem>
+                <SelectItem value="oco">OCO After Fill</SelectItem>
+              </SelectContent>
+            </Select>
+            {exitOrderMode !== 'none' && (
+              <p className="text-xs text-muted-foreground">
+                Take profit at +{profitTarget}% and stop loss at -{stopLoss}% from the entry price
+              </p>
+            )}
+          </div>
+
+          {/* Tax Lot Method */}
+          <div className="space-y-2">
+            <LabelWithHelp
+              htmlFor="tax-lot-method"
+              label="Tax Lot Method"
+              helpContent={
+                <HelpContent
+                  description="How sells are matched against your purchase lots when estimating realized gains and holding periods."
+                  tips={[
+                    "FIFO: the oldest shares are sold first (Alpaca's default)",
+                    "LIFO: the most recently bought shares are sold first",
+                    "Specific ID: sells use the lots recorded on the order, falling back to FIFO",
+                    "Should match the method configured on your brokerage account"
+                  ]}
+                />
+              }
+              className="text-sm"
+            />
+            <Select value={taxLotMethod} onValueChange={setTaxLotMethod}>
+              <SelectTrigger id="tax-lot-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(TAX_LOT_METHOD).map(method => (
+                  <SelectItem key={method} value={method}>{TAX_LOT_METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         {/* Paper Trading Credentials */}
         <div className="space-y-4 p-4 border rounded-lg bg-card">
           <div className="flex items-center gap-2">
@@ -761,6 +1057,9 @@ export default function TradingTab({
           </div>
         </div>
 
+        {/* Named Broker Accounts */}
+        <BrokerAccountsSection canUseLiveTrading={canUseLiveTrading} />
+
         {/* Save and Clear Buttons for Trading Tab */}
         <div className="flex flex-col sm:flex-row gap-3 sm:justify-between pt-4">
           {handleClearTrading && (
@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ArrowDown, ArrowUp, Lock } from "lucide-react";
+import { HelpButton } from "@/components/ui/help-button";
+import {
+  MOVABLE_PHASES,
+  WORKFLOW_PHASE_DEFINITIONS,
+  toEditableWorkflowConfig,
+  validateWorkflowGraphConfig,
+  type WorkflowGraphConfig,
+  type WorkflowPhaseId
+} from "@/lib/workflowGraph";
+
+interface WorkflowGraphSectionProps {
+  workflowConfig: WorkflowGraphConfig;
+  setWorkflowConfig: (config: WorkflowGraphConfig) => void;
+  hasAgentConfigAccess: boolean;
+}
+
+// Phase order and enabled agents used for new analyses
+export default function WorkflowGraphSection({
+  workflowConfig,
+  setWorkflowConfig,
+  hasAgentConfigAccess
+}: WorkflowGraphSectionProps) {
+  const editable = toEditableWorkflowConfig(workflowConfig);
+  const validationErrors = validateWorkflowGraphConfig(editable);
+
+  const updatePhase = (phaseId: string, update: (phase: typeof editable.phases[number]) => typeof editable.phases[number]) => {
+    setWorkflowConfig({
+      phases: editable.phases.map(phase => phase.id === phaseId ? update(phase) : phase)
+    });
+  };
+
+  const canMove = (index: number, direction: -1 | 1) =>
+    MOVABLE_PHASES.includes(editable.phases[index].id as WorkflowPhaseId) &&
+    MOVABLE_PHASES.includes(editable.phases[index + direction]?.id as WorkflowPhaseId);
+
+  const movePhase = (index: number, direction: -1 | 1) => {
+    if (!canMove(index, direction)) return;
+    const phases = [...editable.phases];
+    [phases[index], phases[index + direction]] = [phases[index + direction], phases[index]];
+    setWorkflowConfig({ phases });
+  };
+
+  const setAgentEnabled = (phaseId: string, functionName: string, enabled: boolean) => {
+    updatePhase(phaseId, phase => ({
+      ...phase,
+      agents: (phase.agents || []).map(a => a.functionName === functionName ? { ...a, enabled } : a)
+    }));
+  };
+
+  return (
+    <div className={`space-y-4 p-4 border rounded-lg bg-card ${!hasAgentConfigAccess ? 'opacity-50' : ''}`}>
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        Workflow
+        {!hasAgentConfigAccess && <Lock className="h-4 w-4 text-muted-foreground" />}
+        <HelpButton content="Choose which analysts take part and the order of the phases. Changes apply to analyses started after saving; running analyses keep the workflow they started with." />
+      </h3>
+
+      <div className="space-y-3">
+        {editable.phases.map((phase, index) => {
+          const definition = WORKFLOW_PHASE_DEFINITIONS[phase.id as WorkflowPhaseId];
+          const phaseEnabled = phase.enabled !== false;
+
+          return (
+            <div key={phase.id} className="p-3 border rounded-md space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {index + 1}. {definition.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{definition.description}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {definition.optional && (
+                    <Switch
+                      checked={phaseEnabled}
+                      onCheckedChange={(checked) => updatePhase(phase.id, p => ({ ...p, enabled: checked }))}
+                      disabled={!hasAgentConfigAccess}
+                    />
+                  )}
+                  {MOVABLE_PHASES.includes(phase.id as WorkflowPhaseId) && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => movePhase(index, -1)}
+                        disabled={!hasAgentConfigAccess || !canMove(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => movePhase(index, 1)}
+                        disabled={!hasAgentConfigAccess || !canMove(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {phaseEnabled && definition.agents.length > 1 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {definition.agents.map(agentDefinition => {
+                    const agentConfig = (phase.agents || []).find(a => a.functionName === agentDefinition.functionName);
+                    const switchId = `workflow-${agentDefinition.functionName}`;
+                    return (
+                      <div key={agentDefinition.functionName} className="flex items-center gap-2">
+                        <Switch
+                          id={switchId}
+                          checked={agentConfig?.enabled !== false}
+                          onCheckedChange={(checked) => setAgentEnabled(phase.id, agentDefinition.functionName, checked)}
+                          disabled={!hasAgentConfigAccess || agentDefinition.required}
+                        />
+                        <Label htmlFor={switchId} className="text-sm">
+                          {agentDefinition.displayName}
+                          {agentDefinition.required && <span className="text-muted-foreground"> (required)</span>}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {validationErrors.map(error => (
+        <p key={error} className="text-sm text-red-500">{error}</p>
+      ))}
+    </div>
+  );
+}
@@ -1,10 +1,25 @@
 // Shared types and interfaces for Settings components
 
+import type { AIUsageTotals } from "@/lib/aiBudget";
+import type { WorkflowGraphConfig } from "@/lib/workflowGraph";
+import type { ExposureLimit } from "@/lib/assetClassification";
+import type { IndicatorSetKey } from "@/lib/technicalIndicators";
+
 export interface AiProvider {
   id: string;
   nickname: string;
   provider: string;
   apiKey: string;
+  baseUrl?: string; // Only used by the openai-compatible provider
+}
+
+// Editable row of the model price table (USD per 1M tokens)
+export interface ModelPriceOverride {
+  id: string;
+  model: string;
+  input: string;
+  cachedInput: string;
+  output: string;
 }
 
 export interface ProviderInfo {
@@ -21,7 +36,7 @@ export interface ProvidersTabProps {
   saved: boolean;
   activeTab: string;
   isSaving: boolean;
-  updateAiProvider: (id: string, field: 'nickname' | 'provider' | 'apiKey', value: string) => void;
+  updateAiProvider: (id: string, field: 'nickname' | 'provider' | 'apiKey' | 'baseUrl', value: string) => void;
   setDefaultAiModel: (model: string) => void;
   setDefaultCustomModel: (model: string) => void;
   toggleShowKey: (key: string) => void;
@@ -31,11 +46,23 @@ export interface ProvidersTabProps {
   handleClearProviders?: () => void;
   getModelOptions: (provider: string) => string[];
   hasAdditionalProviderAccess?: boolean;
+  modelPrices: ModelPriceOverride[];
+  addModelPrice: () => void;
+  updateModelPrice: (id: string, field: 'model' | 'input' | 'cachedInput' | 'output', value: string) => void;
+  removeModelPrice: (id: string) => void;
+  aiBudgetPeriod: string;
+  setAiBudgetPeriod: (period: string) => void;
+  aiBudgetUsd: string;
+  setAiBudgetUsd: (value: string) => void;
+  aiBudgetTokens: string;
+  setAiBudgetTokens: (value: string) => void;
+  aiBudgetUsage?: AIUsageTotals | null;
 }
 
 export interface AgentsTabProps {
   aiProviders: AiProvider[];
   researchDebateRounds: number;
+  workflowConfig: WorkflowGraphConfig;
   analysisTeamProviderId: string;
   analysisTeamModel: string;
   analysisCustomModel: string;
@@ -54,6 +81,7 @@ export interface AgentsTabProps {
   analysisOptimization: string;
   analysisSearchSources: number;
   analysisHistoryDays: string;
+  analysisIndicators: IndicatorSetKey[];
   analysisMaxTokens: number;
   researchMaxTokens: number;
   tradingMaxTokens: number;
@@ -65,6 +93,7 @@ export interface AgentsTabProps {
   activeTab: string;
   isSaving: boolean;
   setResearchDebateRounds: (rounds: number) => void;
+  setWorkflowConfig: (config: WorkflowGraphConfig) => void;
   setAnalysisTeamProviderId: (id: string) => void;
   setAnalysisTeamModel: (model: string) => void;
   setAnalysisCustomModel: (model: string) => void;
@@ -83,6 +112,7 @@ export interface AgentsTabProps {
   setAnalysisOptimization: (opt: string) => void;
   setAnalysisSearchSources: (sources: number) => void;
   setAnalysisHistoryDays: (days: string) => void;
+  setAnalysisIndicators: (indicators: IndicatorSetKey[]) => void;
   setAnalysisMaxTokens: (tokens: number) => void;
   setResearchMaxTokens: (tokens: number) => void;
   setTradingMaxTokens: (tokens: number) => void;
@@ -97,10 +127,13 @@ export interface AgentsTabProps {
 
 export interface RebalanceTabProps {
   aiProviders: AiProvider[];
+  accountName?: string | null;   // named broker account whose limits are being edited; null for the main account
   rebalanceThreshold: number;
   rebalanceMinPositionSize: number;
   rebalanceMaxPositionSize: number;
   nearPositionThreshold: number;
+  rebalanceTaxAware: boolean;
+  rebalanceExposureLimits: ExposureLimit[];
   targetStockAllocation: number;
   targetCashAllocation: number;
   opportunityAgentProviderId: string;
@@ -118,6 +151,8 @@ export interface RebalanceTabProps {
   setRebalanceMinPositionSize: (size: number) => void;
   setRebalanceMaxPositionSize: (size: number) => void;
   setNearPositionThreshold: (threshold: number) => void;
+  setRebalanceTaxAware: (enabled: boolean) => void;
+  setRebalanceExposureLimits: (limits: ExposureLimit[]) => void;
   setTargetStockAllocation: (allocation: number) => void;
   setTargetCashAllocation: (allocation: number) => void;
   setOpportunityAgentProviderId: (id: string) => void;
@@ -146,6 +181,15 @@ export interface TradingTabProps {
   profitTarget: number;
   stopLoss: number;
   nearLimitThreshold: number;
+  defaultOrderType: string;
+  defaultTimeInForce: string;
+  limitOrderOffset: number;
+  exitOrderMode: string;
+  taxLotMethod: string;
+  simulatedTrading: boolean;
+  simulatedStartingCash: number;
+  simulatedSlippageBps: number;
+  simulatedCommission: number;
   configuredProviders: Record<string, boolean>;
   showKeys: Record<string, boolean>;
   saved: boolean;
@@ -163,9 +207,19 @@ export interface TradingTabProps {
   setProfitTarget: (target: number) => void;
   setStopLoss: (loss: number) => void;
   setNearLimitThreshold: (threshold: number) => void;
+  setDefaultOrderType: (type: string) => void;
+  setDefaultTimeInForce: (tif: string) => void;
+  setLimitOrderOffset: (offset: number) => void;
+  setExitOrderMode: (mode: string) => void;
+  setTaxLotMethod: (method: string) => void;
+  setSimulatedTrading: (enabled: boolean) => void;
+  setSimulatedStartingCash: (amount: number) => void;
+  setSimulatedSlippageBps: (bps: number) => void;
+  setSimulatedCommission: (amount: number) => void;
   toggleShowKey: (key: string) => void;
   handleSaveTab: (tab: string) => void;
   handleClearTrading?: () => void;
+  handleResetSimulator?: () => void;
   canUseLiveTrading?: boolean;
   canUseAutoTrading?: boolean;
   canUseNearLimitAnalysis?: boolean;
@@ -38,6 +38,9 @@ no_verify_jwt_functions=(
   "discord-role-sync"
   "stripe-webhook"
   "create-smart-session"
+  "run-backtest"
+  "trade-approval"
+  "export-data"
 )
 
 echo "📦 Deploying functions with --no-verify-jwt flag..."
@@ -51,6 +54,8 @@ standard_functions=(
   "process-scheduled-rebalances"
   "detect-stale-analysis"
   "auto-near-limit-analysis"
+  "score-analysis-decisions"
+  "place-exit-orders"
 )
 
 echo "📦 Deploying functions with standard JWT verification..."
@@ -66,6 +71,7 @@ agents=(
   "agent-news-analyst"
   "agent-social-media-analyst"
   "agent-fundamentals-analyst"
+  "agent-custom-analyst"
   "agent-bull-researcher"
   "agent-bear-researcher"
   "agent-research-manager"
@@ -0,0 +1,89 @@
+/**
+ * Agent Configuration Snapshot
+ *
+ * The models and workflow settings an analysis ran with. Stored in
+ * analysis_history.metadata.agent_config when the analysis is created, so
+ * outcomes can still be grouped by configuration after the user changes
+ * their settings (see backtest.ts).
+ */
+
+export interface AgentConfigSnapshot {
+  default_model: string | null;
+  analysis_model: string | null;
+  research_model: string | null;
+  trading_model: string | null;
+  risk_model: string | null;
+  portfolio_manager_model: string | null;
+  research_debate_rounds: number | null;
+  analysis_optimization: string | null;
+}
+
+const modelOrNull = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+/**
+ * Captures the effective model per team; teams without their own model use the default
+ */
+export function buildAgentConfigSnapshot(settings: Record<string, any>): AgentConfigSnapshot {
+  const defaultModel = modelOrNull(settings.ai_model);
+
+  return {
+    default_model: defaultModel,
+    analysis_model: modelOrNull(settings.analysis_team_model) ?? defaultModel,
+    research_model: modelOrNull(settings.research_team_model) ?? defaultModel,
+    trading_model: modelOrNull(settings.trading_team_model) ?? defaultModel,
+    risk_model: modelOrNull(settings.risk_team_model) ?? defaultModel,
+    portfolio_manager_model: modelOrNull(settings.portfolio_manager_model) ?? defaultModel,
+    research_debate_rounds: typeof settings.research_debate_rounds === 'number' ? settings.research_debate_rounds : null,
+    analysis_optimization: modelOrNull(settings.analysis_optimization)
+  };
+}
+
+/**
+ * Stable key for grouping analyses that ran with the same configuration
+ */
+export function getAgentConfigKey(snapshot: AgentConfigSnapshot | null | undefined): string {
+  if (!snapshot) return 'unrecorded';
+
+  return [
+    snapshot.analysis_model,
+    snapshot.research_model,
+    snapshot.trading_model,
+    snapshot.risk_model,
+    snapshot.portfolio_manager_model,
+    snapshot.research_debate_rounds,
+    snapshot.analysis_optimization
+  ].map(value => value ?? '-').join('|');
+}
+
+/**
+ * Short human-readable label, e.g. "gpt-4.1 · research: claude-sonnet-4 · 2 debate rounds"
+ */
+export function describeAgentConfig(snapshot: AgentConfigSnapshot | null | undefined): string {
+  if (!snapshot) return 'Unrecorded configuration';
+
+  const base = snapshot.default_model ?? snapshot.analysis_model ?? 'unknown model';
+  const parts = [base];
+  const teams: Array<[string, string | null]> = [
+    ['analysis', snapshot.analysis_model],
+    ['research', snapshot.research_model],
+    ['trading', snapshot.trading_model],
+    ['risk', snapshot.risk_model],
+    ['portfolio', snapshot.portfolio_manager_model]
+  ];
+
+  for (const [team, model] of teams) {
+    if (model && model !== base) {
+      parts.push(`${team}: ${model}`);
+    }
+  }
+
+  if (snapshot.research_debate_rounds !== null) {
+    parts.push(`${snapshot.research_debate_rounds} debate round${snapshot.research_debate_rounds === 1 ? '' : 's'}`);
+  }
+  if (snapshot.analysis_optimization) {
+    parts.push(snapshot.analysis_optimization);
+  }
+
+  return parts.join(' · ');
+}
@@ -0,0 +1,271 @@
+/**
+ * AI Spend Budget
+ *
+ * Per-user daily or monthly cap on estimated AI spend (USD) and/or tokens,
+ * configured in api_settings (ai_budget_period, ai_budget_usd, ai_budget_tokens).
+ * Spend is summed from ai_usage_events (see aiUsage.ts). Coordinators check the
+ * budget before starting a workflow and at phase boundaries; scheduled jobs
+ * skip their run when the budget is exhausted. A run is refused when the spend
+ * so far plus the average cost of the user's recent runs would pass a cap.
+ */
+
+import { ANALYSIS_STATUS, REBALANCE_STATUS } from './statusTypes.ts';
+
+export const AI_BUDGET_PERIOD = {
+  NONE: 'none' as const,
+  DAILY: 'daily' as const,
+  MONTHLY: 'monthly' as const
+} as const;
+
+export type AIBudgetPeriod = typeof AI_BUDGET_PERIOD[keyof typeof AI_BUDGET_PERIOD];
+
+export const AI_BUDGET_RUN = {
+  ANALYSIS: 'analysis' as const,
+  REBALANCE: 'rebalance' as const
+} as const;
+
+export type AIBudgetRun = typeof AI_BUDGET_RUN[keyof typeof AI_BUDGET_RUN];
+
+// Completed runs averaged for the cost of the next one
+export const RECENT_RUNS_FOR_ESTIMATE = 10;
+
+export interface AIBudgetSettings {
+  ai_budget_period?: string | null;
+  ai_budget_usd?: number | string | null;
+  ai_budget_tokens?: number | string | null;
+}
+
+export interface AIBudgetCheckOptions {
+  run?: AIBudgetRun;       // Kind of workflow about to spend (default: analysis)
+  runId?: string | null;   // In-progress analysis / rebalance whose spend already counts
+}
+
+export interface AIBudgetStatus {
+  enabled: boolean;
+  exceeded: boolean;
+  period: AIBudgetPeriod;
+  periodStart: string | null;
+  resetsAt: string | null;
+  spentUsd: number;
+  spentTokens: number;
+  estimatedRunUsd: number;
+  estimatedRunTokens: number;
+  limitUsd: number | null;
+  limitTokens: number | null;
+  reason: string | null;
+}
+
+export function isValidAIBudgetPeriod(period: unknown): period is AIBudgetPeriod {
+  return typeof period === 'string' && Object.values(AI_BUDGET_PERIOD).includes(period as AIBudgetPeriod);
+}
+
+/**
+ * Current budget window in UTC: the calendar day or calendar month containing `now`
+ */
+export function getBudgetPeriodBounds(
+  period: AIBudgetPeriod,
+  now: Date = new Date()
+): { start: Date; end: Date } | null {
+  if (period === AI_BUDGET_PERIOD.DAILY) {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    return { start, end };
+  }
+  if (period === AI_BUDGET_PERIOD.MONTHLY) {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    return { start, end };
+  }
+  return null;
+}
+
+const toLimit = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+};
+
+// analysis_history / rebalance_requests ai_usage roll-up, maintained by record_ai_usage
+interface AIUsageRollup {
+  cost_usd?: number | string | null;
+  total_tokens?: number | string | null;
+}
+
+const toUsageTotals = (usage: AIUsageRollup | null | undefined): { costUsd: number; tokens: number } => ({
+  costUsd: Number(usage?.cost_usd) || 0,
+  tokens: Number(usage?.total_tokens) || 0
+});
+
+/**
+ * Expected spend of the rest of a run: the average of the user's recent
+ * completed runs of the same kind, less what the in-progress run has already
+ * spent. Zero when there is no history yet.
+ */
+export async function estimateAIRunUsage(
+  supabase: any,
+  userId: string,
+  options: AIBudgetCheckOptions = {}
+): Promise<{ costUsd: number; tokens: number }> {
+  const isRebalance = options.run === AI_BUDGET_RUN.REBALANCE;
+  const table = isRebalance ? 'rebalance_requests' : 'analysis_history';
+
+  let query = supabase
+    .from(table)
+    .select('ai_usage')
+    .eq('user_id', userId)
+    .not('ai_usage', 'is', null);
+
+  query = isRebalance
+    ? query.eq('status', REBALANCE_STATUS.COMPLETED)
+    : query.eq('analysis_status', ANALYSIS_STATUS.COMPLETED);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(RECENT_RUNS_FOR_ESTIMATE);
+
+  if (error) {
+    console.error('⚠️ Failed to load recent AI run costs:', error);
+    return { costUsd: 0, tokens: 0 };
+  }
+
+  const runs = (data || []).map((row: { ai_usage: AIUsageRollup | null }) => toUsageTotals(row.ai_usage));
+  if (runs.length === 0) {
+    return { costUsd: 0, tokens: 0 };
+  }
+
+  let costUsd = runs.reduce((sum: number, run: { costUsd: number }) => sum + run.costUsd, 0) / runs.length;
+  let tokens = runs.reduce((sum: number, run: { tokens: number }) => sum + run.tokens, 0) / runs.length;
+
+  if (options.runId) {
+    const { data: current } = await supabase
+      .from(table)
+      .select('ai_usage')
+      .eq('id', options.runId)
+      .maybeSingle();
+
+    const spent = toUsageTotals(current?.ai_usage);
+    costUsd = Math.max(0, costUsd - spent.costUsd);
+    tokens = Math.max(0, tokens - spent.tokens);
+  }
+
+  return { costUsd, tokens: Math.round(tokens) };
+}
+
+/**
+ * Compares the user's spend in the current period plus the estimated cost of
+ * the run against their caps. Lookup failures fail open: accounting problems
+ * must not block trading workflows.
+ */
+export async function checkAIBudget(
+  supabase: any,
+  userId: string,
+  settings: AIBudgetSettings | null | undefined,
+  options: AIBudgetCheckOptions = {},
+  now: Date = new Date()
+): Promise<AIBudgetStatus> {
+  const period = isValidAIBudgetPeriod(settings?.ai_budget_period) ? settings!.ai_budget_period as AIBudgetPeriod : AI_BUDGET_PERIOD.NONE;
+  const limitUsd = toLimit(settings?.ai_budget_usd);
+  const limitTokens = toLimit(settings?.ai_budget_tokens);
+  const bounds = getBudgetPeriodBounds(period, now);
+
+  const status: AIBudgetStatus = {
+    enabled: !!bounds && (limitUsd !== null || limitTokens !== null),
+    exceeded: false,
+    period,
+    periodStart: bounds?.start.toISOString() ?? null,
+    resetsAt: bounds?.end.toISOString() ?? null,
+    spentUsd: 0,
+    spentTokens: 0,
+    estimatedRunUsd: 0,
+    estimatedRunTokens: 0,
+    limitUsd,
+    limitTokens,
+    reason: null
+  };
+
+  if (!status.enabled || !bounds) {
+    return status;
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('get_ai_usage_summary', {
+      p_user_id: userId,
+      p_since: bounds.start.toISOString()
+    });
+
+    if (error) {
+      console.error('⚠️ Failed to load AI usage for budget check:', error);
+      return status;
+    }
+
+    const summary = Array.isArray(data) ? data[0] : data;
+    status.spentUsd = Number(summary?.cost_usd) || 0;
+    status.spentTokens = Number(summary?.total_tokens) || 0;
+
+    const estimate = await estimateAIRunUsage(supabase, userId, options);
+    status.estimatedRunUsd = estimate.costUsd;
+    status.estimatedRunTokens = estimate.tokens;
+  } catch (error) {
+    console.error('⚠️ Failed to load AI usage for budget check:', error);
+    return status;
+  }
+
+  const periodLabel = period === AI_BUDGET_PERIOD.DAILY ? 'daily' : 'monthly';
+  const run = options.run ?? AI_BUDGET_RUN.ANALYSIS;
+
+  if (limitUsd !== null && status.spentUsd >= limitUsd) {
+    status.exceeded = true;
+    status.reason = `AI ${periodLabel} budget reached: $${status.spentUsd.toFixed(2)} of $${limitUsd.toFixed(2)} spent. Resets ${status.resetsAt}`;
+  } else if (limitTokens !== null && status.spentTokens >= limitTokens) {
+    status.exceeded = true;
+    status.reason = `AI ${periodLabel} token budget reached: ${status.spentTokens.toLocaleString()} of ${limitTokens.toLocaleString()} tokens used. Resets ${status.resetsAt}`;
+  } else if (limitUsd !== null && status.spentUsd + status.estimatedRunUsd > limitUsd) {
+    status.exceeded = true;
+    status.reason = `AI ${periodLabel} budget would be exceeded: $${status.spentUsd.toFixed(2)} spent plus ~$${status.estimatedRunUsd.toFixed(2)} for this ${run} is over $${limitUsd.toFixed(2)}. Resets ${status.resetsAt}`;
+  } else if (limitTokens !== null && status.spentTokens + status.estimatedRunTokens > limitTokens) {
+    status.exceeded = true;
+    status.reason = `AI ${periodLabel} token budget would be exceeded: ${status.spentTokens.toLocaleString()} tokens used plus ~${status.estimatedRunTokens.toLocaleString()} for this ${run} is over ${limitTokens.toLocaleString()}. Resets ${status.resetsAt}`;
+  }
+
+  return status;
+}
+
+/**
+ * Loads the user's budget settings and checks them
+ */
+export async function checkAIBudgetForUser(
+  supabase: any,
+  userId: string,
+  options: AIBudgetCheckOptions = {}
+): Promise<AIBudgetStatus> {
+  const { data: settings, error } = await supabase
+    .from('api_settings')
+    .select('ai_budget_period, ai_budget_usd, ai_budget_tokens')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('⚠️ Failed to load AI budget settings:', error);
+  }
+
+  return await checkAIBudget(supabase, userId, settings, options);
+}
+
+/**
+ * Snapshot stored with a paused workflow or skipped run
+ */
+export function toBudgetDetails(status: AIBudgetStatus, extra: Record<string, unknown> = {}) {
+  return {
+    budget_exceeded: true,
+    reason: status.reason,
+    period: status.period,
+    spent_usd: Math.round(status.spentUsd * 100) / 100,
+    spent_tokens: status.spentTokens,
+    estimated_run_usd: Math.round(status.estimatedRunUsd * 100) / 100,
+    estimated_run_tokens: status.estimatedRunTokens,
+    limit_usd: status.limitUsd,
+    limit_tokens: status.limitTokens,
+    resets_at: status.resetsAt,
+    ...extra
+  };
+}
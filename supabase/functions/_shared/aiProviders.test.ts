@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { callAIProviderWithStructuredOutput } from './aiProviders.ts';
+import { AGENT_OUTPUT_SCHEMAS } from './structuredOutput.ts';
+
+const apiSettings = {
+  ai_provider: 'openai-compatible',
+  ai_api_key: 'test-key',
+  ai_model: 'llama3',
+  ai_base_url: 'http://localhost:11434/v1'
+};
+
+const streamResponse = (content: string) => {
+  const chunk = { choices: [{ delta: { content } }] };
+  return new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' }
+  });
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('callAIProviderWithStructuredOutput', () => {
+  it('retries without the response schema when an OpenAI-compatible server rejects it', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('response_format json_schema is not supported', { status: 400 }))
+      .mockResolvedValueOnce(streamResponse('Plain JSON answer'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await callAIProviderWithStructuredOutput(
+      apiSettings,
+      'Analyse AAPL',
+      'You are an analyst.',
+      AGENT_OUTPUT_SCHEMAS.ANALYST_REPORT,
+      500,
+      1
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [firstUrl, firstInit] = fetchMock.mock.calls[0];
+    const [, secondInit] = fetchMock.mock.calls[1];
+    expect(firstUrl).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(firstInit.body).response_format?.type).toBe('json_schema');
+    expect(JSON.parse(secondInit.body)).not.toHaveProperty('response_format');
+    expect(result.raw).toBe('Plain JSON answer');
+  });
+
+  it('does not retry without the schema on other errors', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fetchMock = vi.fn().mockResolvedValue(new Response('unauthorized', { status: 401 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(callAIProviderWithStructuredOutput(
+      apiSettings,
+      'Analyse AAPL',
+      'You are an analyst.',
+      AGENT_OUTPUT_SCHEMAS.ANALYST_REPORT,
+      500,
+      1
+    )).rejects.toThrow('OpenAI-compatible API error: 401');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,11 +2,51 @@
  * Shared AI provider utilities for all agents
  */
 
+import {
+  type AIProviderResult,
+  type AITokenUsage,
+  createEmptyTokenUsage,
+  estimateTokenCount,
+  extractUsageFromStreamPayload,
+  mergeTokenUsage
+} from './aiUsage.ts';
+import {
+  type AgentOutputSchema,
+  buildStructuredOutputInstructions,
+  parseStructuredResponse,
+  toGeminiSchema,
+  toStandardJsonSchema
+} from './structuredOutput.ts';
+
 const DEFAULT_STREAM_TIMEOUT_MS = 175000;
 
 interface AIStreamOptions {
   onToken?: (chunk: string) => void;
+  onUsage?: (usage: Partial<AITokenUsage>) => void;
   timeoutMs?: number;
+  // Ask the provider for JSON matching this schema (response_format, tool calling or responseSchema)
+  responseSchema?: AgentOutputSchema;
+}
+
+export interface StructuredAIProviderResult<T> extends AIProviderResult {
+  // Validated response, or null when the caller has to fall back to parsing text
+  data: T | null;
+  // Unparsed provider output
+  raw: string;
+}
+
+// Provider HTTP failures carry the status so callers need not parse the message
+function providerHttpError(message: string, status: number): Error & { status: number } {
+  return Object.assign(new Error(message), { status });
+}
+
+// Forwards token counts found in a streamed chunk to the caller
+function reportStreamUsage(payload: unknown, options: AIStreamOptions) {
+  if (!options.onUsage) return;
+  const usage = extractUsageFromStreamPayload(payload);
+  if (usage) {
+    options.onUsage(usage);
+  }
 }
 
 // Helper function to create an AbortController with timeout
@@ -22,6 +62,60 @@ export async function callAIProvider(
   systemPrompt?: string,
   maxTokens?: number,
   options: AIStreamOptions = {}
+): Promise<string> {
+  const result = await callAIProviderWithUsage(apiSettings, prompt, systemPrompt, maxTokens, options);
+  return result.text;
+}
+
+/**
+ * Same as callAIProvider, but also returns the token usage and latency of the call.
+ * Token counts are estimated from the text when the provider does not report them.
+ */
+export async function callAIProviderWithUsage(
+  apiSettings: any,
+  prompt: string,
+  systemPrompt?: string,
+  maxTokens?: number,
+  options: AIStreamOptions = {}
+): Promise<AIProviderResult> {
+  const startedAt = Date.now();
+  let tokenUsage = createEmptyTokenUsage();
+  let usageReported = false;
+
+  const text = await dispatchAIProvider(apiSettings, prompt, systemPrompt, maxTokens, {
+    ...options,
+    onUsage: (usage) => {
+      tokenUsage = mergeTokenUsage(tokenUsage, usage);
+      usageReported = true;
+      options.onUsage?.(usage);
+    }
+  });
+
+  if (!usageReported) {
+    tokenUsage = mergeTokenUsage(tokenUsage, {
+      prompt_tokens: estimateTokenCount(`${systemPrompt || ''}${prompt}`),
+      completion_tokens: estimateTokenCount(text)
+    });
+  }
+
+  return {
+    text,
+    usage: {
+      ...tokenUsage,
+      provider: apiSettings.ai_provider,
+      model: apiSettings.ai_model || 'default',
+      latency_ms: Date.now() - startedAt,
+      estimated: !usageReported
+    }
+  };
+}
+
+async function dispatchAIProvider(
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxTokens: number | undefined,
+  options: AIStreamOptions
 ): Promise<string> {
   try {
     // Validate API key exists
@@ -34,22 +128,27 @@ export async function callAIProvider(
 
     const mergedOptions: AIStreamOptions = {
       timeoutMs: options.timeoutMs ?? DEFAULT_STREAM_TIMEOUT_MS,
-      onToken: options.onToken
+      onToken: options.onToken,
+      onUsage: options.onUsage,
+      responseSchema: options.responseSchema
     };
 
-    switch (apiSettings.ai_provider) {
-      case 'openai':
-        return await callOpenAI(prompt, apiSettings, systemPrompt, tokens, mergedOptions);
-      case 'anthropic':
-        return await callAnthropic(prompt, apiSettings, systemPrompt, tokens, mergedOptions);
-      case 'openrouter':
-        return await callOpenRouter(prompt, apiSettings, systemPrompt, tokens, mergedOptions);
-      case 'deepseek':
-        return await callDeepSeek(prompt, apiSettings, systemPrompt, tokens, mergedOptions);
-      case 'google':
-        return await callGoogle(prompt, apiSettings, systemPrompt, tokens, mergedOptions);
-      default:
-        throw new Error(`Unsupported AI provider: ${apiSettings.ai_provider}`);
+    if (!mergedOptions.responseSchema) {
+      return await routeToProvider(apiSettings, prompt, systemPrompt, tokens, mergedOptions);
+    }
+
+    try {
+      return await routeToProvider(apiSettings, prompt, systemPrompt, tokens, mergedOptions);
+    } catch (error: any) {
+      // Some models reject native structured output; the prompt still asks for JSON
+      if (error?.status !== 400 && error?.status !== 422) {
+        throw error;
+      }
+      console.warn(`⚠️ ${apiSettings.ai_provider} rejected the ${mergedOptions.responseSchema.name} response schema. Retrying without native structured output.`);
+      return await routeToProvider(apiSettings, prompt, systemPrompt, tokens, {
+        ...mergedOptions,
+        responseSchema: undefined
+      });
     }
   } catch (error) {
     console.error('AI provider error:', error);
@@ -57,6 +156,44 @@ export async function callAIProvider(
   }
 }
 
+async function routeToProvider(
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string | undefined,
+  tokens: number,
+  options: AIStreamOptions
+): Promise<string> {
+  switch (apiSettings.ai_provider) {
+    case 'openai':
+      return await callOpenAI(prompt, apiSettings, systemPrompt, tokens, options);
+    case 'anthropic':
+      return await callAnthropic(prompt, apiSettings, systemPrompt, tokens, options);
+    case 'openrouter':
+      return await callOpenRouter(prompt, apiSettings, systemPrompt, tokens, options);
+    case 'deepseek':
+      return await callDeepSeek(prompt, apiSettings, systemPrompt, tokens, options);
+    case 'google':
+      return await callGoogle(prompt, apiSettings, systemPrompt, tokens, options);
+    case 'openai-compatible':
+      return await callOpenAICompatible(prompt, apiSettings, systemPrompt, tokens, options);
+    default:
+      throw new Error(`Unsupported AI provider: ${apiSettings.ai_provider}`);
+  }
+}
+
+// response_format payload shared by the chat-completions style providers
+function buildJsonSchemaResponseFormat(outputSchema: AgentOutputSchema) {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: outputSchema.name,
+      description: outputSchema.description,
+      schema: toStandardJsonSchema(outputSchema.schema),
+      strict: false
+    }
+  };
+}
+
 /**
  * Call AI provider with retry logic and fallback to default provider
  * @param apiSettings - API settings including provider and keys
@@ -76,6 +213,25 @@ export async function callAIProviderWithRetry(
   agentSpecificProvider?: string,
   options: AIStreamOptions = {}
 ): Promise<string> {
+  const result = await callAIProviderWithRetryAndUsage(
+    apiSettings, prompt, systemPrompt, maxTokens, maxRetries, agentSpecificProvider, options
+  );
+  return result.text;
+}
+
+/**
+ * Same as callAIProviderWithRetry, but also returns the token usage of the successful attempt
+ * @returns The AI response text and its usage
+ */
+export async function callAIProviderWithRetryAndUsage(
+  apiSettings: any,
+  prompt: string,
+  systemPrompt?: string,
+  maxTokens?: number,
+  maxRetries: number = 3,
+  agentSpecificProvider?: string,
+  options: AIStreamOptions = {}
+): Promise<AIProviderResult> {
   let lastError: any = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
@@ -97,7 +253,8 @@ export async function callAIProviderWithRetry(
             ...apiSettings,
             ai_provider: defaultProviderConfig.provider,
             ai_model: apiSettings.ai_model,
-            ai_api_key: defaultProviderConfig.api_key ?? apiSettings.ai_api_key
+            ai_api_key: defaultProviderConfig.api_key ?? apiSettings.ai_api_key,
+            ai_base_url: defaultProviderConfig.base_url ?? null
           };
         } else if (agentProvider && !defaultProviderConfig) {
           console.warn('⚠️ No default provider configuration available for fallback. Continuing with current settings.');
@@ -105,7 +262,7 @@ export async function callAIProviderWithRetry(
       }
 
       // Try the API call
-      const response = await callAIProvider(attemptApiSettings, prompt, systemPrompt, maxTokens, options);
+      const response = await callAIProviderWithUsage(attemptApiSettings, prompt, systemPrompt, maxTokens, options);
 
       // Success - return the response
       console.log(`✅ AI call succeeded on attempt ${attempt}`);
@@ -128,6 +285,51 @@ export async function callAIProviderWithRetry(
   throw new Error(`AI call failed after ${maxRetries} attempts. Last error: ${lastError?.message || lastError}`);
 }
 
+/**
+ * Same as callAIProviderWithRetryAndUsage, but asks for JSON matching the given schema
+ * and validates it. `text` is the "analysis" field when the schema has one, so it can
+ * be stored and displayed like a plain response; `data` is null when validation fails
+ * and the caller should fall back to parsing `text`.
+ */
+export async function callAIProviderWithStructuredOutput<T>(
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string,
+  outputSchema: AgentOutputSchema,
+  maxTokens?: number,
+  maxRetries: number = 3,
+  agentSpecificProvider?: string,
+  options: AIStreamOptions = {}
+): Promise<StructuredAIProviderResult<T>> {
+  const result = await callAIProviderWithRetryAndUsage(
+    apiSettings,
+    prompt,
+    `${systemPrompt}\n\n${buildStructuredOutputInstructions(outputSchema)}`,
+    maxTokens,
+    maxRetries,
+    agentSpecificProvider,
+    { ...options, responseSchema: outputSchema }
+  );
+
+  const parsed = parseStructuredResponse<T>(result.text, outputSchema);
+  const analysis = typeof parsed.payload?.analysis === 'string' && parsed.payload.analysis.trim()
+    ? parsed.payload.analysis
+    : null;
+
+  if (parsed.data) {
+    console.log(`✅ Structured ${outputSchema.name} response validated`);
+  } else {
+    console.warn(`⚠️ Structured ${outputSchema.name} response failed validation; falling back to text parsing:`, parsed.errors.slice(0, 5));
+  }
+
+  return {
+    ...result,
+    text: analysis ?? result.text,
+    data: parsed.data,
+    raw: result.text
+  };
+}
+
 async function callOpenAI(
   prompt: string,
   apiSettings: any,
@@ -187,9 +389,14 @@ async function streamOpenAIChat(
         },
         { role: 'user', content: prompt }
       ],
-      stream: true
+      stream: true,
+      stream_options: { include_usage: true }
     };
 
+    if (options.responseSchema) {
+      payload.response_format = buildJsonSchemaResponseFormat(options.responseSchema);
+    }
+
     if (typeof temperature === 'number' && Number.isFinite(temperature)) {
       payload.temperature = temperature;
     }
@@ -214,7 +421,7 @@ async function streamOpenAIChat(
 
       if (!response.ok) {
         const error = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${error}`);
+        throw providerHttpError(`OpenAI API error: ${response.status} - ${error}`, response.status);
       }
 
       if (!response.body) {
@@ -262,6 +469,8 @@ async function streamOpenAIChat(
               continue;
             }
 
+            reportStreamUsage(payloadChunk, options);
+
             const delta = payloadChunk?.choices?.[0]?.delta;
             if (!delta) {
               continue;
@@ -393,6 +602,18 @@ async function streamOpenAIResponses(
       stream: true
     };
 
+    if (options.responseSchema) {
+      payload.text = {
+        format: {
+          type: 'json_schema',
+          name: options.responseSchema.name,
+          description: options.responseSchema.description,
+          schema: toStandardJsonSchema(options.responseSchema.schema),
+          strict: false
+        }
+      };
+    }
+
     if (typeof temperature === 'number' && Number.isFinite(temperature)) {
       payload.temperature = temperature;
     }
@@ -421,7 +642,7 @@ async function streamOpenAIResponses(
 
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+        throw providerHttpError(`OpenAI API error: ${response.status} - ${errorText}`, response.status);
       }
 
       if (!response.body) {
@@ -469,6 +690,8 @@ async function streamOpenAIResponses(
               continue;
             }
 
+            reportStreamUsage(payloadJson, options);
+
             if (payloadJson.type === 'response.error') {
               const message = payloadJson.error?.message || 'Unknown error from OpenAI stream';
               throw new Error(`OpenAI streaming error: ${message}`);
@@ -500,6 +723,7 @@ async function streamOpenAIResponses(
           }
           try {
             const payloadJson = JSON.parse(data);
+            reportStreamUsage(payloadJson, options);
             const deltaText = extractTextFromOpenAIStreamPayload(payloadJson);
             if (deltaText) {
               fullText += deltaText;
@@ -657,6 +881,24 @@ async function streamAnthropic(
 ) {
   const { controller, timeoutId } = createTimeoutController(options.timeoutMs ?? DEFAULT_STREAM_TIMEOUT_MS);
 
+  const payload: any = {
+    model: modelName,
+    messages: [{ role: 'user', content: prompt }],
+    system: systemPrompt || 'You are a financial analysis assistant specializing in stock market analysis.',
+    max_tokens: maxTokens,
+    stream: true
+  };
+
+  // Anthropic has no response_format; forcing a single tool call yields schema-shaped JSON
+  if (options.responseSchema) {
+    payload.tools = [{
+      name: options.responseSchema.name,
+      description: options.responseSchema.description,
+      input_schema: toStandardJsonSchema(options.responseSchema.schema)
+    }];
+    payload.tool_choice = { type: 'tool', name: options.responseSchema.name };
+  }
+
   const response = await fetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers: {
@@ -664,13 +906,7 @@ async function streamAnthropic(
       'x-api-key': apiSettings.ai_api_key,
       'anthropic-version': '2023-06-01'
     },
-    body: JSON.stringify({
-      model: modelName,
-      messages: [{ role: 'user', content: prompt }],
-      system: systemPrompt || 'You are a financial analysis assistant specializing in stock market analysis.',
-      max_tokens: maxTokens,
-      stream: true
-    }),
+    body: JSON.stringify(payload),
     signal: controller.signal
   });
 
@@ -680,7 +916,7 @@ async function streamAnthropic(
   try {
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+      throw providerHttpError(`Anthropic API error: ${response.status} - ${error}`, response.status);
     }
 
     if (!response.body) {
@@ -728,6 +964,8 @@ async function streamAnthropic(
             continue;
           }
 
+          reportStreamUsage(payload, options);
+
           if (payload.type === 'error') {
             const message = payload.error?.message || 'Unknown error from Anthropic stream';
             throw new Error(`Anthropic streaming error: ${message}`);
@@ -740,6 +978,15 @@ async function streamAnthropic(
               options.onToken?.(textPiece);
             }
           }
+
+          // Forced tool calls stream their arguments as partial JSON
+          if (payload.type === 'content_block_delta' && payload.delta?.type === 'input_json_delta') {
+            const jsonPiece = payload.delta.partial_json || '';
+            if (jsonPiece) {
+              fullText += jsonPiece;
+              options.onToken?.(jsonPiece);
+            }
+          }
         }
 
         boundaryIndex = buffer.indexOf('\n\n');
@@ -809,7 +1056,9 @@ async function streamOpenRouter(
       ],
       temperature: 0.7,
       max_tokens: maxTokens,
-      stream: true
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(options.responseSchema ? { response_format: buildJsonSchemaResponseFormat(options.responseSchema) } : {})
     }),
     signal: controller.signal
   });
@@ -820,7 +1069,7 @@ async function streamOpenRouter(
   try {
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+      throw providerHttpError(`OpenRouter API error: ${response.status} - ${errorText}`, response.status);
     }
 
     if (!response.body) {
@@ -868,6 +1117,8 @@ async function streamOpenRouter(
             continue;
           }
 
+          reportStreamUsage(payload, options);
+
           const delta = payload?.choices?.[0]?.delta;
           if (!delta) {
             continue;
@@ -947,7 +1198,10 @@ async function streamDeepSeek(
       ],
       temperature: 0.7,
       max_tokens: maxTokens,
-      stream: true
+      stream: true,
+      stream_options: { include_usage: true },
+      // DeepSeek only supports JSON mode; the schema itself travels in the system prompt
+      ...(options.responseSchema ? { response_format: { type: 'json_object' } } : {})
     }),
     signal: controller.signal
   });
@@ -958,7 +1212,7 @@ async function streamDeepSeek(
   try {
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`DeepSeek API error: ${response.status} - ${errorText}`);
+      throw providerHttpError(`DeepSeek API error: ${response.status} - ${errorText}`, response.status);
     }
 
     if (!response.body) {
@@ -1006,6 +1260,8 @@ async function streamDeepSeek(
             continue;
           }
 
+          reportStreamUsage(payload, options);
+
           const delta = payload?.choices?.[0]?.delta;
           if (!delta) {
             continue;
@@ -1041,6 +1297,164 @@ async function streamDeepSeek(
   throw new Error('DeepSeek streaming aborted before any content was received.');
 }
 
+/**
+ * Normalizes a user-supplied OpenAI-compatible base URL
+ * (e.g. "http://localhost:11434/v1/" or ".../v1/chat/completions" -> "http://localhost:11434/v1")
+ */
+export function normalizeOpenAICompatibleBaseUrl(baseUrl: string | null | undefined): string {
+  return (baseUrl || '')
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/chat\/completions$/, '');
+}
+
+async function callOpenAICompatible(
+  prompt: string,
+  apiSettings: any,
+  systemPrompt: string | undefined,
+  maxTokens: number,
+  options: AIStreamOptions
+) {
+  const baseUrl = normalizeOpenAICompatibleBaseUrl(apiSettings.ai_base_url);
+  if (!baseUrl) {
+    throw new Error('No base URL configured for OpenAI-compatible provider');
+  }
+
+  const modelName = apiSettings.ai_model;
+  if (!modelName) {
+    throw new Error('No model configured for OpenAI-compatible provider');
+  }
+
+  return await streamOpenAICompatible(prompt, apiSettings, systemPrompt, maxTokens, modelName, baseUrl, options);
+}
+
+async function streamOpenAICompatible(
+  prompt: string,
+  apiSettings: any,
+  systemPrompt: string | undefined,
+  maxTokens: number,
+  modelName: string,
+  baseUrl: string,
+  options: AIStreamOptions
+) {
+  const { controller, timeoutId } = createTimeoutController(options.timeoutMs ?? DEFAULT_STREAM_TIMEOUT_MS);
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiSettings.ai_api_key}`
+    },
+    body: JSON.stringify({
+      model: modelName,
+      messages: [
+        {
+          role: 'system',
+          content: systemPrompt || 'You are a financial analysis assistant specializing in stock market analysis.'
+        },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.7,
+      max_tokens: maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      ...(options.responseSchema ? { response_format: buildJsonSchemaResponseFormat(options.responseSchema) } : {})
+    }),
+    signal: controller.signal
+  });
+
+  let fullText = '';
+  let abortedByTimeout = false;
+
+  try {
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw providerHttpError(`OpenAI-compatible API error: ${response.status} (${baseUrl}) - ${errorText}`, response.status);
+    }
+
+    if (!response.body) {
+      throw new Error('OpenAI-compatible streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      // Some servers separate events with CRLF
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundaryIndex = buffer.indexOf('\n\n');
+      while (boundaryIndex !== -1) {
+        const rawEvent = buffer.slice(0, boundaryIndex);
+        buffer = buffer.slice(boundaryIndex + 2);
+
+        const lines = rawEvent.split('\n');
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          if (!line.startsWith('data:')) {
+            continue;
+          }
+
+          const data = line.slice(5).trim();
+          if (!data) {
+            continue;
+          }
+
+          if (data === '[DONE]') {
+            await reader.cancel().catch(() => undefined);
+            return fullText;
+          }
+
+          let payload: any;
+          try {
+            payload = JSON.parse(data);
+          } catch (_jsonError) {
+            continue;
+          }
+
+          reportStreamUsage(payload, options);
+
+          const delta = payload?.choices?.[0]?.delta;
+          if (!delta) {
+            continue;
+          }
+
+          const textPiece = typeof delta.content === 'string' ? delta.content : '';
+          if (textPiece) {
+            fullText += textPiece;
+            options.onToken?.(textPiece);
+          }
+        }
+
+        boundaryIndex = buffer.indexOf('\n\n');
+      }
+    }
+
+    return fullText;
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      abortedByTimeout = true;
+    } else {
+      throw error;
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (abortedByTimeout && fullText) {
+    console.warn('⚠️ OpenAI-compatible streaming aborted due to timeout; returning partial response.');
+    return fullText;
+  }
+
+  throw new Error('OpenAI-compatible streaming aborted before any content was received.');
+}
+
 async function callGoogle(
   prompt: string,
   apiSettings: any,
@@ -1082,7 +1496,13 @@ async function streamGoogle(
       }],
       generationConfig: {
         temperature: 0.7,
-        maxOutputTokens: maxTokens
+        maxOutputTokens: maxTokens,
+        ...(options.responseSchema
+          ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(options.responseSchema.schema)
+          }
+          : {})
       }
     }),
     signal: controller.signal
@@ -1094,7 +1514,7 @@ async function streamGoogle(
   try {
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Google AI API error: ${response.status} - ${errorText}`);
+      throw providerHttpError(`Google AI API error: ${response.status} - ${errorText}`, response.status);
     }
 
     if (!response.body) {
@@ -1121,6 +1541,7 @@ async function streamGoogle(
         if (rawLine) {
           try {
             const payload = JSON.parse(rawLine);
+            reportStreamUsage(payload, options);
             const textChunk = extractTextFromGoogleStreamPayload(payload);
             if (textChunk) {
               fullText += textChunk;
@@ -1139,6 +1560,7 @@ async function streamGoogle(
     if (remaining) {
       try {
         const payload = JSON.parse(remaining);
+        reportStreamUsage(payload, options);
         const textChunk = extractTextFromGoogleStreamPayload(payload);
         if (textChunk) {
           fullText += textChunk;
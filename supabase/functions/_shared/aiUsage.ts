@@ -0,0 +1,245 @@
+/**
+ * AI Token Usage and Cost Accounting
+ *
+ * Token usage reported by each provider call, the per-model price table used
+ * to estimate spend, and persistence of per-agent usage. Each call is stored
+ * in ai_usage_events and rolled up onto analysis_history.ai_usage and
+ * rebalance_requests.ai_usage by the record_ai_usage database function.
+ */
+
+export interface AITokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  cached_tokens: number;
+  total_tokens: number;
+}
+
+export interface AIUsage extends AITokenUsage {
+  provider: string;
+  model: string;
+  latency_ms: number;
+  estimated: boolean;   // True when the provider did not report token counts
+}
+
+export interface AIProviderResult {
+  text: string;
+  usage: AIUsage;
+}
+
+/**
+ * USD prices per 1M tokens
+ */
+export interface ModelPrice {
+  input: number;
+  cached_input?: number;
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+// Published list prices; users can override or extend these in Settings (api_settings.ai_model_prices)
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  'gpt-5': { input: 1.25, cached_input: 0.125, output: 10 },
+  'gpt-5-chat': { input: 1.25, cached_input: 0.125, output: 10 },
+  'gpt-5-mini': { input: 0.25, cached_input: 0.025, output: 2 },
+  'gpt-4.1': { input: 2, cached_input: 0.5, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, cached_input: 0.1, output: 1.6 },
+  'gpt-4o': { input: 2.5, cached_input: 1.25, output: 10 },
+  'claude-opus-4-1': { input: 15, cached_input: 1.5, output: 75 },
+  'claude-opus-4': { input: 15, cached_input: 1.5, output: 75 },
+  'claude-sonnet-4': { input: 3, cached_input: 0.3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, cached_input: 0.3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, cached_input: 0.08, output: 4 },
+  'gemini-2.5-pro': { input: 1.25, cached_input: 0.31, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, cached_input: 0.075, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, cached_input: 0.025, output: 0.4 },
+  'deepseek-chat': { input: 0.56, cached_input: 0.07, output: 1.68 },
+  'deepseek-chat-v3.1': { input: 0.56, cached_input: 0.07, output: 1.68 },
+  'grok-4': { input: 3, cached_input: 0.75, output: 15 },
+  'grok-code-fast-1': { input: 0.2, cached_input: 0.02, output: 1.5 },
+  'qwen3-max': { input: 1.2, cached_input: 0.24, output: 6 }
+};
+
+export function createEmptyTokenUsage(): AITokenUsage {
+  return { prompt_tokens: 0, completion_tokens: 0, cached_tokens: 0, total_tokens: 0 };
+}
+
+/**
+ * Rough token count for providers that do not report usage (~4 characters per token)
+ */
+export function estimateTokenCount(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+/**
+ * Reads token counts from a streamed provider payload. Handles the OpenAI chat
+ * (and compatible: OpenRouter, DeepSeek, self-hosted), OpenAI Responses,
+ * Anthropic and Google Gemini formats. Returns null when the chunk has no usage.
+ */
+export function extractUsageFromStreamPayload(payload: any): Partial<AITokenUsage> | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const toCount = (value: unknown): number | undefined => {
+    const num = Number(value);
+    return Number.isFinite(num) && num >= 0 ? Math.round(num) : undefined;
+  };
+
+  // Google Gemini: usageMetadata is repeated with cumulative counts
+  if (payload.usageMetadata) {
+    const meta = payload.usageMetadata;
+    return {
+      prompt_tokens: toCount(meta.promptTokenCount),
+      completion_tokens: toCount((meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0)),
+      cached_tokens: toCount(meta.cachedContentTokenCount ?? 0),
+      total_tokens: toCount(meta.totalTokenCount)
+    };
+  }
+
+  // Anthropic: input counts arrive on message_start, the final output count on message_delta
+  if (payload.type === 'message_start' && payload.message?.usage) {
+    const usage = payload.message.usage;
+    return {
+      prompt_tokens: toCount((usage.input_tokens ?? 0) + (usage.cache_read_input_tokens ?? 0) + (usage.cache_creation_input_tokens ?? 0)),
+      cached_tokens: toCount(usage.cache_read_input_tokens ?? 0),
+      completion_tokens: toCount(usage.output_tokens)
+    };
+  }
+  if (payload.type === 'message_delta' && payload.usage) {
+    return { completion_tokens: toCount(payload.usage.output_tokens) };
+  }
+
+  // OpenAI Responses API: usage is on the response.completed event
+  if (payload.type === 'response.completed' && payload.response?.usage) {
+    const usage = payload.response.usage;
+    return {
+      prompt_tokens: toCount(usage.input_tokens),
+      completion_tokens: toCount(usage.output_tokens),
+      cached_tokens: toCount(usage.input_tokens_details?.cached_tokens ?? 0),
+      total_tokens: toCount(usage.total_tokens)
+    };
+  }
+
+  // OpenAI chat completions format: usage is on the final chunk
+  if (payload.usage && typeof payload.usage === 'object') {
+    const usage = payload.usage;
+    return {
+      prompt_tokens: toCount(usage.prompt_tokens),
+      completion_tokens: toCount(usage.completion_tokens),
+      cached_tokens: toCount(usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens ?? 0),
+      total_tokens: toCount(usage.total_tokens)
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Applies a partial usage report on top of what has been collected so far.
+ * Later reports win because providers send cumulative counts.
+ */
+export function mergeTokenUsage(current: AITokenUsage, update: Partial<AITokenUsage>): AITokenUsage {
+  const merged = { ...current };
+  for (const key of ['prompt_tokens', 'completion_tokens', 'cached_tokens'] as const) {
+    if (typeof update[key] === 'number') {
+      merged[key] = update[key]!;
+    }
+  }
+  merged.total_tokens = typeof update.total_tokens === 'number' && update.total_tokens > 0
+    ? update.total_tokens
+    : merged.prompt_tokens + merged.completion_tokens;
+  return merged;
+}
+
+const normalizeModelKey = (model: string): string =>
+  model.toLowerCase().split('/').pop()!.replace(/\./g, '-').replace(/:.*$/, '');
+
+/**
+ * Finds the price for a model. User overrides win over defaults; a dated model
+ * id (claude-sonnet-4-20250514) falls back to the longest matching prefix.
+ */
+export function getModelPrice(
+  model: string | null | undefined,
+  overrides?: ModelPriceTable | null
+): ModelPrice | null {
+  if (!model) return null;
+
+  const table: ModelPriceTable = { ...DEFAULT_MODEL_PRICES, ...(overrides || {}) };
+  const exact = table[model];
+  if (exact) return exact;
+
+  const normalized = normalizeModelKey(model);
+  let bestKey: string | null = null;
+  for (const key of Object.keys(table)) {
+    const candidate = normalizeModelKey(key);
+    if (normalized === candidate) return table[key];
+    if (normalized.startsWith(`${candidate}-`) && (!bestKey || candidate.length > normalizeModelKey(bestKey).length)) {
+      bestKey = key;
+    }
+  }
+
+  return bestKey ? table[bestKey] : null;
+}
+
+/**
+ * Estimated USD cost of a call; null when the model has no known price
+ */
+export function calculateUsageCost(
+  usage: Pick<AIUsage, 'model' | 'prompt_tokens' | 'completion_tokens' | 'cached_tokens'>,
+  overrides?: ModelPriceTable | null
+): number | null {
+  const price = getModelPrice(usage.model, overrides);
+  if (!price) return null;
+
+  const cached = Math.min(usage.cached_tokens || 0, usage.prompt_tokens || 0);
+  const uncached = (usage.prompt_tokens || 0) - cached;
+  const cost = (
+    uncached * price.input +
+    cached * (price.cached_input ?? price.input) +
+    (usage.completion_tokens || 0) * price.output
+  ) / 1_000_000;
+
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Persists one agent's AI usage and updates the analysis / rebalance roll-ups.
+ * Accounting must never fail the agent, so errors are only logged.
+ */
+export async function recordAIUsage(
+  supabase: any,
+  params: {
+    userId: string;
+    agentName: string;
+    usage: AIUsage;
+    analysisId?: string | null;
+    rebalanceRequestId?: string | null;
+    priceOverrides?: ModelPriceTable | null;
+  }
+): Promise<void> {
+  const { userId, agentName, usage, analysisId, rebalanceRequestId, priceOverrides } = params;
+
+  try {
+    const { error } = await supabase.rpc('record_ai_usage', {
+      p_user_id: userId,
+      p_agent_name: agentName,
+      p_provider: usage.provider,
+      p_model: usage.model,
+      p_prompt_tokens: usage.prompt_tokens,
+      p_completion_tokens: usage.completion_tokens,
+      p_cached_tokens: usage.cached_tokens,
+      p_latency_ms: usage.latency_ms,
+      p_cost_usd: calculateUsageCost(usage, priceOverrides),
+      p_estimated: usage.estimated,
+      p_analysis_id: analysisId || null,
+      p_rebalance_request_id: rebalanceRequestId || null
+    });
+
+    if (error) {
+      console.error(`⚠️ Failed to record AI usage for ${agentName}:`, error);
+    }
+  } catch (error) {
+    console.error(`⚠️ Failed to record AI usage for ${agentName}:`, error);
+  }
+}
@@ -2,6 +2,8 @@
  * Real API validation by making actual test calls to providers
  */
 
+import { normalizeOpenAICompatibleBaseUrl } from './aiProviders.ts';
+
 // Simple test prompt to validate API connectivity
 const TEST_PROMPT = "Hello";
 const TEST_SYSTEM_PROMPT = "You are a helpful assistant. Respond with just 'OK' to confirm the API is working.";
@@ -13,12 +15,12 @@ export interface ValidationResult {
   error?: string;
 }
 
-export async function validateApiKey(provider: string, apiKey: string, model?: string, secretKey?: string): Promise<ValidationResult> {
+export async function validateApiKey(provider: string, apiKey: string, model?: string, secretKey?: string, baseUrl?: string): Promise<ValidationResult> {
   const startTime = Date.now();
   
   try {
     // Validate basic format first
-    const formatResult = validateApiKeyFormat(provider, apiKey);
+    const formatResult = validateApiKeyFormat(provider, apiKey, baseUrl);
     if (!formatResult.valid) {
       return formatResult;
     }
@@ -45,6 +47,9 @@ export async function validateApiKey(provider: string, apiKey: string, model?: s
       case 'google':
         response = await testGoogle(testApiSettings);
         break;
+      case 'openai-compatible':
+        response = await testOpenAICompatibleServer(normalizeOpenAICompatibleBaseUrl(baseUrl), apiKey, model);
+        break;
       case 'alpaca_paper':
       case 'alpaca_live':
         if (!secretKey) {
@@ -125,7 +130,7 @@ export async function validateApiKey(provider: string, apiKey: string, model?: s
 }
 
 // Format validation fallback
-function validateApiKeyFormat(provider: string, apiKey: string): ValidationResult {
+function validateApiKeyFormat(provider: string, apiKey: string, baseUrl?: string): ValidationResult {
   switch (provider) {
     case 'openai':
       const validOpenAI = apiKey.startsWith('sk-') && apiKey.length > 20;
@@ -157,6 +162,14 @@ function validateApiKeyFormat(provider: string, apiKey: string): ValidationResul
         valid: validOpenRouter,
         message: validOpenRouter ? 'Valid OpenRouter API key format' : 'Invalid OpenRouter API key format (should start with sk-or-)'
       };
+    case 'openai-compatible': {
+      // Self-hosted servers accept any key - only the base URL needs to be well formed
+      const validBaseUrl = /^https?:\/\/[^\s]+$/i.test(normalizeOpenAICompatibleBaseUrl(baseUrl));
+      return {
+        valid: validBaseUrl && apiKey.length > 0,
+        message: validBaseUrl ? 'Valid OpenAI-compatible configuration' : 'Invalid base URL (should start with http:// or https://)'
+      };
+    }
     case 'alpaca_paper':
     case 'alpaca_live':
       const validAlpaca = apiKey.length > 10 && /^[A-Za-z0-9]+$/.test(apiKey);
@@ -216,13 +229,15 @@ function getHeaders(provider: string, apiKey: string): Record<string, string> {
   return baseHeaders;
 }
 
-// Unified OpenAI-compatible test function for openai, deepseek, and openrouter
+// Unified OpenAI-compatible test function for openai, deepseek, openrouter and self-hosted servers
 async function testOpenAICompatible(apiSettings: any): Promise<string> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
   
   try {
-    const endpoint = getApiEndpoint(apiSettings.ai_provider);
+    const endpoint = apiSettings.ai_provider === 'openai-compatible'
+      ? `${apiSettings.ai_base_url}/chat/completions`
+      : getApiEndpoint(apiSettings.ai_provider);
     const headers = getHeaders(apiSettings.ai_provider, apiSettings.ai_api_key);
     
     const response = await fetch(endpoint, {
@@ -260,6 +275,40 @@ async function testOpenAICompatible(apiSettings: any): Promise<string> {
   }
 }
 
+// OpenAI-compatible servers (Ollama, vLLM, LM Studio) all expose /models; use a chat call when a model is known
+async function testOpenAICompatibleServer(baseUrl: string, apiKey: string, model?: string): Promise<string> {
+  if (model) {
+    return await testOpenAICompatible({
+      ai_provider: 'openai-compatible',
+      ai_api_key: apiKey,
+      ai_model: model,
+      ai_base_url: baseUrl
+    });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+  try {
+    const response = await fetch(`${baseUrl}/models`, {
+      method: 'GET',
+      headers: getHeaders('openai-compatible', apiKey),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`openai-compatible API error: ${response.status} - ${error}`);
+    }
+
+    const result = await response.json();
+    const models = Array.isArray(result?.data) ? result.data : [];
+    return `Server reachable (${models.length} models available)`;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 async function testAnthropic(apiSettings: any): Promise<string> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 10000);
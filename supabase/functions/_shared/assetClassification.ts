@@ -0,0 +1,359 @@
+/**
+ * Asset Classification & Exposure Limits
+ *
+ * Classifies symbols by asset class (from Alpaca asset metadata), sector and
+ * industry (from the issuer's SEC SIC code) and caches the result in
+ * asset_classifications so rebalances do not refetch it. Users cap exposure
+ * per sector, industry or asset class in api_settings.rebalance_exposure_limits,
+ * e.g. [{ dimension: 'industry', value: 'Semiconductors', maxPercent: 35 }].
+ *
+ * Limit values match case-insensitively and by substring, so "Semiconductors"
+ * covers "Semiconductors & Related Devices". Sectors are a GICS-style grouping
+ * of SIC codes and are approximate; ETFs and crypto carry no sector.
+ */
+
+import { createAlpacaHeaders, extractAlpacaCredentials } from './portfolio/config.ts';
+import { fetchCompanySubmissions, getSecUserAgent, lookupCik } from './secEdgar.ts';
+
+export const EXPOSURE_DIMENSION = {
+  SECTOR: 'sector' as const,
+  INDUSTRY: 'industry' as const,
+  ASSET_CLASS: 'asset_class' as const
+} as const;
+
+export type ExposureDimension = typeof EXPOSURE_DIMENSION[keyof typeof EXPOSURE_DIMENSION];
+
+export const ASSET_CLASS = {
+  EQUITY: 'equity' as const,
+  ETF: 'etf' as const,
+  CRYPTO: 'crypto' as const,
+  OPTION: 'option' as const,
+  OTHER: 'other' as const
+} as const;
+
+export type AssetClass = typeof ASSET_CLASS[keyof typeof ASSET_CLASS];
+
+export const EXPOSURE_CHECK_STATUS = {
+  OK: 'ok' as const,
+  ADJUSTED: 'adjusted' as const,
+  VIOLATION: 'violation' as const
+} as const;
+
+export type ExposureCheckStatus = typeof EXPOSURE_CHECK_STATUS[keyof typeof EXPOSURE_CHECK_STATUS];
+
+// Cached classifications older than this are refreshed
+export const CLASSIFICATION_TTL_DAYS = 30;
+
+export interface AssetClassification {
+  symbol: string;
+  name: string | null;
+  assetClass: AssetClass;
+  sector: string | null;
+  industry: string | null;
+  sicCode: string | null;
+  source: 'alpaca' | 'sec';
+  updatedAt: string;
+}
+
+export interface ExposureLimit {
+  dimension: ExposureDimension;
+  value: string;
+  maxPercent: number;
+}
+
+export interface ExposureAdjustment {
+  ticker: string;
+  fromAmount: number;
+  toAmount: number;
+}
+
+export interface ExposureCheck {
+  limit: ExposureLimit;
+  symbols: string[];
+  beforePercent: number;
+  afterPercent: number;
+  status: ExposureCheckStatus;
+  adjustments: ExposureAdjustment[];
+  note: string;
+}
+
+export interface ExposureLimitReport {
+  evaluatedAt: string;
+  checks: ExposureCheck[];
+  unclassified: string[];
+}
+
+export const EXPOSURE_DIMENSION_LABELS: Record<ExposureDimension, string> = {
+  [EXPOSURE_DIMENSION.SECTOR]: 'Sector',
+  [EXPOSURE_DIMENSION.INDUSTRY]: 'Industry',
+  [EXPOSURE_DIMENSION.ASSET_CLASS]: 'Asset class'
+};
+
+export function isValidExposureDimension(value: unknown): value is ExposureDimension {
+  return typeof value === 'string' && Object.values(EXPOSURE_DIMENSION).includes(value as ExposureDimension);
+}
+
+/**
+ * Drops malformed entries from the stored limits
+ */
+export function normalizeExposureLimits(raw: unknown): ExposureLimit[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((entry: any) => ({
+      dimension: entry?.dimension,
+      value: typeof entry?.value === 'string' ? entry.value.trim() : '',
+      maxPercent: Number(entry?.maxPercent)
+    }))
+    .filter((limit): limit is ExposureLimit =>
+      isValidExposureDimension(limit.dimension) &&
+      limit.value.length > 0 &&
+      Number.isFinite(limit.maxPercent) &&
+      limit.maxPercent >= 0 &&
+      limit.maxPercent <= 100
+    );
+}
+
+export const formatExposureLimit = (limit: ExposureLimit): string =>
+  `${EXPOSURE_DIMENSION_LABELS[limit.dimension]} "${limit.value}" ≤ ${limit.maxPercent}%`;
+
+export function getClassificationValue(classification: AssetClassification | undefined, dimension: ExposureDimension): string | null {
+  if (!classification) return null;
+  switch (dimension) {
+    case EXPOSURE_DIMENSION.SECTOR:
+      return classification.sector;
+    case EXPOSURE_DIMENSION.INDUSTRY:
+      return classification.industry;
+    case EXPOSURE_DIMENSION.ASSET_CLASS:
+      return classification.assetClass;
+  }
+}
+
+export function matchesExposureLimit(classification: AssetClassification | undefined, limit: ExposureLimit): boolean {
+  const value = getClassificationValue(classification, limit.dimension);
+  if (!value) return false;
+  const target = limit.value.toLowerCase();
+  const actual = value.toLowerCase();
+  return limit.dimension === EXPOSURE_DIMENSION.ASSET_CLASS ? actual === target : actual.includes(target);
+}
+
+/**
+ * Share of the portfolio (%) held in the limit's bucket
+ */
+export function calculateExposure(
+  holdings: Array<{ symbol: string; value: number }>,
+  classifications: Record<string, AssetClassification>,
+  limit: ExposureLimit,
+  totalValue: number
+): { percent: number; symbols: string[] } {
+  const matched = holdings.filter(holding => holding.value > 0 && matchesExposureLimit(classifications[holding.symbol], limit));
+  const value = matched.reduce((sum, holding) => sum + holding.value, 0);
+  return {
+    percent: totalValue > 0 ? (value / totalValue) * 100 : 0,
+    symbols: matched.map(holding => holding.symbol)
+  };
+}
+
+// SIC code ranges grouped into GICS-style sectors; the first matching range wins
+const SIC_SECTOR_RANGES: Array<[number, number, string]> = [
+  [2830, 2836, 'Health Care'],
+  [3840, 3851, 'Health Care'],
+  [5122, 5122, 'Health Care'],
+  [8000, 8099, 'Health Care'],
+  [2840, 2844, 'Consumer Staples'],
+  [5400, 5499, 'Consumer Staples'],
+  [5912, 5912, 'Consumer Staples'],
+  [3570, 3579, 'Information Technology'],
+  [3661, 3679, 'Information Technology'],
+  [3820, 3829, 'Information Technology'],
+  [7370, 7379, 'Information Technology'],
+  [3710, 3716, 'Consumer Discretionary'],
+  [2500, 2599, 'Consumer Discretionary'],
+  [6500, 6553, 'Real Estate'],
+  [6798, 6798, 'Real Estate'],
+  [100, 999, 'Consumer Staples'],
+  [1000, 1099, 'Materials'],
+  [1200, 1399, 'Energy'],
+  [1400, 1499, 'Materials'],
+  [1500, 1799, 'Industrials'],
+  [2000, 2199, 'Consumer Staples'],
+  [2200, 2399, 'Consumer Discretionary'],
+  [2400, 2699, 'Materials'],
+  [2700, 2799, 'Communication Services'],
+  [2800, 2899, 'Materials'],
+  [2900, 2999, 'Energy'],
+  [3000, 3399, 'Materials'],
+  [3400, 3699, 'Industrials'],
+  [3700, 3799, 'Industrials'],
+  [3800, 3839, 'Industrials'],
+  [3852, 3999, 'Consumer Discretionary'],
+  [4000, 4799, 'Industrials'],
+  [4800, 4899, 'Communication Services'],
+  [4900, 4999, 'Utilities'],
+  [5000, 5199, 'Industrials'],
+  [5200, 5999, 'Consumer Discretionary'],
+  [6000, 6799, 'Financials'],
+  [7000, 7299, 'Consumer Discretionary'],
+  [7300, 7399, 'Industrials'],
+  [7500, 7599, 'Consumer Discretionary'],
+  [7800, 7999, 'Communication Services'],
+  [8200, 8299, 'Consumer Discretionary'],
+  [8700, 8799, 'Industrials']
+];
+
+// Shorter names for SIC codes whose EDGAR description is unwieldy
+const SIC_INDUSTRY_NAMES: Record<string, string> = {
+  '1311': 'Oil & Gas Production',
+  '2834': 'Pharmaceuticals',
+  '2836': 'Biotechnology',
+  '3674': 'Semiconductors',
+  '3711': 'Automobiles',
+  '4813': 'Telecom Services',
+  '5961': 'Internet & Catalog Retail',
+  '6021': 'Banks',
+  '6022': 'Banks',
+  '7370': 'Internet & IT Services',
+  '7372': 'Software'
+};
+
+export function sectorFromSic(sicCode: string | null): string | null {
+  const code = Number(sicCode);
+  if (!Number.isFinite(code) || code <= 0) return null;
+  const match = SIC_SECTOR_RANGES.find(([start, end]) => code >= start && code <= end);
+  return match ? match[2] : null;
+}
+
+const toTitleCase = (value: string): string =>
+  value.toLowerCase().replace(/\b([a-z])/g, letter => letter.toUpperCase());
+
+export function industryFromSic(sicCode: string | null, description: string | null): string | null {
+  if (sicCode && SIC_INDUSTRY_NAMES[sicCode]) return SIC_INDUSTRY_NAMES[sicCode];
+  return description ? toTitleCase(description.trim()) : null;
+}
+
+/**
+ * Asset class from an Alpaca asset; ETFs are recognized by name since Alpaca
+ * lists them as us_equity
+ */
+export function assetClassFromAlpaca(asset: any, symbol: string): AssetClass {
+  const alpacaClass = String(asset?.class ?? asset?.asset_class ?? '').toLowerCase();
+  if (alpacaClass.includes('crypto') || (!asset && symbol.includes('/'))) return ASSET_CLASS.CRYPTO;
+  if (alpacaClass.includes('option')) return ASSET_CLASS.OPTION;
+  if (alpacaClass === 'us_equity') {
+    return /\b(ETF|ETN)\b/i.test(String(asset?.name ?? '')) ? ASSET_CLASS.ETF : ASSET_CLASS.EQUITY;
+  }
+  return ASSET_CLASS.OTHER;
+}
+
+const fromCacheRow = (row: any): AssetClassification => ({
+  symbol: row.symbol,
+  name: row.name,
+  assetClass: row.asset_class,
+  sector: row.sector,
+  industry: row.industry,
+  sicCode: row.sic_code,
+  source: row.source,
+  updatedAt: row.updated_at
+});
+
+async function fetchAlpacaAsset(baseUrl: string, headers: Record<string, string>, symbol: string): Promise<any | null> {
+  try {
+    const response = await fetch(`${baseUrl}/v2/assets/${encodeURIComponent(symbol)}`, { headers });
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.warn(`⚠️ Failed to fetch Alpaca asset ${symbol}:`, error);
+    return null;
+  }
+}
+
+async function classifySymbol(
+  baseUrl: string,
+  headers: Record<string, string>,
+  symbol: string
+): Promise<AssetClassification> {
+  const asset = await fetchAlpacaAsset(baseUrl, headers, symbol.replace('/', ''));
+  const assetClass = assetClassFromAlpaca(asset, symbol);
+  const classification: AssetClassification = {
+    symbol,
+    name: asset?.name ?? null,
+    assetClass,
+    sector: null,
+    industry: null,
+    sicCode: null,
+    source: 'alpaca',
+    updatedAt: new Date().toISOString()
+  };
+
+  if (assetClass !== ASSET_CLASS.EQUITY) return classification;
+
+  const cik = await lookupCik(symbol);
+  const submissions = cik ? await fetchCompanySubmissions(cik) : null;
+  if (submissions?.sic) {
+    classification.sicCode = submissions.sic;
+    classification.sector = sectorFromSic(submissions.sic);
+    classification.industry = industryFromSic(submissions.sic, submissions.sicDescription);
+    classification.name = classification.name || submissions.name;
+    classification.source = 'sec';
+  }
+  return classification;
+}
+
+/**
+ * Classifications for the symbols, from asset_classifications when fresh,
+ * otherwise from Alpaca and SEC EDGAR (and written back to the cache)
+ */
+export async function loadAssetClassifications(
+  supabase: any,
+  symbols: string[],
+  apiSettings: any
+): Promise<Record<string, AssetClassification>> {
+  const unique = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+  const result: Record<string, AssetClassification> = {};
+  if (unique.length === 0) return result;
+
+  const freshAfter = Date.now() - CLASSIFICATION_TTL_DAYS * 24 * 60 * 60 * 1000;
+  const { data: cached, error } = await supabase
+    .from('asset_classifications')
+    .select('*')
+    .in('symbol', unique);
+
+  if (error) {
+    console.warn('⚠️ Failed to read asset_classifications cache:', error.message);
+  }
+  for (const row of cached || []) {
+    // Equities cached without a sector are retried once SEC lookups are configured
+    const missingSector = row.asset_class === ASSET_CLASS.EQUITY && !row.sector && getSecUserAgent();
+    if (Date.parse(row.updated_at) >= freshAfter && !missingSector) {
+      result[row.symbol] = fromCacheRow(row);
+    }
+  }
+
+  const missing = unique.filter(symbol => !result[symbol]);
+  if (missing.length === 0) return result;
+
+  const { apiKey, secretKey, baseUrl } = extractAlpacaCredentials(apiSettings);
+  const headers = createAlpacaHeaders(apiKey, secretKey) as Record<string, string>;
+  const fetched = await Promise.all(missing.map(symbol => classifySymbol(baseUrl, headers, symbol)));
+
+  for (const classification of fetched) {
+    result[classification.symbol] = classification;
+  }
+  console.log(`🏷️ Classified ${fetched.length} symbols (${unique.length - fetched.length} from cache)`);
+
+  const { error: upsertError } = await supabase
+    .from('asset_classifications')
+    .upsert(fetched.map(classification => ({
+      symbol: classification.symbol,
+      name: classification.name,
+      asset_class: classification.assetClass,
+      sector: classification.sector,
+      industry: classification.industry,
+      sic_code: classification.sicCode,
+      source: classification.source,
+      updated_at: classification.updatedAt
+    })), { onConflict: 'symbol' });
+
+  if (upsertError) {
+    console.warn('⚠️ Failed to cache asset classifications:', upsertError.message);
+  }
+  return result;
+}
@@ -1,5 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { ANALYSIS_STATUS } from './statusTypes.ts';
+import { notifyUser, NOTIFICATION_EVENT } from './notifications.ts';
 
 /**
  * Atomically append a message to the analysis history
@@ -845,12 +846,37 @@ export async function markAnalysisCompleted(
     }
 
     console.log(`✅ Analysis ${analysisId} marked as COMPLETED via atomic helper`);
+    await notifyAnalysisCompleted(supabase, updateResult?.[0]);
     return { success: true };
   }
 
   return { success: false, error: 'Max retries exceeded marking analysis complete' };
 }
 
+/**
+ * Tell the user a standalone analysis finished; analyses that belong to a
+ * rebalance are reported once by the rebalance completion handler instead
+ */
+async function notifyAnalysisCompleted(supabase: any, analysis: any): Promise<void> {
+  if (!analysis?.user_id || analysis.rebalance_request_id) return;
+
+  const decision = analysis.decision && analysis.decision !== 'PENDING' ? analysis.decision : null;
+  const confidence = typeof analysis.confidence === 'number' || typeof analysis.confidence === 'string'
+    ? Number(analysis.confidence)
+    : null;
+
+  await notifyUser(supabase, analysis.user_id, NOTIFICATION_EVENT.ANALYSIS_COMPLETED, {
+    title: `${analysis.ticker} analysis completed`,
+    message: decision
+      ? `Decision: ${decision}${confidence !== null && Number.isFinite(confidence) ? ` (${confidence}% confidence)` : ''}`
+      : 'The analysis has finished.',
+    path: '/analysis-records',
+    ticker: analysis.ticker,
+    analysisId: analysis.id,
+    details: { decision, confidence }
+  });
+}
+
 /**
  * Set agent workflow step to error status atomically AND notify coordinator
  * This ensures agents that fail are properly marked as failed and coordinator is informed
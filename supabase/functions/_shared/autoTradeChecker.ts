@@ -1,5 +1,7 @@
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { TRADE_ORDER_STATUS } from './statusTypes.ts';
+import { notifyUser, NOTIFICATION_EVENT, type NotificationAction } from './notifications.ts';
+import { createTradeApprovalLinks } from './tradeApproval.ts';
 
 /**
  * Check if user has auto-trade enabled and execute pending orders
@@ -38,23 +40,11 @@ export async function checkAndExecuteAutoTrades(
     }
 
     const autoTradeEnabled = settings?.auto_execute_trades === true;
-    
-    if (!autoTradeEnabled) {
-      console.log(`📊 Auto-trade is disabled for user ${userId}`);
-      return {
-        success: true,
-        autoTradeEnabled: false,
-        ordersExecuted: 0,
-        errors: []
-      };
-    }
-
-    console.log(`🤖 Auto-trade is enabled for user ${userId} - executing pending orders`);
 
     // Fetch all pending orders for this source
     let query = supabase
       .from('trading_actions')
-      .select('id, ticker, action, dollar_amount, shares')
+      .select('id, ticker, action, dollar_amount, shares, price, portfolio_id')
       .eq('user_id', userId)
       .eq('status', TRADE_ORDER_STATUS.PENDING);
 
@@ -65,6 +55,43 @@ export async function checkAndExecuteAutoTrades(
       query = query.eq('rebalance_request_id', sourceId);
     }
 
+    if (!autoTradeEnabled) {
+      console.log(`📊 Auto-trade is disabled for user ${userId}`);
+
+      // Orders now wait for the user's approval - let them know
+      const { data: awaitingOrders, error: awaitingError } = await query;
+      if (awaitingError) {
+        console.warn('Failed to fetch pending orders for notification:', awaitingError);
+      } else if (awaitingOrders && awaitingOrders.length > 0) {
+        const actions: NotificationAction[] = [];
+        for (const order of awaitingOrders) {
+          const links = await createTradeApprovalLinks(supabase, userId, order);
+          if (!links) continue;
+          actions.push(
+            { label: `Approve ${order.action} ${order.ticker}`, url: links.approveUrl },
+            { label: `Reject ${order.action} ${order.ticker}`, url: links.rejectUrl }
+          );
+        }
+
+        await notifyUser(supabase, userId, NOTIFICATION_EVENT.ORDERS_PENDING, {
+          title: `${awaitingOrders.length} trade order${awaitingOrders.length === 1 ? '' : 's'} awaiting approval`,
+          message: formatOrderList(awaitingOrders),
+          ...getSourceLink(sourceType, sourceId),
+          details: { orderIds: awaitingOrders.map(order => order.id) },
+          actions
+        });
+      }
+
+      return {
+        success: true,
+        autoTradeEnabled: false,
+        ordersExecuted: 0,
+        errors: []
+      };
+    }
+
+    console.log(`🤖 Auto-trade is enabled for user ${userId} - executing pending orders`);
+
     const { data: pendingOrders, error: fetchError } = await query;
 
     if (fetchError) {
@@ -143,6 +170,31 @@ export async function checkAndExecuteAutoTrades(
       errors.forEach(e => console.log(`  - ${e}`));
     }
 
+    const executedOrders = pendingOrders.filter((_, index) => {
+      const result = results[index];
+      return result.status === 'fulfilled' && result.value === true;
+    });
+    const failedOrders = pendingOrders.filter(order => !executedOrders.includes(order));
+    const sourceLink = getSourceLink(sourceType, sourceId);
+
+    if (executedOrders.length > 0) {
+      await notifyUser(supabase, userId, NOTIFICATION_EVENT.ORDERS_EXECUTED, {
+        title: `${executedOrders.length} trade order${executedOrders.length === 1 ? '' : 's'} auto-executed`,
+        message: formatOrderList(executedOrders),
+        ...sourceLink,
+        details: { orderIds: executedOrders.map(order => order.id) }
+      });
+    }
+
+    if (failedOrders.length > 0) {
+      await notifyUser(supabase, userId, NOTIFICATION_EVENT.ORDERS_FAILED, {
+        title: `${failedOrders.length} trade order${failedOrders.length === 1 ? '' : 's'} failed to execute`,
+        message: errors.join('\n'),
+        ...sourceLink,
+        details: { orderIds: failedOrders.map(order => order.id) }
+      });
+    }
+
     return {
       success: ordersExecuted > 0 || errors.length === 0,
       autoTradeEnabled,
@@ -161,6 +213,26 @@ export async function checkAndExecuteAutoTrades(
   }
 }
 
+function formatOrderList(
+  orders: { ticker: string; action: string; dollar_amount?: number | null; shares?: number | null }[]
+): string {
+  return orders.map(order => {
+    const size = order.dollar_amount && Number(order.dollar_amount) > 0
+      ? `$${Number(order.dollar_amount).toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+      : `${order.shares ?? 0} shares`;
+    return `${order.action} ${order.ticker} (${size})`;
+  }).join('\n');
+}
+
+function getSourceLink(
+  sourceType: 'individual_analysis' | 'rebalance',
+  sourceId: string
+): { path: string; analysisId?: string; rebalanceRequestId?: string } {
+  return sourceType === 'rebalance'
+    ? { path: '/rebalance-records', rebalanceRequestId: sourceId }
+    : { path: '/analysis-records', analysisId: sourceId };
+}
+
 /**
  * Helper function: Execute all pending orders for a rebalance request
  * This is a convenience wrapper for rebalance-specific auto-trading
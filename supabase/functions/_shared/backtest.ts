@@ -0,0 +1,387 @@
+/**
+ * Backtesting Engine
+ *
+ * Replays past BUY/SELL calls against daily bars. Each call is filled at the
+ * open of the first session after the decision (no look-ahead) and closed at
+ * the close of the last session of the holding period. SELL calls are scored
+ * as short positions. Results are grouped by agent configuration
+ * (see agentConfig.ts) and compared against a benchmark held over the same
+ * windows.
+ */
+
+export const BACKTEST_SOURCE = {
+  ANALYSIS: 'analysis' as const,
+  REBALANCE: 'rebalance' as const
+} as const;
+
+export type BacktestSource = typeof BACKTEST_SOURCE[keyof typeof BACKTEST_SOURCE];
+
+export const BACKTEST_STATUS = {
+  RUNNING: 'running' as const,
+  COMPLETED: 'completed' as const,
+  ERROR: 'error' as const
+} as const;
+
+export type BacktestStatus = typeof BACKTEST_STATUS[keyof typeof BACKTEST_STATUS];
+
+export const DEFAULT_BACKTEST_PARAMETERS = {
+  holdingDays: 20,
+  benchmark: 'SPY',
+  minConfidence: 0,
+  positionSizePct: 10,
+  includeSells: true
+};
+
+export interface DailyBar {
+  date: string;   // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface BacktestParameters {
+  source: BacktestSource;
+  startDate: string;        // decision window, YYYY-MM-DD
+  endDate: string;
+  holdingDays: number;      // sessions held, including the entry session
+  benchmark: string;
+  minConfidence: number;    // 0-100
+  positionSizePct: number;  // share of starting capital committed to each call
+  includeSells: boolean;
+  tickers?: string[];
+}
+
+export interface BacktestDecision {
+  id: string;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  confidence: number | null;
+  decidedAt: string;
+  configKey: string;
+  configLabel: string;
+  referencePrice: number | null;   // price recorded on the trade order, if any
+  analysisId?: string | null;
+  rebalanceRequestId?: string | null;
+}
+
+export interface BacktestTrade {
+  decisionId: string;
+  analysisId: string | null;
+  rebalanceRequestId: string | null;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  confidence: number | null;
+  configKey: string;
+  decidedAt: string;
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  referencePrice: number | null;
+  returnPct: number;            // direction-adjusted: a falling price is a gain for SELL
+  benchmarkReturnPct: number | null;
+  excessReturnPct: number | null;
+  hit: boolean;
+}
+
+export interface BacktestSkip {
+  decisionId: string;
+  ticker: string;
+  reason: string;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;      // portfolio value, starting at 100
+  benchmark: number;   // benchmark buy-and-hold, starting at 100
+}
+
+export interface BacktestSummary {
+  configKey: string;
+  configLabel: string;
+  trades: number;
+  buys: number;
+  sells: number;
+  hitRate: number | null;
+  avgReturnPct: number | null;
+  avgExcessReturnPct: number | null;
+  totalReturnPct: number;
+  benchmarkReturnPct: number | null;
+  maxDrawdownPct: number;
+  bestTradePct: number | null;
+  worstTradePct: number | null;
+  equityCurve: EquityPoint[];
+}
+
+export interface BacktestResults {
+  generatedAt: string;
+  decisionsConsidered: number;
+  tradesSimulated: number;
+  skipped: BacktestSkip[];
+  overall: BacktestSummary;
+  configurations: BacktestSummary[];
+  trades: BacktestTrade[];
+}
+
+export function isValidBacktestSource(source: unknown): source is BacktestSource {
+  return typeof source === 'string' && Object.values(BACKTEST_SOURCE).includes(source as BacktestSource);
+}
+
+const round = (value: number, precision = 2): number => {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+};
+
+const toDateKey = (value: string): string => value.slice(0, 10);
+
+/**
+ * Index of the last bar on or before a date, or -1
+ */
+function findBarOnOrBefore(bars: DailyBar[], date: string): number {
+  let result = -1;
+  for (let i = 0; i < bars.length; i++) {
+    if (bars[i].date <= date) {
+      result = i;
+    } else {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Simulates one call. Returns the trade, or a reason the call could not be filled.
+ */
+export function simulateDecision(
+  decision: BacktestDecision,
+  bars: DailyBar[],
+  benchmarkBars: DailyBar[],
+  holdingDays: number
+): { trade: BacktestTrade | null; skipReason: string | null } {
+  if (bars.length === 0) {
+    return { trade: null, skipReason: 'No price data' };
+  }
+
+  const decisionDate = toDateKey(decision.decidedAt);
+  const entryIndex = bars.findIndex(bar => bar.date > decisionDate);
+  if (entryIndex === -1) {
+    return { trade: null, skipReason: 'No session after the decision yet' };
+  }
+
+  const exitIndex = entryIndex + Math.max(1, holdingDays) - 1;
+  if (exitIndex >= bars.length) {
+    return { trade: null, skipReason: 'Holding period not complete' };
+  }
+
+  const entry = bars[entryIndex];
+  const exit = bars[exitIndex];
+  if (!(entry.open > 0) || !(exit.close > 0)) {
+    return { trade: null, skipReason: 'Invalid price data' };
+  }
+
+  const direction = decision.action === 'SELL' ? -1 : 1;
+  const returnPct = direction * (exit.close / entry.open - 1) * 100;
+
+  let benchmarkReturnPct: number | null = null;
+  const benchEntryIndex = findBarOnOrBefore(benchmarkBars, entry.date);
+  const benchExitIndex = findBarOnOrBefore(benchmarkBars, exit.date);
+  if (benchEntryIndex !== -1 && benchExitIndex !== -1) {
+    const benchEntry = benchmarkBars[benchEntryIndex];
+    const benchOpen = benchEntry.date === entry.date ? benchEntry.open : benchEntry.close;
+    if (benchOpen > 0) {
+      benchmarkReturnPct = (benchmarkBars[benchExitIndex].close / benchOpen - 1) * 100;
+    }
+  }
+
+  return {
+    trade: {
+      decisionId: decision.id,
+      analysisId: decision.analysisId ?? null,
+      rebalanceRequestId: decision.rebalanceRequestId ?? null,
+      ticker: decision.ticker,
+      action: decision.action,
+      confidence: decision.confidence,
+      configKey: decision.configKey,
+      decidedAt: decision.decidedAt,
+      entryDate: entry.date,
+      entryPrice: entry.open,
+      exitDate: exit.date,
+      exitPrice: exit.close,
+      referencePrice: decision.referencePrice,
+      returnPct: round(returnPct),
+      benchmarkReturnPct: benchmarkReturnPct === null ? null : round(benchmarkReturnPct),
+      // A SELL call beats the market when the stock falls further than the benchmark
+      excessReturnPct: benchmarkReturnPct === null ? null : round(returnPct - direction * benchmarkReturnPct),
+      hit: returnPct > 0
+    },
+    skipReason: null
+  };
+}
+
+/**
+ * Daily mark-to-market of a portfolio that commits positionSizePct of the
+ * starting capital to every call, next to a buy-and-hold of the benchmark.
+ */
+export function buildEquityCurve(
+  trades: BacktestTrade[],
+  barsByTicker: Record<string, DailyBar[]>,
+  benchmarkBars: DailyBar[],
+  positionSizePct: number
+): EquityPoint[] {
+  if (trades.length === 0) return [];
+
+  const firstDate = trades.reduce((min, t) => (t.entryDate < min ? t.entryDate : min), trades[0].entryDate);
+  const lastDate = trades.reduce((max, t) => (t.exitDate > max ? t.exitDate : max), trades[0].exitDate);
+
+  const dateSet = new Set<string>();
+  for (const bar of benchmarkBars) {
+    if (bar.date >= firstDate && bar.date <= lastDate) dateSet.add(bar.date);
+  }
+  for (const trade of trades) {
+    for (const bar of barsByTicker[trade.ticker] || []) {
+      if (bar.date >= trade.entryDate && bar.date <= trade.exitDate) dateSet.add(bar.date);
+    }
+  }
+  const dates = Array.from(dateSet).sort();
+
+  const closesByTicker: Record<string, Map<string, number>> = {};
+  for (const trade of trades) {
+    if (!closesByTicker[trade.ticker]) {
+      closesByTicker[trade.ticker] = new Map((barsByTicker[trade.ticker] || []).map(bar => [bar.date, bar.close]));
+    }
+  }
+
+  const allocation = positionSizePct / 100;
+  const benchStartIndex = findBarOnOrBefore(benchmarkBars, firstDate);
+  const benchStart = benchStartIndex !== -1 ? benchmarkBars[benchStartIndex].close : null;
+  const lastClose: Record<string, number> = {};
+
+  return dates.map(date => {
+    let pnl = 0;
+    for (const trade of trades) {
+      if (date < trade.entryDate) continue;
+      if (date >= trade.exitDate) {
+        pnl += allocation * trade.returnPct / 100;
+        continue;
+      }
+      // Carry the last close forward over dates the ticker did not trade
+      const close = closesByTicker[trade.ticker].get(date) ?? lastClose[trade.decisionId] ?? trade.entryPrice;
+      lastClose[trade.decisionId] = close;
+      const direction = trade.action === 'SELL' ? -1 : 1;
+      pnl += allocation * direction * (close / trade.entryPrice - 1);
+    }
+
+    const benchIndex = findBarOnOrBefore(benchmarkBars, date);
+    const benchmark = benchStart && benchIndex !== -1
+      ? (benchmarkBars[benchIndex].close / benchStart) * 100
+      : 100;
+
+    return { date, equity: round(100 * (1 + pnl)), benchmark: round(benchmark) };
+  });
+}
+
+export function calculateMaxDrawdown(curve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak * 100);
+    }
+  }
+  return round(maxDrawdown);
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+function summarizeTrades(
+  configKey: string,
+  configLabel: string,
+  trades: BacktestTrade[],
+  barsByTicker: Record<string, DailyBar[]>,
+  benchmarkBars: DailyBar[],
+  positionSizePct: number
+): BacktestSummary {
+  const equityCurve = buildEquityCurve(trades, barsByTicker, benchmarkBars, positionSizePct);
+  const last = equityCurve[equityCurve.length - 1];
+  const returns = trades.map(t => t.returnPct);
+  const excess = trades.filter(t => t.excessReturnPct !== null).map(t => t.excessReturnPct as number);
+
+  return {
+    configKey,
+    configLabel,
+    trades: trades.length,
+    buys: trades.filter(t => t.action === 'BUY').length,
+    sells: trades.filter(t => t.action === 'SELL').length,
+    hitRate: trades.length > 0 ? round(trades.filter(t => t.hit).length / trades.length * 100, 1) : null,
+    avgReturnPct: average(returns),
+    avgExcessReturnPct: average(excess),
+    totalReturnPct: last ? round(last.equity - 100) : 0,
+    benchmarkReturnPct: last ? round(last.benchmark - 100) : null,
+    maxDrawdownPct: calculateMaxDrawdown(equityCurve),
+    bestTradePct: returns.length > 0 ? Math.max(...returns) : null,
+    worstTradePct: returns.length > 0 ? Math.min(...returns) : null,
+    equityCurve
+  };
+}
+
+/**
+ * Runs the backtest over already-loaded decisions and bars
+ */
+export function runBacktest(
+  decisions: BacktestDecision[],
+  barsByTicker: Record<string, DailyBar[]>,
+  benchmarkBars: DailyBar[],
+  parameters: BacktestParameters
+): BacktestResults {
+  const trades: BacktestTrade[] = [];
+  const skipped: BacktestSkip[] = [];
+  const configLabels = new Map<string, string>();
+
+  for (const decision of decisions) {
+    configLabels.set(decision.configKey, decision.configLabel);
+
+    const { trade, skipReason } = simulateDecision(
+      decision,
+      barsByTicker[decision.ticker] || [],
+      benchmarkBars,
+      parameters.holdingDays
+    );
+
+    if (trade) {
+      trades.push(trade);
+    } else {
+      skipped.push({ decisionId: decision.id, ticker: decision.ticker, reason: skipReason || 'Unknown' });
+    }
+  }
+
+  const byConfig = new Map<string, BacktestTrade[]>();
+  for (const trade of trades) {
+    const list = byConfig.get(trade.configKey) || [];
+    list.push(trade);
+    byConfig.set(trade.configKey, list);
+  }
+
+  const configurations = Array.from(byConfig.entries())
+    .map(([key, configTrades]) => summarizeTrades(
+      key,
+      configLabels.get(key) || key,
+      configTrades,
+      barsByTicker,
+      benchmarkBars,
+      parameters.positionSizePct
+    ))
+    .sort((a, b) => b.trades - a.trades);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    decisionsConsidered: decisions.length,
+    tradesSimulated: trades.length,
+    skipped,
+    overall: summarizeTrades('all', 'All configurations', trades, barsByTicker, benchmarkBars, parameters.positionSizePct),
+    configurations,
+    trades
+  };
+}
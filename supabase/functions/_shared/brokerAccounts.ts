@@ -0,0 +1,187 @@
+/**
+ * Broker Accounts
+ *
+ * Named brokerage accounts are rows in the portfolios table, each with its own
+ * broker, key pair and optional overrides of the rebalance and allocation
+ * columns in api_settings. A portfolio id of null is the main account that is
+ * configured directly in api_settings and trades through Alpaca, or through
+ * the built-in simulator when api_settings.simulated_trading is on.
+ *
+ * Entry points (alpaca-proxy, alpaca-batch, execute-trade, the coordinators)
+ * resolve the account once and overlay it onto apiSettings. The overlaid
+ * settings carry broker_account_id, so agents further down the workflow use the
+ * account's keys without another lookup.
+ */
+
+export const BROKER = {
+  ALPACA: 'alpaca' as const,
+  TRADIER: 'tradier' as const,
+  SIMULATED: 'simulated' as const
+} as const;
+
+export type Broker = typeof BROKER[keyof typeof BROKER];
+
+export const BROKER_LABELS: Record<Broker, string> = {
+  [BROKER.ALPACA]: 'Alpaca',
+  [BROKER.TRADIER]: 'Tradier',
+  [BROKER.SIMULATED]: 'Simulated'
+};
+
+export function isValidBroker(value: unknown): value is Broker {
+  return Object.values(BROKER).includes(value as Broker);
+}
+
+// api_settings columns a broker account may override
+export const ACCOUNT_SETTING_KEYS = [
+  'rebalance_threshold',
+  'rebalance_min_position_size',
+  'rebalance_max_position_size',
+  'near_position_threshold',
+  'rebalance_tax_aware',
+  'rebalance_exposure_limits',
+  'target_stock_allocation',
+  'target_cash_allocation',
+  'simulated_starting_cash',
+  'simulated_slippage_bps',
+  'simulated_commission'
+] as const;
+
+export type AccountSettingKey = typeof ACCOUNT_SETTING_KEYS[number];
+
+export type BrokerAccountSettings = Partial<Record<AccountSettingKey, any>>;
+
+export interface BrokerAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  broker: Broker;
+  paper_trading: boolean;
+  api_key: string | null;
+  secret_key: string | null;
+  settings: BrokerAccountSettings;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const MAX_BROKER_ACCOUNT_NAME_LENGTH = 60;
+
+/**
+ * Keeps only the overridable keys that have a value
+ */
+export function pickAccountSettings(value: unknown): BrokerAccountSettings {
+  if (!value || typeof value !== 'object') return {};
+
+  const settings: BrokerAccountSettings = {};
+  for (const key of ACCOUNT_SETTING_KEYS) {
+    const setting = (value as Record<string, unknown>)[key];
+    if (setting !== undefined && setting !== null) {
+      settings[key] = setting;
+    }
+  }
+  return settings;
+}
+
+export async function loadBrokerAccount(
+  supabase: any,
+  userId: string,
+  accountId: string
+): Promise<BrokerAccount | null> {
+  const { data, error } = await supabase
+    .from('portfolios')
+    .select('id, user_id, name, broker, paper_trading, api_key, secret_key, settings')
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`❌ Failed to load broker account ${accountId}:`, error.message);
+    return null;
+  }
+  return data ? { ...data, settings: pickAccountSettings(data.settings) } : null;
+}
+
+/**
+ * Returns apiSettings with the account's keys in the matching paper/live slot
+ * and its setting overrides applied. Accounts at other brokers keep their keys
+ * in broker_* fields so Alpaca market data still uses the main account's keys.
+ */
+export function applyBrokerAccount(apiSettings: any, account: BrokerAccount): any {
+  const overrides = pickAccountSettings(account.settings);
+  const accountFields = {
+    broker: account.broker,
+    broker_account_id: account.id,
+    broker_account_name: account.name,
+    broker_account_settings: overrides
+  };
+
+  if (account.broker !== BROKER.ALPACA) {
+    return {
+      ...apiSettings,
+      ...overrides,
+      ...accountFields,
+      broker_paper_trading: account.paper_trading,
+      broker_api_key: account.api_key,
+      broker_secret_key: account.secret_key
+    };
+  }
+
+  const slot = account.paper_trading ? 'paper' : 'live';
+  return {
+    ...apiSettings,
+    ...overrides,
+    alpaca_paper_trading: account.paper_trading,
+    [`alpaca_${slot}_api_key`]: account.api_key,
+    [`alpaca_${slot}_secret_key`]: account.secret_key,
+    // Coordinators also pass the active pair flattened
+    alpaca_api_key: account.api_key,
+    alpaca_secret_key: account.secret_key,
+    ...accountFields
+  };
+}
+
+/**
+ * Overlays the account's setting overrides onto a row read straight from api_settings
+ */
+export function withAccountSettings<T extends Record<string, any> | null>(row: T, apiSettings: any): T {
+  if (!row || !apiSettings?.broker_account_settings) return row;
+  return { ...row, ...pickAccountSettings(apiSettings.broker_account_settings) };
+}
+
+/**
+ * Resolves apiSettings for a broker account. Settings that already belong to
+ * the account are returned as-is; a missing account id keeps the main account.
+ */
+export async function resolveAccountSettings(
+  supabase: any,
+  userId: string,
+  apiSettings: any,
+  accountId?: string | null
+): Promise<any> {
+  if (!accountId || apiSettings?.broker_account_id === accountId) {
+    return apiSettings;
+  }
+
+  const account = await loadBrokerAccount(supabase, userId, accountId);
+  if (!account) {
+    throw new Error('Broker account not found');
+  }
+  console.log(`🏦 Using ${BROKER_LABELS[account.broker] ?? account.broker} account "${account.name}" (${account.paper_trading ? 'paper' : 'live'})`);
+  return applyBrokerAccount(apiSettings, account);
+}
+
+/**
+ * Account id recorded on a workflow row (rebalance_requests, analysis_history),
+ * used when a callback arrives without settings
+ */
+export async function loadRowPortfolioId(
+  supabase: any,
+  table: 'rebalance_requests' | 'analysis_history',
+  id: string
+): Promise<string | null> {
+  const { data } = await supabase
+    .from(table)
+    .select('portfolio_id')
+    .eq('id', id)
+    .maybeSingle();
+  return data?.portfolio_id ?? null;
+}
@@ -0,0 +1,179 @@
+/**
+ * Alpaca broker adapter
+ *
+ * Alpaca's payloads are the normalized shape, so this adapter mostly forwards
+ * requests. Market data comes from data.alpaca.markets with the same keys;
+ * crypto pairs (BTC/USD) use the v1beta3 crypto endpoints.
+ */
+
+import { BROKER, BROKER_LABELS } from '../brokerAccounts.ts';
+import { fetchAccountActivities } from '../portfolio/alpacaActivities.ts';
+import { createAlpacaHeaders } from '../portfolio/config.ts';
+import { fetchWithTimeout, requestJson } from './request.ts';
+import type {
+  BrokerAdapter,
+  BrokerAsset,
+  BrokerBar,
+  BrokerOrder,
+  BrokerPosition,
+  BrokerQuote,
+  BrokerSnapshot
+} from './types.ts';
+
+export const ALPACA_DATA_URL = 'https://data.alpaca.markets';
+
+// Raw proxy requests for these prefixes go to the market data host
+const DATA_ENDPOINT_PREFIXES = ['/v2/stocks', '/v1beta3/crypto'];
+
+export interface AlpacaBrokerConfig {
+  apiKey: string;
+  secretKey: string;
+  isPaper: boolean;
+}
+
+export interface AlpacaBrokerAdapter extends BrokerAdapter {
+  baseUrl: string;
+  /**
+   * Raw passthrough for Alpaca endpoints the adapter interface does not cover
+   */
+  request<T = any>(method: string, endpoint: string, options?: { params?: Record<string, any>; body?: unknown }): Promise<T>;
+}
+
+export function createAlpacaBroker(config: AlpacaBrokerConfig): AlpacaBrokerAdapter {
+  const label = BROKER_LABELS[BROKER.ALPACA];
+  const baseUrl = config.isPaper ? 'https://paper-api.alpaca.markets' : 'https://api.alpaca.markets';
+  const headers = createAlpacaHeaders(config.apiKey, config.secretKey) as Record<string, string>;
+
+  const get = <T>(url: string, notFoundAsNull = false) =>
+    requestJson<T>(label, url, { headers }, { notFoundAsNull });
+
+  const withParams = (url: string, params: Record<string, string | undefined>) => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') search.set(key, value);
+    }
+    const query = search.toString();
+    return query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+  };
+
+  return {
+    broker: BROKER.ALPACA,
+    label,
+    isPaper: config.isPaper,
+    baseUrl,
+    capabilities: {
+      notionalOrders: true,
+      fractionalShares: true,
+      trailingStopOrders: true,
+      bracketOrders: true,
+      ocoOrders: true,
+      crypto: true,
+      portfolioHistory: true
+    },
+
+    getAccount: () => get(`${baseUrl}/v2/account`),
+
+    getPositions: async () => (await get<BrokerPosition[]>(`${baseUrl}/v2/positions`)) || [],
+
+    getPosition: (symbol) => get(`${baseUrl}/v2/positions/${encodeURIComponent(symbol)}`, true),
+
+    closePosition: (symbol) => requestJson<BrokerOrder | null>(
+      label,
+      `${baseUrl}/v2/positions/${encodeURIComponent(symbol)}`,
+      { method: 'DELETE', headers },
+      { notFoundAsNull: true }
+    ),
+
+    getOrders: async (query = {}) => (await get<BrokerOrder[]>(withParams(`${baseUrl}/v2/orders`, {
+      status: query.status ?? 'all',
+      limit: String(query.limit ?? 500)
+    }))) || [],
+
+    getOrder: (orderId) => get(`${baseUrl}/v2/orders/${encodeURIComponent(orderId)}`, true),
+
+    submitOrder: (order) => requestJson<BrokerOrder>(label, `${baseUrl}/v2/orders`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(order)
+    }),
+
+    cancelOrder: async (orderId) => {
+      await requestJson(label, `${baseUrl}/v2/orders/${encodeURIComponent(orderId)}`, { method: 'DELETE', headers });
+    },
+
+    getAsset: (symbol) => get<BrokerAsset | null>(`${baseUrl}/v2/assets/${encodeURIComponent(symbol)}`, true),
+
+    listAssets: async () => (await get<BrokerAsset[]>(withParams(`${baseUrl}/v2/assets`, {
+      status: 'active',
+      asset_class: 'us_equity'
+    }))) || [],
+
+    getLatestQuotes: async (symbols, options = {}) => {
+      if (symbols.length === 0) return {};
+      const url = options.crypto
+        ? withParams(`${ALPACA_DATA_URL}/v1beta3/crypto/us/latest/quotes`, { symbols: symbols.join(',') })
+        : withParams(`${ALPACA_DATA_URL}/v2/stocks/quotes/latest`, { symbols: symbols.join(',') });
+      const data = await get<{ quotes?: Record<string, BrokerQuote> }>(url);
+      return data?.quotes || {};
+    },
+
+    getSnapshots: async (symbols, options = {}) => {
+      if (symbols.length === 0) return {};
+      if (options.crypto) {
+        const data = await get<{ snapshots?: Record<string, BrokerSnapshot> }>(
+          withParams(`${ALPACA_DATA_URL}/v1beta3/crypto/us/snapshots`, { symbols: symbols.join(',') })
+        );
+        return data?.snapshots || {};
+      }
+      // Stock snapshots are keyed by symbol at the top level
+      return (await get<Record<string, BrokerSnapshot>>(
+        withParams(`${ALPACA_DATA_URL}/v2/stocks/snapshots`, { symbols: symbols.join(',') })
+      )) || {};
+    },
+
+    getBars: async (symbols, options) => {
+      const collected: Record<string, BrokerBar[]> = {};
+      if (symbols.length === 0) return collected;
+
+      const path = options.crypto ? '/v1beta3/crypto/us/bars' : '/v2/stocks/bars';
+      let pageToken: string | undefined;
+
+      do {
+        const url = withParams(`${ALPACA_DATA_URL}${path}`, {
+          symbols: symbols.join(','),
+          timeframe: options.timeframe,
+          start: options.start,
+          end: options.end,
+          limit: String(options.limit ?? 10000),
+          ...(options.crypto ? {} : { adjustment: options.adjustment ?? 'raw', feed: 'iex' }),
+          page_token: pageToken
+        });
+        const data = await get<{ bars?: Record<string, BrokerBar[]> | null; next_page_token?: string | null }>(url);
+
+        for (const [symbol, bars] of Object.entries(data?.bars || {})) {
+          collected[symbol] = [...(collected[symbol] || []), ...(bars || [])];
+        }
+        pageToken = data?.next_page_token || undefined;
+      } while (pageToken && (!options.limit || Object.values(collected).every(bars => bars.length < options.limit!)));
+
+      return collected;
+    },
+
+    getActivities: (activityTypes, options = {}) =>
+      fetchAccountActivities(fetchWithTimeout, baseUrl, headers, activityTypes, options),
+
+    getPortfolioHistory: (params) => get(withParams(`${baseUrl}/v2/account/portfolio/history`, params)),
+
+    request: (method, endpoint, options = {}) => {
+      const host = DATA_ENDPOINT_PREFIXES.some(prefix => endpoint.startsWith(prefix)) ? ALPACA_DATA_URL : baseUrl;
+      const params = Object.fromEntries(
+        Object.entries(options.params || {}).map(([key, value]) => [key, value === undefined ? undefined : String(value)])
+      );
+      return requestJson(label, withParams(`${host}${endpoint}`, params), {
+        method: method || 'GET',
+        headers,
+        body: options.body ? JSON.stringify(options.body) : undefined
+      });
+    }
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Broker selection
+ *
+ * Resolves the adapter for the account the request runs against. The main
+ * account in api_settings trades through Alpaca, or through the simulator when
+ * simulated_trading is on; named accounts carry their own broker (see
+ * brokerAccounts.ts), either overlaid onto apiSettings or passed directly.
+ */
+
+import { BROKER, BROKER_LABELS, type Broker, type BrokerAccount } from '../brokerAccounts.ts';
+import { extractAlpacaCredentials } from '../portfolio/config.ts';
+import type { LatestQuote } from '../marketData.ts';
+import { createAlpacaBroker } from './alpaca.ts';
+import {
+  createSimulatedBroker,
+  DEFAULT_SIMULATED_SLIPPAGE_BPS,
+  DEFAULT_SIMULATED_STARTING_CASH
+} from './simulated.ts';
+import { createTradierBroker } from './tradier.ts';
+import type { BrokerAdapter } from './types.ts';
+
+export * from './types.ts';
+export { createAlpacaBroker, type AlpacaBrokerAdapter } from './alpaca.ts';
+export { createTradierBroker } from './tradier.ts';
+export { createSimulatedBroker } from './simulated.ts';
+
+export interface BrokerCredentials {
+  broker: Broker;
+  apiKey: string;
+  secretKey: string;
+  isPaperTrading: boolean;
+}
+
+/**
+ * Credentials for the account's broker. For Tradier the API key is the access
+ * token and the secret key holds the account number; the simulator needs none.
+ */
+export function resolveBrokerCredentials(apiSettings: any, account?: BrokerAccount | null): BrokerCredentials {
+  const broker: Broker = account?.broker
+    ?? apiSettings?.broker
+    ?? (apiSettings?.simulated_trading ? BROKER.SIMULATED : BROKER.ALPACA);
+
+  if (broker === BROKER.SIMULATED) {
+    return { broker, apiKey: '', secretKey: '', isPaperTrading: true };
+  }
+
+  if (broker === BROKER.ALPACA) {
+    const { apiKey, secretKey, isPaperTrading } = extractAlpacaCredentials(apiSettings, account);
+    return { broker, apiKey, secretKey, isPaperTrading };
+  }
+
+  const apiKey = account ? account.api_key : apiSettings?.broker_api_key;
+  const secretKey = account ? account.secret_key : apiSettings?.broker_secret_key;
+  const isPaperTrading = account ? account.paper_trading : (apiSettings?.broker_paper_trading ?? true);
+
+  if (!apiKey || !secretKey) {
+    const accountName = account?.name ?? apiSettings?.broker_account_name;
+    throw new Error(`${BROKER_LABELS[broker] ?? broker} credentials not configured${accountName ? ` for account "${accountName}"` : ''}`);
+  }
+  return { broker, apiKey, secretKey, isPaperTrading };
+}
+
+export function hasBrokerCredentials(apiSettings: any): boolean {
+  try {
+    resolveBrokerCredentials(apiSettings);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function createBroker(apiSettings: any, account?: BrokerAccount | null): BrokerAdapter {
+  const credentials = resolveBrokerCredentials(apiSettings, account);
+
+  switch (credentials.broker) {
+    case BROKER.ALPACA:
+      return createAlpacaBroker({
+        apiKey: credentials.apiKey,
+        secretKey: credentials.secretKey,
+        isPaper: credentials.isPaperTrading
+      });
+    case BROKER.TRADIER:
+      return createTradierBroker({
+        accessToken: credentials.apiKey,
+        accountId: credentials.secretKey,
+        isPaper: credentials.isPaperTrading
+      });
+    case BROKER.SIMULATED: {
+      // Account overrides win over the main account's simulator settings
+      const settings = { ...apiSettings, ...(account?.settings ?? {}) };
+      const userId = account?.user_id ?? apiSettings?.user_id;
+      if (!userId) {
+        throw new Error('Simulated broker needs the user id of the account');
+      }
+      return createSimulatedBroker({
+        userId,
+        portfolioId: account?.id ?? apiSettings?.broker_account_id ?? null,
+        startingCash: Number(settings.simulated_starting_cash) || DEFAULT_SIMULATED_STARTING_CASH,
+        slippageBps: Number(settings.simulated_slippage_bps ?? DEFAULT_SIMULATED_SLIPPAGE_BPS) || 0,
+        commission: Number(settings.simulated_commission) || 0
+      });
+    }
+    default:
+      throw new Error(`Unsupported broker: ${credentials.broker}`);
+  }
+}
+
+/**
+ * Latest bid/ask/last for one symbol from the broker's snapshot, in the shape
+ * order validation expects
+ */
+export async function fetchBrokerQuote(
+  broker: BrokerAdapter,
+  symbol: string,
+  isCrypto: boolean = symbol.includes('/')
+): Promise<LatestQuote | null> {
+  try {
+    const snapshots = await broker.getSnapshots([symbol], { crypto: isCrypto });
+    const snapshot = snapshots[symbol] ?? snapshots[symbol.replace('/', '')];
+
+    const bid = snapshot?.latestQuote?.bp && snapshot.latestQuote.bp > 0 ? snapshot.latestQuote.bp : null;
+    const ask = snapshot?.latestQuote?.ap && snapshot.latestQuote.ap > 0 ? snapshot.latestQuote.ap : null;
+    const last = snapshot?.latestTrade?.p && snapshot.latestTrade.p > 0 ? snapshot.latestTrade.p : null;
+
+    if (bid === null && ask === null && last === null) {
+      console.warn(`⚠️ No ${broker.label} quote available for ${symbol}`);
+      return null;
+    }
+
+    return {
+      symbol,
+      bid,
+      ask,
+      last,
+      timestamp: snapshot?.latestQuote?.t || snapshot?.latestTrade?.t || null
+    };
+  } catch (error) {
+    console.error(`Error fetching latest ${broker.label} quote for ${symbol}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * HTTP helpers shared by the broker adapters
+ */
+
+import { createBrokerRequestError } from './types.ts';
+
+/**
+ * fetch with a per-attempt timeout; only timeouts are retried
+ */
+export async function fetchWithTimeout(url: string, options: RequestInit = {}, timeoutMs = 15000, retries = 1): Promise<Response> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await fetch(url, { ...options, signal: controller.signal });
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        throw error;
+      }
+      console.error(`Request timeout after ${timeoutMs}ms (attempt ${attempt + 1}/${retries + 1})`);
+      if (attempt === retries) {
+        throw new Error(`Request timed out after ${retries + 1} attempts`);
+      }
+      // Wait a bit before retry
+      await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  throw new Error('Failed after all retries');
+}
+
+/**
+ * Sends a request and parses the JSON body. Non-2xx responses throw a
+ * BrokerRequestError carrying the status and parsed error body; notFoundAsNull
+ * turns a 404 into null for lookups of a single position, order or asset.
+ */
+export async function requestJson<T = any>(
+  label: string,
+  url: string,
+  init: RequestInit = {},
+  options: { notFoundAsNull?: boolean; timeoutMs?: number; retries?: number } = {}
+): Promise<T> {
+  const response = await fetchWithTimeout(url, init, options.timeoutMs ?? 15000, options.retries ?? 1);
+  const text = await response.text();
+
+  let body: any = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON - keep the raw text
+    body = text;
+  }
+
+  if (response.status === 404 && options.notFoundAsNull) {
+    return null as T;
+  }
+
+  if (!response.ok) {
+    const detail = typeof body === 'string'
+      ? body
+      : body?.message || body?.error || body?.fault?.faultstring || JSON.stringify(body);
+    throw createBrokerRequestError(`${label} API error (${response.status}): ${detail || response.statusText}`, response.status, body);
+  }
+
+  return body as T;
+}
@@ -0,0 +1,697 @@
+/**
+ * Simulated broker adapter
+ *
+ * Paper trading without a brokerage. Cash, positions and orders live in the
+ * simulated_accounts, simulated_positions and simulated_orders tables, and
+ * prices come from market_data_cache, the bars the analysis workflow already
+ * caches - a symbol can only be traded once it has been analyzed.
+ *
+ * Market orders fill at the latest cached close plus slippage. Limit and stop
+ * orders fill right away when the latest close crosses their price; otherwise
+ * they stay open and are checked against cached daily bars dated on or after
+ * the submission day whenever the account is read, so no background job is
+ * needed. Fills and their cash/position updates run in fill_simulated_order.
+ *
+ * Limits compared to Alpaca: US equities only (no crypto), long positions only,
+ * no trailing stop, bracket or OCO orders, and no portfolio history.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { BROKER, BROKER_LABELS } from '../brokerAccounts.ts';
+import { ALPACA_ORDER_STATUS } from '../statusTypes.ts';
+import { getNYCurrentDate } from '../timezoneUtils.ts';
+import {
+  createBrokerRequestError,
+  type BrokerAccountSnapshot,
+  type BrokerAdapter,
+  type BrokerBar,
+  type BrokerOrder,
+  type BrokerOrderRequest,
+  type BrokerPosition,
+  type BrokerQuote,
+  type BrokerSnapshot
+} from './types.ts';
+
+export interface SimulatedBrokerConfig {
+  userId: string;
+  portfolioId: string | null;   // null for the main account
+  startingCash: number;
+  slippageBps: number;
+  commission: number;           // flat, per fill
+}
+
+export const DEFAULT_SIMULATED_STARTING_CASH = 100000;
+export const DEFAULT_SIMULATED_SLIPPAGE_BPS = 5;
+
+// market_data_cache timeframes that hold daily bars (see technicalIndicators.ts)
+const DAILY_CACHE_TIMEFRAMES = ['1Y', '6M'];
+
+const ORDER_TYPES = ['market', 'limit', 'stop', 'stop_limit'];
+const CLOSED_STATUSES = [
+  ALPACA_ORDER_STATUS.FILLED,
+  ALPACA_ORDER_STATUS.CANCELED,
+  ALPACA_ORDER_STATUS.EXPIRED,
+  ALPACA_ORDER_STATUS.REJECTED
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface CachedPrices {
+  daily: BrokerBar[];                               // oldest first
+  last: { price: number; t: string | null } | null;
+}
+
+let serviceClient: any = null;
+
+// The adapter is created synchronously wherever a broker is needed, so it keeps its own service-role client
+function getServiceClient(): any {
+  if (serviceClient) return serviceClient;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing Supabase service credentials for the simulated broker');
+  }
+
+  serviceClient = createClient(supabaseUrl, supabaseServiceKey);
+  return serviceClient;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toDecimalString = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(toNumber(value));
+
+const roundPrice = (price: number): number => Math.round(price * 10000) / 10000;
+
+// Calendar date in New York of a timestamp, matching the cached bar dates
+const toNYDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+
+function toBar(row: any): BrokerBar | null {
+  const date = String(row?.date ?? '').split('T')[0];
+  const bar = {
+    t: `${date}T00:00:00Z`,
+    o: toNumber(row?.open),
+    h: toNumber(row?.high),
+    l: toNumber(row?.low),
+    c: toNumber(row?.close),
+    v: toNumber(row?.volume)
+  };
+  return date && bar.c > 0 ? bar : null;
+}
+
+function mapOrder(row: any): BrokerOrder {
+  return {
+    id: row.id,
+    client_order_id: row.client_order_id ?? null,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    order_type: row.type,
+    order_class: 'simple',
+    time_in_force: row.time_in_force,
+    qty: toDecimalString(row.qty),
+    notional: toDecimalString(row.notional),
+    filled_qty: toDecimalString(row.filled_qty) ?? '0',
+    filled_avg_price: toDecimalString(row.filled_avg_price),
+    limit_price: toDecimalString(row.limit_price),
+    stop_price: toDecimalString(row.stop_price),
+    status: row.status,
+    created_at: row.created_at ?? null,
+    submitted_at: row.created_at ?? null,
+    filled_at: row.filled_at ?? null,
+    canceled_at: row.canceled_at ?? null,
+    expired_at: row.status === ALPACA_ORDER_STATUS.EXPIRED ? row.updated_at ?? null : null,
+    updated_at: row.updated_at ?? null,
+    asset_class: 'us_equity',
+    commission: toDecimalString(row.commission),
+    reject_reason: row.reject_reason ?? null,
+    legs: null
+  };
+}
+
+export function createSimulatedBroker(config: SimulatedBrokerConfig): BrokerAdapter {
+  const label = BROKER_LABELS[BROKER.SIMULATED];
+  const slippage = Math.max(config.slippageBps, 0) / 10000;
+  const commission = Math.max(config.commission, 0);
+
+  // Cached once per adapter - one request never needs fresher prices
+  const priceCache = new Map<string, Promise<CachedPrices>>();
+  let accountPromise: Promise<any> | null = null;
+
+  const loadPrices = (symbol: string): Promise<CachedPrices> => {
+    const key = symbol.toUpperCase();
+    if (!priceCache.has(key)) {
+      priceCache.set(key, (async (): Promise<CachedPrices> => {
+        const { data, error } = await getServiceClient()
+          .from('market_data_cache')
+          .select('timeframe, historical_data, updated_at')
+          .eq('ticker', key)
+          .order('updated_at', { ascending: false })
+          .limit(10);
+
+        if (error) {
+          console.error(`❌ Failed to read cached prices for ${key}:`, error.message);
+          return { daily: [], last: null };
+        }
+
+        const rows = (data || []).filter((row: any) => Array.isArray(row.historical_data) && row.historical_data.length > 0);
+
+        // The newest row of any timeframe has the latest close
+        const newest = rows[0];
+        const lastBar = newest ? toBar(newest.historical_data[newest.historical_data.length - 1]) : null;
+        const last = lastBar ? { price: lastBar.c, t: newest.updated_at ?? lastBar.t } : null;
+
+        // Older rows fill in earlier days; newer rows win for the same day
+        const byDate = new Map<string, BrokerBar>();
+        for (const row of [...rows].reverse()) {
+          if (!DAILY_CACHE_TIMEFRAMES.includes(row.timeframe)) continue;
+          for (const entry of row.historical_data) {
+            const bar = toBar(entry);
+            if (bar) byDate.set(bar.t, bar);
+          }
+        }
+        const daily = [...byDate.values()].sort((a, b) => a.t.localeCompare(b.t));
+
+        return { daily, last };
+      })());
+    }
+    return priceCache.get(key)!;
+  };
+
+  const loadAccount = (): Promise<any> => {
+    if (!accountPromise) {
+      accountPromise = (async () => {
+        const supabase = getServiceClient();
+        const select = () => {
+          const query = supabase
+            .from('simulated_accounts')
+            .select('*')
+            .eq('user_id', config.userId);
+          return (config.portfolioId ? query.eq('portfolio_id', config.portfolioId) : query.is('portfolio_id', null)).maybeSingle();
+        };
+
+        const { data: existing, error } = await select();
+        if (error) throw new Error(`Failed to load simulated account: ${error.message}`);
+        if (existing) return existing;
+
+        const { data: created, error: insertError } = await supabase
+          .from('simulated_accounts')
+          .insert({
+            user_id: config.userId,
+            portfolio_id: config.portfolioId,
+            starting_cash: config.startingCash,
+            cash: config.startingCash
+          })
+          .select('*')
+          .single();
+
+        if (!insertError) {
+          console.log(`🧪 Opened simulated account with $${config.startingCash} for user ${config.userId}`);
+          return created;
+        }
+        // Another request opened it first
+        if (insertError.code === '23505') {
+          const { data: raced } = await select();
+          if (raced) return raced;
+        }
+        throw new Error(`Failed to open simulated account: ${insertError.message}`);
+      })();
+      // Let a later call retry after a failure
+      accountPromise.catch(() => { accountPromise = null; });
+    }
+    return accountPromise;
+  };
+
+  const withSlippage = (price: number, side: string) =>
+    roundPrice(side === 'buy' ? price * (1 + slippage) : price * (1 - slippage));
+
+  /**
+   * Price a resting order fills at within one bar, or null when the bar does
+   * not reach it. Stops fill as market orders once triggered, so they carry
+   * slippage; gaps through the level fill at the open.
+   */
+  const fillPriceInBar = (order: any, bar: BrokerBar): number | null => {
+    const isBuy = order.side === 'buy';
+    const limit = toNumber(order.limit_price);
+    const stop = toNumber(order.stop_price);
+
+    if (order.type === 'limit') {
+      if (isBuy) return bar.l <= limit ? Math.min(limit, bar.o) : null;
+      return bar.h >= limit ? Math.max(limit, bar.o) : null;
+    }
+
+    const triggered = isBuy ? bar.h >= stop : bar.l <= stop;
+    if (!triggered) return null;
+    const triggerPrice = isBuy ? Math.max(stop, bar.o) : Math.min(stop, bar.o);
+
+    if (order.type === 'stop') {
+      return withSlippage(triggerPrice, order.side);
+    }
+
+    // stop_limit: a limit order from the trigger on
+    if (isBuy) {
+      if (triggerPrice <= limit) return triggerPrice;
+      return bar.l <= limit ? limit : null;
+    }
+    if (triggerPrice >= limit) return triggerPrice;
+    return bar.h >= limit ? limit : null;
+  };
+
+  // Price an order fills at on submission, or null when it has to rest
+  const immediateFillPrice = (order: any, last: number): number | null => {
+    const isBuy = order.side === 'buy';
+    const limit = toNumber(order.limit_price);
+    const stop = toNumber(order.stop_price);
+
+    switch (order.type) {
+      case 'market':
+        return withSlippage(last, order.side);
+      case 'limit':
+        if (isBuy) return last <= limit ? Math.min(withSlippage(last, 'buy'), limit) : null;
+        return last >= limit ? Math.max(withSlippage(last, 'sell'), limit) : null;
+      case 'stop':
+        return (isBuy ? last >= stop : last <= stop) ? withSlippage(last, order.side) : null;
+      case 'stop_limit':
+        if (!(isBuy ? last >= stop : last <= stop)) return null;
+        if (isBuy) return last <= limit ? Math.min(withSlippage(last, 'buy'), limit) : null;
+        return last >= limit ? Math.max(withSlippage(last, 'sell'), limit) : null;
+      default:
+        return null;
+    }
+  };
+
+  const fillOrder = async (orderId: string, price: number): Promise<any> => {
+    const { data, error } = await getServiceClient().rpc('fill_simulated_order', {
+      p_order_id: orderId,
+      p_fill_price: roundPrice(price),
+      p_commission: commission
+    });
+    if (error) throw new Error(`Failed to fill simulated order: ${error.message}`);
+    return data;
+  };
+
+  /**
+   * Fills or expires open orders against the cached bars since they were placed.
+   * Day orders that did not fill on their submission day expire.
+   */
+  const processOpenOrders = async (account: any): Promise<void> => {
+    const supabase = getServiceClient();
+    const { data: openOrders, error } = await supabase
+      .from('simulated_orders')
+      .select('*')
+      .eq('account_id', account.id)
+      .eq('status', ALPACA_ORDER_STATUS.NEW)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('❌ Failed to load open simulated orders:', error.message);
+      return;
+    }
+
+    const today = getNYCurrentDate();
+    for (const order of openOrders || []) {
+      const submittedDate = toNYDate(order.created_at);
+      const lastEligibleDate = order.time_in_force === 'day' ? submittedDate : today;
+      const { daily } = await loadPrices(order.symbol);
+
+      let fillPrice: number | null = null;
+      for (const bar of daily) {
+        const barDate = bar.t.split('T')[0];
+        if (barDate < submittedDate || barDate > lastEligibleDate) continue;
+        fillPrice = fillPriceInBar(order, bar);
+        if (fillPrice !== null) break;
+      }
+
+      if (fillPrice !== null) {
+        const filled = await fillOrder(order.id, fillPrice);
+        console.log(`🧪 Simulated ${order.type} ${order.side} ${order.symbol} ${filled?.status === ALPACA_ORDER_STATUS.FILLED ? `filled at $${fillPrice}` : `rejected: ${filled?.reject_reason}`}`);
+      } else if (order.time_in_force === 'day' && submittedDate < today) {
+        await supabase
+          .from('simulated_orders')
+          .update({ status: ALPACA_ORDER_STATUS.EXPIRED })
+          .eq('id', order.id)
+          .eq('status', ALPACA_ORDER_STATUS.NEW);
+      }
+    }
+  };
+
+  // Account row with open orders settled; the matching runs once per adapter
+  let settledPromise: Promise<any> | null = null;
+  const loadSettledAccount = (): Promise<any> => {
+    if (!settledPromise) {
+      settledPromise = loadAccount().then(async (account) => {
+        await processOpenOrders(account);
+        return account;
+      });
+      settledPromise.catch(() => { settledPromise = null; });
+    }
+    return settledPromise;
+  };
+
+  const loadOrderRows = async (query: { status?: 'open' | 'closed' | 'all'; limit?: number } = {}): Promise<any[]> => {
+    const account = await loadSettledAccount();
+    let request = getServiceClient()
+      .from('simulated_orders')
+      .select('*')
+      .eq('account_id', account.id);
+
+    if (query.status === 'open') {
+      request = request.eq('status', ALPACA_ORDER_STATUS.NEW);
+    } else if (query.status === 'closed') {
+      request = request.in('status', CLOSED_STATUSES);
+    }
+
+    const { data, error } = await request
+      .order('created_at', { ascending: false })
+      .limit(query.limit ?? 500);
+    if (error) throw new Error(`Failed to load simulated orders: ${error.message}`);
+    return data || [];
+  };
+
+  const getPositions = async (): Promise<BrokerPosition[]> => {
+    const account = await loadSettledAccount();
+    const { data, error } = await getServiceClient()
+      .from('simulated_positions')
+      .select('*')
+      .eq('account_id', account.id)
+      .order('symbol', { ascending: true });
+    if (error) throw new Error(`Failed to load simulated positions: ${error.message}`);
+
+    return Promise.all((data || []).map(async (holding: any): Promise<BrokerPosition> => {
+      const qty = toNumber(holding.qty);
+      const avgEntryPrice = toNumber(holding.avg_entry_price);
+      const { daily, last } = await loadPrices(holding.symbol);
+      const currentPrice = last?.price ?? avgEntryPrice;
+      // The newest daily bar is today's while the market is open
+      const previousBar = daily.length > 1 ? daily[daily.length - 2] : null;
+      const previousClose = previousBar?.c ?? currentPrice;
+      const costBasis = qty * avgEntryPrice;
+      const marketValue = qty * currentPrice;
+      const unrealizedPl = marketValue - costBasis;
+
+      return {
+        symbol: holding.symbol,
+        qty: String(qty),
+        side: 'long',
+        asset_class: 'us_equity',
+        exchange: null,
+        avg_entry_price: String(avgEntryPrice),
+        cost_basis: String(costBasis),
+        current_price: String(currentPrice),
+        lastday_price: String(previousClose),
+        market_value: String(marketValue),
+        unrealized_pl: String(unrealizedPl),
+        unrealized_plpc: String(costBasis ? unrealizedPl / costBasis : 0),
+        unrealized_intraday_pl: String(qty * (currentPrice - previousClose)),
+        change_today: String(previousClose ? (currentPrice - previousClose) / previousClose : 0),
+        qty_available: String(qty)
+      };
+    }));
+  };
+
+  const getOrder = async (orderId: string): Promise<BrokerOrder | null> => {
+    if (!UUID_PATTERN.test(orderId)) return null;
+    const account = await loadSettledAccount();
+    const { data, error } = await getServiceClient()
+      .from('simulated_orders')
+      .select('*')
+      .eq('id', orderId)
+      .eq('account_id', account.id)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load simulated order: ${error.message}`);
+    return data ? mapOrder(data) : null;
+  };
+
+  const submitOrder = async (order: BrokerOrderRequest): Promise<BrokerOrder> => {
+    if (order.order_class && order.order_class !== 'simple') {
+      throw createBrokerRequestError(`${label} ${order.order_class} orders are not supported`, 422);
+    }
+    if (!ORDER_TYPES.includes(order.type)) {
+      throw createBrokerRequestError(`${label} does not support ${order.type} orders`, 422);
+    }
+    if (!['day', 'gtc'].includes(order.time_in_force)) {
+      throw createBrokerRequestError(`${label} only accepts day or gtc time in force`, 422);
+    }
+    if (order.symbol.includes('/')) {
+      throw createBrokerRequestError(`${label} does not trade crypto`, 422);
+    }
+
+    const qty = order.qty !== undefined ? toNumber(order.qty) : null;
+    const notional = order.notional !== undefined ? toNumber(order.notional) : null;
+    if (notional !== null && order.type !== 'market') {
+      throw createBrokerRequestError(`${label} only accepts dollar amounts on market orders`, 422);
+    }
+    if (!(qty && qty > 0) && !(notional && notional > 0)) {
+      throw createBrokerRequestError(`${label} orders need a positive qty or notional`, 422);
+    }
+    if ((order.type === 'limit' || order.type === 'stop_limit') && !(toNumber(order.limit_price) > 0)) {
+      throw createBrokerRequestError(`${label} ${order.type} orders need a limit_price`, 422);
+    }
+    if ((order.type === 'stop' || order.type === 'stop_limit') && !(toNumber(order.stop_price) > 0)) {
+      throw createBrokerRequestError(`${label} ${order.type} orders need a stop_price`, 422);
+    }
+
+    const symbol = order.symbol.toUpperCase();
+    const { last } = await loadPrices(symbol);
+    if (!last) {
+      throw createBrokerRequestError(`${label} has no cached price for ${symbol}. Run an analysis on it first so its market data is cached`, 422);
+    }
+
+    // Checked up front like a broker's buying power check; the fill checks again
+    const account = await loadSettledAccount();
+    const estimatedPrice = toNumber(order.limit_price) || toNumber(order.stop_price) || last.price;
+    if (order.side === 'buy') {
+      const cost = (notional ?? (qty! * estimatedPrice)) + commission;
+      const { data: current } = await getServiceClient().from('simulated_accounts').select('cash').eq('id', account.id).single();
+      if (cost > toNumber(current?.cash)) {
+        throw createBrokerRequestError(`${label} insufficient buying power: order needs $${cost.toFixed(2)}, cash is $${toNumber(current?.cash).toFixed(2)}`, 403);
+      }
+    } else {
+      const position = (await getPositions()).find(holding => holding.symbol === symbol);
+      const held = toNumber(position?.qty);
+      const wanted = qty ?? notional! / last.price;
+      if (wanted > held) {
+        throw createBrokerRequestError(`${label} insufficient qty available for order (requested ${wanted}, available ${held})`, 403);
+      }
+    }
+
+    const { data: row, error } = await getServiceClient()
+      .from('simulated_orders')
+      .insert({
+        account_id: account.id,
+        user_id: config.userId,
+        client_order_id: order.client_order_id ?? null,
+        symbol,
+        side: order.side,
+        type: order.type,
+        time_in_force: order.time_in_force,
+        qty,
+        notional,
+        limit_price: order.limit_price ? toNumber(order.limit_price) : null,
+        stop_price: order.stop_price ? toNumber(order.stop_price) : null,
+        status: ALPACA_ORDER_STATUS.NEW
+      })
+      .select('*')
+      .single();
+    if (error) throw new Error(`Failed to place simulated order: ${error.message}`);
+
+    const fillPrice = immediateFillPrice(row, last.price);
+    if (fillPrice === null) {
+      console.log(`🧪 Simulated ${order.type} ${order.side} ${symbol} resting (last $${last.price})`);
+      return mapOrder(row);
+    }
+
+    const filled = await fillOrder(row.id, fillPrice);
+    console.log(`🧪 Simulated ${order.type} ${order.side} ${symbol} ${filled?.status === ALPACA_ORDER_STATUS.FILLED ? `filled at $${fillPrice}` : `rejected: ${filled?.reject_reason}`}`);
+    return mapOrder(filled ?? row);
+  };
+
+  const getSnapshot = async (symbol: string): Promise<BrokerSnapshot | null> => {
+    const { daily, last } = await loadPrices(symbol);
+    if (!last) return null;
+    return {
+      latestQuote: { ap: last.price, as: 0, bp: last.price, bs: 0, t: last.t },
+      latestTrade: { p: last.price, t: last.t },
+      dailyBar: daily[daily.length - 1] ?? null,
+      prevDailyBar: daily[daily.length - 2] ?? null
+    };
+  };
+
+  return {
+    broker: BROKER.SIMULATED,
+    label,
+    isPaper: true,
+    capabilities: {
+      notionalOrders: true,
+      fractionalShares: true,
+      trailingStopOrders: false,
+      bracketOrders: false,
+      ocoOrders: false,
+      crypto: false,
+      portfolioHistory: false
+    },
+
+    getAccount: async (): Promise<BrokerAccountSnapshot> => {
+      const account = await loadSettledAccount();
+      const [positions, { data: current }] = await Promise.all([
+        getPositions(),
+        // Re-read cash after open orders settled
+        getServiceClient().from('simulated_accounts').select('cash').eq('id', account.id).single()
+      ]);
+      const cash = toNumber(current?.cash ?? account.cash);
+      const longMarketValue = positions.reduce((sum, position) => sum + toNumber(position.market_value), 0);
+      const intradayPl = positions.reduce((sum, position) => sum + toNumber(position.unrealized_intraday_pl), 0);
+      const equity = cash + longMarketValue;
+
+      return {
+        id: account.id,
+        account_number: `SIM-${String(account.id).slice(0, 8).toUpperCase()}`,
+        status: 'ACTIVE',
+        currency: 'USD',
+        buying_power: String(cash),
+        non_marginable_buying_power: String(cash),
+        cash: String(cash),
+        portfolio_value: String(equity),
+        equity: String(equity),
+        last_equity: String(equity - intradayPl),
+        long_market_value: String(longMarketValue),
+        short_market_value: '0',
+        multiplier: '1',
+        daytrade_count: 0,
+        pattern_day_trader: false,
+        created_at: account.created_at
+      };
+    },
+
+    getPositions,
+
+    getPosition: async (symbol) => {
+      const wanted = symbol.toUpperCase().replace('/', '');
+      return (await getPositions()).find(position => position.symbol === wanted) ?? null;
+    },
+
+    closePosition: async (symbol) => {
+      const wanted = symbol.toUpperCase().replace('/', '');
+      const position = (await getPositions()).find(holding => holding.symbol === wanted);
+      if (!position) return null;
+      return submitOrder({ symbol: wanted, side: 'sell', type: 'market', time_in_force: 'day', qty: position.qty });
+    },
+
+    getOrders: async (query = {}) => (await loadOrderRows({ status: query.status ?? 'all', limit: query.limit })).map(mapOrder),
+
+    getOrder,
+
+    submitOrder,
+
+    cancelOrder: async (orderId) => {
+      const order = await getOrder(orderId);
+      if (!order) {
+        throw createBrokerRequestError(`${label} order ${orderId} not found`, 404);
+      }
+      if (order.status !== ALPACA_ORDER_STATUS.NEW) {
+        throw createBrokerRequestError(`${label} order is already ${order.status}`, 422);
+      }
+
+      const { error } = await getServiceClient()
+        .from('simulated_orders')
+        .update({ status: ALPACA_ORDER_STATUS.CANCELED, canceled_at: new Date().toISOString() })
+        .eq('id', orderId)
+        .eq('status', ALPACA_ORDER_STATUS.NEW);
+      if (error) throw new Error(`Failed to cancel simulated order: ${error.message}`);
+    },
+
+    getAsset: async (symbol) => {
+      if (symbol.includes('/')) return null;
+      const { last } = await loadPrices(symbol);
+      if (!last) return null;
+      return {
+        symbol: symbol.toUpperCase(),
+        name: null,
+        status: 'active',
+        asset_class: 'us_equity',
+        exchange: null,
+        tradable: true,
+        fractionable: true
+      };
+    },
+
+    getLatestQuotes: async (symbols, options = {}) => {
+      if (options.crypto) return {};
+      const quotes: Record<string, BrokerQuote> = {};
+      for (const symbol of symbols) {
+        const snapshot = await getSnapshot(symbol);
+        if (snapshot?.latestQuote) quotes[symbol] = snapshot.latestQuote;
+      }
+      return quotes;
+    },
+
+    getSnapshots: async (symbols, options = {}) => {
+      if (options.crypto) return {};
+      const snapshots: Record<string, BrokerSnapshot> = {};
+      for (const symbol of symbols) {
+        const snapshot = await getSnapshot(symbol);
+        if (snapshot) snapshots[symbol] = snapshot;
+      }
+      return snapshots;
+    },
+
+    getBars: async (symbols, options) => {
+      if (!['1Day', '1D'].includes(options.timeframe)) {
+        throw createBrokerRequestError(`${label} only provides 1Day bars from the market data cache`, 422);
+      }
+      const collected: Record<string, BrokerBar[]> = {};
+      if (options.crypto) return collected;
+
+      const start = options.start?.split('T')[0];
+      const end = options.end?.split('T')[0];
+      for (const symbol of symbols) {
+        const { daily } = await loadPrices(symbol);
+        const bars = daily.filter(bar => {
+          const date = bar.t.split('T')[0];
+          return (!start || date >= start) && (!end || date <= end);
+        });
+        if (bars.length > 0) {
+          collected[symbol] = options.limit ? bars.slice(-options.limit) : bars;
+        }
+      }
+      return collected;
+    },
+
+    // Fills only; simulated accounts have no transfers, dividends or fees
+    getActivities: async (activityTypes, options = {}) => {
+      if (!activityTypes.map(type => type.toUpperCase()).includes('FILL')) return [];
+
+      const account = await loadSettledAccount();
+      let request = getServiceClient()
+        .from('simulated_orders')
+        .select('*')
+        .eq('account_id', account.id)
+        .eq('status', ALPACA_ORDER_STATUS.FILLED);
+      if (options.after) request = request.gt('filled_at', options.after);
+      if (options.until) request = request.lte('filled_at', options.until);
+
+      const { data, error } = await request.order('filled_at', { ascending: options.direction !== 'desc' });
+      if (error) throw new Error(`Failed to load simulated fills: ${error.message}`);
+
+      return (data || []).map((row: any) => ({
+        id: `${row.id}-fill`,
+        activity_type: 'FILL',
+        transaction_time: row.filled_at,
+        type: 'fill',
+        symbol: row.symbol,
+        side: row.side,
+        qty: String(toNumber(row.filled_qty)),
+        cum_qty: String(toNumber(row.filled_qty)),
+        leaves_qty: '0',
+        price: String(toNumber(row.filled_avg_price)),
+        order_id: row.id,
+        order_status: row.status
+      }));
+    }
+  };
+}
@@ -0,0 +1,545 @@
+/**
+ * Tradier broker adapter
+ *
+ * Tradier's brokerage REST API (api.tradier.com, sandbox.tradier.com for paper
+ * accounts) authenticated with an access token; the account number selects the
+ * brokerage account. Responses are mapped onto the Alpaca-shaped types.
+ *
+ * Limits compared to Alpaca: US equities only (no crypto), whole shares only,
+ * no notional, trailing stop, bracket or OCO orders, and no portfolio history.
+ * Tradier collections come back as an object for a single item, an array for
+ * several and the string "null" for none.
+ */
+
+import { BROKER, BROKER_LABELS } from '../brokerAccounts.ts';
+import { ALPACA_ORDER_STATUS, isAlpacaOrderTerminal, type AlpacaOrderStatus } from '../statusTypes.ts';
+import { requestJson } from './request.ts';
+import {
+  createBrokerRequestError,
+  type BrokerAccountSnapshot,
+  type BrokerAdapter,
+  type BrokerAsset,
+  type BrokerBar,
+  type BrokerOrder,
+  type BrokerOrderRequest,
+  type BrokerPosition,
+  type BrokerQuote,
+  type BrokerSnapshot
+} from './types.ts';
+
+export interface TradierBrokerConfig {
+  accessToken: string;
+  accountId: string;
+  isPaper: boolean;
+}
+
+const TRADABLE_QUOTE_TYPES = ['stock', 'etf'];
+
+// Tradier order status → Alpaca order status
+const ORDER_STATUS_MAP: Record<string, AlpacaOrderStatus> = {
+  pending: ALPACA_ORDER_STATUS.PENDING_NEW,
+  open: ALPACA_ORDER_STATUS.NEW,
+  partially_filled: ALPACA_ORDER_STATUS.PARTIALLY_FILLED,
+  filled: ALPACA_ORDER_STATUS.FILLED,
+  expired: ALPACA_ORDER_STATUS.EXPIRED,
+  canceled: ALPACA_ORDER_STATUS.CANCELED,
+  pending_cancel: ALPACA_ORDER_STATUS.PENDING_CANCEL,
+  rejected: ALPACA_ORDER_STATUS.REJECTED,
+  error: ALPACA_ORDER_STATUS.REJECTED,
+  calculated: ALPACA_ORDER_STATUS.ACCEPTED,
+  accepted_for_bidding: ALPACA_ORDER_STATUS.ACCEPTED_FOR_BIDDING,
+  held: ALPACA_ORDER_STATUS.ACCEPTED
+};
+
+// Tradier history event type → Alpaca activity type
+const ACTIVITY_TYPE_MAP: Record<string, string> = {
+  trade: 'FILL',
+  ach: 'TRANS',
+  wire: 'TRANS',
+  check: 'TRANS',
+  transfer: 'TRANS',
+  journal: 'JNLC',
+  dividend: 'DIV',
+  interest: 'INT',
+  fee: 'FEE',
+  tax: 'FEE'
+};
+
+// Alpaca timeframe → Tradier history / timesales interval; bucketMinutes merges finer bars
+const TIMEFRAME_MAP: Record<string, { source: 'history' | 'timesales'; interval: string; bucketMinutes?: number }> = {
+  '1Min': { source: 'timesales', interval: '1min' },
+  '5Min': { source: 'timesales', interval: '5min' },
+  '15Min': { source: 'timesales', interval: '15min' },
+  '1Hour': { source: 'timesales', interval: '15min', bucketMinutes: 60 },
+  '1H': { source: 'timesales', interval: '15min', bucketMinutes: 60 },
+  '1Day': { source: 'history', interval: 'daily' },
+  '1D': { source: 'history', interval: 'daily' },
+  '1Week': { source: 'history', interval: 'weekly' },
+  '1Month': { source: 'history', interval: 'monthly' }
+};
+
+const MAX_HISTORY_PAGE_SIZE = 1000;
+
+const toList = <T>(value: T | T[] | 'null' | null | undefined): T[] => {
+  if (!value || value === 'null') return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toDecimalString = (value: unknown): string | null =>
+  value === null || value === undefined || value === '' ? null : String(toNumber(value));
+
+const toIsoDate = (value: string | undefined): string | undefined =>
+  value ? value.split('T')[0] : undefined;
+
+const toIsoTimestamp = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Tags only allow letters, numbers and dashes
+const toOrderTag = (clientOrderId?: string): string | undefined =>
+  clientOrderId ? clientOrderId.replace(/[^A-Za-z0-9-]/g, '-').slice(0, 255) : undefined;
+
+function mapOrder(order: any): BrokerOrder {
+  const status: AlpacaOrderStatus = ORDER_STATUS_MAP[order.status] || ALPACA_ORDER_STATUS.NEW;
+  const side = String(order.side || '').startsWith('buy') ? 'buy' : 'sell';
+
+  return {
+    id: String(order.id),
+    client_order_id: order.tag ?? null,
+    symbol: order.symbol,
+    side,
+    type: order.type,
+    order_type: order.type,
+    order_class: 'simple',
+    time_in_force: order.duration,
+    qty: toDecimalString(order.quantity),
+    notional: null,
+    filled_qty: toDecimalString(order.exec_quantity) ?? '0',
+    filled_avg_price: toNumber(order.avg_fill_price) > 0 ? toDecimalString(order.avg_fill_price) : null,
+    limit_price: toDecimalString(order.price),
+    stop_price: toDecimalString(order.stop_price),
+    status,
+    created_at: order.create_date ?? null,
+    submitted_at: order.create_date ?? null,
+    filled_at: status === ALPACA_ORDER_STATUS.FILLED ? order.transaction_date ?? null : null,
+    updated_at: order.transaction_date ?? null,
+    legs: null
+  };
+}
+
+function mapQuote(quote: any): BrokerQuote {
+  return {
+    ap: toNumber(quote.ask),
+    as: toNumber(quote.asksize),
+    bp: toNumber(quote.bid),
+    bs: toNumber(quote.bidsize),
+    t: toIsoTimestamp(quote.bid_date || quote.ask_date || quote.trade_date)
+  };
+}
+
+function aggregateBars(bars: BrokerBar[], bucketMinutes: number): BrokerBar[] {
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const merged = new Map<number, BrokerBar>();
+
+  for (const bar of bars) {
+    const bucket = Math.floor(Date.parse(bar.t) / bucketMs) * bucketMs;
+    const existing = merged.get(bucket);
+    if (!existing) {
+      merged.set(bucket, { ...bar, t: new Date(bucket).toISOString() });
+      continue;
+    }
+    existing.h = Math.max(existing.h, bar.h);
+    existing.l = Math.min(existing.l, bar.l);
+    existing.c = bar.c;
+    existing.v += bar.v;
+  }
+
+  return Array.from(merged.values());
+}
+
+export function createTradierBroker(config: TradierBrokerConfig): BrokerAdapter {
+  const label = BROKER_LABELS[BROKER.TRADIER];
+  const baseUrl = config.isPaper ? 'https://sandbox.tradier.com/v1' : 'https://api.tradier.com/v1';
+  const accountUrl = `${baseUrl}/accounts/${encodeURIComponent(config.accountId)}`;
+  const headers = {
+    'Authorization': `Bearer ${config.accessToken}`,
+    'Accept': 'application/json'
+  };
+
+  const get = <T = any>(path: string, params: Record<string, string | undefined> = {}, notFoundAsNull = false) => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== '') search.set(key, value);
+    }
+    const query = search.toString();
+    return requestJson<T>(label, `${path}${query ? `?${query}` : ''}`, { headers }, { notFoundAsNull });
+  };
+
+  const fetchQuotes = async (symbols: string[]): Promise<Record<string, any>> => {
+    if (symbols.length === 0) return {};
+    const data = await get(`${baseUrl}/markets/quotes`, { symbols: symbols.join(','), greeks: 'false' });
+    const quotes: Record<string, any> = {};
+    for (const quote of toList<any>(data?.quotes?.quote)) {
+      quotes[String(quote.symbol).toUpperCase()] = quote;
+    }
+    return quotes;
+  };
+
+  const getPositions = async (): Promise<BrokerPosition[]> => {
+    const data = await get(`${accountUrl}/positions`);
+    const holdings = toList<any>(data?.positions?.position);
+    const quotes = await fetchQuotes(holdings.map(holding => holding.symbol));
+
+    return holdings.map((holding) => {
+      const qty = toNumber(holding.quantity);
+      const costBasis = toNumber(holding.cost_basis);
+      const quote = quotes[String(holding.symbol).toUpperCase()];
+      const previousClose = toNumber(quote?.prevclose);
+      const currentPrice = toNumber(quote?.last) || previousClose || (qty ? costBasis / qty : 0);
+      const marketValue = qty * currentPrice;
+      const unrealizedPl = marketValue - costBasis;
+
+      return {
+        symbol: holding.symbol,
+        qty: String(qty),
+        side: qty < 0 ? 'short' : 'long',
+        asset_class: 'us_equity',
+        exchange: quote?.exchange ?? null,
+        avg_entry_price: String(qty ? costBasis / qty : 0),
+        cost_basis: String(costBasis),
+        current_price: String(currentPrice),
+        lastday_price: String(previousClose || currentPrice),
+        market_value: String(marketValue),
+        unrealized_pl: String(unrealizedPl),
+        unrealized_plpc: String(costBasis ? unrealizedPl / Math.abs(costBasis) : 0),
+        unrealized_intraday_pl: String(previousClose ? qty * (currentPrice - previousClose) : 0),
+        change_today: String(previousClose ? (currentPrice - previousClose) / previousClose : 0),
+        qty_available: String(qty)
+      };
+    });
+  };
+
+  const getOrder = async (orderId: string): Promise<BrokerOrder | null> => {
+    const data = await get(`${accountUrl}/orders/${encodeURIComponent(orderId)}`, { includeTags: 'true' }, true);
+    return data?.order ? mapOrder(data.order) : null;
+  };
+
+  const submitOrder = async (order: BrokerOrderRequest): Promise<BrokerOrder> => {
+    if (order.notional !== undefined) {
+      throw createBrokerRequestError(`${label} does not support dollar-amount orders`, 422);
+    }
+    if (order.order_class && order.order_class !== 'simple') {
+      throw createBrokerRequestError(`${label} ${order.order_class} orders are not supported`, 422);
+    }
+    if (!['market', 'limit', 'stop', 'stop_limit'].includes(order.type)) {
+      throw createBrokerRequestError(`${label} does not support ${order.type} orders`, 422);
+    }
+    if (!['day', 'gtc'].includes(order.time_in_force)) {
+      throw createBrokerRequestError(`${label} only accepts day or gtc time in force`, 422);
+    }
+
+    const quantity = toNumber(order.qty);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw createBrokerRequestError(`${label} orders need a whole share quantity (got ${order.qty})`, 422);
+    }
+
+    const form = new URLSearchParams({
+      class: 'equity',
+      symbol: order.symbol,
+      side: order.side,
+      quantity: String(quantity),
+      type: order.type,
+      duration: order.time_in_force
+    });
+    if (order.limit_price) form.set('price', order.limit_price);
+    if (order.stop_price) form.set('stop', order.stop_price);
+    const tag = toOrderTag(order.client_order_id);
+    if (tag) form.set('tag', tag);
+
+    const data = await requestJson(label, `${accountUrl}/orders`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: form.toString()
+    });
+
+    const orderId = data?.order?.id;
+    if (!orderId) {
+      throw createBrokerRequestError(`${label} did not return an order id`, 502, data);
+    }
+
+    // The submit response only carries the id - read the order back for the full record
+    const placed = await getOrder(String(orderId));
+    return placed ?? mapOrder({
+      id: orderId,
+      tag,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      duration: order.time_in_force,
+      quantity,
+      price: order.limit_price,
+      stop_price: order.stop_price,
+      status: 'pending',
+      create_date: new Date().toISOString()
+    });
+  };
+
+  return {
+    broker: BROKER.TRADIER,
+    label,
+    isPaper: config.isPaper,
+    capabilities: {
+      notionalOrders: false,
+      fractionalShares: false,
+      trailingStopOrders: false,
+      bracketOrders: false,
+      ocoOrders: false,
+      crypto: false,
+      portfolioHistory: false
+    },
+
+    getAccount: async (): Promise<BrokerAccountSnapshot> => {
+      const [data, positions] = await Promise.all([
+        get(`${accountUrl}/balances`),
+        getPositions()
+      ]);
+      const balances = data?.balances || {};
+      const equity = toNumber(balances.total_equity);
+      const cash = toNumber(balances.total_cash);
+      // Balances carry no prior-close equity - rebuild it from today's position moves
+      const intradayPl = positions.reduce((sum, position) => sum + toNumber(position.unrealized_intraday_pl), 0);
+      const buyingPower = balances.margin?.stock_buying_power
+        ?? balances.pdt?.stock_buying_power
+        ?? balances.cash?.cash_available
+        ?? cash;
+
+      return {
+        id: String(balances.account_number ?? config.accountId),
+        account_number: String(balances.account_number ?? config.accountId),
+        status: 'ACTIVE',
+        currency: 'USD',
+        buying_power: String(toNumber(buyingPower)),
+        cash: String(cash),
+        portfolio_value: String(equity),
+        equity: String(equity),
+        last_equity: String(equity - intradayPl),
+        long_market_value: String(toNumber(balances.long_market_value)),
+        short_market_value: String(toNumber(balances.short_market_value)),
+        daytrade_count: 0,
+        pattern_day_trader: balances.account_type === 'pdt'
+      };
+    },
+
+    getPositions,
+
+    getPosition: async (symbol) => {
+      const wanted = symbol.toUpperCase().replace('/', '');
+      return (await getPositions()).find(position => position.symbol.toUpperCase() === wanted) ?? null;
+    },
+
+    closePosition: async (symbol) => {
+      const wanted = symbol.toUpperCase().replace('/', '');
+      const position = (await getPositions()).find(item => item.symbol.toUpperCase() === wanted);
+      const qty = toNumber(position?.qty);
+      if (!position || qty === 0) return null;
+
+      if (qty < 0) {
+        throw createBrokerRequestError(`${label} short positions cannot be closed from here`, 422);
+      }
+      return await submitOrder({
+        symbol: position.symbol,
+        side: 'sell',
+        type: 'market',
+        time_in_force: 'day',
+        qty
+      });
+    },
+
+    getOrders: async (query = {}) => {
+      const data = await get(`${accountUrl}/orders`, { includeTags: 'true' });
+      const status = query.status ?? 'all';
+      const orders = toList<any>(data?.orders?.order)
+        .map(mapOrder)
+        .filter(order => status === 'all' || (status === 'open') !== isAlpacaOrderTerminal(order.status as AlpacaOrderStatus))
+        .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+      return orders.slice(0, query.limit ?? 500);
+    },
+
+    getOrder,
+    submitOrder,
+
+    cancelOrder: async (orderId) => {
+      await requestJson(label, `${accountUrl}/orders/${encodeURIComponent(orderId)}`, { method: 'DELETE', headers });
+    },
+
+    getAsset: async (symbol): Promise<BrokerAsset | null> => {
+      if (symbol.includes('/')) return null;
+      const quote = (await fetchQuotes([symbol]))[symbol.toUpperCase()];
+      if (!quote) return null;
+
+      const tradable = TRADABLE_QUOTE_TYPES.includes(quote.type);
+      return {
+        id: quote.symbol,
+        symbol: quote.symbol,
+        name: quote.description ?? null,
+        status: 'active',
+        asset_class: 'us_equity',
+        exchange: quote.exchange ?? null,
+        tradable,
+        fractionable: false,
+        marginable: tradable,
+        shortable: false
+      };
+    },
+
+    getLatestQuotes: async (symbols, options = {}) => {
+      if (options.crypto) return {};
+      const quotes = await fetchQuotes(symbols);
+      return Object.fromEntries(Object.entries(quotes).map(([symbol, quote]) => [symbol, mapQuote(quote)]));
+    },
+
+    getSnapshots: async (symbols, options = {}) => {
+      if (options.crypto) return {};
+      const quotes = await fetchQuotes(symbols);
+      const snapshots: Record<string, BrokerSnapshot> = {};
+
+      for (const [symbol, quote] of Object.entries(quotes)) {
+        const tradeTime = toIsoTimestamp(quote.trade_date);
+        const last = toNumber(quote.last);
+        snapshots[symbol] = {
+          latestQuote: mapQuote(quote),
+          latestTrade: last > 0 ? { p: last, t: tradeTime } : null,
+          dailyBar: quote.open !== null && quote.open !== undefined ? {
+            t: tradeTime ?? new Date().toISOString(),
+            o: toNumber(quote.open),
+            h: toNumber(quote.high),
+            l: toNumber(quote.low),
+            c: last || toNumber(quote.close),
+            v: toNumber(quote.volume)
+          } : null,
+          prevDailyBar: toNumber(quote.prevclose) > 0 ? {
+            t: '',
+            o: toNumber(quote.prevclose),
+            h: toNumber(quote.prevclose),
+            l: toNumber(quote.prevclose),
+            c: toNumber(quote.prevclose),
+            v: 0
+          } : null
+        };
+      }
+      return snapshots;
+    },
+
+    getBars: async (symbols, options) => {
+      if (options.crypto) return {};
+      const mapping = TIMEFRAME_MAP[options.timeframe];
+      if (!mapping) {
+        throw createBrokerRequestError(`${label} does not provide ${options.timeframe} bars`, 422);
+      }
+
+      const entries = await Promise.all(symbols.map(async (symbol): Promise<[string, BrokerBar[]]> => {
+        let bars: BrokerBar[];
+
+        if (mapping.source === 'history') {
+          const data = await get(`${baseUrl}/markets/history`, {
+            symbol,
+            interval: mapping.interval,
+            start: toIsoDate(options.start),
+            end: toIsoDate(options.end)
+          });
+          bars = toList<any>(data?.history?.day).map(day => ({
+            t: `${day.date}T00:00:00Z`,
+            o: toNumber(day.open),
+            h: toNumber(day.high),
+            l: toNumber(day.low),
+            c: toNumber(day.close),
+            v: toNumber(day.volume)
+          }));
+        } else {
+          const data = await get(`${baseUrl}/markets/timesales`, {
+            symbol,
+            interval: mapping.interval,
+            start: options.start ? options.start.replace('T', ' ').slice(0, 16) : undefined,
+            end: options.end ? options.end.replace('T', ' ').slice(0, 16) : undefined,
+            session_filter: 'open'
+          });
+          bars = toList<any>(data?.series?.data).map(point => ({
+            t: toIsoTimestamp(point.timestamp ? point.timestamp * 1000 : point.time) ?? String(point.time),
+            o: toNumber(point.open),
+            h: toNumber(point.high),
+            l: toNumber(point.low),
+            c: toNumber(point.close),
+            v: toNumber(point.volume)
+          }));
+          if (mapping.bucketMinutes) {
+            bars = aggregateBars(bars, mapping.bucketMinutes);
+          }
+        }
+
+        return [symbol, options.limit ? bars.slice(-options.limit) : bars];
+      }));
+
+      return Object.fromEntries(entries);
+    },
+
+    getActivities: async (activityTypes, options = {}) => {
+      const wanted = new Set(activityTypes.map(type => type.toUpperCase()));
+      const pageSize = Math.min(Math.max(options.pageSize ?? MAX_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+      const maxPages = Math.max(options.maxPages ?? 50, 1);
+      const events: any[] = [];
+
+      for (let page = 1; page <= maxPages; page++) {
+        const data = await get(`${accountUrl}/history`, {
+          page: String(page),
+          limit: String(pageSize),
+          start: toIsoDate(options.after),
+          end: toIsoDate(options.until)
+        });
+        const pageEvents = toList<any>(data?.history?.event);
+        events.push(...pageEvents);
+        if (pageEvents.length < pageSize) break;
+      }
+
+      const activities = events
+        .map((event, index) => {
+          const activityType = ACTIVITY_TYPE_MAP[event.type] || String(event.type || '').toUpperCase();
+          const id = `${event.date}-${event.type}-${index}`;
+
+          if (activityType === 'FILL') {
+            const quantity = toNumber(event.trade?.quantity);
+            return {
+              id,
+              activity_type: 'FILL',
+              transaction_time: toIsoTimestamp(event.date),
+              symbol: event.trade?.symbol,
+              side: quantity < 0 ? 'sell' : 'buy',
+              qty: String(Math.abs(quantity)),
+              price: String(toNumber(event.trade?.price)),
+              order_id: null
+            };
+          }
+
+          return {
+            id,
+            activity_type: activityType,
+            date: toIsoDate(event.date),
+            net_amount: String(toNumber(event.amount)),
+            description: event[event.type]?.description ?? null
+          };
+        })
+        .filter(activity => wanted.has(activity.activity_type));
+
+      const chronological = activities.sort((a, b) =>
+        String(a.transaction_time ?? a.date).localeCompare(String(b.transaction_time ?? b.date))
+      );
+      return options.direction === 'desc' ? chronological.reverse() : chronological;
+    }
+  };
+}
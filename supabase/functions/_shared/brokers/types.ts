@@ -0,0 +1,197 @@
+/**
+ * Broker Adapter Types
+ *
+ * Every broker the app trades through implements BrokerAdapter. Payloads are
+ * normalized to the field names of Alpaca's REST API (string decimals, Alpaca
+ * order statuses and activity types), which the agents, trade approval flow
+ * and frontend already read, so adapters translate rather than callers.
+ */
+
+import type { Broker } from '../brokerAccounts.ts';
+
+export interface BrokerAccountSnapshot {
+  id: string;
+  account_number: string;
+  status: string;
+  currency: string;
+  buying_power: string;
+  cash: string;
+  portfolio_value: string;
+  equity: string;
+  last_equity: string;
+  long_market_value: string;
+  short_market_value: string;
+  daytrade_count: number;
+  pattern_day_trader: boolean;
+  [key: string]: unknown;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  qty: string;
+  side: 'long' | 'short';
+  asset_class: string;
+  avg_entry_price: string;
+  cost_basis: string;
+  current_price: string;
+  lastday_price: string;
+  market_value: string;
+  unrealized_pl: string;
+  unrealized_plpc: string;
+  unrealized_intraday_pl: string;
+  change_today: string;
+  [key: string]: unknown;
+}
+
+export interface BrokerOrder {
+  id: string;
+  client_order_id: string | null;
+  symbol: string;
+  side: string;
+  type: string;
+  order_type: string;
+  order_class?: string;
+  time_in_force: string;
+  qty: string | null;
+  notional: string | null;
+  filled_qty: string | null;
+  filled_avg_price: string | null;
+  limit_price: string | null;
+  stop_price: string | null;
+  status: string;
+  created_at: string | null;
+  submitted_at: string | null;
+  filled_at: string | null;
+  updated_at?: string | null;
+  legs?: BrokerOrder[] | null;
+  [key: string]: unknown;
+}
+
+export interface BrokerOrderRequest {
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: string;
+  time_in_force: string;
+  qty?: number | string;
+  notional?: number | string;
+  limit_price?: string;
+  stop_price?: string;
+  trail_percent?: string;
+  trail_price?: string;
+  order_class?: 'simple' | 'bracket' | 'oco';
+  take_profit?: { limit_price: string };
+  stop_loss?: { stop_price: string };
+  client_order_id?: string;
+}
+
+export interface BrokerAsset {
+  symbol: string;
+  name: string | null;
+  status: string;
+  asset_class: string;
+  exchange: string | null;
+  tradable: boolean;
+  fractionable: boolean;
+  [key: string]: unknown;
+}
+
+export interface BrokerQuote {
+  ap: number;   // ask price
+  as: number;   // ask size
+  bp: number;   // bid price
+  bs: number;   // bid size
+  t: string | null;
+}
+
+export interface BrokerBar {
+  t: string;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  [key: string]: unknown;
+}
+
+export interface BrokerSnapshot {
+  latestQuote?: BrokerQuote | null;
+  latestTrade?: { p: number; t: string | null } | null;
+  dailyBar?: BrokerBar | null;
+  prevDailyBar?: BrokerBar | null;
+}
+
+export interface BrokerOrderQuery {
+  status?: 'open' | 'closed' | 'all';
+  limit?: number;
+}
+
+export interface BrokerMarketDataOptions {
+  crypto?: boolean;
+}
+
+export interface BrokerBarsOptions extends BrokerMarketDataOptions {
+  timeframe: string;           // Alpaca timeframe notation: 1Min, 15Min, 1Hour, 1Day, 1Week, 1Month
+  start?: string;
+  end?: string;
+  limit?: number;
+  adjustment?: 'raw' | 'split' | 'dividend' | 'all';
+}
+
+export interface BrokerActivityOptions {
+  after?: string;
+  until?: string;
+  direction?: 'asc' | 'desc';
+  pageSize?: number;
+  maxPages?: number;
+}
+
+export interface BrokerCapabilities {
+  notionalOrders: boolean;       // dollar-amount market orders
+  fractionalShares: boolean;
+  trailingStopOrders: boolean;
+  bracketOrders: boolean;
+  ocoOrders: boolean;
+  crypto: boolean;
+  portfolioHistory: boolean;
+}
+
+export interface BrokerAdapter {
+  broker: Broker;
+  label: string;
+  isPaper: boolean;
+  capabilities: BrokerCapabilities;
+
+  getAccount(): Promise<BrokerAccountSnapshot>;
+  getPositions(): Promise<BrokerPosition[]>;
+  getPosition(symbol: string): Promise<BrokerPosition | null>;
+  closePosition(symbol: string): Promise<BrokerOrder | null>;   // null when no position is held
+
+  getOrders(query?: BrokerOrderQuery): Promise<BrokerOrder[]>;
+  getOrder(orderId: string): Promise<BrokerOrder | null>;
+  submitOrder(order: BrokerOrderRequest): Promise<BrokerOrder>;
+  cancelOrder(orderId: string): Promise<void>;
+
+  getAsset(symbol: string): Promise<BrokerAsset | null>;
+  listAssets?(): Promise<BrokerAsset[]>;
+
+  getLatestQuotes(symbols: string[], options?: BrokerMarketDataOptions): Promise<Record<string, BrokerQuote>>;
+  getSnapshots(symbols: string[], options?: BrokerMarketDataOptions): Promise<Record<string, BrokerSnapshot>>;
+  getBars(symbols: string[], options: BrokerBarsOptions): Promise<Record<string, BrokerBar[]>>;
+
+  // Alpaca activity types (FILL, TRANS, JNLC, DIV, ...); adapters map their own history onto them
+  getActivities(activityTypes: string[], options?: BrokerActivityOptions): Promise<any[]>;
+  getPortfolioHistory?(params: Record<string, string>): Promise<any>;
+}
+
+/**
+ * Error thrown for a non-2xx broker response; status is the broker's HTTP status
+ */
+export type BrokerRequestError = Error & { status: number; details: unknown };
+
+export function createBrokerRequestError(message: string, status: number, details: unknown = null): BrokerRequestError {
+  return Object.assign(new Error(message), { status, details });
+}
+
+export function isBrokerRequestError(error: unknown): error is BrokerRequestError {
+  return error instanceof Error && typeof (error as BrokerRequestError).status === 'number';
+}
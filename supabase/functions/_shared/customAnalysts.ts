@@ -0,0 +1,163 @@
+/**
+ * Custom Analysts
+ *
+ * User-defined analysts stored in the custom_analysts table. Each definition
+ * has a name, a system prompt, the data inputs it may see and the phase it
+ * runs in; agent-custom-analyst executes any of them. When an analysis is
+ * created the enabled definitions (up to the role's max_custom_analysts) are
+ * snapshotted into full_analysis.workflowGraph, so edits only affect new runs.
+ *
+ * A custom analyst is addressed in the workflow by its agent name
+ * `agent-custom-analyst:<id>`, which is also its workflow step name and its
+ * key in agent_insights. invokeWithRetry routes those names to the shared
+ * edge function.
+ */
+
+import type { PerplefinaRequest } from './perplefinaClient.ts';
+
+export const CUSTOM_ANALYST_FUNCTION = 'agent-custom-analyst';
+
+const CUSTOM_ANALYST_PREFIX = `${CUSTOM_ANALYST_FUNCTION}:`;
+
+export const CUSTOM_ANALYST_INPUT = {
+  PRICE_HISTORY: 'price_history' as const,
+  INDICATORS: 'indicators' as const,
+  PERPLEFINA: 'perplefina' as const,
+  POSITIONS: 'positions' as const
+} as const;
+
+export type CustomAnalystInput = typeof CUSTOM_ANALYST_INPUT[keyof typeof CUSTOM_ANALYST_INPUT];
+
+export type CustomAnalystFocusMode = PerplefinaRequest['focusMode'];
+
+export const CUSTOM_ANALYST_FOCUS_MODES: CustomAnalystFocusMode[] = ['news', 'social', 'fundamentals', 'macroEconomy'];
+
+// Custom analysts run next to the built-in analysts or the risk analysts
+export const CUSTOM_ANALYST_PHASES = ['analysis', 'risk'] as const;
+
+export type CustomAnalystPhase = typeof CUSTOM_ANALYST_PHASES[number];
+
+export const MAX_CUSTOM_ANALYST_NAME_LENGTH = 60;
+export const MAX_CUSTOM_ANALYST_PROMPT_LENGTH = 4000;
+
+// Longest report excerpt passed on to the researchers and risk manager
+const MAX_REPORT_EXCERPT_LENGTH = 3000;
+
+export interface CustomAnalystDefinition {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  dataInputs: CustomAnalystInput[];
+  // Perplefina focus mode, used when the perplefina input is selected
+  focusMode: CustomAnalystFocusMode | null;
+  phase: CustomAnalystPhase;
+}
+
+export function getCustomAnalystAgentName(customAnalystId: string): string {
+  return `${CUSTOM_ANALYST_PREFIX}${customAnalystId}`;
+}
+
+export function isCustomAnalystAgent(agentName: string | null | undefined): boolean {
+  return typeof agentName === 'string' && agentName.startsWith(CUSTOM_ANALYST_PREFIX);
+}
+
+export function getCustomAnalystId(agentName: string): string | null {
+  return isCustomAnalystAgent(agentName) ? agentName.slice(CUSTOM_ANALYST_PREFIX.length) : null;
+}
+
+const isInput = (value: unknown): value is CustomAnalystInput =>
+  Object.values(CUSTOM_ANALYST_INPUT).includes(value as CustomAnalystInput);
+
+const isPhase = (value: unknown): value is CustomAnalystPhase =>
+  CUSTOM_ANALYST_PHASES.includes(value as CustomAnalystPhase);
+
+/**
+ * Converts a custom_analysts row into a runnable definition, or null when the
+ * row cannot run (no name or prompt, unknown phase)
+ */
+export function toCustomAnalystDefinition(row: any): CustomAnalystDefinition | null {
+  const name = String(row?.name || '').trim().slice(0, MAX_CUSTOM_ANALYST_NAME_LENGTH);
+  const systemPrompt = String(row?.system_prompt || '').trim().slice(0, MAX_CUSTOM_ANALYST_PROMPT_LENGTH);
+  if (!row?.id || !name || !systemPrompt || !isPhase(row.phase)) {
+    return null;
+  }
+
+  const dataInputs = (Array.isArray(row.data_inputs) ? row.data_inputs : []).filter(isInput);
+  const focusMode = CUSTOM_ANALYST_FOCUS_MODES.includes(row.focus_mode) ? row.focus_mode : null;
+
+  return {
+    id: row.id,
+    name,
+    systemPrompt,
+    dataInputs: dataInputs.filter((input: CustomAnalystInput, index: number) => dataInputs.indexOf(input) === index),
+    focusMode: dataInputs.includes(CUSTOM_ANALYST_INPUT.PERPLEFINA) ? (focusMode || 'news') : null,
+    phase: row.phase
+  };
+}
+
+/**
+ * Enabled custom analysts of a user, oldest first, capped by the role's
+ * max_custom_analysts. Failures return no analysts so the analysis still runs.
+ */
+export async function loadCustomAnalysts(supabase: any, userId: string): Promise<CustomAnalystDefinition[]> {
+  try {
+    const { data: maxAllowed, error: limitError } = await supabase
+      .rpc('get_user_max_custom_analysts', { p_user_id: userId });
+
+    if (limitError) {
+      console.error('❌ Error fetching custom analyst limit:', limitError);
+      return [];
+    }
+
+    const limit = Number(maxAllowed) || 0;
+    if (limit <= 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('custom_analysts')
+      .select('id, name, system_prompt, data_inputs, focus_mode, phase')
+      .eq('user_id', userId)
+      .eq('enabled', true)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ Error loading custom analysts:', error);
+      return [];
+    }
+
+    return (data || [])
+      .map(toCustomAnalystDefinition)
+      .filter((definition: CustomAnalystDefinition | null): definition is CustomAnalystDefinition => definition !== null);
+  } catch (error) {
+    console.error('❌ Exception loading custom analysts:', error);
+    return [];
+  }
+}
+
+/**
+ * Reports of the custom analysts that ran in a phase, formatted for the
+ * prompts of the agents that read that phase's output
+ */
+export function formatCustomAnalystReports(
+  customAnalysts: CustomAnalystDefinition[] | undefined,
+  agentInsights: any,
+  phase: CustomAnalystPhase
+): string {
+  const reports = (customAnalysts || [])
+    .filter(definition => definition.phase === phase)
+    .map(definition => ({ definition, insight: agentInsights?.[getCustomAnalystAgentName(definition.id)] }))
+    .filter(({ insight }) => insight?.analysis && !insight.error);
+
+  if (reports.length === 0) {
+    return '';
+  }
+
+  return `
+    CUSTOM ANALYST REPORTS:
+${reports.map(({ definition, insight }) =>
+    `    - ${definition.name}: ${String(insight.analysis).slice(0, MAX_REPORT_EXCERPT_LENGTH)}`
+  ).join('\n')}
+`;
+}
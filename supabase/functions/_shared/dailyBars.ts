@@ -0,0 +1,158 @@
+import { generateCryptoSymbolCandidates } from './alpacaSymbol.ts';
+import type { DailyBar } from './backtest.ts';
+
+export interface AlpacaDataCredentials {
+  apiKey: string;
+  secretKey: string;
+}
+
+const DATA_BASE_URL = 'https://data.alpaca.markets';
+
+// market_data_cache timeframes that hold daily bars (see technicalIndicators.ts)
+const DAILY_CACHE_TIMEFRAMES = ['1Y', '6M'];
+
+const toDailyBars = (rows: any[]): DailyBar[] =>
+  rows
+    .map((bar: any) => ({
+      date: String(bar.t ?? bar.date).split('T')[0],
+      open: parseFloat(bar.o ?? bar.open),
+      high: parseFloat(bar.h ?? bar.high),
+      low: parseFloat(bar.l ?? bar.low),
+      close: parseFloat(bar.c ?? bar.close)
+    }))
+    .filter(bar => bar.date && Number.isFinite(bar.open) && Number.isFinite(bar.close))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Uses the newest cached daily series when it already covers the window
+ */
+async function loadCachedDailyBars(
+  supabase: any,
+  symbol: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyBar[] | null> {
+  const { data, error } = await supabase
+    .from('market_data_cache')
+    .select('historical_data, fetched_date')
+    .eq('ticker', symbol.toUpperCase())
+    .in('timeframe', DAILY_CACHE_TIMEFRAMES)
+    .gte('fetched_date', endDate)
+    .order('fetched_date', { ascending: false })
+    .limit(1);
+
+  if (error || !data || data.length === 0 || !Array.isArray(data[0].historical_data)) {
+    return null;
+  }
+
+  const bars = toDailyBars(data[0].historical_data);
+  if (bars.length === 0 || bars[0].date > startDate) {
+    return null;
+  }
+
+  return bars.filter(bar => bar.date >= startDate && bar.date <= endDate);
+}
+
+async function fetchStockDailyBars(
+  symbol: string,
+  startDate: string,
+  endDate: string,
+  credentials: AlpacaDataCredentials
+): Promise<any[]> {
+  const headers = {
+    'APCA-API-KEY-ID': credentials.apiKey,
+    'APCA-API-SECRET-KEY': credentials.secretKey
+  };
+  const bars: any[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const url = new URL(`${DATA_BASE_URL}/v2/stocks/${encodeURIComponent(symbol)}/bars`);
+    url.searchParams.set('timeframe', '1Day');
+    url.searchParams.set('adjustment', 'split');
+    url.searchParams.set('feed', 'iex');
+    url.searchParams.set('start', startDate);
+    url.searchParams.set('end', endDate);
+    url.searchParams.set('limit', '10000');
+    if (pageToken) url.searchParams.set('page_token', pageToken);
+
+    const response = await fetch(url.toString(), { headers });
+    if (!response.ok) {
+      console.log(`ℹ️ Daily stock bars request failed for ${symbol}: ${response.status}`);
+      return bars;
+    }
+
+    const data = await response.json();
+    if (Array.isArray(data.bars)) {
+      bars.push(...data.bars);
+    }
+    pageToken = data.next_page_token || null;
+  } while (pageToken);
+
+  return bars;
+}
+
+async function fetchCryptoDailyBars(
+  symbol: string,
+  startDate: string,
+  endDate: string,
+  credentials: AlpacaDataCredentials
+): Promise<any[]> {
+  const headers = {
+    'APCA-API-KEY-ID': credentials.apiKey,
+    'APCA-API-SECRET-KEY': credentials.secretKey
+  };
+
+  for (const candidate of generateCryptoSymbolCandidates(symbol)) {
+    const url = new URL(`${DATA_BASE_URL}/v1beta3/crypto/us/bars`);
+    url.searchParams.set('symbols', candidate);
+    url.searchParams.set('timeframe', '1Day');
+    url.searchParams.set('start', startDate);
+    url.searchParams.set('end', endDate);
+    url.searchParams.set('limit', '10000');
+
+    const response = await fetch(url.toString(), { headers });
+    if (!response.ok) continue;
+
+    const data = await response.json();
+    const bars = data.bars?.[candidate] || data.bars?.[candidate.replace('/', '')];
+    if (Array.isArray(bars) && bars.length > 0) {
+      return bars;
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Daily bars for a symbol between two dates (inclusive), from market_data_cache
+ * when it covers the window, otherwise from Alpaca
+ */
+export async function loadDailyBars(
+  supabase: any,
+  symbol: string,
+  startDate: string,
+  endDate: string,
+  credentials: AlpacaDataCredentials
+): Promise<DailyBar[]> {
+  const cached = await loadCachedDailyBars(supabase, symbol, startDate, endDate);
+  if (cached && cached.length > 0) {
+    console.log(`💾 Using cached daily bars for ${symbol} (${cached.length} sessions)`);
+    return cached;
+  }
+
+  try {
+    const stockSymbol = symbol.trim().toUpperCase().replace('/', '');
+    let raw = symbol.includes('/') ? [] : await fetchStockDailyBars(stockSymbol, startDate, endDate, credentials);
+    if (raw.length === 0) {
+      raw = await fetchCryptoDailyBars(symbol, startDate, endDate, credentials);
+    }
+
+    const bars = toDailyBars(raw);
+    console.log(`🌐 Fetched ${bars.length} daily bars for ${symbol} from Alpaca`);
+    return bars;
+  } catch (error) {
+    console.error(`❌ Failed to fetch daily bars for ${symbol}:`, error);
+    return [];
+  }
+}
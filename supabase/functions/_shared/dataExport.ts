@@ -0,0 +1,290 @@
+/**
+ * Data Export
+ *
+ * Shapes trade orders, analyses and rebalances into flat CSV rows or nested
+ * JSON records for the export-data edge function. CSV keeps one row per trade,
+ * per analysis and per rebalanced ticker; JSON keeps the full nested data
+ * (Alpaca order metadata, agent insights, allocation snapshots).
+ */
+
+export const EXPORT_DATASET = {
+  TRADES: 'trades' as const,
+  ANALYSES: 'analyses' as const,
+  REBALANCES: 'rebalances' as const
+} as const;
+
+export type ExportDataset = typeof EXPORT_DATASET[keyof typeof EXPORT_DATASET];
+
+export const EXPORT_FORMAT = {
+  CSV: 'csv' as const,
+  JSON: 'json' as const
+} as const;
+
+export type ExportFormat = typeof EXPORT_FORMAT[keyof typeof EXPORT_FORMAT];
+
+export interface ExportFilters {
+  startDate?: string; // YYYY-MM-DD, inclusive
+  endDate?: string;   // YYYY-MM-DD, inclusive
+  ticker?: string;
+  status?: string;
+}
+
+export type ExportRecord = Record<string, unknown>;
+
+export const MAX_EXPORT_ROWS = 20000;
+
+export function isValidExportDataset(value: unknown): value is ExportDataset {
+  return typeof value === 'string' && Object.values(EXPORT_DATASET).includes(value as ExportDataset);
+}
+
+export function isValidExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.values(EXPORT_FORMAT).includes(value as ExportFormat);
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Neutralise spreadsheet formulas in user- or AI-written text
+  const safe = /^[=+\-@\t\r]/.test(text) && !/^-?\d/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * CSV with a header row; columns default to the union of keys in row order
+ */
+export function toCsv(rows: ExportRecord[], columns?: string[]): string {
+  const header = columns ?? Array.from(rows.reduce((keys, row) => {
+    Object.keys(row).forEach(key => keys.add(key));
+    return keys;
+  }, new Set<string>()));
+
+  const lines = [header.map(escapeCsvValue).join(',')];
+  for (const row of rows) {
+    lines.push(header.map(column => escapeCsvValue(row[column])).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+export function buildExportFilename(dataset: ExportDataset, format: ExportFormat, filters: ExportFilters): string {
+  const range = [filters.startDate, filters.endDate].filter(Boolean).join('_to_');
+  return `tradinggoose-${dataset}${range ? `-${range}` : ''}.${format}`;
+}
+
+// ---------------------------------------------------------------------------
+// Trades
+// ---------------------------------------------------------------------------
+
+export const TRADE_EXPORT_COLUMNS = [
+  'id', 'created_at', 'ticker', 'action', 'status', 'shares', 'dollar_amount', 'price',
+  'order_type', 'time_in_force', 'limit_price', 'stop_price', 'source_type', 'analysis_id',
+  'rebalance_request_id', 'auto_executed', 'user_approved_at', 'executed_at',
+  'alpaca_order_id', 'alpaca_status', 'alpaca_submitted_at', 'alpaca_filled_qty',
+  'alpaca_filled_avg_price', 'alpaca_filled_value', 'reasoning'
+];
+
+export function buildTradeExportRow(trade: any): ExportRecord {
+  const alpacaOrder = trade.metadata?.alpaca_order || {};
+  const filledQty = toNumber(alpacaOrder.filled_qty ?? trade.alpaca_filled_qty);
+  const filledPrice = toNumber(alpacaOrder.filled_avg_price ?? trade.alpaca_filled_price);
+
+  return {
+    id: trade.id,
+    created_at: trade.created_at,
+    ticker: trade.ticker,
+    action: trade.action,
+    status: trade.status,
+    shares: toNumber(trade.shares),
+    dollar_amount: toNumber(trade.dollar_amount),
+    price: toNumber(trade.price),
+    order_type: trade.order_type,
+    time_in_force: trade.time_in_force,
+    limit_price: toNumber(trade.limit_price),
+    stop_price: toNumber(trade.stop_price),
+    source_type: trade.source_type,
+    analysis_id: trade.analysis_id,
+    rebalance_request_id: trade.rebalance_request_id,
+    auto_executed: trade.auto_executed,
+    user_approved_at: trade.user_approved_at,
+    executed_at: trade.executed_at,
+    alpaca_order_id: alpacaOrder.id ?? trade.alpaca_order_id ?? null,
+    alpaca_status: alpacaOrder.status ?? trade.alpaca_order_status ?? null,
+    alpaca_submitted_at: alpacaOrder.submitted_at ?? null,
+    alpaca_filled_qty: filledQty,
+    alpaca_filled_avg_price: filledPrice,
+    alpaca_filled_value: filledQty !== null && filledPrice !== null
+      ? Math.round(filledQty * filledPrice * 100) / 100
+      : null,
+    reasoning: trade.reasoning
+  };
+}
+
+export function buildTradeExportRecord(trade: any): ExportRecord {
+  return {
+    ...buildTradeExportRow(trade),
+    alpaca_order: trade.metadata?.alpaca_order ?? null,
+    exit_orders: trade.metadata?.exit_orders ?? null
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Analyses
+// ---------------------------------------------------------------------------
+
+const ANALYSIS_BASE_COLUMNS = [
+  'id', 'created_at', 'analysis_date', 'ticker', 'analysis_status', 'decision', 'confidence',
+  'rebalance_request_id'
+];
+
+// Text of an agent insight: plain strings as-is, structured insights by their analysis/summary
+function insightText(insight: unknown): string | null {
+  if (insight === null || insight === undefined) return null;
+  if (typeof insight === 'string') return insight;
+  if (typeof insight === 'object') {
+    const candidate = (insight as any).analysis ?? (insight as any).summary ?? (insight as any).content;
+    if (typeof candidate === 'string') return candidate;
+  }
+  return JSON.stringify(insight);
+}
+
+/**
+ * One CSV row per analysis with an insight_<agent> column for every agent present
+ */
+export function buildAnalysisExportRows(analyses: any[]): { rows: ExportRecord[]; columns: string[] } {
+  const agentKeys = new Set<string>();
+  analyses.forEach(analysis => {
+    Object.keys(analysis.agent_insights || {}).forEach(key => agentKeys.add(key));
+  });
+  const insightColumns = Array.from(agentKeys).sort().map(key => `insight_${key}`);
+
+  const rows = analyses.map(analysis => {
+    const row: ExportRecord = {
+      id: analysis.id,
+      created_at: analysis.created_at,
+      analysis_date: analysis.analysis_date,
+      ticker: analysis.ticker,
+      analysis_status: analysis.analysis_status,
+      decision: analysis.decision,
+      confidence: toNumber(analysis.confidence),
+      rebalance_request_id: analysis.rebalance_request_id
+    };
+    for (const [key, insight] of Object.entries(analysis.agent_insights || {})) {
+      row[`insight_${key}`] = insightText(insight);
+    }
+    return row;
+  });
+
+  return { rows, columns: [...ANALYSIS_BASE_COLUMNS, ...insightColumns] };
+}
+
+export function buildAnalysisExportRecord(analysis: any): ExportRecord {
+  return {
+    id: analysis.id,
+    created_at: analysis.created_at,
+    analysis_date: analysis.analysis_date,
+    ticker: analysis.ticker,
+    analysis_status: analysis.analysis_status,
+    decision: analysis.decision,
+    confidence: toNumber(analysis.confidence),
+    rebalance_request_id: analysis.rebalance_request_id,
+    agent_insights: analysis.agent_insights || {}
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rebalances
+// ---------------------------------------------------------------------------
+
+export interface AllocationEntry {
+  ticker: string;
+  allocation_before: number | null;
+  allocation_after: number | null;
+  action: string | null;
+  share_change: number | null;
+}
+
+// allocations_before/after are stored as { TICKER: percent } maps
+function allocationMap(value: unknown): Record<string, number | null> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([ticker, percent]) => [ticker, toNumber(percent)])
+  );
+}
+
+/**
+ * Per-ticker before/after allocations, from rebalance_history when present and
+ * otherwise from the plan's recommended positions
+ */
+export function buildRebalanceAllocations(request: any, history: any | null): AllocationEntry[] {
+  const recommended: any[] = Array.isArray(request.rebalance_plan?.recommendedPositions)
+    ? request.rebalance_plan.recommendedPositions
+    : [];
+  const planByTicker = new Map(recommended.map(position => [position.ticker, position]));
+
+  if (history && (history.allocations_before || history.allocations_after)) {
+    const before = allocationMap(history.allocations_before);
+    const after = allocationMap(history.allocations_after);
+    const tickers = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return tickers.map(ticker => ({
+      ticker,
+      allocation_before: before[ticker] ?? null,
+      allocation_after: after[ticker] ?? null,
+      action: planByTicker.get(ticker)?.action ?? null,
+      share_change: toNumber(planByTicker.get(ticker)?.shareChange)
+    }));
+  }
+
+  return recommended.map(position => ({
+    ticker: position.ticker,
+    allocation_before: toNumber(position.currentAllocation),
+    allocation_after: toNumber(position.targetAllocation),
+    action: position.action ?? null,
+    share_change: toNumber(position.shareChange)
+  }));
+}
+
+export const REBALANCE_EXPORT_COLUMNS = [
+  'rebalance_request_id', 'created_at', 'completed_at', 'status', 'created_by', 'total_portfolio_value',
+  'ticker', 'allocation_before', 'allocation_after', 'action', 'share_change'
+];
+
+/**
+ * One CSV row per rebalanced ticker; rebalances without a plan get a single row
+ */
+export function buildRebalanceExportRows(request: any, history: any | null): ExportRecord[] {
+  const base = {
+    rebalance_request_id: request.id,
+    created_at: request.created_at,
+    completed_at: request.completed_at,
+    status: request.status,
+    created_by: request.created_by,
+    total_portfolio_value: toNumber(request.total_portfolio_value)
+  };
+  const allocations = buildRebalanceAllocations(request, history);
+  if (allocations.length === 0) return [base];
+  return allocations.map(allocation => ({ ...base, ...allocation }));
+}
+
+export function buildRebalanceExportRecord(request: any, history: any | null): ExportRecord {
+  return {
+    id: request.id,
+    created_at: request.created_at,
+    completed_at: request.completed_at,
+    status: request.status,
+    created_by: request.created_by,
+    total_portfolio_value: toNumber(request.total_portfolio_value),
+    target_cash_allocation: toNumber(request.target_cash_allocation),
+    selected_stocks: request.selected_stocks || [],
+    allocations: buildRebalanceAllocations(request, history),
+    portfolio_before: history?.portfolio_before ?? request.portfolio_snapshot ?? null,
+    portfolio_after: history?.portfolio_after ?? null,
+    tax_implications: history?.tax_implications ?? request.rebalance_plan?.taxImplications ?? null,
+    summary: request.rebalance_plan?.summary ?? null,
+    trade_orders: request.rebalance_plan?.tradeOrders ?? []
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Decision Scorecard
+ *
+ * Scores a completed BUY/SELL/HOLD call by the ticker's forward return versus
+ * the benchmark at fixed horizons. Like the backtesting engine, the entry is
+ * the open of the first session after the decision and the exit is the close
+ * of the last session of the horizon.
+ *
+ * A call is correct when:
+ * - BUY: the ticker beat the benchmark
+ * - SELL: the ticker lagged the benchmark
+ * - HOLD: the ticker stayed within the horizon's tolerance band of the benchmark
+ */
+
+import type { DailyBar } from './backtest.ts';
+
+export const SCORE_BENCHMARK = 'SPY';
+
+export const SCORE_HORIZON = {
+  ONE_DAY: '1d' as const,
+  ONE_WEEK: '1w' as const,
+  ONE_MONTH: '1m' as const,
+  THREE_MONTHS: '3m' as const
+} as const;
+
+export type ScoreHorizon = typeof SCORE_HORIZON[keyof typeof SCORE_HORIZON];
+
+// Trading sessions in each horizon, counting the entry session
+export const HORIZON_SESSIONS: Record<ScoreHorizon, number> = {
+  [SCORE_HORIZON.ONE_DAY]: 1,
+  [SCORE_HORIZON.ONE_WEEK]: 5,
+  [SCORE_HORIZON.ONE_MONTH]: 21,
+  [SCORE_HORIZON.THREE_MONTHS]: 63
+};
+
+// Largest |ticker - benchmark| gap (percentage points) at which a HOLD still counts as correct
+export const HOLD_TOLERANCE_PCT: Record<ScoreHorizon, number> = {
+  [SCORE_HORIZON.ONE_DAY]: 1,
+  [SCORE_HORIZON.ONE_WEEK]: 2,
+  [SCORE_HORIZON.ONE_MONTH]: 4,
+  [SCORE_HORIZON.THREE_MONTHS]: 7
+};
+
+export const SCORABLE_DECISIONS = ['BUY', 'SELL', 'HOLD'] as const;
+
+export type ScorableDecision = typeof SCORABLE_DECISIONS[number];
+
+export interface ScoreInput {
+  analysisId: string;
+  userId: string;
+  ticker: string;
+  decision: ScorableDecision;
+  confidence: number;
+  decidedAt: string;
+}
+
+// Row shape of the analysis_scores table
+export interface AnalysisScore {
+  analysis_id: string;
+  user_id: string;
+  ticker: string;
+  decision: ScorableDecision;
+  confidence: number;
+  decision_date: string;
+  horizon: ScoreHorizon;
+  entry_date: string;
+  entry_price: number;
+  exit_date: string;
+  exit_price: number;
+  ticker_return_pct: number;
+  benchmark_return_pct: number;
+  excess_return_pct: number;
+  correct: boolean;
+}
+
+export function isScorableDecision(decision: unknown): decision is ScorableDecision {
+  return SCORABLE_DECISIONS.includes(decision as ScorableDecision);
+}
+
+const round = (value: number, precision = 4): number => {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Index of the last bar on or before a date, or -1
+ */
+function findBarOnOrBefore(bars: DailyBar[], date: string): number {
+  let result = -1;
+  for (let i = 0; i < bars.length; i++) {
+    if (bars[i].date <= date) {
+      result = i;
+    } else {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Calendar date on or after which a horizon can have closed, padded for
+ * weekends and holidays. Used to avoid fetching prices for immature horizons.
+ */
+export function getHorizonMaturityDate(decidedAt: string, horizon: ScoreHorizon): string {
+  const date = new Date(`${decidedAt.slice(0, 10)}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + Math.ceil(HORIZON_SESSIONS[horizon] * 7 / 5) + 1);
+  return date.toISOString().split('T')[0];
+}
+
+export function isDecisionCorrect(
+  decision: ScorableDecision,
+  excessReturnPct: number,
+  horizon: ScoreHorizon
+): boolean {
+  switch (decision) {
+    case 'BUY':
+      return excessReturnPct > 0;
+    case 'SELL':
+      return excessReturnPct < 0;
+    case 'HOLD':
+      return Math.abs(excessReturnPct) <= HOLD_TOLERANCE_PCT[horizon];
+  }
+}
+
+/**
+ * Scores one call at one horizon. Returns null until the horizon has closed
+ * or when either price series is missing.
+ */
+export function scoreDecision(
+  input: ScoreInput,
+  horizon: ScoreHorizon,
+  bars: DailyBar[],
+  benchmarkBars: DailyBar[]
+): AnalysisScore | null {
+  const decisionDate = input.decidedAt.slice(0, 10);
+  const entryIndex = bars.findIndex(bar => bar.date > decisionDate);
+  if (entryIndex === -1) return null;
+
+  const exitIndex = entryIndex + HORIZON_SESSIONS[horizon] - 1;
+  if (exitIndex >= bars.length) return null;
+
+  const entry = bars[entryIndex];
+  const exit = bars[exitIndex];
+  if (!(entry.open > 0) || !(exit.close > 0)) return null;
+
+  const benchEntryIndex = findBarOnOrBefore(benchmarkBars, entry.date);
+  const benchExitIndex = findBarOnOrBefore(benchmarkBars, exit.date);
+  if (benchEntryIndex === -1 || benchExitIndex === -1) return null;
+
+  const benchEntry = benchmarkBars[benchEntryIndex];
+  const benchOpen = benchEntry.date === entry.date ? benchEntry.open : benchEntry.close;
+  const benchClose = benchmarkBars[benchExitIndex].close;
+  if (!(benchOpen > 0) || !(benchClose > 0)) return null;
+
+  const tickerReturnPct = (exit.close / entry.open - 1) * 100;
+  const benchmarkReturnPct = (benchClose / benchOpen - 1) * 100;
+  const excessReturnPct = tickerReturnPct - benchmarkReturnPct;
+
+  return {
+    analysis_id: input.analysisId,
+    user_id: input.userId,
+    ticker: input.ticker,
+    decision: input.decision,
+    confidence: input.confidence,
+    decision_date: decisionDate,
+    horizon,
+    entry_date: entry.date,
+    entry_price: entry.open,
+    exit_date: exit.date,
+    exit_price: exit.close,
+    ticker_return_pct: round(tickerReturnPct),
+    benchmark_return_pct: round(benchmarkReturnPct),
+    excess_return_pct: round(excessReturnPct),
+    correct: isDecisionCorrect(input.decision, excessReturnPct, horizon)
+  };
+}
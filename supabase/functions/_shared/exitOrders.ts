@@ -0,0 +1,204 @@
+/**
+ * Exit Order (Bracket / OCO) Definitions
+ *
+ * Take-profit / stop-loss exits for executed BUY orders, derived from the
+ * user's profit_target and stop_loss percentages. A bracket attaches both legs
+ * to the entry order; an OCO pair is placed once the entry order has filled.
+ * Exit state is tracked in trading_actions.metadata.exit_orders.
+ */
+
+import { roundToTick } from './orderTypes.ts';
+import type { BrokerAdapter } from './brokers/index.ts';
+
+export const EXIT_ORDER_MODE = {
+  NONE: 'none' as const,
+  BRACKET: 'bracket' as const,
+  OCO: 'oco' as const
+} as const;
+
+export type ExitOrderMode = typeof EXIT_ORDER_MODE[keyof typeof EXIT_ORDER_MODE];
+
+export const EXIT_ORDER_STATUS = {
+  PENDING_FILL: 'pending_fill' as const,  // OCO waiting for the entry order to fill
+  PLACED: 'placed' as const,              // Legs submitted to Alpaca
+  SKIPPED: 'skipped' as const,            // Not placeable (crypto, fractional fill, ...)
+  FAILED: 'failed' as const               // Alpaca rejected the exit orders
+} as const;
+
+export type ExitOrderStatus = typeof EXIT_ORDER_STATUS[keyof typeof EXIT_ORDER_STATUS];
+
+export interface ExitOrderLeg {
+  id: string;
+  role: 'take_profit' | 'stop_loss';
+  side: string;
+  type: string;
+  qty: number | null;
+  limit_price: number | null;
+  stop_price: number | null;
+  status: string;
+  filled_qty: number | null;
+  filled_avg_price: number | null;
+}
+
+export interface ExitOrdersMetadata {
+  mode: ExitOrderMode;
+  status: ExitOrderStatus;
+  take_profit_percent: number;
+  stop_loss_percent: number;
+  take_profit_price: number | null;
+  stop_loss_price: number | null;
+  parent_order_id: string | null;
+  oco_order_id?: string | null;
+  qty?: number | null;
+  legs: ExitOrderLeg[];
+  placed_at?: string | null;
+  updated_at: string;
+  error?: string | null;
+}
+
+/**
+ * Subset of an Alpaca order response used to read exit legs
+ */
+export interface AlpacaExitOrderResponse {
+  id: string;
+  symbol?: string;
+  side?: string;
+  order_type?: string;
+  type?: string;
+  qty?: string | number | null;
+  limit_price?: string | number | null;
+  stop_price?: string | number | null;
+  status?: string;
+  filled_qty?: string | number | null;
+  filled_avg_price?: string | number | null;
+  legs?: AlpacaExitOrderResponse[] | null;
+}
+
+export interface ExitOrderSettings {
+  exit_order_mode?: string | null;
+  profit_target?: number | null;
+  stop_loss?: number | null;
+}
+
+export function isValidExitOrderMode(mode: unknown): mode is ExitOrderMode {
+  return typeof mode === 'string' && Object.values(EXIT_ORDER_MODE).includes(mode as ExitOrderMode);
+}
+
+/**
+ * Resolves the exit mode for an order: an explicit request override wins over
+ * the user's default setting
+ */
+export function resolveExitOrderMode(
+  requested: unknown,
+  settings: ExitOrderSettings | null | undefined
+): ExitOrderMode {
+  if (isValidExitOrderMode(requested)) return requested;
+  if (isValidExitOrderMode(settings?.exit_order_mode)) return settings!.exit_order_mode as ExitOrderMode;
+  return EXIT_ORDER_MODE.NONE;
+}
+
+/**
+ * Take-profit and stop-loss prices for a long position entered at entryPrice
+ */
+export function computeExitPrices(
+  entryPrice: number,
+  profitTargetPercent: number,
+  stopLossPercent: number
+): { takeProfitPrice: number; stopLossPrice: number } {
+  return {
+    takeProfitPrice: roundToTick(entryPrice * (1 + profitTargetPercent / 100)),
+    stopLossPrice: roundToTick(entryPrice * (1 - stopLossPercent / 100))
+  };
+}
+
+/**
+ * Starts the exit_orders metadata for a BUY order
+ */
+export function createExitOrdersMetadata(
+  mode: ExitOrderMode,
+  settings: ExitOrderSettings | null | undefined,
+  overrides: Partial<ExitOrdersMetadata> = {}
+): ExitOrdersMetadata {
+  return {
+    mode,
+    status: EXIT_ORDER_STATUS.PENDING_FILL,
+    take_profit_percent: Number(settings?.profit_target ?? 25),
+    stop_loss_percent: Number(settings?.stop_loss ?? 10),
+    take_profit_price: null,
+    stop_loss_price: null,
+    parent_order_id: null,
+    legs: [],
+    updated_at: new Date().toISOString(),
+    ...overrides
+  };
+}
+
+/**
+ * Extracts the sell legs from an Alpaca bracket or OCO order response.
+ * Bracket entries carry both exits in `legs`; an OCO order is itself the
+ * take-profit limit with the stop-loss as its single leg.
+ */
+export function extractExitLegs(order: AlpacaExitOrderResponse | null | undefined): ExitOrderLeg[] {
+  if (!order) return [];
+
+  const candidates = [order, ...(Array.isArray(order.legs) ? order.legs : [])]
+    .filter((o) => o?.id && o.side === 'sell');
+
+  const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  return candidates.map((o) => {
+    const type = o.order_type || o.type || '';
+    return {
+      id: o.id,
+      role: type === 'limit' ? 'take_profit' as const : 'stop_loss' as const,
+      side: o.side || 'sell',
+      type,
+      qty: toNumber(o.qty),
+      limit_price: toNumber(o.limit_price),
+      stop_price: toNumber(o.stop_price),
+      status: o.status || 'new',
+      filled_qty: toNumber(o.filled_qty),
+      filled_avg_price: toNumber(o.filled_avg_price)
+    };
+  });
+}
+
+/**
+ * Submits an OCO take-profit / stop-loss pair for an existing long position.
+ * Alpaca requires whole-share quantities for OCO orders.
+ */
+export async function submitOcoExitOrder(
+  broker: BrokerAdapter,
+  params: {
+    symbol: string;
+    qty: number;
+    takeProfitPrice: number;
+    stopLossPrice: number;
+    clientOrderId: string;
+  }
+): Promise<{ success: boolean; order?: AlpacaExitOrderResponse; error?: string }> {
+  if (!broker.capabilities.ocoOrders) {
+    return { success: false, error: `${broker.label} does not support OCO orders` };
+  }
+
+  try {
+    const order = await broker.submitOrder({
+      symbol: params.symbol,
+      side: 'sell',
+      type: 'limit',
+      qty: params.qty.toString(),
+      time_in_force: 'gtc',
+      order_class: 'oco',
+      take_profit: { limit_price: params.takeProfitPrice.toString() },
+      stop_loss: { stop_price: params.stopLossPrice.toString() },
+      client_order_id: params.clientOrderId
+    });
+    return { success: true, order: order as AlpacaExitOrderResponse };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Fundamentals
+ *
+ * Structured financial statements, ratios and earnings history from a
+ * FundamentalsProvider, cached per symbol and provider in fundamentals_cache.
+ * The Fundamentals Analyst passes the snapshot into its prompt as verified
+ * figures next to the Perplefina web research.
+ */
+
+import { createSecEdgarFundamentalsProvider } from './secEdgar.ts';
+import {
+  FUNDAMENTALS_PROVIDER,
+  type FundamentalsLineItem,
+  type FundamentalsProvider,
+  type FundamentalsProviderId,
+  type FundamentalsSnapshot,
+  type FundamentalsStatement,
+  type FundamentalsUnit
+} from './types.ts';
+
+export * from './types.ts';
+export { buildSecEdgarSnapshot, createSecEdgarFundamentalsProvider } from './secEdgar.ts';
+
+export const DEFAULT_FUNDAMENTALS_PROVIDER: FundamentalsProviderId = FUNDAMENTALS_PROVIDER.SEC_EDGAR;
+
+// New filings show up the day after they are accepted
+export const FUNDAMENTALS_CACHE_TTL_HOURS = 24;
+
+export function createFundamentalsProvider(id: FundamentalsProviderId = DEFAULT_FUNDAMENTALS_PROVIDER): FundamentalsProvider {
+  switch (id) {
+    case FUNDAMENTALS_PROVIDER.SEC_EDGAR:
+      return createSecEdgarFundamentalsProvider();
+    default:
+      throw new Error(`Unsupported fundamentals provider: ${id}`);
+  }
+}
+
+/**
+ * Snapshot for the symbol from fundamentals_cache when fresh, otherwise from
+ * the provider (and written back to the cache). Returns null when the provider
+ * is not configured or has no data for the symbol.
+ */
+export async function getFundamentals(
+  supabase: any,
+  symbol: string,
+  providerId: FundamentalsProviderId = DEFAULT_FUNDAMENTALS_PROVIDER
+): Promise<FundamentalsSnapshot | null> {
+  const provider = createFundamentalsProvider(providerId);
+  if (!provider.isAvailable()) {
+    console.log(`ℹ️ ${provider.label} not configured - skipping structured fundamentals`);
+    return null;
+  }
+
+  const normalized = symbol.trim().toUpperCase();
+  const freshAfter = Date.now() - FUNDAMENTALS_CACHE_TTL_HOURS * 60 * 60 * 1000;
+
+  const { data: cached, error } = await supabase
+    .from('fundamentals_cache')
+    .select('data, fetched_at')
+    .eq('symbol', normalized)
+    .eq('provider', provider.id)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('⚠️ Failed to read fundamentals_cache:', error.message);
+  }
+  if (cached?.data && Date.parse(cached.fetched_at) >= freshAfter) {
+    console.log(`🎯 Fundamentals cache hit for ${normalized} (${provider.id})`);
+    return cached.data as FundamentalsSnapshot;
+  }
+
+  const snapshot = await provider.getFundamentals(normalized);
+  if (!snapshot) return null;
+  console.log(`📑 Loaded ${snapshot.incomeStatement.periods.length} fiscal years and ${snapshot.earnings.length} quarters for ${normalized} from ${provider.label}`);
+
+  const { error: upsertError } = await supabase
+    .from('fundamentals_cache')
+    .upsert({
+      symbol: normalized,
+      provider: provider.id,
+      data: snapshot,
+      fetched_at: snapshot.fetchedAt
+    }, { onConflict: 'symbol,provider' });
+
+  if (upsertError) {
+    console.warn('⚠️ Failed to cache fundamentals:', upsertError.message);
+  }
+  return snapshot;
+}
+
+export function formatFundamentalsValue(value: number | null, unit: FundamentalsUnit): string {
+  if (value === null || !isFinite(value)) return 'N/A';
+
+  switch (unit) {
+    case 'USD': {
+      const abs = Math.abs(value);
+      const sign = value < 0 ? '-' : '';
+      if (abs >= 1e9) return `${sign}$${(abs / 1e9).toFixed(2)}B`;
+      if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+      return `${sign}$${abs.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+    }
+    case 'USD/share':
+      return `$${value.toFixed(2)}`;
+    case 'shares':
+      return value >= 1e6 ? `${(value / 1e6).toFixed(1)}M` : value.toLocaleString('en-US');
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    case 'ratio':
+      return value.toFixed(2);
+  }
+}
+
+function formatStatementForAI(title: string, statement: FundamentalsStatement): string {
+  if (statement.items.length === 0) return '';
+
+  const header = `| ${title} | ${statement.periods.map(period => period.label).join(' | ')} |`;
+  const divider = `|---|${statement.periods.map(() => '---').join('|')}|`;
+  const rows = statement.items.map((item: FundamentalsLineItem) =>
+    `| ${item.label}${item.source === 'calculated' ? ' (calc)' : ''} | ${item.values.map(value => formatFundamentalsValue(value, item.unit)).join(' | ')} |`
+  );
+  return [header, divider, ...rows].join('\n');
+}
+
+/**
+ * Prompt section with the snapshot as Markdown tables
+ */
+export function formatFundamentalsForAI(snapshot: FundamentalsSnapshot): string {
+  const periodEnds = snapshot.incomeStatement.periods.map(period => `${period.label} ended ${period.periodEnd}`).join(', ');
+
+  const sections = [
+    `Source: ${snapshot.providerLabel} for ${snapshot.companyName} (${snapshot.symbol}), ${snapshot.currency}. Fiscal years: ${periodEnds}. Rows marked (calc) are calculated from the reported figures.`,
+    formatStatementForAI('Income Statement', snapshot.incomeStatement),
+    formatStatementForAI('Balance Sheet', snapshot.balanceSheet),
+    formatStatementForAI('Cash Flow', snapshot.cashFlow),
+    formatStatementForAI('Ratios', snapshot.ratios)
+  ];
+
+  if (snapshot.earnings.length > 0) {
+    sections.push([
+      '| Quarter | Period End | Revenue | Net Income | EPS (Diluted) | Revenue YoY | EPS YoY |',
+      '|---|---|---|---|---|---|---|',
+      ...snapshot.earnings.map(record => [
+        `${record.period.label}${record.derived ? ' (calc)' : ''}`,
+        record.period.periodEnd,
+        formatFundamentalsValue(record.revenue, 'USD'),
+        formatFundamentalsValue(record.netIncome, 'USD'),
+        formatFundamentalsValue(record.epsDiluted, 'USD/share'),
+        formatFundamentalsValue(record.revenueGrowthYoY, 'percent'),
+        formatFundamentalsValue(record.epsGrowthYoY, 'percent')
+      ].join(' | ')).map(row => `| ${row} |`)
+    ].join('\n'));
+  }
+
+  return sections.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,409 @@
+/**
+ * SEC EDGAR Fundamentals Provider
+ *
+ * Builds statements from the XBRL company facts of 10-K and 10-Q filings.
+ * Annual statements cover the last fiscal years; the earnings history is
+ * quarterly, with Q4 calculated as the fiscal year less Q1-Q3 because 10-Ks
+ * only report the full year. Where a company restated a period, the most
+ * recently filed value wins. Fiscal years are labelled by the calendar year
+ * they end in.
+ */
+
+import { fetchCompanyFacts, getCompanyFilingsUrl, getSecUserAgent, lookupCik } from '../secEdgar.ts';
+import {
+  FUNDAMENTALS_PROVIDER,
+  FUNDAMENTALS_PROVIDER_LABELS,
+  type EarningsRecord,
+  type FundamentalsLineItem,
+  type FundamentalsPeriod,
+  type FundamentalsProvider,
+  type FundamentalsSnapshot,
+  type FundamentalsStatement,
+  type FundamentalsUnit
+} from './types.ts';
+
+const ANNUAL_PERIODS = 4;
+const EARNINGS_QUARTERS = 8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface XbrlFact {
+  start?: string;
+  end: string;
+  val: number;
+  form: string;
+  filed: string;
+}
+
+type Span = 'year' | 'quarter' | 'instant';
+
+interface FactMatch {
+  value: number;
+  concept: string;
+  form: string;
+  filed: string;
+}
+
+interface LineDefinition {
+  key: string;
+  label: string;
+  unit: FundamentalsUnit;
+  concepts: string[];
+}
+
+// Concepts in order of preference; companies tag the same line differently
+const REVENUE_CONCEPTS = [
+  'RevenueFromContractWithCustomerExcludingAssessedTax',
+  'Revenues',
+  'SalesRevenueNet',
+  'RevenueFromContractWithCustomerIncludingAssessedTax'
+];
+const NET_INCOME_CONCEPTS = ['NetIncomeLoss', 'ProfitLoss'];
+const EPS_DILUTED_CONCEPTS = ['EarningsPerShareDiluted', 'EarningsPerShareBasicAndDiluted'];
+
+const INCOME_STATEMENT_LINES: LineDefinition[] = [
+  { key: 'revenue', label: 'Revenue', unit: 'USD', concepts: REVENUE_CONCEPTS },
+  { key: 'cost_of_revenue', label: 'Cost of Revenue', unit: 'USD', concepts: ['CostOfRevenue', 'CostOfGoodsAndServicesSold', 'CostOfGoodsSold'] },
+  { key: 'gross_profit', label: 'Gross Profit', unit: 'USD', concepts: ['GrossProfit'] },
+  { key: 'operating_income', label: 'Operating Income', unit: 'USD', concepts: ['OperatingIncomeLoss'] },
+  { key: 'net_income', label: 'Net Income', unit: 'USD', concepts: NET_INCOME_CONCEPTS },
+  { key: 'eps_basic', label: 'EPS (Basic)', unit: 'USD/share', concepts: ['EarningsPerShareBasic', 'EarningsPerShareBasicAndDiluted'] },
+  { key: 'eps_diluted', label: 'EPS (Diluted)', unit: 'USD/share', concepts: EPS_DILUTED_CONCEPTS },
+  { key: 'diluted_shares', label: 'Diluted Shares', unit: 'shares', concepts: ['WeightedAverageNumberOfDilutedSharesOutstanding'] }
+];
+
+const BALANCE_SHEET_LINES: LineDefinition[] = [
+  { key: 'cash', label: 'Cash & Equivalents', unit: 'USD', concepts: ['CashAndCashEquivalentsAtCarryingValue', 'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents'] },
+  { key: 'current_assets', label: 'Current Assets', unit: 'USD', concepts: ['AssetsCurrent'] },
+  { key: 'total_assets', label: 'Total Assets', unit: 'USD', concepts: ['Assets'] },
+  { key: 'current_liabilities', label: 'Current Liabilities', unit: 'USD', concepts: ['LiabilitiesCurrent'] },
+  { key: 'total_liabilities', label: 'Total Liabilities', unit: 'USD', concepts: ['Liabilities'] },
+  { key: 'long_term_debt', label: 'Long-Term Debt', unit: 'USD', concepts: ['LongTermDebtNoncurrent', 'LongTermDebt'] },
+  { key: 'shareholders_equity', label: "Shareholders' Equity", unit: 'USD', concepts: ['StockholdersEquity', 'StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest'] }
+];
+
+const CASH_FLOW_LINES: LineDefinition[] = [
+  { key: 'operating_cash_flow', label: 'Operating Cash Flow', unit: 'USD', concepts: ['NetCashProvidedByUsedInOperatingActivities'] },
+  { key: 'capital_expenditures', label: 'Capital Expenditures', unit: 'USD', concepts: ['PaymentsToAcquirePropertyPlantAndEquipment'] },
+  { key: 'dividends_paid', label: 'Dividends Paid', unit: 'USD', concepts: ['PaymentsOfDividends', 'PaymentsOfDividendsCommonStock'] },
+  { key: 'share_repurchases', label: 'Share Repurchases', unit: 'USD', concepts: ['PaymentsForRepurchaseOfCommonStock'] }
+];
+
+const XBRL_UNITS: Record<FundamentalsUnit, string> = {
+  'USD': 'USD',
+  'USD/share': 'USD/shares',
+  'shares': 'shares',
+  'percent': 'pure',
+  'ratio': 'pure'
+};
+
+const daysBetween = (start: string, end: string) => (Date.parse(end) - Date.parse(start)) / DAY_MS;
+
+function matchesSpan(fact: XbrlFact, span: Span): boolean {
+  if (span === 'instant') return !fact.start;
+  if (!fact.start) return false;
+  const days = daysBetween(fact.start, fact.end);
+  return span === 'year' ? days >= 350 && days <= 380 : days >= 80 && days <= 100;
+}
+
+const isPeriodicFiling = (form: string) => form.startsWith('10-K') || form.startsWith('10-Q');
+
+/**
+ * Reader over one company's us-gaap facts
+ */
+function createFactReader(companyFacts: any) {
+  const taxonomy = companyFacts?.facts?.['us-gaap'] ?? {};
+
+  const factsFor = (concept: string, unit: string): XbrlFact[] =>
+    ((taxonomy[concept]?.units?.[unit] ?? []) as XbrlFact[])
+      .filter(fact => typeof fact.val === 'number' && fact.end && isPeriodicFiling(fact.form || ''));
+
+  /** Latest-filed value for the period, from the first concept that has one */
+  const find = (concepts: string[], unit: string, span: Span, end: string, start?: string): FactMatch | null => {
+    for (const concept of concepts) {
+      const matches = factsFor(concept, unit)
+        .filter(fact => fact.end === end && matchesSpan(fact, span) && (!start || fact.start === start))
+        .sort((a, b) => b.filed.localeCompare(a.filed));
+      if (matches.length > 0) {
+        const [fact] = matches;
+        return { value: fact.val, concept: `us-gaap:${concept}`, form: fact.form, filed: fact.filed };
+      }
+    }
+    return null;
+  };
+
+  /** Distinct periods (start/end) reported for the concepts, most recent first */
+  const periods = (concepts: string[], unit: string, span: Span): { start: string; end: string }[] => {
+    const byEnd = new Map<string, string>();
+    for (const concept of concepts) {
+      for (const fact of factsFor(concept, unit)) {
+        if (fact.start && matchesSpan(fact, span) && !byEnd.has(fact.end)) {
+          byEnd.set(fact.end, fact.start);
+        }
+      }
+    }
+    return Array.from(byEnd.entries())
+      .map(([end, start]) => ({ start, end }))
+      .sort((a, b) => b.end.localeCompare(a.end));
+  };
+
+  return { find, periods };
+}
+
+type FactReader = ReturnType<typeof createFactReader>;
+
+function buildStatement(
+  reader: FactReader,
+  lines: LineDefinition[],
+  annual: { start: string; end: string }[],
+  span: Span
+): { items: FundamentalsLineItem[]; forms: (FactMatch | null)[] } {
+  const forms: (FactMatch | null)[] = annual.map(() => null);
+
+  const items = lines.map(line => {
+    let concept: string | null = null;
+    const values = annual.map((period, index) => {
+      const match = reader.find(line.concepts, XBRL_UNITS[line.unit], span, period.end);
+      if (!match) return null;
+      concept = concept ?? match.concept;
+      if (!forms[index] || match.filed > forms[index]!.filed) forms[index] = match;
+      return match.value;
+    });
+    return { key: line.key, label: line.label, unit: line.unit, values, source: 'reported' as const, concept };
+  });
+
+  return { items, forms };
+}
+
+const itemValues = (items: FundamentalsLineItem[], key: string) =>
+  items.find(item => item.key === key)?.values ?? [];
+
+function calculatedItem(key: string, label: string, unit: FundamentalsUnit, values: (number | null)[]): FundamentalsLineItem {
+  return { key, label, unit, values, source: 'calculated', concept: null };
+}
+
+const ratio = (numerator: number | null | undefined, denominator: number | null | undefined, scale: number = 1) =>
+  numerator == null || denominator == null || denominator === 0 ? null : (numerator / denominator) * scale;
+
+const growth = (current: number | null | undefined, previous: number | null | undefined) =>
+  current == null || previous == null || previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+function annualPeriod(period: { end: string }, match: FactMatch | null): FundamentalsPeriod {
+  const fiscalYear = new Date(period.end).getUTCFullYear();
+  return {
+    label: `FY${fiscalYear}`,
+    fiscalYear,
+    fiscalPeriod: 'FY',
+    periodEnd: period.end,
+    form: match?.form ?? null,
+    filed: match?.filed ?? null
+  };
+}
+
+/**
+ * Quarterly revenue, net income and diluted EPS, with Q4 derived from the
+ * fiscal year where Q1-Q3 are reported
+ */
+function buildEarnings(reader: FactReader, annual: { start: string; end: string }[]): EarningsRecord[] {
+  const quarters = reader.periods(NET_INCOME_CONCEPTS, 'USD', 'quarter');
+
+  const quarterValues = (period: { start: string; end: string }) => ({
+    revenue: reader.find(REVENUE_CONCEPTS, 'USD', 'quarter', period.end, period.start),
+    netIncome: reader.find(NET_INCOME_CONCEPTS, 'USD', 'quarter', period.end, period.start),
+    eps: reader.find(EPS_DILUTED_CONCEPTS, 'USD/shares', 'quarter', period.end, period.start)
+  });
+
+  interface QuarterRow {
+    end: string;
+    fiscalYear: number;
+    quarter: number;
+    revenue: number | null;
+    netIncome: number | null;
+    epsDiluted: number | null;
+    form: string | null;
+    filed: string | null;
+    derived: boolean;
+  }
+
+  const rows: QuarterRow[] = [];
+  const fiscalYearOf = (end: string) => {
+    // The fiscal year a quarter belongs to ends within a year after it
+    const year = annual.slice().reverse().find(period => period.end >= end && daysBetween(end, period.end) < 366);
+    if (year) return { end: year.end, start: year.start };
+    const latest = annual[0];
+    if (!latest) return null;
+    const nextEnd = new Date(Date.parse(latest.end) + 365 * DAY_MS).toISOString().split('T')[0];
+    return { end: nextEnd, start: latest.end };
+  };
+
+  for (const period of quarters) {
+    const fiscal = fiscalYearOf(period.end);
+    if (!fiscal) continue;
+    const { revenue, netIncome, eps } = quarterValues(period);
+    const source = netIncome ?? revenue;
+    rows.push({
+      end: period.end,
+      fiscalYear: new Date(fiscal.end).getUTCFullYear(),
+      quarter: Math.min(4, Math.max(1, Math.round(daysBetween(fiscal.start, period.end) / 91.3))),
+      revenue: revenue?.value ?? null,
+      netIncome: netIncome?.value ?? null,
+      epsDiluted: eps?.value ?? null,
+      form: source?.form ?? null,
+      filed: source?.filed ?? null,
+      derived: false
+    });
+  }
+
+  for (const year of annual) {
+    if (rows.some(row => row.end === year.end)) continue;
+    const inYear = rows.filter(row => !row.derived && row.end > year.start && row.end < year.end);
+    if (inYear.length !== 3) continue;
+
+    const remainder = (full: number | null | undefined, parts: (number | null)[]) =>
+      full == null || parts.some(part => part === null) ? null : full - parts.reduce((sum: number, part) => sum + (part as number), 0);
+
+    const revenue = reader.find(REVENUE_CONCEPTS, 'USD', 'year', year.end);
+    const netIncome = reader.find(NET_INCOME_CONCEPTS, 'USD', 'year', year.end);
+    const eps = reader.find(EPS_DILUTED_CONCEPTS, 'USD/shares', 'year', year.end);
+    rows.push({
+      end: year.end,
+      fiscalYear: new Date(year.end).getUTCFullYear(),
+      quarter: 4,
+      revenue: remainder(revenue?.value, inYear.map(row => row.revenue)),
+      netIncome: remainder(netIncome?.value, inYear.map(row => row.netIncome)),
+      epsDiluted: remainder(eps?.value, inYear.map(row => row.epsDiluted)),
+      form: (netIncome ?? revenue)?.form ?? null,
+      filed: (netIncome ?? revenue)?.filed ?? null,
+      derived: true
+    });
+  }
+
+  rows.sort((a, b) => b.end.localeCompare(a.end));
+
+  return rows.slice(0, EARNINGS_QUARTERS).map(row => {
+    const yearAgo = rows.find(other => {
+      const days = daysBetween(other.end, row.end);
+      return days >= 350 && days <= 380;
+    });
+    return {
+      period: {
+        label: `Q${row.quarter} FY${row.fiscalYear}`,
+        fiscalYear: row.fiscalYear,
+        fiscalPeriod: `Q${row.quarter}` as FundamentalsPeriod['fiscalPeriod'],
+        periodEnd: row.end,
+        form: row.form,
+        filed: row.filed
+      },
+      revenue: row.revenue,
+      netIncome: row.netIncome,
+      epsDiluted: row.epsDiluted,
+      revenueGrowthYoY: growth(row.revenue, yearAgo?.revenue),
+      epsGrowthYoY: growth(row.epsDiluted, yearAgo?.epsDiluted),
+      derived: row.derived
+    };
+  });
+}
+
+export function buildSecEdgarSnapshot(symbol: string, cik: string, companyFacts: any): FundamentalsSnapshot | null {
+  const reader = createFactReader(companyFacts);
+
+  // One extra year so growth can be calculated for the oldest period shown
+  const allAnnual = reader.periods([...REVENUE_CONCEPTS, ...NET_INCOME_CONCEPTS], 'USD', 'year');
+  const annual = allAnnual.slice(0, ANNUAL_PERIODS);
+  if (annual.length === 0) return null;
+
+  const income = buildStatement(reader, INCOME_STATEMENT_LINES, annual, 'year');
+  const balance = buildStatement(reader, BALANCE_SHEET_LINES, annual, 'instant');
+  const cash = buildStatement(reader, CASH_FLOW_LINES, annual, 'year');
+
+  const revenue = itemValues(income.items, 'revenue');
+  const netIncome = itemValues(income.items, 'net_income');
+  const operatingIncome = itemValues(income.items, 'operating_income');
+  const epsDiluted = itemValues(income.items, 'eps_diluted');
+
+  // Gross profit is not tagged by every filer; fall back to revenue less cost of revenue
+  const grossProfitItem = income.items.find(item => item.key === 'gross_profit')!;
+  if (grossProfitItem.values.every(value => value === null)) {
+    const costOfRevenue = itemValues(income.items, 'cost_of_revenue');
+    Object.assign(grossProfitItem, calculatedItem('gross_profit', 'Gross Profit', 'USD',
+      revenue.map((value, i) => (value == null || costOfRevenue[i] == null ? null : value - costOfRevenue[i]!))));
+  }
+  const grossProfit = grossProfitItem.values;
+
+  const operatingCashFlow = itemValues(cash.items, 'operating_cash_flow');
+  const capex = itemValues(cash.items, 'capital_expenditures');
+  const freeCashFlow = operatingCashFlow.map((value, i) => (value == null || capex[i] == null ? null : value - capex[i]!));
+  cash.items.splice(2, 0, calculatedItem('free_cash_flow', 'Free Cash Flow', 'USD', freeCashFlow));
+
+  const equity = itemValues(balance.items, 'shareholders_equity');
+  const totalAssets = itemValues(balance.items, 'total_assets');
+  const currentAssets = itemValues(balance.items, 'current_assets');
+  const currentLiabilities = itemValues(balance.items, 'current_liabilities');
+  const totalLiabilities = itemValues(balance.items, 'total_liabilities');
+
+  const priorYear = (concepts: string[], unit: string, index: number) => {
+    const previous = allAnnual[index + 1];
+    return previous ? reader.find(concepts, unit, 'year', previous.end)?.value ?? null : null;
+  };
+
+  const ratios: FundamentalsLineItem[] = [
+    calculatedItem('gross_margin', 'Gross Margin', 'percent', grossProfit.map((value, i) => ratio(value, revenue[i], 100))),
+    calculatedItem('operating_margin', 'Operating Margin', 'percent', operatingIncome.map((value, i) => ratio(value, revenue[i], 100))),
+    calculatedItem('net_margin', 'Net Margin', 'percent', netIncome.map((value, i) => ratio(value, revenue[i], 100))),
+    calculatedItem('fcf_margin', 'FCF Margin', 'percent', freeCashFlow.map((value, i) => ratio(value, revenue[i], 100))),
+    calculatedItem('return_on_equity', 'Return on Equity', 'percent', netIncome.map((value, i) => ratio(value, equity[i], 100))),
+    calculatedItem('return_on_assets', 'Return on Assets', 'percent', netIncome.map((value, i) => ratio(value, totalAssets[i], 100))),
+    calculatedItem('current_ratio', 'Current Ratio', 'ratio', currentAssets.map((value, i) => ratio(value, currentLiabilities[i]))),
+    calculatedItem('liabilities_to_equity', 'Liabilities / Equity', 'ratio', totalLiabilities.map((value, i) => ratio(value, equity[i]))),
+    calculatedItem('revenue_growth', 'Revenue Growth YoY', 'percent', revenue.map((value, i) => growth(value, priorYear(REVENUE_CONCEPTS, 'USD', i)))),
+    calculatedItem('eps_growth', 'EPS Growth YoY', 'percent', epsDiluted.map((value, i) => growth(value, priorYear(EPS_DILUTED_CONCEPTS, 'USD/shares', i))))
+  ];
+
+  const periods = annual.map((period, i) => annualPeriod(period, income.forms[i] ?? balance.forms[i] ?? cash.forms[i]));
+  const statement = (items: FundamentalsLineItem[]): FundamentalsStatement => ({
+    periods,
+    // Drop lines the company never tagged
+    items: items.filter(item => item.values.some(value => value !== null))
+  });
+
+  return {
+    symbol: symbol.toUpperCase(),
+    companyName: companyFacts?.entityName ?? symbol.toUpperCase(),
+    provider: FUNDAMENTALS_PROVIDER.SEC_EDGAR,
+    providerLabel: FUNDAMENTALS_PROVIDER_LABELS[FUNDAMENTALS_PROVIDER.SEC_EDGAR],
+    sourceUrl: getCompanyFilingsUrl(cik),
+    currency: 'USD',
+    fetchedAt: new Date().toISOString(),
+    incomeStatement: statement(income.items),
+    balanceSheet: statement(balance.items),
+    cashFlow: statement(cash.items),
+    ratios: statement(ratios),
+    earnings: buildEarnings(reader, allAnnual)
+  };
+}
+
+export function createSecEdgarFundamentalsProvider(): FundamentalsProvider {
+  return {
+    id: FUNDAMENTALS_PROVIDER.SEC_EDGAR,
+    label: FUNDAMENTALS_PROVIDER_LABELS[FUNDAMENTALS_PROVIDER.SEC_EDGAR],
+
+    isAvailable() {
+      return getSecUserAgent() !== null;
+    },
+
+    async getFundamentals(symbol: string) {
+      // Crypto pairs and other non-issuers have no EDGAR filings
+      if (symbol.includes('/')) return null;
+
+      const cik = await lookupCik(symbol);
+      if (!cik) {
+        console.log(`ℹ️ No SEC CIK for ${symbol} - skipping EDGAR fundamentals`);
+        return null;
+      }
+
+      const companyFacts = await fetchCompanyFacts(cik);
+      if (!companyFacts) return null;
+
+      return buildSecEdgarSnapshot(symbol, cik, companyFacts);
+    }
+  };
+}
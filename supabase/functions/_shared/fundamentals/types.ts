@@ -0,0 +1,80 @@
+/**
+ * Fundamentals Provider Types
+ *
+ * Every structured fundamentals source implements FundamentalsProvider and
+ * returns a FundamentalsSnapshot: statements as line items aligned to fiscal
+ * periods, ratios derived from them and the quarterly earnings history. Each
+ * line item records whether the figure was reported in a filing or calculated
+ * from reported figures, so the prompt and the UI can say where it came from.
+ */
+
+export const FUNDAMENTALS_PROVIDER = {
+  SEC_EDGAR: 'sec_edgar' as const
+} as const;
+
+export type FundamentalsProviderId = typeof FUNDAMENTALS_PROVIDER[keyof typeof FUNDAMENTALS_PROVIDER];
+
+export const FUNDAMENTALS_PROVIDER_LABELS: Record<FundamentalsProviderId, string> = {
+  [FUNDAMENTALS_PROVIDER.SEC_EDGAR]: 'SEC EDGAR (XBRL company facts)'
+};
+
+export type FundamentalsUnit = 'USD' | 'USD/share' | 'shares' | 'percent' | 'ratio';
+
+export type FundamentalsValueSource = 'reported' | 'calculated';
+
+export interface FundamentalsPeriod {
+  label: string;            // FY2024, Q3 FY2024
+  fiscalYear: number;
+  fiscalPeriod: 'FY' | 'Q1' | 'Q2' | 'Q3' | 'Q4';
+  periodEnd: string;        // YYYY-MM-DD
+  form: string | null;      // filing the figures were taken from (10-K, 10-Q)
+  filed: string | null;
+}
+
+export interface FundamentalsLineItem {
+  key: string;
+  label: string;
+  unit: FundamentalsUnit;
+  values: (number | null)[];  // aligned with the statement's periods
+  source: FundamentalsValueSource;
+  concept: string | null;     // provider field the values came from, e.g. us-gaap:NetIncomeLoss
+}
+
+export interface FundamentalsStatement {
+  periods: FundamentalsPeriod[];   // most recent first
+  items: FundamentalsLineItem[];
+}
+
+export interface EarningsRecord {
+  period: FundamentalsPeriod;
+  revenue: number | null;
+  netIncome: number | null;
+  epsDiluted: number | null;
+  revenueGrowthYoY: number | null;  // percent vs. the same quarter a year earlier
+  epsGrowthYoY: number | null;
+  derived: boolean;                 // Q4 figures calculated as fiscal year minus Q1-Q3
+}
+
+export interface FundamentalsSnapshot {
+  symbol: string;
+  companyName: string;
+  provider: FundamentalsProviderId;
+  providerLabel: string;
+  sourceUrl: string | null;
+  currency: string;
+  fetchedAt: string;
+  incomeStatement: FundamentalsStatement;
+  balanceSheet: FundamentalsStatement;
+  cashFlow: FundamentalsStatement;
+  ratios: FundamentalsStatement;
+  earnings: EarningsRecord[];       // most recent first
+}
+
+export interface FundamentalsProvider {
+  id: FundamentalsProviderId;
+  label: string;
+  /** Whether the provider is configured in this environment */
+  isAvailable(): boolean;
+  /** Snapshot for the symbol, or null when the provider has no data for it */
+  getFundamentals(symbol: string): Promise<FundamentalsSnapshot | null>;
+}
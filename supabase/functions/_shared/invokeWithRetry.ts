@@ -1,5 +1,6 @@
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { ANALYSIS_STATUS } from './statusTypes.ts';
+import { CUSTOM_ANALYST_FUNCTION, getCustomAnalystId } from './customAnalysts.ts';
 
 function buildAuthHeaders() {
   const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -38,14 +39,19 @@ export async function invokeWithRetry(
 
   let lastError: any = null;
 
+  // Custom analysts share one edge function and are told apart by id
+  const customAnalystId = getCustomAnalystId(functionName);
+  const targetFunction = customAnalystId ? CUSTOM_ANALYST_FUNCTION : functionName;
+  const requestBody = customAnalystId ? { ...body, customAnalystId } : body;
+
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       console.log(`📡 Invoking ${functionName} (attempt ${attempt + 1}/${maxRetries + 1})`);
 
       // Let the Supabase client handle authentication
       // It was created with the service role key and should pass it automatically
-      const result = await supabase.functions.invoke(functionName, {
-        body,
+      const result = await supabase.functions.invoke(targetFunction, {
+        body: requestBody,
         headers: buildAuthHeaders()
       });
 
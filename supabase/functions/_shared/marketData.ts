@@ -192,6 +192,88 @@ export async function fetchHistoricalData<T extends MarketDataWithHistory & { ti
   }
 }
 
+export interface LatestQuote {
+  symbol: string;
+  bid: number | null;
+  ask: number | null;
+  last: number | null;
+  timestamp: string | null;
+}
+
+/**
+ * Fetches the latest quote (bid/ask plus last trade) for a single symbol
+ * @param symbol - Alpaca symbol (crypto pairs like BTC/USD or BTCUSD are supported)
+ * @param credentials - Alpaca API credentials
+ * @param isCrypto - Whether the symbol is a crypto pair
+ * @returns LatestQuote or null if no quote could be retrieved
+ */
+export async function fetchLatestQuote(
+  symbol: string,
+  credentials: AlpacaCredentials,
+  isCrypto: boolean = symbol.includes('/')
+): Promise<LatestQuote | null> {
+  if (!credentials?.apiKey || !credentials?.secretKey) {
+    return null;
+  }
+
+  const baseUrl = 'https://data.alpaca.markets';
+  const headers = {
+    'APCA-API-KEY-ID': credentials.apiKey,
+    'APCA-API-SECRET-KEY': credentials.secretKey,
+  };
+
+  try {
+    let quote: { bp?: number; ap?: number; t?: string } | undefined;
+    let trade: { p?: number; t?: string } | undefined;
+
+    if (isCrypto) {
+      const pair = symbol.includes('/') ? symbol : symbol.replace(/(USD|USDT|USDC|BTC)$/, '/$1');
+      const params = new URLSearchParams({ symbols: pair });
+      const [quoteRes, tradeRes] = await Promise.all([
+        fetch(`${baseUrl}/v1beta3/crypto/us/latest/quotes?${params}`, { headers }),
+        fetch(`${baseUrl}/v1beta3/crypto/us/latest/trades?${params}`, { headers })
+      ]);
+      if (quoteRes.ok) {
+        quote = (await quoteRes.json()).quotes?.[pair];
+      }
+      if (tradeRes.ok) {
+        trade = (await tradeRes.json()).trades?.[pair];
+      }
+    } else {
+      const [quoteRes, tradeRes] = await Promise.all([
+        fetch(`${baseUrl}/v2/stocks/${encodeURIComponent(symbol)}/quotes/latest?feed=iex`, { headers }),
+        fetch(`${baseUrl}/v2/stocks/${encodeURIComponent(symbol)}/trades/latest?feed=iex`, { headers })
+      ]);
+      if (quoteRes.ok) {
+        quote = (await quoteRes.json()).quote;
+      }
+      if (tradeRes.ok) {
+        trade = (await tradeRes.json()).trade;
+      }
+    }
+
+    const bid = quote?.bp && quote.bp > 0 ? quote.bp : null;
+    const ask = quote?.ap && quote.ap > 0 ? quote.ap : null;
+    const last = trade?.p && trade.p > 0 ? trade.p : null;
+
+    if (bid === null && ask === null && last === null) {
+      console.warn(`⚠️ No quote available for ${symbol}`);
+      return null;
+    }
+
+    return {
+      symbol,
+      bid,
+      ask,
+      last,
+      timestamp: quote?.t || trade?.t || null
+    };
+  } catch (error) {
+    console.error(`Error fetching latest quote for ${symbol}:`, error);
+    return null;
+  }
+}
+
 /**
  * Downsamples historical price data to a manageable number of points for AI agents
  * @param historicalPrices - Array of historical price data
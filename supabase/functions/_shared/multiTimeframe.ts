@@ -0,0 +1,268 @@
+/**
+ * Multi-Timeframe Market View
+ *
+ * Weekly trend, daily structure and intraday momentum for the Market Analyst.
+ * Each timeframe is its own market_data_cache period, so bars and indicators
+ * are fetched, calculated and cached per timeframe by technicalIndicators.ts;
+ * this module classifies the trend on each one and summarizes how they line up.
+ */
+
+import {
+  getCachedMarketDataWithIndicators,
+  type HistoricalPrice,
+  type TechnicalIndicators
+} from './technicalIndicators.ts';
+
+export const MARKET_TIMEFRAME = {
+  WEEKLY: 'weekly' as const,
+  DAILY: 'daily' as const,
+  INTRADAY: 'intraday' as const
+} as const;
+
+export type MarketTimeframe = typeof MARKET_TIMEFRAME[keyof typeof MARKET_TIMEFRAME];
+
+interface MarketTimeframeConfig {
+  label: string;
+  period: string;   // market_data_cache timeframe / fetchAlpacaHistoricalData period
+  barSize: string;
+}
+
+// Highest timeframe first
+export const MARKET_TIMEFRAME_CONFIG: Record<MarketTimeframe, MarketTimeframeConfig> = {
+  [MARKET_TIMEFRAME.WEEKLY]: { label: 'Weekly trend', period: '2Y', barSize: '1Week' },
+  [MARKET_TIMEFRAME.DAILY]: { label: 'Daily structure', period: '1Y', barSize: '1Day' },
+  [MARKET_TIMEFRAME.INTRADAY]: { label: 'Intraday momentum', period: '1M', barSize: '1Hour' }
+};
+
+export const TREND_DIRECTION = {
+  BULLISH: 'bullish' as const,
+  BEARISH: 'bearish' as const,
+  NEUTRAL: 'neutral' as const
+} as const;
+
+export type TrendDirection = typeof TREND_DIRECTION[keyof typeof TREND_DIRECTION];
+
+export const TREND_ALIGNMENT = {
+  ALIGNED_BULLISH: 'aligned_bullish' as const,
+  ALIGNED_BEARISH: 'aligned_bearish' as const,
+  MIXED: 'mixed' as const,
+  NEUTRAL: 'neutral' as const
+} as const;
+
+export type TrendAlignment = typeof TREND_ALIGNMENT[keyof typeof TREND_ALIGNMENT];
+
+// Net signal score needed to call a direction (out of five signals)
+const TREND_SCORE_THRESHOLD = 2;
+const ADX_TRENDING = 25;
+const ADX_RANGING = 20;
+
+export interface TimeframeTrend {
+  timeframe: MarketTimeframe;
+  label: string;
+  barSize: string;
+  bars: number;
+  lastDate: string;
+  close: number;
+  direction: TrendDirection;
+  score: number;            // -5..5, one point per signal
+  signals: string[];
+  strength: 'trending' | 'ranging' | 'moderate' | null;  // from ADX
+  rsi: number | null;
+  adx: number | null;
+  macdHistogram: number | null;
+  smaFast: number | null;   // SMA20
+  smaSlow: number | null;   // SMA50, EMA26 when too few bars
+}
+
+export interface MultiTimeframeView {
+  timeframes: TimeframeTrend[];
+  alignment: TrendAlignment;
+  summary: string;
+  unavailable: { timeframe: MarketTimeframe; error: string }[];
+}
+
+const lastValue = (series: number[] | undefined): number | null => {
+  if (!Array.isArray(series)) return null;
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (typeof series[i] === 'number' && isFinite(series[i])) return series[i];
+  }
+  return null;
+};
+
+/**
+ * Classify one timeframe from price vs. moving averages, MACD, RSI and DMI
+ */
+export function classifyTimeframeTrend(
+  timeframe: MarketTimeframe,
+  historical: HistoricalPrice[],
+  indicators: TechnicalIndicators
+): TimeframeTrend {
+  const config = MARKET_TIMEFRAME_CONFIG[timeframe];
+  const latest = historical[historical.length - 1];
+  const close = latest.close;
+
+  const smaFast = lastValue(indicators.sma_20);
+  const smaSlow = lastValue(indicators.sma_50) ?? lastValue(indicators.ema_26);
+  const macd = lastValue(indicators.macd);
+  const macdSignal = lastValue(indicators.macd_signal);
+  const rsi = lastValue(indicators.rsi);
+  const adx = lastValue(indicators.adx);
+  const plusDI = lastValue(indicators.plus_di);
+  const minusDI = lastValue(indicators.minus_di);
+
+  let score = 0;
+  const signals: string[] = [];
+
+  if (smaFast !== null) {
+    score += close > smaFast ? 1 : -1;
+    signals.push(`Close ${close > smaFast ? 'above' : 'below'} SMA20`);
+  }
+  if (smaFast !== null && smaSlow !== null) {
+    score += smaFast > smaSlow ? 1 : -1;
+    signals.push(`SMA20 ${smaFast > smaSlow ? 'above' : 'below'} the slow average`);
+  }
+  if (macd !== null && macdSignal !== null) {
+    score += macd > macdSignal ? 1 : -1;
+    signals.push(`MACD ${macd > macdSignal ? 'above' : 'below'} signal`);
+  }
+  if (rsi !== null) {
+    if (rsi > 55) score += 1;
+    if (rsi < 45) score -= 1;
+    signals.push(`RSI ${rsi.toFixed(1)}`);
+  }
+  if (plusDI !== null && minusDI !== null) {
+    score += plusDI > minusDI ? 1 : -1;
+    signals.push(plusDI > minusDI ? '+DI over -DI' : '-DI over +DI');
+  }
+
+  const direction = score >= TREND_SCORE_THRESHOLD
+    ? TREND_DIRECTION.BULLISH
+    : score <= -TREND_SCORE_THRESHOLD ? TREND_DIRECTION.BEARISH : TREND_DIRECTION.NEUTRAL;
+
+  const strength = adx === null
+    ? null
+    : adx >= ADX_TRENDING ? 'trending' : adx < ADX_RANGING ? 'ranging' : 'moderate';
+
+  return {
+    timeframe,
+    label: config.label,
+    barSize: config.barSize,
+    bars: historical.length,
+    lastDate: latest.date,
+    close,
+    direction,
+    score,
+    signals,
+    strength,
+    rsi,
+    adx,
+    macdHistogram: macd !== null && macdSignal !== null ? macd - macdSignal : null,
+    smaFast,
+    smaSlow
+  };
+}
+
+/**
+ * Overall alignment of the timeframe trends, with a one-line reading
+ */
+export function summarizeTrendAlignment(trends: TimeframeTrend[]): { alignment: TrendAlignment; summary: string } {
+  if (trends.length === 0) {
+    return { alignment: TREND_ALIGNMENT.NEUTRAL, summary: 'No timeframe data available' };
+  }
+
+  const directions = trends.map(t => t.direction);
+  const listing = trends.map(t => `${t.timeframe} ${t.direction}`).join(', ');
+
+  if (directions.every(d => d === TREND_DIRECTION.BULLISH)) {
+    return { alignment: TREND_ALIGNMENT.ALIGNED_BULLISH, summary: `All timeframes point up (${listing})` };
+  }
+  if (directions.every(d => d === TREND_DIRECTION.BEARISH)) {
+    return { alignment: TREND_ALIGNMENT.ALIGNED_BEARISH, summary: `All timeframes point down (${listing})` };
+  }
+  if (directions.every(d => d === TREND_DIRECTION.NEUTRAL)) {
+    return { alignment: TREND_ALIGNMENT.NEUTRAL, summary: `No timeframe shows a clear trend (${listing})` };
+  }
+
+  // Read the lowest timeframe against the highest one
+  const higher = trends[0].direction;
+  const lower = trends[trends.length - 1].direction;
+  let reading = 'Timeframes disagree';
+  if (higher === TREND_DIRECTION.BULLISH && lower === TREND_DIRECTION.BEARISH) {
+    reading = 'Pullback within a higher-timeframe uptrend';
+  } else if (higher === TREND_DIRECTION.BEARISH && lower === TREND_DIRECTION.BULLISH) {
+    reading = 'Counter-trend bounce within a higher-timeframe downtrend';
+  } else if (higher === TREND_DIRECTION.NEUTRAL && lower !== TREND_DIRECTION.NEUTRAL) {
+    reading = `Short-term ${lower} move without higher-timeframe confirmation`;
+  } else if (higher !== TREND_DIRECTION.NEUTRAL && lower === TREND_DIRECTION.NEUTRAL) {
+    reading = `Higher-timeframe ${higher} trend with lower-timeframe consolidation`;
+  }
+
+  return { alignment: TREND_ALIGNMENT.MIXED, summary: `${reading} (${listing})` };
+}
+
+/**
+ * Fetch (or read from cache) every timeframe and classify it. A timeframe that
+ * fails is reported in `unavailable` instead of failing the whole view.
+ * Expects supabase._userCredentials to be set, as for getCachedMarketDataWithIndicators.
+ */
+export async function getMultiTimeframeView(symbol: string, supabase: any): Promise<MultiTimeframeView> {
+  const timeframes: TimeframeTrend[] = [];
+  const unavailable: MultiTimeframeView['unavailable'] = [];
+
+  for (const timeframe of Object.values(MARKET_TIMEFRAME)) {
+    const { period } = MARKET_TIMEFRAME_CONFIG[timeframe];
+    try {
+      const { historical, indicators } = await getCachedMarketDataWithIndicators(symbol, period, supabase);
+      if (!historical || historical.length < 10) {
+        throw new Error(`only ${historical?.length || 0} bars`);
+      }
+      timeframes.push(classifyTimeframeTrend(timeframe, historical, indicators));
+    } catch (error) {
+      console.warn(`⚠️ ${timeframe} timeframe unavailable for ${symbol}:`, error);
+      unavailable.push({ timeframe, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const { alignment, summary } = summarizeTrendAlignment(timeframes);
+  console.log(`🧭 Multi-timeframe view for ${symbol}: ${alignment} - ${summary}`);
+
+  return { timeframes, alignment, summary, unavailable };
+}
+
+const formatNumber = (value: number | null, digits: number) => (value === null ? 'N/A' : value.toFixed(digits));
+
+/**
+ * Prompt section for the multi-timeframe view
+ */
+export function formatMultiTimeframeForAI(view: MultiTimeframeView): string {
+  let formatted = `Trend Alignment: ${view.alignment.toUpperCase()} - ${view.summary}\n\n`;
+
+  formatted += `Timeframe,Bars,Last_Bar,Close,Trend,Score,Strength,RSI,ADX,MACD_Hist,SMA20,Slow_MA\n`;
+  for (const trend of view.timeframes) {
+    formatted += [
+      `${trend.label} (${trend.barSize})`,
+      trend.bars,
+      trend.lastDate,
+      trend.close.toFixed(2),
+      trend.direction,
+      trend.score > 0 ? `+${trend.score}` : trend.score,
+      trend.strength ?? 'N/A',
+      formatNumber(trend.rsi, 1),
+      formatNumber(trend.adx, 1),
+      formatNumber(trend.macdHistogram, 4),
+      formatNumber(trend.smaFast, 2),
+      formatNumber(trend.smaSlow, 2)
+    ].join(',') + '\n';
+  }
+
+  formatted += `\nSignals:\n`;
+  for (const trend of view.timeframes) {
+    formatted += `- ${trend.label}: ${trend.signals.join('; ')}\n`;
+  }
+
+  if (view.unavailable.length > 0) {
+    formatted += `\nUnavailable: ${view.unavailable.map(u => MARKET_TIMEFRAME_CONFIG[u.timeframe].label).join(', ')}\n`;
+  }
+
+  return formatted;
+}
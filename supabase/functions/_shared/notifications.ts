@@ -0,0 +1,364 @@
+/**
+ * User Notifications
+ *
+ * Delivers workflow events (completed/failed analyses and rebalances, pending,
+ * executed and failed trade orders) over email, Discord DM and a generic
+ * webhook. Channel settings and the per-event channel map live in the
+ * notification_preferences table. Delivery is best effort: notifyUser never
+ * throws, so callers can fire it from completion and error paths alike.
+ *
+ * Environment:
+ * - RESEND_API_KEY / NOTIFICATION_EMAIL_FROM: email delivery via Resend
+ * - DISCORD_BOT_TOKEN: the bot used by discord-role-sync, reused for DMs
+ * - APP_URL: base URL for links back to the app
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const NOTIFICATION_EVENT = {
+  ANALYSIS_COMPLETED: 'analysis_completed' as const,
+  ANALYSIS_FAILED: 'analysis_failed' as const,
+  REBALANCE_COMPLETED: 'rebalance_completed' as const,
+  REBALANCE_FAILED: 'rebalance_failed' as const,
+  ORDERS_PENDING: 'orders_pending' as const,
+  ORDERS_EXECUTED: 'orders_executed' as const,
+  ORDERS_FAILED: 'orders_failed' as const
+} as const;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENT[keyof typeof NOTIFICATION_EVENT];
+
+export const NOTIFICATION_CHANNEL = {
+  EMAIL: 'email' as const,
+  DISCORD: 'discord' as const,
+  WEBHOOK: 'webhook' as const
+} as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNEL[keyof typeof NOTIFICATION_CHANNEL];
+
+// Row of the notification_preferences table
+export interface NotificationPreferences {
+  user_id: string;
+  email_enabled: boolean;
+  discord_enabled: boolean;
+  webhook_enabled: boolean;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  event_channels: Partial<Record<NotificationEvent, NotificationChannel[]>>;
+}
+
+export interface NotificationPayload {
+  title: string;
+  message: string;
+  path?: string; // App route the notification links to, e.g. /rebalance-records
+  ticker?: string;
+  analysisId?: string;
+  rebalanceRequestId?: string;
+  details?: Record<string, unknown>;
+  actions?: NotificationAction[]; // One-click links, e.g. trade approval links
+}
+
+export interface NotificationAction {
+  label: string;
+  url: string;
+}
+
+export interface NotificationResult {
+  sent: NotificationChannel[];
+  failed: { channel: NotificationChannel; error: string }[];
+}
+
+const DEFAULT_APP_URL = 'https://trading-goose.github.io';
+const DISCORD_API_URL = 'https://discord.com/api/v10';
+const RESEND_API_URL = 'https://api.resend.com/emails';
+const DISCORD_MESSAGE_LIMIT = 2000;
+
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+  return typeof value === 'string' && Object.values(NOTIFICATION_EVENT).includes(value as NotificationEvent);
+}
+
+export function isNotificationChannel(value: unknown): value is NotificationChannel {
+  return typeof value === 'string' && Object.values(NOTIFICATION_CHANNEL).includes(value as NotificationChannel);
+}
+
+/**
+ * Channels an event should go out on: those selected for the event that are
+ * also switched on (and, for webhooks, have a URL)
+ */
+export function resolveEventChannels(
+  preferences: NotificationPreferences,
+  event: NotificationEvent
+): NotificationChannel[] {
+  const selected = preferences.event_channels?.[event];
+  if (!Array.isArray(selected)) return [];
+
+  return selected.filter((channel, index) => {
+    if (!isNotificationChannel(channel) || selected.indexOf(channel) !== index) return false;
+    if (channel === NOTIFICATION_CHANNEL.EMAIL) return preferences.email_enabled;
+    if (channel === NOTIFICATION_CHANNEL.DISCORD) return preferences.discord_enabled;
+    return preferences.webhook_enabled && !!preferences.webhook_url;
+  });
+}
+
+export function buildNotificationUrl(path?: string): string {
+  const baseUrl = (Deno.env.get('APP_URL') || DEFAULT_APP_URL).replace(/\/+$/, '');
+  if (!path) return baseUrl;
+  return `${baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Send a workflow event to the user on every channel they selected for it.
+ * Never throws; failures are logged and returned.
+ */
+export async function notifyUser(
+  supabase: SupabaseClient,
+  userId: string,
+  event: NotificationEvent,
+  payload: NotificationPayload
+): Promise<NotificationResult> {
+  const result: NotificationResult = { sent: [], failed: [] };
+
+  try {
+    const { data: preferences, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn(`⚠️ Could not load notification preferences for ${userId}:`, error.message);
+      return result;
+    }
+    if (!preferences) return result;
+
+    const channels = resolveEventChannels(preferences as NotificationPreferences, event);
+    if (channels.length === 0) return result;
+
+    const url = buildNotificationUrl(payload.path);
+
+    for (const channel of channels) {
+      try {
+        if (channel === NOTIFICATION_CHANNEL.EMAIL) {
+          await sendEmailNotification(supabase, userId, payload, url);
+        } else if (channel === NOTIFICATION_CHANNEL.DISCORD) {
+          await sendDiscordNotification(supabase, userId, payload, url);
+        } else {
+          await sendWebhookNotification(preferences as NotificationPreferences, event, payload, url);
+        }
+        result.sent.push(channel);
+      } catch (channelError: any) {
+        const message = channelError?.message || String(channelError);
+        console.warn(`⚠️ ${event} notification via ${channel} failed for ${userId}:`, message);
+        result.failed.push({ channel, error: message });
+      }
+    }
+
+    if (result.sent.length > 0) {
+      console.log(`🔔 Sent ${event} notification to ${userId} via ${result.sent.join(', ')}`);
+    }
+  } catch (error: any) {
+    console.warn(`⚠️ ${event} notification failed for ${userId}:`, error?.message || error);
+  }
+
+  return result;
+}
+
+async function loadProfile(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ email: string | null; discord_id: string | null; name: string | null }> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('email, discord_id, name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load profile: ${error.message}`);
+  return {
+    email: data?.email ?? null,
+    discord_id: data?.discord_id ?? null,
+    name: data?.name ?? null
+  };
+}
+
+async function sendEmailNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: NotificationPayload,
+  url: string
+): Promise<void> {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('NOTIFICATION_EMAIL_FROM');
+  if (!apiKey || !from) throw new Error('Email delivery is not configured (RESEND_API_KEY / NOTIFICATION_EMAIL_FROM)');
+
+  const profile = await loadProfile(supabase, userId);
+  if (!profile.email) throw new Error('No email address on profile');
+
+  const response = await fetch(RESEND_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      from,
+      to: [profile.email],
+      subject: `TradingGoose: ${payload.title}`,
+      html: renderNotificationEmail(payload, url),
+      text: [
+        payload.title,
+        payload.message,
+        ...(payload.actions || []).map(action => `${action.label}: ${action.url}`),
+        url
+      ].join('\n\n')
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email API error: ${response.status} ${await response.text()}`);
+  }
+}
+
+async function sendDiscordNotification(
+  supabase: SupabaseClient,
+  userId: string,
+  payload: NotificationPayload,
+  url: string
+): Promise<void> {
+  const botToken = Deno.env.get('DISCORD_BOT_TOKEN');
+  if (!botToken) throw new Error('Discord delivery is not configured (DISCORD_BOT_TOKEN)');
+
+  const profile = await loadProfile(supabase, userId);
+  if (!profile.discord_id) throw new Error('No Discord account linked to profile');
+
+  // Ensure proper Bot prefix (don't double it if already present)
+  const authHeader = botToken.startsWith('Bot ') ? botToken : `Bot ${botToken}`;
+  const headers = {
+    'Authorization': authHeader,
+    'Content-Type': 'application/json'
+  };
+
+  const channelResponse = await fetch(`${DISCORD_API_URL}/users/@me/channels`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ recipient_id: profile.discord_id })
+  });
+  if (!channelResponse.ok) {
+    throw new Error(`Discord API error opening DM: ${channelResponse.status} ${await channelResponse.text()}`);
+  }
+  const dmChannel = await channelResponse.json();
+
+  const actionLines = (payload.actions || []).map(action => `${action.label}: <${action.url}>`);
+  const content = [`**${payload.title}**`, payload.message, ...actionLines, url].join('\n');
+  const messageResponse = await fetch(`${DISCORD_API_URL}/channels/${dmChannel.id}/messages`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      content: content.length > DISCORD_MESSAGE_LIMIT
+        ? `${content.slice(0, DISCORD_MESSAGE_LIMIT - 1)}…`
+        : content
+    })
+  });
+  if (!messageResponse.ok) {
+    throw new Error(`Discord API error sending DM: ${messageResponse.status} ${await messageResponse.text()}`);
+  }
+}
+
+async function sendWebhookNotification(
+  preferences: NotificationPreferences,
+  event: NotificationEvent,
+  payload: NotificationPayload,
+  url: string
+): Promise<void> {
+  const body = JSON.stringify({
+    event,
+    title: payload.title,
+    message: payload.message,
+    url,
+    data: {
+      ticker: payload.ticker ?? null,
+      analysisId: payload.analysisId ?? null,
+      rebalanceRequestId: payload.rebalanceRequestId ?? null,
+      actions: payload.actions || [],
+      ...(payload.details || {})
+    },
+    sentAt: new Date().toISOString()
+  });
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'TradingGoose-Notifications'
+  };
+  if (preferences.webhook_secret) {
+    headers['X-TradingGoose-Signature'] = await signWebhookBody(preferences.webhook_secret, body);
+  }
+
+  const response = await fetch(preferences.webhook_url!, { method: 'POST', headers, body });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of the request body, sent as X-TradingGoose-Signature
+ */
+async function signWebhookBody(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const EMAIL_FONT = '-apple-system,BlinkMacSystemFont,Segoe UI,Roboto,Oxygen,Ubuntu,Cantarell,Fira Sans,Droid Sans,Helvetica Neue,sans-serif';
+
+/**
+ * Same card layout and palette as the auth emails in email_templates/
+ */
+export function renderNotificationEmail(payload: NotificationPayload, url: string): string {
+  const paragraphs = payload.message
+    .split(/\n+/)
+    .filter(line => line.trim())
+    .map(line => `<p style="margin:0 0 12px 0;color:#cccccc;font-size:14px;line-height:140%;">${escapeHtml(line)}</p>`)
+    .join('');
+
+  const actionLinks = (payload.actions || [])
+    .map(action => `<p style="margin:0 0 8px 0;text-align:center;"><a href="${escapeHtml(action.url)}" target="_blank" style="color:#ffcc00;font-size:14px;font-weight:600;text-decoration:underline;">${escapeHtml(action.label)}</a></p>`)
+    .join('');
+
+  return `<table style="table-layout:fixed;border-spacing:0;vertical-align:top;min-width:300px;Margin:0 auto;background-color:#000000;width:100%;max-width:350px;border-radius:12px;box-shadow:0 8px 32px rgba(0,0,0,0.6);font-family:${EMAIL_FONT}" cellspacing="0" cellpadding="0">
+  <tbody>
+    <tr style="vertical-align:top">
+      <td style="word-break:break-word;border-collapse:collapse!important;vertical-align:top;padding:40px;">
+        <div style="text-align:center;padding:10px;">
+          <img src="https://avatars.githubusercontent.com/u/226357056?v=4" alt="TradingGoose" style="width:60px;height:60px;display:inline-block;vertical-align:middle;margin-right:10px;">
+          <span style="color:#ffcc00;font-size:36px;font-weight:bolder;display:inline-block;vertical-align:middle;">TradingGoose</span>
+        </div>
+        <p style="text-align:center;color:#939eae;font-size:14px;font-weight:500;margin:0 0 24px 0;">AI-Powered Trading Agent</p>
+        <h1 style="margin:0 0 16px 0;color:#888888;font-size:22px;font-weight:700;text-align:center;">${escapeHtml(payload.title)}</h1>
+        ${paragraphs}
+        ${actionLinks}
+        <div style="text-align:center;padding:16px 0;">
+          <a href="${escapeHtml(url)}" target="_blank" style="display:inline-block;background-color:#ffcc00;color:#000000;font-size:14px;font-weight:700;text-decoration:none;padding:10px 24px;border-radius:9999px;">Open TradingGoose</a>
+        </div>
+        <p style="text-align:center;color:#929eae;font-size:12px;margin:16px 0 0 0;">You can change which notifications you receive in Settings.</p>
+      </td>
+    </tr>
+  </tbody>
+</table>`;
+}
@@ -0,0 +1,263 @@
+/**
+ * Order Type Definitions and Validation
+ *
+ * Shared by the portfolio managers (which attach default order parameters to
+ * new trade orders) and execute-trade (which validates them against the latest
+ * quote before submitting to Alpaca).
+ */
+
+import type { LatestQuote } from './marketData.ts';
+
+export const ORDER_TYPE = {
+  MARKET: 'market' as const,
+  LIMIT: 'limit' as const,
+  STOP: 'stop' as const,
+  STOP_LIMIT: 'stop_limit' as const,
+  TRAILING_STOP: 'trailing_stop' as const
+} as const;
+
+export type OrderType = typeof ORDER_TYPE[keyof typeof ORDER_TYPE];
+
+export const TIME_IN_FORCE = {
+  DAY: 'day' as const,
+  GTC: 'gtc' as const,
+  OPG: 'opg' as const,
+  CLS: 'cls' as const,
+  IOC: 'ioc' as const,
+  FOK: 'fok' as const
+} as const;
+
+export type TimeInForce = typeof TIME_IN_FORCE[keyof typeof TIME_IN_FORCE];
+
+/**
+ * Maximum distance (in percent) a limit or stop price may sit from the
+ * reference quote before the order is rejected as a likely typo
+ */
+export const MAX_PRICE_DEVIATION_PERCENT = 25;
+
+/**
+ * Bounds for trailing stop distances
+ */
+export const MIN_TRAIL_PERCENT = 0.1;
+export const MAX_TRAIL_PERCENT = 50;
+
+export interface OrderParams {
+  orderType: OrderType;
+  timeInForce?: TimeInForce | null;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  trailPercent?: number | null;
+  trailPrice?: number | null;
+}
+
+export interface OrderDefaultsSettings {
+  default_order_type?: string | null;
+  default_time_in_force?: string | null;
+  limit_order_offset?: number | null;
+}
+
+export interface OrderValidationResult {
+  valid: boolean;
+  error?: string;
+  referencePrice?: number;
+}
+
+export function isValidOrderType(type: unknown): type is OrderType {
+  return typeof type === 'string' && Object.values(ORDER_TYPE).includes(type as OrderType);
+}
+
+export function isValidTimeInForce(tif: unknown): tif is TimeInForce {
+  return typeof tif === 'string' && Object.values(TIME_IN_FORCE).includes(tif as TimeInForce);
+}
+
+/**
+ * Whether the order type needs a limit price
+ */
+export function requiresLimitPrice(type: OrderType): boolean {
+  return type === ORDER_TYPE.LIMIT || type === ORDER_TYPE.STOP_LIMIT;
+}
+
+/**
+ * Whether the order type needs a stop (trigger) price
+ */
+export function requiresStopPrice(type: OrderType): boolean {
+  return type === ORDER_TYPE.STOP || type === ORDER_TYPE.STOP_LIMIT;
+}
+
+/**
+ * Rounds a price to the tick size Alpaca accepts (2 decimals at or above $1, 4 below)
+ */
+export function roundToTick(price: number): number {
+  const decimals = price >= 1 ? 2 : 4;
+  const factor = Math.pow(10, decimals);
+  return Math.round(price * factor) / factor;
+}
+
+/**
+ * Picks the price a new order is compared against: ask for buys, bid for sells,
+ * falling back to the last trade when one side of the book is missing
+ */
+export function getReferencePrice(quote: LatestQuote | null, side: 'buy' | 'sell'): number | null {
+  if (!quote) return null;
+  if (side === 'buy') {
+    return quote.ask ?? quote.last ?? quote.bid;
+  }
+  return quote.bid ?? quote.last ?? quote.ask;
+}
+
+/**
+ * Builds the default order parameters for a new trade order from user settings
+ * @param action - BUY or SELL
+ * @param currentPrice - Latest known price for the ticker (0 when unknown)
+ * @param settings - api_settings row with default order preferences
+ */
+export function buildDefaultOrderParams(
+  action: string,
+  currentPrice: number,
+  settings: OrderDefaultsSettings | null | undefined
+): OrderParams {
+  const timeInForce = isValidTimeInForce(settings?.default_time_in_force)
+    ? settings!.default_time_in_force as TimeInForce
+    : null;
+
+  if (settings?.default_order_type !== ORDER_TYPE.LIMIT || !currentPrice || currentPrice <= 0) {
+    return { orderType: ORDER_TYPE.MARKET, timeInForce };
+  }
+
+  const offset = Number(settings.limit_order_offset ?? 0.5) / 100;
+  const limitPrice = action === 'BUY'
+    ? currentPrice * (1 + offset)
+    : currentPrice * (1 - offset);
+
+  return {
+    orderType: ORDER_TYPE.LIMIT,
+    timeInForce,
+    limitPrice: roundToTick(limitPrice)
+  };
+}
+
+/**
+ * Normalizes loosely typed order parameters (request bodies, database rows)
+ * into an OrderParams object. Unknown order types fall back to market and
+ * prices that do not apply to the order type are dropped.
+ */
+export function normalizeOrderParams(raw: Record<string, unknown> | null | undefined): OrderParams {
+  const toNumber = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const orderType = raw?.orderType ?? raw?.order_type;
+  const timeInForce = raw?.timeInForce ?? raw?.time_in_force;
+
+  const type: OrderType = isValidOrderType(orderType) ? orderType : ORDER_TYPE.MARKET;
+  const isTrailing = type === ORDER_TYPE.TRAILING_STOP;
+
+  return {
+    orderType: type,
+    timeInForce: isValidTimeInForce(timeInForce) ? timeInForce : null,
+    limitPrice: requiresLimitPrice(type) ? toNumber(raw?.limitPrice ?? raw?.limit_price) : null,
+    stopPrice: requiresStopPrice(type) ? toNumber(raw?.stopPrice ?? raw?.stop_price) : null,
+    trailPercent: isTrailing ? toNumber(raw?.trailPercent ?? raw?.trail_percent) : null,
+    trailPrice: isTrailing ? toNumber(raw?.trailPrice ?? raw?.trail_price) : null
+  };
+}
+
+/**
+ * Validates order parameters against the latest quote.
+ * Checks that required prices are present, that stops sit on the correct side
+ * of the market, and that no price is wildly away from the current quote.
+ */
+export function validateOrderParams(
+  params: OrderParams,
+  side: 'buy' | 'sell',
+  quote: LatestQuote | null,
+  options: { isCrypto?: boolean } = {}
+): OrderValidationResult {
+  const { orderType, timeInForce, limitPrice, stopPrice, trailPercent, trailPrice } = params;
+
+  if (!isValidOrderType(orderType)) {
+    return { valid: false, error: `Unsupported order type: ${orderType}` };
+  }
+
+  if (timeInForce && !isValidTimeInForce(timeInForce)) {
+    return { valid: false, error: `Unsupported time in force: ${timeInForce}` };
+  }
+
+  if (options.isCrypto) {
+    if (timeInForce && timeInForce !== TIME_IN_FORCE.GTC && timeInForce !== TIME_IN_FORCE.IOC) {
+      return { valid: false, error: 'Crypto orders only support gtc or ioc time in force' };
+    }
+    if (orderType === ORDER_TYPE.STOP || orderType === ORDER_TYPE.TRAILING_STOP) {
+      return { valid: false, error: `${orderType} orders are not supported for crypto` };
+    }
+  }
+
+  if (orderType === ORDER_TYPE.TRAILING_STOP && timeInForce &&
+      timeInForce !== TIME_IN_FORCE.DAY && timeInForce !== TIME_IN_FORCE.GTC) {
+    return { valid: false, error: 'Trailing stop orders only support day or gtc time in force' };
+  }
+
+  if (requiresLimitPrice(orderType) && !(limitPrice && limitPrice > 0)) {
+    return { valid: false, error: `${orderType} orders require a positive limit price` };
+  }
+
+  if (requiresStopPrice(orderType) && !(stopPrice && stopPrice > 0)) {
+    return { valid: false, error: `${orderType} orders require a positive stop price` };
+  }
+
+  if (orderType === ORDER_TYPE.TRAILING_STOP) {
+    const hasPercent = !!(trailPercent && trailPercent > 0);
+    const hasPrice = !!(trailPrice && trailPrice > 0);
+    if (hasPercent === hasPrice) {
+      return { valid: false, error: 'Trailing stop orders require exactly one of trail percent or trail price' };
+    }
+    if (hasPercent && (trailPercent! < MIN_TRAIL_PERCENT || trailPercent! > MAX_TRAIL_PERCENT)) {
+      return { valid: false, error: `Trail percent must be between ${MIN_TRAIL_PERCENT}% and ${MAX_TRAIL_PERCENT}%` };
+    }
+  }
+
+  if (orderType === ORDER_TYPE.STOP_LIMIT) {
+    if (side === 'buy' && limitPrice! < stopPrice!) {
+      return { valid: false, error: 'Buy stop-limit orders need a limit price at or above the stop price' };
+    }
+    if (side === 'sell' && limitPrice! > stopPrice!) {
+      return { valid: false, error: 'Sell stop-limit orders need a limit price at or below the stop price' };
+    }
+  }
+
+  if (orderType === ORDER_TYPE.MARKET) {
+    return { valid: true };
+  }
+
+  const referencePrice = getReferencePrice(quote, side);
+  if (!referencePrice) {
+    return { valid: false, error: 'Unable to fetch a current quote to validate the order prices' };
+  }
+
+  const deviation = (price: number) => Math.abs(price - referencePrice) / referencePrice * 100;
+
+  if (requiresStopPrice(orderType)) {
+    if (side === 'buy' && stopPrice! <= referencePrice) {
+      return { valid: false, referencePrice, error: `Buy stop price $${stopPrice} must be above the current price $${referencePrice}` };
+    }
+    if (side === 'sell' && stopPrice! >= referencePrice) {
+      return { valid: false, referencePrice, error: `Sell stop price $${stopPrice} must be below the current price $${referencePrice}` };
+    }
+    if (deviation(stopPrice!) > MAX_PRICE_DEVIATION_PERCENT) {
+      return { valid: false, referencePrice, error: `Stop price $${stopPrice} is more than ${MAX_PRICE_DEVIATION_PERCENT}% away from the current price $${referencePrice}` };
+    }
+  }
+
+  if (requiresLimitPrice(orderType) && deviation(limitPrice!) > MAX_PRICE_DEVIATION_PERCENT) {
+    return { valid: false, referencePrice, error: `Limit price $${limitPrice} is more than ${MAX_PRICE_DEVIATION_PERCENT}% away from the current price $${referencePrice}` };
+  }
+
+  if (orderType === ORDER_TYPE.TRAILING_STOP && trailPrice && trailPrice > 0 &&
+      trailPrice / referencePrice * 100 > MAX_TRAIL_PERCENT) {
+    return { valid: false, referencePrice, error: `Trail price $${trailPrice} is more than ${MAX_TRAIL_PERCENT}% of the current price $${referencePrice}` };
+  }
+
+  return { valid: true, referencePrice };
+}
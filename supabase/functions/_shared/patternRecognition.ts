@@ -0,0 +1,540 @@
+/**
+ * Pattern Recognition
+ *
+ * Deterministic candlestick and chart pattern detection on the cached bars the
+ * Market Analyst already loads. Candlestick patterns are checked on the most
+ * recent bars; chart patterns (double tops/bottoms, head and shoulders,
+ * triangles) are built from swing highs and lows, and breakouts are measured
+ * against the support/resistance levels from technicalIndicators.ts.
+ *
+ * Every detection carries a 0-1 confidence from how closely the bars match the
+ * textbook shape, the trend it appears in, volume and whether it has confirmed.
+ */
+
+import type { HistoricalPrice, TechnicalIndicators } from './technicalIndicators.ts';
+
+export const PATTERN_KIND = {
+  CANDLESTICK: 'candlestick' as const,
+  CHART: 'chart' as const
+} as const;
+
+export type PatternKind = typeof PATTERN_KIND[keyof typeof PATTERN_KIND];
+
+export const PATTERN = {
+  DOJI: 'doji' as const,
+  HAMMER: 'hammer' as const,
+  HANGING_MAN: 'hanging_man' as const,
+  INVERTED_HAMMER: 'inverted_hammer' as const,
+  SHOOTING_STAR: 'shooting_star' as const,
+  BULLISH_ENGULFING: 'bullish_engulfing' as const,
+  BEARISH_ENGULFING: 'bearish_engulfing' as const,
+  MORNING_STAR: 'morning_star' as const,
+  EVENING_STAR: 'evening_star' as const,
+  THREE_WHITE_SOLDIERS: 'three_white_soldiers' as const,
+  THREE_BLACK_CROWS: 'three_black_crows' as const,
+  DOUBLE_TOP: 'double_top' as const,
+  DOUBLE_BOTTOM: 'double_bottom' as const,
+  HEAD_AND_SHOULDERS: 'head_and_shoulders' as const,
+  INVERSE_HEAD_AND_SHOULDERS: 'inverse_head_and_shoulders' as const,
+  ASCENDING_TRIANGLE: 'ascending_triangle' as const,
+  DESCENDING_TRIANGLE: 'descending_triangle' as const,
+  SYMMETRICAL_TRIANGLE: 'symmetrical_triangle' as const,
+  RESISTANCE_BREAKOUT: 'resistance_breakout' as const,
+  SUPPORT_BREAKDOWN: 'support_breakdown' as const
+} as const;
+
+export type PatternType = typeof PATTERN[keyof typeof PATTERN];
+
+export const PATTERN_LABELS: Record<PatternType, string> = {
+  [PATTERN.DOJI]: 'Doji',
+  [PATTERN.HAMMER]: 'Hammer',
+  [PATTERN.HANGING_MAN]: 'Hanging Man',
+  [PATTERN.INVERTED_HAMMER]: 'Inverted Hammer',
+  [PATTERN.SHOOTING_STAR]: 'Shooting Star',
+  [PATTERN.BULLISH_ENGULFING]: 'Bullish Engulfing',
+  [PATTERN.BEARISH_ENGULFING]: 'Bearish Engulfing',
+  [PATTERN.MORNING_STAR]: 'Morning Star',
+  [PATTERN.EVENING_STAR]: 'Evening Star',
+  [PATTERN.THREE_WHITE_SOLDIERS]: 'Three White Soldiers',
+  [PATTERN.THREE_BLACK_CROWS]: 'Three Black Crows',
+  [PATTERN.DOUBLE_TOP]: 'Double Top',
+  [PATTERN.DOUBLE_BOTTOM]: 'Double Bottom',
+  [PATTERN.HEAD_AND_SHOULDERS]: 'Head and Shoulders',
+  [PATTERN.INVERSE_HEAD_AND_SHOULDERS]: 'Inverse Head and Shoulders',
+  [PATTERN.ASCENDING_TRIANGLE]: 'Ascending Triangle',
+  [PATTERN.DESCENDING_TRIANGLE]: 'Descending Triangle',
+  [PATTERN.SYMMETRICAL_TRIANGLE]: 'Symmetrical Triangle',
+  [PATTERN.RESISTANCE_BREAKOUT]: 'Resistance Breakout',
+  [PATTERN.SUPPORT_BREAKDOWN]: 'Support Breakdown'
+};
+
+export type PatternBias = 'bullish' | 'bearish' | 'neutral';
+
+export interface DetectedPattern {
+  pattern: PatternType;
+  label: string;
+  kind: PatternKind;
+  bias: PatternBias;
+  confidence: number;       // 0-1
+  startIndex: number;       // bar indices into the analysed series
+  endIndex: number;
+  startDate: string;
+  endDate: string;
+  level: number | null;     // neckline, trendline or broken level where the pattern has one
+  confirmed: boolean;       // chart patterns: price has closed through the level
+  description: string;
+}
+
+// Candlestick patterns older than this many bars are not reported
+const CANDLESTICK_LOOKBACK = 15;
+// Chart patterns must end within this share of the series
+const CHART_PATTERN_RECENCY = 0.4;
+// Bars a breakout may be old and still count
+const BREAKOUT_LOOKBACK = 5;
+// Peaks/troughs within this fraction count as equal
+const LEVEL_TOLERANCE = 0.03;
+const MAX_CANDLESTICK_PATTERNS = 6;
+const MAX_PATTERNS = 12;
+
+const clampConfidence = (value: number) => Math.round(Math.min(0.95, Math.max(0.05, value)) * 100) / 100;
+
+const body = (bar: HistoricalPrice) => Math.abs(bar.close - bar.open);
+const range = (bar: HistoricalPrice) => bar.high - bar.low;
+const upperShadow = (bar: HistoricalPrice) => bar.high - Math.max(bar.open, bar.close);
+const lowerShadow = (bar: HistoricalPrice) => Math.min(bar.open, bar.close) - bar.low;
+const isBullishBar = (bar: HistoricalPrice) => bar.close > bar.open;
+const isBearishBar = (bar: HistoricalPrice) => bar.close < bar.open;
+
+/**
+ * Direction of the closes leading into a bar: positive for an advance
+ */
+function priorTrend(bars: HistoricalPrice[], index: number, lookback: number = 5): number {
+  const start = index - lookback;
+  if (start < 0) return 0;
+  return (bars[index - 1].close - bars[start].close) / bars[start].close;
+}
+
+function averageVolume(bars: HistoricalPrice[], index: number, period: number = 20): number {
+  const slice = bars.slice(Math.max(0, index - period), index);
+  return slice.length > 0 ? slice.reduce((sum, bar) => sum + bar.volume, 0) / slice.length : 0;
+}
+
+function volumeBoost(bars: HistoricalPrice[], index: number): number {
+  const average = averageVolume(bars, index);
+  return average > 0 && bars[index].volume > average * 1.5 ? 0.1 : 0;
+}
+
+function buildPattern(
+  bars: HistoricalPrice[],
+  pattern: PatternType,
+  kind: PatternKind,
+  bias: PatternBias,
+  confidence: number,
+  startIndex: number,
+  endIndex: number,
+  description: string,
+  level: number | null = null,
+  confirmed: boolean = false
+): DetectedPattern {
+  return {
+    pattern,
+    label: PATTERN_LABELS[pattern],
+    kind,
+    bias,
+    confidence: clampConfidence(confidence),
+    startIndex,
+    endIndex,
+    startDate: bars[startIndex].date,
+    endDate: bars[endIndex].date,
+    level,
+    confirmed,
+    description
+  };
+}
+
+/**
+ * Single, two and three bar candlestick patterns on the most recent bars
+ */
+export function detectCandlestickPatterns(bars: HistoricalPrice[]): DetectedPattern[] {
+  const patterns: DetectedPattern[] = [];
+  const candle = PATTERN_KIND.CANDLESTICK;
+
+  for (let i = Math.max(2, bars.length - CANDLESTICK_LOOKBACK); i < bars.length; i++) {
+    const bar = bars[i];
+    const previous = bars[i - 1];
+    const barRange = range(bar);
+    if (barRange <= 0) continue;
+
+    const trend = priorTrend(bars, i);
+    const inUptrend = trend > 0.02;
+    const inDowntrend = trend < -0.02;
+    const bodySize = body(bar);
+    const volume = volumeBoost(bars, i);
+
+    // Doji: open and close nearly equal
+    if (bodySize <= barRange * 0.1) {
+      const context = inUptrend || inDowntrend ? 0.1 : 0;
+      patterns.push(buildPattern(bars, PATTERN.DOJI, candle, 'neutral', 0.4 + context + (0.1 - bodySize / barRange),
+        i, i, `Indecision bar${inUptrend ? ' after an advance' : inDowntrend ? ' after a decline' : ''}`));
+    } else {
+      // Long lower shadow, small upper shadow: hammer / hanging man
+      if (lowerShadow(bar) >= bodySize * 2 && upperShadow(bar) <= barRange * 0.15) {
+        if (inDowntrend) {
+          patterns.push(buildPattern(bars, PATTERN.HAMMER, candle, 'bullish', 0.55 + volume + Math.min(0.15, -trend),
+            i, i, 'Sellers pushed price down but buyers closed it near the high after a decline'));
+        } else if (inUptrend) {
+          patterns.push(buildPattern(bars, PATTERN.HANGING_MAN, candle, 'bearish', 0.45 + volume + Math.min(0.15, trend),
+            i, i, 'Long lower shadow after an advance shows selling pressure'));
+        }
+      }
+      // Long upper shadow, small lower shadow: inverted hammer / shooting star
+      if (upperShadow(bar) >= bodySize * 2 && lowerShadow(bar) <= barRange * 0.15) {
+        if (inUptrend) {
+          patterns.push(buildPattern(bars, PATTERN.SHOOTING_STAR, candle, 'bearish', 0.55 + volume + Math.min(0.15, trend),
+            i, i, 'Rally rejected from the high after an advance'));
+        } else if (inDowntrend) {
+          patterns.push(buildPattern(bars, PATTERN.INVERTED_HAMMER, candle, 'bullish', 0.45 + volume + Math.min(0.15, -trend),
+            i, i, 'Buyers tested higher after a decline'));
+        }
+      }
+    }
+
+    // Engulfing: this body fully covers the previous opposite-colour body
+    if (body(previous) > 0) {
+      if (isBearishBar(previous) && isBullishBar(bar) && bar.open <= previous.close && bar.close >= previous.open) {
+        const coverage = bodySize / body(previous);
+        patterns.push(buildPattern(bars, PATTERN.BULLISH_ENGULFING, candle, 'bullish',
+          0.5 + (inDowntrend ? 0.15 : 0) + Math.min(0.15, (coverage - 1) * 0.1) + volume,
+          i - 1, i, `Bullish body engulfs the prior bearish body${inDowntrend ? ' after a decline' : ''}`));
+      }
+      if (isBullishBar(previous) && isBearishBar(bar) && bar.open >= previous.close && bar.close <= previous.open) {
+        const coverage = bodySize / body(previous);
+        patterns.push(buildPattern(bars, PATTERN.BEARISH_ENGULFING, candle, 'bearish',
+          0.5 + (inUptrend ? 0.15 : 0) + Math.min(0.15, (coverage - 1) * 0.1) + volume,
+          i - 1, i, `Bearish body engulfs the prior bullish body${inUptrend ? ' after an advance' : ''}`));
+      }
+    }
+
+    // Three-bar patterns
+    const first = bars[i - 2];
+    const firstBody = body(first);
+    const middleIsSmall = body(previous) <= firstBody * 0.35;
+
+    if (firstBody > 0 && middleIsSmall) {
+      const midpoint = (first.open + first.close) / 2;
+      if (isBearishBar(first) && isBullishBar(bar) && bar.close > midpoint && priorTrend(bars, i - 2) < 0) {
+        patterns.push(buildPattern(bars, PATTERN.MORNING_STAR, candle, 'bullish', 0.6 + volume,
+          i - 2, i, 'Decline stalls on a small bar and reverses above the first bar\'s midpoint'));
+      }
+      if (isBullishBar(first) && isBearishBar(bar) && bar.close < midpoint && priorTrend(bars, i - 2) > 0) {
+        patterns.push(buildPattern(bars, PATTERN.EVENING_STAR, candle, 'bearish', 0.6 + volume,
+          i - 2, i, 'Advance stalls on a small bar and reverses below the first bar\'s midpoint'));
+      }
+    }
+
+    const lastThree = [first, previous, bar];
+    const strongBodies = lastThree.every(b => range(b) > 0 && body(b) >= range(b) * 0.6);
+    if (strongBodies && lastThree.every(isBullishBar) && previous.close > first.close && bar.close > previous.close) {
+      patterns.push(buildPattern(bars, PATTERN.THREE_WHITE_SOLDIERS, candle, 'bullish', 0.6 + (inDowntrend ? 0.1 : 0),
+        i - 2, i, 'Three strong bullish bars with higher closes'));
+    }
+    if (strongBodies && lastThree.every(isBearishBar) && previous.close < first.close && bar.close < previous.close) {
+      patterns.push(buildPattern(bars, PATTERN.THREE_BLACK_CROWS, candle, 'bearish', 0.6 + (inUptrend ? 0.1 : 0),
+        i - 2, i, 'Three strong bearish bars with lower closes'));
+    }
+  }
+
+  return patterns;
+}
+
+interface Swing {
+  index: number;
+  price: number;
+}
+
+/**
+ * Swing highs and lows: bars that are the extreme of `window` bars either side
+ */
+function findSwings(bars: HistoricalPrice[], window: number): { highs: Swing[]; lows: Swing[] } {
+  const highs: Swing[] = [];
+  const lows: Swing[] = [];
+
+  for (let i = window; i < bars.length - window; i++) {
+    const neighbours = bars.slice(i - window, i + window + 1);
+    // Ties go to the first bar of an equal run
+    if (neighbours.every((bar, j) => j === window || (j < window ? bar.high < bars[i].high : bar.high <= bars[i].high))) {
+      highs.push({ index: i, price: bars[i].high });
+    }
+    if (neighbours.every((bar, j) => j === window || (j < window ? bar.low > bars[i].low : bar.low >= bars[i].low))) {
+      lows.push({ index: i, price: bars[i].low });
+    }
+  }
+
+  return { highs, lows };
+}
+
+const relativeDifference = (a: number, b: number) => Math.abs(a - b) / Math.min(a, b);
+
+function lowestBetween(bars: HistoricalPrice[], from: number, to: number): Swing {
+  let best = { index: from, price: bars[from].low };
+  for (let i = from; i <= to; i++) {
+    if (bars[i].low < best.price) best = { index: i, price: bars[i].low };
+  }
+  return best;
+}
+
+function highestBetween(bars: HistoricalPrice[], from: number, to: number): Swing {
+  let best = { index: from, price: bars[from].high };
+  for (let i = from; i <= to; i++) {
+    if (bars[i].high > best.price) best = { index: i, price: bars[i].high };
+  }
+  return best;
+}
+
+/**
+ * First close through `level` after `fromIndex`, downwards or upwards
+ */
+function closedThrough(bars: HistoricalPrice[], fromIndex: number, level: number, downwards: boolean): number | null {
+  for (let i = fromIndex + 1; i < bars.length; i++) {
+    if (downwards ? bars[i].close < level : bars[i].close > level) return i;
+  }
+  return null;
+}
+
+/**
+ * Double top (peaks) or double bottom (troughs): the strongest pair of recent
+ * swings within LEVEL_TOLERANCE that nothing has exceeded since the first one
+ */
+function detectDouble(bars: HistoricalPrice[], swings: Swing[], top: boolean, window: number, minEnd: number): DetectedPattern | null {
+  const last = bars.length - 1;
+  let best: DetectedPattern | null = null;
+
+  for (let j = swings.length - 1; j >= 1 && swings[j].index >= minEnd; j--) {
+    for (let i = j - 1; i >= 0; i--) {
+      const first = swings[i];
+      const second = swings[j];
+      if (second.index - first.index < window * 2) continue;
+
+      const similarity = relativeDifference(first.price, second.price);
+      if (similarity > LEVEL_TOLERANCE) continue;
+
+      const extreme = top ? highestBetween(bars, first.index, last).price : lowestBetween(bars, first.index, last).price;
+      if (extreme !== (top ? Math.max(first.price, second.price) : Math.min(first.price, second.price))) continue;
+
+      const neckline = top
+        ? lowestBetween(bars, first.index, second.index).price
+        : highestBetween(bars, first.index, second.index).price;
+      const inner = top ? Math.min(first.price, second.price) : Math.max(first.price, second.price);
+      const depth = Math.abs(inner - neckline) / Math.min(inner, neckline);
+      if (depth < LEVEL_TOLERANCE) continue;
+
+      const breakIndex = closedThrough(bars, second.index, neckline, top);
+      const fadingVolume = bars[second.index].volume < bars[first.index].volume ? 0.05 : 0;
+      const candidate = buildPattern(bars, top ? PATTERN.DOUBLE_TOP : PATTERN.DOUBLE_BOTTOM, PATTERN_KIND.CHART,
+        top ? 'bearish' : 'bullish',
+        0.45 + (LEVEL_TOLERANCE - similarity) * 5 + Math.min(0.1, depth) + (breakIndex !== null ? 0.2 : 0) + fadingVolume,
+        first.index, breakIndex ?? last,
+        `${top ? 'Peaks' : 'Troughs'} at ${first.price.toFixed(2)} and ${second.price.toFixed(2)} with neckline ${neckline.toFixed(2)}` +
+          (breakIndex !== null ? ', neckline broken' : ', neckline not yet broken'),
+        neckline, breakIndex !== null);
+
+      if (!best || candidate.confidence > best.confidence) best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Head and shoulders (peaks) or inverse (troughs): a head that is the extreme
+ * since the left shoulder, with shoulders of similar height either side
+ */
+function detectHeadAndShoulders(bars: HistoricalPrice[], swings: Swing[], top: boolean, minEnd: number): DetectedPattern | null {
+  const last = bars.length - 1;
+  const shoulderTolerance = LEVEL_TOLERANCE * 1.5;
+  const beyond = (a: number, b: number) => (top ? a > b * (1 + LEVEL_TOLERANCE) : a < b * (1 - LEVEL_TOLERANCE));
+  let best: DetectedPattern | null = null;
+
+  for (let r = swings.length - 1; r >= 2 && swings[r].index >= minEnd; r--) {
+    for (let h = r - 1; h >= 1; h--) {
+      for (let l = h - 1; l >= 0; l--) {
+        const left = swings[l];
+        const head = swings[h];
+        const right = swings[r];
+        if (!beyond(head.price, left.price) || !beyond(head.price, right.price)) continue;
+
+        const symmetry = relativeDifference(left.price, right.price);
+        if (symmetry > shoulderTolerance) continue;
+
+        const extreme = top ? highestBetween(bars, left.index, last).price : lowestBetween(bars, left.index, last).price;
+        if (extreme !== head.price) continue;
+
+        const necklineA = top ? lowestBetween(bars, left.index, head.index).price : highestBetween(bars, left.index, head.index).price;
+        const necklineB = top ? lowestBetween(bars, head.index, right.index).price : highestBetween(bars, head.index, right.index).price;
+        const neckline = (necklineA + necklineB) / 2;
+        const breakIndex = closedThrough(bars, right.index, neckline, top);
+
+        const candidate = buildPattern(bars, top ? PATTERN.HEAD_AND_SHOULDERS : PATTERN.INVERSE_HEAD_AND_SHOULDERS, PATTERN_KIND.CHART,
+          top ? 'bearish' : 'bullish',
+          0.5 + (shoulderTolerance - symmetry) * 3 + (breakIndex !== null ? 0.2 : 0),
+          left.index, breakIndex ?? last,
+          `Head at ${head.price.toFixed(2)}, shoulders at ${left.price.toFixed(2)} and ${right.price.toFixed(2)}, neckline ${neckline.toFixed(2)}` +
+            (breakIndex !== null ? ' broken' : ' intact'),
+          neckline, breakIndex !== null);
+
+        if (!best || candidate.confidence > best.confidence) best = candidate;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Least-squares line through swing points
+ */
+function fitLine(points: Swing[]): { slope: number; intercept: number } {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.index, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.price, 0) / n;
+  const covariance = points.reduce((sum, p) => sum + (p.index - meanX) * (p.price - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.index - meanX) ** 2, 0);
+  const slope = variance === 0 ? 0 : covariance / variance;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+function detectTriangle(bars: HistoricalPrice[], swings: { highs: Swing[]; lows: Swing[] }, minEnd: number): DetectedPattern | null {
+  const highs = swings.highs.slice(-3);
+  const lows = swings.lows.slice(-3);
+  if (highs.length < 2 || lows.length < 2) return null;
+
+  const startIndex = Math.min(highs[0].index, lows[0].index);
+  const lastSwing = Math.max(highs[highs.length - 1].index, lows[lows.length - 1].index);
+  if (lastSwing < minEnd) return null;
+
+  const upper = fitLine(highs);
+  const lower = fitLine(lows);
+  const endIndex = bars.length - 1;
+  const span = endIndex - startIndex;
+  const price = bars[endIndex].close;
+
+  // Drift of each line over the pattern as a share of price; under 2% is flat
+  const upperDrift = (upper.slope * span) / price;
+  const lowerDrift = (lower.slope * span) / price;
+  const flat = 0.02;
+
+  const widthAtStart = (upper.intercept + upper.slope * startIndex) - (lower.intercept + lower.slope * startIndex);
+  const widthAtEnd = (upper.intercept + upper.slope * lastSwing) - (lower.intercept + lower.slope * lastSwing);
+  if (widthAtStart <= 0 || widthAtEnd <= 0 || widthAtEnd >= widthAtStart * 0.85) return null;
+
+  let pattern: PatternType | null = null;
+  let bias: PatternBias = 'neutral';
+  if (Math.abs(upperDrift) < flat && lowerDrift >= flat) {
+    pattern = PATTERN.ASCENDING_TRIANGLE;
+    bias = 'bullish';
+  } else if (upperDrift <= -flat && Math.abs(lowerDrift) < flat) {
+    pattern = PATTERN.DESCENDING_TRIANGLE;
+    bias = 'bearish';
+  } else if (upperDrift <= -flat && lowerDrift >= flat) {
+    pattern = PATTERN.SYMMETRICAL_TRIANGLE;
+  }
+  if (!pattern) return null;
+
+  const upperNow = upper.intercept + upper.slope * endIndex;
+  const lowerNow = lower.intercept + lower.slope * endIndex;
+  const brokeUp = price > upperNow;
+  const brokeDown = price < lowerNow;
+  if (brokeUp) bias = 'bullish';
+  if (brokeDown) bias = 'bearish';
+
+  const touches = highs.length + lows.length;
+  return buildPattern(bars, pattern, PATTERN_KIND.CHART, bias,
+    0.4 + (touches - 4) * 0.1 + (1 - widthAtEnd / widthAtStart) * 0.2 + (brokeUp || brokeDown ? 0.15 : 0),
+    startIndex, endIndex,
+    `Upper line ${upperNow.toFixed(2)}, lower line ${lowerNow.toFixed(2)} now, ${touches} swing touches` +
+      (brokeUp ? ', price closed above the upper line' : brokeDown ? ', price closed below the lower line' : ', price still inside'),
+    brokeDown ? lowerNow : upperNow, brokeUp || brokeDown);
+}
+
+/**
+ * Recent closes through the computed support/resistance levels
+ */
+function detectLevelBreakouts(bars: HistoricalPrice[], indicators: Partial<TechnicalIndicators>): DetectedPattern[] {
+  const patterns: DetectedPattern[] = [];
+  const levels = [...(indicators.support_levels || []), ...(indicators.resistance_levels || [])];
+  const last = bars.length - 1;
+
+  for (const level of levels) {
+    for (let i = Math.max(1, last - BREAKOUT_LOOKBACK + 1); i <= last; i++) {
+      const crossedUp = bars[i - 1].close <= level && bars[i].close > level && bars[last].close > level;
+      const crossedDown = bars[i - 1].close >= level && bars[i].close < level && bars[last].close < level;
+      if (!crossedUp && !crossedDown) continue;
+
+      const clearance = Math.abs(bars[last].close - level) / level;
+      const confidence = 0.45 + Math.min(0.2, clearance * 5) + volumeBoost(bars, i) + (i < last ? 0.1 : 0);
+      patterns.push(buildPattern(bars, crossedUp ? PATTERN.RESISTANCE_BREAKOUT : PATTERN.SUPPORT_BREAKDOWN, PATTERN_KIND.CHART,
+        crossedUp ? 'bullish' : 'bearish', confidence, i - 1, last,
+        `Closed ${crossedUp ? 'above' : 'below'} ${level.toFixed(2)} on ${bars[i].date}, now ${(clearance * 100).toFixed(1)}% ${crossedUp ? 'above' : 'below'} it`,
+        level, true));
+      break;
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Chart patterns from swing structure plus breakouts of the computed levels
+ */
+export function detectChartPatterns(bars: HistoricalPrice[], indicators: Partial<TechnicalIndicators> = {}): DetectedPattern[] {
+  if (bars.length < 30) return detectLevelBreakouts(bars, indicators);
+
+  // Wider swing windows on longer series so only meaningful turns count
+  const window = Math.max(3, Math.min(8, Math.floor(bars.length / 25)));
+  const swings = findSwings(bars, window);
+  const minEnd = Math.floor(bars.length * (1 - CHART_PATTERN_RECENCY));
+
+  const patterns = [
+    detectDouble(bars, swings.highs, true, window, minEnd),
+    detectDouble(bars, swings.lows, false, window, minEnd),
+    detectHeadAndShoulders(bars, swings.highs, true, minEnd),
+    detectHeadAndShoulders(bars, swings.lows, false, minEnd),
+    detectTriangle(bars, swings, minEnd)
+  ].filter((pattern): pattern is DetectedPattern => pattern !== null);
+
+  return [...patterns, ...detectLevelBreakouts(bars, indicators)];
+}
+
+/**
+ * All patterns for the series, chart patterns first, each group most recent first
+ */
+export function detectPatterns(bars: HistoricalPrice[], indicators: Partial<TechnicalIndicators> = {}): DetectedPattern[] {
+  if (!bars || bars.length < 3) return [];
+
+  const byRecency = (a: DetectedPattern, b: DetectedPattern) => b.endIndex - a.endIndex || b.confidence - a.confidence;
+  const chart = detectChartPatterns(bars, indicators).sort(byRecency);
+  const candlestick = detectCandlestickPatterns(bars).sort(byRecency).slice(0, MAX_CANDLESTICK_PATTERNS);
+
+  return [...chart, ...candlestick].slice(0, MAX_PATTERNS);
+}
+
+/**
+ * Patterns as a JSON block of facts for the prompt
+ */
+export function formatPatternsForAI(patterns: DetectedPattern[]): string {
+  if (patterns.length === 0) {
+    return 'No candlestick or chart patterns detected.';
+  }
+
+  return JSON.stringify(patterns.map(p => ({
+    pattern: p.label,
+    kind: p.kind,
+    bias: p.bias,
+    confidence: p.confidence,
+    from: p.startDate,
+    to: p.endDate,
+    level: p.level !== null ? Number(p.level.toFixed(2)) : null,
+    confirmed: p.kind === PATTERN_KIND.CHART ? p.confirmed : undefined,
+    detail: p.description
+  })), null, 2);
+}
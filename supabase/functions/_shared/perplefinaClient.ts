@@ -2,6 +2,19 @@
  * Shared Perplefina API client for finance-focused analysis
  */
 
+import {
+  createEmptyTokenUsage,
+  estimateTokenCount,
+  extractUsageFromStreamPayload,
+  mergeTokenUsage,
+  type AIUsage
+} from './aiUsage.ts';
+import { callAIProviderWithStructuredOutput, type StructuredAIProviderResult } from './aiProviders.ts';
+import { AGENT_OUTPUT_SCHEMAS, type AnalystReportOutput } from './structuredOutput.ts';
+
+// Restructuring runs after the Perplefina search inside the same agent time limit
+const STRUCTURE_TIMEOUT_MS = 60000;
+
 const PERPLEFINA_API_URL = Deno.env.get('PERPLEXICA_API_URL') || 'http://134.199.224.223:3000/api/search';
 
 export interface PerplefinaRequest {
@@ -30,15 +43,17 @@ export interface PerplefinaResponse {
       url: string;
     };
   }>;
+  usage: AIUsage;   // Estimated from the prompt, sources and answer when Perplefina reports no token counts
 }
 
 /**
  * Call Perplefina API for finance-focused analysis
  */
 export async function callPerplefina(request: PerplefinaRequest): Promise<PerplefinaResponse> {
-  // Normalize model name for non-OpenRouter providers
+  // Normalize model name for non-OpenRouter providers (self-hosted model names are passed through as-is)
   let normalizedModel = request.chatModel.model;
-  if (request.chatModel.provider !== 'openrouter' && normalizedModel.includes('/')) {
+  const keepsModelPrefix = request.chatModel.provider === 'openrouter' || request.chatModel.provider === 'openai-compatible';
+  if (!keepsModelPrefix && normalizedModel.includes('/')) {
     // Strip prefix for non-OpenRouter providers (e.g., "openai/gpt-4o" -> "gpt-4o")
     normalizedModel = normalizedModel.split('/').pop() || normalizedModel;
   }
@@ -77,6 +92,7 @@ export async function callPerplefina(request: PerplefinaRequest): Promise<Perple
     ? request.timeoutMs
     : defaultTimeout;
 
+  const startedAt = Date.now();
   const controller = new AbortController();
   const timeoutId = setTimeout(() => {
     controller.abort();
@@ -114,7 +130,78 @@ export async function callPerplefina(request: PerplefinaRequest): Promise<Perple
     data.message = data.message.replace(/\\n/g, '\n');
   }
 
+  // The retrieved sources are passed to the model as context, so they count as prompt tokens
+  const reportedUsage = extractUsageFromStreamPayload(data);
+  const usageReported = !!reportedUsage && ((reportedUsage.prompt_tokens ?? 0) > 0 || (reportedUsage.completion_tokens ?? 0) > 0);
+  const tokenUsage = mergeTokenUsage(
+    createEmptyTokenUsage(),
+    usageReported
+      ? reportedUsage!
+      : {
+        prompt_tokens: estimateTokenCount([
+          request.systemInstructions || '',
+          request.query,
+          ...(request.history || []).map(entry => typeof entry === 'string' ? entry : JSON.stringify(entry)),
+          ...(data.sources || []).map((source: { pageContent?: string }) => source?.pageContent || '')
+        ].join('\n')),
+        completion_tokens: estimateTokenCount(data.message)
+      }
+  );
+
   console.log(`✅ Perplefina analysis completed, sources: ${data.sources?.length || 0}`);
 
-  return data;
+  return {
+    ...data,
+    usage: {
+      ...tokenUsage,
+      provider: request.chatModel.provider,
+      model: request.chatModel.model,
+      latency_ms: Date.now() - startedAt,
+      estimated: !usageReported
+    }
+  };
+}
+
+/**
+ * Restructures Perplefina research into the validated analyst report. The
+ * research and its source titles are the only input, so the model reorganises
+ * the findings without adding new ones. Returns null when the provider call
+ * fails; the caller then keeps the research text as the analysis.
+ */
+export async function structurePerplefinaResearch(
+  apiSettings: any,
+  research: PerplefinaResponse,
+  ticker: string,
+  systemInstructions: string,
+  maxTokens?: number
+): Promise<StructuredAIProviderResult<AnalystReportOutput> | null> {
+  if (!research.message?.trim()) {
+    return null;
+  }
+
+  const sourceList = (research.sources || [])
+    .map((source, index) => `${index + 1}. ${source.metadata?.title || 'Untitled'}${source.metadata?.url ? ` (${source.metadata.url})` : ''}`)
+    .join('\n');
+
+  const prompt = `Research on ${ticker} gathered from web sources:
+
+${research.message}
+${sourceList ? `\nSources:\n${sourceList}\n` : ''}
+Rewrite this research as your report. Keep every finding, figure, table and recommendation it contains and do not add facts that are not in it.`;
+
+  try {
+    return await callAIProviderWithStructuredOutput<AnalystReportOutput>(
+      apiSettings,
+      prompt,
+      systemInstructions,
+      AGENT_OUTPUT_SCHEMAS.ANALYST_REPORT,
+      maxTokens,
+      1,
+      undefined,
+      { timeoutMs: STRUCTURE_TIMEOUT_MS }
+    );
+  } catch (error) {
+    console.error('⚠️ Failed to structure Perplefina research, keeping the research text:', error);
+    return null;
+  }
 }
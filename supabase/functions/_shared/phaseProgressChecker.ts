@@ -1,11 +1,14 @@
 import { WORKFLOW_PHASES } from '../analysis-coordinator/config/workflow.ts';
 import { invokeWithRetry } from './invokeWithRetry.ts';
+import { getAgentDisplayName, getWorkflowPhases, loadWorkflowPhases, type WorkflowPhases } from './workflowGraph.ts';
 
 /**
  * Phase Progress Checker
  * 
  * Utilities for agents to check phase progress and determine next agent
  * without going through the coordinator for every handoff.
+ * Phases and agents come from the workflow graph stored on the analysis;
+ * helpers without an analysis fall back to the default graph.
  */
 
 /**
@@ -18,7 +21,7 @@ export async function getNextAgentInSequence(
   phase: string,
   currentAgentName: string
 ): Promise<string | null> {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = (await loadWorkflowPhases(supabase, analysisId))[phase];
   if (!phaseConfig || !phaseConfig.agents) {
     console.warn(`⚠️ No phase config found for phase: ${phase}`);
     return null;
@@ -66,30 +69,30 @@ export async function isLastAgentInPhase(
 /**
  * Get phase configuration for a given phase
  */
-export function getPhaseConfig(phase: string) {
-  return WORKFLOW_PHASES[phase] || null;
+export function getPhaseConfig(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES) {
+  return phases[phase] || null;
 }
 
 /**
  * Get all agents for a phase in order
  */
-export function getPhaseAgents(phase: string): string[] {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+export function getPhaseAgents(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): string[] {
+  const phaseConfig = phases[phase];
   return phaseConfig ? phaseConfig.agents : [];
 }
 
 /**
  * Check if a phase exists
  */
-export function isValidPhase(phase: string): boolean {
-  return phase in WORKFLOW_PHASES;
+export function isValidPhase(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): boolean {
+  return phase in phases;
 }
 
 /**
  * Get the final agent for a phase (if any)
  */
-export function getFinalAgentForPhase(phase: string): string | null {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+export function getFinalAgentForPhase(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): string | null {
+  const phaseConfig = phases[phase];
   return phaseConfig?.finalAgent || null;
 }
 
@@ -102,7 +105,7 @@ export async function shouldStartFinalAgent(
   phase: string,
   completedAgent: string
 ): Promise<boolean> {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = (await loadWorkflowPhases(supabase, analysisId))[phase];
   if (!phaseConfig || !phaseConfig.finalAgent) {
     return false;
   }
@@ -150,8 +153,8 @@ async function getIncompleteAgentsInPhase(
       return [];
     }
 
-    // Get all agents in this phase from config
-    const phaseConfig = WORKFLOW_PHASES[phase];
+    // Get all agents in this phase from the analysis's workflow graph
+    const phaseConfig = getWorkflowPhases(analysis.full_analysis)[phase];
     if (!phaseConfig || !phaseConfig.agents) {
       return [];
     }
@@ -212,7 +215,7 @@ export async function invokeNextAgentInSequence(
 
     // If no other incomplete agents, check if we should invoke final agent
     if (incompleteAgents.length === 0) {
-      const finalAgent = getFinalAgentForPhase(phase);
+      const finalAgent = getFinalAgentForPhase(phase, await loadWorkflowPhases(supabase, analysisId));
       if (finalAgent) {
         // Check if final agent is already complete
         const { data: analysis } = await supabase
@@ -224,7 +227,7 @@ export async function invokeNextAgentInSequence(
         const workflowSteps = analysis?.full_analysis?.workflowSteps || [];
         const phaseStep = workflowSteps.find((step: any) => step.id === phase);
         const finalAgentStatus = phaseStep?.agents?.find((a: any) =>
-          a.name === getFinalAgentDisplayName(finalAgent) ||
+          a.name === getAgentDisplayName(finalAgent) ||
           a.functionName === finalAgent
         );
 
@@ -232,7 +235,7 @@ export async function invokeNextAgentInSequence(
           console.log(`🎯 Invoking final agent for ${phase} phase: ${finalAgent}`);
 
           // Set final agent status to "running" before invoking to prevent duplicates
-          const agentDisplayName = getFinalAgentDisplayName(finalAgent);
+          const agentDisplayName = getAgentDisplayName(finalAgent);
           console.log(`📍 Setting ${agentDisplayName} status to "running" before invocation`);
           await supabase.rpc('update_workflow_step_status', {
             p_analysis_id: analysisId,
@@ -342,40 +345,3 @@ export async function invokeNextAgentInSequence(
     };
   }
 }
-
-/**
- * Get display name for an agent function name
- */
-function getAgentDisplayName(agentFunctionName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-macro-analyst': 'Macro Analyst',
-    'agent-market-analyst': 'Market Analyst',
-    'agent-fundamentals-analyst': 'Fundamentals Analyst',
-    'agent-news-analyst': 'News Analyst',
-    'agent-social-media-analyst': 'Social Media Analyst',
-    'agent-research-manager': 'Research Manager',
-    'agent-bull-researcher': 'Bull Researcher',
-    'agent-bear-researcher': 'Bear Researcher',
-    'agent-risky-analyst': 'Risky Analyst',
-    'agent-safe-analyst': 'Safe Analyst',
-    'agent-neutral-analyst': 'Neutral Analyst',
-    'agent-risk-manager': 'Risk Manager',
-    'agent-trader': 'Trader',
-    'analysis-portfolio-manager': 'Analysis Portfolio Manager'
-  };
-
-  return nameMap[agentFunctionName] || agentFunctionName;
-}
-
-/**
- * Get display name for final agent function name
- */
-function getFinalAgentDisplayName(finalAgentName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-research-manager': 'Research Manager',
-    'agent-risk-manager': 'Risk Manager',
-    'analysis-portfolio-manager': 'Analysis Portfolio Manager'
-  };
-
-  return nameMap[finalAgentName] || finalAgentName;
-}
@@ -0,0 +1,107 @@
+/**
+ * Paged reader for the Alpaca account activities endpoint
+ * Shared by alpaca-batch (cash flows, tax lots) and the portfolio managers
+ */
+
+export type ActivityFetcher = (url: string, options: any, timeoutMs?: number, retries?: number) => Promise<Response>;
+
+export async function fetchAccountActivities(
+  fetcher: ActivityFetcher,
+  baseUrl: string,
+  headers: Record<string, string>,
+  activityTypes: string[],
+  options: {
+    after?: string;
+    until?: string;
+    direction?: 'asc' | 'desc';
+    pageSize?: number;
+    maxPages?: number;
+  } = {}
+): Promise<any[]> {
+  if (activityTypes.length === 0) {
+    return [] as any[];
+  }
+
+  const collected: any[] = [];
+  const direction = options.direction ?? 'asc';
+  const pageSize = Math.min(Math.max(options.pageSize ?? 100, 1), 100);
+  const maxPages = Math.max(options.maxPages ?? 50, 1);
+
+  let pageToken: string | undefined;
+  let pagesFetched = 0;
+
+  while (pagesFetched < maxPages) {
+    const params = new URLSearchParams();
+    params.append('direction', direction);
+    params.append('page_size', String(pageSize));
+    params.append('activity_types', activityTypes.join(','));
+
+    if (options.after) {
+      params.append('after', options.after);
+    }
+
+    if (options.until) {
+      params.append('until', options.until);
+    }
+
+    if (pageToken) {
+      params.append('page_token', pageToken);
+    }
+
+    const url = `${baseUrl}/v2/account/activities?${params.toString()}`;
+    const response = await fetcher(url, { headers }, 20000, 2);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Failed to fetch account activities:', response.status, errorText);
+      break;
+    }
+
+    const data = await response.json();
+    let page: any[] = [];
+    let nextToken: string | undefined;
+
+    if (Array.isArray(data)) {
+      page = data;
+    } else if (data?.activities && Array.isArray(data.activities)) {
+      page = data.activities;
+      nextToken = typeof data.next_page_token === 'string' ? data.next_page_token : undefined;
+    } else {
+      console.error('Unexpected activities response format:', data);
+      break;
+    }
+
+    collected.push(...page);
+    pagesFetched += 1;
+
+    const headerToken = response.headers.get('Next-Page-Token')
+      || response.headers.get('next-page-token')
+      || response.headers.get('x-next-page-token')
+      || response.headers.get('X-Next-Page-Token');
+
+    if (headerToken && headerToken !== 'null') {
+      pageToken = headerToken;
+      continue;
+    }
+
+    if (!nextToken && page.length > 0) {
+      const last = page[page.length - 1];
+      if (last && typeof last.id === 'string' && last.id.length > 0) {
+        nextToken = last.id;
+      }
+    }
+
+    if (nextToken && nextToken !== 'null') {
+      pageToken = nextToken;
+      continue;
+    }
+
+    if (page.length === pageSize) {
+      pageToken = undefined;
+    } else {
+      break;
+    }
+  }
+
+  return collected;
+}
@@ -1,53 +1,33 @@
 /**
- * Shared Alpaca portfolio client for portfolio management functions
- * Extracted from duplicate code in analysis-portfolio-manager and rebalance-portfolio-manager
+ * Shared broker portfolio client for portfolio management functions
+ * Reads the account through the broker adapter of the account apiSettings belong to
  */
 
-import { AlpacaPortfolioData } from './types.ts';
-import { extractAlpacaCredentials, createAlpacaHeaders } from './config.ts';
-
-// Note: Legacy portfolio data format has been removed - use AlpacaPortfolioData instead
+import { BrokerPortfolioData } from './types.ts';
+import { createBroker } from '../brokers/index.ts';
 
 /**
- * Fetch complete portfolio data from Alpaca API
+ * Fetch complete portfolio data from the account's broker
  * Includes account information, positions, and open orders with reserved capital calculations
  */
-export async function fetchAlpacaPortfolio(apiSettings: any): Promise<AlpacaPortfolioData> {
-  const { apiKey, secretKey, baseUrl, isPaperTrading } = extractAlpacaCredentials(apiSettings);
-  const headers = createAlpacaHeaders(apiKey, secretKey);
+export async function fetchBrokerPortfolio(apiSettings: any): Promise<BrokerPortfolioData> {
+  const broker = createBroker(apiSettings);
 
   try {
-    console.log('📊 Fetching Alpaca account from:', baseUrl);
-    console.log('📊 Using paper trading:', isPaperTrading);
-    console.log('📊 API Key present:', !!apiKey);
-    console.log('📊 Secret Key present:', !!secretKey);
-    
-    // Fetch account data
-    const accountResponse = await fetch(`${baseUrl}/v2/account`, { headers });
-    if (!accountResponse.ok) {
-      const errorText = await accountResponse.text();
-      console.error('❌ Alpaca API error response:', {
-        status: accountResponse.status,
-        statusText: accountResponse.statusText,
-        body: errorText
-      });
-      throw new Error(`Alpaca account fetch failed: ${accountResponse.status} ${accountResponse.statusText}`);
-    }
-    const account = await accountResponse.json();
+    console.log(`📊 Fetching ${broker.label} account (${broker.isPaper ? 'paper' : 'live'})`);
 
-    // Fetch positions
-    const positionsResponse = await fetch(`${baseUrl}/v2/positions`, { headers });
-    if (!positionsResponse.ok) {
-      throw new Error(`Alpaca positions fetch failed: ${positionsResponse.statusText}`);
-    }
-    const positions = await positionsResponse.json();
+    const [account, positions] = await Promise.all([
+      broker.getAccount(),
+      broker.getPositions()
+    ]);
 
-    // Fetch open orders
-    const ordersResponse = await fetch(`${baseUrl}/v2/orders?status=open`, { headers });
-    if (!ordersResponse.ok) {
-      console.warn('⚠️ Failed to fetch open orders, continuing without them');
+    // Open orders only adjust the available cash - continue without them on failure
+    let openOrders: any[] = [];
+    try {
+      openOrders = await broker.getOrders({ status: 'open' });
+    } catch (error) {
+      console.warn('⚠️ Failed to fetch open orders, continuing without them:', error);
     }
-    const openOrders = ordersResponse.ok ? await ordersResponse.json() : [];
     
     // Calculate reserved capital from pending orders
     let reservedCapital = 0;
@@ -61,7 +41,7 @@ export async function fetchAlpacaPortfolio(apiSettings: any): Promise<AlpacaPort
           orderReservedAmount = parseFloat(order.qty) * parseFloat(order.limit_price);
         } else if (order.qty && order.type === 'market') {
           const position = positions.find((p: any) => p.symbol === order.symbol);
-          const estimatedPrice = position?.current_price || position?.lastday_price || 0;
+          const estimatedPrice = parseFloat(position?.current_price || position?.lastday_price || '0');
           orderReservedAmount = parseFloat(order.qty) * estimatedPrice * 1.02; // 2% buffer
         }
         reservedCapital += orderReservedAmount;
@@ -111,9 +91,7 @@ export async function fetchAlpacaPortfolio(apiSettings: any): Promise<AlpacaPort
       openOrders: pendingOrders
     };
   } catch (error) {
-    console.error('❌ Failed to fetch Alpaca portfolio:', error);
+    console.error(`❌ Failed to fetch ${broker.label} portfolio:`, error);
     throw error;
   }
 }
-
-// Legacy adapter function has been removed - use fetchAlpacaPortfolio directly
\ No newline at end of file
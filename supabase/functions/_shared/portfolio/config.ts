@@ -3,28 +3,36 @@
  */
 
 import { AlpacaApiSettings } from './types.ts';
+import type { BrokerAccount } from '../brokerAccounts.ts';
 
 /**
- * Extract and validate Alpaca credentials from API settings
+ * Extract and validate Alpaca credentials from API settings, or from a named
+ * broker account when one is given
  */
-export function extractAlpacaCredentials(apiSettings: any): {
+export function extractAlpacaCredentials(apiSettings: any, account?: BrokerAccount | null): {
   apiKey: string;
   secretKey: string;
   baseUrl: string;
   isPaperTrading: boolean;
 } {
-  const isPaperTrading = apiSettings.alpaca_paper_trading ?? true;
+  const isPaperTrading = account ? account.paper_trading : (apiSettings.alpaca_paper_trading ?? true);
   
-  const apiKey = isPaperTrading
-    ? apiSettings.alpaca_paper_api_key
-    : apiSettings.alpaca_live_api_key;
+  const apiKey = account
+    ? account.api_key
+    : isPaperTrading
+      ? apiSettings.alpaca_paper_api_key
+      : apiSettings.alpaca_live_api_key;
   
-  const secretKey = isPaperTrading
-    ? apiSettings.alpaca_paper_secret_key
-    : apiSettings.alpaca_live_secret_key;
+  const secretKey = account
+    ? account.secret_key
+    : isPaperTrading
+      ? apiSettings.alpaca_paper_secret_key
+      : apiSettings.alpaca_live_secret_key;
 
   if (!apiKey || !secretKey) {
-    throw new Error(`Alpaca ${isPaperTrading ? 'paper' : 'live'} credentials not configured`);
+    throw new Error(account
+      ? `Alpaca credentials not configured for account "${account.name}"`
+      : `Alpaca ${isPaperTrading ? 'paper' : 'live'} credentials not configured`);
   }
 
   const baseUrl = isPaperTrading
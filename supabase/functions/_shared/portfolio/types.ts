@@ -2,7 +2,7 @@
  * Shared portfolio type definitions for portfolio management functions
  */
 
-export interface AlpacaPortfolioData {
+export interface BrokerPortfolioData {
   account: {
     buying_power: number;
     original_buying_power: number;
@@ -0,0 +1,554 @@
+/**
+ * Portfolio Risk Analytics
+ *
+ * Portfolio-level risk figures from the account's daily equity history and
+ * the daily bars of its positions: beta against SPY, annualized volatility,
+ * Sharpe and Sortino ratios, max/current drawdown, one-day historical VaR and
+ * CVaR, plus per-position beta/volatility and a correlation matrix.
+ *
+ * Portfolio returns come from the broker's portfolio history (daily profit/loss
+ * over the prior day's equity, so deposits and withdrawals do not show up as
+ * returns). When the account is too new for that, or the broker keeps no
+ * history, the current holdings are replayed over the lookback window at
+ * today's weights instead. Bars always come from Alpaca market data.
+ */
+
+import type { DailyBar } from './backtest.ts';
+import { loadDailyBars } from './dailyBars.ts';
+import { extractAlpacaCredentials } from './portfolio/config.ts';
+import { createBroker, type BrokerAdapter } from './brokers/index.ts';
+
+export const RISK_BENCHMARK_SYMBOL = 'SPY';
+export const TRADING_DAYS_PER_YEAR = 252;
+export const RISK_FREE_RATE = 0.04;       // annual, used for Sharpe/Sortino
+export const VAR_CONFIDENCE = 0.95;
+export const RISK_LOOKBACK_DAYS = 365;
+export const MIN_RISK_OBSERVATIONS = 20;  // fewer daily returns than this are not reported
+
+const MAX_CORRELATION_POSITIONS = 15;
+
+export const RETURN_SOURCE = {
+  ACCOUNT_HISTORY: 'account_history' as const,
+  HOLDINGS: 'holdings' as const
+} as const;
+
+export type ReturnSource = typeof RETURN_SOURCE[keyof typeof RETURN_SOURCE];
+
+export interface DatedReturn {
+  date: string;   // YYYY-MM-DD
+  value: number;  // simple daily return, 0.01 = 1%
+}
+
+export interface RiskMetrics {
+  observations: number;
+  annualizedReturn: number | null;      // %
+  annualizedVolatility: number | null;  // %
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  maxDrawdown: number | null;           // %, positive
+  currentDrawdown: number | null;       // %, positive
+  valueAtRisk: number | null;           // one-day loss %, positive
+  conditionalValueAtRisk: number | null;
+}
+
+export interface PortfolioRiskMetrics extends RiskMetrics {
+  beta: number | null;
+  correlationToBenchmark: number | null;
+  valueAtRiskDollars: number | null;
+  conditionalValueAtRiskDollars: number | null;
+}
+
+export interface PositionRisk {
+  symbol: string;
+  weight: number;                       // % of equity
+  marketValue: number;
+  observations: number;
+  beta: number | null;
+  annualizedVolatility: number | null;  // %
+  correlationToPortfolio: number | null;
+}
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  values: Array<Array<number | null>>;
+}
+
+export interface PortfolioRiskReport {
+  generatedAt: string;
+  startDate: string;
+  endDate: string;
+  benchmark: string;
+  riskFreeRate: number;
+  confidence: number;
+  equity: number;
+  returnSource: ReturnSource;
+  portfolio: PortfolioRiskMetrics;
+  benchmarkMetrics: RiskMetrics;
+  positions: PositionRisk[];
+  correlation: CorrelationMatrix;
+  warnings: string[];
+}
+
+export interface RiskPositionInput {
+  symbol: string;
+  qty: number | string;
+  market_value: number | string;
+}
+
+export interface PortfolioHistorySeries {
+  timestamp: number[];
+  equity: Array<number | null>;
+  profit_loss: Array<number | null>;
+}
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const roundOrNull = (value: number | null, digits = 2): number | null =>
+  value === null || !Number.isFinite(value) ? null : round(value, digits);
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+function sampleStdDev(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function downsideDeviation(values: number[], threshold: number): number | null {
+  if (values.length < 2) return null;
+  const squared = values.reduce((sum, v) => sum + Math.min(0, v - threshold) ** 2, 0);
+  return Math.sqrt(squared / (values.length - 1));
+}
+
+/**
+ * Simple returns between consecutive closes, dated by the later session
+ */
+export function barsToReturns(bars: DailyBar[]): DatedReturn[] {
+  const returns: DatedReturn[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const previous = bars[i - 1].close;
+    if (previous > 0 && Number.isFinite(bars[i].close)) {
+      returns.push({ date: bars[i].date, value: bars[i].close / previous - 1 });
+    }
+  }
+  return returns;
+}
+
+/**
+ * Daily returns from Alpaca portfolio history (timeframe 1D). Each session's
+ * profit/loss is taken over the previous session's equity, which keeps cash
+ * transfers out of the return series.
+ */
+export function portfolioHistoryToReturns(history: PortfolioHistorySeries): DatedReturn[] {
+  const returns: DatedReturn[] = [];
+  const timestamps = history.timestamp || [];
+
+  for (let i = 1; i < timestamps.length; i++) {
+    const previousEquity = Number(history.equity?.[i - 1]);
+    const profitLoss = Number(history.profit_loss?.[i]);
+    if (!(previousEquity > 0) || !Number.isFinite(profitLoss)) continue;
+
+    returns.push({
+      date: new Date(timestamps[i] * 1000).toISOString().split('T')[0],
+      value: profitLoss / previousEquity
+    });
+  }
+  return returns;
+}
+
+/**
+ * Pairs two return series on their common dates
+ */
+export function alignReturns(a: DatedReturn[], b: DatedReturn[]): [number[], number[]] {
+  const byDate = new Map(b.map(point => [point.date, point.value]));
+  const left: number[] = [];
+  const right: number[] = [];
+  for (const point of a) {
+    const other = byDate.get(point.date);
+    if (other !== undefined) {
+      left.push(point.value);
+      right.push(other);
+    }
+  }
+  return [left, right];
+}
+
+export function calculateCorrelation(a: number[], b: number[]): number | null {
+  if (a.length !== b.length || a.length < MIN_RISK_OBSERVATIONS) return null;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  if (varianceA === 0 || varianceB === 0) return null;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+export function calculateBeta(asset: number[], benchmark: number[]): number | null {
+  if (asset.length !== benchmark.length || asset.length < MIN_RISK_OBSERVATIONS) return null;
+  const meanAsset = mean(asset);
+  const meanBenchmark = mean(benchmark);
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < asset.length; i++) {
+    covariance += (asset[i] - meanAsset) * (benchmark[i] - meanBenchmark);
+    variance += (benchmark[i] - meanBenchmark) ** 2;
+  }
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Max and current peak-to-trough decline (%) of the growth path implied by the returns
+ */
+export function calculateDrawdowns(returns: number[]): { max: number; current: number } {
+  let value = 1;
+  let peak = 1;
+  let max = 0;
+  for (const r of returns) {
+    value *= 1 + r;
+    peak = Math.max(peak, value);
+    max = Math.max(max, (peak - value) / peak);
+  }
+  return { max: max * 100, current: peak > 0 ? (peak - value) / peak * 100 : 0 };
+}
+
+/**
+ * One-day historical VaR and CVaR (expected shortfall) as positive loss percentages
+ */
+export function calculateHistoricalVaR(
+  returns: number[],
+  confidence = VAR_CONFIDENCE
+): { valueAtRisk: number; conditionalValueAtRisk: number } | null {
+  if (returns.length < MIN_RISK_OBSERVATIONS) return null;
+  const sorted = [...returns].sort((a, b) => a - b);
+  const cutoff = Math.max(1, Math.floor(sorted.length * (1 - confidence)));
+  const tail = sorted.slice(0, cutoff);
+  return {
+    valueAtRisk: Math.max(0, -sorted[cutoff - 1]) * 100,
+    conditionalValueAtRisk: Math.max(0, -mean(tail)) * 100
+  };
+}
+
+export function calculateRiskMetrics(returns: number[], riskFreeRate = RISK_FREE_RATE): RiskMetrics {
+  const observations = returns.length;
+  if (observations < MIN_RISK_OBSERVATIONS) {
+    return {
+      observations,
+      annualizedReturn: null,
+      annualizedVolatility: null,
+      sharpeRatio: null,
+      sortinoRatio: null,
+      maxDrawdown: null,
+      currentDrawdown: null,
+      valueAtRisk: null,
+      conditionalValueAtRisk: null
+    };
+  }
+
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const averageReturn = mean(returns);
+  const dailyVolatility = sampleStdDev(returns);
+  const dailyDownside = downsideDeviation(returns, dailyRiskFree);
+  const growth = returns.reduce((value, r) => value * (1 + r), 1);
+  const annualizedReturn = growth > 0 ? (growth ** (TRADING_DAYS_PER_YEAR / observations) - 1) * 100 : -100;
+  const excess = (averageReturn - dailyRiskFree) * TRADING_DAYS_PER_YEAR;
+  const drawdowns = calculateDrawdowns(returns);
+  const tailRisk = calculateHistoricalVaR(returns);
+
+  return {
+    observations,
+    annualizedReturn: round(annualizedReturn),
+    annualizedVolatility: roundOrNull(dailyVolatility !== null ? dailyVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100 : null),
+    sharpeRatio: roundOrNull(dailyVolatility ? excess / (dailyVolatility * Math.sqrt(TRADING_DAYS_PER_YEAR)) : null),
+    sortinoRatio: roundOrNull(dailyDownside ? excess / (dailyDownside * Math.sqrt(TRADING_DAYS_PER_YEAR)) : null),
+    maxDrawdown: round(drawdowns.max),
+    currentDrawdown: round(drawdowns.current),
+    valueAtRisk: roundOrNull(tailRisk?.valueAtRisk ?? null),
+    conditionalValueAtRisk: roundOrNull(tailRisk?.conditionalValueAtRisk ?? null)
+  };
+}
+
+/**
+ * Replays today's holdings over the window: each session's return is the
+ * weight-averaged return of the positions that traded that day
+ */
+export function buildHoldingsReturns(
+  positionReturns: Record<string, DatedReturn[]>,
+  weights: Record<string, number>
+): DatedReturn[] {
+  const byDate = new Map<string, { sum: number; weight: number }>();
+  for (const [symbol, series] of Object.entries(positionReturns)) {
+    const weight = weights[symbol] ?? 0;
+    if (weight === 0) continue;
+    for (const point of series) {
+      const entry = byDate.get(point.date) ?? { sum: 0, weight: 0 };
+      entry.sum += point.value * weight;
+      entry.weight += weight;
+      byDate.set(point.date, entry);
+    }
+  }
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, entry]) => ({ date, value: entry.weight !== 0 ? entry.sum / entry.weight : 0 }));
+}
+
+export interface PortfolioRiskInputs {
+  portfolioReturns: DatedReturn[];
+  benchmarkReturns: DatedReturn[];
+  positionReturns: Record<string, DatedReturn[]>;
+  positions: RiskPositionInput[];
+  equity: number;
+  startDate: string;
+  endDate: string;
+  benchmark?: string;
+  asOf?: string;
+}
+
+export function buildPortfolioRiskReport(inputs: PortfolioRiskInputs): PortfolioRiskReport {
+  const warnings: string[] = [];
+  const equity = inputs.equity;
+
+  const held = inputs.positions
+    .map(position => ({
+      symbol: String(position.symbol).toUpperCase(),
+      marketValue: Number(position.market_value) || 0
+    }))
+    .filter(position => position.marketValue !== 0)
+    .sort((a, b) => Math.abs(b.marketValue) - Math.abs(a.marketValue));
+
+  const weights: Record<string, number> = {};
+  for (const position of held) {
+    weights[position.symbol] = equity > 0 ? position.marketValue / equity : 0;
+  }
+
+  let returnSource: ReturnSource = RETURN_SOURCE.ACCOUNT_HISTORY;
+  let portfolioReturns = inputs.portfolioReturns;
+  if (portfolioReturns.length < MIN_RISK_OBSERVATIONS && held.length > 0) {
+    const holdingsReturns = buildHoldingsReturns(inputs.positionReturns, weights);
+    if (holdingsReturns.length > portfolioReturns.length) {
+      warnings.push(`Account history has only ${portfolioReturns.length} daily returns; figures replay current holdings over the lookback window`);
+      portfolioReturns = holdingsReturns;
+      returnSource = RETURN_SOURCE.HOLDINGS;
+    }
+  }
+
+  const portfolioValues = portfolioReturns.map(point => point.value);
+  const metrics = calculateRiskMetrics(portfolioValues);
+  if (metrics.observations < MIN_RISK_OBSERVATIONS) {
+    warnings.push(`Only ${metrics.observations} daily returns available; at least ${MIN_RISK_OBSERVATIONS} are needed for risk figures`);
+  }
+
+  const [alignedPortfolio, alignedBenchmark] = alignReturns(portfolioReturns, inputs.benchmarkReturns);
+  const beta = calculateBeta(alignedPortfolio, alignedBenchmark);
+  const correlationToBenchmark = calculateCorrelation(alignedPortfolio, alignedBenchmark);
+
+  const positions: PositionRisk[] = held.map(position => {
+    const series = inputs.positionReturns[position.symbol] ?? [];
+    if (series.length < MIN_RISK_OBSERVATIONS) {
+      warnings.push(`Not enough price history for ${position.symbol}`);
+    }
+    const [assetVsBenchmark, benchmarkVsAsset] = alignReturns(series, inputs.benchmarkReturns);
+    const [assetVsPortfolio, portfolioVsAsset] = alignReturns(series, portfolioReturns);
+    const volatility = sampleStdDev(series.map(point => point.value));
+
+    return {
+      symbol: position.symbol,
+      weight: round(weights[position.symbol] * 100),
+      marketValue: round(position.marketValue),
+      observations: series.length,
+      beta: roundOrNull(calculateBeta(assetVsBenchmark, benchmarkVsAsset)),
+      annualizedVolatility: roundOrNull(
+        series.length >= MIN_RISK_OBSERVATIONS && volatility !== null
+          ? volatility * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100
+          : null
+      ),
+      correlationToPortfolio: roundOrNull(calculateCorrelation(assetVsPortfolio, portfolioVsAsset))
+    };
+  });
+
+  const matrixSymbols = held.slice(0, MAX_CORRELATION_POSITIONS).map(position => position.symbol);
+  if (held.length > MAX_CORRELATION_POSITIONS) {
+    warnings.push(`Correlation matrix limited to the ${MAX_CORRELATION_POSITIONS} largest positions`);
+  }
+  const values = matrixSymbols.map(rowSymbol =>
+    matrixSymbols.map(columnSymbol => {
+      if (rowSymbol === columnSymbol) return 1;
+      const [row, column] = alignReturns(
+        inputs.positionReturns[rowSymbol] ?? [],
+        inputs.positionReturns[columnSymbol] ?? []
+      );
+      return roundOrNull(calculateCorrelation(row, column));
+    })
+  );
+
+  const toDollars = (percent: number | null) =>
+    percent !== null && equity > 0 ? round(equity * percent / 100) : null;
+
+  return {
+    generatedAt: inputs.asOf ?? new Date().toISOString(),
+    startDate: inputs.startDate,
+    endDate: inputs.endDate,
+    benchmark: inputs.benchmark ?? RISK_BENCHMARK_SYMBOL,
+    riskFreeRate: RISK_FREE_RATE,
+    confidence: VAR_CONFIDENCE,
+    equity: round(equity),
+    returnSource,
+    portfolio: {
+      ...metrics,
+      beta: roundOrNull(beta),
+      correlationToBenchmark: roundOrNull(correlationToBenchmark),
+      valueAtRiskDollars: toDollars(metrics.valueAtRisk),
+      conditionalValueAtRiskDollars: toDollars(metrics.conditionalValueAtRisk)
+    },
+    benchmarkMetrics: calculateRiskMetrics(inputs.benchmarkReturns.map(point => point.value)),
+    positions,
+    correlation: { symbols: matrixSymbols, values },
+    warnings
+  };
+}
+
+async function fetchPortfolioHistory(broker: BrokerAdapter): Promise<PortfolioHistorySeries | null> {
+  if (!broker.getPortfolioHistory) {
+    return null;
+  }
+
+  try {
+    return await broker.getPortfolioHistory({ period: '1A', timeframe: '1D' });
+  } catch (error) {
+    console.warn('⚠️ Failed to fetch portfolio history:', error);
+    return null;
+  }
+}
+
+/**
+ * Loads account history, benchmark and position bars and builds the risk report
+ */
+export async function loadPortfolioRiskReport(
+  supabase: any,
+  apiSettings: any,
+  positions: RiskPositionInput[],
+  equity: number
+): Promise<PortfolioRiskReport> {
+  const broker = createBroker(apiSettings);
+  let credentials = { apiKey: '', secretKey: '' };
+  try {
+    const { apiKey, secretKey } = extractAlpacaCredentials(apiSettings);
+    credentials = { apiKey, secretKey };
+  } catch {
+    // Simulated accounts may have no Alpaca keys - cached bars only
+  }
+
+  const endDate = new Date().toISOString().split('T')[0];
+  const startDate = new Date(Date.now() - RISK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const symbols = Array.from(new Set(
+    positions
+      .filter(position => Number(position.market_value))
+      .map(position => String(position.symbol).toUpperCase())
+  ));
+
+  const [history, benchmarkBars, ...positionBars] = await Promise.all([
+    fetchPortfolioHistory(broker),
+    loadDailyBars(supabase, RISK_BENCHMARK_SYMBOL, startDate, endDate, credentials),
+    ...symbols.map(symbol => loadDailyBars(supabase, symbol, startDate, endDate, credentials))
+  ]);
+
+  const positionReturns: Record<string, DatedReturn[]> = {};
+  symbols.forEach((symbol, index) => {
+    positionReturns[symbol] = barsToReturns(positionBars[index]);
+  });
+
+  const report = buildPortfolioRiskReport({
+    portfolioReturns: history ? portfolioHistoryToReturns(history) : [],
+    benchmarkReturns: barsToReturns(benchmarkBars),
+    positionReturns,
+    positions,
+    equity,
+    startDate,
+    endDate
+  });
+
+  if (!history) {
+    report.warnings.unshift('Account portfolio history unavailable');
+  }
+  if (benchmarkBars.length === 0) {
+    report.warnings.unshift(`No ${RISK_BENCHMARK_SYMBOL} bars available; beta could not be computed`);
+  }
+  return report;
+}
+
+const formatNumber = (value: number | null, suffix = '', digits = 2): string =>
+  value === null ? 'n/a' : `${value.toFixed(digits)}${suffix}`;
+
+/**
+ * Prompt section summarizing portfolio risk, with the ticker's own figures when held
+ */
+export function formatPortfolioRiskContext(report: PortfolioRiskReport | null | undefined, ticker?: string): string {
+  if (!report) return '';
+
+  const p = report.portfolio;
+  if (p.observations < MIN_RISK_OBSERVATIONS) {
+    return `\n\nPORTFOLIO RISK ANALYTICS: not enough history (${p.observations} daily returns) for reliable figures.`;
+  }
+
+  const source = report.returnSource === RETURN_SOURCE.HOLDINGS
+    ? 'current holdings replayed over the window'
+    : 'account equity history';
+  const lines = [
+    `\n\nPORTFOLIO RISK ANALYTICS (${report.startDate} to ${report.endDate}, ${p.observations} daily returns from ${source}):`,
+    `- Beta vs ${report.benchmark}: ${formatNumber(p.beta)} (correlation ${formatNumber(p.correlationToBenchmark)})`,
+    `- Annualized volatility: ${formatNumber(p.annualizedVolatility, '%')} (${report.benchmark}: ${formatNumber(report.benchmarkMetrics.annualizedVolatility, '%')})`,
+    `- Sharpe: ${formatNumber(p.sharpeRatio)}, Sortino: ${formatNumber(p.sortinoRatio)} (risk-free ${(report.riskFreeRate * 100).toFixed(1)}%)`,
+    `- Max drawdown: ${formatNumber(p.maxDrawdown, '%')}, current drawdown: ${formatNumber(p.currentDrawdown, '%')}`,
+    `- 1-day ${Math.round(report.confidence * 100)}% VaR: ${formatNumber(p.valueAtRisk, '%')}${p.valueAtRiskDollars !== null ? ` ($${p.valueAtRiskDollars.toLocaleString()})` : ''}, CVaR: ${formatNumber(p.conditionalValueAtRisk, '%')}${p.conditionalValueAtRiskDollars !== null ? ` ($${p.conditionalValueAtRiskDollars.toLocaleString()})` : ''}`
+  ];
+
+  const symbol = ticker?.toUpperCase();
+  const position = symbol ? report.positions.find(item => item.symbol === symbol) : undefined;
+  if (position) {
+    lines.push(`- ${symbol}: ${position.weight.toFixed(1)}% of equity, beta ${formatNumber(position.beta)}, volatility ${formatNumber(position.annualizedVolatility, '%')}, correlation to portfolio ${formatNumber(position.correlationToPortfolio)}`);
+  }
+
+  const index = symbol ? report.correlation.symbols.indexOf(symbol) : -1;
+  if (index >= 0) {
+    const peers = report.correlation.symbols
+      .map((other, i) => ({ other, value: report.correlation.values[index][i] }))
+      .filter(({ other, value }) => other !== symbol && value !== null)
+      .sort((a, b) => (b.value as number) - (a.value as number))
+      .slice(0, 5);
+    if (peers.length > 0) {
+      lines.push(`- ${symbol} correlation with holdings: ${peers.map(({ other, value }) => `${other} ${(value as number).toFixed(2)}`).join(', ')}`);
+    }
+  } else if (report.correlation.symbols.length > 1) {
+    const pairs: Array<{ label: string; value: number }> = [];
+    report.correlation.symbols.forEach((row, i) => {
+      for (let j = i + 1; j < report.correlation.symbols.length; j++) {
+        const value = report.correlation.values[i][j];
+        if (value !== null) pairs.push({ label: `${row}/${report.correlation.symbols[j]}`, value });
+      }
+    });
+    const top = pairs.sort((a, b) => b.value - a.value).slice(0, 3);
+    if (top.length > 0) {
+      lines.push(`- Most correlated holdings: ${top.map(pair => `${pair.label} ${pair.value.toFixed(2)}`).join(', ')}`);
+    }
+  }
+
+  const highBeta = report.positions
+    .filter(item => item.beta !== null && item.beta > 1.3)
+    .slice(0, 5);
+  if (highBeta.length > 0) {
+    lines.push(`- High-beta holdings: ${highBeta.map(item => `${item.symbol} ${item.beta!.toFixed(2)} (${item.weight.toFixed(1)}%)`).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
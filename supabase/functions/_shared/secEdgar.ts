@@ -0,0 +1,100 @@
+/**
+ * SEC EDGAR Client
+ *
+ * Minimal client for the public EDGAR JSON endpoints. The SEC rejects requests
+ * without a descriptive User-Agent that includes a contact address, so calls
+ * are skipped unless SEC_USER_AGENT is set (e.g. "Acme Research ops@acme.com").
+ */
+
+const SEC_TICKERS_URL = 'https://www.sec.gov/files/company_tickers.json';
+const SEC_DATA_BASE_URL = 'https://data.sec.gov';
+
+export interface SecCompanySubmissions {
+  cik: string;
+  name: string;
+  sic: string | null;
+  sicDescription: string | null;
+  tickers: string[];
+  exchanges: string[];
+}
+
+let tickerMapPromise: Promise<Map<string, string>> | null = null;
+
+export function getSecUserAgent(): string | null {
+  const value = Deno.env.get('SEC_USER_AGENT');
+  return value && value.trim() ? value.trim() : null;
+}
+
+async function fetchSecJson(url: string): Promise<any | null> {
+  const userAgent = getSecUserAgent();
+  if (!userAgent) return null;
+
+  const response = await fetch(url, {
+    headers: { 'User-Agent': userAgent, 'Accept': 'application/json' }
+  });
+  if (!response.ok) {
+    console.warn(`⚠️ SEC request failed (${response.status}): ${url}`);
+    return null;
+  }
+  return await response.json();
+}
+
+const padCik = (cik: string | number): string => String(cik).replace(/\D/g, '').padStart(10, '0');
+
+/**
+ * Ticker → zero-padded CIK, loaded once per function instance
+ */
+async function loadTickerMap(): Promise<Map<string, string>> {
+  if (!tickerMapPromise) {
+    tickerMapPromise = fetchSecJson(SEC_TICKERS_URL)
+      .then(data => {
+        const map = new Map<string, string>();
+        for (const entry of Object.values(data || {}) as any[]) {
+          if (entry?.ticker && entry?.cik_str !== undefined) {
+            map.set(String(entry.ticker).toUpperCase(), padCik(entry.cik_str));
+          }
+        }
+        return map;
+      })
+      .catch(error => {
+        console.warn('⚠️ Failed to load SEC ticker map:', error);
+        tickerMapPromise = null;
+        return new Map<string, string>();
+      });
+  }
+  return tickerMapPromise;
+}
+
+export async function lookupCik(symbol: string): Promise<string | null> {
+  if (!getSecUserAgent()) return null;
+  const map = await loadTickerMap();
+  // EDGAR writes share classes with a dash (BRK-B) where brokers often use a dot
+  const normalized = symbol.trim().toUpperCase();
+  return map.get(normalized) ?? map.get(normalized.replace('.', '-')) ?? null;
+}
+
+export async function fetchCompanySubmissions(cik: string): Promise<SecCompanySubmissions | null> {
+  const data = await fetchSecJson(`${SEC_DATA_BASE_URL}/submissions/CIK${padCik(cik)}.json`);
+  if (!data) return null;
+
+  return {
+    cik: padCik(cik),
+    name: data.name ?? '',
+    sic: data.sic ? String(data.sic) : null,
+    sicDescription: data.sicDescription ?? null,
+    tickers: Array.isArray(data.tickers) ? data.tickers : [],
+    exchanges: Array.isArray(data.exchanges) ? data.exchanges : []
+  };
+}
+
+/**
+ * Raw XBRL company facts (every tagged value from the company's filings),
+ * keyed by taxonomy and concept: facts['us-gaap'].NetIncomeLoss.units.USD
+ */
+export async function fetchCompanyFacts(cik: string): Promise<any | null> {
+  return await fetchSecJson(`${SEC_DATA_BASE_URL}/api/xbrl/companyfacts/CIK${padCik(cik)}.json`);
+}
+
+export function getCompanyFilingsUrl(cik: string): string {
+  return `https://www.sec.gov/cgi-bin/browse-edgar?action=getcompany&CIK=${padCik(cik)}&type=10-K`;
+}
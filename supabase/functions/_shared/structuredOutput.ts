@@ -0,0 +1,503 @@
+/**
+ * Structured output contract for agent responses
+ *
+ * Every agent asks its AI provider for JSON that matches one of the schemas below.
+ * aiProviders.ts passes the schema to the provider natively (response_format,
+ * tool calling or Gemini responseSchema); the response is then validated here.
+ * Callers fall back to their text parsers only when validation fails.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+// The subset of JSON Schema understood by every supported provider
+export interface JsonSchema {
+  type: JsonSchemaType;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  nullable?: boolean;
+}
+
+export interface AgentOutputSchema {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+export interface StructuredParseResult<T> {
+  data: T | null;
+  payload: any;
+  errors: string[];
+}
+
+/**
+ * Returns the problems that stop a value from matching the schema (empty when it matches)
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is required`];
+  }
+
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record)) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (key in record) {
+          errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      return errors;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+      }
+      return errors;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path} must be a number`];
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      if (typeof schema.minimum === 'number' && value < schema.minimum) {
+        errors.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (typeof schema.maximum === 'number' && value > schema.maximum) {
+        errors.push(`${path} must be at most ${schema.maximum}`);
+      }
+      return errors;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    default:
+      return [`${path} has an unsupported schema type`];
+  }
+}
+
+/**
+ * Pulls the JSON object out of a response, tolerating code fences and surrounding prose
+ */
+export function extractJsonPayload(text: string): any {
+  if (!text) return null;
+
+  const unfenced = text
+    .replace(/```json\s*/gi, '')
+    .replace(/```\s*/g, '')
+    .trim();
+
+  try {
+    return JSON.parse(unfenced);
+  } catch (_error) {
+    // Fall through to the outermost braces
+  }
+
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Parses and validates a response; data is null when it does not match the schema
+ */
+export function parseStructuredResponse<T>(text: string, outputSchema: AgentOutputSchema): StructuredParseResult<T> {
+  const payload = extractJsonPayload(text);
+  if (payload === null) {
+    return { data: null, payload: null, errors: ['Response did not contain a JSON object'] };
+  }
+
+  const errors = validateAgainstSchema(payload, outputSchema.schema);
+  return {
+    data: errors.length === 0 ? payload as T : null,
+    payload,
+    errors
+  };
+}
+
+/**
+ * Instructions appended to the system prompt so providers without native
+ * schema support still answer in the expected shape
+ */
+export function buildStructuredOutputInstructions(outputSchema: AgentOutputSchema): string {
+  return `RESPONSE FORMAT:
+Respond with a single JSON object only - no markdown fences and no text outside the JSON.
+${outputSchema.description}
+The JSON must match this schema:
+${JSON.stringify(outputSchema.schema)}`;
+}
+
+/**
+ * Converts a schema to standard JSON Schema (OpenAI response_format, Anthropic tool input)
+ */
+export function toStandardJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const converted: Record<string, unknown> = {
+    type: schema.nullable ? [schema.type, 'null'] : schema.type
+  };
+
+  if (schema.description) converted.description = schema.description;
+  if (schema.enum) converted.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (typeof schema.minimum === 'number') converted.minimum = schema.minimum;
+  if (typeof schema.maximum === 'number') converted.maximum = schema.maximum;
+  if (schema.items) converted.items = toStandardJsonSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toStandardJsonSchema(value)])
+    );
+    converted.required = schema.required || [];
+    converted.additionalProperties = false;
+  }
+
+  return converted;
+}
+
+/**
+ * Converts a schema to the OpenAPI subset used by Gemini's responseSchema
+ */
+export function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const converted: Record<string, unknown> = {
+    type: schema.type.toUpperCase()
+  };
+
+  if (schema.description) converted.description = schema.description;
+  if (schema.nullable) converted.nullable = true;
+  if (schema.enum) converted.enum = schema.enum;
+  if (typeof schema.minimum === 'number') converted.minimum = schema.minimum;
+  if (typeof schema.maximum === 'number') converted.maximum = schema.maximum;
+  if (schema.items) converted.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+    converted.required = schema.required || [];
+  }
+
+  return converted;
+}
+
+// ---------------------------------------------------------------------------
+// Shared agent output shapes
+// ---------------------------------------------------------------------------
+
+const ANALYSIS_FIELD: JsonSchema = {
+  type: 'string',
+  description: 'The full written analysis in markdown, as it should be shown to the user'
+};
+
+const CONFIDENCE_FIELD: JsonSchema = {
+  type: 'number',
+  minimum: 0,
+  maximum: 100,
+  description: 'Confidence in the conclusion from 0 to 100'
+};
+
+const TICKER_FIELD: JsonSchema = {
+  type: 'string',
+  description: 'Ticker symbol exactly as given in the prompt'
+};
+
+export interface AnalystReportOutput {
+  analysis: string;
+  stance: 'bullish' | 'bearish' | 'neutral';
+  confidence: number;
+  keyPoints: string[];
+}
+
+export interface ResearchRecommendationOutput {
+  analysis: string;
+  recommendation: 'BUY' | 'SELL' | 'HOLD';
+  conviction: number;
+  fairValue: number | null;
+  upside: number | null;
+  keyFactors: string[];
+  risks: string[];
+}
+
+export interface TradingPlanOutput {
+  analysis: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  entryPrice: number | null;
+  stopLoss: number | null;
+  targets: number[];
+  positionSizePercent: number | null;
+  confidence: number;
+}
+
+export interface RiskPerspectiveOutput {
+  analysis: string;
+  recommendation: 'BUY' | 'SELL' | 'HOLD';
+  positionSizePercent: number;
+  maxLossPercent: number;
+  expectedReturnPercent: number | null;
+  warningLevel: 'low' | 'medium' | 'high';
+}
+
+export interface RiskDecisionOutput {
+  analysis: string;
+  decision: 'BUY' | 'SELL' | 'HOLD';
+  intent: 'BUILD' | 'ADD' | 'TRIM' | 'EXIT' | 'HOLD';
+  confidence: number;
+  suggestedPercent: number | null;
+  riskScore: number;
+}
+
+export interface TradeOrderOutput {
+  action: 'BUY' | 'SELL' | 'HOLD';
+  ticker: string;
+  dollarAmount: number;
+}
+
+export interface RebalanceOrdersOutput {
+  orders: TradeOrderOutput[];
+}
+
+export interface OpportunitySelectionOutput {
+  recommendAnalysis: boolean;
+  selectedStocks: Array<{
+    ticker: string;
+    reason: string;
+    priority: 'high' | 'medium' | 'low';
+    signals: string[];
+  }>;
+  marketConditions: {
+    trend: 'bullish' | 'bearish' | 'neutral';
+    volatility: 'low' | 'medium' | 'high';
+  };
+}
+
+const TRADE_ORDER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: ['BUY', 'SELL', 'HOLD'] },
+    ticker: TICKER_FIELD,
+    dollarAmount: {
+      type: 'number',
+      minimum: 0,
+      description: 'Whole dollar amount to trade; 0 for HOLD'
+    }
+  },
+  required: ['action', 'ticker', 'dollarAmount']
+};
+
+export const AGENT_OUTPUT_SCHEMAS = {
+  ANALYST_REPORT: {
+    name: 'analyst_report',
+    description: 'Put your complete report in "analysis" and summarise your overall view in the remaining fields.',
+    schema: {
+      type: 'object',
+      properties: {
+        analysis: ANALYSIS_FIELD,
+        stance: { type: 'string', enum: ['bullish', 'bearish', 'neutral'] },
+        confidence: CONFIDENCE_FIELD,
+        keyPoints: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Three to five short takeaways'
+        }
+      },
+      required: ['analysis', 'stance', 'confidence', 'keyPoints']
+    }
+  },
+  RESEARCH_RECOMMENDATION: {
+    name: 'research_recommendation',
+    description: 'Put your complete assessment in "analysis" and the final call in the remaining fields.',
+    schema: {
+      type: 'object',
+      properties: {
+        analysis: ANALYSIS_FIELD,
+        recommendation: { type: 'string', enum: ['BUY', 'SELL', 'HOLD'] },
+        conviction: { type: 'integer', minimum: 1, maximum: 10, description: 'Conviction from 1 to 10' },
+        fairValue: { type: 'number', nullable: true, description: 'Estimated fair value per share, if assessed' },
+        upside: { type: 'number', nullable: true, description: 'Percent upside (negative for downside) to fair value' },
+        keyFactors: { type: 'array', items: { type: 'string' } },
+        risks: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['analysis', 'recommendation', 'conviction', 'fairValue', 'upside', 'keyFactors', 'risks']
+    }
+  },
+  TRADING_PLAN: {
+    name: 'trading_plan',
+    description: 'Put your complete trading plan in "analysis" and its key numbers in the remaining fields.',
+    schema: {
+      type: 'object',
+      properties: {
+        analysis: ANALYSIS_FIELD,
+        action: { type: 'string', enum: ['BUY', 'SELL', 'HOLD'] },
+        entryPrice: { type: 'number', nullable: true },
+        stopLoss: { type: 'number', nullable: true },
+        targets: { type: 'array', items: { type: 'number' }, description: 'Price targets, nearest first' },
+        positionSizePercent: {
+          type: 'number',
+          nullable: true,
+          minimum: 0,
+          maximum: 100,
+          description: 'Suggested position size as a percent of the portfolio'
+        },
+        confidence: CONFIDENCE_FIELD
+      },
+      required: ['analysis', 'action', 'entryPrice', 'stopLoss', 'targets', 'positionSizePercent', 'confidence']
+    }
+  },
+  RISK_PERSPECTIVE: {
+    name: 'risk_perspective',
+    description: 'Put your complete risk assessment in "analysis" and your sizing view in the remaining fields.',
+    schema: {
+      type: 'object',
+      properties: {
+        analysis: ANALYSIS_FIELD,
+        recommendation: { type: 'string', enum: ['BUY', 'SELL', 'HOLD'] },
+        positionSizePercent: {
+          type: 'number',
+          minimum: 0,
+          maximum: 100,
+          description: 'Position size you consider appropriate, as a percent of the portfolio'
+        },
+        maxLossPercent: {
+          type: 'number',
+          minimum: 0,
+          maximum: 100,
+          description: 'Maximum acceptable loss on the position in percent'
+        },
+        expectedReturnPercent: { type: 'number', nullable: true },
+        warningLevel: { type: 'string', enum: ['low', 'medium', 'high'] }
+      },
+      required: ['analysis', 'recommendation', 'positionSizePercent', 'maxLossPercent', 'expectedReturnPercent', 'warningLevel']
+    }
+  },
+  RISK_DECISION: {
+    name: 'risk_decision',
+    description: 'Put your complete final assessment in "analysis" and the binding decision in the remaining fields.',
+    schema: {
+      type: 'object',
+      properties: {
+        analysis: ANALYSIS_FIELD,
+        decision: { type: 'string', enum: ['BUY', 'SELL', 'HOLD'] },
+        intent: {
+          type: 'string',
+          enum: ['BUILD', 'ADD', 'TRIM', 'EXIT', 'HOLD'],
+          description: 'BUILD opens a new position, ADD increases, TRIM reduces, EXIT closes, HOLD keeps it unchanged'
+        },
+        confidence: CONFIDENCE_FIELD,
+        suggestedPercent: {
+          type: 'number',
+          nullable: true,
+          minimum: 0,
+          maximum: 100,
+          description: 'Suggested position size as a percent of the portfolio'
+        },
+        riskScore: { type: 'number', minimum: 1, maximum: 10, description: 'Overall risk from 1 (low) to 10 (high)' }
+      },
+      required: ['analysis', 'decision', 'intent', 'confidence', 'suggestedPercent', 'riskScore']
+    }
+  },
+  TRADE_ORDER: {
+    name: 'trade_order',
+    description: 'Return the single order for the ticker in the prompt.',
+    schema: TRADE_ORDER_SCHEMA
+  },
+  REBALANCE_ORDERS: {
+    name: 'rebalance_orders',
+    description: 'List one order per ticker, SELL orders first, then BUY orders, then HOLD.',
+    schema: {
+      type: 'object',
+      properties: {
+        orders: { type: 'array', items: TRADE_ORDER_SCHEMA }
+      },
+      required: ['orders']
+    }
+  },
+  OPPORTUNITY_SELECTION: {
+    name: 'opportunity_selection',
+    description: 'List the stocks recommended for full specialist analysis in priority order.',
+    schema: {
+      type: 'object',
+      properties: {
+        recommendAnalysis: { type: 'boolean' },
+        selectedStocks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ticker: TICKER_FIELD,
+              reason: { type: 'string' },
+              priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+              signals: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['ticker', 'reason', 'priority', 'signals']
+          }
+        },
+        marketConditions: {
+          type: 'object',
+          properties: {
+            trend: { type: 'string', enum: ['bullish', 'bearish', 'neutral'] },
+            volatility: { type: 'string', enum: ['low', 'medium', 'high'] }
+          },
+          required: ['trend', 'volatility']
+        }
+      },
+      required: ['recommendAnalysis', 'selectedStocks', 'marketConditions']
+    }
+  }
+} satisfies Record<string, AgentOutputSchema>;
+
+/**
+ * Renders validated orders in the "N. ACTION $X worth TICKER" line format the
+ * portfolio managers already store and display
+ */
+export function formatTradeOrderLines(orders: TradeOrderOutput[]): string {
+  return orders
+    .map((order, index) => {
+      const ticker = order.ticker.toUpperCase();
+      if (order.action === 'HOLD' || order.dollarAmount <= 0) {
+        return `${index + 1}. HOLD ${ticker}`;
+      }
+      return `${index + 1}. ${order.action} $${Math.round(order.dollarAmount)} worth ${ticker}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Maps a 0-100 confidence to the high/medium/low labels used in agent summaries
+ */
+export function confidenceLevel(confidence: number): 'high' | 'medium' | 'low' {
+  if (confidence >= 75) return 'high';
+  if (confidence >= 50) return 'medium';
+  return 'low';
+}
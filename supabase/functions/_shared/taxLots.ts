@@ -0,0 +1,717 @@
+/**
+ * Tax Lot Accounting
+ *
+ * Turns FILL activities (Alpaca's activity type; other brokers' trade history
+ * is mapped onto it) into tax lots: every buy fill opens a lot and
+ * every sell fill closes lots using the user's lot method (FIFO, LIFO or
+ * specific-ID). From the lots we derive realized and unrealized P&L per
+ * position, split into short-term and long-term (held more than one year),
+ * and flag wash-sale candidates: sales at a loss with a replacement purchase
+ * of the same symbol within 30 days before or after the sale.
+ *
+ * Specific-ID selections are stored on the sell order in
+ * trading_actions.metadata.tax_lot_selection ([{ lotId, quantity }]) and are
+ * matched to fills through metadata.alpaca_order.id. Sales without a selection
+ * fall back to FIFO, which is also the broker's default.
+ *
+ * The figures are estimates from the fill history the broker returns; transfers,
+ * corporate actions and fees are not modeled.
+ */
+
+import { createBroker } from './brokers/index.ts';
+
+export const TAX_LOT_METHOD = {
+  FIFO: 'fifo' as const,
+  LIFO: 'lifo' as const,
+  SPECIFIC_ID: 'specific_id' as const
+} as const;
+
+export type TaxLotMethod = typeof TAX_LOT_METHOD[keyof typeof TAX_LOT_METHOD];
+
+export const DEFAULT_TAX_LOT_METHOD: TaxLotMethod = TAX_LOT_METHOD.FIFO;
+
+export const HOLDING_TERM = {
+  SHORT: 'short' as const,
+  LONG: 'long' as const
+} as const;
+
+export type HoldingTerm = typeof HOLDING_TERM[keyof typeof HOLDING_TERM];
+
+export const FILL_ACTIVITY_TYPE = 'FILL';
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+// 50 pages of 100 fills; older fills are reported as a warning
+const MAX_FILL_ACTIVITY_PAGES = 50;
+const FILL_ACTIVITY_PAGE_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUANTITY_EPSILON = 1e-9;
+
+export function isValidTaxLotMethod(value: unknown): value is TaxLotMethod {
+  return typeof value === 'string' && Object.values(TAX_LOT_METHOD).includes(value as TaxLotMethod);
+}
+
+export function resolveTaxLotMethod(settings?: { tax_lot_method?: string | null } | null): TaxLotMethod {
+  return isValidTaxLotMethod(settings?.tax_lot_method) ? settings!.tax_lot_method as TaxLotMethod : DEFAULT_TAX_LOT_METHOD;
+}
+
+export interface FillActivity {
+  id: string;
+  orderId: string | null;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  executedAt: string;
+}
+
+export interface TaxLotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+export interface TaxLot {
+  lotId: string;
+  symbol: string;
+  acquiredAt: string;
+  quantity: number;          // Shares still open
+  originalQuantity: number;
+  costPerShare: number;
+}
+
+export interface OpenTaxLot extends TaxLot {
+  costBasis: number;
+  term: HoldingTerm;
+  longTermAt: string;        // First day a sale would be long-term
+  unrealizedGain: number | null;
+}
+
+export interface RealizedLot {
+  saleId: string;
+  orderId: string | null;
+  symbol: string;
+  lotId: string;
+  acquiredAt: string;
+  disposedAt: string;
+  quantity: number;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+  term: HoldingTerm;
+  washSaleCandidate: boolean;
+}
+
+export interface WashSaleCandidate {
+  saleId: string;
+  symbol: string;
+  disposedAt: string;
+  quantity: number;
+  loss: number;                       // Positive amount
+  replacementFillIds: string[];
+  replacementQuantity: number;
+  disallowedLossEstimate: number;     // Loss pro-rated by replacement shares
+}
+
+export interface PositionTaxSummary {
+  symbol: string;
+  quantity: number;
+  costBasis: number;
+  currentPrice: number | null;
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  unrealizedShortTerm: number;
+  unrealizedLongTerm: number;
+  realizedGain: number;
+  realizedShortTerm: number;
+  realizedLongTerm: number;
+  openLots: OpenTaxLot[];
+  nextLongTermAt: string | null;       // Earliest short-term lot turning long-term
+  washSaleWindowEndsAt: string | null; // Buying before this repurchases into a recent loss sale
+}
+
+export interface TaxGainTotals {
+  shortTerm: number;
+  longTerm: number;
+  total: number;
+}
+
+export interface TaxLotReport {
+  method: TaxLotMethod;
+  generatedAt: string;
+  fillCount: number;
+  positions: PositionTaxSummary[];
+  realized: RealizedLot[];
+  washSaleCandidates: WashSaleCandidate[];
+  totals: {
+    realized: TaxGainTotals;
+    unrealized: TaxGainTotals;
+    disallowedLossEstimate: number;
+  };
+  realizedByYear: Record<string, TaxGainTotals>;
+  warnings: string[];
+}
+
+export interface TaxLotPositionInput {
+  symbol: string;
+  qty: number | string;
+  current_price?: number | string | null;
+}
+
+export interface TaxLotReportOptions {
+  method?: TaxLotMethod;
+  asOf?: string;
+  positions?: TaxLotPositionInput[];
+  lotSelections?: Record<string, TaxLotSelection[]>; // Alpaca order id → lots to sell
+}
+
+const round = (value: number, precision = 2): number => {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+};
+
+const toFinite = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Crypto fills come back as BTC/USD while positions use BTCUSD
+export const normalizeTaxSymbol = (symbol: string): string => String(symbol || '').toUpperCase().replace('/', '');
+
+const emptyTotals = (): TaxGainTotals => ({ shortTerm: 0, longTerm: 0, total: 0 });
+
+function addGain(totals: TaxGainTotals, gain: number, term: HoldingTerm) {
+  if (term === HOLDING_TERM.LONG) {
+    totals.longTerm += gain;
+  } else {
+    totals.shortTerm += gain;
+  }
+  totals.total += gain;
+}
+
+const roundTotals = (totals: TaxGainTotals): TaxGainTotals => ({
+  shortTerm: round(totals.shortTerm),
+  longTerm: round(totals.longTerm),
+  total: round(totals.total)
+});
+
+/**
+ * First day on which a sale of a lot acquired at acquiredAt is long-term:
+ * the day after the one-year anniversary of the purchase
+ */
+export function getLongTermDate(acquiredAt: string): Date {
+  const acquired = new Date(acquiredAt);
+  return new Date(Date.UTC(acquired.getUTCFullYear() + 1, acquired.getUTCMonth(), acquired.getUTCDate() + 1));
+}
+
+export function getHoldingTerm(acquiredAt: string, disposedAt: string): HoldingTerm {
+  return new Date(disposedAt).getTime() >= getLongTermDate(acquiredAt).getTime() ? HOLDING_TERM.LONG : HOLDING_TERM.SHORT;
+}
+
+/**
+ * FILL activities (including partial fills) as buy/sell executions in time order;
+ * short sales are treated as sells and surface as uncovered quantity
+ */
+export function normalizeFillActivities(activities: any[]): FillActivity[] {
+  const fills: FillActivity[] = [];
+
+  for (const activity of activities || []) {
+    if (String(activity?.activity_type || '').toUpperCase() !== FILL_ACTIVITY_TYPE) continue;
+
+    const quantity = Math.abs(toFinite(activity.qty) ?? 0);
+    const price = toFinite(activity.price);
+    const executedAt = Date.parse(activity.transaction_time);
+    const symbol = normalizeTaxSymbol(activity.symbol);
+    if (!symbol || quantity <= 0 || price === null || price <= 0 || isNaN(executedAt)) continue;
+
+    fills.push({
+      id: String(activity.id),
+      orderId: activity.order_id ? String(activity.order_id) : null,
+      symbol,
+      side: String(activity.side || '').toLowerCase() === 'buy' ? 'buy' : 'sell',
+      quantity,
+      price,
+      executedAt: new Date(executedAt).toISOString()
+    });
+  }
+
+  return fills.sort((a, b) => a.executedAt.localeCompare(b.executedAt) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Open lots in the order the method sells them; specific-ID sells its
+ * selections first and then falls back to FIFO
+ */
+export function orderLotsForSale<T extends TaxLot>(lots: T[], method: TaxLotMethod): T[] {
+  const sorted = [...lots].sort((a, b) => a.acquiredAt.localeCompare(b.acquiredAt) || a.lotId.localeCompare(b.lotId));
+  return method === TAX_LOT_METHOD.LIFO ? sorted.reverse() : sorted;
+}
+
+/**
+ * Replays the fills into lots and summarizes realized/unrealized P&L per position
+ */
+export function buildTaxLotReport(fills: FillActivity[], options: TaxLotReportOptions = {}): TaxLotReport {
+  const method = options.method ?? DEFAULT_TAX_LOT_METHOD;
+  const generatedAt = options.asOf ?? new Date().toISOString();
+  const asOfTime = new Date(generatedAt).getTime();
+  const warnings: string[] = [];
+
+  const openLotsBySymbol = new Map<string, TaxLot[]>();
+  const realized: RealizedLot[] = [];
+  const remainingSelections = new Map<string, TaxLotSelection[]>(
+    Object.entries(options.lotSelections || {}).map(([orderId, selections]) => [orderId, selections.map(selection => ({ ...selection }))])
+  );
+
+  for (const fill of fills) {
+    const lots = openLotsBySymbol.get(fill.symbol) ?? [];
+
+    if (fill.side === 'buy') {
+      lots.push({
+        lotId: fill.id,
+        symbol: fill.symbol,
+        acquiredAt: fill.executedAt,
+        quantity: fill.quantity,
+        originalQuantity: fill.quantity,
+        costPerShare: fill.price
+      });
+      openLotsBySymbol.set(fill.symbol, lots);
+      continue;
+    }
+
+    let remaining = fill.quantity;
+    const closeLot = (lot: TaxLot, quantity: number) => {
+      const costBasis = quantity * lot.costPerShare;
+      const proceeds = quantity * fill.price;
+      realized.push({
+        saleId: fill.id,
+        orderId: fill.orderId,
+        symbol: fill.symbol,
+        lotId: lot.lotId,
+        acquiredAt: lot.acquiredAt,
+        disposedAt: fill.executedAt,
+        quantity,
+        costBasis: round(costBasis),
+        proceeds: round(proceeds),
+        gain: round(proceeds - costBasis),
+        term: getHoldingTerm(lot.acquiredAt, fill.executedAt),
+        washSaleCandidate: false
+      });
+      lot.quantity -= quantity;
+      remaining -= quantity;
+    };
+
+    const selections = method === TAX_LOT_METHOD.SPECIFIC_ID && fill.orderId
+      ? remainingSelections.get(fill.orderId) ?? []
+      : [];
+    for (const selection of selections) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      const lot = lots.find(candidate => candidate.lotId === selection.lotId && candidate.quantity > QUANTITY_EPSILON);
+      if (!lot || selection.quantity <= QUANTITY_EPSILON) continue;
+      const quantity = Math.min(remaining, selection.quantity, lot.quantity);
+      closeLot(lot, quantity);
+      selection.quantity -= quantity;
+    }
+
+    for (const lot of orderLotsForSale(lots, method)) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      if (lot.quantity <= QUANTITY_EPSILON) continue;
+      closeLot(lot, Math.min(remaining, lot.quantity));
+    }
+
+    if (remaining > QUANTITY_EPSILON) {
+      warnings.push(`${fill.symbol}: sale on ${fill.executedAt.slice(0, 10)} exceeds known lots by ${round(remaining, 6)} shares (earlier history unavailable or short sale)`);
+    }
+    openLotsBySymbol.set(fill.symbol, lots.filter(lot => lot.quantity > QUANTITY_EPSILON));
+  }
+
+  // Wash-sale candidates: a loss sale with a purchase of the same symbol within
+  // 30 days either side, other than the lots the sale itself closed
+  const buysBySymbol = new Map<string, FillActivity[]>();
+  fills.filter(fill => fill.side === 'buy').forEach(fill => {
+    buysBySymbol.set(fill.symbol, [...(buysBySymbol.get(fill.symbol) ?? []), fill]);
+  });
+
+  const realizedBySale = new Map<string, RealizedLot[]>();
+  realized.forEach(row => realizedBySale.set(row.saleId, [...(realizedBySale.get(row.saleId) ?? []), row]));
+
+  const washSaleCandidates: WashSaleCandidate[] = [];
+  const lossSaleTimesBySymbol = new Map<string, number[]>();
+  for (const [saleId, rows] of realizedBySale) {
+    const gain = rows.reduce((sum, row) => sum + row.gain, 0);
+    if (gain >= 0) continue;
+
+    const { symbol, disposedAt } = rows[0];
+    const saleTime = Date.parse(disposedAt);
+    lossSaleTimesBySymbol.set(symbol, [...(lossSaleTimesBySymbol.get(symbol) ?? []), saleTime]);
+
+    const soldLotIds = new Set(rows.map(row => row.lotId));
+    const replacements = (buysBySymbol.get(symbol) ?? []).filter(buy =>
+      !soldLotIds.has(buy.id) && Math.abs(Date.parse(buy.executedAt) - saleTime) <= WASH_SALE_WINDOW_DAYS * DAY_MS
+    );
+    if (replacements.length === 0) continue;
+
+    const quantity = rows.reduce((sum, row) => sum + row.quantity, 0);
+    const replacementQuantity = replacements.reduce((sum, buy) => sum + buy.quantity, 0);
+    const loss = Math.abs(gain);
+    rows.forEach(row => { row.washSaleCandidate = true; });
+    washSaleCandidates.push({
+      saleId,
+      symbol,
+      disposedAt,
+      quantity: round(quantity, 6),
+      loss: round(loss),
+      replacementFillIds: replacements.map(buy => buy.id),
+      replacementQuantity: round(replacementQuantity, 6),
+      disallowedLossEstimate: round(loss * Math.min(1, replacementQuantity / quantity))
+    });
+  }
+
+  // Per-position summaries, reconciled against the broker's positions
+  const positionsBySymbol = new Map<string, { quantity: number; currentPrice: number | null }>();
+  (options.positions || []).forEach(position => {
+    positionsBySymbol.set(normalizeTaxSymbol(position.symbol), {
+      quantity: toFinite(position.qty) ?? 0,
+      currentPrice: toFinite(position.current_price)
+    });
+  });
+
+  const symbols = Array.from(new Set([
+    ...Array.from(openLotsBySymbol.entries()).filter(([, lots]) => lots.length > 0).map(([symbol]) => symbol),
+    ...realized.map(row => row.symbol),
+    ...positionsBySymbol.keys()
+  ])).sort();
+
+  const realizedTotals = emptyTotals();
+  const unrealizedTotals = emptyTotals();
+  const realizedByYear: Record<string, TaxGainTotals> = {};
+
+  realized.forEach(row => {
+    addGain(realizedTotals, row.gain, row.term);
+    const year = row.disposedAt.slice(0, 4);
+    realizedByYear[year] = realizedByYear[year] ?? emptyTotals();
+    addGain(realizedByYear[year], row.gain, row.term);
+  });
+
+  const positions = symbols.map((symbol): PositionTaxSummary => {
+    const brokerPosition = positionsBySymbol.get(symbol);
+    const currentPrice = brokerPosition?.currentPrice ?? null;
+
+    const openLots = (openLotsBySymbol.get(symbol) ?? []).map((lot): OpenTaxLot => {
+      const longTermAt = getLongTermDate(lot.acquiredAt);
+      return {
+        ...lot,
+        quantity: round(lot.quantity, 9),
+        costBasis: round(lot.quantity * lot.costPerShare),
+        term: asOfTime >= longTermAt.getTime() ? HOLDING_TERM.LONG : HOLDING_TERM.SHORT,
+        longTermAt: longTermAt.toISOString(),
+        unrealizedGain: currentPrice !== null ? round(lot.quantity * (currentPrice - lot.costPerShare)) : null
+      };
+    });
+
+    const quantity = openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const costBasis = openLots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0);
+    const unrealized = emptyTotals();
+    openLots.forEach(lot => {
+      if (lot.unrealizedGain !== null) addGain(unrealized, lot.unrealizedGain, lot.term);
+    });
+    if (currentPrice !== null) {
+      addGain(unrealizedTotals, unrealized.shortTerm, HOLDING_TERM.SHORT);
+      addGain(unrealizedTotals, unrealized.longTerm, HOLDING_TERM.LONG);
+    }
+
+    if (brokerPosition && Math.abs(brokerPosition.quantity - quantity) > 1e-6) {
+      warnings.push(`${symbol}: lots cover ${round(quantity, 6)} of ${round(brokerPosition.quantity, 6)} shares held`);
+    }
+
+    const positionRealized = emptyTotals();
+    realized.filter(row => row.symbol === symbol).forEach(row => addGain(positionRealized, row.gain, row.term));
+
+    const shortTermLots = openLots.filter(lot => lot.term === HOLDING_TERM.SHORT);
+    const nextLongTermAt = shortTermLots.length > 0
+      ? shortTermLots.map(lot => lot.longTermAt).sort()[0]
+      : null;
+
+    const lastLossSale = Math.max(...(lossSaleTimesBySymbol.get(symbol) ?? [-Infinity]));
+    const washSaleWindowEnd = lastLossSale + WASH_SALE_WINDOW_DAYS * DAY_MS;
+
+    return {
+      symbol,
+      quantity: round(quantity, 6),
+      costBasis: round(costBasis),
+      currentPrice,
+      marketValue: currentPrice !== null ? round(quantity * currentPrice) : null,
+      unrealizedGain: currentPrice !== null ? round(unrealized.total) : null,
+      unrealizedShortTerm: round(unrealized.shortTerm),
+      unrealizedLongTerm: round(unrealized.longTerm),
+      realizedGain: round(positionRealized.total),
+      realizedShortTerm: round(positionRealized.shortTerm),
+      realizedLongTerm: round(positionRealized.longTerm),
+      openLots,
+      nextLongTermAt,
+      washSaleWindowEndsAt: Number.isFinite(washSaleWindowEnd) && washSaleWindowEnd > asOfTime
+        ? new Date(washSaleWindowEnd).toISOString()
+        : null
+    };
+  });
+
+  return {
+    method,
+    generatedAt,
+    fillCount: fills.length,
+    positions,
+    realized,
+    washSaleCandidates,
+    totals: {
+      realized: roundTotals(realizedTotals),
+      unrealized: roundTotals(unrealizedTotals),
+      disallowedLossEstimate: round(washSaleCandidates.reduce((sum, candidate) => sum + candidate.disallowedLossEstimate, 0))
+    },
+    realizedByYear: Object.fromEntries(
+      Object.entries(realizedByYear).map(([year, totals]) => [year, roundTotals(totals)])
+    ),
+    warnings
+  };
+}
+
+export interface SellTaxEstimate {
+  symbol: string;
+  quantity: number;
+  uncoveredQuantity: number;   // Shares the known lots don't cover
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  lots: Array<{ lotId: string; acquiredAt: string; quantity: number; gain: number; term: HoldingTerm }>;
+  washSaleRisk: boolean;       // Loss sale while shares bought in the last 30 days stay open
+}
+
+/**
+ * Estimated realized gain of selling quantity shares now, closing any selected
+ * lots first and then lots in the report's method order (specific-ID falls back to FIFO)
+ */
+export function estimateSellTaxImpact(
+  report: TaxLotReport,
+  symbol: string,
+  quantity: number,
+  price: number,
+  asOf: string = new Date().toISOString(),
+  selection: TaxLotSelection[] = []
+): SellTaxEstimate {
+  const normalized = normalizeTaxSymbol(symbol);
+  const position = report.positions.find(candidate => candidate.symbol === normalized);
+  const estimate: SellTaxEstimate = {
+    symbol: normalized,
+    quantity: 0,
+    uncoveredQuantity: 0,
+    proceeds: 0,
+    costBasis: 0,
+    gain: 0,
+    shortTermGain: 0,
+    longTermGain: 0,
+    lots: [],
+    washSaleRisk: false
+  };
+
+  let remaining = quantity;
+  const soldLotIds = new Set<string>();
+  const openLots = position?.openLots ?? [];
+  const lotsToSell = [
+    ...selection.map(selected => {
+      const lot = openLots.find(candidate => candidate.lotId === selected.lotId);
+      return lot ? { ...lot, quantity: Math.min(lot.quantity, selected.quantity) } : null;
+    }).filter((lot): lot is OpenTaxLot => lot !== null),
+    ...orderLotsForSale(openLots, report.method).map(lot => {
+      const selected = selection.find(candidate => candidate.lotId === lot.lotId);
+      return { ...lot, quantity: lot.quantity - Math.min(lot.quantity, selected?.quantity ?? 0) };
+    })
+  ];
+  const soldByLot = new Map<string, number>();
+
+  for (const lot of lotsToSell) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    if (lot.quantity <= QUANTITY_EPSILON) continue;
+    const sold = Math.min(remaining, lot.quantity);
+    const term = getHoldingTerm(lot.acquiredAt, asOf);
+    const gain = sold * (price - lot.costPerShare);
+
+    estimate.quantity += sold;
+    estimate.proceeds += sold * price;
+    estimate.costBasis += sold * lot.costPerShare;
+    estimate.gain += gain;
+    if (term === HOLDING_TERM.LONG) {
+      estimate.longTermGain += gain;
+    } else {
+      estimate.shortTermGain += gain;
+    }
+    estimate.lots.push({ lotId: lot.lotId, acquiredAt: lot.acquiredAt, quantity: round(sold, 6), gain: round(gain), term });
+    soldByLot.set(lot.lotId, (soldByLot.get(lot.lotId) ?? 0) + sold);
+    remaining -= sold;
+  }
+  openLots.forEach(lot => {
+    if ((soldByLot.get(lot.lotId) ?? 0) >= lot.quantity - QUANTITY_EPSILON) soldLotIds.add(lot.lotId);
+  });
+
+  const windowStart = new Date(asOf).getTime() - WASH_SALE_WINDOW_DAYS * DAY_MS;
+  estimate.washSaleRisk = estimate.gain < 0 && (position?.openLots ?? []).some(lot =>
+    !soldLotIds.has(lot.lotId) && Date.parse(lot.acquiredAt) >= windowStart
+  );
+  estimate.uncoveredQuantity = round(Math.max(0, remaining), 6);
+  estimate.quantity = round(estimate.quantity, 6);
+  estimate.proceeds = round(estimate.proceeds);
+  estimate.costBasis = round(estimate.costBasis);
+  estimate.gain = round(estimate.gain);
+  estimate.shortTermGain = round(estimate.shortTermGain);
+  estimate.longTermGain = round(estimate.longTermGain);
+  return estimate;
+}
+
+export interface OrderTaxImplication {
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  quantity: number;
+  estimatedGain: number | null;
+  shortTermGain: number | null;
+  longTermGain: number | null;
+  washSaleRisk: boolean;
+  washSaleWindowEndsAt: string | null;
+  lots?: SellTaxEstimate['lots'];
+}
+
+export interface RebalanceTaxImplications {
+  method: TaxLotMethod;
+  estimatedAt: string;
+  orders: OrderTaxImplication[];
+  totals: TaxGainTotals & { washSaleWarnings: number };
+  realizedYearToDate: TaxGainTotals;
+}
+
+/**
+ * Estimated tax effect of rebalance actions: realized gains of SELLs and
+ * wash-sale exposure of BUYs that repurchase into a recent loss sale
+ */
+export function buildRebalanceTaxImplications(
+  report: TaxLotReport,
+  actions: Array<{
+    ticker: string;
+    action: string;
+    shareChange?: number;
+    dollarAmount?: number;
+    currentPrice?: number;
+    taxLotSelection?: TaxLotSelection[];
+  }>,
+  asOf: string = new Date().toISOString()
+): RebalanceTaxImplications {
+  const orders: OrderTaxImplication[] = [];
+
+  for (const action of actions) {
+    if (action.action !== 'BUY' && action.action !== 'SELL') continue;
+    const position = report.positions.find(candidate => candidate.symbol === normalizeTaxSymbol(action.ticker));
+    const price = toFinite(action.currentPrice) ?? position?.currentPrice ?? null;
+    const quantity = Math.abs(toFinite(action.shareChange) ?? 0) ||
+      (price ? (toFinite(action.dollarAmount) ?? 0) / price : 0);
+
+    if (action.action === 'SELL' && price) {
+      const estimate = estimateSellTaxImpact(report, action.ticker, quantity, price, asOf, action.taxLotSelection);
+      orders.push({
+        ticker: action.ticker,
+        action: 'SELL',
+        quantity: round(quantity, 6),
+        estimatedGain: estimate.gain,
+        shortTermGain: estimate.shortTermGain,
+        longTermGain: estimate.longTermGain,
+        washSaleRisk: estimate.washSaleRisk,
+        washSaleWindowEndsAt: null,
+        lots: estimate.lots
+      });
+    } else {
+      const windowEndsAt = action.action === 'BUY' ? position?.washSaleWindowEndsAt ?? null : null;
+      orders.push({
+        ticker: action.ticker,
+        action: action.action,
+        quantity: round(quantity, 6),
+        estimatedGain: null,
+        shortTermGain: null,
+        longTermGain: null,
+        washSaleRisk: !!windowEndsAt,
+        washSaleWindowEndsAt: windowEndsAt
+      });
+    }
+  }
+
+  const totals = orders.reduce((sum, order) => ({
+    shortTerm: sum.shortTerm + (order.shortTermGain ?? 0),
+    longTerm: sum.longTerm + (order.longTermGain ?? 0),
+    total: sum.total + (order.estimatedGain ?? 0),
+    washSaleWarnings: sum.washSaleWarnings + (order.washSaleRisk ? 1 : 0)
+  }), { shortTerm: 0, longTerm: 0, total: 0, washSaleWarnings: 0 });
+
+  return {
+    method: report.method,
+    estimatedAt: asOf,
+    orders,
+    totals: { ...roundTotals(totals), washSaleWarnings: totals.washSaleWarnings },
+    realizedYearToDate: report.realizedByYear[asOf.slice(0, 4)] ?? emptyTotals()
+  };
+}
+
+/**
+ * Specific-ID lot selections recorded on sell orders, keyed by Alpaca order id
+ */
+export async function loadTaxLotSelections(supabase: any, userId: string): Promise<Record<string, TaxLotSelection[]>> {
+  const { data, error } = await supabase
+    .from('trading_actions')
+    .select('metadata')
+    .eq('user_id', userId)
+    .eq('action', 'SELL')
+    .not('metadata->tax_lot_selection', 'is', null);
+
+  if (error) {
+    console.warn('⚠️ Failed to load tax lot selections:', error.message);
+    return {};
+  }
+
+  const selections: Record<string, TaxLotSelection[]> = {};
+  for (const row of data || []) {
+    const orderId = row.metadata?.alpaca_order?.id;
+    const lots = row.metadata?.tax_lot_selection;
+    if (!orderId || !Array.isArray(lots)) continue;
+    selections[orderId] = lots
+      .filter((lot: any) => typeof lot?.lotId === 'string' && Number(lot.quantity) > 0)
+      .map((lot: any) => ({ lotId: lot.lotId, quantity: Number(lot.quantity) }));
+  }
+  return selections;
+}
+
+/**
+ * Fetches the account's fill history from its broker and builds the tax lot
+ * report with the user's lot method
+ */
+export async function loadTaxLotReport(
+  supabase: any,
+  userId: string,
+  apiSettings: any,
+  positions: TaxLotPositionInput[]
+): Promise<TaxLotReport> {
+  const broker = createBroker(apiSettings);
+
+  const [activities, lotSelections] = await Promise.all([
+    broker.getActivities([FILL_ACTIVITY_TYPE], {
+      direction: 'asc',
+      pageSize: FILL_ACTIVITY_PAGE_SIZE,
+      maxPages: MAX_FILL_ACTIVITY_PAGES
+    }),
+    loadTaxLotSelections(supabase, userId)
+  ]);
+
+  const report = buildTaxLotReport(normalizeFillActivities(activities), {
+    method: resolveTaxLotMethod(apiSettings),
+    positions,
+    lotSelections
+  });
+
+  if (activities.length >= MAX_FILL_ACTIVITY_PAGES * FILL_ACTIVITY_PAGE_SIZE) {
+    report.warnings.unshift(`Only the first ${activities.length} fills were read; later lots may be incomplete`);
+  }
+  return report;
+}
@@ -0,0 +1,278 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateADX,
+  calculateAnchoredVWAP,
+  calculateCCI,
+  calculateIchimoku,
+  calculateKeltnerChannels,
+  calculateMFI,
+  calculateParabolicSAR,
+  calculatePivotPoints,
+  calculateVolumeProfile,
+  calculateVWAP,
+  calculateWilliamsR,
+  type HistoricalPrice
+} from './technicalIndicators.ts';
+
+// Expected values are worked out by hand from each indicator's textbook
+// definition on short series, with the steps noted next to the assertions.
+
+const bar = (date: string, high: number, low: number, close: number, volume: number): HistoricalPrice => ({
+  date,
+  open: close,
+  high,
+  low,
+  close,
+  volume
+});
+
+describe('calculateADX', () => {
+  it('reads a steady uptrend as a full-strength trend', () => {
+    // Every bar: +DM 1, -DM 0, TR max(1, 1.5, 0.5) = 1.5
+    const high = Array.from({ length: 10 }, (_, i) => i + 1);
+    const low = Array.from({ length: 10 }, (_, i) => i);
+    const close = Array.from({ length: 10 }, (_, i) => i + 0.5);
+
+    const { adx, plusDI, minusDI } = calculateADX(high, low, close, 3);
+
+    expect(plusDI[2]).toBeNaN();
+    expect(plusDI[3]).toBeCloseTo(66.6667, 4);
+    expect(minusDI[3]).toBe(0);
+    expect(adx[4]).toBeNaN();
+    expect(adx[5]).toBeCloseTo(100, 6);
+    expect(adx[9]).toBeCloseTo(100, 6);
+  });
+
+  it('applies Wilder smoothing to the directional movement', () => {
+    const high = [10, 11, 12, 11.5, 13, 12, 14, 13.5];
+    const low = [9, 9.5, 10.5, 10, 11, 10.5, 12, 12.5];
+    const close = [9.5, 10.5, 11.5, 10.5, 12.5, 11, 13.5, 13];
+
+    const { adx, plusDI, minusDI } = calculateADX(high, low, close, 3);
+
+    // Bar 3: TR 4.5, +DM 2, -DM 0.5 summed over bars 1-3
+    expect(plusDI[3]).toBeCloseTo(44.4444, 4);
+    expect(minusDI[3]).toBeCloseTo(11.1111, 4);
+    // Bar 4: TR 4.5 - 1.5 + 2.5 = 5.5, +DM 2 - 2/3 + 1.5, -DM 0.5 - 0.5/3
+    expect(plusDI[4]).toBeCloseTo(51.5152, 4);
+    expect(minusDI[4]).toBeCloseTo(6.0606, 4);
+    // First ADX averages DX 60, 78.9474 and 44.6809, then (prev * 2 + DX) / 3
+    expect(adx[5]).toBeCloseTo(61.2094, 4);
+    expect(adx[6]).toBeCloseTo(65.5587, 4);
+    expect(adx[7]).toBeCloseTo(68.4583, 4);
+  });
+});
+
+describe('calculateIchimoku', () => {
+  const high = [3, 5, 4, 6, 8, 7];
+  const low = [1, 2, 2, 3, 5, 4];
+  const close = [2, 4, 3, 5, 7, 6];
+  const { tenkan, kijun, senkouA, senkouB, chikou } = calculateIchimoku(high, low, close, 2, 3, 4, 2);
+
+  it('takes the midpoint of the trailing high and low', () => {
+    expect(tenkan[0]).toBeNaN();
+    expect(tenkan[1]).toBe(3);     // (5 + 1) / 2
+    expect(tenkan[4]).toBe(5.5);   // (8 + 3) / 2
+    expect(kijun[1]).toBeNaN();
+    expect(kijun[2]).toBe(3);      // (5 + 1) / 2
+    expect(kijun[5]).toBe(5.5);    // (8 + 3) / 2
+  });
+
+  it('shifts the leading spans forward and the lagging span back', () => {
+    expect(senkouA[3]).toBeNaN();  // kijun of bar 1 is not formed yet
+    expect(senkouA[4]).toBe(3.25); // (tenkan 3.5 + kijun 3) / 2 from bar 2
+    expect(senkouA[5]).toBe(4);    // (tenkan 4 + kijun 4) / 2 from bar 3
+    expect(senkouB[4]).toBeNaN();
+    expect(senkouB[5]).toBe(3.5);  // (6 + 1) / 2 over bars 0-3
+    expect(chikou[0]).toBe(3);
+    expect(chikou[3]).toBe(6);
+    expect(chikou[4]).toBeNaN();
+  });
+});
+
+describe('calculateVWAP', () => {
+  it('uses a rolling window over daily bars', () => {
+    const data = [
+      bar('2024-01-02', 10, 10, 10, 1),
+      bar('2024-01-03', 20, 20, 20, 3),
+      bar('2024-01-04', 30, 30, 30, 1)
+    ];
+
+    const vwap = calculateVWAP(data, 2);
+
+    expect(vwap[0]).toBeNaN();
+    expect(vwap[1]).toBe(17.5);    // (10 * 1 + 20 * 3) / 4
+    expect(vwap[2]).toBe(22.5);    // (20 * 3 + 30 * 1) / 4
+  });
+
+  it('resets at each session for intraday bars', () => {
+    const data = [
+      bar('2024-01-02', 10, 10, 10, 1),
+      bar('2024-01-02', 20, 20, 20, 1),
+      bar('2024-01-03', 30, 30, 30, 1),
+      bar('2024-01-03', 40, 40, 40, 3)
+    ];
+
+    expect(calculateVWAP(data)).toEqual([10, 15, 30, 37.5]);
+  });
+});
+
+describe('calculateAnchoredVWAP', () => {
+  it('anchors at whichever extreme came first', () => {
+    const data = [
+      bar('2024-01-02', 12, 10, 11, 100),
+      bar('2024-01-03', 11, 8, 9, 100),    // lowest low
+      bar('2024-01-04', 15, 12, 15, 300),  // highest high
+      bar('2024-01-05', 14, 12, 13, 200)
+    ];
+
+    const { values, anchorIndex } = calculateAnchoredVWAP(data);
+
+    expect(anchorIndex).toBe(1);
+    expect(values[0]).toBeNaN();
+    expect(values[1]).toBeCloseTo(28 / 3, 10);
+    // (28 / 3 * 100 + 14 * 300) / 400
+    expect(values[2]).toBeCloseTo(12.8333, 4);
+    // (28 / 3 * 100 + 14 * 300 + 13 * 200) / 600
+    expect(values[3]).toBeCloseTo(12.8889, 4);
+  });
+});
+
+describe('calculateKeltnerChannels', () => {
+  it('places the bands two ATRs from the EMA', () => {
+    const close = [10, 10, 10, 10];
+    const high = close.map(c => c + 1);
+    const low = close.map(c => c - 1);
+
+    const { upper, middle, lower } = calculateKeltnerChannels(high, low, close, 3, 2, 2);
+
+    expect(middle).toEqual([10, 10, 10, 10]);
+    expect(upper[1]).toBeNaN();    // no full ATR period yet
+    expect(upper[2]).toBe(14);     // TR is 2 on every bar
+    expect(lower[3]).toBe(6);
+  });
+});
+
+describe('calculateCCI', () => {
+  it('scales the distance from the mean by 0.015 times the mean deviation', () => {
+    // High, low and close are equal, so the typical price is the close
+    const close = [1, 2, 3, 4, 1];
+
+    const cci = calculateCCI(close, close, close, 3);
+
+    expect(cci[1]).toBeNaN();
+    // (3 - 2) / (0.015 * 2/3)
+    expect(cci[2]).toBeCloseTo(100, 8);
+    expect(cci[3]).toBeCloseTo(100, 8);
+    // (1 - 8/3) / (0.015 * 10/9)
+    expect(cci[4]).toBeCloseTo(-100, 8);
+  });
+
+  it('returns zero when prices do not move', () => {
+    const close = [5, 5, 5];
+    expect(calculateCCI(close, close, close, 3)[2]).toBe(0);
+  });
+});
+
+describe('calculateMFI', () => {
+  it('compares positive and negative money flow over the period', () => {
+    const close = [10, 11, 10, 12];
+    const volume = [100, 100, 200, 100];
+
+    const mfi = calculateMFI(close, close, close, volume, 3);
+
+    expect(mfi[2]).toBeNaN();
+    // Positive flow 11 * 100 + 12 * 100, negative flow 10 * 200
+    expect(mfi[3]).toBeCloseTo(100 - 100 / (1 + 2300 / 2000), 8);
+    expect(mfi[3]).toBeCloseTo(53.4884, 4);
+  });
+
+  it('reads 100 when every bar closes higher', () => {
+    const close = [1, 2, 3, 4];
+    expect(calculateMFI(close, close, close, [1, 1, 1, 1], 3)[3]).toBe(100);
+  });
+});
+
+describe('calculateWilliamsR', () => {
+  it('measures the close against the trailing range', () => {
+    const high = [10, 12, 11, 13];
+    const low = [8, 9, 9, 10];
+    const close = [9, 11, 10, 12];
+
+    const williamsR = calculateWilliamsR(high, low, close, 3);
+
+    expect(williamsR[1]).toBeNaN();
+    expect(williamsR[2]).toBe(-50);  // (12 - 10) / (12 - 8) * -100
+    expect(williamsR[3]).toBe(-25);  // (13 - 12) / (13 - 9) * -100
+  });
+
+  it('returns the midpoint for a flat range', () => {
+    const flat = [5, 5, 5];
+    expect(calculateWilliamsR(flat, flat, flat, 3)[2]).toBe(-50);
+  });
+});
+
+describe('calculateParabolicSAR', () => {
+  it('accelerates through an uptrend and flips on a break', () => {
+    const high = [10, 11, 12, 13, 14, 13.5];
+    const low = [9, 10, 11, 12, 13, 9];
+    const close = [9.5, 10.5, 11.5, 12.5, 13.5, 9.5];
+
+    const sar = calculateParabolicSAR(high, low, close);
+
+    expect(sar[0]).toBeNaN();
+    expect(sar[1]).toBe(9);                    // lowest low of the first two bars
+    expect(sar[2]).toBe(9);                    // 9.04 held below the low two bars back
+    expect(sar[3]).toBeCloseTo(9.12, 10);      // 9 + 0.04 * (12 - 9)
+    expect(sar[4]).toBeCloseTo(9.3528, 10);    // 9.12 + 0.06 * (13 - 9.12)
+    // 9.7246 is above the low of 9, so the trend flips and SAR jumps to the high of 14
+    expect(sar[5]).toBe(14);
+  });
+});
+
+describe('calculatePivotPoints', () => {
+  it('builds classic floor pivots from the previous session', () => {
+    const data = [
+      bar('2024-01-02', 12, 10, 11, 100),
+      bar('2024-01-02', 14, 9, 13, 100),
+      bar('2024-01-03', 20, 1, 5, 100)
+    ];
+
+    // Previous session: high 14, low 9, close 13, so the pivot is 12
+    expect(calculatePivotPoints(data)).toEqual({
+      basis_date: '2024-01-02',
+      pivot: 12,
+      r1: 15,
+      r2: 17,
+      r3: 20,
+      s1: 10,
+      s2: 7,
+      s3: 5
+    });
+  });
+
+  it('needs a completed session', () => {
+    expect(calculatePivotPoints([bar('2024-01-02', 12, 10, 11, 100)])).toBeNull();
+  });
+});
+
+describe('calculateVolumeProfile', () => {
+  it('finds the point of control and grows the value area from it', () => {
+    const data = [
+      bar('2024-01-02', 4, 0, 2, 400),     // 100 in each of the four bins
+      bar('2024-01-03', 2, 1, 1.5, 300)    // all in the 1-2 bin
+    ];
+
+    const profile = calculateVolumeProfile(data, 4);
+
+    expect(profile?.bins.map(bin => bin.volume)).toEqual([100, 400, 100, 100]);
+    expect(profile?.poc).toBe(1.5);
+    // 400 is short of 70% of 700; the tie between neighbours goes up to reach 500
+    expect(profile?.value_area_low).toBe(1);
+    expect(profile?.value_area_high).toBe(3);
+  });
+
+  it('returns null without a price range', () => {
+    expect(calculateVolumeProfile([bar('2024-01-02', 5, 5, 5, 100)])).toBeNull();
+  });
+});
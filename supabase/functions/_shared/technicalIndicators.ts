@@ -47,12 +47,141 @@ export interface TechnicalIndicators {
   // Support/Resistance Levels
   support_levels: number[];
   resistance_levels: number[];
+  
+  // Trend Strength (ADX / DMI)
+  adx: number[];
+  plus_di: number[];
+  minus_di: number[];
+  
+  // Ichimoku Cloud - leading spans sit on the bar they are plotted at (26 ahead of
+  // the bar they were computed on), the lagging span 26 bars back
+  ichimoku_tenkan: number[];
+  ichimoku_kijun: number[];
+  ichimoku_senkou_a: number[];
+  ichimoku_senkou_b: number[];
+  ichimoku_chikou: number[];
+  
+  // Volume-Weighted Average Price
+  vwap: number[];
+  anchored_vwap: number[];
+  anchored_vwap_anchor: string | null;
+  
+  // Keltner Channels
+  keltner_upper: number[];
+  keltner_middle: number[];
+  keltner_lower: number[];
+  
+  // Oscillators
+  cci: number[];
+  mfi: number[];
+  williams_r: number[];
+  
+  // Parabolic SAR
+  parabolic_sar: number[];
+  
+  // Price Levels
+  pivot_points: PivotPoints | null;
+  volume_profile: VolumeProfile | null;
+}
+
+export interface PivotPoints {
+  basis_date: string;
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+}
+
+export interface VolumeProfileBin {
+  price_low: number;
+  price_high: number;
+  volume: number;
+}
+
+export interface VolumeProfile {
+  bins: VolumeProfileBin[];
+  poc: number;
+  value_area_high: number;
+  value_area_low: number;
+}
+
+/**
+ * Indicator groups users can pick for the Market Analyst prompt
+ * (api_settings.analysis_indicators). Every group is calculated and cached;
+ * the selection only decides what formatIndicatorsForAI writes out.
+ */
+export const INDICATOR_SET = {
+  MOVING_AVERAGES: 'moving_averages' as const,
+  MACD: 'macd' as const,
+  RSI: 'rsi' as const,
+  STOCHASTIC: 'stochastic' as const,
+  BOLLINGER: 'bollinger' as const,
+  ATR: 'atr' as const,
+  VOLUME: 'volume' as const,
+  SUPPORT_RESISTANCE: 'support_resistance' as const,
+  ADX: 'adx' as const,
+  ICHIMOKU: 'ichimoku' as const,
+  VWAP: 'vwap' as const,
+  KELTNER: 'keltner' as const,
+  CCI: 'cci' as const,
+  MFI: 'mfi' as const,
+  WILLIAMS_R: 'williams_r' as const,
+  PARABOLIC_SAR: 'parabolic_sar' as const,
+  PIVOT_POINTS: 'pivot_points' as const,
+  VOLUME_PROFILE: 'volume_profile' as const
+} as const;
+
+export type IndicatorSetKey = typeof INDICATOR_SET[keyof typeof INDICATOR_SET];
+
+export const INDICATOR_SET_LABELS: Record<IndicatorSetKey, string> = {
+  [INDICATOR_SET.MOVING_AVERAGES]: 'Moving Averages',
+  [INDICATOR_SET.MACD]: 'MACD',
+  [INDICATOR_SET.RSI]: 'RSI',
+  [INDICATOR_SET.STOCHASTIC]: 'Stochastic',
+  [INDICATOR_SET.BOLLINGER]: 'Bollinger Bands',
+  [INDICATOR_SET.ATR]: 'ATR',
+  [INDICATOR_SET.VOLUME]: 'Volume & OBV',
+  [INDICATOR_SET.SUPPORT_RESISTANCE]: 'Support/Resistance',
+  [INDICATOR_SET.ADX]: 'ADX/DMI',
+  [INDICATOR_SET.ICHIMOKU]: 'Ichimoku Cloud',
+  [INDICATOR_SET.VWAP]: 'VWAP & Anchored VWAP',
+  [INDICATOR_SET.KELTNER]: 'Keltner Channels',
+  [INDICATOR_SET.CCI]: 'CCI',
+  [INDICATOR_SET.MFI]: 'MFI',
+  [INDICATOR_SET.WILLIAMS_R]: 'Williams %R',
+  [INDICATOR_SET.PARABOLIC_SAR]: 'Parabolic SAR',
+  [INDICATOR_SET.PIVOT_POINTS]: 'Pivot Points',
+  [INDICATOR_SET.VOLUME_PROFILE]: 'Volume Profile'
+};
+
+// What the prompt carried before the selection existed
+export const DEFAULT_INDICATOR_SET: IndicatorSetKey[] = [
+  INDICATOR_SET.MOVING_AVERAGES,
+  INDICATOR_SET.MACD,
+  INDICATOR_SET.RSI,
+  INDICATOR_SET.BOLLINGER,
+  INDICATOR_SET.ATR,
+  INDICATOR_SET.VOLUME,
+  INDICATOR_SET.SUPPORT_RESISTANCE
+];
+
+/**
+ * Valid indicator groups from a stored selection, falling back to the default set
+ */
+export function resolveIndicatorSet(selection: unknown): IndicatorSetKey[] {
+  if (!Array.isArray(selection)) return DEFAULT_INDICATOR_SET;
+  const valid = Object.values(INDICATOR_SET) as string[];
+  const resolved = selection.filter((key): key is IndicatorSetKey => typeof key === 'string' && valid.includes(key));
+  return resolved.length > 0 ? resolved : DEFAULT_INDICATOR_SET;
 }
 
 /**
  * Fetches historical stock data from Alpaca with daily caching
  * @param symbol Stock ticker symbol
- * @param period Time period ('1M', '3M', '6M', '1Y')
+ * @param period Time period ('1M', '3M', '6M', '1Y', or '2Y' for weekly bars)
  * @param supabase Supabase client for caching
  */
 export async function fetchAlpacaHistoricalData(
@@ -78,7 +207,8 @@ export async function fetchAlpacaHistoricalData(
       '1M': { days: 30, timeframe: '1Hour' },    // 1 month: hourly data
       '3M': { days: 90, timeframe: '4Hour' },    // 3 months: 4-hour data  
       '6M': { days: 180, timeframe: '1Day' },    // 6 months: daily data
-      '1Y': { days: 365, timeframe: '1Day' }     // 1 year: daily data
+      '1Y': { days: 365, timeframe: '1Day' },    // 1 year: daily data
+      '2Y': { days: 730, timeframe: '1Week' }    // 2 years: weekly data (multi-timeframe trend)
     };
     
     const config = periodConfig[period as keyof typeof periodConfig] || { days: 365, timeframe: '1Day' };
@@ -166,6 +296,7 @@ export async function fetchAlpacaHistoricalData(
         const cryptoTimeframe =
           config.timeframe === '1Hour' ? '1Hour' :
           config.timeframe === '4Hour' ? '4Hour' :
+          config.timeframe === '1Week' ? '1Week' :
           '1Day';
 
         for (const candidate of cryptoCandidates) {
@@ -260,7 +391,7 @@ export async function fetchAlpacaHistoricalData(
 /**
  * Calculate Simple Moving Average
  */
-function calculateSMA(prices: number[], period: number): number[] {
+export function calculateSMA(prices: number[], period: number): number[] {
   const sma: number[] = [];
   
   for (let i = 0; i < prices.length; i++) {
@@ -278,7 +409,7 @@ function calculateSMA(prices: number[], period: number): number[] {
 /**
  * Calculate Exponential Moving Average
  */
-function calculateEMA(prices: number[], period: number): number[] {
+export function calculateEMA(prices: number[], period: number): number[] {
   const ema: number[] = [];
   const multiplier = 2 / (period + 1);
   
@@ -295,7 +426,7 @@ function calculateEMA(prices: number[], period: number): number[] {
 /**
  * Calculate RSI (Relative Strength Index)
  */
-function calculateRSI(prices: number[], period: number = 14): number[] {
+export function calculateRSI(prices: number[], period: number = 14): number[] {
   const rsi: number[] = [];
   const gains: number[] = [];
   const losses: number[] = [];
@@ -330,7 +461,7 @@ function calculateRSI(prices: number[], period: number = 14): number[] {
 /**
  * Calculate MACD (Moving Average Convergence Divergence)
  */
-function calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+export function calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
   const emaFast = calculateEMA(prices, fastPeriod);
   const emaSlow = calculateEMA(prices, slowPeriod);
   
@@ -352,7 +483,7 @@ function calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: nu
 /**
  * Calculate Bollinger Bands
  */
-function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2) {
+export function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2) {
   const sma = calculateSMA(prices, period);
   const upper: number[] = [];
   const lower: number[] = [];
@@ -382,7 +513,7 @@ function calculateBollingerBands(prices: number[], period: number = 20, stdDev:
 /**
  * Calculate Average True Range (ATR)
  */
-function calculateATR(high: number[], low: number[], close: number[], period: number = 14): number[] {
+export function calculateATR(high: number[], low: number[], close: number[], period: number = 14): number[] {
   const trueRanges: number[] = [];
   
   for (let i = 1; i < high.length; i++) {
@@ -393,16 +524,14 @@ function calculateATR(high: number[], low: number[], close: number[], period: nu
     trueRanges.push(Math.max(hl, hc, lc));
   }
   
-  const atr = [NaN]; // First value is NaN
-  atr.push(...calculateSMA(trueRanges, period).slice(period - 1));
-  
-  return atr;
+  // First bar has no true range; keep the result aligned with the price bars
+  return [NaN, ...calculateSMA(trueRanges, period)];
 }
 
 /**
  * Calculate Stochastic Oscillator
  */
-function calculateStochastic(high: number[], low: number[], close: number[], kPeriod: number = 14, dPeriod: number = 3) {
+export function calculateStochastic(high: number[], low: number[], close: number[], kPeriod: number = 14, dPeriod: number = 3) {
   const k: number[] = [];
   
   for (let i = 0; i < close.length; i++) {
@@ -428,7 +557,7 @@ function calculateStochastic(high: number[], low: number[], close: number[], kPe
 /**
  * Calculate On-Balance Volume (OBV)
  */
-function calculateOBV(close: number[], volume: number[]): number[] {
+export function calculateOBV(close: number[], volume: number[]): number[] {
   const obv: number[] = [volume[0]];
   
   for (let i = 1; i < close.length; i++) {
@@ -447,7 +576,7 @@ function calculateOBV(close: number[], volume: number[]): number[] {
 /**
  * Identify support and resistance levels
  */
-function findSupportResistance(high: number[], low: number[], close: number[]): { support: number[], resistance: number[] } {
+export function findSupportResistance(high: number[], low: number[], close: number[]): { support: number[], resistance: number[] } {
   const levels: number[] = [];
   const window = 10; // Look at 10 periods on each side
   
@@ -489,6 +618,403 @@ function findSupportResistance(high: number[], low: number[], close: number[]):
   return { support, resistance };
 }
 
+/**
+ * Calculate ADX with the directional indicators (+DI / -DI) using Wilder's smoothing
+ */
+export function calculateADX(high: number[], low: number[], close: number[], period: number = 14) {
+  const length = close.length;
+  const adx: number[] = new Array(length).fill(NaN);
+  const plusDI: number[] = new Array(length).fill(NaN);
+  const minusDI: number[] = new Array(length).fill(NaN);
+  
+  if (length <= period) {
+    return { adx, plusDI, minusDI };
+  }
+  
+  const trueRanges: number[] = [0];
+  const plusDM: number[] = [0];
+  const minusDM: number[] = [0];
+  
+  for (let i = 1; i < length; i++) {
+    const upMove = high[i] - high[i - 1];
+    const downMove = low[i - 1] - low[i];
+    
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+    trueRanges.push(Math.max(high[i] - low[i], Math.abs(high[i] - close[i - 1]), Math.abs(low[i] - close[i - 1])));
+  }
+  
+  // Wilder's running sums, seeded with the first full period
+  let smoothedTR = 0;
+  let smoothedPlusDM = 0;
+  let smoothedMinusDM = 0;
+  for (let i = 1; i <= period; i++) {
+    smoothedTR += trueRanges[i];
+    smoothedPlusDM += plusDM[i];
+    smoothedMinusDM += minusDM[i];
+  }
+  
+  const dx: number[] = new Array(length).fill(NaN);
+  
+  for (let i = period; i < length; i++) {
+    if (i > period) {
+      smoothedTR = smoothedTR - (smoothedTR / period) + trueRanges[i];
+      smoothedPlusDM = smoothedPlusDM - (smoothedPlusDM / period) + plusDM[i];
+      smoothedMinusDM = smoothedMinusDM - (smoothedMinusDM / period) + minusDM[i];
+    }
+    
+    plusDI[i] = smoothedTR === 0 ? 0 : (smoothedPlusDM / smoothedTR) * 100;
+    minusDI[i] = smoothedTR === 0 ? 0 : (smoothedMinusDM / smoothedTR) * 100;
+    
+    const diSum = plusDI[i] + minusDI[i];
+    dx[i] = diSum === 0 ? 0 : (Math.abs(plusDI[i] - minusDI[i]) / diSum) * 100;
+  }
+  
+  // First ADX is the average DX of one period, then Wilder-smoothed
+  const firstADX = 2 * period - 1;
+  if (firstADX < length) {
+    adx[firstADX] = dx.slice(period, firstADX + 1).reduce((a, b) => a + b, 0) / period;
+    for (let i = firstADX + 1; i < length; i++) {
+      adx[i] = ((adx[i - 1] * (period - 1)) + dx[i]) / period;
+    }
+  }
+  
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * Midpoint of the highest high and lowest low over the trailing period
+ */
+export function calculateDonchianMidpoint(high: number[], low: number[], period: number): number[] {
+  return high.map((_, i) => {
+    if (i < period - 1) return NaN;
+    const highestHigh = Math.max(...high.slice(i - period + 1, i + 1));
+    const lowestLow = Math.min(...low.slice(i - period + 1, i + 1));
+    return (highestHigh + lowestLow) / 2;
+  });
+}
+
+/**
+ * Calculate Ichimoku Cloud (9/26/52). Leading spans are shifted forward and the
+ * lagging span back by the displacement so every series lines up with the bar
+ * it is drawn at.
+ */
+export function calculateIchimoku(
+  high: number[],
+  low: number[],
+  close: number[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  spanBPeriod: number = 52,
+  displacement: number = 26
+) {
+  const tenkan = calculateDonchianMidpoint(high, low, conversionPeriod);
+  const kijun = calculateDonchianMidpoint(high, low, basePeriod);
+  const spanBSource = calculateDonchianMidpoint(high, low, spanBPeriod);
+  
+  const senkouA = close.map((_, i) => {
+    const source = i - displacement;
+    return source < 0 ? NaN : (tenkan[source] + kijun[source]) / 2;
+  });
+  const senkouB = close.map((_, i) => (i - displacement < 0 ? NaN : spanBSource[i - displacement]));
+  const chikou = close.map((_, i) => (i + displacement < close.length ? close[i + displacement] : NaN));
+  
+  return { tenkan, kijun, senkouA, senkouB, chikou };
+}
+
+/**
+ * Calculate VWAP. Intraday bars (several per date) reset at each session;
+ * daily bars use a rolling window since a one-bar session VWAP is just the
+ * typical price.
+ */
+export function calculateVWAP(historicalData: HistoricalPrice[], period: number = 20): number[] {
+  const typicalPrices = historicalData.map(d => (d.high + d.low + d.close) / 3);
+  const isIntraday = historicalData.some((d, i) => i > 0 && d.date === historicalData[i - 1].date);
+  const vwap: number[] = [];
+  
+  if (isIntraday) {
+    let cumulativePV = 0;
+    let cumulativeVolume = 0;
+    
+    for (let i = 0; i < historicalData.length; i++) {
+      if (i === 0 || historicalData[i].date !== historicalData[i - 1].date) {
+        cumulativePV = 0;
+        cumulativeVolume = 0;
+      }
+      cumulativePV += typicalPrices[i] * historicalData[i].volume;
+      cumulativeVolume += historicalData[i].volume;
+      vwap.push(cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : typicalPrices[i]);
+    }
+    
+    return vwap;
+  }
+  
+  for (let i = 0; i < historicalData.length; i++) {
+    if (i < period - 1) {
+      vwap.push(NaN);
+      continue;
+    }
+    let pv = 0;
+    let volume = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      pv += typicalPrices[j] * historicalData[j].volume;
+      volume += historicalData[j].volume;
+    }
+    vwap.push(volume > 0 ? pv / volume : typicalPrices[i]);
+  }
+  
+  return vwap;
+}
+
+/**
+ * Calculate VWAP anchored where the period's main move began - whichever of its
+ * highest high and lowest low came first
+ */
+export function calculateAnchoredVWAP(historicalData: HistoricalPrice[]): { values: number[]; anchorIndex: number } {
+  let highIndex = 0;
+  let lowIndex = 0;
+  
+  historicalData.forEach((d, i) => {
+    if (d.high >= historicalData[highIndex].high) highIndex = i;
+    if (d.low <= historicalData[lowIndex].low) lowIndex = i;
+  });
+  
+  const anchorIndex = Math.min(highIndex, lowIndex);
+  const values: number[] = [];
+  let cumulativePV = 0;
+  let cumulativeVolume = 0;
+  
+  for (let i = 0; i < historicalData.length; i++) {
+    if (i < anchorIndex) {
+      values.push(NaN);
+      continue;
+    }
+    const d = historicalData[i];
+    const typicalPrice = (d.high + d.low + d.close) / 3;
+    cumulativePV += typicalPrice * d.volume;
+    cumulativeVolume += d.volume;
+    values.push(cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : typicalPrice);
+  }
+  
+  return { values, anchorIndex };
+}
+
+/**
+ * Calculate Keltner Channels (EMA middle line with ATR bands)
+ */
+export function calculateKeltnerChannels(
+  high: number[],
+  low: number[],
+  close: number[],
+  emaPeriod: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+) {
+  const middle = calculateEMA(close, emaPeriod);
+  const atr = calculateATR(high, low, close, atrPeriod);
+  
+  return {
+    upper: middle.map((m, i) => m + (atr[i] * multiplier)),
+    middle,
+    lower: middle.map((m, i) => m - (atr[i] * multiplier))
+  };
+}
+
+/**
+ * Calculate Commodity Channel Index (CCI)
+ */
+export function calculateCCI(high: number[], low: number[], close: number[], period: number = 20): number[] {
+  const typicalPrices = close.map((c, i) => (high[i] + low[i] + c) / 3);
+  const sma = calculateSMA(typicalPrices, period);
+  
+  return typicalPrices.map((tp, i) => {
+    if (i < period - 1) return NaN;
+    const meanDeviation = typicalPrices
+      .slice(i - period + 1, i + 1)
+      .reduce((sum, value) => sum + Math.abs(value - sma[i]), 0) / period;
+    return meanDeviation === 0 ? 0 : (tp - sma[i]) / (0.015 * meanDeviation);
+  });
+}
+
+/**
+ * Calculate Money Flow Index (MFI)
+ */
+export function calculateMFI(high: number[], low: number[], close: number[], volume: number[], period: number = 14): number[] {
+  const typicalPrices = close.map((c, i) => (high[i] + low[i] + c) / 3);
+  const positiveFlow: number[] = [0];
+  const negativeFlow: number[] = [0];
+  
+  for (let i = 1; i < typicalPrices.length; i++) {
+    const moneyFlow = typicalPrices[i] * volume[i];
+    positiveFlow.push(typicalPrices[i] > typicalPrices[i - 1] ? moneyFlow : 0);
+    negativeFlow.push(typicalPrices[i] < typicalPrices[i - 1] ? moneyFlow : 0);
+  }
+  
+  return typicalPrices.map((_, i) => {
+    if (i < period) return NaN;
+    const positive = positiveFlow.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
+    const negative = negativeFlow.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
+    if (negative === 0) return positive === 0 ? 50 : 100;
+    return 100 - (100 / (1 + positive / negative));
+  });
+}
+
+/**
+ * Calculate Williams %R
+ */
+export function calculateWilliamsR(high: number[], low: number[], close: number[], period: number = 14): number[] {
+  return close.map((c, i) => {
+    if (i < period - 1) return NaN;
+    const highestHigh = Math.max(...high.slice(i - period + 1, i + 1));
+    const lowestLow = Math.min(...low.slice(i - period + 1, i + 1));
+    return highestHigh === lowestLow ? -50 : ((highestHigh - c) / (highestHigh - lowestLow)) * -100;
+  });
+}
+
+/**
+ * Calculate Parabolic SAR
+ */
+export function calculateParabolicSAR(high: number[], low: number[], close: number[], step: number = 0.02, maxStep: number = 0.2): number[] {
+  const sar: number[] = new Array(close.length).fill(NaN);
+  if (close.length < 2) return sar;
+  
+  let isUptrend = close[1] >= close[0];
+  let currentSar = isUptrend ? Math.min(low[0], low[1]) : Math.max(high[0], high[1]);
+  let extremePoint = isUptrend ? Math.max(high[0], high[1]) : Math.min(low[0], low[1]);
+  let accelerationFactor = step;
+  sar[1] = currentSar;
+  
+  for (let i = 2; i < close.length; i++) {
+    currentSar = currentSar + accelerationFactor * (extremePoint - currentSar);
+    
+    if (isUptrend) {
+      // SAR may not move into the prior two bars' range
+      currentSar = Math.min(currentSar, low[i - 1], low[i - 2]);
+      if (low[i] < currentSar) {
+        isUptrend = false;
+        currentSar = extremePoint;
+        extremePoint = low[i];
+        accelerationFactor = step;
+      } else if (high[i] > extremePoint) {
+        extremePoint = high[i];
+        accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+      }
+    } else {
+      currentSar = Math.max(currentSar, high[i - 1], high[i - 2]);
+      if (high[i] > currentSar) {
+        isUptrend = true;
+        currentSar = extremePoint;
+        extremePoint = high[i];
+        accelerationFactor = step;
+      } else if (low[i] < extremePoint) {
+        extremePoint = low[i];
+        accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+      }
+    }
+    
+    sar[i] = currentSar;
+  }
+  
+  return sar;
+}
+
+/**
+ * Calculate classic floor pivot points for the latest session from the session
+ * before it (intraday bars are rolled up by date)
+ */
+export function calculatePivotPoints(historicalData: HistoricalPrice[]): PivotPoints | null {
+  const sessions: { date: string; high: number; low: number; close: number }[] = [];
+  
+  for (const bar of historicalData) {
+    const last = sessions[sessions.length - 1];
+    if (last && last.date === bar.date) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+    } else {
+      sessions.push({ date: bar.date, high: bar.high, low: bar.low, close: bar.close });
+    }
+  }
+  
+  if (sessions.length < 2) return null;
+  
+  const { date, high, low, close } = sessions[sessions.length - 2];
+  const pivot = (high + low + close) / 3;
+  
+  return {
+    basis_date: date,
+    pivot,
+    r1: 2 * pivot - low,
+    r2: pivot + (high - low),
+    r3: high + 2 * (pivot - low),
+    s1: 2 * pivot - high,
+    s2: pivot - (high - low),
+    s3: low - 2 * (high - pivot)
+  };
+}
+
+/**
+ * Build a volume-by-price profile, spreading each bar's volume evenly across
+ * its high-low range, with the point of control and 70% value area
+ */
+export function calculateVolumeProfile(historicalData: HistoricalPrice[], binCount: number = 24, valueAreaShare: number = 0.7): VolumeProfile | null {
+  const minPrice = Math.min(...historicalData.map(d => d.low));
+  const maxPrice = Math.max(...historicalData.map(d => d.high));
+  const binSize = (maxPrice - minPrice) / binCount;
+  
+  if (!isFinite(binSize) || binSize <= 0) return null;
+  
+  const bins: VolumeProfileBin[] = Array.from({ length: binCount }, (_, i) => ({
+    price_low: minPrice + i * binSize,
+    price_high: minPrice + (i + 1) * binSize,
+    volume: 0
+  }));
+  const binIndex = (price: number) => Math.min(binCount - 1, Math.max(0, Math.floor((price - minPrice) / binSize)));
+  
+  for (const bar of historicalData) {
+    const range = bar.high - bar.low;
+    if (range <= 0) {
+      bins[binIndex(bar.close)].volume += bar.volume;
+      continue;
+    }
+    for (let i = binIndex(bar.low); i <= binIndex(bar.high); i++) {
+      const overlap = Math.min(bar.high, bins[i].price_high) - Math.max(bar.low, bins[i].price_low);
+      if (overlap > 0) {
+        bins[i].volume += bar.volume * (overlap / range);
+      }
+    }
+  }
+  
+  const totalVolume = bins.reduce((sum, bin) => sum + bin.volume, 0);
+  if (totalVolume <= 0) return null;
+  
+  const pocIndex = bins.reduce((best, bin, i) => (bin.volume > bins[best].volume ? i : best), 0);
+  
+  // Grow the value area from the POC towards the heavier neighbour
+  let lowIndex = pocIndex;
+  let highIndex = pocIndex;
+  let areaVolume = bins[pocIndex].volume;
+  
+  while (areaVolume < totalVolume * valueAreaShare && (lowIndex > 0 || highIndex < binCount - 1)) {
+    const below = lowIndex > 0 ? bins[lowIndex - 1].volume : -1;
+    const above = highIndex < binCount - 1 ? bins[highIndex + 1].volume : -1;
+    if (above >= below) {
+      highIndex++;
+      areaVolume += bins[highIndex].volume;
+    } else {
+      lowIndex--;
+      areaVolume += bins[lowIndex].volume;
+    }
+  }
+  
+  return {
+    bins,
+    poc: (bins[pocIndex].price_low + bins[pocIndex].price_high) / 2,
+    value_area_high: bins[highIndex].price_high,
+    value_area_low: bins[lowIndex].price_low
+  };
+}
+
 /**
  * Determine which indicators can be calculated based on available data points
  */
@@ -505,25 +1031,25 @@ function getValidIndicators(dataPoints: number): {
     };
   } else if (dataPoints < 30) { // ~1M data
     return {
-      indicators: ['sma_10', 'sma_20', 'ema_12', 'rsi', 'simple_bollinger', 'atr', 'volume_basic'],
+      indicators: ['sma_10', 'sma_20', 'ema_12', 'rsi', 'simple_bollinger', 'atr', 'volume_basic', 'williams_r', 'vwap', 'anchored_vwap', 'parabolic_sar', 'pivot_points', 'volume_profile'],
       minDataRequired: 26,
       timeframeNote: '1M timeframe - basic indicators only'
     };
   } else if (dataPoints < 60) { // ~3M data  
     return {
-      indicators: ['sma_10', 'sma_20', 'sma_50', 'ema_12', 'ema_26', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv'],
+      indicators: ['sma_10', 'sma_20', 'sma_50', 'ema_12', 'ema_26', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'adx', 'keltner', 'cci', 'mfi', 'williams_r', 'vwap', 'anchored_vwap', 'parabolic_sar', 'pivot_points', 'volume_profile'],
       minDataRequired: 50,
       timeframeNote: '3M timeframe - intermediate indicators'
     };
   } else if (dataPoints < 200) { // ~6M data
     return {
-      indicators: ['sma_10', 'sma_20', 'sma_50', 'ema_12', 'ema_26', 'ema_50', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'support_resistance'],
+      indicators: ['sma_10', 'sma_20', 'sma_50', 'ema_12', 'ema_26', 'ema_50', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'support_resistance', 'adx', 'ichimoku', 'keltner', 'cci', 'mfi', 'williams_r', 'vwap', 'anchored_vwap', 'parabolic_sar', 'pivot_points', 'volume_profile'],
       minDataRequired: 50,
       timeframeNote: '6M timeframe - advanced indicators (no SMA200)'
     };
   } else { // 1Y+ data
     return {
-      indicators: ['sma_10', 'sma_20', 'sma_50', 'sma_200', 'ema_12', 'ema_26', 'ema_50', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'support_resistance'],
+      indicators: ['sma_10', 'sma_20', 'sma_50', 'sma_200', 'ema_12', 'ema_26', 'ema_50', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'support_resistance', 'adx', 'ichimoku', 'keltner', 'cci', 'mfi', 'williams_r', 'vwap', 'anchored_vwap', 'parabolic_sar', 'pivot_points', 'volume_profile'],
       minDataRequired: 200,
       timeframeNote: '1Y timeframe - all indicators available'
     };
@@ -570,7 +1096,27 @@ export function calculateTimeframeIndicators(historicalData: HistoricalPrice[],
     volume_sma: [],
     obv: [],
     support_levels: [],
-    resistance_levels: []
+    resistance_levels: [],
+    adx: [],
+    plus_di: [],
+    minus_di: [],
+    ichimoku_tenkan: [],
+    ichimoku_kijun: [],
+    ichimoku_senkou_a: [],
+    ichimoku_senkou_b: [],
+    ichimoku_chikou: [],
+    vwap: [],
+    anchored_vwap: [],
+    anchored_vwap_anchor: null,
+    keltner_upper: [],
+    keltner_middle: [],
+    keltner_lower: [],
+    cci: [],
+    mfi: [],
+    williams_r: [],
+    parabolic_sar: [],
+    pivot_points: null,
+    volume_profile: null
   };
   
   // Calculate only the indicators appropriate for this timeframe
@@ -639,6 +1185,63 @@ export function calculateTimeframeIndicators(historicalData: HistoricalPrice[],
     indicators.resistance_levels = supportResistance.resistance;
   }
   
+  if (validIndicators.indicators.includes('adx')) {
+    const adx = calculateADX(highs, lows, closes);
+    indicators.adx = adx.adx;
+    indicators.plus_di = adx.plusDI;
+    indicators.minus_di = adx.minusDI;
+  }
+  
+  if (validIndicators.indicators.includes('ichimoku')) {
+    const ichimoku = calculateIchimoku(highs, lows, closes);
+    indicators.ichimoku_tenkan = ichimoku.tenkan;
+    indicators.ichimoku_kijun = ichimoku.kijun;
+    indicators.ichimoku_senkou_a = ichimoku.senkouA;
+    indicators.ichimoku_senkou_b = ichimoku.senkouB;
+    indicators.ichimoku_chikou = ichimoku.chikou;
+  }
+  
+  if (validIndicators.indicators.includes('vwap')) {
+    indicators.vwap = calculateVWAP(historicalData);
+  }
+  
+  if (validIndicators.indicators.includes('anchored_vwap')) {
+    const anchored = calculateAnchoredVWAP(historicalData);
+    indicators.anchored_vwap = anchored.values;
+    indicators.anchored_vwap_anchor = historicalData[anchored.anchorIndex].date;
+  }
+  
+  if (validIndicators.indicators.includes('keltner')) {
+    const keltner = calculateKeltnerChannels(highs, lows, closes);
+    indicators.keltner_upper = keltner.upper;
+    indicators.keltner_middle = keltner.middle;
+    indicators.keltner_lower = keltner.lower;
+  }
+  
+  if (validIndicators.indicators.includes('cci')) {
+    indicators.cci = calculateCCI(highs, lows, closes);
+  }
+  
+  if (validIndicators.indicators.includes('mfi')) {
+    indicators.mfi = calculateMFI(highs, lows, closes, volumes);
+  }
+  
+  if (validIndicators.indicators.includes('williams_r')) {
+    indicators.williams_r = calculateWilliamsR(highs, lows, closes);
+  }
+  
+  if (validIndicators.indicators.includes('parabolic_sar')) {
+    indicators.parabolic_sar = calculateParabolicSAR(highs, lows, closes);
+  }
+  
+  if (validIndicators.indicators.includes('pivot_points')) {
+    indicators.pivot_points = calculatePivotPoints(historicalData);
+  }
+  
+  if (validIndicators.indicators.includes('volume_profile')) {
+    indicators.volume_profile = calculateVolumeProfile(historicalData);
+  }
+  
   return {
     ...indicators,
     metadata: {
@@ -661,70 +1264,133 @@ export function calculateAllIndicators(historicalData: HistoricalPrice[]): Techn
   return indicators;
 }
 
+interface IndicatorColumn {
+  set: IndicatorSetKey;
+  header: string;
+  value: (indicators: TechnicalIndicators, data: HistoricalPrice, idx: number) => string;
+}
+
+const seriesValue = (series: number[] | undefined, idx: number, digits: number) => (series?.[idx] || 0).toFixed(digits);
+
+// Table columns in prompt order; the default set reproduces the original layout
+const INDICATOR_COLUMNS: IndicatorColumn[] = [
+  { set: INDICATOR_SET.MOVING_AVERAGES, header: 'SMA20', value: (ind, _, idx) => seriesValue(ind.sma_20, idx, 2) },
+  { set: INDICATOR_SET.MOVING_AVERAGES, header: 'SMA50', value: (ind, _, idx) => seriesValue(ind.sma_50, idx, 2) },
+  { set: INDICATOR_SET.MOVING_AVERAGES, header: 'EMA12', value: (ind, _, idx) => seriesValue(ind.ema_12, idx, 2) },
+  { set: INDICATOR_SET.MOVING_AVERAGES, header: 'EMA26', value: (ind, _, idx) => seriesValue(ind.ema_26, idx, 2) },
+  { set: INDICATOR_SET.RSI, header: 'RSI', value: (ind, _, idx) => seriesValue(ind.rsi, idx, 2) },
+  { set: INDICATOR_SET.MACD, header: 'MACD', value: (ind, _, idx) => seriesValue(ind.macd, idx, 4) },
+  { set: INDICATOR_SET.MACD, header: 'Signal', value: (ind, _, idx) => seriesValue(ind.macd_signal, idx, 4) },
+  { set: INDICATOR_SET.BOLLINGER, header: 'Bollinger_Upper', value: (ind, _, idx) => seriesValue(ind.bollinger_upper, idx, 2) },
+  { set: INDICATOR_SET.BOLLINGER, header: 'Bollinger_Lower', value: (ind, _, idx) => seriesValue(ind.bollinger_lower, idx, 2) },
+  { set: INDICATOR_SET.ATR, header: 'ATR', value: (ind, _, idx) => seriesValue(ind.atr, idx, 3) },
+  { set: INDICATOR_SET.VOLUME, header: 'Volume', value: (_, data) => `${(data.volume / 1000000).toFixed(2)}M` },
+  { set: INDICATOR_SET.VOLUME, header: 'OBV', value: (ind, _, idx) => seriesValue(ind.obv, idx, 0) },
+  { set: INDICATOR_SET.STOCHASTIC, header: 'Stoch_K', value: (ind, _, idx) => seriesValue(ind.stochastic_k, idx, 2) },
+  { set: INDICATOR_SET.STOCHASTIC, header: 'Stoch_D', value: (ind, _, idx) => seriesValue(ind.stochastic_d, idx, 2) },
+  { set: INDICATOR_SET.ADX, header: 'ADX', value: (ind, _, idx) => seriesValue(ind.adx, idx, 2) },
+  { set: INDICATOR_SET.ADX, header: 'Plus_DI', value: (ind, _, idx) => seriesValue(ind.plus_di, idx, 2) },
+  { set: INDICATOR_SET.ADX, header: 'Minus_DI', value: (ind, _, idx) => seriesValue(ind.minus_di, idx, 2) },
+  { set: INDICATOR_SET.ICHIMOKU, header: 'Tenkan', value: (ind, _, idx) => seriesValue(ind.ichimoku_tenkan, idx, 2) },
+  { set: INDICATOR_SET.ICHIMOKU, header: 'Kijun', value: (ind, _, idx) => seriesValue(ind.ichimoku_kijun, idx, 2) },
+  { set: INDICATOR_SET.ICHIMOKU, header: 'Senkou_A', value: (ind, _, idx) => seriesValue(ind.ichimoku_senkou_a, idx, 2) },
+  { set: INDICATOR_SET.ICHIMOKU, header: 'Senkou_B', value: (ind, _, idx) => seriesValue(ind.ichimoku_senkou_b, idx, 2) },
+  { set: INDICATOR_SET.VWAP, header: 'VWAP', value: (ind, _, idx) => seriesValue(ind.vwap, idx, 2) },
+  { set: INDICATOR_SET.VWAP, header: 'Anchored_VWAP', value: (ind, _, idx) => seriesValue(ind.anchored_vwap, idx, 2) },
+  { set: INDICATOR_SET.KELTNER, header: 'Keltner_Upper', value: (ind, _, idx) => seriesValue(ind.keltner_upper, idx, 2) },
+  { set: INDICATOR_SET.KELTNER, header: 'Keltner_Lower', value: (ind, _, idx) => seriesValue(ind.keltner_lower, idx, 2) },
+  { set: INDICATOR_SET.CCI, header: 'CCI', value: (ind, _, idx) => seriesValue(ind.cci, idx, 2) },
+  { set: INDICATOR_SET.MFI, header: 'MFI', value: (ind, _, idx) => seriesValue(ind.mfi, idx, 2) },
+  { set: INDICATOR_SET.WILLIAMS_R, header: 'Williams_R', value: (ind, _, idx) => seriesValue(ind.williams_r, idx, 2) },
+  { set: INDICATOR_SET.PARABOLIC_SAR, header: 'PSAR', value: (ind, _, idx) => seriesValue(ind.parabolic_sar, idx, 2) }
+];
+
 /**
- * Format indicators for AI analysis (downsampled to specified points)
+ * Format indicators for AI analysis (downsampled to specified points), limited
+ * to the selected indicator groups
  */
 export function formatIndicatorsForAI(
   indicators: TechnicalIndicators, 
   historicalData: HistoricalPrice[],
-  targetPoints: number = 30
+  targetPoints: number = 30,
+  indicatorSet: readonly IndicatorSetKey[] = DEFAULT_INDICATOR_SET
 ): string {
+  const indices: number[] = [];
+  let formattedData: string;
+  
   if (historicalData.length <= targetPoints) {
-    return formatFullIndicators(indicators, historicalData);
+    historicalData.forEach((_, i) => indices.push(i));
+    formattedData = `Technical Analysis Data (${historicalData.length} data points):\n\n`;
+  } else {
+    // Downsample data and indicators to target points
+    // Always include the most recent data point (last element)
+    const step = Math.floor((historicalData.length - 1) / (targetPoints - 1));
+    
+    // Add evenly spaced indices
+    for (let i = 0; i < targetPoints - 1; i++) {
+      indices.push(Math.min(i * step, historicalData.length - 1));
+    }
+    
+    // Always add the most recent data point (last element) if not already included
+    const lastIndex = historicalData.length - 1;
+    if (indices[indices.length - 1] !== lastIndex) {
+      indices.push(lastIndex);
+    }
+    
+    formattedData = `Technical Analysis Data (${targetPoints} downsampled points from ${historicalData.length} total):\n\n`;
   }
   
-  // Downsample data and indicators to target points
-  // Always include the most recent data point (last element)
-  const step = Math.floor((historicalData.length - 1) / (targetPoints - 1));
-  const downsampledIndices: number[] = [];
+  const columns = INDICATOR_COLUMNS.filter(column => indicatorSet.includes(column.set));
+  formattedData += `${['Date', 'Close', ...columns.map(column => column.header)].join(',')}\n`;
   
-  // Add evenly spaced indices
-  for (let i = 0; i < targetPoints - 1; i++) {
-    downsampledIndices.push(Math.min(i * step, historicalData.length - 1));
+  for (const idx of indices) {
+    const data = historicalData[idx];
+    const values = columns.map(column => column.value(indicators, data, idx));
+    formattedData += `${[data.date, data.close.toFixed(2), ...values].join(',')}\n`;
   }
   
-  // Always add the most recent data point (last element) if not already included
-  const lastIndex = historicalData.length - 1;
-  if (downsampledIndices[downsampledIndices.length - 1] !== lastIndex) {
-    downsampledIndices.push(lastIndex);
+  // Add support/resistance levels
+  if (indicatorSet.includes(INDICATOR_SET.SUPPORT_RESISTANCE)) {
+    formattedData += `\nKey Levels:\n`;
+    formattedData += `Support: ${(indicators.support_levels || []).map(s => s.toFixed(2)).join(', ')}\n`;
+    formattedData += `Resistance: ${(indicators.resistance_levels || []).map(r => r.toFixed(2)).join(', ')}\n`;
   }
   
-  let formattedData = `Technical Analysis Data (${targetPoints} downsampled points from ${historicalData.length} total):\n\n`;
+  if (indicatorSet.includes(INDICATOR_SET.ICHIMOKU) && historicalData.length >= 52) {
+    // The cloud ahead of the last bar falls outside the date-aligned series
+    const last = historicalData.length - 1;
+    const recent = historicalData.slice(-52);
+    const spanA = ((indicators.ichimoku_tenkan?.[last] || 0) + (indicators.ichimoku_kijun?.[last] || 0)) / 2;
+    const spanB = (Math.max(...recent.map(d => d.high)) + Math.min(...recent.map(d => d.low))) / 2;
+    formattedData += `\nIchimoku Cloud 26 bars ahead: Senkou A ${spanA.toFixed(2)}, Senkou B ${spanB.toFixed(2)}\n`;
+  }
   
-  formattedData += `Date,Close,SMA20,SMA50,EMA12,EMA26,RSI,MACD,Signal,Bollinger_Upper,Bollinger_Lower,ATR,Volume,OBV\n`;
+  if (indicatorSet.includes(INDICATOR_SET.VWAP) && indicators.anchored_vwap_anchor) {
+    formattedData += `\nAnchored VWAP anchor: ${indicators.anchored_vwap_anchor} (start of the period's main move)\n`;
+  }
   
-  for (const idx of downsampledIndices) {
-    const data = historicalData[idx];
-    formattedData += `${data.date},${data.close.toFixed(2)},`;
-    formattedData += `${(indicators.sma_20[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.sma_50[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.ema_12[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.ema_26[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.rsi[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.macd[idx] || 0).toFixed(4)},`;
-    formattedData += `${(indicators.macd_signal[idx] || 0).toFixed(4)},`;
-    formattedData += `${(indicators.bollinger_upper[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.bollinger_lower[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.atr[idx] || 0).toFixed(3)},`;
-    formattedData += `${(data.volume / 1000000).toFixed(2)}M,`;
-    formattedData += `${(indicators.obv[idx] || 0).toFixed(0)}\n`;
+  const pivots = indicators.pivot_points;
+  if (indicatorSet.includes(INDICATOR_SET.PIVOT_POINTS) && pivots) {
+    formattedData += `\nPivot Points (from ${pivots.basis_date} session):\n`;
+    formattedData += `R3: ${pivots.r3.toFixed(2)}, R2: ${pivots.r2.toFixed(2)}, R1: ${pivots.r1.toFixed(2)}, `;
+    formattedData += `Pivot: ${pivots.pivot.toFixed(2)}, `;
+    formattedData += `S1: ${pivots.s1.toFixed(2)}, S2: ${pivots.s2.toFixed(2)}, S3: ${pivots.s3.toFixed(2)}\n`;
   }
   
-  // Add support/resistance levels
-  formattedData += `\nKey Levels:\n`;
-  formattedData += `Support: ${indicators.support_levels.map(s => s.toFixed(2)).join(', ')}\n`;
-  formattedData += `Resistance: ${indicators.resistance_levels.map(r => r.toFixed(2)).join(', ')}\n`;
+  const profile = indicators.volume_profile;
+  if (indicatorSet.includes(INDICATOR_SET.VOLUME_PROFILE) && profile) {
+    const highVolumeNodes = [...profile.bins]
+      .sort((a, b) => b.volume - a.volume)
+      .slice(0, 3)
+      .map(bin => `${bin.price_low.toFixed(2)}-${bin.price_high.toFixed(2)}`);
+    formattedData += `\nVolume Profile:\n`;
+    formattedData += `POC: ${profile.poc.toFixed(2)}, Value Area: ${profile.value_area_low.toFixed(2)}-${profile.value_area_high.toFixed(2)}\n`;
+    formattedData += `High Volume Nodes: ${highVolumeNodes.join(', ')}\n`;
+  }
   
   return formattedData;
 }
 
-function formatFullIndicators(indicators: TechnicalIndicators, historicalData: HistoricalPrice[]): string {
-  // Implementation for full data formatting (similar but without downsampling)
-  let formattedData = `Technical Analysis Data (${historicalData.length} data points):\n\n`;
-  // ... similar formatting logic
-  return formattedData;
-}
-
 /**
  * Check if we have valid cached market data for today
  */
@@ -854,7 +1520,8 @@ export async function getCachedMarketDataWithIndicators(
     let indicators: TechnicalIndicators & { metadata?: any };
     let fromCache = false;
     
-    if (!error && cachedData?.technical_indicators) {
+    // Rows cached before the expanded indicator set lack its series
+    if (!error && cachedData?.technical_indicators && cachedData.technical_indicators.adx !== undefined) {
       // Check if cache should be invalidated based on market hours
       const shouldInvalidate = shouldInvalidateCache(today, cachedData.created_at);
       
@@ -0,0 +1,275 @@
+/**
+ * Trade Approval Links
+ *
+ * Signed, single-use approve/reject links for pending trade orders, embedded
+ * in notifications (see notifications.ts). Each link is a trade_approval_links
+ * row; the token is "<link id>.<hex HMAC-SHA256>" signed with
+ * TRADE_APPROVAL_SECRET. Links open the /trade-approval page, which previews the
+ * order against the current quote and redeems the link through the
+ * trade-approval edge function.
+ *
+ * A link stops working once it is used (either link of the pair), once it
+ * expires, once the order is no longer pending, or once the live price drifts
+ * more than MAX_APPROVAL_PRICE_DRIFT_PERCENT from the price it was issued at.
+ * Links are only issued with a reference price (the order price, or a quote
+ * when the order has none), so the drift check always applies.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildNotificationUrl } from './notifications.ts';
+import { loadBrokerAccount } from './brokerAccounts.ts';
+import { createBroker, fetchBrokerQuote } from './brokers/index.ts';
+import type { LatestQuote } from './marketData.ts';
+
+export const TRADE_APPROVAL_ACTION = {
+  APPROVE: 'approve' as const,
+  REJECT: 'reject' as const
+} as const;
+
+export type TradeApprovalAction = typeof TRADE_APPROVAL_ACTION[keyof typeof TRADE_APPROVAL_ACTION];
+
+export const TRADE_APPROVAL_LINK_TTL_HOURS = 24;
+export const MAX_APPROVAL_PRICE_DRIFT_PERCENT = 2;
+
+export const TRADE_APPROVAL_INVALIDATION = {
+  USED: 'used' as const,
+  PAIRED_LINK_USED: 'paired_link_used' as const,
+  PRICE_DRIFT: 'price_drift' as const,
+  ORDER_NOT_PENDING: 'order_not_pending' as const
+} as const;
+
+export type TradeApprovalInvalidation = typeof TRADE_APPROVAL_INVALIDATION[keyof typeof TRADE_APPROVAL_INVALIDATION];
+
+// Row of the trade_approval_links table
+export interface TradeApprovalLink {
+  id: string;
+  user_id: string;
+  trade_action_id: string;
+  action: TradeApprovalAction;
+  reference_price: number | null;
+  expires_at: string;
+  used_at: string | null;
+  invalidated_reason: string | null;
+  created_at: string;
+}
+
+export interface TradeApprovalUrls {
+  approveUrl: string;
+  rejectUrl: string;
+  expiresAt: string;
+}
+
+function getSigningSecret(): string | null {
+  return Deno.env.get('TRADE_APPROVAL_SECRET') || null;
+}
+
+async function signLink(
+  secret: string,
+  link: Pick<TradeApprovalLink, 'id' | 'action' | 'trade_action_id' | 'expires_at'>
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const message = `${link.id}:${link.action}:${link.trade_action_id}:${new Date(link.expires_at).getTime()}`;
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Compares without short-circuiting so the signature can't be guessed byte by byte
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Current quote for the order's symbol from the broker of the account the
+ * order belongs to
+ */
+export async function loadApprovalQuote(
+  supabase: SupabaseClient,
+  userId: string,
+  ticker: string,
+  portfolioId: string | null
+): Promise<LatestQuote | null> {
+  const { data: settings } = await supabase
+    .from('api_settings')
+    .select('user_id, alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading, simulated_trading, simulated_starting_cash, simulated_slippage_bps, simulated_commission')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const account = portfolioId ? await loadBrokerAccount(supabase, userId, portfolioId) : null;
+  try {
+    return await fetchBrokerQuote(createBroker(settings || {}, account), ticker);
+  } catch (error) {
+    console.warn(`⚠️ No broker available to quote ${ticker}:`, error);
+    return null;
+  }
+}
+
+export const getQuotePrice = (quote: LatestQuote | null): number | null =>
+  quote?.last ?? quote?.ask ?? quote?.bid ?? null;
+
+/**
+ * Issue an approve/reject link pair for a pending order.
+ * Returns null when links are not configured, no reference price is
+ * available for the drift check, or the links could not be stored.
+ */
+export async function createTradeApprovalLinks(
+  supabase: SupabaseClient,
+  userId: string,
+  order: { id: string; ticker: string; price?: number | string | null; portfolio_id?: string | null }
+): Promise<TradeApprovalUrls | null> {
+  const secret = getSigningSecret();
+  if (!secret) {
+    console.warn('⚠️ TRADE_APPROVAL_SECRET is not set - skipping approval links');
+    return null;
+  }
+
+  // Notional and not-yet-priced orders carry no price; quote the symbol instead
+  let referencePrice: number | null = Number(order.price);
+  if (!Number.isFinite(referencePrice) || referencePrice <= 0) {
+    referencePrice = getQuotePrice(await loadApprovalQuote(supabase, userId, order.ticker, order.portfolio_id ?? null));
+  }
+  if (!referencePrice || referencePrice <= 0) {
+    console.warn(`⚠️ No reference price for order ${order.id} (${order.ticker}) - skipping approval links`);
+    return null;
+  }
+
+  const expiresAt = new Date(Date.now() + TRADE_APPROVAL_LINK_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data: links, error } = await supabase
+    .from('trade_approval_links')
+    .insert([TRADE_APPROVAL_ACTION.APPROVE, TRADE_APPROVAL_ACTION.REJECT].map(action => ({
+      user_id: userId,
+      trade_action_id: order.id,
+      action,
+      reference_price: referencePrice,
+      expires_at: expiresAt
+    })))
+    .select('id, action, trade_action_id, expires_at');
+
+  if (error || !links || links.length !== 2) {
+    console.error(`Failed to create approval links for order ${order.id}:`, error);
+    return null;
+  }
+
+  const urls: Partial<Record<TradeApprovalAction, string>> = {};
+  for (const link of links as TradeApprovalLink[]) {
+    const signature = await signLink(secret, link);
+    urls[link.action] = buildNotificationUrl(`/trade-approval?token=${link.id}.${signature}`);
+  }
+
+  return {
+    approveUrl: urls[TRADE_APPROVAL_ACTION.APPROVE]!,
+    rejectUrl: urls[TRADE_APPROVAL_ACTION.REJECT]!,
+    expiresAt
+  };
+}
+
+/**
+ * Resolve a token to its link, checking the signature, expiry and single use
+ */
+export async function loadTradeApprovalLink(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ link: TradeApprovalLink | null; error: string | null }> {
+  const secret = getSigningSecret();
+  if (!secret) {
+    return { link: null, error: 'Approval links are not enabled' };
+  }
+
+  const [linkId, signature] = (token || '').split('.');
+  if (!linkId || !signature || !/^[0-9a-f-]{36}$/i.test(linkId)) {
+    return { link: null, error: 'Invalid approval link' };
+  }
+
+  const { data: link, error } = await supabase
+    .from('trade_approval_links')
+    .select('*')
+    .eq('id', linkId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load approval link:', error);
+    return { link: null, error: 'Failed to load approval link' };
+  }
+  if (!link || !timingSafeEqual(await signLink(secret, link), signature)) {
+    return { link: null, error: 'Invalid approval link' };
+  }
+  if (link.used_at) {
+    return {
+      link: null,
+      error: link.invalidated_reason === TRADE_APPROVAL_INVALIDATION.PRICE_DRIFT
+        ? 'This link expired because the price moved too far since the order was created'
+        : 'This link has already been used'
+    };
+  }
+  if (new Date(link.expires_at).getTime() <= Date.now()) {
+    return { link: null, error: 'This link has expired' };
+  }
+
+  return { link: link as TradeApprovalLink, error: null };
+}
+
+/**
+ * Percent move of the current price away from the price the link was issued at
+ */
+export function computePriceDriftPercent(referencePrice: number | null, currentPrice: number | null): number | null {
+  if (!referencePrice || !currentPrice || referencePrice <= 0) return null;
+  return ((currentPrice - referencePrice) / referencePrice) * 100;
+}
+
+export function isPriceDriftExceeded(driftPercent: number | null): boolean {
+  return driftPercent !== null && Math.abs(driftPercent) > MAX_APPROVAL_PRICE_DRIFT_PERCENT;
+}
+
+/**
+ * Mark a link used and retire the other link of its pair.
+ * Returns false when another request redeemed the link first.
+ */
+export async function consumeTradeApprovalLink(
+  supabase: SupabaseClient,
+  link: TradeApprovalLink,
+  reason: TradeApprovalInvalidation = TRADE_APPROVAL_INVALIDATION.USED
+): Promise<boolean> {
+  const usedAt = new Date().toISOString();
+
+  const { data: claimed, error } = await supabase
+    .from('trade_approval_links')
+    .update({ used_at: usedAt, invalidated_reason: reason })
+    .eq('id', link.id)
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    console.error(`Failed to consume approval link ${link.id}:`, error);
+    return false;
+  }
+  if (!claimed || claimed.length === 0) return false;
+
+  const { error: pairError } = await supabase
+    .from('trade_approval_links')
+    .update({
+      used_at: usedAt,
+      invalidated_reason: reason === TRADE_APPROVAL_INVALIDATION.USED ? TRADE_APPROVAL_INVALIDATION.PAIRED_LINK_USED : reason
+    })
+    .eq('trade_action_id', link.trade_action_id)
+    .is('used_at', null);
+
+  if (pairError) {
+    console.warn(`⚠️ Failed to retire paired approval links for order ${link.trade_action_id}:`, pairError);
+  }
+
+  return true;
+}
@@ -2,6 +2,7 @@
  * Shared trade order submission utilities
  */
 import { TRADE_ORDER_STATUS } from './statusTypes.ts';
+import { ORDER_TYPE, type OrderType, type TimeInForce } from './orderTypes.ts';
 
 export interface TradeOrderData {
   ticker: string;
@@ -37,6 +38,14 @@ export interface TradeOrderData {
   // Rebalance-specific fields (legacy compatibility)
   targetAllocation?: number;
   targetValue?: number;
+  
+  // Order execution parameters (default to a market order with automatic time in force)
+  orderType?: OrderType;
+  timeInForce?: TimeInForce | null;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  trailPercent?: number | null;
+  trailPrice?: number | null;
 }
 
 export interface TradeOrderContext {
@@ -44,6 +53,7 @@ export interface TradeOrderContext {
   sourceType: 'individual_analysis' | 'rebalance' | 'manual';
   rebalanceRequestId?: string;
   agent?: string;
+  portfolioId?: string | null;  // Broker account the orders belong to; null for the main account
 }
 
 /**
@@ -162,6 +172,7 @@ export async function submitTradeOrders(
     
     return {
       user_id: context.userId,
+      portfolio_id: context.portfolioId || null,
       ticker: order.ticker,
       action: order.action,
       shares: finalShares,
@@ -175,6 +186,12 @@ export async function submitTradeOrders(
       position_percentage: order.afterAllocation || order.targetAllocation || null,
       target_value: order.afterValue || order.targetValue || order.dollarAmount || null,
       analysis_id: order.analysisId || null,
+      order_type: order.orderType || ORDER_TYPE.MARKET,
+      time_in_force: order.timeInForce || null,
+      limit_price: order.limitPrice ?? null,
+      stop_price: order.stopPrice ?? null,
+      trail_percent: order.trailPercent ?? null,
+      trail_price: order.trailPrice ?? null,
     // Store before/after details in metadata (JSONB field)
     // IMPORTANT: Preserve existing metadata (like useCloseEndpoint, shouldClosePosition)
     metadata: {
@@ -205,6 +222,8 @@ export async function submitTradeOrders(
     action: o.action,
     shares: o.shares,
     dollar_amount: o.dollar_amount,
+    order_type: o.order_type,
+    limit_price: o.limit_price,
     status: o.status,
     user_id: o.user_id
   })));
@@ -1,3 +1,5 @@
+import type { ModelPriceTable } from './aiUsage.ts';
+
 export interface AgentRequest {
   analysisId: string;
   ticker: string;
@@ -6,8 +8,11 @@ export interface AgentRequest {
     ai_provider: string;
     ai_api_key: string;
     ai_model?: string;
+    ai_base_url?: string | null;
+    ai_model_prices?: ModelPriceTable | null;
     analysis_depth?: string;
     analysis_history_days?: number;
+    analysis_indicators?: string[] | null;
     research_debate_rounds?: number;
     analysis_max_tokens?: number;
     research_max_tokens?: number;
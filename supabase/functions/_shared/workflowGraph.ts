@@ -0,0 +1,426 @@
+/**
+ * Workflow Graph
+ *
+ * The phases an analysis runs through and the agents in each phase. Users can
+ * switch individual analysts off, skip the research debate and run it after
+ * the trader instead of before; the choice is stored in
+ * api_settings.workflow_config and resolved into a graph when an analysis is
+ * created. The resolved graph is kept in full_analysis.workflowGraph so an
+ * analysis finishes with the graph it started with, even if the user changes
+ * their settings mid-run.
+ *
+ * Structural rules the coordinator relies on:
+ * - analysis always runs first and needs the Market Analyst (the trader and
+ *   risk team read prices from it)
+ * - risk always runs second to last; the risk manager hands off to portfolio
+ *   routing, which runs the portfolio phase (or returns to the rebalance)
+ * - research and trading may run in either order; research is optional
+ *
+ * Custom analysts (see customAnalysts.ts) are appended to the analysis or risk
+ * phase of the resolved graph, and their definitions are kept with it.
+ */
+
+import { getCustomAnalystAgentName, type CustomAnalystDefinition } from './customAnalysts.ts';
+
+export interface WorkflowPhase {
+  agents: string[];
+  nextPhase?: string;
+  finalAgent?: string | null;
+}
+
+export interface WorkflowPhases {
+  [key: string]: WorkflowPhase;
+}
+
+export const WORKFLOW_PHASE_ID = {
+  ANALYSIS: 'analysis' as const,
+  RESEARCH: 'research' as const,
+  TRADING: 'trading' as const,
+  RISK: 'risk' as const,
+  PORTFOLIO: 'portfolio' as const
+} as const;
+
+export type WorkflowPhaseId = typeof WORKFLOW_PHASE_ID[keyof typeof WORKFLOW_PHASE_ID];
+
+export interface WorkflowAgentDefinition {
+  functionName: string;
+  displayName: string;
+  // Cannot be switched off
+  required: boolean;
+}
+
+export interface WorkflowPhaseDefinition {
+  id: WorkflowPhaseId;
+  name: string;
+  // Agents the coordinator schedules, in default order
+  agents: WorkflowAgentDefinition[];
+  // Runs once the phase agents are done (not switchable)
+  finalAgent: WorkflowAgentDefinition | null;
+  // Shown in the workflow steps but invoked by another handler (e.g. the research manager after the debate)
+  stepOnlyAgents: WorkflowAgentDefinition[];
+  optional: boolean;
+  // Fewest agents that may stay enabled
+  minAgents: number;
+}
+
+const agent = (functionName: string, displayName: string, required = false): WorkflowAgentDefinition => ({
+  functionName,
+  displayName,
+  required
+});
+
+export const WORKFLOW_PHASE_DEFINITIONS: Record<WorkflowPhaseId, WorkflowPhaseDefinition> = {
+  [WORKFLOW_PHASE_ID.ANALYSIS]: {
+    id: WORKFLOW_PHASE_ID.ANALYSIS,
+    name: 'Market Analysis',
+    agents: [
+      agent('agent-macro-analyst', 'Macro Analyst'),
+      agent('agent-market-analyst', 'Market Analyst', true),
+      agent('agent-news-analyst', 'News Analyst'),
+      agent('agent-social-media-analyst', 'Social Media Analyst'),
+      agent('agent-fundamentals-analyst', 'Fundamentals Analyst')
+    ],
+    finalAgent: null,
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  },
+  [WORKFLOW_PHASE_ID.RESEARCH]: {
+    id: WORKFLOW_PHASE_ID.RESEARCH,
+    name: 'Research Team',
+    // Bull and bear take turns in the debate, so neither can be switched off on its own
+    agents: [
+      agent('agent-bull-researcher', 'Bull Researcher', true),
+      agent('agent-bear-researcher', 'Bear Researcher', true)
+    ],
+    finalAgent: null,
+    stepOnlyAgents: [agent('agent-research-manager', 'Research Manager', true)],
+    optional: true,
+    minAgents: 2
+  },
+  [WORKFLOW_PHASE_ID.TRADING]: {
+    id: WORKFLOW_PHASE_ID.TRADING,
+    name: 'Trading Decision',
+    agents: [agent('agent-trader', 'Trader', true)],
+    finalAgent: null,
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  },
+  [WORKFLOW_PHASE_ID.RISK]: {
+    id: WORKFLOW_PHASE_ID.RISK,
+    name: 'Risk Management',
+    agents: [
+      agent('agent-risky-analyst', 'Risky Analyst'),
+      agent('agent-safe-analyst', 'Safe Analyst'),
+      agent('agent-neutral-analyst', 'Neutral Analyst')
+    ],
+    finalAgent: agent('agent-risk-manager', 'Risk Manager', true),
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  },
+  [WORKFLOW_PHASE_ID.PORTFOLIO]: {
+    id: WORKFLOW_PHASE_ID.PORTFOLIO,
+    name: 'Portfolio Management',
+    agents: [agent('analysis-portfolio-manager', 'Analysis Portfolio Manager', true)],
+    finalAgent: null,
+    stepOnlyAgents: [],
+    optional: false,
+    minAgents: 1
+  }
+};
+
+export const DEFAULT_PHASE_ORDER: WorkflowPhaseId[] = [
+  WORKFLOW_PHASE_ID.ANALYSIS,
+  WORKFLOW_PHASE_ID.RESEARCH,
+  WORKFLOW_PHASE_ID.TRADING,
+  WORKFLOW_PHASE_ID.RISK,
+  WORKFLOW_PHASE_ID.PORTFOLIO
+];
+
+// Phases that may be reordered between analysis and risk
+export const MOVABLE_PHASES: WorkflowPhaseId[] = [WORKFLOW_PHASE_ID.RESEARCH, WORKFLOW_PHASE_ID.TRADING];
+
+/**
+ * User configuration as stored in api_settings.workflow_config.
+ * Phases are listed in run order; omitted phases and agents keep their defaults.
+ */
+export interface WorkflowGraphConfig {
+  phases?: Array<{
+    id: string;
+    enabled?: boolean;
+    agents?: Array<{ functionName: string; enabled?: boolean }>;
+  }>;
+}
+
+/**
+ * Resolved graph: enabled phases in run order with their enabled agents
+ */
+export interface WorkflowGraph {
+  phases: Array<{
+    id: WorkflowPhaseId;
+    agents: string[];
+  }>;
+  // Snapshot of the custom analysts scheduled in the phases above
+  customAnalysts?: CustomAnalystDefinition[];
+}
+
+const isPhaseId = (value: unknown): value is WorkflowPhaseId =>
+  typeof value === 'string' && value in WORKFLOW_PHASE_DEFINITIONS;
+
+/**
+ * Returns the problems with a configuration, or an empty list when it can run
+ */
+export function validateWorkflowGraphConfig(config: WorkflowGraphConfig | null | undefined): string[] {
+  const errors: string[] = [];
+  if (!config?.phases) return errors;
+
+  const seen = new Set<string>();
+  for (const phase of config.phases) {
+    if (!isPhaseId(phase?.id)) {
+      errors.push(`Unknown phase: ${phase?.id}`);
+      continue;
+    }
+    if (seen.has(phase.id)) {
+      errors.push(`Phase listed twice: ${phase.id}`);
+    }
+    seen.add(phase.id);
+
+    const definition = WORKFLOW_PHASE_DEFINITIONS[phase.id];
+    if (phase.enabled === false && !definition.optional) {
+      errors.push(`${definition.name} cannot be disabled`);
+    }
+
+    const known = new Set(definition.agents.map(a => a.functionName));
+    for (const entry of phase.agents || []) {
+      if (!known.has(entry?.functionName)) {
+        errors.push(`Unknown agent in ${definition.name}: ${entry?.functionName}`);
+      }
+    }
+
+    const enabledAgents = resolvePhaseAgents(phase.id, phase.agents);
+    const missingRequired = definition.agents.filter(a => a.required && !enabledAgents.includes(a.functionName));
+    for (const requiredAgent of missingRequired) {
+      errors.push(`${requiredAgent.displayName} cannot be disabled`);
+    }
+    if (enabledAgents.length < definition.minAgents) {
+      errors.push(`${definition.name} needs at least ${definition.minAgents} agent(s)`);
+    }
+  }
+
+  const order = resolvePhaseOrder(config);
+  const fixedPositions = [
+    order[0] === WORKFLOW_PHASE_ID.ANALYSIS,
+    order[order.length - 2] === WORKFLOW_PHASE_ID.RISK,
+    order[order.length - 1] === WORKFLOW_PHASE_ID.PORTFOLIO
+  ];
+  if (fixedPositions.includes(false)) {
+    errors.push('Market Analysis must run first, Risk Management second to last and Portfolio Management last');
+  }
+
+  return errors;
+}
+
+/**
+ * Enabled agents of a phase: configured order first, then any agents the
+ * configuration does not mention (e.g. added after it was saved)
+ */
+function resolvePhaseAgents(
+  phaseId: WorkflowPhaseId,
+  entries: Array<{ functionName: string; enabled?: boolean }> | undefined
+): string[] {
+  const definition = WORKFLOW_PHASE_DEFINITIONS[phaseId];
+  const known = new Set(definition.agents.map(a => a.functionName));
+  const listed = (entries || []).filter(entry => known.has(entry?.functionName));
+  const listedNames = new Set(listed.map(entry => entry.functionName));
+
+  return [
+    ...listed.filter(entry => entry.enabled !== false).map(entry => entry.functionName),
+    ...definition.agents.filter(a => !listedNames.has(a.functionName)).map(a => a.functionName)
+  ].filter((name, index, all) => all.indexOf(name) === index);
+}
+
+/**
+ * Phase ids in run order, skipping disabled optional phases. Phases the
+ * configuration does not mention keep their default position.
+ */
+function resolvePhaseOrder(config: WorkflowGraphConfig): WorkflowPhaseId[] {
+  const listed = (config.phases || []).filter(phase => isPhaseId(phase?.id));
+  const listedIds = listed.map(phase => phase.id as WorkflowPhaseId);
+
+  const order = listedIds.filter((id, index) => listedIds.indexOf(id) === index);
+  DEFAULT_PHASE_ORDER.forEach((id, index) => {
+    if (order.includes(id)) return;
+    const previous = DEFAULT_PHASE_ORDER.slice(0, index).reverse().find(p => order.includes(p));
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, id);
+  });
+
+  const disabled = new Set(listed.filter(phase => phase.enabled === false).map(phase => phase.id));
+  return order.filter(id => !disabled.has(id));
+}
+
+export function getDefaultWorkflowGraph(): WorkflowGraph {
+  return {
+    phases: DEFAULT_PHASE_ORDER.map(id => ({
+      id,
+      agents: WORKFLOW_PHASE_DEFINITIONS[id].agents.map(a => a.functionName)
+    }))
+  };
+}
+
+/**
+ * Resolves a user configuration into a runnable graph. Invalid configurations
+ * fall back to the default graph so an analysis never starts half-wired.
+ */
+export function resolveWorkflowGraph(
+  config: WorkflowGraphConfig | null | undefined,
+  customAnalysts: CustomAnalystDefinition[] = []
+): WorkflowGraph {
+  return addCustomAnalysts(resolveBuiltInGraph(config), customAnalysts);
+}
+
+function resolveBuiltInGraph(config: WorkflowGraphConfig | null | undefined): WorkflowGraph {
+  if (!config?.phases || config.phases.length === 0) {
+    return getDefaultWorkflowGraph();
+  }
+
+  const errors = validateWorkflowGraphConfig(config);
+  if (errors.length > 0) {
+    console.warn(`⚠️ Invalid workflow configuration, using default graph: ${errors.join('; ')}`);
+    return getDefaultWorkflowGraph();
+  }
+
+  return {
+    phases: resolvePhaseOrder(config).map(id => ({
+      id,
+      agents: resolvePhaseAgents(id, config.phases!.find(phase => phase.id === id)?.agents)
+    }))
+  };
+}
+
+/**
+ * Schedules custom analysts after the built-in agents of their phase
+ */
+function addCustomAnalysts(graph: WorkflowGraph, customAnalysts: CustomAnalystDefinition[]): WorkflowGraph {
+  const scheduled = customAnalysts.filter(definition => graph.phases.some(phase => phase.id === definition.phase));
+  if (scheduled.length === 0) {
+    return graph;
+  }
+
+  return {
+    phases: graph.phases.map(phase => ({
+      ...phase,
+      agents: [
+        ...phase.agents,
+        ...scheduled.filter(definition => definition.phase === phase.id).map(definition => getCustomAnalystAgentName(definition.id))
+      ]
+    })),
+    customAnalysts: scheduled
+  };
+}
+
+/**
+ * Coordinator view of a graph: phase agents, final agents and the next-phase chain.
+ * Risk has no next phase because the risk manager completion routes to portfolio itself.
+ */
+export function toWorkflowPhases(graph: WorkflowGraph): WorkflowPhases {
+  const phases: WorkflowPhases = {};
+
+  graph.phases.forEach((phase, index) => {
+    const definition = WORKFLOW_PHASE_DEFINITIONS[phase.id];
+    const next = graph.phases[index + 1]?.id;
+    const chainsToNext = next && phase.id !== WORKFLOW_PHASE_ID.RISK && phase.id !== WORKFLOW_PHASE_ID.PORTFOLIO;
+
+    phases[phase.id] = {
+      agents: [...phase.agents],
+      ...(chainsToNext ? { nextPhase: next } : {}),
+      ...(definition.finalAgent || phase.id === WORKFLOW_PHASE_ID.PORTFOLIO
+        ? { finalAgent: definition.finalAgent?.functionName ?? null }
+        : {})
+    };
+  });
+
+  return phases;
+}
+
+/**
+ * Graph an analysis runs with. Analyses created before graphs were stored use the default.
+ */
+export function getWorkflowGraph(fullAnalysis: any): WorkflowGraph {
+  const stored = fullAnalysis?.workflowGraph;
+  if (stored && Array.isArray(stored.phases) && stored.phases.every((phase: any) => isPhaseId(phase?.id) && Array.isArray(phase.agents))) {
+    return stored as WorkflowGraph;
+  }
+  return getDefaultWorkflowGraph();
+}
+
+export function getWorkflowPhases(fullAnalysis: any): WorkflowPhases {
+  return toWorkflowPhases(getWorkflowGraph(fullAnalysis));
+}
+
+/**
+ * Loads the coordinator phases of an analysis
+ */
+export async function loadWorkflowPhases(supabase: any, analysisId: string): Promise<WorkflowPhases> {
+  const { data, error } = await supabase
+    .from('analysis_history')
+    .select('full_analysis')
+    .eq('id', analysisId)
+    .single();
+
+  if (error || !data) {
+    console.warn(`⚠️ Could not load workflow graph for ${analysisId}, using default:`, error);
+    return getWorkflowPhases(null);
+  }
+  return getWorkflowPhases(data.full_analysis);
+}
+
+/**
+ * Initial workflow steps for a graph, every agent pending
+ */
+export function buildWorkflowSteps(graph: WorkflowGraph) {
+  const pendingAgent = { status: 'pending', progress: 0 };
+
+  return graph.phases.map(phase => {
+    const definition = WORKFLOW_PHASE_DEFINITIONS[phase.id];
+    const builtInAgents = [
+      ...phase.agents
+        .map(name => definition.agents.find(a => a.functionName === name))
+        .filter((a): a is WorkflowAgentDefinition => a !== undefined),
+      ...definition.stepOnlyAgents,
+      ...(definition.finalAgent ? [definition.finalAgent] : [])
+    ];
+    // Custom analysts are tracked under their agent name; the label is for display
+    const customAgents = (graph.customAnalysts || [])
+      .filter(custom => phase.agents.includes(getCustomAnalystAgentName(custom.id)))
+      .map(custom => ({
+        name: getCustomAnalystAgentName(custom.id),
+        label: custom.name,
+        functionName: getCustomAnalystAgentName(custom.id),
+        ...pendingAgent
+      }));
+
+    return {
+      id: phase.id,
+      name: definition.name,
+      status: 'pending',
+      agents: [
+        ...builtInAgents.map(a => ({ name: a.displayName, functionName: a.functionName, ...pendingAgent })),
+        ...customAgents
+      ]
+    };
+  });
+}
+
+/**
+ * Display name used for an agent in workflow steps
+ */
+export function getAgentDisplayName(agentFunctionName: string): string {
+  for (const definition of Object.values(WORKFLOW_PHASE_DEFINITIONS)) {
+    const match = [...definition.agents, ...definition.stepOnlyAgents, ...(definition.finalAgent ? [definition.finalAgent] : [])]
+      .find(a => a.functionName === agentFunctionName);
+    if (match) return match.displayName;
+  }
+  return agentFunctionName;
+}
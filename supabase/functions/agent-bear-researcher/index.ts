@@ -2,10 +2,14 @@ import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, updateDebateRounds, setAgentToError } from '../_shared/atomicUpdate.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { AGENT_OUTPUT_SCHEMAS, type AnalystReportOutput, confidenceLevel } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest, getHistoryDays } from '../_shared/types.ts'
+import { formatCustomAnalystReports } from '../_shared/customAnalysts.ts'
+import { getWorkflowGraph } from '../_shared/workflowGraph.ts'
 
 serve(async (req) => {
   let timeoutId: number | null = null;
@@ -117,6 +121,11 @@ serve(async (req) => {
     const socialSentiment = analysis.agent_insights?.socialMediaAnalyst?.summary || {};
     const newsAnalysis = analysis.agent_insights?.newsAnalyst?.summary || {};
     const fundamentals = analysis.agent_insights?.fundamentalsAnalyst?.summary || {};
+    const customAnalystReports = formatCustomAnalystReports(
+      getWorkflowGraph(analysis.full_analysis).customAnalysts,
+      analysis.agent_insights,
+      'analysis'
+    );
 
     // Get previous debate rounds if any
     const debateRounds = analysis.full_analysis?.debateRounds || [];
@@ -257,6 +266,7 @@ serve(async (req) => {
     - Social Sentiment: ${JSON.stringify(socialSentiment, null, 2)}
     - News Analysis: ${JSON.stringify(newsAnalysis, null, 2)}
     - Fundamentals: ${JSON.stringify(fundamentals, null, 2)}
+    ${customAnalystReports}
 
     ${debateRounds.length > 0 ? `
     Previous Debate Rounds:
@@ -295,13 +305,30 @@ serve(async (req) => {
 
     // Call AI provider
     let aiResponse = '';
+    let report: AnalystReportOutput | null = null;
     let agentError = null;
     let errorType: 'rate_limit' | 'api_key' | 'ai_error' | 'data_fetch' | 'database' | 'timeout' | 'other' = 'other';
 
     try {
       const maxTokens = apiSettings.research_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for bear research analysis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.bearResearcher, maxTokens, 3);
+      const aiResult = await callAIProviderWithStructuredOutput<AnalystReportOutput>(
+        apiSettings,
+        prompt,
+        SYSTEM_PROMPTS.bearResearcher,
+        AGENT_OUTPUT_SCHEMAS.ANALYST_REPORT,
+        maxTokens,
+        3
+      );
+      aiResponse = aiResult.text;
+      report = aiResult.data;
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Bear Researcher',
+        usage: aiResult.usage,
+        priceOverrides: apiSettings.ai_model_prices
+      });
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -343,8 +370,8 @@ Please retry the analysis or check your AI provider settings.`;
       error: agentError,
       summary: {
         stance: 'bearish',
-        conviction: agentError ? 'error' : 'moderate',
-        keyPoints: agentError ? ['Error during analysis'] : bearPoints,
+        conviction: agentError ? 'error' : report ? confidenceLevel(report.confidence) : 'moderate',
+        keyPoints: agentError ? ['Error during analysis'] : report?.keyPoints.length ? report.keyPoints : bearPoints,
         priceTarget: agentError ? 'N/A' : '$120 (20% downside)',
         timeframe: agentError ? 'N/A' : '6-12 months',
         riskReward: agentError ? 'N/A' : 'Unfavorable 1:2',
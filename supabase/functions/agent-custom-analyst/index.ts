@@ -0,0 +1,470 @@
+import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
+import { callAIProviderWithStructuredOutput } from '../_shared/aiProviders.ts'
+import { AGENT_OUTPUT_SCHEMAS, type AnalystReportOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
+import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
+import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
+import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
+import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
+import { checkAgentCompletion, checkForBlockingOperations } from '../_shared/agentCompletionCheck.ts'
+import { AgentRequest } from '../_shared/types.ts'
+import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { getCachedMarketDataWithIndicators, formatIndicatorsForAI, resolveIndicatorSet } from '../_shared/technicalIndicators.ts'
+import { getWorkflowGraph } from '../_shared/workflowGraph.ts'
+import {
+  CUSTOM_ANALYST_FUNCTION,
+  CUSTOM_ANALYST_INPUT,
+  getCustomAnalystAgentName,
+  type CustomAnalystDefinition
+} from '../_shared/customAnalysts.ts'
+import {
+  createMethodNotAllowedResponse,
+  createMissingParametersResponse,
+  createCanceledResponse,
+  createSuccessResponse,
+  createErrorResponse,
+  createApiErrorResponse
+} from '../_shared/responseHelpers.ts'
+
+const CUSTOM_RETRY_CONFIG = {
+  functionName: CUSTOM_ANALYST_FUNCTION,
+  maxRetries: 3,
+  timeoutMs: 180000, // keep under Supabase's ~200s hard limit
+  retryDelay: 3000
+} as const;
+
+// Most recent daily bars shown when only price history is selected
+const PRICE_HISTORY_POINTS = 30;
+
+interface CustomAnalystRequest extends AgentRequest {
+  customAnalystId?: string;
+}
+
+type AgentErrorType = 'rate_limit' | 'api_key' | 'ai_error' | 'data_fetch' | 'other';
+
+function classifyError(message: string): AgentErrorType {
+  if (message.includes('rate limit') || message.includes('quota')) return 'rate_limit';
+  if (message.includes('API key') || message.includes('invalid key') || message.includes('api_key')) return 'api_key';
+  if (message.includes('Perplefina') || message.includes('perplefina') || message.includes('market data')) return 'data_fetch';
+  if (message.includes('AI provider') || message.includes('No API key provided')) return 'ai_error';
+  return 'other';
+}
+
+/**
+ * Builds the data section of the prompt from the inputs the definition allows.
+ * Nothing outside the selected inputs is passed to the model.
+ */
+async function gatherInputs(
+  supabase: any,
+  definition: CustomAnalystDefinition,
+  request: CustomAnalystRequest,
+  agentInsights: any,
+  fullAnalysis: any
+): Promise<{ sections: string[]; sources: any[] }> {
+  const { ticker, userId, apiSettings, analysisContext } = request;
+  const settings = apiSettings as any;
+  const sections: string[] = [];
+  let sources: any[] = [];
+
+  const wantsPrices = definition.dataInputs.includes(CUSTOM_ANALYST_INPUT.PRICE_HISTORY);
+  const wantsIndicators = definition.dataInputs.includes(CUSTOM_ANALYST_INPUT.INDICATORS);
+
+  if (wantsPrices || wantsIndicators) {
+    const marketRange = settings.analysis_history_days || '1Y';
+
+    // Same credential hand-off the Market Analyst uses for the shared cache
+    supabase._userCredentials = {
+      userId,
+      alpaca_paper_api_key: settings.alpaca_paper_api_key,
+      alpaca_paper_secret_key: settings.alpaca_paper_secret_key,
+      alpaca_live_api_key: settings.alpaca_live_api_key,
+      alpaca_live_secret_key: settings.alpaca_live_secret_key,
+      alpaca_paper_trading: settings.alpaca_paper_trading
+    };
+
+    const { historical, indicators } = await getCachedMarketDataWithIndicators(ticker, marketRange, supabase);
+    if (!historical || historical.length === 0) {
+      throw new Error(`No market data available for ${ticker}`);
+    }
+
+    if (wantsIndicators) {
+      sections.push(formatIndicatorsForAI(indicators, historical, 30, resolveIndicatorSet(settings.analysis_indicators)));
+    } else {
+      const recent = historical.slice(-PRICE_HISTORY_POINTS);
+      sections.push(`Price History (last ${recent.length} sessions):\n\nDate,Open,High,Low,Close,Volume\n` +
+        recent.map(bar =>
+          `${bar.date},${bar.open.toFixed(2)},${bar.high.toFixed(2)},${bar.low.toFixed(2)},${bar.close.toFixed(2)},${bar.volume}`
+        ).join('\n'));
+    }
+  }
+
+  if (definition.dataInputs.includes(CUSTOM_ANALYST_INPUT.PERPLEFINA) && definition.focusMode) {
+    const optimizationMode = settings.analysis_optimization || 'speed';
+    const currentDate = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    const data = await callPerplefina({
+      focusMode: definition.focusMode,
+      query: `${definition.name}: research ${ticker} stock as of ${currentDate}.`,
+      optimizationMode,
+      maxSources: settings.analysis_search_sources || (optimizationMode === 'balanced' ? 15 : 10),
+      chatModel: {
+        provider: settings.ai_provider,
+        model: settings.ai_model || 'default',
+        apiKey: settings.ai_api_key,
+        baseUrl: settings.ai_base_url || undefined
+      },
+      maxTokens: settings.analysis_max_tokens || 1200,
+      timeoutMs: 120000,
+      systemInstructions: definition.systemPrompt
+    });
+
+    await recordAIUsage(supabase, {
+      userId,
+      analysisId: request.analysisId,
+      agentName: definition.name,
+      usage: data.usage,
+      priceOverrides: settings.ai_model_prices
+    });
+
+    sections.push(`Web Research (${definition.focusMode}):\n${data.message || 'No research content received'}`);
+    sources = data.sources || [];
+  }
+
+  if (definition.dataInputs.includes(CUSTOM_ANALYST_INPUT.POSITIONS)) {
+    // The coordinator adds position and portfolio data to the context
+    const context = analysisContext as any;
+    const position = context?.position;
+    const portfolioData = context?.portfolioData;
+    sections.push(position?.stock_in_holdings
+      ? `Current Position:\n- Shares: ${position.shares}\n- Entry price: $${Number(position.entry_price).toFixed(2)}\n- Current price: $${Number(position.current_price).toFixed(2)}\n- Unrealized P/L: ${Number(position.unrealized_pl_percent).toFixed(1)}%\n- Market value: $${Number(position.market_value).toFixed(2)}`
+      : `Current Position: no shares of ${ticker} held`);
+    if (portfolioData) {
+      sections.push(`Portfolio:\n- Total value: $${Number(portfolioData.totalValue || portfolioData.account?.portfolio_value || 0).toFixed(2)}\n- Cash: $${Number(portfolioData.cash || portfolioData.account?.cash || 0).toFixed(2)}`);
+    }
+  }
+
+  // Risk-phase analysts review the trade the trading phase proposed
+  if (definition.phase === 'risk') {
+    const tradingPlan = fullAnalysis?.tradingPlan;
+    const traderAnalysis = agentInsights?.trader?.analysis;
+    if (tradingPlan || traderAnalysis) {
+      sections.push(`Proposed Trade:\n${tradingPlan ? JSON.stringify(tradingPlan, null, 2) : ''}\n${traderAnalysis ? String(traderAnalysis).slice(0, 3000) : ''}`);
+    }
+  }
+
+  return { sections, sources };
+}
+
+serve(async (req) => {
+  let timeoutId: number | null = null;
+  let displayName = 'Custom Analyst';
+
+  try {
+    if (req.method !== 'POST') {
+      return createMethodNotAllowedResponse();
+    }
+
+    const request: CustomAnalystRequest = await req.json();
+    const { analysisId, ticker, userId, apiSettings, customAnalystId } = request;
+
+    if (!analysisId || !ticker || !userId || !apiSettings || !customAnalystId) {
+      const missingParams = [];
+      if (!analysisId) missingParams.push('analysisId');
+      if (!ticker) missingParams.push('ticker');
+      if (!userId) missingParams.push('userId');
+      if (!apiSettings) missingParams.push('apiSettings');
+      if (!customAnalystId) missingParams.push('customAnalystId');
+      return createMissingParametersResponse(missingParams);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The definition comes from the snapshot taken when the analysis started
+    const { data: analysis, error: analysisError } = await supabase
+      .from('analysis_history')
+      .select('agent_insights, full_analysis')
+      .eq('id', analysisId)
+      .single();
+
+    if (analysisError || !analysis) {
+      throw new Error('Analysis not found');
+    }
+
+    const definition = (getWorkflowGraph(analysis.full_analysis).customAnalysts || [])
+      .find(custom => custom.id === customAnalystId);
+    if (!definition) {
+      return createErrorResponse(`Custom analyst ${customAnalystId} is not part of this analysis`, 200);
+    }
+
+    const agentName = getCustomAnalystAgentName(definition.id);
+    const phase = definition.phase;
+    displayName = definition.name;
+
+    const retryStatus = getRetryStatus(request);
+    console.log(`🧩 Custom analyst "${displayName}" starting for ${ticker} in ${phase} phase (${retryStatus})`);
+    console.log(`🤖 Using AI: ${apiSettings.ai_provider || 'openai'} | Model: ${apiSettings.ai_model || 'default'}`);
+
+    const isRetryAttempt = request.retryCount !== undefined && request.retryCount > 0;
+
+    const completionStatus = await checkAgentCompletion(
+      supabase,
+      analysisId,
+      agentName,
+      agentName,
+      isRetryAttempt
+    );
+
+    if (completionStatus.hasCompleted && completionStatus.status === 'completed') {
+      console.log(`✅ ${displayName} already completed for analysis ${analysisId}`);
+      return createSuccessResponse({
+        agent: displayName,
+        message: 'Agent already completed for this analysis',
+        alreadyCompleted: true,
+        existingInsights: completionStatus.existingInsights,
+        retryInfo: retryStatus
+      });
+    }
+
+    const blockingCheck = await checkForBlockingOperations(supabase, analysisId, agentName);
+    if (!blockingCheck.canProceed) {
+      console.log(`🛑 ${displayName} cannot proceed: ${blockingCheck.reason}`);
+      return createCanceledResponse(
+        `${displayName} cannot proceed: ${blockingCheck.reason}`,
+        true
+      );
+    }
+
+    // Setup timeout with self-retry mechanism (the retry keeps customAnalystId in the request)
+    timeoutId = setupAgentTimeout(
+      supabase,
+      request,
+      CUSTOM_RETRY_CONFIG,
+      displayName
+    );
+
+    const cancellationCheck = await checkAnalysisCancellation(supabase, analysisId);
+    if (!cancellationCheck.shouldContinue) {
+      console.log(`🛑 ${displayName} stopped: ${cancellationCheck.reason}`);
+      return createCanceledResponse(
+        `${displayName} stopped: ${cancellationCheck.reason}`,
+        cancellationCheck.isCanceled
+      );
+    }
+
+    const updateResult = await updateAnalysisPhase(supabase, analysisId, `${displayName} analyzing`, {
+      agent: displayName,
+      message: `Running custom analysis with ${definition.dataInputs.length} data input(s)`,
+      timestamp: new Date().toISOString(),
+      type: 'info'
+    });
+
+    if (!updateResult.success) {
+      console.log(`🛑 ${displayName} stopped: ${updateResult.error}`);
+      return createCanceledResponse(
+        `${displayName} stopped: ${updateResult.error}`,
+        true
+      );
+    }
+
+    let aiResponse = '';
+    let report: AnalystReportOutput | null = null;
+    let agentError: string | null = null;
+    let sources: any[] = [];
+
+    try {
+      const inputs = await gatherInputs(supabase, definition, request, analysis.agent_insights, analysis.full_analysis);
+      sources = inputs.sources;
+
+      const prompt = `Analyze ${ticker} for a ${phase === 'risk' ? 'risk review of the proposed trade' : 'trading decision'}.
+
+${inputs.sections.length > 0 ? inputs.sections.join('\n\n') : 'No market data was provided; rely on your instructions.'}
+
+End with a clear BUY/SELL/HOLD view, your confidence level and the main reasons.`;
+
+      const maxTokens = phase === 'risk'
+        ? (apiSettings.risk_max_tokens || 1200)
+        : (apiSettings.analysis_max_tokens || 1200);
+
+      const aiResult = await callAIProviderWithStructuredOutput<AnalystReportOutput>(
+        apiSettings,
+        prompt,
+        definition.systemPrompt,
+        AGENT_OUTPUT_SCHEMAS.ANALYST_REPORT,
+        maxTokens,
+        3
+      );
+      aiResponse = aiResult.text;
+      report = aiResult.data;
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: displayName,
+        usage: aiResult.usage,
+        priceOverrides: apiSettings.ai_model_prices
+      });
+
+      if (!aiResponse || aiResponse.trim() === '') {
+        throw new Error('AI provider returned empty response');
+      }
+    } catch (aiError) {
+      console.error(`❌ ${displayName} failed:`, aiError);
+      agentError = aiError.message || 'Failed to get AI response';
+
+      const currentAttempt = request._retry?.attempt ?? 0;
+      const maxSelfRetries = request._retry?.maxRetries ?? CUSTOM_RETRY_CONFIG.maxRetries;
+      if (currentAttempt < maxSelfRetries) {
+        console.log(`⏳ ${displayName} encountered an error but retries remain. Deferring error status.`);
+        if (timeoutId !== null) {
+          clearAgentTimeout(timeoutId, displayName, 'error handled - retry scheduled');
+          timeoutId = null;
+        }
+        return createSuccessResponse({
+          agent: displayName,
+          retryScheduled: true,
+          retryAttempt: currentAttempt + 1,
+          maxRetries: maxSelfRetries,
+          message: 'Custom analyst error encountered; automatic retry scheduled'
+        });
+      }
+    }
+
+    const agentOutput = {
+      agent: displayName,
+      customAnalystId: definition.id,
+      timestamp: new Date().toISOString(),
+      dataInputs: definition.dataInputs,
+      sources,
+      analysis: aiResponse,
+      error: agentError,
+      ...(report ? { summary: { stance: report.stance, confidence: report.confidence, keyPoints: report.keyPoints } } : {})
+    };
+
+    if (agentError) {
+      const errorResult = await setAgentToError(
+        supabase,
+        analysisId,
+        phase,
+        agentName,
+        agentError,
+        classifyError(agentError),
+        ticker,
+        userId,
+        apiSettings
+      );
+      if (!errorResult.success) {
+        console.error('Failed to set agent to error:', errorResult.error);
+      }
+    } else {
+      const insightsResult = await updateAgentInsights(supabase, analysisId, agentName, agentOutput);
+      if (!insightsResult.success) {
+        console.error('Failed to update insights:', insightsResult.error);
+      }
+
+      const messageResult = await appendAnalysisMessage(supabase, analysisId, displayName, aiResponse, phase);
+      if (!messageResult.success) {
+        console.error('Failed to append message:', messageResult.error);
+      }
+
+      const statusResult = await updateWorkflowStepStatus(supabase, analysisId, phase, agentName, 'completed');
+      if (!statusResult.success) {
+        console.error('Failed to update workflow status:', statusResult.error);
+      }
+      console.log(`✅ ${displayName} data saved successfully`);
+    }
+
+    if (timeoutId !== null) {
+      clearAgentTimeout(timeoutId, displayName, 'completed successfully');
+    }
+
+    if (agentError) {
+      console.log(`⚠️ ${displayName} completed with errors - notifying coordinator, NOT invoking next agent`);
+      notifyCoordinatorAsync(supabase, {
+        analysisId,
+        ticker,
+        userId,
+        phase,
+        agent: agentName,
+        apiSettings,
+        error: agentError,
+        errorType: classifyError(agentError),
+        completionType: 'error',
+        analysisContext: request.analysisContext
+      }, displayName);
+    } else {
+      const nextAgentResult = await invokeNextAgentInSequence(
+        supabase,
+        analysisId,
+        phase,
+        agentName,
+        ticker,
+        userId,
+        apiSettings,
+        request.analysisContext
+      );
+
+      if (nextAgentResult.success) {
+        if (nextAgentResult.isLastInPhase) {
+          console.log(`📋 ${displayName} is last in ${phase} phase - notifying coordinator for phase transition`);
+          notifyCoordinatorAsync(supabase, {
+            analysisId,
+            ticker,
+            userId,
+            phase,
+            agent: agentName,
+            apiSettings,
+            completionType: 'last_in_phase',
+            analysisContext: request.analysisContext
+          }, displayName);
+        } else {
+          console.log(`✅ ${displayName} successfully handed off to: ${nextAgentResult.nextAgent}`);
+        }
+      } else {
+        console.log(`⚠️ Failed to invoke next agent, falling back to coordinator: ${nextAgentResult.error}`);
+        notifyCoordinatorAsync(supabase, {
+          analysisId,
+          ticker,
+          userId,
+          phase,
+          agent: agentName,
+          apiSettings,
+          completionType: 'fallback_invocation_failed',
+          failedToInvoke: nextAgentResult.intendedAgent,
+          analysisContext: request.analysisContext
+        }, displayName);
+      }
+    }
+
+    console.log(`✅ ${displayName} completed for ${ticker} (${retryStatus})`);
+
+    return createSuccessResponse({
+      agent: displayName,
+      retryInfo: retryStatus
+    });
+
+  } catch (error) {
+    if (timeoutId !== null) {
+      clearAgentTimeout(timeoutId, displayName, 'error occurred');
+    }
+
+    console.error(`❌ ${displayName} error:`, error);
+
+    if (error.message.includes('API key') || error.message.includes('api_key') || error.message.includes('invalid key')) {
+      return createApiErrorResponse('AI Provider', 'key');
+    } else if (error.message.includes('rate limit') || error.message.includes('quota')) {
+      return createApiErrorResponse('AI Provider', 'quota');
+    } else if (error.message.includes('Supabase') || error.message.includes('database')) {
+      return createErrorResponse('Database error occurred during custom analysis. Please try again.', 200);
+    } else {
+      return createErrorResponse(
+        `Custom analysis failed: ${error.message}`,
+        200,
+        { agent: displayName }
+      );
+    }
+  }
+});
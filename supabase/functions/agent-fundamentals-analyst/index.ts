@@ -6,7 +6,10 @@ import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { checkAgentCompletion, checkForBlockingOperations } from '../_shared/agentCompletionCheck.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { callPerplefina, structurePerplefinaResearch } from '../_shared/perplefinaClient.ts'
+import type { AnalystReportOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
+import { getFundamentals, formatFundamentalsForAI, type FundamentalsSnapshot } from '../_shared/fundamentals/index.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -148,10 +151,26 @@ serve(async (req) => {
 
     console.log(`📊 Using optimization: ${optimizationMode} with ${maxSources} sources`);
 
+    // Structured figures are best effort - the web research still runs without them
+    let fundamentals: FundamentalsSnapshot | null = null;
+    try {
+      fundamentals = await getFundamentals(supabase, ticker);
+    } catch (fundamentalsError) {
+      console.warn('⚠️ Structured fundamentals unavailable:', fundamentalsError);
+    }
+
+    const verifiedFigures = fundamentals ? `
+
+Verified figures from company filings:
+${formatFundamentalsForAI(fundamentals)}
+
+Use these verified figures for revenue, earnings, margins, balance sheet and cash flow. Where a web source disagrees with them, use the verified figure and point out the discrepancy. Say which figures came from filings and which from web sources.` : '';
+
     // Call Perplefina API for fundamental analysis
     let aiResponse = '';
     let agentError = null;
     let perplefinaData = null;
+    let report: AnalystReportOutput | null = null;
 
     try {
       // Get current date for more precise queries
@@ -163,6 +182,10 @@ serve(async (req) => {
 
       // Note: Position context is available in analysisContext but not included in prompt
 
+      const systemInstructions = `You are a fundamental analyst for ${ticker}.
+
+Provide comprehensive analysis including: 1) Valuation assessment (P/E, PEG, EV/EBITDA), 2) Financial health evaluation, 3) Growth prospects analysis, 4) Cash flow assessment, 5) Key strengths/weaknesses, 6) Sector comparison, 7) Investment recommendation. Based on your fundamental analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append a Markdown table organizing: Valuation Status, Financial Health Grade, Growth Outlook, Fundamental Recommendation (BUY/SELL/HOLD), Key Risk Factors.${verifiedFigures}`;
+
       const data = await callPerplefina({
         focusMode: 'fundamentals',
         query: `Comprehensive fundamental analysis for ${ticker} stock as of ${currentDate} including financial statements, valuation, growth prospects, and investment recommendation.`,
@@ -171,16 +194,42 @@ serve(async (req) => {
         chatModel: {
           provider: apiSettings.ai_provider,
           model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
+          apiKey: apiSettings.ai_api_key,
+          baseUrl: apiSettings.ai_base_url || undefined
         },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
-        timeoutMs: 180000,
-        systemInstructions: `You are a fundamental analyst for ${ticker}.
+        timeoutMs: 120000, // leaves time to structure the research within the agent timeout
+        systemInstructions
+      });
 
-Provide comprehensive analysis including: 1) Valuation assessment (P/E, PEG, EV/EBITDA), 2) Financial health evaluation, 3) Growth prospects analysis, 4) Cash flow assessment, 5) Key strengths/weaknesses, 6) Sector comparison, 7) Investment recommendation. Based on your fundamental analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append a Markdown table organizing: Valuation Status, Financial Health Grade, Growth Outlook, Fundamental Recommendation (BUY/SELL/HOLD), Key Risk Factors.`
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Fundamentals Analyst',
+        usage: data.usage,
+        priceOverrides: apiSettings.ai_model_prices
       });
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
+      // Validated report built from the research; the research text is the fallback
+      const structured = await structurePerplefinaResearch(
+        apiSettings,
+        data,
+        ticker,
+        systemInstructions,
+        apiSettings.analysis_max_tokens || 1200
+      );
+      if (structured) {
+        await recordAIUsage(supabase, {
+          userId,
+          analysisId,
+          agentName: 'Fundamentals Analyst',
+          usage: structured.usage,
+          priceOverrides: apiSettings.ai_model_prices
+        });
+        report = structured.data;
+      }
+
+      aiResponse = structured?.text || data.message || 'No analysis content received from Perplefina';
       perplefinaData = data.sources || [];
 
     } catch (aiError) {
@@ -219,9 +268,11 @@ Please retry the analysis or check your Perplefina configuration.`;
       agent: 'Fundamentals Analyst',
       timestamp: new Date().toISOString(),
       sources: perplefinaData,
+      fundamentals, // Structured statements from the fundamentals provider, null when unavailable
       analysis: aiResponse,
       error: agentError,
-      fundamentalScore: agentError ? 0 : fundamentalScore
+      fundamentalScore: agentError ? 0 : fundamentalScore,
+      ...(report ? { summary: { stance: report.stance, confidence: report.confidence, keyPoints: report.keyPoints } } : {})
     };
 
     // Update analysis atomically to prevent race conditions
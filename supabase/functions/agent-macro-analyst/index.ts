@@ -6,7 +6,9 @@ import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { checkAgentCompletion, checkForBlockingOperations } from '../_shared/agentCompletionCheck.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { callPerplefina, structurePerplefinaResearch } from '../_shared/perplefinaClient.ts'
+import type { AnalystReportOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -140,6 +142,7 @@ serve(async (req) => {
     let aiResponse = '';
     let agentError = null;
     let perplefinaData = null;
+    let report: AnalystReportOutput | null = null;
 
     try {
       // Get current date for more precise news queries
@@ -151,6 +154,10 @@ serve(async (req) => {
 
       // Note: Position context is available in analysisContext but not included in prompt
 
+      const systemInstructions = `You are a macroeconomic analyst tasked with analyzing how current economic conditions impact ${ticker}.
+
+Provide detailed analysis of macroeconomic factors including interest rates, inflation trends, GDP growth, employment data, monetary policy, fiscal policy, and global economic conditions. Explain how these factors specifically affect ${ticker} and its sector. Based on your macroeconomic analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Economic Outlook, Key Positive Factors, Key Risk Factors, Sector Impact, Macro-Based Recommendation (BUY/SELL/HOLD), Confidence Level.`;
+
       const data = await callPerplefina({
         focusMode: 'macroEconomy',
         query: `What's the trading recommendation for ${ticker} at current global macro economic situation based on analysis of Fed policy, inflation data, growth outlook, interest rates, short term stock investment recommendations, and key risks as of the day ${currentDate}`,
@@ -159,16 +166,42 @@ serve(async (req) => {
         chatModel: {
           provider: apiSettings.ai_provider,
           model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
+          apiKey: apiSettings.ai_api_key,
+          baseUrl: apiSettings.ai_base_url || undefined
         },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
-        timeoutMs: 180000,
-        systemInstructions: `You are a macroeconomic analyst tasked with analyzing how current economic conditions impact ${ticker}.
+        timeoutMs: 120000, // leaves time to structure the research within the agent timeout
+        systemInstructions
+      });
 
-Provide detailed analysis of macroeconomic factors including interest rates, inflation trends, GDP growth, employment data, monetary policy, fiscal policy, and global economic conditions. Explain how these factors specifically affect ${ticker} and its sector. Based on your macroeconomic analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Economic Outlook, Key Positive Factors, Key Risk Factors, Sector Impact, Macro-Based Recommendation (BUY/SELL/HOLD), Confidence Level.`
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Macro Analyst',
+        usage: data.usage,
+        priceOverrides: apiSettings.ai_model_prices
       });
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
+      // Validated report built from the research; the research text is the fallback
+      const structured = await structurePerplefinaResearch(
+        apiSettings,
+        data,
+        ticker,
+        systemInstructions,
+        apiSettings.analysis_max_tokens || 1200
+      );
+      if (structured) {
+        await recordAIUsage(supabase, {
+          userId,
+          analysisId,
+          agentName: 'Macro Analyst',
+          usage: structured.usage,
+          priceOverrides: apiSettings.ai_model_prices
+        });
+        report = structured.data;
+      }
+
+      aiResponse = structured?.text || data.message || 'No analysis content received from Perplefina';
       perplefinaData = data.sources || [];
 
       // Log the full raw response for debugging
@@ -210,7 +243,8 @@ Please retry the analysis or check your Perplefina configuration.`;
       timestamp: new Date().toISOString(),
       sources: perplefinaData,
       analysis: aiResponse,
-      error: agentError
+      error: agentError,
+      ...(report ? { summary: { stance: report.stance, confidence: report.confidence, keyPoints: report.keyPoints } } : {})
     };
 
     // Update analysis atomically to prevent race conditions
@@ -1,7 +1,9 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, type StructuredAIProviderResult, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
+import { AGENT_OUTPUT_SCHEMAS, type AnalystReportOutput } from '../_shared/structuredOutput.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
@@ -20,10 +22,14 @@ import {
 import {
   getCachedMarketDataWithIndicators,
   formatIndicatorsForAI,
+  resolveIndicatorSet,
+  INDICATOR_SET_LABELS,
   type HistoricalPrice,
   type TechnicalIndicators
 } from '../_shared/technicalIndicators.ts'
 import { formatNYTimestamp, getMarketSession } from '../_shared/timezoneUtils.ts'
+import { getMultiTimeframeView, formatMultiTimeframeForAI, type MultiTimeframeView } from '../_shared/multiTimeframe.ts'
+import { detectPatterns, formatPatternsForAI, type DetectedPattern } from '../_shared/patternRecognition.ts'
 
 // Extended interface for Market Analyst specific settings
 interface MarketAnalystRequest extends AgentRequest {
@@ -53,6 +59,10 @@ interface MarketAnalysisData {
   technicalIndicators: TechnicalIndicators;
   analysisRange: string;
   dataPoints: number;
+  // Weekly / daily / intraday trends; null when no timeframe could be loaded
+  multiTimeframe: MultiTimeframeView | null;
+  // Candlestick and chart patterns detected on historicalData
+  patterns: DetectedPattern[];
 }
 
 serve(async (req) => {
@@ -224,8 +234,19 @@ serve(async (req) => {
         historicalData,
         technicalIndicators,
         analysisRange: marketRange,
-        dataPoints: historicalData.length
+        dataPoints: historicalData.length,
+        multiTimeframe: null,
+        patterns: detectPatterns(historicalData, technicalIndicators)
       };
+      console.log(`🔍 Detected ${marketData.patterns.length} patterns for ${ticker}`);
+
+      // Extra timeframes are best effort - the single-range analysis still runs without them
+      try {
+        const view = await getMultiTimeframeView(ticker, supabase);
+        marketData.multiTimeframe = view.timeframes.length > 0 ? view : null;
+      } catch (timeframeError) {
+        console.warn('⚠️ Multi-timeframe view failed:', timeframeError);
+      }
 
       console.log(`✅ Technical indicators ready (${fromCache ? 'cached' : 'calculated'})`);
       console.log(`💰 Current Price: $${marketData.currentPrice.toFixed(2)} (${marketData.dayChangePercent >= 0 ? '+' : ''}${marketData.dayChangePercent.toFixed(2)}%)`);
@@ -246,16 +267,28 @@ serve(async (req) => {
         historicalData: [],
         technicalIndicators: {} as TechnicalIndicators,
         analysisRange: marketRange,
-        dataPoints: 0
+        dataPoints: 0,
+        multiTimeframe: null,
+        patterns: []
       };
     }
 
     // Build and call AI analysis
     let analysisText = '';
+    let report: AnalystReportOutput | null = null;
 
     try {
       if (!agentError) {
-        analysisText = await analyzeWithAI(marketData, apiSettings, analysisContext);
+        const aiResult = await analyzeWithAI(marketData, apiSettings, analysisContext);
+        analysisText = aiResult.text;
+        report = aiResult.data;
+        await recordAIUsage(supabase, {
+          userId,
+          analysisId,
+          agentName: 'Market Analyst',
+          usage: aiResult.usage,
+          priceOverrides: apiSettings.ai_model_prices
+        });
 
         // Validate that we got a response
         if (!analysisText || analysisText.trim() === '') {
@@ -289,6 +322,8 @@ serve(async (req) => {
       },
       market_historical: marketData.historicalData, // Store full 1Y historical data
       technical_indicators: marketData.technicalIndicators, // Store all calculated indicators
+      multi_timeframe: marketData.multiTimeframe, // Per-timeframe trends and their alignment
+      patterns: marketData.patterns, // Detected candlestick and chart patterns with bar indices
       analysis: analysisText, // The AI analysis text
       error: agentError,
       summary: {
@@ -297,7 +332,10 @@ serve(async (req) => {
         volume: marketData.volume,
         dataPoints: marketData.dataPoints,
         indicatorsCalculated: Object.keys(marketData.technicalIndicators || {}).length,
-        analysisRange: marketData.analysisRange
+        analysisRange: marketData.analysisRange,
+        trendAlignment: marketData.multiTimeframe?.alignment ?? null,
+        patternsDetected: marketData.patterns.length,
+        ...(report ? { stance: report.stance, confidence: report.confidence, keyPoints: report.keyPoints } : {})
       }
     };
 
@@ -473,13 +511,15 @@ serve(async (req) => {
   }
 });
 
-async function analyzeWithAI(marketData: MarketAnalysisData, apiSettings: any, analysisContext?: any): Promise<string> {
+async function analyzeWithAI(marketData: MarketAnalysisData, apiSettings: any, analysisContext?: any): Promise<StructuredAIProviderResult<AnalystReportOutput>> {
   // Comprehensive technical analysis instructions
   const promptInstructions = 'Write a detailed and comprehensive technical analysis with actionable insights for traders.';
-  const indicatorFocus = 'Analyze all moving averages, MACD (line, signal, histogram), RSI, Bollinger Bands, ATR, volume patterns, and identify key support/resistance levels.';
+  const indicatorSet = resolveIndicatorSet(apiSettings.analysis_indicators);
+  const indicatorNames = indicatorSet.map(key => INDICATOR_SET_LABELS[key]).join(', ');
+  const indicatorFocus = `Analyze the selected indicators (${indicatorNames}) and how they confirm or contradict each other.`;
 
   // Format technical indicators for AI analysis (downsampled to 30 points with most recent data preserved)
-  const formattedIndicators = formatIndicatorsForAI(marketData.technicalIndicators, marketData.historicalData, 30);
+  const formattedIndicators = formatIndicatorsForAI(marketData.technicalIndicators, marketData.historicalData, 30, indicatorSet);
   console.log(`📊 Downsampled ${marketData.dataPoints} data points to 30 for efficient AI analysis (most recent point preserved)`);
 
   // Create market summary
@@ -506,20 +546,26 @@ ${JSON.stringify(marketSummary, null, 2)}
 
 **Technical Analysis Data:**
 ${formattedIndicators}
+${marketData.multiTimeframe ? `
+**Multi-Timeframe View (weekly trend, daily structure, intraday momentum):**
+${formatMultiTimeframeForAI(marketData.multiTimeframe)}` : ''}
+
+**Detected Patterns (deterministic, computed from the ${marketData.analysisRange} bars):**
+${formatPatternsForAI(marketData.patterns)}
 
 **Analysis Instructions:**
 - Use the comprehensive technical indicator data provided above
 - The data includes ${marketData.dataPoints} data points downsampled to 30 for analysis (most recent data point preserved)
-- All major technical indicators are calculated: Moving Averages, MACD, RSI, Bollinger Bands, ATR, Volume indicators
-- Support and resistance levels are identified from price action
+- Indicators provided: ${indicatorNames}
 - Focus on recent trends and current market conditions
-- Provide specific price levels and actionable insights
+- Treat the detected patterns as facts: discuss the relevant ones with their confidence and whether they are confirmed, and do not claim patterns that are not listed
+${marketData.multiTimeframe ? '- State explicitly whether the weekly, daily and intraday trends are aligned, and weigh entries against the higher timeframe\n' : ''}- Provide specific price levels and actionable insights
 
 **Response Format:**
 1. **Executive Summary** - Key findings and current market state
-2. **Trend Analysis** - Short, medium, and long-term trends from moving averages
-3. **Momentum Analysis** - RSI, MACD, and stochastic insights
-4. **Volatility & Support/Resistance** - Bollinger Bands, ATR, key levels
+2. **Trend Analysis** - Short, medium, and long-term trend direction and strength${marketData.multiTimeframe ? ', including a multi-timeframe alignment table (weekly / daily / intraday)' : ''}
+3. **Momentum Analysis** - Oscillator readings, divergences and crossovers
+4. **Volatility & Support/Resistance** - Bands, channels, key price levels and detected patterns
 5. **Volume Analysis** - Volume trends and confirmation signals
 6. **Trading Outlook** - Potential scenarios and key levels to watch
 
@@ -539,10 +585,17 @@ Analyze the comprehensive technical data and provide professional insights that
     console.log(`🔑 API Key present: ${!!apiSettings.ai_api_key}`);
     console.log(`📊 Prompt length: ${prompt.length} chars`);
 
-    const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.marketAnalyst, maxTokens, 3);
+    const result = await callAIProviderWithStructuredOutput<AnalystReportOutput>(
+      apiSettings,
+      prompt,
+      SYSTEM_PROMPTS.marketAnalyst,
+      AGENT_OUTPUT_SCHEMAS.ANALYST_REPORT,
+      maxTokens,
+      3
+    );
 
-    console.log(`✅ AI response received - Length: ${result?.length || 0} chars`);
-    if (!result || result.trim() === '') {
+    console.log(`✅ AI response received - Length: ${result.text?.length || 0} chars`);
+    if (!result.text || result.text.trim() === '') {
       console.error('⚠️ AI provider returned empty response');
       throw new Error('AI provider returned empty response. Please check your API configuration.');
     }
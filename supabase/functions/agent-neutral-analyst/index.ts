@@ -1,7 +1,9 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, type StructuredAIProviderResult, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
+import { AGENT_OUTPUT_SCHEMAS, type RiskPerspectiveOutput } from '../_shared/structuredOutput.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
@@ -156,10 +158,20 @@ serve(async (req) => {
 
         // Build and call AI analysis
         let analysisText = '';
+        let perspective: RiskPerspectiveOutput | null = null;
         let agentError = null;
 
         try {
-            analysisText = await analyzeWithAI(ticker, insights, apiSettings, positionData, preferences, portfolioData);
+            const aiResult = await analyzeWithAI(ticker, insights, apiSettings, positionData, preferences, portfolioData);
+            analysisText = aiResult.text;
+            perspective = aiResult.data;
+            await recordAIUsage(supabase, {
+                userId,
+                analysisId,
+                agentName: 'Neutral Analyst',
+                usage: aiResult.usage,
+                priceOverrides: apiSettings.ai_model_prices
+            });
 
             // Validate that we got a response
             if (!analysisText || analysisText.trim() === '') {
@@ -181,6 +193,14 @@ serve(async (req) => {
             timestamp: new Date().toISOString(),
             analysis: analysisText,
             error: agentError,
+            // Sizing view read by the Risk Manager; only present when the response validated
+            ...(perspective ? {
+                recommendation: perspective.recommendation,
+                balancedPosition: { size: `${perspective.positionSizePercent}%` },
+                maxLoss: `${perspective.maxLossPercent}%`,
+                expectedReturn: perspective.expectedReturnPercent === null ? null : `${perspective.expectedReturnPercent}%`,
+                warningLevel: perspective.warningLevel
+            } : {}),
             summary: {
                 riskProfile: 'balanced',
                 focus: 'moderate risk with balanced returns',
@@ -344,7 +364,7 @@ serve(async (req) => {
     }
 });
 
-async function analyzeWithAI(ticker: string, insights: any, apiSettings: any, positionData?: any, preferences?: any, portfolioData?: any): Promise<string> {
+async function analyzeWithAI(ticker: string, insights: any, apiSettings: any, positionData?: any, preferences?: any, portfolioData?: any): Promise<StructuredAIProviderResult<RiskPerspectiveOutput>> {
     // Build position context for the prompt
     let positionContext = '';
     if (positionData?.stock_in_holdings) {
@@ -505,9 +525,16 @@ Provide a balanced, moderate-risk analysis that seeks reasonable returns with ma
         const maxTokens = apiSettings.analysis_max_tokens || 1800;
         console.log(`📝 Using ${maxTokens} max tokens for neutral analysis`);
 
-        const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.neutralAnalyst, maxTokens, 3);
+        const result = await callAIProviderWithStructuredOutput<RiskPerspectiveOutput>(
+            apiSettings,
+            prompt,
+            SYSTEM_PROMPTS.neutralAnalyst,
+            AGENT_OUTPUT_SCHEMAS.RISK_PERSPECTIVE,
+            maxTokens,
+            3
+        );
 
-        if (!result || result.trim() === '') {
+        if (!result.text || result.text.trim() === '') {
             throw new Error('AI provider returned empty response. Please check your API configuration.');
         }
 
@@ -7,7 +7,9 @@ import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { checkAgentCompletion, checkForBlockingOperations } from '../_shared/agentCompletionCheck.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { callPerplefina, structurePerplefinaResearch } from '../_shared/perplefinaClient.ts'
+import type { AnalystReportOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -147,6 +149,7 @@ serve(async (req) => {
     let aiResponse = '';
     let agentError = null;
     let perplefinaData = null;
+    let report: AnalystReportOutput | null = null;
 
     try {
       // Get current date for more precise news queries
@@ -158,6 +161,10 @@ serve(async (req) => {
 
       // Note: Position context is available in analysisContext but not included in prompt
 
+      const systemInstructions = `You are a news researcher tasked with analyzing recent news for ${ticker}.
+
+Provide detailed and finegrained analysis and insights that may help traders make decisions. Include sentiment analysis, key developments, and trading implications. Based on your news analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Overall Sentiment, Key Positive Developments, Risk Factors, Trading Implications, News-Based Recommendation (BUY/SELL/HOLD), Confidence Level.`;
+
       const data = await callPerplefina({
         focusMode: 'news',
         query: `What's the trading recommendation based on news analysis and sentiment for ${ticker} stock as of ${currentDate}? Focus on recent developments and their impact on trading decisions.`,
@@ -166,16 +173,42 @@ serve(async (req) => {
         chatModel: {
           provider: apiSettings.ai_provider,
           model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
+          apiKey: apiSettings.ai_api_key,
+          baseUrl: apiSettings.ai_base_url || undefined
         },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
-        timeoutMs: 180000,
-        systemInstructions: `You are a news researcher tasked with analyzing recent news for ${ticker}.
+        timeoutMs: 120000, // leaves time to structure the research within the agent timeout
+        systemInstructions
+      });
 
-Provide detailed and finegrained analysis and insights that may help traders make decisions. Include sentiment analysis, key developments, and trading implications. Based on your news analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Overall Sentiment, Key Positive Developments, Risk Factors, Trading Implications, News-Based Recommendation (BUY/SELL/HOLD), Confidence Level.`
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'News Analyst',
+        usage: data.usage,
+        priceOverrides: apiSettings.ai_model_prices
       });
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
+      // Validated report built from the research; the research text is the fallback
+      const structured = await structurePerplefinaResearch(
+        apiSettings,
+        data,
+        ticker,
+        systemInstructions,
+        apiSettings.analysis_max_tokens || 1200
+      );
+      if (structured) {
+        await recordAIUsage(supabase, {
+          userId,
+          analysisId,
+          agentName: 'News Analyst',
+          usage: structured.usage,
+          priceOverrides: apiSettings.ai_model_prices
+        });
+        report = structured.data;
+      }
+
+      aiResponse = structured?.text || data.message || 'No analysis content received from Perplefina';
       perplefinaData = data.sources || [];
 
     } catch (aiError) {
@@ -212,7 +245,8 @@ Please retry the analysis or check your Perplefina configuration.`;
       timestamp: new Date().toISOString(),
       sources: perplefinaData,
       analysis: aiResponse,
-      error: agentError
+      error: agentError,
+      ...(report ? { summary: { stance: report.stance, confidence: report.confidence, keyPoints: report.keyPoints } } : {})
     };
 
     // Update analysis atomically to prevent race conditions
@@ -1,10 +1,14 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { AGENT_OUTPUT_SCHEMAS, type ResearchRecommendationOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
+import { formatCustomAnalystReports } from '../_shared/customAnalysts.ts'
+import { getWorkflowGraph } from '../_shared/workflowGraph.ts'
 import { updateAgentInsights, appendAnalysisMessage, updateWorkflowStepStatus, updateAnalysisPhase, updateResearchConclusion, setAgentToError } from '../_shared/atomicUpdate.ts'
 
 serve(async (req) => {
@@ -120,6 +124,11 @@ serve(async (req) => {
     const marketData = analysis.agent_insights?.marketAnalyst?.summary || {};
     const sentiment = analysis.agent_insights?.socialMediaAnalyst?.summary || {};
     const news = analysis.agent_insights?.newsAnalyst?.summary || {};
+    const customAnalystReports = formatCustomAnalystReports(
+      getWorkflowGraph(analysis.full_analysis).customAnalysts,
+      analysis.agent_insights,
+      'analysis'
+    );
 
     // Prepare AI prompt
     const prompt = `
@@ -147,6 +156,7 @@ serve(async (req) => {
     - Market Performance: ${JSON.stringify(marketData, null, 2)}
     - Sentiment: ${JSON.stringify(sentiment, null, 2)}
     - News: ${JSON.stringify(news, null, 2)}
+    ${customAnalystReports}
 
     Provide a comprehensive research conclusion including:
     1. Overall investment recommendation (Strong Buy, Buy, Hold, Sell, Strong Sell)
@@ -160,13 +170,30 @@ serve(async (req) => {
 
     // Call AI provider
     let aiResponse = '';
+    let structuredRecommendation: ResearchRecommendationOutput | null = null;
     let agentError = null;
     let errorType: 'rate_limit' | 'api_key' | 'ai_error' | 'data_fetch' | 'database' | 'timeout' | 'other' = 'other';
 
     try {
       const maxTokens = apiSettings.research_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for research synthesis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.researchManager, maxTokens, 3);
+      const aiResult = await callAIProviderWithStructuredOutput<ResearchRecommendationOutput>(
+        apiSettings,
+        prompt,
+        SYSTEM_PROMPTS.researchManager,
+        AGENT_OUTPUT_SCHEMAS.RESEARCH_RECOMMENDATION,
+        maxTokens,
+        3
+      );
+      aiResponse = aiResult.text;
+      structuredRecommendation = aiResult.data;
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Research Manager',
+        usage: aiResult.usage,
+        priceOverrides: apiSettings.ai_model_prices
+      });
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -192,8 +219,10 @@ Error details: ${agentError}
 Please retry the analysis or check your AI provider settings.`;
     }
 
-    // Extract recommendation from AI response (not from hardcoded scoring!)
-    const recommendation = extractRecommendationFromAI(aiResponse, bullResearch, bearResearch, fundamentals);
+    // Use the validated structured recommendation; parse the narrative only when it is missing
+    const recommendation = structuredRecommendation
+      ? recommendationFromStructuredOutput(structuredRecommendation)
+      : extractRecommendationFromAI(aiResponse, bullResearch, bearResearch, fundamentals);
 
     // Save agent output (even if there was an error)
     const agentOutput = {
@@ -206,13 +235,13 @@ Please retry the analysis or check your AI provider settings.`;
         conviction: agentError ? 'error' : recommendation.conviction,
         fairValue: agentError ? 'N/A' : recommendation.fairValue,
         upside: agentError ? 'N/A' : recommendation.upside,
-        keyFactors: agentError ? ['Error during analysis'] : [
+        keyFactors: agentError ? ['Error during analysis'] : structuredRecommendation?.keyFactors.length ? structuredRecommendation.keyFactors : [
           'Strong fundamental metrics',
           'Positive market momentum',
           'Manageable risk profile',
           'Favorable risk/reward ratio'
         ],
-        risks: agentError ? ['Analysis failed'] : [
+        risks: agentError ? ['Analysis failed'] : structuredRecommendation?.risks.length ? structuredRecommendation.risks : [
           'Valuation concerns',
           'Competitive pressures',
           'Market volatility'
@@ -402,6 +431,26 @@ Please retry the analysis or check your AI provider settings.`;
  * Extract recommendation from AI response following TradingGoose approach
  * Let the AI make the decision, don't override with hardcoded scoring
  */
+function recommendationFromStructuredOutput(output: ResearchRecommendationOutput) {
+  let rating = 'Hold';
+  if (output.recommendation === 'BUY') {
+    rating = output.conviction >= 8 ? 'Strong Buy' : 'Buy';
+  } else if (output.recommendation === 'SELL') {
+    rating = output.conviction >= 8 ? 'Strong Sell' : 'Sell';
+  }
+
+  const recommendation = {
+    rating,
+    conviction: output.conviction,
+    fairValue: output.fairValue !== null ? `$${output.fairValue.toFixed(2)}` : 'N/A',
+    upside: output.upside !== null ? `${Math.round(output.upside)}%` : 'N/A',
+    score: 0
+  };
+
+  console.log(`📊 Structured recommendation: Rating="${recommendation.rating}", Conviction=${recommendation.conviction}, FairValue=${recommendation.fairValue}, Upside=${recommendation.upside}`);
+  return recommendation;
+}
+
 function extractRecommendationFromAI(aiResponse: string, bullResearch: any, bearResearch: any, fundamentals: any) {
   let rating = 'Hold'; // Default only if extraction fails
   let conviction = 5;
@@ -1,12 +1,17 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { AGENT_OUTPUT_SCHEMAS, type RiskDecisionOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { AgentRequest } from '../_shared/types.ts'
+import { formatCustomAnalystReports } from '../_shared/customAnalysts.ts'
+import { getWorkflowGraph } from '../_shared/workflowGraph.ts'
 import { updateAgentInsights, appendAnalysisMessage, updateWorkflowStepStatus, updateAnalysisPhase, updateFinalAnalysisResults, setAgentToError } from '../_shared/atomicUpdate.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { calculateAllowedCash } from '../_shared/portfolio/cash-constraints.ts'
+import { formatPortfolioRiskContext } from '../_shared/riskAnalytics.ts'
 
 type RiskIntent = 'BUILD' | 'ADD' | 'TRIM' | 'EXIT' | 'HOLD'
 
@@ -140,6 +145,11 @@ serve(async (req) => {
     const riskyAnalyst = analysis.agent_insights?.riskyAnalyst?.strategies || {};
     const safeAnalyst = analysis.agent_insights?.safeAnalyst?.strategies || {};
     const neutralAnalyst = analysis.agent_insights?.neutralAnalyst?.strategies || {};
+    const customAnalystReports = formatCustomAnalystReports(
+      getWorkflowGraph(analysis.full_analysis).customAnalysts,
+      analysis.agent_insights,
+      'risk'
+    );
     const tradingPlan = analysis.full_analysis?.tradingPlan || {};
     const researchConclusion = analysis.full_analysis?.researchConclusion || {};
 
@@ -147,6 +157,7 @@ serve(async (req) => {
     const positionData = analysisContext?.position;
     const preferences = analysisContext?.preferences;
     const portfolioData = analysisContext?.portfolioData;
+    const portfolioRiskContext = formatPortfolioRiskContext(analysisContext?.portfolioRisk, ticker);
     
     // Get the near limit threshold (percentage to consider "near" target/stop)
     const nearLimitThreshold = preferences?.near_limit_threshold || 20;
@@ -304,6 +315,7 @@ serve(async (req) => {
     const prompt = `
     As the Risk Manager for ${ticker}, synthesize all risk perspectives and provide final recommendations.
     ${positionContext}
+    ${portfolioRiskContext}
     
     Trading Plan Summary:
     - Recommendation: ${researchConclusion.recommendation}
@@ -326,6 +338,7 @@ serve(async (req) => {
     - Position Size: ${neutralAnalyst.balancedPosition?.size}
     - Expected Return: ${neutralAnalyst.expectedReturn}
     - Warning Level: ${neutralAnalyst.warningLevel}
+    ${customAnalystReports}
 
     ${!hasCashAvailable ? `
     ⚠️ CRITICAL: NO DEPLOYABLE CASH - BUILD/ADD actions are prohibited until cash policy buffer is restored` : ''}
@@ -353,7 +366,9 @@ serve(async (req) => {
        ${positionData?.stock_in_holdings 
          ? `- Current allocation: ${((positionData.market_value / (portfolioData?.totalValue || 100000)) * 100).toFixed(1)}%`
          : '- Impact of new position on portfolio'}
+       ${portfolioRiskContext ? '- Base portfolio-level risk on the beta, volatility, drawdown and VaR figures above' : ''}
     4. Correlation and diversification considerations
+       ${portfolioRiskContext ? '- Use the measured correlations with current holdings, not assumed ones' : ''}
     5. Black swan event preparation
     6. Specific risk monitoring checklist
        ${positionData?.stock_in_holdings 
@@ -404,13 +419,30 @@ serve(async (req) => {
 
     // Call AI provider
     let aiResponse = '';
+    let structuredDecision: RiskDecisionOutput | null = null;
     let agentError = null;
     let errorType: 'rate_limit' | 'api_key' | 'ai_error' | 'data_fetch' | 'database' | 'timeout' | 'other' = 'other';
 
     try {
       const maxTokens = apiSettings.risk_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for final risk assessment`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.riskManager, maxTokens, 3);
+      const aiResult = await callAIProviderWithStructuredOutput<RiskDecisionOutput>(
+        apiSettings,
+        prompt,
+        SYSTEM_PROMPTS.riskManager,
+        AGENT_OUTPUT_SCHEMAS.RISK_DECISION,
+        maxTokens,
+        3
+      );
+      aiResponse = aiResult.text;
+      structuredDecision = aiResult.data;
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Risk Manager',
+        usage: aiResult.usage,
+        priceOverrides: apiSettings.ai_model_prices
+      });
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -579,13 +611,15 @@ Please retry the analysis or check your AI provider settings.`;
       }
     };
 
-    // Extract final decision and confidence from AI analysis
-    const finalDecision = extractDecisionFromAI(
-      aiResponse,
-      researchConclusion,
-      riskScore,
-      Boolean(positionData?.stock_in_holdings)
-    );
+    // Use the validated structured decision; parse the narrative only when it is missing
+    const finalDecision = structuredDecision
+      ? decisionFromStructuredOutput(structuredDecision, Boolean(positionData?.stock_in_holdings))
+      : extractDecisionFromAI(
+        aiResponse,
+        researchConclusion,
+        riskScore,
+        Boolean(positionData?.stock_in_holdings)
+      );
 
     const researchRecommendation = String(researchConclusion?.recommendation ?? '').trim().toUpperCase();
     const isResearchBullish = researchRecommendation === 'BUY' || researchRecommendation === 'ADD' || researchRecommendation === 'BUILD';
@@ -1057,6 +1091,46 @@ function setFinalDecisionIntent(finalDecision: FinalDecisionRecord, intent: Risk
   }
 }
 
+function decisionFromStructuredOutput(output: RiskDecisionOutput, hasPosition: boolean): FinalDecisionRecord {
+  let intent: RiskIntent = output.intent;
+  // The decision is the binding call; the intent only refines it (BUILD or ADD, TRIM or EXIT)
+  const decision = String(output.decision ?? '').toUpperCase();
+  if ((decision === 'BUY' || decision === 'SELL' || decision === 'HOLD') && intentToTradeDirection(intent) !== decision) {
+    console.warn(`⚠️ Structured intent ${intent} contradicts decision ${decision} - following the decision`);
+    intent = normaliseRecommendation(decision, hasPosition).intent;
+  }
+
+  // Keep the intent consistent with whether a position is actually held
+  if (!hasPosition && intent === 'ADD') {
+    intent = 'BUILD';
+  } else if (hasPosition && intent === 'BUILD') {
+    intent = 'ADD';
+  } else if (!hasPosition && (intent === 'TRIM' || intent === 'EXIT')) {
+    intent = 'HOLD';
+  }
+
+  const tradeDirection = intentToTradeDirection(intent);
+  let suggestedPercent = '';
+  if (intent === 'EXIT') {
+    suggestedPercent = '100%';
+  } else if (intent !== 'HOLD') {
+    suggestedPercent = typeof output.suggestedPercent === 'number' && output.suggestedPercent > 0
+      ? `${formatPercentValue(String(output.suggestedPercent))}%`
+      : extractSuggestedPercent(output.analysis, intent);
+  }
+
+  console.log(`🎯 Structured decision: Intent="${intent}", Trade Direction="${tradeDirection}", Confidence=${output.confidence}%`);
+
+  return {
+    decision: tradeDirection,
+    tradeDirection,
+    intent,
+    confidence: Math.round(output.confidence),
+    suggestedPercent,
+    executionNote: ''
+  };
+}
+
 function extractDecisionFromAI(
   aiResponse: string,
   researchConclusion: ResearchConclusionSummary | null | undefined,
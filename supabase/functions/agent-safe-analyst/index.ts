@@ -1,13 +1,16 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, type StructuredAIProviderResult, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
+import { AGENT_OUTPUT_SCHEMAS, type RiskPerspectiveOutput } from '../_shared/structuredOutput.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { checkAgentCompletion, checkForBlockingOperations } from '../_shared/agentCompletionCheck.ts'
 import { AgentRequest } from '../_shared/types.ts'
 import { formatNYTimestamp, getMarketSession } from '../_shared/timezoneUtils.ts'
+import { formatPortfolioRiskContext } from '../_shared/riskAnalytics.ts'
 
 serve(async (req) => {
     let timeoutId: number | null = null;
@@ -156,10 +159,20 @@ serve(async (req) => {
 
         // Build and call AI analysis
         let analysisText = '';
+        let perspective: RiskPerspectiveOutput | null = null;
         let agentError = null;
 
         try {
-            analysisText = await analyzeWithAI(ticker, insights, apiSettings, positionData, preferences, portfolioData);
+            const aiResult = await analyzeWithAI(ticker, insights, apiSettings, positionData, preferences, portfolioData, analysisContext?.portfolioRisk);
+            analysisText = aiResult.text;
+            perspective = aiResult.data;
+            await recordAIUsage(supabase, {
+                userId,
+                analysisId,
+                agentName: 'Safe Analyst',
+                usage: aiResult.usage,
+                priceOverrides: apiSettings.ai_model_prices
+            });
 
             // Validate that we got a response
             if (!analysisText || analysisText.trim() === '') {
@@ -181,6 +194,14 @@ serve(async (req) => {
             timestamp: new Date().toISOString(),
             analysis: analysisText,
             error: agentError,
+            // Sizing view read by the Risk Manager; only present when the response validated
+            ...(perspective ? {
+                recommendation: perspective.recommendation,
+                conservativePosition: { size: `${perspective.positionSizePercent}%` },
+                maxLoss: `${perspective.maxLossPercent}%`,
+                expectedReturn: perspective.expectedReturnPercent === null ? null : `${perspective.expectedReturnPercent}%`,
+                warningLevel: perspective.warningLevel
+            } : {}),
             summary: {
                 riskProfile: 'conservative',
                 focus: 'capital preservation with income',
@@ -344,7 +365,7 @@ serve(async (req) => {
     }
 });
 
-async function analyzeWithAI(ticker: string, insights: any, apiSettings: any, positionData?: any, preferences?: any, portfolioData?: any): Promise<string> {
+async function analyzeWithAI(ticker: string, insights: any, apiSettings: any, positionData?: any, preferences?: any, portfolioData?: any, portfolioRisk?: any): Promise<StructuredAIProviderResult<RiskPerspectiveOutput>> {
     // Build position context for the prompt
     let positionContext = '';
     if (positionData?.stock_in_holdings) {
@@ -486,7 +507,7 @@ async function analyzeWithAI(ticker: string, insights: any, apiSettings: any, po
 - Consider income generation opportunities
 - Focus on safety and risk mitigation
 
-${positionContext}
+${positionContext}${formatPortfolioRiskContext(portfolioRisk, ticker)}
 
 **Available Analysis Data:**
 ${JSON.stringify(insights, null, 2)}
@@ -498,16 +519,23 @@ ${JSON.stringify(insights, null, 2)}
 4. **Risk Management** - Defensive measures and stop-loss strategies
 5. **Safe Alternatives** - Lower-risk investment alternatives
 6. **Downside Protection** - Hedging and protective strategies
-
+${portfolioRisk ? '7. **Portfolio Risk** - How this position changes the measured portfolio beta, drawdown and VaR, and how it correlates with current holdings\n' : ''}
 Provide a conservative, safety-focused analysis that prioritizes capital preservation.`;
 
     try {
         const maxTokens = apiSettings.analysis_max_tokens || 1800;
         console.log(`📝 Using ${maxTokens} max tokens for safe analysis`);
 
-        const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.safeAnalyst, maxTokens, 3);
+        const result = await callAIProviderWithStructuredOutput<RiskPerspectiveOutput>(
+            apiSettings,
+            prompt,
+            SYSTEM_PROMPTS.safeAnalyst,
+            AGENT_OUTPUT_SCHEMAS.RISK_PERSPECTIVE,
+            maxTokens,
+            3
+        );
 
-        if (!result || result.trim() === '') {
+        if (!result.text || result.text.trim() === '') {
             throw new Error('AI provider returned empty response. Please check your API configuration.');
         }
 
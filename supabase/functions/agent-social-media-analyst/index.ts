@@ -6,7 +6,9 @@ import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { checkAgentCompletion, checkForBlockingOperations } from '../_shared/agentCompletionCheck.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { callPerplefina, structurePerplefinaResearch } from '../_shared/perplefinaClient.ts'
+import type { AnalystReportOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 
 // Extended interface for Social Media Analyst specific settings
 interface SocialMediaAnalystRequest extends AgentRequest {
@@ -162,6 +164,7 @@ serve(async (req) => {
     let aiResponse = '';
     let agentError = null;
     let perplefinaData = null;
+    let report: AnalystReportOutput | null = null;
 
     try {
       // Get current date for more precise social media queries
@@ -173,6 +176,10 @@ serve(async (req) => {
 
       // Note: Position context is available in analysisContext but not included in prompt
 
+      const systemInstructions = `You are a social media analyst for ${ticker}.
+
+Analyze sentiment across platforms (Reddit, Twitter, StockTwits). Include: 1) Overall sentiment momentum, 2) Key themes in discussions, 3) Retail investor sentiment, 4) Concerns/red flags, 5) Social media volume trends. Based on social media sentiment analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append Markdown table: Overall Sentiment Score, Platform Consensus, Key Bullish Factors, Key Bearish Factors, Social Media Recommendation (BUY/SELL/HOLD), Social Risk Level.`;
+
       const data = await callPerplefina({
         focusMode: 'social',
         query: `Social media sentiment analysis for ${ticker} stock including Reddit, Twitter, Discord, Thread, Facebook, Linked-In and trading communities discussion as of ${currentDate}.`,
@@ -181,16 +188,42 @@ serve(async (req) => {
         chatModel: {
           provider: apiSettings.ai_provider,
           model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
+          apiKey: apiSettings.ai_api_key,
+          baseUrl: apiSettings.ai_base_url || undefined
         },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
-        timeoutMs: 180000,
-        systemInstructions: `You are a social media analyst for ${ticker}.
+        timeoutMs: 120000, // leaves time to structure the research within the agent timeout
+        systemInstructions
+      });
 
-Analyze sentiment across platforms (Reddit, Twitter, StockTwits). Include: 1) Overall sentiment momentum, 2) Key themes in discussions, 3) Retail investor sentiment, 4) Concerns/red flags, 5) Social media volume trends. Based on social media sentiment analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append Markdown table: Overall Sentiment Score, Platform Consensus, Key Bullish Factors, Key Bearish Factors, Social Media Recommendation (BUY/SELL/HOLD), Social Risk Level.`
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Social Media Analyst',
+        usage: data.usage,
+        priceOverrides: apiSettings.ai_model_prices
       });
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
+      // Validated report built from the research; the research text is the fallback
+      const structured = await structurePerplefinaResearch(
+        apiSettings,
+        data,
+        ticker,
+        systemInstructions,
+        apiSettings.analysis_max_tokens || 1200
+      );
+      if (structured) {
+        await recordAIUsage(supabase, {
+          userId,
+          analysisId,
+          agentName: 'Social Media Analyst',
+          usage: structured.usage,
+          priceOverrides: apiSettings.ai_model_prices
+        });
+        report = structured.data;
+      }
+
+      aiResponse = structured?.text || data.message || 'No analysis content received from Perplefina';
       perplefinaData = data.sources || [];
 
     } catch (aiError) {
@@ -231,7 +264,8 @@ Please retry the analysis or check your Perplefina configuration.`;
       timestamp: new Date().toISOString(),
       sources: perplefinaData,
       analysis: aiResponse,
-      error: agentError
+      error: agentError,
+      ...(report ? { summary: { stance: report.stance, confidence: report.confidence, keyPoints: report.keyPoints } } : {})
     };
 
     // Update analysis atomically to prevent race conditions
@@ -2,7 +2,9 @@ import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
-import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { callAIProviderWithStructuredOutput, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { AGENT_OUTPUT_SCHEMAS, confidenceLevel, type TradingPlanOutput } from '../_shared/structuredOutput.ts'
+import { recordAIUsage } from '../_shared/aiUsage.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
@@ -302,13 +304,30 @@ serve(async (req) => {
 
     // Call AI provider
     let aiResponse = '';
+    let structuredPlan: TradingPlanOutput | null = null;
     let agentError = null;
 
     try {
       // Note: Default set to 1200 tokens (standardized across all agents)
       const maxTokens = apiSettings.trading_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for trading analysis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.trader, maxTokens, 3);
+      const aiResult = await callAIProviderWithStructuredOutput<TradingPlanOutput>(
+        apiSettings,
+        prompt,
+        SYSTEM_PROMPTS.trader,
+        AGENT_OUTPUT_SCHEMAS.TRADING_PLAN,
+        maxTokens,
+        3
+      );
+      aiResponse = aiResult.text;
+      structuredPlan = aiResult.data;
+      await recordAIUsage(supabase, {
+        userId,
+        analysisId,
+        agentName: 'Trader',
+        usage: aiResult.usage,
+        priceOverrides: apiSettings.ai_model_prices
+      });
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -322,8 +341,11 @@ Error details: ${agentError}
 Please retry the analysis or check your AI provider settings.`;
     }
 
-    // Calculate trading parameters
-    const tradingParams = calculateTradingParameters(currentPrice, researchConclusion, technicalIndicators);
+    // Calculate trading parameters, preferring the plan the AI returned in structured form
+    const calculatedParams = calculateTradingParameters(currentPrice, researchConclusion, technicalIndicators);
+    const tradingParams = structuredPlan
+      ? applyStructuredTradingPlan(calculatedParams, structuredPlan, currentPrice)
+      : calculatedParams;
 
     // Save agent output (even if there was an error)
     const agentOutput = {
@@ -562,6 +584,47 @@ function calculateTradingParameters(currentPrice: number, researchConclusion: an
   };
 }
 
+/**
+ * Overrides the calculated parameters with the values from a validated structured plan
+ */
+function applyStructuredTradingPlan(
+  params: ReturnType<typeof calculateTradingParameters>,
+  plan: TradingPlanOutput,
+  currentPrice: number
+): ReturnType<typeof calculateTradingParameters> {
+  const entryPrice = plan.entryPrice && plan.entryPrice > 0 ? plan.entryPrice : currentPrice;
+  const stopLoss = plan.stopLoss && plan.stopLoss > 0 ? plan.stopLoss : null;
+  const targetPrices = plan.targets.filter(price => price > 0);
+  const allocations = targetPrices.length === 1 ? ['100%'] : targetPrices.length === 2 ? ['50%', '50%'] : ['25%', '50%', '25%'];
+  const descriptions = ['Initial profit taking', 'Core target', 'Extended target'];
+
+  const targets = targetPrices.length > 0
+    ? targetPrices.slice(0, 3).map((price, index) => ({
+      price: Math.round(price * 100) / 100,
+      allocation: allocations[index],
+      description: descriptions[index]
+    }))
+    : params.targets;
+
+  let riskRewardRatio = params.riskRewardRatio;
+  if (stopLoss !== null && stopLoss < entryPrice && targets.length > 0) {
+    const coreTarget = targets[Math.min(1, targets.length - 1)].price;
+    riskRewardRatio = `${Math.round(((coreTarget - entryPrice) / (entryPrice - stopLoss)) * 10) / 10}:1`;
+  }
+
+  console.log(`📊 Structured trading plan: Action=${plan.action}, Entry=${entryPrice}, Stop=${stopLoss ?? 'calculated'}, Confidence=${plan.confidence}%`);
+
+  return {
+    ...params,
+    action: plan.action,
+    entryPrice: `$${entryPrice}`,
+    positionSize: plan.positionSizePercent !== null ? `${plan.positionSizePercent}%` : params.positionSize,
+    stopLoss: stopLoss !== null ? `$${stopLoss}` : params.stopLoss,
+    targets,
+    riskRewardRatio,
+    confidence: confidenceLevel(plan.confidence)
+  };
+}
 
 // Removed local updateAnalysisPhase - now using atomic version from _shared/atomicUpdate.ts
 // Removed local updateWorkflowStepStatus - now using atomic version from _shared/atomicUpdate.ts
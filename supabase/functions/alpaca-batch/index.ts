@@ -3,6 +3,10 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { corsHeaders } from '../_shared/cors.ts';
 import { verifyAndExtractUser } from '../_shared/auth.ts';
 import { generateCryptoSymbolCandidates } from '../_shared/alpacaSymbol.ts';
+import { loadTaxLotReport } from '../_shared/taxLots.ts';
+import { loadPortfolioRiskReport } from '../_shared/riskAnalytics.ts';
+import { BROKER, resolveAccountSettings } from '../_shared/brokerAccounts.ts';
+import { createBroker, isBrokerRequestError, type BrokerAdapter, type BrokerBar } from '../_shared/brokers/index.ts';
 
 interface BatchRequest {
   tickers?: string[];
@@ -18,6 +22,13 @@ interface BatchRequest {
   activitiesUntil?: string;
   maxActivityPages?: number;
   activityPageSize?: number;
+  includeTaxLots?: boolean;
+  includeRiskAnalytics?: boolean;
+  benchmarkSymbols?: string[];
+  benchmarkTimeframe?: string;
+  benchmarkStart?: string;
+  benchmarkEnd?: string;
+  portfolioId?: string | null;
 }
 
 interface NormalizedTicker {
@@ -173,107 +184,6 @@ const summarizeCashFlows = (activities: any[], activityTypes: string[]) => {
   };
 };
 
-const fetchAccountActivities = async (
-  fetcher: (url: string, options: any, timeoutMs?: number, retries?: number) => Promise<Response>,
-  baseUrl: string,
-  headers: Record<string, string>,
-  activityTypes: string[],
-  options: {
-    after?: string;
-    until?: string;
-    direction?: 'asc' | 'desc';
-    pageSize?: number;
-    maxPages?: number;
-  } = {}
-) => {
-  if (activityTypes.length === 0) {
-    return [] as any[];
-  }
-
-  const collected: any[] = [];
-  const direction = options.direction ?? 'asc';
-  const pageSize = Math.min(Math.max(options.pageSize ?? 100, 1), 100);
-  const maxPages = Math.max(options.maxPages ?? 50, 1);
-
-  let pageToken: string | undefined;
-  let pagesFetched = 0;
-
-  while (pagesFetched < maxPages) {
-    const params = new URLSearchParams();
-    params.append('direction', direction);
-    params.append('page_size', String(pageSize));
-    params.append('activity_types', activityTypes.join(','));
-
-    if (options.after) {
-      params.append('after', options.after);
-    }
-
-    if (options.until) {
-      params.append('until', options.until);
-    }
-
-    if (pageToken) {
-      params.append('page_token', pageToken);
-    }
-
-    const url = `${baseUrl}/v2/account/activities?${params.toString()}`;
-    const response = await fetcher(url, { headers }, 20000, 2);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Failed to fetch account activities:', response.status, errorText);
-      break;
-    }
-
-    let data = await response.json();
-    let page: any[] = [];
-    let nextToken: string | undefined;
-
-    if (Array.isArray(data)) {
-      page = data;
-    } else if (data?.activities && Array.isArray(data.activities)) {
-      page = data.activities;
-      nextToken = typeof data.next_page_token === 'string' ? data.next_page_token : undefined;
-    } else {
-      console.error('Unexpected activities response format:', data);
-      break;
-    }
-
-    collected.push(...page);
-    pagesFetched += 1;
-
-    const headerToken = response.headers.get('Next-Page-Token')
-      || response.headers.get('next-page-token')
-      || response.headers.get('x-next-page-token')
-      || response.headers.get('X-Next-Page-Token');
-
-    if (headerToken && headerToken !== 'null') {
-      pageToken = headerToken;
-      continue;
-    }
-
-    if (!nextToken && page.length > 0) {
-      const last = page[page.length - 1];
-      if (last && typeof last.id === 'string' && last.id.length > 0) {
-        nextToken = last.id;
-      }
-    }
-
-    if (nextToken && nextToken !== 'null') {
-      pageToken = nextToken;
-      continue;
-    }
-
-    if (page.length === pageSize) {
-      pageToken = undefined;
-    } else {
-      break;
-    }
-  }
-
-  return collected;
-};
-
 const buildCryptoSymbolList = (tickers: NormalizedTicker[], maxPerTicker: number = MAX_CRYPTO_CANDIDATES): string[] => {
   const seen = new Set<string>();
 
@@ -316,6 +226,69 @@ const findFirstCryptoMatch = (
 
   return null;
 };
+
+const MAX_BENCHMARK_SYMBOLS = 10;
+
+interface BenchmarkBar {
+  t: string;
+  c: number;
+}
+
+/**
+ * Close prices for the performance chart's benchmark overlay, keyed by the requested symbol
+ */
+const fetchBenchmarkBars = async (
+  broker: BrokerAdapter,
+  symbols: string[],
+  timeframe: string,
+  start: string,
+  end: string | undefined
+): Promise<Record<string, BenchmarkBar[]>> => {
+  const bars: Record<string, BenchmarkBar[]> = {};
+  const normalized = symbols.map(normalizeTicker);
+  const stockTickers = normalized.filter((info) => !looksLikeCrypto(info));
+  const cryptoTickers = normalized.filter((info) => looksLikeCrypto(info));
+
+  const toBenchmarkBars = (entries: BrokerBar[] | undefined): BenchmarkBar[] =>
+    (entries || [])
+      .map((bar) => ({ t: bar.t, c: toFiniteNumber(bar.c) }))
+      .filter((bar) => bar.t && bar.c > 0);
+
+  if (stockTickers.length > 0) {
+    try {
+      const stockBars = await broker.getBars(stockTickers.map((info) => info.stockSymbol), {
+        timeframe,
+        start,
+        end,
+        adjustment: 'all'
+      });
+      for (const info of stockTickers) {
+        bars[info.raw] = toBenchmarkBars(stockBars[info.stockSymbol]);
+      }
+    } catch (error) {
+      console.error('Benchmark bars request failed:', error);
+    }
+  }
+
+  if (cryptoTickers.length > 0) {
+    if (!broker.capabilities.crypto) {
+      console.warn(`${broker.label} has no crypto data - skipping ${cryptoTickers.map((info) => info.raw).join(', ')}`);
+    } else {
+      try {
+        const candidates = cryptoTickers.flatMap((info) => info.cryptoCandidates.slice(0, MAX_CRYPTO_CANDIDATES));
+        const cryptoBars = await broker.getBars(candidates, { timeframe, start, end, crypto: true });
+        for (const info of cryptoTickers) {
+          bars[info.raw] = toBenchmarkBars(findFirstCryptoMatch(cryptoBars, info)?.value);
+        }
+      } catch (error) {
+        console.error('Benchmark crypto bars request failed:', error);
+      }
+    }
+  }
+
+  return bars;
+};
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -342,8 +315,8 @@ serve(async (req) => {
     // Use service role to access database
     const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
     // Get user's API settings
-    const { data: apiSettings, error: settingsError } = await supabaseAdmin.from('api_settings').select('*').eq('user_id', userId).single();
-    if (settingsError || !apiSettings) {
+    const { data: userSettings, error: settingsError } = await supabaseAdmin.from('api_settings').select('*').eq('user_id', userId).single();
+    if (settingsError || !userSettings) {
       return new Response(JSON.stringify({
         error: 'API settings not found'
       }), {
@@ -368,10 +341,17 @@ serve(async (req) => {
       activitiesSince,
       activitiesUntil,
       maxActivityPages,
-      activityPageSize
+      activityPageSize,
+      includeTaxLots = false,
+      includeRiskAnalytics = false,
+      benchmarkSymbols = [],
+      benchmarkTimeframe = '1Day',
+      benchmarkStart,
+      benchmarkEnd,
+      portfolioId
     }: BatchRequest = await req.json();
     // Validate that we have something to fetch
-    if (!includeAccount && !includePositions && !includeOrders && !includeActivities && (!tickers || tickers.length === 0) && (!orderIds || orderIds.length === 0)) {
+    if (!includeAccount && !includePositions && !includeOrders && !includeActivities && !includeTaxLots && !includeRiskAnalytics && benchmarkSymbols.length === 0 && (!tickers || tickers.length === 0) && (!orderIds || orderIds.length === 0)) {
       return new Response(JSON.stringify({
         error: 'No tickers, orders, or account/positions requested'
       }), {
@@ -395,13 +375,9 @@ serve(async (req) => {
         status: 400
       });
     }
-    // Determine which credentials to use
-    const isPaper = apiSettings.alpaca_paper_trading ?? true;
-    const apiKey = isPaper ? apiSettings.alpaca_paper_api_key : apiSettings.alpaca_live_api_key;
-    const secretKey = isPaper ? apiSettings.alpaca_paper_secret_key : apiSettings.alpaca_live_secret_key;
-    if (!apiKey || !secretKey) {
+    if (benchmarkSymbols.length > MAX_BENCHMARK_SYMBOLS || (benchmarkSymbols.length > 0 && !benchmarkStart)) {
       return new Response(JSON.stringify({
-        error: 'Alpaca credentials not configured'
+        error: `Benchmarks need a start date and are limited to ${MAX_BENCHMARK_SYMBOLS} symbols`
       }), {
         headers: {
           ...corsHeaders,
@@ -410,81 +386,69 @@ serve(async (req) => {
         status: 400
       });
     }
-    const baseUrl = isPaper ? 'https://paper-api.alpaca.markets' : 'https://api.alpaca.markets';
-    const dataUrl = 'https://data.alpaca.markets';
-    const headers = {
-      'APCA-API-KEY-ID': apiKey,
-      'APCA-API-SECRET-KEY': secretKey,
-      'Content-Type': 'application/json'
-    };
-    console.log(`Batch fetching data: ${tickers.length} tickers, account: ${includeAccount}, positions: ${includePositions}, orders: ${includeOrders}, activities: ${includeActivities}, orderIds: ${orderIds.length}`);
+    // Determine which account and credentials to use
+    let apiSettings: any;
+    try {
+      apiSettings = await resolveAccountSettings(supabaseAdmin, userId, userSettings, portfolioId);
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        error: error.message
+      }), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        },
+        status: 404
+      });
+    }
+    let broker: BrokerAdapter;
+    try {
+      broker = createBroker(apiSettings);
+    } catch (error: any) {
+      return new Response(JSON.stringify({
+        error: error.message || 'Broker credentials not configured'
+      }), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json'
+        },
+        status: 400
+      });
+    }
+    const statusPageHint = broker.broker === BROKER.ALPACA
+      ? ' Please check https://app.alpaca.markets/dashboard/overview for status.'
+      : '';
+    console.log(`Batch fetching data (${broker.label}): ${tickers.length} tickers, account: ${includeAccount}, positions: ${includePositions}, orders: ${includeOrders}, activities: ${includeActivities}, orderIds: ${orderIds.length}`);
     
     const results: Record<string, any> = {};
     
-    // Helper function to fetch with timeout and retry
-    const fetchWithTimeout = async (url: string, options: any, timeoutMs = 15000, retries = 2) => {
-      for (let attempt = 0; attempt <= retries; attempt++) {
-        try {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-          
-          const response = await fetch(url, {
-            ...options,
-            signal: controller.signal
-          });
-          
-          clearTimeout(timeoutId);
-          return response;
-        } catch (error: any) {
-          if (error.name === 'AbortError') {
-            console.error(`Request timeout after ${timeoutMs}ms (attempt ${attempt + 1}/${retries + 1})`);
-            if (attempt === retries) {
-              throw new Error(`Request timed out after ${retries + 1} attempts`);
-            }
-            // Wait a bit before retry
-            await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
-          } else {
-            throw error;
-          }
-        }
-      }
-      throw new Error('Failed after all retries');
-    };
-    
     // Fetch account data if requested
     if (includeAccount) {
       try {
-        const response = await fetchWithTimeout(`${baseUrl}/v2/account`, { headers }, 15000, 1);
-        if (response.ok) {
-          const accountData = await response.json();
-          results.account = accountData;
-          console.log('Fetched account data successfully');
-        } else {
-          const errorText = await response.text();
-          console.error('Failed to fetch account:', response.status, errorText);
-          // Check for specific Alpaca errors
-          if (response.status === 429) {
+        results.account = await broker.getAccount();
+        console.log('Fetched account data successfully');
+      } catch (error: any) {
+        console.error('Error fetching account:', error);
+        if (isBrokerRequestError(error)) {
+          // Check for rate limiting and outages
+          if (error.status === 429) {
             return new Response(JSON.stringify({
-              error: 'Alpaca rate limit exceeded. Please wait and try again.'
+              error: `${broker.label} rate limit exceeded. Please wait and try again.`
             }), {
               headers: { ...corsHeaders, 'Content-Type': 'application/json' },
               status: 429
             });
-          } else if (response.status >= 500) {
+          } else if (error.status >= 500) {
             return new Response(JSON.stringify({
-              error: 'Alpaca services appear to be down. Please check https://app.alpaca.markets/dashboard/overview for status.'
+              error: `${broker.label} services appear to be down.${statusPageHint}`
             }), {
               headers: { ...corsHeaders, 'Content-Type': 'application/json' },
               status: 503
             });
           }
-          // Don't throw - return partial results
-        }
-      } catch (error: any) {
-        console.error('Error fetching account:', error);
-        if (error.message?.includes('timed out')) {
+        } else if (error.message?.includes('timed out')) {
           return new Response(JSON.stringify({
-            error: 'Unable to connect to Alpaca. Please check if Alpaca services are operational at https://app.alpaca.markets/dashboard/overview'
+            error: `Unable to connect to ${broker.label}.${statusPageHint}`
           }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             status: 504
@@ -497,29 +461,22 @@ serve(async (req) => {
     // Fetch positions data if requested
     if (includePositions) {
       try {
-        const response = await fetchWithTimeout(`${baseUrl}/v2/positions`, { headers }, 15000, 1);
-        if (response.ok) {
-          const positionsData = await response.json();
-          results.positions = positionsData;
-          console.log(`Fetched ${positionsData.length || 0} positions`);
-        } else {
-          const errorText = await response.text();
-          console.error('Failed to fetch positions:', response.status, errorText);
-          if (response.status >= 500) {
-            return new Response(JSON.stringify({
-              error: 'Alpaca services appear to be down. Please check https://app.alpaca.markets/dashboard/overview for status.'
-            }), {
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-              status: 503
-            });
-          }
-          // Don't throw - return partial results
-        }
+        const positionsData = await broker.getPositions();
+        results.positions = positionsData;
+        console.log(`Fetched ${positionsData.length || 0} positions`);
       } catch (error: any) {
         console.error('Error fetching positions:', error);
+        if (isBrokerRequestError(error) && error.status >= 500) {
+          return new Response(JSON.stringify({
+            error: `${broker.label} services appear to be down.${statusPageHint}`
+          }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            status: 503
+          });
+        }
         if (error.message?.includes('timed out')) {
           return new Response(JSON.stringify({
-            error: 'Unable to connect to Alpaca. Please check if Alpaca services are operational at https://app.alpaca.markets/dashboard/overview'
+            error: `Unable to connect to ${broker.label}.${statusPageHint}`
           }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             status: 504
@@ -535,19 +492,13 @@ serve(async (req) => {
         : DEFAULT_CASH_ACTIVITY_TYPES;
 
       try {
-        const activityItems = await fetchAccountActivities(
-          fetchWithTimeout,
-          baseUrl,
-          headers,
-          uniqueTypes,
-          {
-            after: activitiesSince,
-            until: activitiesUntil,
-            maxPages: maxActivityPages,
-            pageSize: activityPageSize,
-            direction: 'asc'
-          }
-        );
+        const activityItems = await broker.getActivities(uniqueTypes, {
+          after: activitiesSince,
+          until: activitiesUntil,
+          maxPages: maxActivityPages,
+          pageSize: activityPageSize,
+          direction: 'asc'
+        });
 
         results.cashFlows = summarizeCashFlows(activityItems, uniqueTypes);
         console.log(`Fetched ${results.cashFlows.activityCount} account activities across types: ${uniqueTypes.join(',')}`);
@@ -556,21 +507,63 @@ serve(async (req) => {
       }
     }
 
+    // Tax lots from the FILL history, priced with the current positions
+    if (includeTaxLots) {
+      try {
+        let positionsForLots = results.positions;
+        if (!Array.isArray(positionsForLots)) {
+          positionsForLots = await broker.getPositions().catch(() => []);
+        }
+
+        results.taxLots = await loadTaxLotReport(supabaseAdmin, userId, apiSettings, positionsForLots);
+        console.log(`Built tax lots from ${results.taxLots.fillCount} fills (${results.taxLots.method})`);
+      } catch (error) {
+        console.error('Error building tax lots:', error);
+      }
+    }
+
+    // Risk analytics from the account's equity history and position bars
+    if (includeRiskAnalytics) {
+      try {
+        let positionsForRisk = results.positions;
+        if (!Array.isArray(positionsForRisk)) {
+          positionsForRisk = await broker.getPositions().catch(() => []);
+        }
+
+        let equity = parseFloat(results.account?.equity ?? results.account?.portfolio_value);
+        if (!Number.isFinite(equity)) {
+          const account = await broker.getAccount().catch(() => null);
+          equity = parseFloat(account?.equity ?? account?.portfolio_value) || 0;
+        }
+
+        results.riskAnalytics = await loadPortfolioRiskReport(supabaseAdmin, apiSettings, positionsForRisk, equity);
+        console.log(`Built risk analytics from ${results.riskAnalytics.portfolio.observations} daily returns`);
+      } catch (error) {
+        console.error('Error building risk analytics:', error);
+      }
+    }
+
+    // Benchmark closes for the performance chart overlay
+    if (benchmarkSymbols.length > 0 && benchmarkStart) {
+      try {
+        results.benchmarkBars = await fetchBenchmarkBars(broker, benchmarkSymbols, benchmarkTimeframe, benchmarkStart, benchmarkEnd);
+        console.log(`Fetched benchmark bars for ${Object.keys(results.benchmarkBars).join(', ')} (${benchmarkTimeframe})`);
+      } catch (error) {
+        console.error('Error fetching benchmark bars:', error);
+      }
+    }
+
     // Fetch orders if requested
     if (includeOrders || (orderIds && orderIds.length > 0)) {
       try {
-        let ordersData = [];
+        let ordersData: any[] = [];
         
         if (orderIds && orderIds.length > 0) {
           // Fetch specific orders by ID
           console.log(`Fetching ${orderIds.length} specific orders`);
           const orderPromises = orderIds.map(async (orderId) => {
             try {
-              const response = await fetchWithTimeout(`${baseUrl}/v2/orders/${orderId}`, { headers }, 10000, 1);
-              if (response.ok) {
-                return await response.json();
-              }
-              return null;
+              return await broker.getOrder(orderId);
             } catch (error) {
               console.error(`Error fetching order ${orderId}:`, error);
               return null;
@@ -581,10 +574,7 @@ serve(async (req) => {
           ordersData = orderResults.filter(order => order !== null);
         } else {
           // Fetch all orders
-          const response = await fetchWithTimeout(`${baseUrl}/v2/orders?status=all&limit=500`, { headers }, 15000, 1);
-          if (response.ok) {
-            ordersData = await response.json();
-          }
+          ordersData = await broker.getOrders({ status: 'all', limit: 500 });
         }
         
         results.orders = ordersData;
@@ -593,7 +583,7 @@ serve(async (req) => {
         console.error('Error fetching orders:', error);
         if (error.message?.includes('timed out')) {
           return new Response(JSON.stringify({
-            error: 'Unable to connect to Alpaca. Please check if Alpaca services are operational.'
+            error: `Unable to connect to ${broker.label}.${statusPageHint}`
           }), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
             status: 504
@@ -609,21 +599,17 @@ serve(async (req) => {
 
       const assetResults = await Promise.all(normalizedTickers.map(async (info) => {
         try {
-          let response = await fetchWithTimeout(`${baseUrl}/v2/assets/${encodeURIComponent(info.assetSymbol)}`, { headers }, 10000, 1);
+          let asset = await broker.getAsset(info.assetSymbol);
 
-          if (!response.ok && response.status === 404 && info.assetSymbol !== info.raw) {
-            const fallbackResponse = await fetchWithTimeout(`${baseUrl}/v2/assets/${encodeURIComponent(info.raw)}`, { headers }, 10000, 1);
-            if (fallbackResponse.ok) {
-              response = fallbackResponse;
-            }
+          if (!asset && info.assetSymbol !== info.raw) {
+            asset = await broker.getAsset(info.raw);
           }
 
-          if (response.ok) {
-            const asset = await response.json();
+          if (asset) {
             return { info, asset };
           }
 
-          console.log(`No asset data for ${info.raw}: ${response.status}`);
+          console.log(`No asset data for ${info.raw}`);
           return { info, asset: null };
         } catch (error) {
           console.error(`Error fetching asset ${info.raw}:`, error);
@@ -658,26 +644,21 @@ serve(async (req) => {
         }
       }
 
+      const supportedCryptoTickers = broker.capabilities.crypto ? cryptoTickers : [];
+      if (cryptoTickers.length > 0 && !broker.capabilities.crypto) {
+        console.warn(`${broker.label} has no crypto data - skipping quotes for ${cryptoTickers.map((info) => info.raw).join(', ')}`);
+      }
+
       if (includeQuotes) {
         if (stockTickers.length > 0) {
-          const params = new URLSearchParams();
-          params.set('symbols', stockTickers.map((info) => info.stockSymbol).join(','));
-
           try {
-            const response = await fetch(`${dataUrl}/v2/stocks/quotes/latest?${params.toString()}`, {
-              headers
-            });
-
-            if (response.ok) {
-              const data = await response.json();
-              const quotes = data.quotes || {};
+            const quotes = await broker.getLatestQuotes(stockTickers.map((info) => info.stockSymbol));
 
-              for (const info of stockTickers) {
-                const quote = quotes[info.stockSymbol];
-                if (quote) {
-                  results[info.raw] = results[info.raw] || {};
-                  results[info.raw].quote = quote;
-                }
+            for (const info of stockTickers) {
+              const quote = quotes[info.stockSymbol];
+              if (quote) {
+                results[info.raw] = results[info.raw] || {};
+                results[info.raw].quote = quote;
               }
             }
           } catch (error) {
@@ -685,29 +666,19 @@ serve(async (req) => {
           }
         }
 
-        if (cryptoTickers.length > 0) {
-          const cryptoSymbols = buildCryptoSymbolList(cryptoTickers);
+        if (supportedCryptoTickers.length > 0) {
+          const cryptoSymbols = buildCryptoSymbolList(supportedCryptoTickers);
 
           if (cryptoSymbols.length > 0) {
-            const params = new URLSearchParams();
-            params.set('symbols', cryptoSymbols.join(','));
-
             try {
-              const response = await fetch(`${dataUrl}/v1beta3/crypto/us/quotes/latest?${params.toString()}`, {
-                headers
-              });
+              const quotes = await broker.getLatestQuotes(cryptoSymbols, { crypto: true });
 
-              if (response.ok) {
-                const data = await response.json();
-                const quotes = data.quotes || data;
-
-                for (const info of cryptoTickers) {
-                  const match = findFirstCryptoMatch(quotes, info);
-                  if (match?.value) {
-                    results[info.raw] = results[info.raw] || {};
-                    results[info.raw].quote = match.value;
-                    console.log(`${info.raw}: Matched crypto quote via ${match.key}`);
-                  }
+              for (const info of supportedCryptoTickers) {
+                const match = findFirstCryptoMatch(quotes, info);
+                if (match?.value) {
+                  results[info.raw] = results[info.raw] || {};
+                  results[info.raw].quote = match.value;
+                  console.log(`${info.raw}: Matched crypto quote via ${match.key}`);
                 }
               }
             } catch (error) {
@@ -719,170 +690,140 @@ serve(async (req) => {
 
       if (includeBars) {
         if (stockTickers.length > 0) {
-          const params = new URLSearchParams();
-          params.set('symbols', stockTickers.map((info) => info.stockSymbol).join(','));
-          const snapshotUrl = `${dataUrl}/v2/stocks/snapshots?${params.toString()}`;
-          console.log(`Fetching stock snapshots for: ${params.get('symbols')}`);
+          const stockSymbols = stockTickers.map((info) => info.stockSymbol);
+          console.log(`Fetching stock snapshots for: ${stockSymbols.join(',')}`);
 
           try {
-            const response = await fetch(snapshotUrl, { headers });
-
-            if (response.ok) {
-              const data = await response.json();
+            const data = await broker.getSnapshots(stockSymbols);
 
-              for (const info of stockTickers) {
-                const entry = data[info.stockSymbol];
-                if (!entry) {
-                  console.log(`${info.raw}: No stock snapshot data received`);
-                  continue;
-                }
+            for (const info of stockTickers) {
+              const entry = data[info.stockSymbol];
+              if (!entry) {
+                console.log(`${info.raw}: No stock snapshot data received`);
+                continue;
+              }
 
-                results[info.raw] = results[info.raw] || {};
+              results[info.raw] = results[info.raw] || {};
 
-                if (entry.prevDailyBar) {
-                  results[info.raw].previousBar = entry.prevDailyBar;
-                  console.log(`${info.raw}: Got previous stock daily bar close ${entry.prevDailyBar.c}`);
-                }
+              if (entry.prevDailyBar) {
+                results[info.raw].previousBar = entry.prevDailyBar;
+                console.log(`${info.raw}: Got previous stock daily bar close ${entry.prevDailyBar.c}`);
+              }
 
-                if (entry.dailyBar) {
-                  results[info.raw].currentBar = entry.dailyBar;
-                  console.log(`${info.raw}: Got stock daily bar close ${entry.dailyBar.c}`);
-                }
+              if (entry.dailyBar) {
+                results[info.raw].currentBar = entry.dailyBar;
+                console.log(`${info.raw}: Got stock daily bar close ${entry.dailyBar.c}`);
+              }
 
-                if (entry.latestQuote && includeQuotes) {
-                  results[info.raw].quote = entry.latestQuote;
-                  console.log(`${info.raw}: Stock snapshot quote bid=${entry.latestQuote.bp}, ask=${entry.latestQuote.ap}`);
-                }
+              if (entry.latestQuote && includeQuotes) {
+                results[info.raw].quote = entry.latestQuote;
+                console.log(`${info.raw}: Stock snapshot quote bid=${entry.latestQuote.bp}, ask=${entry.latestQuote.ap}`);
+              }
 
-                if (entry.latestTrade) {
-                  results[info.raw].latestTrade = entry.latestTrade;
-                  console.log(`${info.raw}: Stock snapshot latest trade price=${entry.latestTrade.p}`);
-                }
+              if (entry.latestTrade) {
+                results[info.raw].latestTrade = entry.latestTrade;
+                console.log(`${info.raw}: Stock snapshot latest trade price=${entry.latestTrade.p}`);
               }
-            } else {
-              const errorText = await response.text();
-              console.error(`Stock snapshot request failed with status ${response.status}: ${errorText}`);
+            }
+          } catch (error) {
+            console.error('Stock snapshot request failed:', error);
 
-              const endDate = new Date();
-              endDate.setDate(endDate.getDate() - 1);
-              const startDate = new Date(endDate);
-              startDate.setDate(startDate.getDate() - 10);
+            const endDate = new Date();
+            endDate.setDate(endDate.getDate() - 1);
+            const startDate = new Date(endDate);
+            startDate.setDate(startDate.getDate() - 10);
 
-              const barsParams = new URLSearchParams({
-                symbols: stockTickers.map((info) => info.stockSymbol).join(','),
+            try {
+              const barEntries = await broker.getBars(stockSymbols, {
                 timeframe: '1Day',
                 start: startDate.toISOString().split('T')[0],
                 end: endDate.toISOString().split('T')[0],
-                limit: '5',
-                adjustment: 'raw',
-                feed: 'iex'
+                limit: 5,
+                adjustment: 'raw'
               });
 
-              const barsUrl = `${dataUrl}/v2/stocks/bars?${barsParams.toString()}`;
-              const barsResponse = await fetch(barsUrl, { headers });
-
-              if (barsResponse.ok) {
-                const barsData = await barsResponse.json();
-                const barEntries = barsData.bars || {};
-
-                for (const info of stockTickers) {
-                  const bars = barEntries[info.stockSymbol];
-                  if (Array.isArray(bars) && bars.length > 0) {
-                    results[info.raw] = results[info.raw] || {};
-                    const mostRecentBar = bars[bars.length - 1];
-                    results[info.raw].previousBar = mostRecentBar;
-                    console.log(`${info.raw}: Fallback stock bar close ${mostRecentBar.c}`);
-                  }
+              for (const info of stockTickers) {
+                const bars = barEntries[info.stockSymbol];
+                if (Array.isArray(bars) && bars.length > 0) {
+                  results[info.raw] = results[info.raw] || {};
+                  const mostRecentBar = bars[bars.length - 1];
+                  results[info.raw].previousBar = mostRecentBar;
+                  console.log(`${info.raw}: Fallback stock bar close ${mostRecentBar.c}`);
                 }
               }
+            } catch (fallbackError) {
+              console.error('Error fetching fallback stock bars:', fallbackError);
             }
-          } catch (error) {
-            console.error('Error fetching stock snapshot data:', error);
           }
         }
 
-        if (cryptoTickers.length > 0) {
-          const cryptoSymbols = buildCryptoSymbolList(cryptoTickers);
+        if (supportedCryptoTickers.length > 0) {
+          const cryptoSymbols = buildCryptoSymbolList(supportedCryptoTickers);
 
           if (cryptoSymbols.length > 0) {
-            const params = new URLSearchParams();
-            params.set('symbols', cryptoSymbols.join(','));
-            const snapshotUrl = `${dataUrl}/v1beta3/crypto/us/snapshots?${params.toString()}`;
-            console.log(`Fetching crypto snapshots for: ${params.get('symbols')}`);
+            console.log(`Fetching crypto snapshots for: ${cryptoSymbols.join(',')}`);
 
             try {
-              const response = await fetch(snapshotUrl, { headers });
+              const snapshots = await broker.getSnapshots(cryptoSymbols, { crypto: true });
 
-              if (response.ok) {
-                const data = await response.json();
-                const snapshots = data.snapshots || data;
-
-                for (const info of cryptoTickers) {
-                  const match = findFirstCryptoMatch(snapshots, info);
-                  if (!match?.value) {
-                    console.log(`${info.raw}: No crypto snapshot data received`);
-                    continue;
-                  }
+              for (const info of supportedCryptoTickers) {
+                const match = findFirstCryptoMatch(snapshots, info);
+                if (!match?.value) {
+                  console.log(`${info.raw}: No crypto snapshot data received`);
+                  continue;
+                }
 
-                  const entry = match.value;
-                  results[info.raw] = results[info.raw] || {};
+                const entry = match.value;
+                results[info.raw] = results[info.raw] || {};
 
-                  if (entry.prevDailyBar) {
-                    results[info.raw].previousBar = entry.prevDailyBar;
-                    console.log(`${info.raw}: Crypto prev daily close ${entry.prevDailyBar.c} via ${match.key}`);
-                  }
+                if (entry.prevDailyBar) {
+                  results[info.raw].previousBar = entry.prevDailyBar;
+                  console.log(`${info.raw}: Crypto prev daily close ${entry.prevDailyBar.c} via ${match.key}`);
+                }
 
-                  if (entry.dailyBar) {
-                    results[info.raw].currentBar = entry.dailyBar;
-                    console.log(`${info.raw}: Crypto daily close ${entry.dailyBar.c} via ${match.key}`);
-                  }
+                if (entry.dailyBar) {
+                  results[info.raw].currentBar = entry.dailyBar;
+                  console.log(`${info.raw}: Crypto daily close ${entry.dailyBar.c} via ${match.key}`);
+                }
 
-                  if (entry.latestQuote && includeQuotes) {
-                    results[info.raw].quote = entry.latestQuote;
-                    console.log(`${info.raw}: Crypto snapshot quote bid=${entry.latestQuote.bp}, ask=${entry.latestQuote.ap} via ${match.key}`);
-                  }
+                if (entry.latestQuote && includeQuotes) {
+                  results[info.raw].quote = entry.latestQuote;
+                  console.log(`${info.raw}: Crypto snapshot quote bid=${entry.latestQuote.bp}, ask=${entry.latestQuote.ap} via ${match.key}`);
+                }
 
-                  if (entry.latestTrade) {
-                    results[info.raw].latestTrade = entry.latestTrade;
-                    console.log(`${info.raw}: Crypto snapshot latest trade price=${entry.latestTrade.p} via ${match.key}`);
-                  }
+                if (entry.latestTrade) {
+                  results[info.raw].latestTrade = entry.latestTrade;
+                  console.log(`${info.raw}: Crypto snapshot latest trade price=${entry.latestTrade.p} via ${match.key}`);
                 }
-              } else {
-                const errorText = await response.text();
-                console.error(`Crypto snapshot request failed with status ${response.status}: ${errorText}`);
+              }
+            } catch (error) {
+              console.error('Crypto snapshot request failed:', error);
 
-                const endDate = new Date();
-                const startDate = new Date(endDate);
-                startDate.setDate(startDate.getDate() - 10);
+              const endDate = new Date();
+              const startDate = new Date(endDate);
+              startDate.setDate(startDate.getDate() - 10);
 
-                const barsParams = new URLSearchParams({
-                  symbols: cryptoSymbols.join(','),
+              try {
+                const barEntries = await broker.getBars(cryptoSymbols, {
                   timeframe: '1Day',
                   start: startDate.toISOString(),
                   end: endDate.toISOString(),
-                  limit: '5'
+                  limit: 5,
+                  crypto: true
                 });
 
-                const barsUrl = `${dataUrl}/v1beta3/crypto/us/bars?${barsParams.toString()}`;
-                const barsResponse = await fetch(barsUrl, { headers });
-
-                if (barsResponse.ok) {
-                  const barsData = await barsResponse.json();
-                  const barEntries = barsData.bars || {};
-
-                  for (const info of cryptoTickers) {
-                    const barMatch = findFirstCryptoMatch(barEntries, info);
-                    if (Array.isArray(barMatch?.value) && barMatch.value.length > 0) {
-                      results[info.raw] = results[info.raw] || {};
-                      const mostRecentBar = barMatch.value[barMatch.value.length - 1];
-                      results[info.raw].previousBar = mostRecentBar;
-                      console.log(`${info.raw}: Fallback crypto bar close ${mostRecentBar.c} via ${barMatch.key}`);
-                    }
+                for (const info of supportedCryptoTickers) {
+                  const barMatch = findFirstCryptoMatch(barEntries, info);
+                  if (Array.isArray(barMatch?.value) && barMatch.value.length > 0) {
+                    results[info.raw] = results[info.raw] || {};
+                    const mostRecentBar = barMatch.value[barMatch.value.length - 1];
+                    results[info.raw].previousBar = mostRecentBar;
+                    console.log(`${info.raw}: Fallback crypto bar close ${mostRecentBar.c} via ${barMatch.key}`);
                   }
                 }
+              } catch (fallbackError) {
+                console.error('Error fetching fallback crypto bars:', fallbackError);
               }
-            } catch (error) {
-              console.error('Error fetching crypto snapshot data:', error);
             }
           }
         }
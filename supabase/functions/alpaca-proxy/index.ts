@@ -2,18 +2,99 @@ import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { corsHeaders } from '../_shared/cors.ts';
 import { verifyAndExtractUser } from '../_shared/auth.ts';
-
-interface AlpacaConfig {
-  apiKey: string;
-  secretKey: string;
-  paper: boolean;
-}
+import { BROKER, loadBrokerAccount } from '../_shared/brokerAccounts.ts';
+import {
+  createBroker,
+  createBrokerRequestError,
+  isBrokerRequestError,
+  type AlpacaBrokerAdapter,
+  type BrokerAdapter,
+  type BrokerBarsOptions
+} from '../_shared/brokers/index.ts';
 
 interface AlpacaRequest {
   method: string;
   endpoint: string;
   params?: Record<string, any>;
   body?: any;
+  portfolioId?: string | null;  // Named broker account; omitted for the main account
+}
+
+/**
+ * Requests keep Alpaca's endpoint paths so the frontend client works against
+ * every broker; the endpoints it uses map onto adapter calls here. Anything
+ * else is passed through raw for Alpaca accounts only.
+ */
+async function routeRequest(
+  broker: BrokerAdapter,
+  method: string,
+  path: string,
+  params: Record<string, string>,
+  body: any
+): Promise<unknown> {
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const barsOptions = (): BrokerBarsOptions => ({
+    timeframe: params.timeframe || '1Day',
+    start: params.start,
+    end: params.end,
+    limit: params.limit ? Number(params.limit) : undefined,
+    adjustment: params.adjustment as BrokerBarsOptions['adjustment']
+  });
+
+  switch (`${method} ${segments.slice(0, 2).join('/')}`) {
+    case 'GET v2/account':
+      if (segments.length === 2) return broker.getAccount();
+      if (path === '/v2/account/portfolio/history' && broker.getPortfolioHistory) {
+        return broker.getPortfolioHistory(params);
+      }
+      break;
+    case 'GET v2/positions':
+      return segments[2] ? broker.getPosition(segments[2]) : broker.getPositions();
+    case 'DELETE v2/positions': {
+      if (segments[2]) return broker.closePosition(segments[2]);
+      const positions = await broker.getPositions();
+      return Promise.all(positions.map(position => broker.closePosition(position.symbol)));
+    }
+    case 'GET v2/orders':
+      return segments[2]
+        ? broker.getOrder(segments[2])
+        : broker.getOrders({
+          status: (params.status as 'open' | 'closed' | 'all') || 'open',
+          limit: params.limit ? Number(params.limit) : undefined
+        });
+    case 'POST v2/orders':
+      return broker.submitOrder(body);
+    case 'DELETE v2/orders':
+      if (segments[2]) {
+        await broker.cancelOrder(segments[2]);
+        return {};
+      }
+      break;
+    case 'GET v2/assets':
+      if (segments[2]) return broker.getAsset(segments[2]);
+      return broker.listAssets ? broker.listAssets() : [];
+    case 'GET v2/stocks':
+      // /v2/stocks/{symbol}/quotes/latest and /v2/stocks/{symbol}/bars
+      if (segments[3] === 'quotes' && segments[4] === 'latest') {
+        const quotes = await broker.getLatestQuotes([segments[2]]);
+        return { symbol: segments[2], quote: quotes[segments[2]] ?? null };
+      }
+      if (segments[3] === 'bars') {
+        const bars = await broker.getBars([segments[2]], barsOptions());
+        return { symbol: segments[2], bars: bars[segments[2]] ?? null };
+      }
+      break;
+    case 'GET v1beta3/crypto':
+      if (path === '/v1beta3/crypto/us/bars' && params.symbols) {
+        return { bars: await broker.getBars(params.symbols.split(','), { ...barsOptions(), crypto: true }) };
+      }
+      break;
+  }
+
+  if (broker.broker === BROKER.ALPACA) {
+    return (broker as AlpacaBrokerAdapter).request(method, path, { params, body });
+  }
+  throw createBrokerRequestError(`${broker.label} does not support ${method} ${path}`, 501);
 }
 
 serve(async (req) => {
@@ -57,84 +138,56 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { method, endpoint, params, body }: AlpacaRequest = await req.json();
+    const { method, endpoint, params, body, portfolioId }: AlpacaRequest = await req.json();
 
     // Determine which credentials to use
-    const isPaper = apiSettings.alpaca_paper_trading ?? true;
-    const config: AlpacaConfig = isPaper ? {
-      apiKey: apiSettings.alpaca_paper_api_key,
-      secretKey: apiSettings.alpaca_paper_secret_key,
-      paper: true
-    } : {
-      apiKey: apiSettings.alpaca_live_api_key,
-      secretKey: apiSettings.alpaca_live_secret_key,
-      paper: false
-    };
-
-    if (!config.apiKey || !config.secretKey) {
-      console.log('Missing Alpaca credentials for user', userId);
+    const account = portfolioId ? await loadBrokerAccount(supabaseAdmin, userId, portfolioId) : null;
+    if (portfolioId && !account) {
       return new Response(
-        JSON.stringify({ error: 'Alpaca credentials not configured. Please add them in Settings.' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        JSON.stringify({ error: 'Broker account not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
       );
     }
 
-    // Determine base URL based on endpoint type
-    const dataEndpointPrefixes = ['/v2/stocks', '/v1beta3/crypto'];
-    const isMarketDataEndpoint = dataEndpointPrefixes.some(prefix => endpoint.startsWith(prefix));
-
-    const baseUrl = isMarketDataEndpoint
-      ? 'https://data.alpaca.markets'
-      : (config.paper
-        ? 'https://paper-api.alpaca.markets'
-        : 'https://api.alpaca.markets');
-
-    // Build URL with params
-    let url = `${baseUrl}${endpoint}`;
-    if (params && Object.keys(params).length > 0) {
-      const searchParams = new URLSearchParams(params);
-      url += `?${searchParams.toString()}`;
+    let broker: BrokerAdapter;
+    try {
+      broker = createBroker(apiSettings, account);
+    } catch (error: any) {
+      console.log('Missing broker credentials for user', userId);
+      return new Response(
+        JSON.stringify({ error: `${error.message || 'Broker credentials not configured'}. Please add them in Settings.` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
     }
 
-    console.log(`Proxying request for user ${userId}: ${method} ${url}`);
-
-    // Make request to Alpaca
-    const alpacaResponse = await fetch(url, {
-      method: method || 'GET',
-      headers: {
-        'APCA-API-KEY-ID': config.apiKey,
-        'APCA-API-SECRET-KEY': config.secretKey,
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    // Query strings may arrive inline on the endpoint or as params
+    const [path, inlineQuery] = endpoint.split('?');
+    const requestParams: Record<string, string> = {
+      ...Object.fromEntries(new URLSearchParams(inlineQuery || '')),
+      ...Object.fromEntries(Object.entries(params || {}).map(([key, value]) => [key, String(value)]))
+    };
+    const requestMethod = (method || 'GET').toUpperCase();
 
-    const responseData = await alpacaResponse.text();
-    let jsonData;
+    console.log(`Proxying ${broker.label} request for user ${userId}: ${requestMethod} ${path}`);
 
     try {
-      jsonData = JSON.parse(responseData);
-    } catch {
-      // If not JSON, return as-is
-      jsonData = responseData;
-    }
-
-    if (!alpacaResponse.ok) {
-      console.error('Alpaca API error:', alpacaResponse.status, jsonData);
+      const data = await routeRequest(broker, requestMethod, path, requestParams, body);
+      return new Response(
+        JSON.stringify(data ?? null),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    } catch (error: any) {
+      if (!isBrokerRequestError(error)) throw error;
+      console.error(`${broker.label} API error:`, error.status, error.details);
       return new Response(
-        JSON.stringify({ error: jsonData }),
+        JSON.stringify({ error: error.details ?? error.message }),
         {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: alpacaResponse.status
+          status: error.status
         }
       );
     }
 
-    return new Response(
-      JSON.stringify(jsonData),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
-    );
-
   } catch (error) {
     console.error('Alpaca proxy error:', error);
     return new Response(
@@ -1,44 +1,9 @@
 import { WorkflowPhases } from '../types/index.ts';
+import { getDefaultWorkflowGraph, toWorkflowPhases } from '../../_shared/workflowGraph.ts';
 
 /**
- * Workflow phases configuration for the stock analysis pipeline
+ * Default workflow phases for the stock analysis pipeline.
+ * Each analysis runs with its own graph (see _shared/workflowGraph.ts); this
+ * is the graph used when the user has not configured one.
  */
-export const WORKFLOW_PHASES: WorkflowPhases = {
-  analysis: {
-    agents: [
-      'agent-macro-analyst',
-      'agent-market-analyst',
-      'agent-news-analyst',
-      'agent-social-media-analyst',
-      'agent-fundamentals-analyst'
-    ],
-    nextPhase: 'research'
-  },
-  research: {
-    agents: [
-      'agent-bull-researcher',
-      'agent-bear-researcher'
-    ],
-    nextPhase: 'trading'
-  },
-  trading: {
-    agents: [
-      'agent-trader'
-    ],
-    nextPhase: 'risk'
-  },
-  risk: {
-    agents: [
-      'agent-risky-analyst',
-      'agent-safe-analyst',
-      'agent-neutral-analyst'
-    ],
-    finalAgent: 'agent-risk-manager'
-  },
-  portfolio: {
-    agents: [
-      'analysis-portfolio-manager'
-    ],
-    finalAgent: null
-  }
-};
\ No newline at end of file
+export const WORKFLOW_PHASES: WorkflowPhases = toWorkflowPhases(getDefaultWorkflowGraph());
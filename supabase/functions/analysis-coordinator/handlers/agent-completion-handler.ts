@@ -14,6 +14,7 @@ import { markAnalysisAsErrorWithRebalanceCheck } from '../utils/analysis-error-h
 import { checkAndExecuteAutoTrades } from '../../_shared/autoTradeChecker.ts';
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { markAnalysisCompleted } from '../../_shared/atomicUpdate.ts';
+import { isCustomAnalystAgent } from '../../_shared/customAnalysts.ts';
 
 /**
  * Handle agent completion and workflow coordination for individual stock analysis
@@ -127,6 +128,9 @@ export async function handleAgentCompletion(
         let agentNameForWorkflow: string;
         if (agent === 'analysis-portfolio-manager') {
           agentNameForWorkflow = 'Analysis Portfolio Manager';
+        } else if (isCustomAnalystAgent(agent)) {
+          // Custom analyst steps are named after the agent
+          agentNameForWorkflow = agent;
         } else if (agent.startsWith('agent-')) {
           agentNameForWorkflow = agent
             .substring(6)
@@ -465,8 +469,9 @@ export async function handleAgentCompletion(
     // Import the helper functions
     const { getNextAgentInPhase } = await import('../utils/phase-manager.ts');
     const { invokeAgentWithRetry } = await import('../../_shared/invokeWithRetry.ts');
+    const { loadWorkflowPhases } = await import('../../_shared/workflowGraph.ts');
     
-    const nextAgent = getNextAgentInPhase(phase, agent);
+    const nextAgent = getNextAgentInPhase(await loadWorkflowPhases(supabase, analysisId), phase, agent);
     
     if (nextAgent) {
       console.log(`🔄 Agent ${agent} had error - coordinator will invoke next agent: ${nextAgent}`);
@@ -3,6 +3,10 @@ import { createErrorResponse, createSuccessResponse } from '../utils/response-he
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { markAnalysisAsErrorWithRebalanceCheck } from '../utils/analysis-error-handler.ts';
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser } from '../../_shared/aiBudget.ts';
+import { buildAgentConfigSnapshot } from '../../_shared/agentConfig.ts';
+import { buildWorkflowSteps, resolveWorkflowGraph, type WorkflowGraph } from '../../_shared/workflowGraph.ts';
+import { loadCustomAnalysts } from '../../_shared/customAnalysts.ts';
 
 /**
  * Start a single stock analysis with optional context (supports rebalance linkage)
@@ -22,14 +26,25 @@ export async function startSingleAnalysis(
       'Invalid ticker symbol format'
     );
   }
+
+  // Refuse to start when the user's AI budget is exhausted
+  const budget = await checkAIBudgetForUser(supabase, userId, { run: AI_BUDGET_RUN.ANALYSIS });
+  if (budget.exceeded) {
+    console.warn(`💸 Not starting analysis for ${ticker}: ${budget.reason}`);
+    return createErrorResponse(
+      `Analysis not started - ${budget.reason}`
+    );
+  }
   
-  const { data: runningAnalyses } = await supabase
+  const portfolioId = apiSettings.broker_account_id ?? null;
+  let runningQuery = supabase
     .from('analysis_history')
     .select('id, full_analysis, created_at, metadata, analysis_context, rebalance_request_id')
     .eq('user_id', userId)
     .eq('ticker', ticker)
-    .in('analysis_status', [ANALYSIS_STATUS.PENDING, ANALYSIS_STATUS.RUNNING])
-    .order('created_at', { ascending: false });
+    .in('analysis_status', [ANALYSIS_STATUS.PENDING, ANALYSIS_STATUS.RUNNING]);
+  runningQuery = portfolioId ? runningQuery.eq('portfolio_id', portfolioId) : runningQuery.is('portfolio_id', null);
+  const { data: runningAnalyses } = await runningQuery.order('created_at', { ascending: false });
 
   const metadataFromContext: Record<string, any> = {};
   if (analysisContext?.metadata && typeof analysisContext.metadata === 'object') {
@@ -115,15 +130,17 @@ export async function startSingleAnalysis(
     }
   } else {
     // Create new analysis record with proper rebalance linkage
+    const customAnalysts = await loadCustomAnalysts(supabase, userId);
     const insertData: any = {
       user_id: userId,
+      portfolio_id: portfolioId,
       ticker,
       analysis_date: new Date().toISOString().split('T')[0],
       decision: 'PENDING',
       confidence: 0,
       agent_insights: {},
       analysis_status: ANALYSIS_STATUS.PENDING,
-      full_analysis: createInitialWorkflowSteps()
+      full_analysis: createInitialWorkflowSteps(resolveWorkflowGraph(apiSettings.workflow_config, customAnalysts))
     };
 
     // Add rebalance_request_id if this is a rebalance analysis
@@ -136,9 +153,11 @@ export async function startSingleAnalysis(
       insertData.analysis_context = analysisContext;
     }
 
-    if (Object.keys(metadataFromContext).length > 0) {
-      insertData.metadata = metadataFromContext;
-    }
+    // Snapshot the agent configuration so results can be compared per configuration later
+    insertData.metadata = {
+      ...metadataFromContext,
+      agent_config: buildAgentConfigSnapshot(apiSettings)
+    };
 
     const { data: newAnalysis, error } = await supabase
       .from('analysis_history')
@@ -212,59 +231,12 @@ export async function startSingleAnalysis(
 /**
  * Create initial workflow steps structure for new analysis
  */
-function createInitialWorkflowSteps() {
-  const pendingAgent = { status: 'pending', progress: 0 };
-  
+function createInitialWorkflowSteps(workflowGraph: WorkflowGraph) {
   return {
     // Remove status from full_analysis - use analysis_status field instead
     startedAt: new Date().toISOString(),
     messages: [],
-    workflowSteps: [
-      {
-        id: 'analysis',
-        name: 'Market Analysis',
-        status: 'pending',
-        agents: [
-          { name: 'Macro Analyst', functionName: 'agent-macro-analyst', ...pendingAgent },
-          { name: 'Market Analyst', functionName: 'agent-market-analyst', ...pendingAgent },
-          { name: 'News Analyst', functionName: 'agent-news-analyst', ...pendingAgent },
-          { name: 'Social Media Analyst', functionName: 'agent-social-media-analyst', ...pendingAgent },
-          { name: 'Fundamentals Analyst', functionName: 'agent-fundamentals-analyst', ...pendingAgent }
-        ]
-      },
-      {
-        id: 'research',
-        name: 'Research Team',
-        status: 'pending',
-        agents: [
-          { name: 'Bull Researcher', functionName: 'agent-bull-researcher', ...pendingAgent },
-          { name: 'Bear Researcher', functionName: 'agent-bear-researcher', ...pendingAgent },
-          { name: 'Research Manager', functionName: 'agent-research-manager', ...pendingAgent }
-        ]
-      },
-      {
-        id: 'trading',
-        name: 'Trading Decision',
-        status: 'pending',
-        agents: [{ name: 'Trader', functionName: 'agent-trader', ...pendingAgent }]
-      },
-      {
-        id: 'risk',
-        name: 'Risk Management',
-        status: 'pending',
-        agents: [
-          { name: 'Risky Analyst', functionName: 'agent-risky-analyst', ...pendingAgent },
-          { name: 'Safe Analyst', functionName: 'agent-safe-analyst', ...pendingAgent },
-          { name: 'Neutral Analyst', functionName: 'agent-neutral-analyst', ...pendingAgent },
-          { name: 'Risk Manager', functionName: 'agent-risk-manager', ...pendingAgent }
-        ]
-      },
-      {
-        id: 'portfolio',
-        name: 'Portfolio Management',
-        status: 'pending',
-        agents: [{ name: 'Analysis Portfolio Manager', functionName: 'analysis-portfolio-manager', ...pendingAgent }]
-      }
-    ]
+    workflowGraph,
+    workflowSteps: buildWorkflowSteps(workflowGraph)
   };
 }
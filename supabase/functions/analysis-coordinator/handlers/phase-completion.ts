@@ -1,10 +1,11 @@
 import { ApiSettings, AnalysisContext } from '../types/index.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { moveToNextPhase, handleFailedInvocationFallback } from '../utils/phase-manager.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { loadWorkflowPhases } from '../../_shared/workflowGraph.ts';
 import { invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { checkPhaseHealth } from '../utils/phase-health-checker.ts';
 import { markAnalysisAsErrorWithRebalanceCheck } from '../utils/analysis-error-handler.ts';
+import { pauseAnalysisIfOverBudget } from '../utils/budget-guard.ts';
 
 /**
  * Handle phase completion - when all agents in phase are complete
@@ -105,7 +106,7 @@ export async function handlePhaseCompletion(
   
   console.log(`✅ Phase ${phase} health verified - proceeding with transition`);
   
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = (await loadWorkflowPhases(supabase, analysisId))[phase];
   if (!phaseConfig) {
     console.warn(`⚠️ Unknown phase: ${phase}`);
     return createSuccessResponse({
@@ -136,6 +137,14 @@ export async function handlePhaseCompletion(
     });
     
   } else if (phaseConfig.nextPhase) {
+    // Phase boundary: stop here if the AI budget is exhausted
+    const budgetPause = await pauseAnalysisIfOverBudget(
+      supabase, analysisId, ticker, userId, apiSettings, phaseConfig.nextPhase
+    );
+    if (budgetPause) {
+      return budgetPause;
+    }
+
     // Move to the next phase
     console.log(`➡️ Moving to next phase: ${phaseConfig.nextPhase}`);
     await moveToNextPhase(supabase, analysisId, ticker, userId, phase, apiSettings, analysisContext);
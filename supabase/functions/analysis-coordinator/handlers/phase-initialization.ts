@@ -3,8 +3,9 @@ import { createSuccessResponse, createErrorResponse } from '../utils/response-he
 import { runResearchDebateRound } from '../utils/phase-manager.ts';
 import { invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getWorkflowPhases, loadWorkflowPhases } from '../../_shared/workflowGraph.ts';
 import { buildAnalysisContext, persistAnalysisContext } from '../utils/context-builder.ts';
+import { pauseAnalysisIfOverBudget } from '../utils/budget-guard.ts';
 
 /**
  * Initialize workflow phases by launching their first agents
@@ -20,6 +21,12 @@ export async function initializePhase(
   analysisContext?: AnalysisContext
 ): Promise<Response> {
   
+  // Phase boundary: stop here if the AI budget is exhausted
+  const budgetPause = await pauseAnalysisIfOverBudget(supabase, analysisId, ticker, userId, apiSettings, phase);
+  if (budgetPause) {
+    return budgetPause;
+  }
+
   // Normal phase initialization
   // Note: Retry logic has been moved to retry-handler which directly invokes failed agents
   if (phase === 'analysis') {
@@ -115,8 +122,8 @@ async function initializeAnalysisPhase(
     console.error('Failed to persist analysis context:', persistError);
   }
   
-  // Randomly select an analysis agent from workflow configuration
-  const analysisAgents = WORKFLOW_PHASES.analysis.agents;
+  // Randomly select an analysis agent from the analysis's workflow graph
+  const analysisAgents = getWorkflowPhases(existingFullAnalysis).analysis.agents;
   const randomIndex = Math.floor(Math.random() * analysisAgents.length);
   const selectedAgent = analysisAgents[randomIndex];
   
@@ -222,8 +229,8 @@ async function initializeRiskPhase(
   analysisContext?: AnalysisContext
 ): Promise<Response> {
   
-  // Randomly select a risk analyst from workflow configuration
-  const riskAgents = WORKFLOW_PHASES.risk.agents;
+  // Randomly select a risk analyst from the analysis's workflow graph
+  const riskAgents = (await loadWorkflowPhases(supabase, analysisId)).risk.agents;
   const randomIndex = Math.floor(Math.random() * riskAgents.length);
   const selectedAgent = riskAgents[randomIndex];
   
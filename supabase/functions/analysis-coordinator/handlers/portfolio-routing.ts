@@ -2,6 +2,7 @@ import { AnalysisContext, ApiSettings } from '../types/index.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { invokeWithRetry, invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { updateAnalysisPhase, setAgentToError, updateWorkflowStepStatus, markAnalysisCompleted } from '../../_shared/atomicUpdate.ts';
+import { pauseAnalysisIfOverBudget } from '../utils/budget-guard.ts';
 
 /**
  * Handle portfolio routing decisions centralized in analysis-coordinator
@@ -227,6 +228,12 @@ async function routeToPortfolioManager(
     }
   }
 
+  // Phase boundary: stop here if the AI budget is exhausted
+  const budgetPause = await pauseAnalysisIfOverBudget(supabase, analysisId, ticker, userId, apiSettings, 'portfolio');
+  if (budgetPause) {
+    return budgetPause;
+  }
+
   console.log('✅ Analysis Portfolio Manager not yet invoked, proceeding with invocation');
   
   // Ensure portfolio phase exists in workflow steps
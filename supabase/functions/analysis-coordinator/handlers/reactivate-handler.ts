@@ -3,7 +3,7 @@ import { createSuccessResponse, createErrorResponse } from '../utils/response-he
 import { invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getWorkflowGraph } from '../../_shared/workflowGraph.ts';
 import { buildAnalysisContext, persistAnalysisContext } from '../utils/context-builder.ts';
 
 /**
@@ -238,8 +238,8 @@ function findNextAgentToRun(analysis: any): {
 } | null {
   const workflowSteps = analysis.full_analysis?.workflowSteps || [];
 
-  // Define the expected workflow order
-  const phaseOrder = ['analysis', 'research', 'trading', 'risk', 'portfolio'];
+  // Expected workflow order comes from the graph this analysis was started with
+  const phaseOrder: string[] = getWorkflowGraph(analysis.full_analysis).phases.map(phase => phase.id);
 
   const agentOrder = {
     'analysis': [
@@ -9,6 +9,7 @@ import { retryFailedAnalysis } from './retry-handler.ts';
 import { reactivateStaleAnalysis } from './reactivate-handler.ts';
 import { initializePhase } from './phase-initialization.ts';
 import { handleDebateRoundCompletion } from './debate-handler.ts';
+import { loadRowPortfolioId, resolveAccountSettings } from '../../_shared/brokerAccounts.ts';
 import { 
   createOptionsResponse, createMethodNotAllowedResponse,
   createErrorResponse, createSuccessResponse,
@@ -72,6 +73,7 @@ export async function handleAnalysisRequest(
       completionType,
       failedToInvoke,
       riskManagerDecision,
+      portfolioId,
       apiSettings: passedApiSettings  // Extract apiSettings from body
     } = body;
 
@@ -103,6 +105,17 @@ export async function handleAnalysisRequest(
       if (error) return error;
       apiSettings = settings;
     }
+
+    // Requests from the UI name the broker account; retries and reactivations use the analysis' account
+    if (apiSettings && resolvedUserId) {
+      const accountId = portfolioId
+        ?? (!passedApiSettings && analysisId ? await loadRowPortfolioId(supabase, 'analysis_history', analysisId) : null);
+      try {
+        apiSettings = await resolveAccountSettings(supabase, resolvedUserId, apiSettings, accountId);
+      } catch (accountError: any) {
+        return createErrorResponse(accountError.message);
+      }
+    }
     
     // Handle action-based requests (new pattern)
     if (action) {
@@ -6,6 +6,8 @@ import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { attemptPhaseRecovery, findLastSuccessfulPhase, resumeFromPhase } from '../utils/error-recovery.ts';
 import { checkPhaseHealth } from '../utils/phase-health-checker.ts';
 import { buildAnalysisContext, persistAnalysisContext } from '../utils/context-builder.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser } from '../../_shared/aiBudget.ts';
+import { getWorkflowGraph } from '../../_shared/workflowGraph.ts';
 
 /**
  * Retry a failed analysis by scanning workflow state and resuming from the first failed agent
@@ -48,13 +50,21 @@ export async function retryFailedAnalysis(
       );
     }
     
+    // A budget-paused analysis can only resume once the budget allows it
+    const budget = await checkAIBudgetForUser(supabase, userId, { run: AI_BUDGET_RUN.ANALYSIS, runId: analysisId });
+    if (budget.exceeded) {
+      console.warn(`💸 Not retrying analysis ${analysisId}: ${budget.reason}`);
+      return createErrorResponse(`Cannot retry analysis - ${budget.reason}`);
+    }
+
     console.log(`📋 Found failed analysis for ${analysis.ticker} - scanning for failed agent`);
 
-    // Reset metadata flags that are only used by automatic stale detection
+    // Reset metadata flags used by automatic stale detection and budget pauses
     const updatedMetadata = {
       ...(analysis.metadata || {}),
       max_reactivations_reached: false,
-      reactivation_attempts: 0
+      reactivation_attempts: 0,
+      budget_pause: null
     };
     console.log('🧹 Resetting stale detection metadata for manual retry', {
       previous: analysis.metadata,
@@ -121,7 +131,7 @@ export async function retryFailedAnalysis(
       console.warn('⚠️ No failed agent found in workflow steps');
       
       // Try to resume from the beginning of the first incomplete phase
-      const phases = ['analysis', 'research', 'trading', 'risk', 'portfolio'];
+      const phases = getWorkflowGraph(analysis.full_analysis).phases.map(phase => phase.id);
       for (const phase of phases) {
         const phaseHealth = await checkPhaseHealth(supabase, analysisId, phase);
         if (phaseHealth.pendingAgents > 0 || phaseHealth.failedAgents > 0) {
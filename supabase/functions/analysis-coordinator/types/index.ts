@@ -1,5 +1,8 @@
 // Types for the analysis-coordinator function
-import { AlpacaPortfolioData } from '../../_shared/portfolio/types.ts';
+import { BrokerPortfolioData } from '../../_shared/portfolio/types.ts';
+import type { ModelPriceTable } from '../../_shared/aiUsage.ts';
+import type { WorkflowGraphConfig } from '../../_shared/workflowGraph.ts';
+import type { PortfolioRiskReport } from '../../_shared/riskAnalytics.ts';
 
 export interface CorsHeaders {
   'Access-Control-Allow-Origin': string;
@@ -11,12 +14,18 @@ export interface ApiSettings {
   ai_provider: string;
   ai_api_key: string;
   ai_model: string;
+  ai_base_url?: string | null;
+  ai_model_prices?: ModelPriceTable | null;
   // Alpaca credentials
   alpaca_paper_api_key?: string;
   alpaca_paper_secret_key?: string;
   alpaca_live_api_key?: string;
   alpaca_live_secret_key?: string;
   alpaca_paper_trading?: boolean;
+  // Named broker account overlaid onto these settings (see _shared/brokerAccounts.ts)
+  broker_account_id?: string | null;
+  broker_account_name?: string;
+  broker_account_settings?: Record<string, any>;
   // User preferences
   user_risk_level?: string;
   default_position_size_dollars?: number;
@@ -28,6 +37,7 @@ export interface ApiSettings {
   near_position_threshold?: number;
   analysis_depth?: string;
   analysis_history_days?: number;
+  analysis_indicators?: string[] | null;
   research_debate_rounds?: number;
   // Max tokens settings
   analysis_max_tokens?: number;
@@ -44,6 +54,8 @@ export interface ApiSettings {
   opportunity_agent_model?: string;
   opportunity_agent_provider_id?: string;
   opportunity_max_tokens?: number;
+  // Per-user workflow graph (see _shared/workflowGraph.ts)
+  workflow_config?: WorkflowGraphConfig | null;
   // Provider map storage for agent lookups
   _providerMap?: Record<string, any>;
 }
@@ -84,6 +96,7 @@ export interface AnalysisContext {
   preferences?: UserPreferences;
   targetAllocations?: TargetAllocations;
   position?: PositionContext;
+  portfolioRisk?: PortfolioRiskReport | null;
   near_limit_analysis?: boolean;
   triggered_by?: string;
   triggered_at?: string;
@@ -103,7 +116,7 @@ export interface RebalanceConstraints {
   [key: string]: any;
 }
 
-// PortfolioData interface removed - now using AlpacaPortfolioData from _shared/portfolio/types.ts
+// PortfolioData interface removed - now using BrokerPortfolioData from _shared/portfolio/types.ts
 
 export interface CancellationCheckResult {
   isCanceled: boolean;
@@ -111,15 +124,7 @@ export interface CancellationCheckResult {
   reason?: string;
 }
 
-export interface WorkflowPhase {
-  agents: string[];
-  nextPhase?: string;
-  finalAgent?: string | null;
-}
-
-export interface WorkflowPhases {
-  [key: string]: WorkflowPhase;
-}
+export type { WorkflowPhase, WorkflowPhases } from '../../_shared/workflowGraph.ts';
 
 export interface RequestBody {
   action?: string;
@@ -135,9 +140,10 @@ export interface RequestBody {
   failedToInvoke?: string;
   riskManagerDecision?: any;
   apiSettings?: ApiSettings;  // Allow passing apiSettings in body
+  portfolioId?: string | null;  // Broker account for new analyses; omitted for the main account
 }
-export interface PortfolioContextData extends AlpacaPortfolioData {
+export interface PortfolioContextData extends BrokerPortfolioData {
   totalValue?: number;
   cash?: number;
-  pendingOrders?: AlpacaPortfolioData['openOrders'];
+  pendingOrders?: BrokerPortfolioData['openOrders'];
 }
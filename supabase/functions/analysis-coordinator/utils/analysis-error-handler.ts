@@ -1,5 +1,6 @@
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
+import { notifyUser, NOTIFICATION_EVENT } from '../../_shared/notifications.ts';
 
 /**
  * Unified method to mark an analysis as ERROR and notify rebalance-coordinator if needed
@@ -90,6 +91,15 @@ export async function markAnalysisAsErrorWithRebalanceCheck(
       console.log(`✅ Rebalance-coordinator notified of analysis failure`);
       return { success: true, rebalanceNotified: true };
     }
+
+    // Standalone analysis - tell the user directly
+    await notifyUser(supabase, userId, NOTIFICATION_EVENT.ANALYSIS_FAILED, {
+      title: `${ticker} analysis failed`,
+      message: errorReason,
+      path: '/analysis-records',
+      ticker,
+      analysisId
+    });
     
     return { success: true, rebalanceNotified: false };
   } catch (error) {
@@ -1,5 +1,6 @@
 import { ApiSettings } from '../types/index.ts';
 import { createErrorResponse } from './response-helpers.ts';
+import { CUSTOM_ANALYST_FUNCTION, isCustomAnalystAgent } from '../../_shared/customAnalysts.ts';
 
 /**
  * Fetch API settings for a user
@@ -15,19 +16,27 @@ export async function fetchApiSettings(
   const { data: rawSettings, error: settingsError } = await supabase
     .from('api_settings')
     .select(`
+      user_id,
       ai_provider,
       ai_api_key,
       ai_model,
+      ai_base_url,
+      ai_model_prices,
       alpaca_paper_api_key,
       alpaca_paper_secret_key,
       alpaca_live_api_key,
       alpaca_live_secret_key,
       alpaca_paper_trading,
+      simulated_trading,
+      simulated_starting_cash,
+      simulated_slippage_bps,
+      simulated_commission,
       user_risk_level,
       default_position_size_dollars,
       rebalance_max_position_size,
       rebalance_min_position_size,
       analysis_history_days,
+      analysis_indicators,
       analysis_optimization,
       analysis_search_sources,
       research_debate_rounds,
@@ -56,7 +65,8 @@ export async function fetchApiSettings(
       risk_team_model,
       risk_team_provider_id,
       profit_target,
-      stop_loss
+      stop_loss,
+      workflow_config
     `)
     .eq('user_id', userId)
     .single();
@@ -88,6 +98,7 @@ export async function fetchApiSettings(
   interface ProviderConfig {
     provider: string;
     api_key: string;
+    base_url?: string | null;
     nickname?: string;
     is_default?: boolean;
     id?: string;
@@ -116,6 +127,7 @@ export async function fetchApiSettings(
       const defaultProviderConfig = {
         provider: rawSettings.ai_provider,
         api_key: defaultApiKey,
+        base_url: rawSettings.ai_base_url ?? null,
         nickname: 'Default AI', // Frontend doesn't save nickname for default provider
         is_default: true,
         id: 'default' // Special ID for the default provider
@@ -224,7 +236,8 @@ export async function fetchApiSettings(
   const settings: any = {
     ...rawSettings,
     ai_provider: actualProvider, // Use the actual provider from config
-    ai_api_key
+    ai_api_key,
+    ai_base_url: selectedProviderConfig.base_url ?? null
     // Do NOT include provider-specific API key fields
     // The provider map is stored separately for agent-specific lookups
   };
@@ -289,6 +302,8 @@ export function getAgentSpecificSettings(
     'agent-fundamentals-analyst': { aiField: 'analysis_team_ai', modelField: 'analysis_team_model', providerIdField: 'analysis_team_provider_id' },
     'agent-news-analyst': { aiField: 'analysis_team_ai', modelField: 'analysis_team_model', providerIdField: 'analysis_team_provider_id' },
     'agent-social-media-analyst': { aiField: 'analysis_team_ai', modelField: 'analysis_team_model', providerIdField: 'analysis_team_provider_id' },
+    // Custom analysts use the analysis team model in either phase
+    [CUSTOM_ANALYST_FUNCTION]: { aiField: 'analysis_team_ai', modelField: 'analysis_team_model', providerIdField: 'analysis_team_provider_id' },
 
     // Research team agents
     'agent-bull-researcher': { aiField: 'research_team_ai', modelField: 'research_team_model', providerIdField: 'research_team_provider_id' },
@@ -310,7 +325,7 @@ export function getAgentSpecificSettings(
     'opportunity-agent': { aiField: 'opportunity_agent_ai', modelField: 'opportunity_agent_model', providerIdField: 'opportunity_agent_provider_id' }
   };
 
-  const teamConfig = agentTeamMap[agentName];
+  const teamConfig = agentTeamMap[isCustomAnalystAgent(agentName) ? CUSTOM_ANALYST_FUNCTION : agentName];
 
   if (teamConfig) {
     const teamProviderId = baseSettings[teamConfig.providerIdField];
@@ -329,6 +344,7 @@ export function getAgentSpecificSettings(
     interface ProviderConfigInternal {
       provider: string;
       api_key: string;
+      base_url?: string | null;
       nickname?: string;
       is_default?: boolean;
       id?: string;
@@ -379,6 +395,7 @@ export function getAgentSpecificSettings(
       // Use the actual provider name and API key from the config
       agentSettings.ai_provider = teamProviderConfig.provider;
       agentSettings.ai_api_key = teamProviderConfig.api_key;
+      agentSettings.ai_base_url = teamProviderConfig.base_url ?? null;
       console.log(`   ✅ Using provider: ${teamProviderConfig.provider} (${teamProviderConfig.nickname || 'provider config'})`);
       console.log(`   ✅ API key configured: ${!!teamProviderConfig.api_key}`);
     } else if (teamProviderId === null || teamProviderId === undefined || teamProviderId === '') {
@@ -0,0 +1,65 @@
+import { ApiSettings } from '../types/index.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser, toBudgetDetails } from '../../_shared/aiBudget.ts';
+import { markAnalysisAsErrorWithRebalanceCheck } from './analysis-error-handler.ts';
+import { createSuccessResponse } from './response-helpers.ts';
+
+/**
+ * Pause the analysis before entering a phase when the user's AI budget cannot cover
+ * the rest of the run.
+ * The analysis is marked as ERROR with the reason stored in metadata.budget_pause;
+ * retrying it once the budget allows resumes from the first incomplete phase.
+ * Returns null when the workflow may continue.
+ */
+export async function pauseAnalysisIfOverBudget(
+  supabase: any,
+  analysisId: string,
+  ticker: string,
+  userId: string,
+  apiSettings: ApiSettings,
+  phase: string
+): Promise<Response | null> {
+  const budget = await checkAIBudgetForUser(supabase, userId, { run: AI_BUDGET_RUN.ANALYSIS, runId: analysisId });
+  if (!budget.exceeded) {
+    return null;
+  }
+
+  console.warn(`💸 Pausing analysis ${analysisId} before ${phase} phase: ${budget.reason}`);
+
+  const { data: analysis } = await supabase
+    .from('analysis_history')
+    .select('metadata')
+    .eq('id', analysisId)
+    .single();
+
+  await supabase
+    .from('analysis_history')
+    .update({
+      metadata: {
+        ...(analysis?.metadata || {}),
+        budget_pause: toBudgetDetails(budget, {
+          phase,
+          paused_at: new Date().toISOString()
+        })
+      }
+    })
+    .eq('id', analysisId);
+
+  const errorResult = await markAnalysisAsErrorWithRebalanceCheck(
+    supabase,
+    analysisId,
+    ticker,
+    userId,
+    apiSettings,
+    `Paused before ${phase} phase - ${budget.reason}`
+  );
+
+  if (!errorResult.success) {
+    console.error(`❌ Failed to mark budget-paused analysis as ERROR:`, errorResult.error);
+  }
+
+  return createSuccessResponse({
+    message: `Analysis paused before ${phase} phase: ${budget.reason}`,
+    paused: true,
+    budgetExceeded: true
+  });
+}
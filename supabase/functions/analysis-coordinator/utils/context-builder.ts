@@ -1,5 +1,8 @@
 import { ApiSettings, AnalysisContext, PortfolioContextData, PositionContext, TargetAllocations, UserPreferences } from '../types/index.ts';
-import { fetchAlpacaPortfolio } from '../../_shared/portfolio/alpacaClient.ts';
+import { fetchBrokerPortfolio } from '../../_shared/portfolio/brokerPortfolio.ts';
+import { hasBrokerCredentials } from '../../_shared/brokers/index.ts';
+import { loadPortfolioRiskReport } from '../../_shared/riskAnalytics.ts';
+import { withAccountSettings } from '../../_shared/brokerAccounts.ts';
 
 function createEmptyPortfolioData(): PortfolioContextData {
   return {
@@ -57,26 +60,19 @@ export async function buildAnalysisContext(
   context.type = context.type || 'individual';
 
   let portfolioData: PortfolioContextData | undefined = context.portfolioData;
-  const alpacaApiKey = apiSettings?.alpaca_paper_trading
-    ? apiSettings?.alpaca_paper_api_key
-    : apiSettings?.alpaca_live_api_key;
-  const alpacaSecretKey = apiSettings?.alpaca_paper_trading
-    ? apiSettings?.alpaca_paper_secret_key
-    : apiSettings?.alpaca_live_secret_key;
-
-  if (alpacaApiKey && alpacaSecretKey) {
+  if (hasBrokerCredentials(apiSettings)) {
     const needsFetch = !portfolioData || !portfolioData.account || typeof portfolioData.account.cash !== 'number';
     if (needsFetch) {
       try {
-        const alpacaData = await fetchAlpacaPortfolio(apiSettings);
+        const brokerData = await fetchBrokerPortfolio(apiSettings);
         portfolioData = {
-          ...alpacaData,
-          totalValue: alpacaData.account.portfolio_value,
-          cash: alpacaData.account.cash,
-          pendingOrders: alpacaData.openOrders
+          ...brokerData,
+          totalValue: brokerData.account.portfolio_value,
+          cash: brokerData.account.cash,
+          pendingOrders: brokerData.openOrders
         };
       } catch (error) {
-        console.error('Failed to refresh Alpaca portfolio:', error);
+        console.error('Failed to refresh broker portfolio:', error);
         portfolioData = createEmptyPortfolioData();
       }
     }
@@ -100,11 +96,12 @@ export async function buildAnalysisContext(
   };
 
   try {
-    const { data: userSettings } = await supabase
+    const { data: storedSettings } = await supabase
       .from('api_settings')
       .select('profit_target, stop_loss, target_cash_allocation, target_stock_allocation, near_limit_threshold, near_position_threshold')
       .eq('user_id', userId)
       .single();
+    const userSettings = withAccountSettings(storedSettings, apiSettings);
 
     if (userSettings) {
       preferences = {
@@ -143,6 +140,21 @@ export async function buildAnalysisContext(
   context.targetAllocations = targetAllocations;
   context.position = position;
 
+  // Portfolio risk figures for the risk team; kept from the base context on refreshes
+  if (hasBrokerCredentials(apiSettings) && !context.portfolioRisk && portfolioData.totalValue > 0) {
+    try {
+      context.portfolioRisk = await loadPortfolioRiskReport(
+        supabase,
+        apiSettings,
+        positions,
+        portfolioData.account?.equity || portfolioData.totalValue
+      );
+    } catch (riskError) {
+      console.warn('⚠️ Failed to build portfolio risk analytics:', riskError);
+      context.portfolioRisk = null;
+    }
+  }
+
   return context;
 }
 
@@ -1,5 +1,5 @@
 import { ApiSettings, AnalysisContext } from '../types/index.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getWorkflowPhases, loadWorkflowPhases } from '../../_shared/workflowGraph.ts';
 import { invokeAgentWithRetry, invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { checkPhaseHealth, categorizeAgentError } from './phase-health-checker.ts';
 import { buildAnalysisContext, persistAnalysisContext } from './context-builder.ts';
@@ -176,7 +176,7 @@ export async function attemptPhaseRecovery(
   }
   
   // Check what failed
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = getWorkflowPhases(analysisData.full_analysis)[phase];
   if (!phaseConfig) {
     return {
       success: false,
@@ -298,7 +298,7 @@ export async function findLastSuccessfulPhase(
   supabase: any,
   analysisId: string
 ): Promise<string | null> {
-  const phases = ['analysis', 'research', 'trading', 'risk'];
+  const phases = Object.keys(await loadWorkflowPhases(supabase, analysisId)).filter(phase => phase !== 'portfolio');
   
   for (let i = phases.length - 1; i >= 0; i--) {
     const phase = phases[i];
@@ -326,14 +326,6 @@ export async function resumeFromPhase(
 ): Promise<{ success: boolean; message: string }> {
   console.log(`\ud83d\udd04 Resuming workflow from phase ${phase}`);
   
-  const phaseConfig = WORKFLOW_PHASES[phase];
-  if (!phaseConfig) {
-    return {
-      success: false,
-      message: `Unknown phase: ${phase}`
-    };
-  }
-  
   // Find the first incomplete agent in the phase from JSONB
   const { data: analysisData } = await supabase
     .from('analysis_history')
@@ -348,6 +340,14 @@ export async function resumeFromPhase(
     };
   }
 
+  const phaseConfig = getWorkflowPhases(analysisData.full_analysis)[phase];
+  if (!phaseConfig) {
+    return {
+      success: false,
+      message: `Unknown phase: ${phase}`
+    };
+  }
+
   const storedContext = analysisData.full_analysis?.analysisContext as AnalysisContext | undefined;
   const seedContext: AnalysisContext = {
     ...(storedContext || {}),
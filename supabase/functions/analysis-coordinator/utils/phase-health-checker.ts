@@ -1,4 +1,4 @@
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getAgentDisplayName, getWorkflowPhases } from '../../_shared/workflowGraph.ts';
 
 export interface PhaseHealthStatus {
   phase: string;
@@ -101,8 +101,15 @@ export async function checkPhaseHealth(
   analysisId: string,
   phase: string
 ): Promise<PhaseHealthStatus> {
-  const phaseConfig = WORKFLOW_PHASES[phase];
-  if (!phaseConfig) {
+  // Query workflow steps for this phase from JSONB data
+  const { data: analysisData, error } = await supabase
+    .from('analysis_history')
+    .select('full_analysis')
+    .eq('id', analysisId)
+    .single();
+  
+  if (error || !analysisData) {
+    console.error('Error fetching analysis data:', error);
     return {
       phase,
       totalAgents: 0,
@@ -113,22 +120,16 @@ export async function checkPhaseHealth(
       pendingAgents: 0,
       criticalFailures: [],
       canProceed: false,
-      reason: 'Unknown phase'
+      reason: 'Failed to fetch analysis data'
     };
   }
   
-  // Query workflow steps for this phase from JSONB data
-  const { data: analysisData, error } = await supabase
-    .from('analysis_history')
-    .select('full_analysis')
-    .eq('id', analysisId)
-    .single();
-  
-  if (error || !analysisData) {
-    console.error('Error fetching analysis data:', error);
+  // Phases and agents come from the graph this analysis was started with
+  const phaseConfig = getWorkflowPhases(analysisData.full_analysis)[phase];
+  if (!phaseConfig) {
     return {
       phase,
-      totalAgents: phaseConfig.agents.length,
+      totalAgents: 0,
       completedAgents: 0,
       successfulAgents: 0,
       failedAgents: 0,
@@ -136,7 +137,7 @@ export async function checkPhaseHealth(
       pendingAgents: 0,
       criticalFailures: [],
       canProceed: false,
-      reason: 'Failed to fetch analysis data'
+      reason: 'Phase is not part of this workflow'
     };
   }
   
@@ -158,27 +159,9 @@ export async function checkPhaseHealth(
     canProceed: true
   };
   
-  // Map agent function names to display names for comparison
-  const agentNameMap: { [key: string]: string } = {
-    'agent-macro-analyst': 'Macro Analyst',
-    'agent-market-analyst': 'Market Analyst',
-    'agent-fundamentals-analyst': 'Fundamentals Analyst',
-    'agent-news-analyst': 'News Analyst',
-    'agent-social-media-analyst': 'Social Media Analyst',
-    'agent-bull-researcher': 'Bull Researcher',
-    'agent-bear-researcher': 'Bear Researcher',
-    'agent-research-manager': 'Research Manager',
-    'agent-trader': 'Trader',
-    'agent-risky-analyst': 'Risky Analyst',
-    'agent-safe-analyst': 'Safe Analyst',
-    'agent-neutral-analyst': 'Neutral Analyst',
-    'agent-risk-manager': 'Risk Manager',
-    'analysis-portfolio-manager': 'Analysis Portfolio Manager'
-  };
-
   // Process each expected agent
   for (const agentFunc of phaseConfig.agents) {
-    const agentName = agentNameMap[agentFunc] || agentFunc;
+    const agentName = getAgentDisplayName(agentFunc);
     const step = steps?.find((s: any) => s.name === agentName ||
       (agentName === 'Analysis Portfolio Manager' && s.name === 'Portfolio Manager'));
     
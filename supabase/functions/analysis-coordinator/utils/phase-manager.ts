@@ -1,5 +1,5 @@
-import { ApiSettings, AnalysisContext } from '../types/index.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { ApiSettings, AnalysisContext, WorkflowPhases } from '../types/index.ts';
+import { getAgentDisplayName, loadWorkflowPhases } from '../../_shared/workflowGraph.ts';
 import { initializeDebateRound } from '../../_shared/atomicUpdate.ts';
 import { invokeAgentWithRetry, invokeWithRetryAsync, invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { createSuccessResponse, createErrorResponse } from './response-helpers.ts';
@@ -9,8 +9,8 @@ import { checkPhaseHealth } from './phase-health-checker.ts';
  * Get the next agent in the current phase based on the completed agent
  * Returns null if this is the last agent in the phase
  */
-export function getNextAgentInPhase(phase: string, completedAgent: string): string | null {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+export function getNextAgentInPhase(phases: WorkflowPhases, phase: string, completedAgent: string): string | null {
+  const phaseConfig = phases[phase];
   if (!phaseConfig || !phaseConfig.agents) {
     return null;
   }
@@ -53,7 +53,8 @@ export async function moveToNextPhase(
     throw new Error(`Phase ${currentPhase} is not ready for transition: ${currentPhaseHealth.reason}`);
   }
   
-  const phaseConfig = WORKFLOW_PHASES[currentPhase];
+  const workflowPhases = await loadWorkflowPhases(supabase, analysisId);
+  const phaseConfig = workflowPhases[currentPhase];
   const nextPhase = phaseConfig?.nextPhase;
   
   if (!nextPhase) {
@@ -68,9 +69,6 @@ export async function moveToNextPhase(
   // CRITICAL: Debug rebalance phase transitions
   if (analysisContext?.type === 'rebalance') {
     console.log(`🔄 REBALANCE PHASE TRANSITION: ${currentPhase} → ${nextPhase}`);
-    if (currentPhase === 'analysis' && nextPhase !== 'research') {
-      console.error(`❌ WRONG TRANSITION: Analysis should go to Research, not ${nextPhase}!`);
-    }
   }
   
   // Check if the next phase has any incomplete agents
@@ -107,7 +105,7 @@ export async function moveToNextPhase(
       console.log(`🔄 Reinitializing phase ${nextPhase} for rebalance workflow`);
       
       // Reset the phase by starting its first agent
-      const nextPhaseConfig = WORKFLOW_PHASES[nextPhase];
+      const nextPhaseConfig = workflowPhases[nextPhase];
       if (nextPhaseConfig && nextPhaseConfig.agents && nextPhaseConfig.agents.length > 0) {
         const firstAgent = nextPhaseConfig.agents[0];
         console.log(`🚀 Starting first agent of ${nextPhase}: ${firstAgent}`);
@@ -154,7 +152,7 @@ export async function moveToNextPhase(
   }
   
   // Find the first incomplete agent in the next phase (for non-research phases)
-  const nextPhaseConfig = WORKFLOW_PHASES[nextPhase];
+  const nextPhaseConfig = workflowPhases[nextPhase];
   if (nextPhaseConfig && nextPhaseConfig.agents && nextPhaseConfig.agents.length > 0) {
     // Get workflow steps to check agent status
     const { data: analysis } = await supabase
@@ -169,8 +167,7 @@ export async function moveToNextPhase(
     // Find first agent that isn't completed
     let agentToStart = null;
     for (const agentFunc of nextPhaseConfig.agents) {
-      const agentDisplayName = agentFunc.split('-').slice(1)
-        .map((s: string) => s.charAt(0).toUpperCase() + s.slice(1)).join(' ');
+      const agentDisplayName = getAgentDisplayName(agentFunc);
       
       const agentStatus = phaseStep?.agents?.find((a: any) => 
         a.name === agentDisplayName ||
@@ -267,7 +264,8 @@ export async function handleFailedInvocationFallback(
   console.log(`🔄 FALLBACK: ${completedAgent} failed to invoke ${failedToInvoke}, coordinator taking over`);
   
   // Validate that the failed agent is actually the next agent in sequence
-  const nextAgent = getNextAgentInPhase(phase, completedAgent);
+  const workflowPhases = await loadWorkflowPhases(supabase, analysisId);
+  const nextAgent = getNextAgentInPhase(workflowPhases, phase, completedAgent);
   
   if (!nextAgent) {
     console.warn(`⚠️ No next agent found for ${completedAgent} in phase ${phase}`);
@@ -332,7 +330,7 @@ export async function handleFailedInvocationFallback(
     }
     
     // Try to continue with the next agent after the failed one
-    const nextAfterFailed = getNextAgentInPhase(phase, targetAgent.replace('agent-', ''));
+    const nextAfterFailed = getNextAgentInPhase(workflowPhases, phase, targetAgent.replace('agent-', ''));
     if (nextAfterFailed) {
       console.log(`🔄 Attempting to skip failed agent and continue with: ${nextAfterFailed}`);
       
@@ -443,27 +441,3 @@ export async function handleFailedInvocationFallback(
     );
   }
 }
-
-/**
- * Get display name for an agent function name
- */
-function getAgentDisplayName(agentFunctionName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-macro-analyst': 'Macro Analyst',
-    'agent-market-analyst': 'Market Analyst',
-    'agent-fundamentals-analyst': 'Fundamentals Analyst', 
-    'agent-news-analyst': 'News Analyst',
-    'agent-social-media-analyst': 'Social Media Analyst',
-    'agent-research-manager': 'Research Manager',
-    'agent-bull-researcher': 'Bull Researcher',
-    'agent-bear-researcher': 'Bear Researcher',
-    'agent-risky-analyst': 'Risky Analyst',
-    'agent-safe-analyst': 'Safe Analyst',
-    'agent-neutral-analyst': 'Neutral Analyst',
-    'agent-risk-manager': 'Risk Manager',
-    'agent-trader': 'Trader',
-    'analysis-portfolio-manager': 'Analysis Portfolio Manager'
-  };
-  
-  return nameMap[agentFunctionName] || agentFunctionName;
-}
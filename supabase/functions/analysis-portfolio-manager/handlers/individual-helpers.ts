@@ -1,5 +1,6 @@
 import { updateAnalysisPhase, updateAgentInsights, appendAnalysisMessage, updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
 import { submitTradeOrders } from '../../_shared/tradeOrders.ts';
+import { buildDefaultOrderParams } from '../../_shared/orderTypes.ts';
 import { createTradeOrder, PortfolioIntent } from './individual-logic.ts';
 import { IndividualAnalysisResponse } from './individual-types.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
@@ -95,11 +96,18 @@ export async function executeTradeOrder(
     console.log(`💰 Order type: Dollar-based ($${tradeOrder.dollarAmount?.toFixed(2)})`);
   }
 
+  // Attach the user's default order type (market or limit) and time in force
+  if (tradeDirection !== 'HOLD') {
+    Object.assign(tradeOrder, buildDefaultOrderParams(tradeDirection, currentPrice, userSettings.orderDefaults));
+    console.log(`📐 Order execution: ${tradeOrder.orderType}${tradeOrder.limitPrice ? ` @ $${tradeOrder.limitPrice}` : ''} (${tradeOrder.timeInForce || 'auto'})`);
+  }
+
   // Submit trade order
   const result = await submitTradeOrders(supabase, tradeOrder, {
     userId,
     sourceType: 'individual_analysis',
-    agent: 'analysis-portfolio-manager'
+    agent: 'analysis-portfolio-manager',
+    portfolioId: apiSettings.broker_account_id
   });
 
   // Update agent insights
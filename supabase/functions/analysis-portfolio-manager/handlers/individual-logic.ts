@@ -1,5 +1,6 @@
 import { TradeOrderData } from '../../_shared/tradeOrders.ts';
 import { IndividualAnalysisContext, PositionContext } from './individual-types.ts';
+import { withAccountSettings } from '../../_shared/brokerAccounts.ts';
 
 export type PortfolioIntent = 'BUILD' | 'ADD' | 'TRIM' | 'EXIT' | 'HOLD';
 
@@ -49,11 +50,12 @@ export async function prepareUserSettings(
   let maxPositionSizeDollars: number;
   
   // Note: constraints are never passed from coordinator, always use database settings
-  const { data: userSettings } = await supabase
+  const { data: storedSettings } = await supabase
     .from('api_settings')
-    .select('user_risk_level, rebalance_min_position_size, rebalance_max_position_size, target_cash_allocation, profit_target, stop_loss, near_limit_threshold, near_position_threshold')
+    .select('user_risk_level, rebalance_min_position_size, rebalance_max_position_size, target_cash_allocation, profit_target, stop_loss, near_limit_threshold, near_position_threshold, default_order_type, default_time_in_force, limit_order_offset')
     .eq('user_id', userId)
     .single();
+  const userSettings = withAccountSettings(storedSettings, apiSettings);
   
   userRiskLevel = userSettings?.user_risk_level || apiSettings.user_risk_level || 'moderate';
   
@@ -75,6 +77,11 @@ export async function prepareUserSettings(
   const stopLossPercent = userSettings?.stop_loss ?? apiSettings?.stop_loss ?? 10;
   const nearLimitThresholdPercent = userSettings?.near_limit_threshold ?? apiSettings?.near_limit_threshold ?? 20;
   const nearPositionThresholdPercent = userSettings?.near_position_threshold ?? apiSettings?.near_position_threshold ?? 20;
+  const orderDefaults = {
+    default_order_type: userSettings?.default_order_type ?? apiSettings?.default_order_type ?? 'market',
+    default_time_in_force: userSettings?.default_time_in_force ?? apiSettings?.default_time_in_force ?? 'day',
+    limit_order_offset: userSettings?.limit_order_offset ?? apiSettings?.limit_order_offset ?? 0.5
+  };
 
   return {
     userRiskLevel,
@@ -87,7 +94,8 @@ export async function prepareUserSettings(
     profitTargetPercent,
     stopLossPercent,
     nearLimitThresholdPercent,
-    nearPositionThresholdPercent
+    nearPositionThresholdPercent,
+    orderDefaults
   };
 }
 
@@ -1,5 +1,7 @@
 import { updateAnalysisPhase, updateAgentInsights, appendAnalysisMessage, setAgentToError } from '../../_shared/atomicUpdate.ts';
-import { callAIProviderWithRetry } from '../../_shared/aiProviders.ts';
+import { callAIProviderWithRetryAndUsage, callAIProviderWithStructuredOutput } from '../../_shared/aiProviders.ts';
+import { type AIUsage, recordAIUsage } from '../../_shared/aiUsage.ts';
+import { AGENT_OUTPUT_SCHEMAS, type TradeOrderOutput } from '../../_shared/structuredOutput.ts';
 import { extractPositionSizing } from '../parsers/position-parser.ts';
 import { generateIndividualAnalysisPrompt, generateIndividualSystemPrompt, generateIndividualReasoningPrompt, generateReasoningSystemPrompt } from '../ai/prompts.ts';
 import { 
@@ -40,6 +42,64 @@ function roundToDefaultPositionSize(amount: number, defaultPositionSize: number
   return rounded;
 }
 
+interface UsageContext {
+  supabase: any;
+  userId: string;
+  analysisId: string;
+}
+
+/**
+ * Calls the AI provider and records the token usage against the analysis
+ */
+async function callPortfolioManagerAI(
+  usageContext: UsageContext,
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string,
+  maxTokens: number
+): Promise<string> {
+  const result = await callAIProviderWithRetryAndUsage(apiSettings, prompt, systemPrompt, maxTokens, 3);
+  await recordPortfolioManagerUsage(usageContext, apiSettings, result.usage);
+  return result.text;
+}
+
+/**
+ * Asks for the decision as a structured order and renders it in the one-line
+ * format the position parser reads; the raw text is returned when validation fails
+ */
+async function callPortfolioManagerDecisionAI(
+  usageContext: UsageContext,
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string,
+  maxTokens: number,
+  ticker: string
+): Promise<string> {
+  const result = await callAIProviderWithStructuredOutput<TradeOrderOutput>(
+    apiSettings,
+    prompt,
+    systemPrompt,
+    AGENT_OUTPUT_SCHEMAS.TRADE_ORDER,
+    maxTokens,
+    3
+  );
+  await recordPortfolioManagerUsage(usageContext, apiSettings, result.usage);
+  if (!result.data) {
+    return result.text;
+  }
+  return reconstructDecisionMessage(result.data.action, result.data.dollarAmount, ticker);
+}
+
+async function recordPortfolioManagerUsage(usageContext: UsageContext, apiSettings: any, usage: AIUsage) {
+  await recordAIUsage(usageContext.supabase, {
+    userId: usageContext.userId,
+    analysisId: usageContext.analysisId,
+    agentName: 'Analysis Portfolio Manager',
+    usage,
+    priceOverrides: apiSettings.ai_model_prices
+  });
+}
+
 /**
  * Reconstructs the decision message based on the final action after all modifications
  * This ensures the displayed decision matches what's actually executed
@@ -172,7 +232,8 @@ export async function processAnalysisData(
     ticker, totalValue, availableCash, currentPosition, userSettings,
     decision, effectiveIntent, tradeDirection, confidence, originalConfidence, riskAssessment,
     currentPrice, pendingOrdersInfo, pendingOrdersForTicker, intentWarning,
-    pendingOrderOverride, hasPendingBuy, apiSettings, allowedCash, targetCashAllocationPercent
+    pendingOrderOverride, hasPendingBuy, apiSettings, allowedCash, targetCashAllocationPercent,
+    { supabase, userId, analysisId }
   );
   
   if (!aiAnalysisResult.success) {
@@ -333,7 +394,10 @@ export async function processAnalysisData(
       const reasoningMaxTokens = apiSettings.portfolio_manager_max_tokens || 1200;
       
       console.log(`📝 Generating updated reasoning based on final decision with ${reasoningMaxTokens} max tokens`);
-      updatedReasoning = await callAIProviderWithRetry(aiAnalysisResult.pmApiSettings || apiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens, 3);
+      updatedReasoning = await callPortfolioManagerAI(
+        { supabase, userId, analysisId },
+        aiAnalysisResult.pmApiSettings || apiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens
+      );
     } catch (reasoningError) {
       console.error('❌ Failed to generate updated reasoning:', reasoningError);
       updatedReasoning = positionSizing.reasoning || `Portfolio decision: ${updatedDecision}`;
@@ -385,7 +449,7 @@ async function generateAIAnalysis(
   confidence: number, originalConfidence: number, riskAssessment: any, currentPrice: number,
   pendingOrdersInfo: string, pendingOrdersForTicker: any[], intentWarning: string,
   pendingOrderOverride: string, hasPendingBuy: boolean, apiSettings: any,
-  allowedCash: number, targetCashAllocationPercent: number
+  allowedCash: number, targetCashAllocationPercent: number, usageContext: UsageContext
 ): Promise<{ success: boolean; aiResponse?: string; combinedResponse?: string; agentError?: string; pmApiSettings?: any }> {
   
   // Prepare AI prompt
@@ -418,7 +482,7 @@ async function generateAIAnalysis(
     const baseTokens = apiSettings.portfolio_manager_max_tokens || 1200;
     const decisionTokens = Math.floor(baseTokens / 2);
     console.log(`📝 Using ${decisionTokens} max tokens for portfolio analysis (1/2 of ${baseTokens})`);
-    aiResponse = await callAIProviderWithRetry(pmApiSettings, prompt, systemPrompt, decisionTokens, 3);
+    aiResponse = await callPortfolioManagerDecisionAI(usageContext, pmApiSettings, prompt, systemPrompt, decisionTokens, ticker);
   } catch (aiError) {
     console.error('❌ AI provider call failed:', aiError);
     agentError = aiError.message || 'Failed to get AI response';
@@ -438,7 +502,7 @@ async function generateAIAnalysis(
       const reasoningMaxTokens = apiSettings.portfolio_manager_max_tokens || 1200;
       
       console.log(`📝 Generating detailed reasoning with ${reasoningMaxTokens} max tokens`);
-      detailedReasoning = await callAIProviderWithRetry(pmApiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens, 3);
+      detailedReasoning = await callPortfolioManagerAI(usageContext, pmApiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens);
     } catch (reasoningError) {
       console.error('❌ Failed to generate detailed reasoning:', reasoningError);
       detailedReasoning = `Unable to generate detailed reasoning: ${reasoningError.message}`;
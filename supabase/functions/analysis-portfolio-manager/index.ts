@@ -1,7 +1,7 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { AnalysisPortfolioManagerRequest } from './types/interfaces.ts';
-import { fetchAlpacaPortfolio } from '../_shared/portfolio/alpacaClient.ts';
+import { fetchBrokerPortfolio } from '../_shared/portfolio/brokerPortfolio.ts';
 import { handleIndividualAnalysis } from './handlers/individual.ts';
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts';
 import { updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts';
@@ -109,7 +109,7 @@ serve(async (req) => {
     console.log(`  - Analysis ID: ${analysisId}`);
     console.log(`  - Ticker: ${ticker}`);
     // Fetch portfolio data from Alpaca
-    const portfolioData = await fetchAlpacaPortfolio(apiSettings);
+    const portfolioData = await fetchBrokerPortfolio(apiSettings);
 
     // Handle individual stock analysis
     const result = await handleIndividualAnalysis(
@@ -2,8 +2,9 @@ import { serve } from 'https://deno.land/std@0.210.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
 import { ANALYSIS_STATUS, REBALANCE_STATUS, TRADE_ORDER_STATUS, isAnalysisActive, isRebalanceActive } from '../_shared/statusTypes.ts';
-import { fetchAlpacaPortfolio } from '../_shared/portfolio/alpacaClient.ts';
+import { fetchBrokerPortfolio } from '../_shared/portfolio/brokerPortfolio.ts';
 import { invokeWithRetry } from '../_shared/invokeWithRetry.ts';
+import { AI_BUDGET_RUN, checkAIBudget, toBudgetDetails } from '../_shared/aiBudget.ts';
 
 /**
  * Edge function to automatically trigger analysis when positions approach profit/loss thresholds
@@ -123,7 +124,10 @@ serve(async (req) => {
         auto_near_limit_analysis,
         ai_provider,
         ai_api_key,
-        ai_model
+        ai_model,
+        ai_budget_period,
+        ai_budget_usd,
+        ai_budget_tokens
       `)
       .eq('auto_near_limit_analysis', true);
 
@@ -199,6 +203,30 @@ serve(async (req) => {
       try {
         console.log(`\n👤 Processing user ${userId} (${userSettings.alpaca_paper_trading ? 'paper' : 'live'} mode)`);
 
+        // Skip users whose AI budget is exhausted and record why
+        const budget = await checkAIBudget(supabase, userId, userSettings, { run: AI_BUDGET_RUN.ANALYSIS });
+        if (budget.exceeded) {
+          console.log(`   💸 ${budget.reason} - skipping`);
+          await supabase
+            .from('api_settings')
+            .update({
+              auto_near_limit_last_execution_details: {
+                executed_at: currentTime.toISOString(),
+                success: false,
+                skipped: true,
+                ...toBudgetDetails(budget)
+              }
+            })
+            .eq('user_id', userId);
+
+          results.push({
+            userId,
+            status: 'skipped',
+            reason: budget.reason
+          });
+          continue;
+        }
+
         // Check if user has any running analyses
         const { data: runningAnalyses, error: analysisError } = await supabase
           .from('analysis_history')
@@ -303,7 +331,7 @@ serve(async (req) => {
 
         let portfolioData;
         try {
-          portfolioData = await fetchAlpacaPortfolio(apiSettings);
+          portfolioData = await fetchBrokerPortfolio(apiSettings);
         } catch (portfolioError: unknown) {
           const errorMsg = portfolioError instanceof Error ? portfolioError.message : String(portfolioError);
           console.error(`   ❌ Failed to fetch portfolio for user ${userId}:`, portfolioError);
@@ -409,7 +437,8 @@ serve(async (req) => {
 
         // Trigger analysis for each near-limit position
         console.log(`   🚀 Found ${nearLimitPositions.length} position(s) near limits`);
-        
+        let userAnalysesTriggered = 0;
+
         for (const position of nearLimitPositions) {
           try {
             console.log(`   📊 Triggering analysis for ${position.symbol}...`);
@@ -441,6 +470,7 @@ serve(async (req) => {
               const analysisId = result.data?.analysisId || 'unknown';
               console.log(`   ✅ Successfully triggered analysis for ${position.symbol} (ID: ${analysisId})`);
               analysesTriggered++;
+              userAnalysesTriggered++;
               
               results.push({
                 userId,
@@ -468,6 +498,19 @@ serve(async (req) => {
           }
         }
 
+        await supabase
+          .from('api_settings')
+          .update({
+            auto_near_limit_last_execution_details: {
+              executed_at: currentTime.toISOString(),
+              success: true,
+              skipped: false,
+              near_limit_found: nearLimitPositions.length,
+              analyses_triggered: userAnalysesTriggered
+            }
+          })
+          .eq('user_id', userId);
+
       } catch (userError: unknown) {
         const errorMsg = userError instanceof Error ? userError.message : String(userError);
         console.error(`Error processing user ${userId}:`, userError);
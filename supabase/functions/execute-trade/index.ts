@@ -10,6 +10,35 @@ import {
   createErrorResponse,
   createApiErrorResponse
 } from '../_shared/responseHelpers.ts';
+import { loadBrokerAccount } from '../_shared/brokerAccounts.ts';
+import {
+  createBroker,
+  fetchBrokerQuote,
+  isBrokerRequestError,
+  type BrokerAdapter,
+  type BrokerOrderRequest
+} from '../_shared/brokers/index.ts';
+import {
+  ORDER_TYPE,
+  TIME_IN_FORCE,
+  normalizeOrderParams,
+  validateOrderParams,
+  getReferencePrice,
+  type OrderParams
+} from '../_shared/orderTypes.ts';
+import {
+  EXIT_ORDER_MODE,
+  EXIT_ORDER_STATUS,
+  resolveExitOrderMode,
+  computeExitPrices,
+  createExitOrdersMetadata,
+  extractExitLegs,
+  submitOcoExitOrder,
+  type AlpacaExitOrderResponse,
+  type ExitOrderMode,
+  type ExitOrderSettings,
+  type ExitOrdersMetadata
+} from '../_shared/exitOrders.ts';
 
 interface SymbolResolution {
   orderSymbol: string;
@@ -79,17 +108,11 @@ function buildSymbolCandidates(ticker: string): string[] {
   return Array.from(candidates).filter(Boolean);
 }
 
-async function resolveAlpacaSymbol(
+async function resolveOrderSymbol(
   ticker: string,
-  baseUrl: string,
-  apiKey: string,
-  apiSecret: string
+  broker: BrokerAdapter
 ): Promise<SymbolResolution> {
   const candidates = buildSymbolCandidates(ticker);
-  const headers = {
-    'APCA-API-KEY-ID': apiKey,
-    'APCA-API-SECRET-KEY': apiSecret
-  };
 
   const lookups: SymbolResolution['lookedUpSymbols'] = [];
   const responses: Array<{ candidate: string; asset: any }> = [];
@@ -98,16 +121,13 @@ async function resolveAlpacaSymbol(
     if (!candidate) continue;
 
     try {
-      const response = await fetch(`${baseUrl}/v2/assets/${encodeURIComponent(candidate)}`, {
-        headers
-      });
+      const asset = await broker.getAsset(candidate);
 
-      if (!response.ok) {
+      if (!asset) {
         lookups.push({ candidate });
         continue;
       }
 
-      const asset = await response.json();
       lookups.push({
         candidate,
         assetSymbol: asset?.symbol,
@@ -177,9 +197,11 @@ async function resolveAlpacaSymbol(
 
 interface ExecuteTradeRequest {
   tradeActionId: string;   // Direct ID of trading_actions record (primary method)
-  action: 'approve' | 'reject';
+  action: 'approve' | 'reject' | 'place_exit_orders';
   userId?: string;         // Optional userId for server-to-server calls
   isServerCall?: boolean;  // Flag to indicate call from another edge function
+  orderParams?: Partial<OrderParams>;  // Optional overrides for order type, time in force and prices
+  exitOrderMode?: ExitOrderMode;       // Optional override of the user's bracket / OCO exit setting (BUY only)
 }
 
 serve(async (req) => {
@@ -191,7 +213,14 @@ serve(async (req) => {
   try {
     // Parse the request body first to check for server-to-server calls
     const requestBody = await req.json() as ExecuteTradeRequest;
-    const { tradeActionId, action, userId: serverProvidedUserId, isServerCall } = requestBody;
+    const {
+      tradeActionId,
+      action,
+      userId: serverProvidedUserId,
+      isServerCall,
+      orderParams: requestedOrderParams,
+      exitOrderMode: requestedExitOrderMode
+    } = requestBody;
 
     const authHeader = req.headers.get('Authorization');
     const bearerToken = authHeader?.replace('Bearer ', '').trim();
@@ -251,6 +280,11 @@ serve(async (req) => {
       return createErrorResponse('Trade order not found');
     }
 
+    if (action === 'place_exit_orders') {
+      // Retry / trigger OCO exits for an entry order that filled after polling stopped
+      return await handlePlaceExitOrders(supabaseAdmin, tradeOrder, userId);
+    }
+
     const existingResolvedOrder = await findExistingResolvedOrder(
       supabaseAdmin,
       tradeOrder,
@@ -296,7 +330,7 @@ serve(async (req) => {
       );
     }
 
-    // Handle approval - execute on Alpaca
+    // Handle approval - execute on the account's broker
 
     // Check if already approved or has Alpaca order
     if (tradeOrder.status === TRADE_ORDER_STATUS.APPROVED && tradeOrder.metadata?.alpaca_order?.id) {
@@ -311,45 +345,19 @@ serve(async (req) => {
       );
     }
 
-    // Get user's Alpaca credentials
-    const { data: settings, error: settingsError } = await supabaseAdmin
-      .from('api_settings')
-      .select('alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading')
-      .eq('user_id', userId)
-      .single();
-
-    if (settingsError || !settings) {
-      console.error('Settings error for user', userId, ':', settingsError);
-      return createErrorResponse('API settings not found. Please configure in Settings.');
-    }
-
-    // Determine which credentials to use based on paper trading setting
-    const isPaper = settings?.alpaca_paper_trading ?? true;
-    const alpacaApiKey = isPaper ? settings?.alpaca_paper_api_key : settings?.alpaca_live_api_key;
-    const alpacaApiSecret = isPaper ? settings?.alpaca_paper_secret_key : settings?.alpaca_live_secret_key;
-
-    if (!alpacaApiKey || !alpacaApiSecret) {
-      console.log('Missing Alpaca credentials for user', userId);
-      return createErrorResponse('Alpaca credentials not configured. Please add them in Settings.');
+    // Get the broker for the account the order belongs to
+    const connection = await loadBrokerConnection(supabaseAdmin, userId, tradeOrder.portfolio_id);
+    if ('error' in connection) {
+      return createErrorResponse(connection.error);
     }
-
-    // Alpaca API base URL
-    const alpacaBaseUrl = isPaper
-      ? 'https://paper-api.alpaca.markets'
-      : 'https://api.alpaca.markets';
+    const { settings, broker } = connection;
 
     // Log metadata for debugging
     console.log(`📋 Trade order metadata for ${tradeOrder.ticker}:`, tradeOrder.metadata);
 
-    const symbolResolution = await resolveAlpacaSymbol(
-      tradeOrder.ticker,
-      alpacaBaseUrl,
-      alpacaApiKey,
-      alpacaApiSecret
-    );
+    const symbolResolution = await resolveOrderSymbol(tradeOrder.ticker, broker);
     const alpacaOrderSymbol = symbolResolution.orderSymbol;
     const alpacaPositionSymbol = symbolResolution.positionSymbol;
-    const encodedPositionSymbol = encodeURIComponent(alpacaPositionSymbol);
 
     const sanitizedAsset = symbolResolution.asset ? {
       symbol: symbolResolution.asset.symbol,
@@ -377,19 +385,113 @@ serve(async (req) => {
       resolved_candidate: symbolResolution.candidate,
       looked_up_symbols: symbolResolution.lookedUpSymbols,
       asset: sanitizedAsset,
-      is_crypto: symbolResolution.isCrypto
+      is_crypto: symbolResolution.isCrypto,
+      broker: broker.broker
     };
 
     if (symbolResolution.lookedUpSymbols.length > 0) {
-      console.log('🔁 Alpaca symbol lookup attempts:', symbolResolution.lookedUpSymbols);
+      console.log(`🔁 ${broker.label} symbol lookup attempts:`, symbolResolution.lookedUpSymbols);
+    }
+
+    if (symbolResolution.isCrypto && !broker.capabilities.crypto) {
+      return createErrorResponse(`${broker.label} does not support crypto trading`, 200, { symbolMetadata });
     }
 
     if (symbolResolution.asset) {
       console.log(
-        `🎯 Resolved Alpaca asset for ${tradeOrder.ticker}: order=${alpacaOrderSymbol}, position=${alpacaPositionSymbol}, asset=${symbolResolution.assetSymbol} (asset class: ${symbolResolution.asset.asset_class}, fractionable: ${symbolResolution.asset.fractionable})`
+        `🎯 Resolved ${broker.label} asset for ${tradeOrder.ticker}: order=${alpacaOrderSymbol}, position=${alpacaPositionSymbol}, asset=${symbolResolution.assetSymbol} (asset class: ${symbolResolution.asset.asset_class}, fractionable: ${symbolResolution.asset.fractionable})`
       );
     } else {
-      console.log(`⚠️ Using fallback Alpaca symbol for ${tradeOrder.ticker}: ${alpacaOrderSymbol}`);
+      console.log(`⚠️ Using fallback ${broker.label} symbol for ${tradeOrder.ticker}: ${alpacaOrderSymbol}`);
+    }
+
+    // Resolve order type / time in force / prices (request overrides take precedence over stored values)
+    const orderParams = normalizeOrderParams({
+      ...tradeOrder,
+      ...(requestedOrderParams || {})
+    });
+    if (symbolResolution.isCrypto && orderParams.timeInForce &&
+        orderParams.timeInForce !== TIME_IN_FORCE.GTC && orderParams.timeInForce !== TIME_IN_FORCE.IOC) {
+      // Crypto only trades gtc/ioc - a stock-oriented default like "day" is upgraded to gtc
+      console.log(`🔄 Crypto order: switching time in force ${orderParams.timeInForce} → gtc`);
+      orderParams.timeInForce = TIME_IN_FORCE.GTC;
+    }
+    const orderSide = tradeOrder.action.toLowerCase() as 'buy' | 'sell';
+    const isMarketOrder = orderParams.orderType === ORDER_TYPE.MARKET;
+    let referencePrice: number | null = null;
+
+    if (orderParams.orderType === ORDER_TYPE.TRAILING_STOP && !broker.capabilities.trailingStopOrders) {
+      return createErrorResponse(`${broker.label} does not support trailing stop orders`, 200, { orderParams });
+    }
+
+    if (!isMarketOrder) {
+      const latestQuote = await fetchBrokerQuote(broker, alpacaOrderSymbol, symbolResolution.isCrypto);
+      const validation = validateOrderParams(orderParams, orderSide, latestQuote, {
+        isCrypto: symbolResolution.isCrypto
+      });
+
+      if (!validation.valid) {
+        console.warn(`⛔ Order validation failed for ${tradeOrder.ticker}: ${validation.error}`);
+        return createErrorResponse(validation.error || 'Invalid order parameters', 200, {
+          orderParams,
+          quote: latestQuote
+        });
+      }
+
+      referencePrice = validation.referencePrice ?? getReferencePrice(latestQuote, orderSide);
+      console.log(`📐 ${orderParams.orderType} order validated against quote $${referencePrice}:`, orderParams);
+    }
+
+    // Take-profit / stop-loss exits for BUY orders (bracket attached now, OCO placed after the fill)
+    let exitOrders: ExitOrdersMetadata | null = null;
+    const exitOrderMode = orderSide === 'buy'
+      ? resolveExitOrderMode(requestedExitOrderMode, settings)
+      : EXIT_ORDER_MODE.NONE;
+
+    if (exitOrderMode !== EXIT_ORDER_MODE.NONE) {
+      exitOrders = createExitOrdersMetadata(exitOrderMode, settings);
+
+      if (symbolResolution.isCrypto) {
+        exitOrders.status = EXIT_ORDER_STATUS.SKIPPED;
+        exitOrders.error = 'Bracket and OCO orders are not supported for crypto';
+      } else if (exitOrderMode === EXIT_ORDER_MODE.BRACKET &&
+                 orderParams.orderType !== ORDER_TYPE.MARKET && orderParams.orderType !== ORDER_TYPE.LIMIT) {
+        // Alpaca only accepts market or limit entries on a bracket - protect the position after the fill instead
+        console.log(`🔄 Bracket not available for ${orderParams.orderType} entries, placing OCO exits after the fill`);
+        exitOrders.mode = EXIT_ORDER_MODE.OCO;
+      } else if (exitOrderMode === EXIT_ORDER_MODE.BRACKET && !broker.capabilities.bracketOrders) {
+        console.log(`🔄 ${broker.label} has no bracket orders, placing OCO exits after the fill`);
+        exitOrders.mode = EXIT_ORDER_MODE.OCO;
+      }
+
+      if (exitOrders.mode === EXIT_ORDER_MODE.OCO && !broker.capabilities.ocoOrders) {
+        exitOrders.status = EXIT_ORDER_STATUS.SKIPPED;
+        exitOrders.error = `${broker.label} does not support bracket or OCO exit orders`;
+      }
+    }
+
+    const useBracket = exitOrders?.mode === EXIT_ORDER_MODE.BRACKET &&
+      exitOrders.status === EXIT_ORDER_STATUS.PENDING_FILL;
+
+    if (useBracket && exitOrders) {
+      if (!referencePrice) {
+        const latestQuote = await fetchBrokerQuote(broker, alpacaOrderSymbol, false);
+        referencePrice = getReferencePrice(latestQuote, orderSide);
+      }
+
+      const entryPrice = orderParams.limitPrice || referencePrice;
+      if (!entryPrice) {
+        return createErrorResponse('Unable to fetch a current quote to price the bracket exits', 200, { orderParams });
+      }
+
+      const { takeProfitPrice, stopLossPrice } = computeExitPrices(
+        entryPrice,
+        exitOrders.take_profit_percent,
+        exitOrders.stop_loss_percent
+      );
+      exitOrders.take_profit_price = takeProfitPrice;
+      exitOrders.stop_loss_price = stopLossPrice;
+      console.log(`🎯 Bracket exits for ${tradeOrder.ticker}: take profit $${takeProfitPrice}, stop loss $${stopLossPrice} (entry ~$${entryPrice})`);
     }
 
     // Check if this is a full position closure SELL order
@@ -400,23 +502,18 @@ serve(async (req) => {
       tradeOrder.shares > 0 &&
       (tradeOrder.metadata?.useCloseEndpoint === true ||
         tradeOrder.metadata?.shouldClosePosition === true ||
-        tradeOrder.metadata?.isFullPositionClosure === true);
+        tradeOrder.metadata?.isFullPositionClosure === true) &&
+      isMarketOrder;  // The close endpoint only submits market orders
     
     console.log(`🔍 Close position check: action=${tradeOrder.action}, shares=${tradeOrder.shares}, useCloseEndpoint=${tradeOrder.metadata?.useCloseEndpoint}, shouldClose=${shouldUseClosePosition}`);
 
     // Additional safety check: If it's a SELL order, fetch current position to check for precision issues
-    if (tradeOrder.action === 'SELL' && tradeOrder.shares > 0 && !shouldUseClosePosition) {
+    if (tradeOrder.action === 'SELL' && tradeOrder.shares > 0 && !shouldUseClosePosition && isMarketOrder) {
       try {
         console.log(`🔍 Checking position for ${tradeOrder.ticker} (${alpacaPositionSymbol}) to detect precision issues`);
-        const positionResponse = await fetch(`${alpacaBaseUrl}/v2/positions/${encodedPositionSymbol}`, {
-          headers: {
-            'APCA-API-KEY-ID': alpacaApiKey,
-            'APCA-API-SECRET-KEY': alpacaApiSecret,
-          },
-        });
+        const position = await broker.getPosition(alpacaPositionSymbol);
 
-        if (positionResponse.ok) {
-          const position = await positionResponse.json();
+        if (position) {
           const currentQty = parseFloat(position.qty);
           const requestedQty = tradeOrder.shares;
           const difference = Math.abs(currentQty - requestedQty);
@@ -436,68 +533,48 @@ serve(async (req) => {
       }
     }
 
-    let alpacaResponse;
     let alpacaOrder: any;
     let orderRequest: any = null;
 
+    // Broker errors are returned with the order context so the UI can show why it was rejected
+    const buildBrokerErrorPayload = (error: unknown) => {
+      const status = isBrokerRequestError(error) ? error.status : null;
+      const details: any = isBrokerRequestError(error) ? error.details : null;
+      const detailedMessage = details && typeof details === 'object'
+        ? details.message || details.error || details.fault?.faultstring
+        : null;
+      const rawErrorString = details
+        ? (typeof details === 'string' ? details : JSON.stringify(details))
+        : (error as Error)?.message;
+
+      return {
+        success: false,
+        error: rawErrorString
+          ? `${broker.label} API error: ${rawErrorString}`
+          : `${broker.label} API error: Unknown error`,
+        errorDetail: detailedMessage || null,
+        errorCode: details?.code,
+        alpacaError: details || (error as Error)?.message,
+        alpacaStatus: status,
+        symbol: alpacaOrderSymbol,
+        position_symbol: alpacaPositionSymbol,
+        symbolMetadata,
+        request: orderRequest
+      };
+    };
+
     if (shouldUseClosePosition) {
-      // Use DELETE /positions/{symbol} endpoint for clean position closure
+      // Close the whole position through the broker for a clean exit
       console.log(
         `🎯 Using close position endpoint for ${tradeOrder.ticker} (resolved: position=${alpacaPositionSymbol}, order=${alpacaOrderSymbol}) - closing entire position`
       );
 
-      alpacaResponse = await fetch(`${alpacaBaseUrl}/v2/positions/${encodedPositionSymbol}`, {
-        method: 'DELETE',
-        headers: {
-          'APCA-API-KEY-ID': alpacaApiKey,
-          'APCA-API-SECRET-KEY': alpacaApiSecret,
-        },
-      });
-
-      if (!alpacaResponse.ok) {
-        const errorText = await alpacaResponse.text();
-        let parsedError: any = null;
-        try {
-          parsedError = JSON.parse(errorText);
-        } catch {
-          parsedError = null;
-        }
-
-        const rawErrorString = parsedError ? JSON.stringify(parsedError) : errorText;
-        const detailedMessage = parsedError?.message || parsedError?.error;
-        const errorMessage = rawErrorString
-          ? `Alpaca API error: ${rawErrorString}`
-          : 'Alpaca API error: Unknown error';
-
-        const errorPayload = {
-          success: false,
-          error: errorMessage,
-          errorDetail: detailedMessage || null,
-          errorCode: parsedError?.code,
-          alpacaError: parsedError || errorText,
-          alpacaStatus: alpacaResponse.status,
-          symbol: alpacaOrderSymbol,
-          position_symbol: alpacaPositionSymbol,
-          symbolMetadata,
-          request: orderRequest
-        };
-
-        console.error('Alpaca close position error:', errorPayload);
-
-        // If position doesn't exist, that's actually OK - nothing to close
-        if (alpacaResponse.status === 404) {
-          return new Response(
-            JSON.stringify({
-              success: true,
-              message: 'No position exists to close',
-              warning: 'Position was already closed or never existed',
-              symbol: alpacaOrderSymbol,
-              position_symbol: alpacaPositionSymbol,
-              symbolMetadata
-            }),
-            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
+      let closeResponse: any;
+      try {
+        closeResponse = await broker.closePosition(alpacaPositionSymbol);
+      } catch (error) {
+        const errorPayload = buildBrokerErrorPayload(error);
+        console.error(`${broker.label} close position error:`, errorPayload);
 
         return new Response(
           JSON.stringify(errorPayload),
@@ -505,23 +582,35 @@ serve(async (req) => {
         );
       }
 
-      // Parse the close position response
-      // Alpaca's close position endpoint returns an order object
-      const closeResponse = await alpacaResponse.json();
+      // If position doesn't exist, that's actually OK - nothing to close
+      if (!closeResponse) {
+        return new Response(
+          JSON.stringify({
+            success: true,
+            message: 'No position exists to close',
+            warning: 'Position was already closed or never existed',
+            symbol: alpacaOrderSymbol,
+            position_symbol: alpacaPositionSymbol,
+            symbolMetadata
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // The close position call returns an order object
       console.log('Position closed successfully:', closeResponse);
       console.log('Order ID from close position:', closeResponse.id || closeResponse.order_id || 'No order ID in response');
 
-      // The close position endpoint returns an actual order object
-      // Use the real order data from Alpaca
+      // Use the real order data from the broker
       const fallbackTimeInForce = symbolResolution.isCrypto ? 'gtc' : 'day';
 
       alpacaOrder = {
-        id: closeResponse.id || closeResponse.order_id,  // Use actual Alpaca order ID
+        id: closeResponse.id || closeResponse.order_id,  // Use actual broker order ID
         client_order_id: closeResponse.client_order_id || `ai_close_${tradeActionId}_${Date.now()}`,
         created_at: closeResponse.created_at || new Date().toISOString(),
         submitted_at: closeResponse.submitted_at || new Date().toISOString(),
         filled_at: closeResponse.filled_at || new Date().toISOString(),
-        status: closeResponse.status || 'filled',  // Use actual status from Alpaca
+        status: closeResponse.status || 'filled',  // Use actual status from the broker
         symbol: closeResponse.symbol || alpacaOrderSymbol,
         side: closeResponse.side || 'sell',
         order_type: closeResponse.order_type || 'market',
@@ -536,66 +625,91 @@ serve(async (req) => {
 
     } else {
       // Use standard order submission
-      const timeInForce = symbolResolution.isCrypto ? 'gtc' : 'day';
+      let timeInForce = orderParams.timeInForce ||
+        (symbolResolution.isCrypto ? TIME_IN_FORCE.GTC : TIME_IN_FORCE.DAY);
+      if (useBracket && timeInForce !== TIME_IN_FORCE.DAY && timeInForce !== TIME_IN_FORCE.GTC) {
+        // Bracket orders only support day or gtc
+        console.log(`🔄 Bracket order: switching time in force ${timeInForce} → day`);
+        timeInForce = TIME_IN_FORCE.DAY;
+      }
       orderRequest = {
         symbol: alpacaOrderSymbol,
-        side: tradeOrder.action.toLowerCase(),
-        type: 'market',
+        side: orderSide,
+        type: orderParams.orderType,
         time_in_force: timeInForce,
         client_order_id: `ai_${tradeActionId}_${Date.now()}`
       };
 
+      if (orderParams.limitPrice && (orderParams.orderType === ORDER_TYPE.LIMIT || orderParams.orderType === ORDER_TYPE.STOP_LIMIT)) {
+        orderRequest.limit_price = orderParams.limitPrice.toString();
+      }
+      if (orderParams.stopPrice && (orderParams.orderType === ORDER_TYPE.STOP || orderParams.orderType === ORDER_TYPE.STOP_LIMIT)) {
+        orderRequest.stop_price = orderParams.stopPrice.toString();
+      }
+      if (orderParams.orderType === ORDER_TYPE.TRAILING_STOP) {
+        if (orderParams.trailPercent) {
+          orderRequest.trail_percent = orderParams.trailPercent.toString();
+        } else if (orderParams.trailPrice) {
+          orderRequest.trail_price = orderParams.trailPrice.toString();
+        }
+      }
+      if (useBracket && exitOrders) {
+        orderRequest.order_class = 'bracket';
+        orderRequest.take_profit = { limit_price: exitOrders.take_profit_price!.toString() };
+        orderRequest.stop_loss = { stop_price: exitOrders.stop_loss_price!.toString() };
+      }
+
       // Set quantity based on order type
       if (tradeOrder.dollar_amount && tradeOrder.dollar_amount > 0) {
-        orderRequest.notional = tradeOrder.dollar_amount;
+        if (isMarketOrder && !useBracket && broker.capabilities.notionalOrders) {
+          orderRequest.notional = tradeOrder.dollar_amount;
+        } else {
+          // Notional amounts only work on simple market orders at brokers that take them - convert to a quantity
+          if (!referencePrice && !orderParams.limitPrice && !orderParams.stopPrice) {
+            const latestQuote = await fetchBrokerQuote(broker, alpacaOrderSymbol, symbolResolution.isCrypto);
+            referencePrice = getReferencePrice(latestQuote, orderSide);
+          }
+          const pricingBasis = orderParams.limitPrice || orderParams.stopPrice || referencePrice;
+          const rawQty = pricingBasis ? tradeOrder.dollar_amount / pricingBasis : 0;
+          const allowFractional = !useBracket && broker.capabilities.fractionalShares && !!symbolResolution.asset?.fractionable &&
+            (symbolResolution.isCrypto || (timeInForce === TIME_IN_FORCE.DAY && orderParams.orderType !== ORDER_TYPE.TRAILING_STOP));
+          const qty = allowFractional
+            ? Math.floor(rawQty * 1e6) / 1e6
+            : Math.floor(rawQty);
+
+          if (qty <= 0) {
+            return createErrorResponse(
+              `Dollar amount $${tradeOrder.dollar_amount} is too small for a ${orderParams.orderType} order at $${pricingBasis}`,
+              200,
+              { orderParams, allowFractional }
+            );
+          }
+
+          console.log(`🔢 Converted $${tradeOrder.dollar_amount} to ${qty} ${allowFractional ? 'fractional' : 'whole'} shares at $${pricingBasis}`);
+          orderRequest.qty = qty;
+        }
       } else if (tradeOrder.shares && tradeOrder.shares > 0) {
-        orderRequest.qty = tradeOrder.shares;
+        // Bracket orders, and brokers without fractional trading, need whole shares
+        const wholeSharesOnly = useBracket || !broker.capabilities.fractionalShares;
+        orderRequest.qty = wholeSharesOnly ? Math.floor(tradeOrder.shares) : tradeOrder.shares;
+        if (orderRequest.qty <= 0) {
+          return createErrorResponse(
+            `${useBracket ? 'Bracket orders need' : `${broker.label} orders need`} at least one whole share (requested ${tradeOrder.shares})`,
+            200,
+            { orderParams }
+          );
+        }
       } else {
         throw new Error('Invalid order: no quantity or dollar amount specified');
       }
 
-      console.log('Submitting Alpaca order:', { ...orderRequest, original_symbol: tradeOrder.ticker });
+      console.log(`Submitting ${broker.label} order:`, { ...orderRequest, original_symbol: tradeOrder.ticker });
 
-      // Submit order to Alpaca
-      alpacaResponse = await fetch(`${alpacaBaseUrl}/v2/orders`, {
-        method: 'POST',
-        headers: {
-          'APCA-API-KEY-ID': alpacaApiKey,
-          'APCA-API-SECRET-KEY': alpacaApiSecret,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(orderRequest),
-      });
-
-      if (!alpacaResponse.ok) {
-        const errorText = await alpacaResponse.text();
-        let parsedError: any = null;
-        try {
-          parsedError = JSON.parse(errorText);
-        } catch {
-          parsedError = null;
-        }
-
-        const rawErrorString = parsedError ? JSON.stringify(parsedError) : errorText;
-        const detailedMessage = parsedError?.message || parsedError?.error;
-        const errorMessage = rawErrorString
-          ? `Alpaca API error: ${rawErrorString}`
-          : 'Alpaca API error: Unknown error';
-
-        const errorPayload = {
-          success: false,
-          error: errorMessage,
-          errorDetail: detailedMessage || null,
-          errorCode: parsedError?.code,
-          alpacaError: parsedError || errorText,
-          alpacaStatus: alpacaResponse.status,
-          symbol: alpacaOrderSymbol,
-          position_symbol: alpacaPositionSymbol,
-          symbolMetadata,
-          request: orderRequest
-        };
-
-        console.error('Alpaca API error:', errorPayload);
+      try {
+        alpacaOrder = await broker.submitOrder(orderRequest as BrokerOrderRequest);
+      } catch (error) {
+        const errorPayload = buildBrokerErrorPayload(error);
+        console.error(`${broker.label} API error:`, errorPayload);
 
         return new Response(
           JSON.stringify(errorPayload),
@@ -603,11 +717,10 @@ serve(async (req) => {
         );
       }
 
-      alpacaOrder = await alpacaResponse.json();
       if (!alpacaOrder.symbol) {
         alpacaOrder.symbol = alpacaOrderSymbol;
       }
-      console.log('Alpaca order created:', alpacaOrder);
+      console.log(`${broker.label} order created:`, alpacaOrder);
     }
 
     if (!alpacaOrder.symbol) {
@@ -620,12 +733,29 @@ serve(async (req) => {
       alpacaOrder.qty = orderRequest.qty;
     }
 
-    // Update database with Alpaca order info - only update status to approved and add Alpaca metadata
+    if (exitOrders) {
+      exitOrders.parent_order_id = alpacaOrder.id || null;
+      exitOrders.updated_at = new Date().toISOString();
+      if (useBracket) {
+        exitOrders.status = EXIT_ORDER_STATUS.PLACED;
+        exitOrders.qty = Number(alpacaOrder.qty || orderRequest?.qty) || null;
+        exitOrders.legs = extractExitLegs(alpacaOrder);
+        exitOrders.placed_at = new Date().toISOString();
+      }
+    }
+
+    // Update database with the broker order info - only update status to approved and add order metadata
     const { error: updateError } = await supabaseAdmin
       .from('trading_actions')
       .update({
         status: TRADE_ORDER_STATUS.APPROVED,
         executed_at: new Date().toISOString(),
+        order_type: alpacaOrder.close_position_used ? ORDER_TYPE.MARKET : orderParams.orderType,
+        time_in_force: alpacaOrder.time_in_force || orderRequest?.time_in_force || null,
+        limit_price: orderParams.limitPrice ?? null,
+        stop_price: orderParams.stopPrice ?? null,
+        trail_percent: orderParams.trailPercent ?? null,
+        trail_price: orderParams.trailPrice ?? null,
         metadata: {
           ...tradeOrder.metadata,
           alpaca_symbol_resolution: {
@@ -634,6 +764,7 @@ serve(async (req) => {
           },
           alpaca_order: {
             id: alpacaOrder.id,
+            broker: broker.broker,
             client_order_id: alpacaOrder.client_order_id,
             created_at: alpacaOrder.created_at,
             submitted_at: alpacaOrder.submitted_at,
@@ -645,11 +776,14 @@ serve(async (req) => {
             position_symbol: alpacaPositionSymbol,
             limit_price: alpacaOrder.limit_price,
             stop_price: alpacaOrder.stop_price,
+            trail_percent: alpacaOrder.trail_percent || null,
+            trail_price: alpacaOrder.trail_price || null,
             notional: alpacaOrder.notional || orderRequest?.notional || null,
             qty: alpacaOrder.qty || orderRequest?.qty || null,
             filled_qty: alpacaOrder.filled_qty || null,
             filled_avg_price: alpacaOrder.filled_avg_price || null
-          }
+          },
+          ...(exitOrders ? { exit_orders: exitOrders } : {})
         }
       })
       .eq('id', tradeOrder.id)
@@ -670,9 +804,7 @@ serve(async (req) => {
             alpacaOrder.id,
             tradeOrder.id,
             userId,
-            alpacaApiKey,
-            alpacaApiSecret,
-            alpacaBaseUrl,
+            broker,
             supabaseAdmin
           );
         } catch (err) {
@@ -698,6 +830,7 @@ serve(async (req) => {
           type: alpacaOrder.order_type,
           status: alpacaOrder.status
         },
+        exitOrders,
         request: orderRequest
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -736,6 +869,12 @@ async function cleanUpOrdersForTicker(
       query = query.eq('source_type', tradeOrder.source_type);
     }
 
+    if (tradeOrder.portfolio_id) {
+      query = query.eq('portfolio_id', tradeOrder.portfolio_id);
+    } else {
+      query = query.is('portfolio_id', null);
+    }
+
     if (tradeOrder.rebalance_request_id) {
       query = query.eq('rebalance_request_id', tradeOrder.rebalance_request_id);
     } else {
@@ -829,6 +968,12 @@ async function findExistingResolvedOrder(
       query = query.eq('source_type', tradeOrder.source_type);
     }
 
+    if (tradeOrder.portfolio_id) {
+      query = query.eq('portfolio_id', tradeOrder.portfolio_id);
+    } else {
+      query = query.is('portfolio_id', null);
+    }
+
     if (tradeOrder.rebalance_request_id) {
       query = query.eq('rebalance_request_id', tradeOrder.rebalance_request_id);
     } else {
@@ -854,14 +999,198 @@ async function findExistingResolvedOrder(
   }
 }
 
+// Loads the user's trading settings and resolves the broker for the order's account
+async function loadBrokerConnection(
+  supabase: any,
+  userId: string,
+  portfolioId?: string | null
+): Promise<{ settings: ExitOrderSettings; broker: BrokerAdapter } | { error: string }> {
+  const { data: settings, error: settingsError } = await supabase
+    .from('api_settings')
+    .select('user_id, alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading, simulated_trading, simulated_starting_cash, simulated_slippage_bps, simulated_commission, exit_order_mode, profit_target, stop_loss')
+    .eq('user_id', userId)
+    .single();
+
+  if (settingsError || !settings) {
+    console.error('Settings error for user', userId, ':', settingsError);
+    return { error: 'API settings not found. Please configure in Settings.' };
+  }
+
+  // Orders created for a named broker account execute with that account's keys
+  const account = portfolioId ? await loadBrokerAccount(supabase, userId, portfolioId) : null;
+  if (portfolioId && !account) {
+    return { error: 'Broker account for this order no longer exists' };
+  }
+
+  try {
+    return { settings, broker: createBroker(settings, account) };
+  } catch (error: any) {
+    console.log('Missing broker credentials for user', userId);
+    return { error: `${error.message || 'Broker credentials not configured'}. Please add them in Settings.` };
+  }
+}
+
+// Handles the place_exit_orders action (place-exit-orders cron, retry button): places pending (or retries failed) OCO exits once the entry order filled
+async function handlePlaceExitOrders(
+  supabase: any,
+  tradeOrder: any,
+  userId: string
+) {
+  const exitOrders = tradeOrder.metadata?.exit_orders as ExitOrdersMetadata | undefined;
+  const alpacaOrderId = tradeOrder.metadata?.alpaca_order?.id;
+
+  if (!exitOrders || exitOrders.mode !== EXIT_ORDER_MODE.OCO || !alpacaOrderId) {
+    return createErrorResponse('No OCO exit orders configured for this trade');
+  }
+
+  if (exitOrders.status !== EXIT_ORDER_STATUS.PENDING_FILL && exitOrders.status !== EXIT_ORDER_STATUS.FAILED) {
+    return createErrorResponse(`Exit orders already ${exitOrders.status}`, 200, { exitOrders });
+  }
+
+  const connection = await loadBrokerConnection(supabase, userId, tradeOrder.portfolio_id);
+  if ('error' in connection) {
+    return createErrorResponse(connection.error);
+  }
+  const { broker } = connection;
+
+  let entryOrder: any;
+  try {
+    entryOrder = await broker.getOrder(alpacaOrderId);
+  } catch (error) {
+    return createErrorResponse(`Failed to fetch entry order status from ${broker.label}`, 200, {
+      alpacaStatus: isBrokerRequestError(error) ? error.status : null
+    });
+  }
+
+  if (!entryOrder) {
+    return createErrorResponse(`Entry order not found at ${broker.label}`, 200, { exitOrders });
+  }
+  // An entry that ended without filling completely still settles its exits: whole
+  // filled shares get the OCO pair, otherwise the exits are marked skipped
+  if (entryOrder.status !== 'filled' && !isAlpacaOrderTerminal(entryOrder.status)) {
+    return createErrorResponse(`Entry order has not filled yet (status: ${entryOrder.status})`, 200, { exitOrders });
+  }
+
+  const updatedExitOrders = await placeOcoExitOrders(
+    entryOrder,
+    tradeOrder.id,
+    userId,
+    broker,
+    supabase,
+    { retryFailed: true }
+  );
+
+  if (updatedExitOrders?.status !== EXIT_ORDER_STATUS.PLACED) {
+    return createErrorResponse(updatedExitOrders?.error || 'Failed to place exit orders', 200, { exitOrders: updatedExitOrders });
+  }
+
+  return createSuccessResponse({
+    message: 'Exit orders placed',
+    exitOrders: updatedExitOrders
+  });
+}
+
+// Places the OCO take-profit / stop-loss pair for a filled entry order and records it on the trade action
+async function placeOcoExitOrders(
+  entryOrder: AlpacaExitOrderResponse,
+  tradeActionId: string,
+  userId: string,
+  broker: BrokerAdapter,
+  supabase: any,
+  options: { retryFailed?: boolean } = {}
+): Promise<ExitOrdersMetadata | null> {
+  const { data: currentAction } = await supabase
+    .from('trading_actions')
+    .select('metadata')
+    .eq('id', tradeActionId)
+    .eq('user_id', userId)
+    .single();
+
+  const exitOrders = currentAction?.metadata?.exit_orders as ExitOrdersMetadata | undefined;
+  const canPlace = exitOrders?.status === EXIT_ORDER_STATUS.PENDING_FILL ||
+    (options.retryFailed && exitOrders?.status === EXIT_ORDER_STATUS.FAILED);
+
+  if (!exitOrders || exitOrders.mode !== EXIT_ORDER_MODE.OCO || !canPlace) {
+    return exitOrders || null;
+  }
+
+  // OCO orders only accept whole shares - any fractional remainder stays unprotected
+  const qty = Math.floor(Number(entryOrder.filled_qty) || 0);
+  const fillPrice = Number(entryOrder.filled_avg_price) || 0;
+  const now = new Date().toISOString();
+  let updatedExitOrders: ExitOrdersMetadata;
+
+  if (qty < 1 || fillPrice <= 0) {
+    updatedExitOrders = {
+      ...exitOrders,
+      status: EXIT_ORDER_STATUS.SKIPPED,
+      error: `OCO exits need at least one whole filled share (filled ${entryOrder.filled_qty || 0})`,
+      updated_at: now
+    };
+  } else {
+    const { takeProfitPrice, stopLossPrice } = computeExitPrices(
+      fillPrice,
+      exitOrders.take_profit_percent,
+      exitOrders.stop_loss_percent
+    );
+
+    console.log(`🛡️ Placing OCO exits for ${entryOrder.symbol}: ${qty} shares, take profit $${takeProfitPrice}, stop loss $${stopLossPrice}`);
+    const result = await submitOcoExitOrder(broker, {
+      symbol: entryOrder.symbol || currentAction?.metadata?.alpaca_order?.symbol,
+      qty,
+      takeProfitPrice,
+      stopLossPrice,
+      clientOrderId: `ai_oco_${tradeActionId}_${Date.now()}`
+    });
+
+    updatedExitOrders = result.success
+      ? {
+        ...exitOrders,
+        status: EXIT_ORDER_STATUS.PLACED,
+        take_profit_price: takeProfitPrice,
+        stop_loss_price: stopLossPrice,
+        oco_order_id: result.order?.id || null,
+        qty,
+        legs: extractExitLegs(result.order),
+        placed_at: now,
+        updated_at: now,
+        error: null
+      }
+      : {
+        ...exitOrders,
+        status: EXIT_ORDER_STATUS.FAILED,
+        take_profit_price: takeProfitPrice,
+        stop_loss_price: stopLossPrice,
+        qty,
+        updated_at: now,
+        error: result.error || 'Failed to place OCO exit orders'
+      };
+
+    if (!result.success) {
+      console.error(`❌ OCO exit placement failed for ${entryOrder.symbol}:`, result.error);
+    }
+  }
+
+  await supabase
+    .from('trading_actions')
+    .update({
+      metadata: {
+        ...currentAction?.metadata,
+        exit_orders: updatedExitOrders
+      }
+    })
+    .eq('id', tradeActionId)
+    .eq('user_id', userId);
+
+  return updatedExitOrders;
+}
+
 // Helper function to poll order status
 async function pollOrderStatus(
   alpacaOrderId: string,
   tradeActionId: string,
   userId: string,
-  apiKey: string,
-  apiSecret: string,
-  baseUrl: string,
+  broker: BrokerAdapter,
   supabase: any
 ) {
   const maxAttempts = 12; // Poll for up to 1 minute
@@ -871,21 +1200,14 @@ async function pollOrderStatus(
     attempts++;
 
     try {
-      // Get order status from Alpaca
-      const response = await fetch(`${baseUrl}/v2/orders/${alpacaOrderId}`, {
-        headers: {
-          'APCA-API-KEY-ID': apiKey,
-          'APCA-API-SECRET-KEY': apiSecret,
-        },
-      });
+      // Get order status from the broker
+      const order: any = await broker.getOrder(alpacaOrderId);
 
-      if (!response.ok) {
+      if (!order) {
         console.error('Failed to fetch order status');
         return;
       }
 
-      const order = await response.json();
-
       // Get current metadata
       const { data: currentAction } = await supabase
         .from('trading_actions')
@@ -894,7 +1216,11 @@ async function pollOrderStatus(
         .eq('user_id', userId)
         .single();
 
-      // Update database with latest Alpaca status (metadata only - do NOT change main status)
+      // Bracket entries report their exit legs alongside the parent order
+      const exitOrders = currentAction?.metadata?.exit_orders as ExitOrdersMetadata | undefined;
+      const bracketLegs = exitOrders?.mode === EXIT_ORDER_MODE.BRACKET ? extractExitLegs(order) : [];
+
+      // Update database with latest broker status (metadata only - do NOT change main status)
       await supabase
         .from('trading_actions')
         .update({
@@ -906,12 +1232,19 @@ async function pollOrderStatus(
               filled_qty: order.filled_qty || null,
               filled_avg_price: order.filled_avg_price || null,
               updated_at: new Date().toISOString()
-            }
+            },
+            ...(exitOrders && bracketLegs.length > 0
+              ? { exit_orders: { ...exitOrders, legs: bracketLegs, updated_at: new Date().toISOString() } }
+              : {})
           }
         })
         .eq('id', tradeActionId)
         .eq('user_id', userId);
 
+      if (order.status === 'filled' && exitOrders?.mode === EXIT_ORDER_MODE.OCO) {
+        await placeOcoExitOrders(order, tradeActionId, userId, broker, supabase);
+      }
+
       // Stop polling if order is in terminal state
       if (isAlpacaOrderTerminal(order.status)) {
         console.log(`Order ${alpacaOrderId} reached terminal state: ${order.status}`);
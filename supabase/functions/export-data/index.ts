@@ -0,0 +1,207 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import {
+  EXPORT_DATASET,
+  EXPORT_FORMAT,
+  MAX_EXPORT_ROWS,
+  REBALANCE_EXPORT_COLUMNS,
+  TRADE_EXPORT_COLUMNS,
+  buildAnalysisExportRecord,
+  buildAnalysisExportRows,
+  buildExportFilename,
+  buildRebalanceExportRecord,
+  buildRebalanceExportRows,
+  buildTradeExportRecord,
+  buildTradeExportRow,
+  isValidExportDataset,
+  isValidExportFormat,
+  toCsv,
+  type ExportDataset,
+  type ExportFilters,
+  type ExportFormat
+} from '../_shared/dataExport.ts';
+
+/**
+ * Server-side export of trade orders, analyses and rebalances as CSV or JSON.
+ * Rows are read in pages with the service role (scoped to the caller) so large
+ * exports don't depend on the client's paginated queries.
+ */
+
+interface ExportRequest {
+  dataset?: string;
+  format?: string;
+  filters?: ExportFilters;
+}
+
+const PAGE_SIZE = 1000;
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/**
+ * Reads every row matching the query in PAGE_SIZE pages, stopping at MAX_EXPORT_ROWS
+ */
+async function fetchAllRows(
+  buildQuery: () => any
+): Promise<{ rows: any[]; truncated: boolean }> {
+  const rows: any[] = [];
+  for (let offset = 0; offset < MAX_EXPORT_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(offset, Math.min(offset + PAGE_SIZE, MAX_EXPORT_ROWS) - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return { rows, truncated: false };
+    }
+  }
+  return { rows, truncated: true };
+}
+
+async function exportTrades(supabase: any, userId: string, format: ExportFormat, filters: ExportFilters) {
+  const { rows, truncated } = await fetchAllRows(() => {
+    let query = supabase
+      .from('trading_actions')
+      .select('*')
+      .eq('user_id', userId);
+    if (filters.startDate) query = query.gte('created_at', `${filters.startDate}T00:00:00.000Z`);
+    if (filters.endDate) query = query.lte('created_at', `${filters.endDate}T23:59:59.999Z`);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.ticker) query = query.eq('ticker', filters.ticker);
+    return query.order('created_at', { ascending: false });
+  });
+
+  const content = format === EXPORT_FORMAT.CSV
+    ? toCsv(rows.map(buildTradeExportRow), TRADE_EXPORT_COLUMNS)
+    : JSON.stringify(rows.map(buildTradeExportRecord), null, 2);
+  return { content, rowCount: rows.length, truncated };
+}
+
+async function exportAnalyses(supabase: any, userId: string, format: ExportFormat, filters: ExportFilters) {
+  const { rows, truncated } = await fetchAllRows(() => {
+    let query = supabase
+      .from('analysis_history')
+      .select('id, created_at, analysis_date, ticker, analysis_status, decision, confidence, rebalance_request_id, agent_insights')
+      .eq('user_id', userId);
+    if (filters.startDate) query = query.gte('created_at', `${filters.startDate}T00:00:00.000Z`);
+    if (filters.endDate) query = query.lte('created_at', `${filters.endDate}T23:59:59.999Z`);
+    if (filters.status) query = query.eq('analysis_status', filters.status);
+    if (filters.ticker) query = query.eq('ticker', filters.ticker);
+    return query.order('created_at', { ascending: false });
+  });
+
+  if (format === EXPORT_FORMAT.CSV) {
+    const { rows: csvRows, columns } = buildAnalysisExportRows(rows);
+    return { content: toCsv(csvRows, columns), rowCount: rows.length, truncated };
+  }
+  return { content: JSON.stringify(rows.map(buildAnalysisExportRecord), null, 2), rowCount: rows.length, truncated };
+}
+
+async function exportRebalances(supabase: any, userId: string, format: ExportFormat, filters: ExportFilters) {
+  const { rows: requests, truncated } = await fetchAllRows(() => {
+    let query = supabase
+      .from('rebalance_requests')
+      .select('id, created_at, completed_at, status, created_by, total_portfolio_value, target_cash_allocation, selected_stocks, portfolio_snapshot, rebalance_plan')
+      .eq('user_id', userId);
+    if (filters.startDate) query = query.gte('created_at', `${filters.startDate}T00:00:00.000Z`);
+    if (filters.endDate) query = query.lte('created_at', `${filters.endDate}T23:59:59.999Z`);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.ticker) query = query.contains('selected_stocks', [filters.ticker]);
+    return query.order('created_at', { ascending: false });
+  });
+
+  // Latest history row per rebalance, looked up in chunks to keep the IN list short
+  const historyByRequest = new Map<string, any>();
+  const requestIds = requests.map(request => request.id);
+  for (let i = 0; i < requestIds.length; i += 200) {
+    const { data: history, error } = await supabase
+      .from('rebalance_history')
+      .select('rebalance_request_id, portfolio_before, portfolio_after, allocations_before, allocations_after, tax_implications, created_at')
+      .eq('user_id', userId)
+      .in('rebalance_request_id', requestIds.slice(i, i + 200))
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    (history || []).forEach((row: any) => historyByRequest.set(row.rebalance_request_id, row));
+  }
+
+  if (format === EXPORT_FORMAT.CSV) {
+    const csvRows = requests.flatMap(request =>
+      buildRebalanceExportRows(request, historyByRequest.get(request.id) ?? null)
+    );
+    return { content: toCsv(csvRows, REBALANCE_EXPORT_COLUMNS), rowCount: requests.length, truncated };
+  }
+  const records = requests.map(request =>
+    buildRebalanceExportRecord(request, historyByRequest.get(request.id) ?? null)
+  );
+  return { content: JSON.stringify(records, null, 2), rowCount: requests.length, truncated };
+}
+
+const EXPORTERS: Record<ExportDataset, typeof exportTrades> = {
+  [EXPORT_DATASET.TRADES]: exportTrades,
+  [EXPORT_DATASET.ANALYSES]: exportAnalyses,
+  [EXPORT_DATASET.REBALANCES]: exportRebalances
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { userId, error: authError } = await verifyAndExtractUser(req.headers.get('Authorization'));
+    if (authError || !userId) {
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    const body = await req.json() as ExportRequest;
+    const dataset = body.dataset;
+    const format = body.format ?? EXPORT_FORMAT.CSV;
+    if (!isValidExportDataset(dataset)) {
+      return createErrorResponse(`Invalid dataset: ${dataset}`, 400);
+    }
+    if (!isValidExportFormat(format)) {
+      return createErrorResponse(`Invalid format: ${format}`, 400);
+    }
+
+    const filters: ExportFilters = {};
+    const requested = body.filters || {};
+    if (requested.startDate !== undefined && requested.startDate !== '') {
+      if (!isDateString(requested.startDate)) return createErrorResponse('startDate must be YYYY-MM-DD', 400);
+      filters.startDate = requested.startDate;
+    }
+    if (requested.endDate !== undefined && requested.endDate !== '') {
+      if (!isDateString(requested.endDate)) return createErrorResponse('endDate must be YYYY-MM-DD', 400);
+      filters.endDate = requested.endDate;
+    }
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+      return createErrorResponse('startDate must be on or before endDate', 400);
+    }
+    if (typeof requested.ticker === 'string' && requested.ticker.trim()) {
+      filters.ticker = requested.ticker.trim().toUpperCase();
+    }
+    if (typeof requested.status === 'string' && requested.status.trim()) {
+      filters.status = requested.status.trim();
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { content, rowCount, truncated } = await EXPORTERS[dataset](supabaseAdmin, userId, format, filters);
+    console.log(`📤 Exported ${rowCount} ${dataset} as ${format} for user ${userId}${truncated ? ' (truncated)' : ''}`);
+
+    return createSuccessResponse({
+      filename: buildExportFilename(dataset, format, filters),
+      contentType: format === EXPORT_FORMAT.CSV ? 'text/csv' : 'application/json',
+      content,
+      rowCount,
+      truncated,
+      maxRows: MAX_EXPORT_ROWS
+    });
+  } catch (error: any) {
+    console.error('Export error:', error);
+    return createErrorResponse(error.message || 'Export failed', 500);
+  }
+});
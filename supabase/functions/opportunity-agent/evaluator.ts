@@ -1,7 +1,9 @@
-import { callAIProviderWithRetry } from '../_shared/aiProviders.ts';
+import { callAIProviderWithRetryAndUsage, callAIProviderWithStructuredOutput } from '../_shared/aiProviders.ts';
+import { AGENT_OUTPUT_SCHEMAS, type OpportunitySelectionOutput } from '../_shared/structuredOutput.ts';
+import type { AIUsage } from '../_shared/aiUsage.ts';
 import { MarketData, OpportunityEvaluation } from './types.ts';
 import { generateOpportunityPrompt, generateExtractionPrompt } from './promptGenerator.ts';
-import { parseOpportunityResponse } from './utils/responseParser.ts';
+import { buildOpportunityEvaluation, parseOpportunityResponse } from './utils/responseParser.ts';
 import { categorizeError } from './utils/errorHandler.ts';
 
 /**
@@ -11,7 +13,8 @@ export async function evaluateOpportunities(
   portfolioData: any,
   watchlistData: MarketData[],
   apiSettings: any,
-  marketRange: string
+  marketRange: string,
+  onUsage?: (usage: AIUsage) => Promise<void>
 ): Promise<OpportunityEvaluation> {
   try {
     // Use opportunity-specific settings or fall back to general settings
@@ -35,6 +38,26 @@ export async function evaluateOpportunities(
       ai_api_key: apiKey
     };
 
+    // Every AI call reports its token usage to the caller
+    const callAI = async (prompt: string, systemPrompt: string, tokens: number): Promise<string> => {
+      const result = await callAIProviderWithRetryAndUsage(opportunitySettings, prompt, systemPrompt, tokens, 3);
+      await onUsage?.(result.usage);
+      return result.text;
+    };
+
+    const callStructuredAI = async (prompt: string, systemPrompt: string, tokens: number) => {
+      const result = await callAIProviderWithStructuredOutput<OpportunitySelectionOutput>(
+        opportunitySettings,
+        prompt,
+        systemPrompt,
+        AGENT_OUTPUT_SCHEMAS.OPPORTUNITY_SELECTION,
+        tokens,
+        3
+      );
+      await onUsage?.(result.usage);
+      return result;
+    };
+
     // Validate API key
     if (!apiKey) {
       console.error(`❌ No API key found for provider: ${aiProvider}`);
@@ -64,13 +87,7 @@ Focus on identifying genuine opportunities based on unusual patterns, technical
     let analysisResponse: string;
 
     try {
-      analysisResponse = await callAIProviderWithRetry(
-        opportunitySettings,
-        analysisPrompt,
-        naturalLanguageSystemPrompt,
-        maxTokens,
-        3
-      );
+      analysisResponse = await callAI(analysisPrompt, naturalLanguageSystemPrompt, maxTokens);
     } catch (error) {
       // Check if error is due to insufficient credits
       if (error.message.includes('requires more credits') || error.message.includes('can only afford')) {
@@ -84,13 +101,7 @@ Focus on identifying genuine opportunities based on unusual patterns, technical
         console.log(`🔄 Retrying with ${reducedTokens} tokens...`);
 
         try {
-          analysisResponse = await callAIProviderWithRetry(
-            opportunitySettings,
-            analysisPrompt,
-            naturalLanguageSystemPrompt,
-            reducedTokens,
-            3
-          );
+          analysisResponse = await callAI(analysisPrompt, naturalLanguageSystemPrompt, reducedTokens);
         } catch (retryError) {
           // If retry also fails, throw with proper error type
           const errorMsg = retryError.message || 'Failed to get analysis even with reduced tokens';
@@ -141,19 +152,16 @@ Extract the numbered stock list from "Proceed with full specialist analysis" sec
 Return JSON like: {"recommendAnalysis": true, "selectedStocks": [{"ticker": "AAPL", "priority": "high", "reason": "reason here", "signals": []}], "marketConditions": {"trend": "neutral", "volatility": "medium"}}
 IMPORTANT: Finish the ENTIRE JSON structure. Do not stop until you've closed all brackets.`;
 
-        extractionResponse = await callAIProviderWithRetry(
-          opportunitySettings,
-          extractionPrompt,
-          systemPrompt,
-          attemptTokens,
-          3
-        );
+        const extraction = await callStructuredAI(extractionPrompt, systemPrompt, attemptTokens);
+        extractionResponse = extraction.raw;
 
         console.log(`✅ Extraction response received (attempt ${attempt}), length: ${extractionResponse.length} chars`);
         console.log(`📝 Raw extraction response: ${extractionResponse.substring(0, 1000)}...`);
 
-        // Try to parse the extracted data
-        parsed = parseOpportunityResponse(extractionResponse, analysisResponse, watchlistData);
+        // Use the validated selection, or fall back to the lenient JSON parser
+        parsed = extraction.data
+          ? buildOpportunityEvaluation(extraction.data, analysisResponse)
+          : parseOpportunityResponse(extractionResponse, analysisResponse, watchlistData);
 
         // If parsing succeeded, break out of retry loop
         console.log(`✅ Successfully parsed extraction on attempt ${attempt}`);
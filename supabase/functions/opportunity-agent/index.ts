@@ -6,6 +6,7 @@ import { corsHeaders } from '../_shared/cors.ts';
 import { MarketData } from './types.ts';
 import { fetchMarketDataWithCachedIndicators } from './cachedMarketDataFetcher.ts';
 import { evaluateOpportunities } from './evaluator.ts';
+import { recordAIUsage } from '../_shared/aiUsage.ts';
 import { handleWorkflowUpdates, handleWorkflowError } from './workflowHandler.ts';
 import { validateAndCheckCancellation, prepareData } from './requestValidator.ts';
 
@@ -107,7 +108,14 @@ serve(async (req) => {
       portfolioData,
       watchlistData as MarketData[],
       apiSettings,
-      marketRange
+      marketRange,
+      (usage) => recordAIUsage(supabase, {
+        userId: request.userId,
+        rebalanceRequestId,
+        agentName: 'Opportunity Agent',
+        usage,
+        priceOverrides: apiSettings.ai_model_prices
+      })
     );
 
     // Clear timeout on successful completion
@@ -1,4 +1,29 @@
 import { MarketData, OpportunityEvaluation } from '../types.ts';
+import type { OpportunitySelectionOutput } from '../../_shared/structuredOutput.ts';
+
+/**
+ * Builds the evaluation from an extraction response that already passed schema validation
+ */
+export function buildOpportunityEvaluation(
+  selection: OpportunitySelectionOutput,
+  analysisReasoning: string
+): OpportunityEvaluation {
+  const selectedStocks = selection.selectedStocks
+    .map(stock => ({ ...stock, ticker: stock.ticker.trim().toUpperCase() }))
+    .filter(stock => stock.ticker);
+
+  return {
+    recommendAnalysis: selection.recommendAnalysis,
+    selectedStocks,
+    reasoning: analysisReasoning || 'Market evaluation completed',
+    estimatedCost: selectedStocks.length * 10,
+    marketConditions: {
+      trend: selection.marketConditions.trend,
+      volatility: selection.marketConditions.volatility,
+      keyEvents: []
+    }
+  };
+}
 
 /**
  * Parse the AI response into structured OpportunityEvaluation
@@ -0,0 +1,139 @@
+import { serve } from 'https://deno.land/std@0.210.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { TRADE_ORDER_STATUS } from '../_shared/statusTypes.ts';
+import { EXIT_ORDER_MODE, EXIT_ORDER_STATUS } from '../_shared/exitOrders.ts';
+
+// OCO exits still pending after this long belong to entries that will never fill
+const MAX_PENDING_AGE_DAYS = 30;
+
+// Keep a run within the edge function time limit; later runs pick up the rest
+const MAX_ORDERS_PER_RUN = 100;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+/**
+ * Edge function that places pending OCO exits for filled entry orders
+ * Called by pg_cron every few minutes. execute-trade places the OCO pair
+ * itself when the entry fills within its polling window; this picks up every
+ * entry that filled later (limit orders, after-hours submissions) through the
+ * same place_exit_orders action, which also settles entries that ended
+ * without a fill.
+ *
+ * Restricted to internal calls only (service role authentication required)
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Restrict access to internal calls only (pg_cron, service role)
+    const authHeader = req.headers.get('authorization');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (!authHeader) {
+      console.log('❌ No authorization header');
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (!token.startsWith('eyJ')) {
+      console.log('❌ Not a valid JWT token');
+      return jsonResponse({ error: 'Invalid authorization format' }, 401);
+    }
+
+    try {
+      const parts = token.split('.');
+      if (parts.length !== 3) {
+        throw new Error('Unexpected JWT structure');
+      }
+
+      const payload = JSON.parse(atob(parts[1]));
+      if (payload.role !== 'service_role') {
+        console.log('❌ Not a service role token');
+        return jsonResponse({ error: 'Unauthorized: Service role required' }, 401);
+      }
+    } catch (error) {
+      console.error('Failed to decode JWT:', error);
+      return jsonResponse({ error: 'Invalid JWT token' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - MAX_PENDING_AGE_DAYS);
+
+    const { data: orders, error } = await supabase
+      .from('trading_actions')
+      .select('id, user_id, ticker')
+      .eq('status', TRADE_ORDER_STATUS.APPROVED)
+      .eq('metadata->exit_orders->>mode', EXIT_ORDER_MODE.OCO)
+      .eq('metadata->exit_orders->>status', EXIT_ORDER_STATUS.PENDING_FILL)
+      .not('metadata->alpaca_order->>id', 'is', null)
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(MAX_ORDERS_PER_RUN);
+
+    if (error) {
+      throw new Error(`Failed to load orders awaiting exits: ${error.message}`);
+    }
+
+    if (!orders || orders.length === 0) {
+      console.log('✅ No entry orders awaiting OCO exits');
+      return jsonResponse({ success: true, ordersChecked: 0, exitsPlaced: 0 });
+    }
+
+    console.log(`📋 ${orders.length} entry order(s) awaiting OCO exits`);
+
+    let exitsPlaced = 0;
+    const errors: string[] = [];
+
+    // One at a time - each call polls the broker for the entry order
+    for (const order of orders) {
+      try {
+        const response = await supabase.functions.invoke('execute-trade', {
+          body: {
+            tradeActionId: order.id,
+            action: 'place_exit_orders',
+            userId: order.user_id,
+            isServerCall: true
+          }
+        });
+
+        if (response.error) {
+          errors.push(`${order.ticker}: ${response.error.message || response.error}`);
+        } else if (response.data?.success) {
+          console.log(`🛡️ Placed OCO exits for ${order.ticker} (${order.id})`);
+          exitsPlaced++;
+        } else {
+          console.log(`⏳ ${order.ticker} (${order.id}): ${response.data?.error || 'exits not placed'}`);
+        }
+      } catch (error) {
+        errors.push(`${order.ticker}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      console.log(`⚠️ ${errors.length} order(s) failed:`);
+      errors.forEach(e => console.log(`  - ${e}`));
+    }
+
+    console.log(`✅ Placed OCO exits for ${exitsPlaced}/${orders.length} entry order(s)`);
+
+    return jsonResponse({
+      success: true,
+      ordersChecked: orders.length,
+      exitsPlaced,
+      errors
+    });
+  } catch (error) {
+    console.error('❌ Error in place-exit-orders:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
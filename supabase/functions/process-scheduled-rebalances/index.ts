@@ -2,6 +2,7 @@ import { serve } from 'https://deno.land/std@0.210.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from '../_shared/cors.ts';
 import { REBALANCE_STATUS } from '../_shared/statusTypes.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser, toBudgetDetails } from '../_shared/aiBudget.ts';
 
 /**
  * Edge function to process scheduled rebalances
@@ -101,6 +102,7 @@ serve(async (req) => {
 
     let processedCount = 0;
     let failedCount = 0;
+    let skippedCount = 0;
     const results: any[] = [];
 
     // Process each schedule
@@ -180,6 +182,27 @@ serve(async (req) => {
           continue;
         }
 
+        // Skip the run when the user's AI budget is exhausted
+        const budget = await checkAIBudgetForUser(supabase, schedule.user_id, { run: AI_BUDGET_RUN.REBALANCE });
+        if (budget.exceeded) {
+          console.log(`   💸 ${budget.reason} - skipping this schedule`);
+
+          await supabase.rpc('mark_schedule_skipped', {
+            p_schedule_id: schedule.schedule_id,
+            p_reason: budget.reason,
+            p_details: toBudgetDetails(budget)
+          });
+
+          skippedCount++;
+          results.push({
+            scheduleId: schedule.schedule_id,
+            userId: schedule.user_id,
+            status: 'skipped',
+            reason: budget.reason
+          });
+          continue;
+        }
+
         console.log('   Creating rebalance request...');
         console.log('   Using schedule-specific rebalance settings');
 
@@ -189,6 +212,7 @@ serve(async (req) => {
           .from('rebalance_requests')
           .insert({
             user_id: schedule.user_id,
+            portfolio_id: schedule.portfolio_id ?? null,
             status: REBALANCE_STATUS.RUNNING,
             target_allocations: {},
             rebalance_threshold: Number(constraints.rebalanceThreshold) || 10,
@@ -218,6 +242,7 @@ serve(async (req) => {
           {
             body: {
               userId: schedule.user_id,
+              portfolioId: schedule.portfolio_id ?? null,
               rebalanceRequestId: rebalanceRequest.id,
               action: 'start-rebalance',
               tickers: tickersToRebalance,
@@ -289,7 +314,7 @@ serve(async (req) => {
       }
     }
 
-    const summary = `Processed ${processedCount} successful, ${failedCount} failed out of ${upcomingSchedules.length} schedules`;
+    const summary = `Processed ${processedCount} successful, ${failedCount} failed, ${skippedCount} skipped out of ${upcomingSchedules.length} schedules`;
     console.log(`\n📊 Summary: ${summary}`);
 
     return new Response(
@@ -300,6 +325,7 @@ serve(async (req) => {
         window_checked: `${currentTime.toISOString()} to ${new Date(currentTime.getTime() + 30 * 60000).toISOString()}`,
         processed: processedCount,
         failed: failedCount,
+        skipped: skippedCount,
         total: upcomingSchedules.length,
         results,
         note: 'Schedules are now processed based on last_executed_at + frequency instead of pre-calculated next_scheduled_at'
@@ -4,6 +4,7 @@ import { ANALYSIS_STATUS, REBALANCE_STATUS } from '../../_shared/statusTypes.ts'
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
 import { getUserRoleLimits } from '../utils/role-limits.ts';
+import { pauseRebalanceIfOverBudget } from '../utils/budget-guard.ts';
 /**
  * Handle completion of an individual analysis within a rebalance
  * This is the core function that manages atomic completion checking
@@ -41,6 +42,19 @@ import { getUserRoleLimits } from '../utils/role-limits.ts';
     const totalAnalyses = completionStatus.totalAnalyses;
     console.log(`📊 Rebalance progress: ${currentProgress}/${totalAnalyses} analyses complete`);
     if (isComplete) {
+      // Phase boundary: hold the portfolio manager if the AI budget is exhausted
+      const budget = await pauseRebalanceIfOverBudget(supabase, rebalanceRequestId, userId, 'portfolio_manager');
+      if (budget) {
+        return createSuccessResponse({
+          message: `All analyses complete - portfolio manager paused: ${budget.reason}`,
+          rebalanceRequestId,
+          analysisId,
+          ticker,
+          allComplete: true,
+          paused: true,
+          budgetExceeded: true
+        });
+      }
       // Check if we have enough successful analyses to proceed
       // Use Math.ceil to round up - requiring at least 30% success rate
       // Examples: 1-3 stocks = 1 min, 4-6 stocks = 2 min, 7-9 stocks = 3 min, 10 stocks = 3 min
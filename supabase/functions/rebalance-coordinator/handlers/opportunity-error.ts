@@ -1,5 +1,6 @@
 import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
+import { notifyUser, NOTIFICATION_EVENT } from '../../_shared/notifications.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 /**
  * Handle opportunity agent error notification
@@ -84,6 +85,16 @@ import { createSuccessResponse, createErrorResponse } from '../utils/response-he
         console.error('❌ Even logging failed:', logError);
       });
     }
+    const { data: rebalanceRequest } = await supabase.from('rebalance_requests').select('user_id').eq('id', rebalanceRequestId).maybeSingle();
+    if (rebalanceRequest?.user_id) {
+      await notifyUser(supabase, rebalanceRequest.user_id, NOTIFICATION_EVENT.REBALANCE_FAILED, {
+        title: 'Rebalance failed',
+        message: `Opportunity agent error: ${errorMessage}`,
+        path: '/rebalance-records',
+        rebalanceRequestId,
+        details: { errorType: errorType || 'unknown' }
+      });
+    }
     return createSuccessResponse({
       message: 'Opportunity error handled',
       rebalanceRequestId,
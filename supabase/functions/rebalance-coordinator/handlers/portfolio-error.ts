@@ -1,5 +1,6 @@
 import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
+import { notifyUser, NOTIFICATION_EVENT } from '../../_shared/notifications.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 /**
  * Handle portfolio manager error notification
@@ -96,6 +97,13 @@ import { createSuccessResponse, createErrorResponse } from '../utils/response-he
         console.error('❌ Even logging failed:', logError);
       });
     }
+    await notifyUser(supabase, userId, NOTIFICATION_EVENT.REBALANCE_FAILED, {
+      title: 'Rebalance failed',
+      message: `Portfolio Manager error: ${errorMessage}`,
+      path: '/rebalance-records',
+      rebalanceRequestId,
+      details: { errorType: errorType || 'unknown' }
+    });
     return createSuccessResponse({
       message: 'Portfolio manager error handled',
       rebalanceRequestId,
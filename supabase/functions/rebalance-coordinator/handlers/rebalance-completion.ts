@@ -1,6 +1,7 @@
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { checkAndExecuteAutoTrades } from '../../_shared/autoTradeChecker.ts';
+import { notifyUser, NOTIFICATION_EVENT } from '../../_shared/notifications.ts';
 /**
  * Handle final rebalance completion
  * This is called when rebalance-portfolio-manager completes
@@ -49,6 +50,18 @@ import { checkAndExecuteAutoTrades } from '../../_shared/autoTradeChecker.ts';
       // Don't fail the completion - this is just for UI tracking
     }
     console.log(`✅ Rebalance ${rebalanceRequestId} marked as completed`);
+    await notifyUser(supabase, userId, NOTIFICATION_EVENT.REBALANCE_COMPLETED, {
+      title: 'Rebalance completed',
+      message: autoTradeResult.autoTradeEnabled
+        ? `${autoTradeResult.ordersExecuted} order${autoTradeResult.ordersExecuted === 1 ? ' was' : 's were'} auto-executed.`
+        : 'Review the proposed trade orders in Rebalance Records.',
+      path: '/rebalance-records',
+      rebalanceRequestId,
+      details: {
+        autoTradeEnabled: autoTradeResult.autoTradeEnabled,
+        ordersExecuted: autoTradeResult.ordersExecuted
+      }
+    });
     return createSuccessResponse({
       message: 'Rebalance completed successfully',
       rebalanceRequestId,
@@ -70,6 +83,12 @@ import { checkAndExecuteAutoTrades } from '../../_shared/autoTradeChecker.ts';
     } catch (markError) {
       console.error('❌ Failed to mark rebalance as failed:', markError);
     }
+    await notifyUser(supabase, userId, NOTIFICATION_EVENT.REBALANCE_FAILED, {
+      title: 'Rebalance failed',
+      message: `Completion error: ${error.message}`,
+      path: '/rebalance-records',
+      rebalanceRequestId
+    });
     return createErrorResponse(`Error in rebalance completion: ${error.message}`);
   }
 }
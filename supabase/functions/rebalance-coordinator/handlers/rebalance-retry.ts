@@ -2,6 +2,7 @@ import { createSuccessResponse, createErrorResponse } from '../utils/response-he
 import { ANALYSIS_STATUS, REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser } from '../../_shared/aiBudget.ts';
 /**
  * Retry all failed analyses within a rebalance request
  * This function finds all analyses with error status and retries them
@@ -19,6 +20,15 @@ import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
       console.warn(`⚠️ Rebalance ${rebalanceRequestId} is not in error state: ${rebalance.status}`);
       return createErrorResponse(`Cannot retry rebalance that is not in error state. Current status: ${rebalance.status}`, 400);
     }
+    // A budget-paused rebalance can only resume once the budget allows it
+    const budget = await checkAIBudgetForUser(supabase, userId, {
+      run: AI_BUDGET_RUN.REBALANCE,
+      runId: rebalanceRequestId
+    });
+    if (budget.exceeded) {
+      console.warn(`💸 Not retrying rebalance ${rebalanceRequestId}: ${budget.reason}`);
+      return createErrorResponse(`Cannot retry rebalance - ${budget.reason}`, 400);
+    }
     console.log(`📋 Found failed rebalance - checking failure type`);
     // Check workflow steps to see what failed
     const workflowSteps = rebalance.workflow_steps || {};
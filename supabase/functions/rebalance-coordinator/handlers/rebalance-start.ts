@@ -1,10 +1,14 @@
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { ANALYSIS_STATUS, REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { REBALANCE_DEFAULTS } from '../utils/constants.ts';
-import { fetchAlpacaPortfolio } from '../../_shared/portfolio/alpacaClient.ts';
+import { fetchBrokerPortfolio } from '../../_shared/portfolio/brokerPortfolio.ts';
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
 import { getUserRoleLimits } from '../utils/role-limits.ts';
+import { pauseRebalanceIfOverBudget } from '../utils/budget-guard.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser } from '../../_shared/aiBudget.ts';
+import { WORKFLOW_PHASE_ID, buildWorkflowSteps, resolveWorkflowGraph } from '../../_shared/workflowGraph.ts';
+import { loadCustomAnalysts } from '../../_shared/customAnalysts.ts';
 // Simple logger utility
 const log = {
   info: (msg, data) => data ? console.log(msg, data) : console.log(msg),
@@ -132,10 +136,26 @@ function analyzePortfolioDrift(portfolioData, threshold) {
     }
     log.info(`📋 Loaded settings from rebalance request: skipThreshold=${skipThresholdCheck}, skipOpportunity=${skipOpportunityAgent}, threshold=${rebalanceThreshold}`);
   }
+  // Refuse to start when the user's AI budget is exhausted
+  if (rebalanceRequestId) {
+    const budget = await pauseRebalanceIfOverBudget(supabase, rebalanceRequestId, userId, 'opportunity_analysis');
+    if (budget) {
+      return createErrorResponse(`Rebalance not started - ${budget.reason}`);
+    }
+  } else {
+    const budget = await checkAIBudgetForUser(supabase, userId, {
+      run: AI_BUDGET_RUN.REBALANCE
+    });
+    if (budget.exceeded) {
+      log.info(`💸 Not starting rebalance: ${budget.reason}`);
+      return createErrorResponse(`Rebalance not started - ${budget.reason}`);
+    }
+  }
   // Create rebalance request if not provided
   if (!rebalanceRequestId) {
     const { data: rebalanceReq, error } = await supabase.from('rebalance_requests').insert({
       user_id: userId,
+      portfolio_id: apiSettings.broker_account_id ?? null,
       status: REBALANCE_STATUS.RUNNING,
       target_allocations: {},
       rebalance_threshold: rebalanceThreshold || REBALANCE_DEFAULTS.THRESHOLD,
@@ -162,7 +182,7 @@ function analyzePortfolioDrift(portfolioData, threshold) {
   });
   // ALWAYS fetch portfolio data from Alpaca directly - don't trust frontend
   log.info('📊 Fetching portfolio data from Alpaca');
-  portfolioData = await fetchAlpacaPortfolio(apiSettings);
+  portfolioData = await fetchBrokerPortfolio(apiSettings);
   if (portfolioData?.positions?.length > 0) {
     log.info(`✅ Portfolio data: $${portfolioData.account.portfolio_value} value, ${portfolioData.positions.length} positions`);
   }
@@ -347,6 +367,7 @@ function analyzePortfolioDrift(portfolioData, threshold) {
   }
   // Create analysis records sequentially to prevent duplicates
   log.info(`Creating ${tickersToAnalyze.length} analysis records`);
+  const customAnalysts = await loadCustomAnalysts(supabase, userId);
   const analyses = [];
   for (const ticker of tickersToAnalyze) {
     try {
@@ -362,7 +383,7 @@ function analyzePortfolioDrift(portfolioData, threshold) {
         confidence: 0,
         agent_insights: {},
         created_at: new Date().toISOString(),
-        full_analysis: createInitialWorkflowSteps()
+        full_analysis: createInitialWorkflowSteps(apiSettings?.workflow_config, customAnalysts)
       }).select().single();
       if (error) {
         log.error(`Failed to create analysis for ${ticker}:`, error);
@@ -514,45 +535,13 @@ function analyzePortfolioDrift(portfolioData, threshold) {
 }
 /**
  * Create initial workflow steps structure for new analysis
- */ function createInitialWorkflowSteps() {
-  const pa = {
-    status: 'pending',
-    progress: 0
-  };
-  const createStep = (id, name, agents) => ({
-    id,
-    name,
-    status: 'pending',
-    agents: agents.map((a) => ({
-      name: a,
-      ...pa
-    }))
-  });
+ * The portfolio manager runs once for the whole rebalance, so the per-stock portfolio step is left out
+ */ function createInitialWorkflowSteps(workflowConfig, customAnalysts) {
+  const workflowGraph = resolveWorkflowGraph(workflowConfig, customAnalysts);
   return {
     startedAt: new Date().toISOString(),
     messages: [],
-    workflowSteps: [
-      createStep('analysis', 'Market Analysis', [
-        'Macro Analyst',
-        'Market Analyst',
-        'News Analyst',
-        'Social Media Analyst',
-        'Fundamentals Analyst'
-      ]),
-      createStep('research', 'Research Team', [
-        'Bull Researcher',
-        'Bear Researcher',
-        'Research Manager'
-      ]),
-      createStep('trading', 'Trading Decision', [
-        'Trader'
-      ]),
-      createStep('risk', 'Risk Management', [
-        'Risky Analyst',
-        'Safe Analyst',
-        'Neutral Analyst',
-        'Risk Manager'
-      ])
-    ]
+    workflowGraph,
+    workflowSteps: buildWorkflowSteps(workflowGraph).filter((step) => step.id !== WORKFLOW_PHASE_ID.PORTFOLIO)
   };
 }
@@ -4,6 +4,7 @@ import { handleRebalanceCompletion } from './rebalance-completion.ts';
 import { fetchApiSettings } from '../utils/api-settings.ts';
 import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
+import { loadRowPortfolioId, resolveAccountSettings } from '../../_shared/brokerAccounts.ts';
 import { createOptionsResponse, createMethodNotAllowedResponse, createErrorResponse } from '../utils/response-helpers.ts';
 export async function handleRebalanceRequest(req, supabase, authContext) {
   // Handle CORS preflight requests
@@ -15,7 +16,7 @@ export async function handleRebalanceRequest(req, supabase, authContext) {
   }
   try {
     const body = await req.json();
-    const { action, rebalanceRequestId, userId, tickers, portfolioData, skipOpportunityAgent, skipThresholdCheck, rebalanceThreshold, constraints, analysisId, ticker, success, error, riskManagerDecision } = body;
+    const { action, rebalanceRequestId, userId, portfolioId, tickers, portfolioData, skipOpportunityAgent, skipThresholdCheck, rebalanceThreshold, constraints, analysisId, ticker, success, error, riskManagerDecision } = body;
     const { userId: authUserId, isServiceRequest } = authContext;
     let resolvedUserId = userId;
     if (isServiceRequest) {
@@ -61,6 +62,13 @@ export async function handleRebalanceRequest(req, supabase, authContext) {
         return settingsError;
       }
       apiSettings = settings;
+      // The UI names the broker account on start; callbacks use the account stored on the rebalance
+      const accountId = portfolioId ?? (rebalanceRequestId ? await loadRowPortfolioId(supabase, 'rebalance_requests', rebalanceRequestId) : null);
+      try {
+        apiSettings = await resolveAccountSettings(supabase, resolvedUserId, apiSettings, accountId);
+      } catch (accountError) {
+        return createErrorResponse(accountError.message, 404);
+      }
     }
     // Route to appropriate handler based on action
     switch (action) {
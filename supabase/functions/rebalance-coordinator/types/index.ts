@@ -1,5 +1,6 @@
 // Types for the rebalance-coordinator function
-import { AlpacaPortfolioData } from '../../_shared/portfolio/types.ts';
+import { BrokerPortfolioData } from '../../_shared/portfolio/types.ts';
+import type { ModelPriceTable } from '../../_shared/aiUsage.ts';
 
 export interface CorsHeaders {
   'Access-Control-Allow-Origin': string;
@@ -11,12 +12,18 @@ export interface ApiSettings {
   ai_provider: string;
   ai_api_key: string;
   ai_model: string;
+  ai_base_url?: string | null;
+  ai_model_prices?: ModelPriceTable | null;
   // Alpaca credentials
   alpaca_paper_api_key?: string;
   alpaca_paper_secret_key?: string;
   alpaca_live_api_key?: string;
   alpaca_live_secret_key?: string;
   alpaca_paper_trading?: boolean;
+  // Named broker account overlaid onto these settings (see _shared/brokerAccounts.ts)
+  broker_account_id?: string | null;
+  broker_account_name?: string;
+  broker_account_settings?: Record<string, any>;
   // User preferences
   user_risk_level?: string;
   default_position_size_dollars?: number;
@@ -26,6 +33,7 @@ export interface ApiSettings {
   profit_target?: number;
   analysis_depth?: string;
   analysis_history_days?: number;
+  analysis_indicators?: string[] | null;
   research_debate_rounds?: number;
   // Max tokens settings
   analysis_max_tokens?: number;
@@ -51,7 +59,7 @@ export interface ApiSettings {
   portfolio_manager_max_tokens?: number;
 }
 
-// PortfolioData interface removed - now using AlpacaPortfolioData from _shared/portfolio/types.ts
+// PortfolioData interface removed - now using BrokerPortfolioData from _shared/portfolio/types.ts
 
 export interface RebalanceConstraints {
   skipOpportunityAgent?: boolean;
@@ -77,7 +85,7 @@ export interface RequestBody {
   rebalanceRequestId?: string;
   userId?: string;
   tickers?: string[];
-  portfolioData?: AlpacaPortfolioData;
+  portfolioData?: BrokerPortfolioData;
   skipOpportunityAgent?: boolean;
   skipThresholdCheck?: boolean;
   rebalanceThreshold?: number;
@@ -7,21 +7,35 @@ import { createErrorResponse } from './response-helpers.ts';
   console.log(`🔑 Fetching API settings for user: ${userId}`);
   // Fetch rebalance-specific settings from api_settings table
   const { data: rawSettings, error: settingsError } = await supabase.from('api_settings').select(`
+      user_id,
       ai_provider,
       ai_api_key,
       ai_model,
+      ai_base_url,
+      ai_model_prices,
       alpaca_paper_api_key,
       alpaca_paper_secret_key,
       alpaca_live_api_key,
       alpaca_live_secret_key,
       alpaca_paper_trading,
+      simulated_trading,
+      simulated_starting_cash,
+      simulated_slippage_bps,
+      simulated_commission,
       user_risk_level,
       default_position_size_dollars,
       rebalance_max_position_size,
       rebalance_min_position_size,
       analysis_history_days,
+      analysis_indicators,
       stop_loss,
       profit_target,
+      default_order_type,
+      default_time_in_force,
+      limit_order_offset,
+      tax_lot_method,
+      rebalance_tax_aware,
+      rebalance_exposure_limits,
       analysis_team_ai,
       analysis_team_model,
       analysis_team_provider_id,
@@ -39,7 +53,8 @@ import { createErrorResponse } from './response-helpers.ts';
       portfolio_manager_max_tokens,
       opportunity_agent_ai,
       opportunity_agent_model,
-      opportunity_max_tokens
+      opportunity_max_tokens,
+      workflow_config
     `).eq('user_id', userId).single();
   if (settingsError) {
     console.error('❌ Failed to fetch user settings:', settingsError);
@@ -69,6 +84,7 @@ import { createErrorResponse } from './response-helpers.ts';
       const defaultProviderConfig = {
         provider: rawSettings.ai_provider,
         api_key: defaultApiKey,
+        base_url: rawSettings.ai_base_url ?? null,
         nickname: 'Default AI',
         is_default: true,
         id: 'default'
@@ -129,7 +145,8 @@ import { createErrorResponse } from './response-helpers.ts';
   const settings = {
     ...rawSettings,
     ai_provider: actualProvider,
-    ai_api_key
+    ai_api_key,
+    ai_base_url: selectedProviderConfig.base_url ?? null
   };
   settings._providerMap = providerMap;
   console.log(`🔍 DEBUG: Team settings - analysis_team_ai: ${settings.analysis_team_ai}, research_team_ai: ${settings.research_team_ai}`);
@@ -194,6 +211,7 @@ import { createErrorResponse } from './response-helpers.ts';
     // Use the actual provider name and API key from the config
     opportunitySettings.ai_provider = opportunityProviderConfig.provider;
     opportunitySettings.ai_api_key = opportunityProviderConfig.api_key;
+    opportunitySettings.ai_base_url = opportunityProviderConfig.base_url ?? null;
     console.log(`   ✅ Using provider: ${opportunityProviderConfig.provider} (${opportunityProviderConfig.nickname || 'provider config'})`);
     console.log(`   ✅ API key configured: ${!!opportunityProviderConfig.api_key}`);
   } else if (opportunityProviderId === null || opportunityProviderId === undefined || opportunityProviderId === '') {
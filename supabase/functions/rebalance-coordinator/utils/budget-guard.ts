@@ -0,0 +1,45 @@
+import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
+import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
+import { AI_BUDGET_RUN, checkAIBudgetForUser, toBudgetDetails } from '../../_shared/aiBudget.ts';
+/**
+ * Stop a rebalance at a workflow step when the user's AI budget cannot cover the
+ * rest of the run.
+ * The step is marked as error (so retry-rebalance resumes from it) and the
+ * rebalance is set to ERROR with the budget reason in metadata.budget_pause.
+ * Returns the budget status when the rebalance was stopped, otherwise null.
+ */ export async function pauseRebalanceIfOverBudget(supabase, rebalanceRequestId, userId, step) {
+  const budget = await checkAIBudgetForUser(supabase, userId, {
+    run: AI_BUDGET_RUN.REBALANCE,
+    runId: rebalanceRequestId
+  });
+  if (!budget.exceeded) {
+    return null;
+  }
+  console.warn(`💸 Pausing rebalance ${rebalanceRequestId} at ${step}: ${budget.reason}`);
+  const details = toBudgetDetails(budget, {
+    step,
+    paused_at: new Date().toISOString()
+  });
+  const stepResult = await updateRebalanceWorkflowStep(supabase, rebalanceRequestId, step, 'error', {
+    error: budget.reason,
+    errorType: 'budget_exceeded',
+    timestamp: new Date().toISOString()
+  });
+  if (!stepResult.success) {
+    console.error(`❌ Failed to update ${step} workflow step:`, stepResult.error);
+  }
+  const { data: existingReq } = await supabase.from('rebalance_requests').select('metadata').eq('id', rebalanceRequestId).single();
+  const { error: updateError } = await supabase.from('rebalance_requests').update({
+    status: REBALANCE_STATUS.ERROR,
+    error_message: budget.reason,
+    metadata: {
+      ...existingReq?.metadata || {},
+      budget_pause: details
+    },
+    updated_at: new Date().toISOString()
+  }).eq('id', rebalanceRequestId);
+  if (updateError) {
+    console.error('❌ Failed to mark budget-paused rebalance as ERROR:', updateError);
+  }
+  return budget;
+}
@@ -1,4 +1,7 @@
 import { mapIntentToTradeDirection } from '../handlers/rebalance-logic.ts';
+import type { TaxLotReport } from '../../_shared/taxLots.ts';
+import { calculateExposure, formatExposureLimit, matchesExposureLimit } from '../../_shared/assetClassification.ts';
+import type { ExposureContext } from '../portfolio/allocations.ts';
 
 function formatRiskDecision(decision: any): string {
   if (!decision) return 'N/A';
@@ -12,6 +15,86 @@ function formatRiskDecision(decision: any): string {
   return `${intent} (${extras.join(', ')}) @ ${confidence}`;
 }
 
+const formatSignedDollars = (value: number) => `${value < 0 ? '-' : '+'}$${Math.abs(value).toFixed(0)}`;
+
+/**
+ * Tax lot section of the decision prompt: realized gains so far this year and,
+ * per held or listed ticker, unrealized short/long-term gains, the next lot to
+ * turn long-term and any open wash-sale window
+ */
+export function formatTaxLotContext(report: TaxLotReport | null | undefined, tickers: string[], taxAware = false): string {
+  if (!report) return '';
+
+  const now = Date.now();
+  const yearToDate = report.realizedByYear[new Date().toISOString().slice(0, 4)];
+  const lines = report.positions
+    .filter(position => position.quantity > 0 || tickers.includes(position.symbol))
+    .map(position => {
+      const details: string[] = [];
+      if (position.quantity > 0) {
+        details.push(`unrealized ST ${formatSignedDollars(position.unrealizedShortTerm)} / LT ${formatSignedDollars(position.unrealizedLongTerm)}`);
+      }
+      if (position.nextLongTermAt) {
+        const days = Math.max(0, Math.ceil((Date.parse(position.nextLongTermAt) - now) / (24 * 60 * 60 * 1000)));
+        details.push(`next lot turns long-term in ${days} day${days === 1 ? '' : 's'}`);
+      }
+      if (position.washSaleWindowEndsAt) {
+        details.push(`⚠️ wash-sale window until ${position.washSaleWindowEndsAt.slice(0, 10)} (a BUY defers the recent loss)`);
+      }
+      return details.length > 0 ? `  - ${position.symbol}: ${details.join('; ')}` : null;
+    })
+    .filter(Boolean);
+
+  return `
+  TAX LOTS (${report.method.toUpperCase()}, estimates from fill history):
+  - Realized this year: ST ${formatSignedDollars(yearToDate?.shortTerm ?? 0)} / LT ${formatSignedDollars(yearToDate?.longTerm ?? 0)}
+${lines.length > 0 ? lines.join('\n') : '  - No open lots'}
+  - Short-term gains are taxed as ordinary income; when conviction is marginal prefer trims that realize losses or long-term gains
+  - Never let tax cost override a high-confidence risk exit${taxAware ? `
+  - TAX-AWARE MODE: BUYs inside a wash-sale window are blocked and trims stop short of lots turning long-term within 30 days` : ''}
+  `;
+}
+
+/**
+ * Exposure cap section of the decision prompt: current share of each capped
+ * bucket, the dollars of BUY room left and which listed tickers fall into it
+ */
+export function formatExposureContext(
+  exposureContext: ExposureContext | null | undefined,
+  positions: any[],
+  tickers: string[],
+  totalValue: number
+): string {
+  if (!exposureContext || exposureContext.limits.length === 0) return '';
+
+  const holdings = positions.map((p: any) => ({ symbol: p.symbol, value: Number(p.market_value) || 0 }));
+  const lines = exposureContext.limits.map(limit => {
+    const exposure = calculateExposure(holdings, exposureContext.classifications, limit, totalValue);
+    const roomDollars = Math.max(0, (limit.maxPercent - exposure.percent) / 100 * totalValue);
+    const listed = tickers.filter(ticker => matchesExposureLimit(exposureContext.classifications[ticker], limit));
+    const status = exposure.percent > limit.maxPercent
+      ? `⚠️ OVER CAP - no BUYs, consider trimming ${exposure.symbols.join(', ')}`
+      : `room for $${roomDollars.toFixed(0)} more`;
+    return `  - ${formatExposureLimit(limit)}: now ${exposure.percent.toFixed(1)}% (${status})${listed.length > 0 ? ` | in this list: ${listed.join(', ')}` : ''}`;
+  });
+
+  const classified = tickers
+    .map(ticker => {
+      const classification = exposureContext.classifications[ticker];
+      if (!classification) return null;
+      const parts = [classification.assetClass, classification.sector, classification.industry].filter(Boolean);
+      return `${ticker} (${parts.join(' / ')})`;
+    })
+    .filter(Boolean);
+
+  return `
+  EXPOSURE LIMITS (share of total portfolio value, enforced after your decisions):
+${lines.join('\n')}
+  - Classifications: ${classified.length > 0 ? classified.join(', ') : 'unavailable'}
+  - BUYs that would breach a cap are cut back automatically; size BUYs within the remaining room
+  `;
+}
+
 export function generateRebalanceAnalysisPrompt(
   targetCashAllocation: number,
   blockedTickers: string[],
@@ -26,7 +109,9 @@ export function generateRebalanceAnalysisPrompt(
   riskManagerDecisions: Record<string, any>,
   userSettings: any,
   apiSettings: any,
-  constraints: any
+  constraints: any,
+  taxLotReport?: TaxLotReport | null,
+  exposureContext?: ExposureContext | null
 ): string {
   // Helper functions for cleaner status calculation
   const profitTargetRaw = userSettings?.profit_target_percent ?? userSettings?.profit_target ?? apiSettings?.profit_target;
@@ -169,7 +254,8 @@ export function generateRebalanceAnalysisPrompt(
   - Min Position: $${userSettings?.min_position_size_dollars?.toFixed(0) || constraints?.minPositionSize || 5000}
   - Profit Target / Stop Loss: ${normalizedProfitTarget}% / -${normalizedStopLoss}%
   - Near Thresholds: ${normalizedNearLimit}% to target/stop, ${normalizedNearPosition}% for position sizing
-  
+  ${formatTaxLotContext(taxLotReport, tickers, apiSettings?.rebalance_tax_aware === true)}
+  ${formatExposureContext(exposureContext, positions, tickers, totalValue)}
   YOUR TASK: Make quick strategic decisions with approximate dollar amounts.
   
   DECISION PROCESS (30 seconds max):
@@ -1,5 +1,53 @@
 import { ANALYSIS_STATUS, REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
 import { notifyCoordinatorAsync } from '../../_shared/coordinatorNotification.ts';
+import { loadTaxLotReport, type TaxLotReport } from '../../_shared/taxLots.ts';
+import { loadAssetClassifications, normalizeExposureLimits } from '../../_shared/assetClassification.ts';
+import type { ExposureContext } from '../portfolio/allocations.ts';
+import { withAccountSettings } from '../../_shared/brokerAccounts.ts';
+
+/**
+ * Tax lots for the current positions; advisory only, so failures return null
+ */
+export async function loadRebalanceTaxLots(
+  supabase: any,
+  userId: string,
+  apiSettings: any,
+  positions: any[]
+): Promise<TaxLotReport | null> {
+  try {
+    const report = await loadTaxLotReport(supabase, userId, apiSettings, positions);
+    console.log(`🧾 Tax lots: ${report.fillCount} fills, ${report.positions.length} symbols (${report.method})`);
+    report.warnings.forEach(warning => console.warn(`⚠️ Tax lots: ${warning}`));
+    return report;
+  } catch (error: any) {
+    console.warn('⚠️ Tax lot report unavailable, continuing without it:', error?.message || error);
+    return null;
+  }
+}
+
+/**
+ * Exposure caps with classifications for the held and listed tickers; null when
+ * no caps are set. Without classifications the caps cannot be checked, so
+ * failures return null as well
+ */
+export async function loadRebalanceExposureContext(
+  supabase: any,
+  apiSettings: any,
+  positions: any[],
+  tickers: string[]
+): Promise<ExposureContext | null> {
+  const limits = normalizeExposureLimits(apiSettings.rebalance_exposure_limits);
+  if (limits.length === 0) return null;
+
+  try {
+    const symbols = [...positions.map((position: any) => position.symbol), ...tickers];
+    const classifications = await loadAssetClassifications(supabase, symbols, apiSettings);
+    return { limits, classifications };
+  } catch (error: any) {
+    console.warn('⚠️ Asset classifications unavailable, exposure caps skipped:', error?.message || error);
+    return null;
+  }
+}
 
 export async function getUserSettings(
   supabase: any,
@@ -49,11 +97,12 @@ export async function getUserSettings(
   }
   
   // No constraints - fetch from database
-  const { data: dbSettings } = await supabase
+  const { data: storedSettings } = await supabase
     .from('api_settings')
     .select('user_risk_level, rebalance_min_position_size, rebalance_max_position_size, profit_target, stop_loss, near_limit_threshold, near_position_threshold')
     .eq('user_id', userId)
     .single();
+  const dbSettings = withAccountSettings(storedSettings, apiSettings);
   
   // Get percentage-based position sizes from database
   const minPositionPercent = dbSettings?.rebalance_min_position_size || apiSettings.rebalance_min_position_size || 5;
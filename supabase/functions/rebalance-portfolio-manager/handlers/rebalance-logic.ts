@@ -1,6 +1,7 @@
 import { TradeOrderData } from '../../_shared/tradeOrders.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { validateSellOrder, adjustTradeOrderForValidation } from '../../_shared/positionManagement.ts';
+import { buildDefaultOrderParams, type OrderDefaultsSettings } from '../../_shared/orderTypes.ts';
 
 export function mapIntentToTradeDirection(intent: string | undefined): 'BUY' | 'SELL' | 'HOLD' {
   const upper = (intent || '').toUpperCase();
@@ -97,7 +98,8 @@ export function createTradeOrdersFromActions(
   actions: any[],
   rebalanceRequestId: string,
   tickersWithPendingOrders: Set<string>,
-  positions?: any[]
+  positions?: any[],
+  orderDefaults?: OrderDefaultsSettings
 ): TradeOrderData[] {
   const tradeOrders: TradeOrderData[] = [];
   
@@ -144,6 +146,11 @@ export function createTradeOrdersFromActions(
         targetAllocation: action.targetAllocation,
         targetValue: action.targetValue
       };
+
+      // Lots chosen by tax-aware rebalancing; read back by the specific-ID lot matching
+      if (action.taxLotSelection?.length) {
+        tradeOrder.metadata = { ...tradeOrder.metadata, tax_lot_selection: action.taxLotSelection };
+      }
       
       // Validate and adjust SELL orders
       if (action.action === 'SELL' && positions) {
@@ -189,6 +196,10 @@ export function createTradeOrdersFromActions(
         console.log(`    💰 Order: Dollar-based ($${tradeOrder.dollarAmount?.toFixed(2)})`);
       }
       
+      // Attach the user's default order type (market or limit) and time in force
+      const referencePrice = positionsMap.get(action.ticker)?.current_price || action.currentPrice || 0;
+      Object.assign(tradeOrder, buildDefaultOrderParams(action.action, referencePrice, orderDefaults));
+      
       tradeOrders.push(tradeOrder);
     }
   }
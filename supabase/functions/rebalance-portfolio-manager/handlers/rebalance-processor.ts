@@ -1,7 +1,12 @@
 import { submitTradeOrders } from '../../_shared/tradeOrders.ts';
-import { callAIProviderWithRetry } from '../../_shared/aiProviders.ts';
+import type { OrderDefaultsSettings } from '../../_shared/orderTypes.ts';
+import { callAIProviderWithRetryAndUsage, callAIProviderWithStructuredOutput } from '../../_shared/aiProviders.ts';
+import { type AIUsage, recordAIUsage } from '../../_shared/aiUsage.ts';
+import { AGENT_OUTPUT_SCHEMAS, formatTradeOrderLines, type RebalanceOrdersOutput } from '../../_shared/structuredOutput.ts';
 import { notifyCoordinatorAsync } from '../../_shared/coordinatorNotification.ts';
 import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
+import { buildRebalanceTaxImplications, type RebalanceTaxImplications, type TaxLotReport } from '../../_shared/taxLots.ts';
+import type { ExposureContext } from '../portfolio/allocations.ts';
 import { convertExtractedOrdersToPlan } from '../parsers/order-parser.ts';
 import { parseRebalancePlan } from '../parsers/rebalance-parser.ts';
 import { generateRebalanceAnalysisPrompt, generateRebalanceSystemPrompt, generateReasoningPrompt, generateReasoningSystemPrompt } from '../ai/prompts.ts';
@@ -10,7 +15,64 @@ import {
   buildPortfolioSnapshot,
   buildRecommendedPositions
 } from './rebalance-logic.ts';
-import { RebalanceResponse } from './rebalance-types.ts';
+import { RebalanceResponse, RebalanceUsageContext } from './rebalance-types.ts';
+
+/**
+ * Calls the AI provider and records the token usage against the rebalance request
+ */
+async function callRebalanceManagerAI(
+  usageContext: RebalanceUsageContext,
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string,
+  maxTokens: number
+): Promise<string> {
+  const result = await callAIProviderWithRetryAndUsage(
+    apiSettings,
+    prompt,
+    systemPrompt,
+    maxTokens,
+    3 // maxRetries
+    // No need for agent-specific field - settings already configured by getAgentSpecificSettings
+  );
+  await recordRebalanceManagerUsage(usageContext, apiSettings, result.usage);
+  return result.text;
+}
+
+/**
+ * Asks for the rebalance orders in structured form and renders them as the numbered
+ * order lines; returns null when the response fails validation so the caller can
+ * fall back to formatting the raw text
+ */
+async function callRebalanceManagerOrdersAI(
+  usageContext: RebalanceUsageContext,
+  apiSettings: any,
+  prompt: string,
+  systemPrompt: string,
+  maxTokens: number
+): Promise<{ orderLines: string | null; text: string }> {
+  const result = await callAIProviderWithStructuredOutput<RebalanceOrdersOutput>(
+    apiSettings,
+    prompt,
+    systemPrompt,
+    AGENT_OUTPUT_SCHEMAS.REBALANCE_ORDERS,
+    maxTokens,
+    3
+  );
+  await recordRebalanceManagerUsage(usageContext, apiSettings, result.usage);
+  const orderLines = result.data && result.data.orders.length > 0 ? formatTradeOrderLines(result.data.orders) : null;
+  return { orderLines, text: result.text };
+}
+
+async function recordRebalanceManagerUsage(usageContext: RebalanceUsageContext, apiSettings: any, usage: AIUsage) {
+  await recordAIUsage(usageContext.supabase, {
+    userId: usageContext.userId,
+    rebalanceRequestId: usageContext.rebalanceRequestId,
+    agentName: 'Rebalance Portfolio Manager',
+    usage,
+    priceOverrides: apiSettings.ai_model_prices
+  });
+}
 
 export async function processRebalanceAnalysis(
   targetCashAllocation: number, blockedTickers: string[], allowedTickers: string[],
@@ -18,12 +80,15 @@ export async function processRebalanceAnalysis(
   allowedCash: number,
   currentCash: number, positions: any[], tickers: string[],
   riskManagerDecisions: Record<string, any>, analyses: any[],
-  userSettings: any, apiSettings: any, constraints: any
+  userSettings: any, apiSettings: any, constraints: any,
+  usageContext: RebalanceUsageContext,
+  taxLotReport?: TaxLotReport | null,
+  exposureContext?: ExposureContext | null
 ): Promise<string> {
   const prompt = generateRebalanceAnalysisPrompt(
     targetCashAllocation, blockedTickers, allowedTickers, pendingOrdersDisplay,
     totalValue, availableCash, allowedCash, currentCash, positions, tickers,
-    riskManagerDecisions, userSettings, apiSettings, constraints
+    riskManagerDecisions, userSettings, apiSettings, constraints, taxLotReport, exposureContext
   );
 
   const systemPrompt = generateRebalanceSystemPrompt();
@@ -33,19 +98,12 @@ export async function processRebalanceAnalysis(
   console.log(`📝 Getting rebalance analysis with ${decisionTokens} max tokens (full user-defined limit)`);
 
   try {
-    const aiResponse = await callAIProviderWithRetry(
-      apiSettings,
-      prompt,
-      systemPrompt,
-      decisionTokens,
-      3 // maxRetries
-      // No need for agent-specific field - settings already configured by getAgentSpecificSettings
-    );
+    const { orderLines, text: aiResponse } = await callRebalanceManagerOrdersAI(usageContext, apiSettings, prompt, systemPrompt, decisionTokens);
 
     console.log(`📝 Decision agent response: ${aiResponse.substring(0, 500)}${aiResponse.length > 500 ? '...' : ''}`);
 
-    // Format the response to ensure each action is on a new line
-    const formattedResponse = formatRebalanceDecisions(aiResponse);
+    // Structured orders are already one per line; only free text needs reformatting
+    const formattedResponse = orderLines ?? formatRebalanceDecisions(aiResponse);
     console.log(`📝 Formatted decision response: ${formattedResponse.substring(0, 500)}${formattedResponse.length > 500 ? '...' : ''}`);
 
     return formattedResponse;
@@ -143,7 +201,8 @@ export async function generateDetailedReasoning(
   tickers: string[],
   riskManagerDecisions: Record<string, any>,
   userSettings: any,
-  apiSettings: any
+  apiSettings: any,
+  usageContext: RebalanceUsageContext
 ): Promise<string> {
   const reasoningPrompt = generateReasoningPrompt(
     portfolioManagerDecision, targetCashAllocation, totalValue, availableCash,
@@ -158,14 +217,7 @@ export async function generateDetailedReasoning(
   console.log(`📝 Generating detailed reasoning with ${reasoningMaxTokens} max tokens`);
 
   try {
-    return await callAIProviderWithRetry(
-      apiSettings,
-      reasoningPrompt,
-      systemPrompt,
-      reasoningMaxTokens,
-      3 // maxRetries
-      // No need for agent-specific field - settings already configured by getAgentSpecificSettings
-    );
+    return await callRebalanceManagerAI(usageContext, apiSettings, reasoningPrompt, systemPrompt, reasoningMaxTokens);
   } catch (error) {
     console.error('❌ Failed to generate detailed reasoning:', error);
     // Don't fail the whole process if reasoning fails, but log the error type
@@ -293,7 +345,8 @@ export async function executeRebalanceOrders(
   rebalanceRequestId: string,
   tickersWithPendingOrders: Set<string>,
   userId: string,
-  positions?: any[]
+  positions?: any[],
+  apiSettings?: OrderDefaultsSettings & { broker_account_id?: string | null }
 ): Promise<any> {
   try {
     // Create and submit trade orders
@@ -301,7 +354,8 @@ export async function executeRebalanceOrders(
       rebalancePlan.actions,
       rebalanceRequestId,
       tickersWithPendingOrders,
-      positions
+      positions,
+      apiSettings
     );
 
     const result = tradeOrders.length > 0
@@ -309,7 +363,8 @@ export async function executeRebalanceOrders(
         userId,
         sourceType: 'rebalance',
         rebalanceRequestId,
-        agent: 'rebalance-portfolio-manager'
+        agent: 'rebalance-portfolio-manager',
+        portfolioId: apiSettings?.broker_account_id
       })
       : { success: true, ordersCreated: 0 };
 
@@ -325,18 +380,53 @@ export async function executeRebalanceOrders(
   }
 }
 
+// Before/after allocation snapshot used by exports; replaces any row from an earlier attempt
+async function recordRebalanceHistory(
+  supabase: any, rebalanceRequestId: string, userId: string,
+  portfolioSnapshot: any, recommendedPositions: any[],
+  taxImplications: RebalanceTaxImplications | null
+): Promise<void> {
+  const allocationsBefore = Object.fromEntries(
+    recommendedPositions.map((position: any) => [position.ticker, position.currentAllocation ?? 0])
+  );
+  const allocationsAfter = Object.fromEntries(
+    recommendedPositions.map((position: any) => [position.ticker, position.targetAllocation ?? 0])
+  );
+
+  try {
+    await supabase.from('rebalance_history').delete().eq('rebalance_request_id', rebalanceRequestId);
+    const { error } = await supabase.from('rebalance_history').insert({
+      rebalance_request_id: rebalanceRequestId,
+      user_id: userId,
+      portfolio_before: portfolioSnapshot,
+      allocations_before: allocationsBefore,
+      allocations_after: allocationsAfter,
+      tax_implications: taxImplications
+    });
+    if (error) {
+      console.warn('⚠️ Failed to record rebalance history:', error.message);
+    }
+  } catch (error: any) {
+    console.warn('⚠️ Failed to record rebalance history:', error?.message || error);
+  }
+}
+
 export async function buildRebalanceResponse(
   supabase: any, rebalanceRequestId: string, rebalanceRequest: any,
   combinedResponse: string, rebalancePlan: any, tradeOrders: any[],
   positions: any[], currentCash: number, totalValue: number,
   targetCashAllocation: number, analyses: any[], portfolioData: any,
-  result: any, openOrders: any[], userId: string, apiSettings: any
+  result: any, openOrders: any[], userId: string, apiSettings: any,
+  taxLotReport?: TaxLotReport | null
 ): Promise<Response> {
   const completedAt = new Date().toISOString();
   const portfolio_snapshot = buildPortfolioSnapshot(
     positions, currentCash, totalValue, targetCashAllocation
   );
   const recommendedPositions = buildRecommendedPositions(rebalancePlan.actions);
+  const taxImplications = taxLotReport
+    ? buildRebalanceTaxImplications(taxLotReport, rebalancePlan.actions, completedAt)
+    : null;
 
   const comprehensive_rebalance_plan = {
     portfolio: {
@@ -393,6 +483,8 @@ export async function buildRebalanceResponse(
     tradeOrdersCount: tradeOrders.length,
     pendingOrdersConsidered: openOrders.length,
     reservedCapital: portfolioData.account.reserved_capital,
+    taxImplications,
+    exposureLimits: rebalancePlan.exposureLimits ?? null,
     portfolioManagerCompletedAt: completedAt
   };
 
@@ -407,6 +499,8 @@ export async function buildRebalanceResponse(
     })
     .eq('id', rebalanceRequestId);
 
+  await recordRebalanceHistory(supabase, rebalanceRequestId, userId, portfolio_snapshot, recommendedPositions, taxImplications);
+
   console.log(`✅ Rebalance Portfolio Manager completed rebalance: ${rebalanceRequestId}`);
 
   // Notify coordinator of completion - coordinator will mark as complete after auto-trade check
@@ -11,6 +11,13 @@ export interface RebalanceContext {
   riskManagerDecisions?: Record<string, any>;
 }
 
+// Where AI usage of the portfolio manager calls is recorded
+export interface RebalanceUsageContext {
+  supabase: any;
+  userId: string;
+  rebalanceRequestId: string;
+}
+
 export interface RebalanceResponse {
   success: boolean;
   message?: string;
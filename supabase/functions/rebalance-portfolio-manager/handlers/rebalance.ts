@@ -6,7 +6,7 @@ import {
   formatPendingOrdersDisplay,
   filterTickersByPendingOrders
 } from './rebalance-logic.ts';
-import { getUserSettings, handleNoAnalyses, fetchAnalysesForRebalance, getRebalanceRequestDetails } from './rebalance-helpers.ts';
+import { getUserSettings, handleNoAnalyses, fetchAnalysesForRebalance, getRebalanceRequestDetails, loadRebalanceTaxLots, loadRebalanceExposureContext } from './rebalance-helpers.ts';
 import { processRebalanceAnalysis, generateDetailedReasoning, extractOrdersFromResponse, executeRebalanceOrders, buildRebalanceResponse } from './rebalance-processor.ts';
 import { updateRebalanceWorkflowStep } from '../../_shared/atomicUpdate.ts';
 import { REBALANCE_STATUS } from '../../_shared/statusTypes.ts';
@@ -97,6 +97,11 @@ export async function handleRebalancePortfolio(
     const allowedCash = calculateAllowedCash(availableCash, totalValue, targetCashAllocation);
     const positions = portfolioData.positions;
     const openOrders = portfolioData.openOrders || [];
+    const taxLotReport = await loadRebalanceTaxLots(supabase, userId, apiSettings, positions);
+    const taxContext = apiSettings.rebalance_tax_aware && taxLotReport
+      ? { report: taxLotReport, asOf: new Date().toISOString() }
+      : null;
+    const exposureContext = await loadRebalanceExposureContext(supabase, apiSettings, positions, tickers);
 
     console.log(`💵 Rebalance cash posture: available=$${availableCash.toFixed(2)}, target=${targetCashAllocation}% → allowed deployable=$${allowedCash.toFixed(2)}`);
 
@@ -167,7 +172,8 @@ export async function handleRebalancePortfolio(
       // Generate reasoning based on the reconstructed decisions
       detailedReasoning = await generateDetailedReasoning(
         aiResponse, targetCashAllocation, totalValue, availableCash, allowedCash, currentCash,
-        positions, tickers, riskManagerDecisions, userSettings, apiSettings
+        positions, tickers, riskManagerDecisions, userSettings, apiSettings,
+        { supabase, userId, rebalanceRequestId }
       );
       
     } else {
@@ -177,7 +183,8 @@ export async function handleRebalancePortfolio(
       aiResponse = await processRebalanceAnalysis(
         targetCashAllocation, blockedTickers, allowedTickers, pendingOrdersDisplay,
         totalValue, availableCash, allowedCash, currentCash, positions, tickers,
-        riskManagerDecisions, analyses, userSettings, apiSettings, constraints
+        riskManagerDecisions, analyses, userSettings, apiSettings, constraints,
+        { supabase, userId, rebalanceRequestId }, taxLotReport, exposureContext
       );
       
       // Extract orders first
@@ -195,12 +202,16 @@ export async function handleRebalancePortfolio(
         totalValue, currentCash, availableCash, positions,
         targetCashAllocation, allowedCash, analyses, riskManagerDecisions,
         userRiskLevel: userSettings.user_risk_level,
-        apiSettings  // Pass apiSettings for min position size
+        apiSettings,  // Pass apiSettings for min position size
+        taxContext,
+        exposureContext
       }) :
       parseRebalancePlan(aiResponse, {
         totalValue, currentCash, availableCash, positions,
         targetCashAllocation, allowedCash, analyses, riskManagerDecisions,
-        userRiskLevel: userSettings.user_risk_level
+        userRiskLevel: userSettings.user_risk_level,
+        taxContext,
+        exposureContext
       });
     
     // Now reconstruct the decision message based on the FINAL actions (after modifications)
@@ -212,7 +223,8 @@ export async function handleRebalancePortfolio(
     // Generate reasoning based on the UPDATED decision
     detailedReasoning = await generateDetailedReasoning(
       updatedDecision, targetCashAllocation, totalValue, availableCash, allowedCash, currentCash,
-      positions, tickers, riskManagerDecisions, userSettings, apiSettings
+      positions, tickers, riskManagerDecisions, userSettings, apiSettings,
+      { supabase, userId, rebalanceRequestId }
     );
     
     // Combine the UPDATED decision with reasoning
@@ -236,7 +248,7 @@ ${detailedReasoning}`;
       tradeOrders = [];
     } else {
       const execution = await executeRebalanceOrders(
-        supabase, rebalancePlan, rebalanceRequestId, tickersWithPendingOrders, userId, positions
+        supabase, rebalancePlan, rebalanceRequestId, tickersWithPendingOrders, userId, positions, apiSettings
       );
       result = execution.result;
       tradeOrders = execution.tradeOrders;
@@ -247,7 +259,7 @@ ${detailedReasoning}`;
       supabase, rebalanceRequestId, rebalanceRequest, combinedResponse,
       rebalancePlan, tradeOrders, positions, currentCash, totalValue,
       targetCashAllocation, analyses, portfolioData, result, openOrders,
-      userId, apiSettings
+      userId, apiSettings, taxLotReport
     );
   } catch (error) {
     console.error('❌ Error in handleRebalancePortfolio:', error);
@@ -1,7 +1,7 @@
 import { serve } from 'https://deno.land/std@0.210.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { RebalancePortfolioManagerRequest } from './types/interfaces.ts';
-import { fetchAlpacaPortfolio } from '../_shared/portfolio/alpacaClient.ts';
+import { fetchBrokerPortfolio } from '../_shared/portfolio/brokerPortfolio.ts';
 import { handleRebalancePortfolio } from './handlers/rebalance.ts';
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts';
 import { checkRebalanceCancellation } from '../analysis-coordinator/utils/cancellation.ts';
@@ -111,7 +111,7 @@ serve(async (req) => {
     // Fetch portfolio data from Alpaca with error handling
     let portfolioData;
     try {
-      portfolioData = await fetchAlpacaPortfolio(apiSettings);
+      portfolioData = await fetchBrokerPortfolio(apiSettings);
     } catch (alpacaError) {
       console.error('❌ Failed to fetch Alpaca portfolio:', alpacaError);
 
@@ -1,5 +1,6 @@
 import { calculateAllowedCash } from '../../_shared/portfolio/cash-constraints.ts';
 import { mapIntentToTradeDirection } from '../handlers/rebalance-logic.ts';
+import { applyExposureLimits, applyTaxAwareAdjustments } from '../portfolio/allocations.ts';
 
 export function parseExtractedOrders(extractionResponse: string, analyses: any[], positions: any[], totalValue: number): any {
   try {
@@ -423,6 +424,16 @@ export function convertExtractedOrdersToPlan(extractedOrders: any, context: any)
   console.log(`  SELL actions: ${actions.filter(a => a.action === 'SELL').length}`);
   console.log(`  HOLD actions: ${actions.filter(a => a.action === 'HOLD').length}`);
 
+  // Before BUY scaling so blocked re-buys leave their cash to the others
+  if (context.taxContext) {
+    applyTaxAwareAdjustments(actions, context.taxContext, context.totalValue);
+  }
+
+  // Exposure caps also run before scaling; scaling only shrinks BUYs further
+  const exposureLimits = context.exposureContext?.limits.length
+    ? applyExposureLimits(actions, context.positions || [], context.exposureContext, context.totalValue, minPositionDollars)
+    : null;
+
   const totalBuyValue = actions.filter(a => a.action === 'BUY').reduce((sum, a) => sum + a.dollarAmount, 0);
   const allowedBuyBudget = initialDeployableCap;
 
@@ -483,6 +494,7 @@ export function convertExtractedOrdersToPlan(extractedOrders: any, context: any)
   return {
     actions,
     calculatedAllocations: extractedOrders.allocations || {},
+    exposureLimits,
     summary
   };
 }
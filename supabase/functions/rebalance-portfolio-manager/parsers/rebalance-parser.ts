@@ -1,4 +1,4 @@
-import { calculateOptimalAllocations } from '../portfolio/allocations.ts';
+import { applyExposureLimits, applyTaxAwareAdjustments, calculateOptimalAllocations } from '../portfolio/allocations.ts';
 import { calculateAllowedCash } from '../../_shared/portfolio/cash-constraints.ts';
 import { mapIntentToTradeDirection } from '../handlers/rebalance-logic.ts';
 
@@ -47,7 +47,9 @@ export function parseRebalancePlan(aiResponse: string, context: any) {
     context.riskManagerDecisions,
     context.targetCashAllocation || 20,
     context.totalValue,
-    context.userRiskLevel || 'moderate'
+    context.userRiskLevel || 'moderate',
+    context.taxContext,
+    context.exposureContext
   );
   
   const availableCash = context.availableCash || context.currentCash || 0;
@@ -228,10 +230,19 @@ export function parseRebalancePlan(aiResponse: string, context: any) {
       suggestedPercent
     });
   }
+
+  if (context.taxContext) {
+    applyTaxAwareAdjustments(actions, context.taxContext, context.totalValue);
+  }
+
+  const exposureLimits = context.exposureContext?.limits.length
+    ? applyExposureLimits(actions, context.positions || [], context.exposureContext, context.totalValue)
+    : null;
   
   return {
     actions,
     calculatedAllocations: targetAllocations,
+    exposureLimits,
     summary: {
       totalTrades: actions.filter(a => a.action !== 'HOLD').length,
       buyOrders: actions.filter(a => a.action === 'BUY').length,
@@ -1,11 +1,302 @@
 import { mapIntentToTradeDirection } from '../handlers/rebalance-logic.ts';
+import {
+  HOLDING_TERM,
+  TAX_LOT_METHOD,
+  normalizeTaxSymbol,
+  orderLotsForSale,
+  type OpenTaxLot,
+  type PositionTaxSummary,
+  type TaxLotReport,
+  type TaxLotSelection
+} from '../../_shared/taxLots.ts';
+import {
+  ASSET_CLASS,
+  EXPOSURE_CHECK_STATUS,
+  calculateExposure,
+  formatExposureLimit,
+  matchesExposureLimit,
+  type AssetClassification,
+  type ExposureAdjustment,
+  type ExposureCheck,
+  type ExposureLimit,
+  type ExposureLimitReport
+} from '../../_shared/assetClassification.ts';
+
+// Short-term lots with a gain this close to turning long-term are left unsold in tax-aware mode
+const LONG_TERM_DEFERRAL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaxAwareContext {
+  report: TaxLotReport;
+  asOf: string;
+}
+
+interface TaxAwareSale {
+  quantity: number;            // Shares that can be sold without touching deferred lots
+  deferredQuantity: number;    // Requested shares held back to reach long-term treatment
+  selection: TaxLotSelection[];
+}
+
+const findTaxPosition = (taxContext: TaxAwareContext, ticker: string): PositionTaxSummary | undefined =>
+  taxContext.report.positions.find(position => position.symbol === normalizeTaxSymbol(ticker));
+
+/**
+ * A BUY inside the window of a recent loss sale would defer that loss
+ */
+export function getWashSaleBlockEnd(taxContext: TaxAwareContext, ticker: string): string | null {
+  const windowEndsAt = findTaxPosition(taxContext, ticker)?.washSaleWindowEndsAt;
+  return windowEndsAt && Date.parse(windowEndsAt) > Date.parse(taxContext.asOf) ? windowEndsAt : null;
+}
+
+function isDeferredLot(lot: OpenTaxLot, price: number | null, asOf: string): boolean {
+  if (price === null || lot.term === HOLDING_TERM.LONG || price <= lot.costPerShare) return false;
+  return Date.parse(lot.longTermAt) - Date.parse(asOf) <= LONG_TERM_DEFERRAL_DAYS * DAY_MS;
+}
+
+/**
+ * Lots in the order a tax-aware trim sells them. With specific-ID the best lots
+ * are picked: losses (largest first), then long-term gains, then short-term gains,
+ * with lots about to turn long-term last. Otherwise the broker's method decides.
+ */
+export function rankLotsForTaxAwareSale(
+  position: PositionTaxSummary,
+  method: TaxLotReport['method'],
+  asOf: string
+): OpenTaxLot[] {
+  const ordered = orderLotsForSale(position.openLots, method);
+  const price = position.currentPrice;
+  if (method !== TAX_LOT_METHOD.SPECIFIC_ID || price === null) return ordered;
+
+  const rank = (lot: OpenTaxLot) => {
+    const gainPerShare = price - lot.costPerShare;
+    if (gainPerShare <= 0) return 0;
+    if (lot.term === HOLDING_TERM.LONG) return 1;
+    return isDeferredLot(lot, price, asOf) ? 3 : 2;
+  };
+
+  return ordered
+    .map((lot, index) => ({ lot, index, rank: rank(lot), gainPerShare: price - lot.costPerShare }))
+    .sort((a, b) => a.rank - b.rank || a.gainPerShare - b.gainPerShare || a.index - b.index)
+    .map(entry => entry.lot);
+}
+
+/**
+ * How much of a requested sale can go ahead without selling lots about to turn
+ * long-term; full exits ignore the deferral
+ */
+export function planTaxAwareSale(
+  taxContext: TaxAwareContext,
+  ticker: string,
+  quantity: number,
+  allowDeferredLots: boolean
+): TaxAwareSale {
+  const position = findTaxPosition(taxContext, ticker);
+  if (!position) {
+    return { quantity, deferredQuantity: 0, selection: [] };
+  }
+
+  const { method } = taxContext.report;
+  const selection: TaxLotSelection[] = [];
+  let remaining = quantity;
+
+  for (const lot of rankLotsForTaxAwareSale(position, method, taxContext.asOf)) {
+    if (remaining <= 0) break;
+    if (!allowDeferredLots && isDeferredLot(lot, position.currentPrice, taxContext.asOf)) break;
+    const sold = Math.min(remaining, lot.quantity);
+    selection.push({ lotId: lot.lotId, quantity: sold });
+    remaining -= sold;
+  }
+
+  // Shares beyond the known lots are not held back
+  const coveredQuantity = position.openLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const uncovered = Math.max(0, quantity - coveredQuantity);
+  const sellable = quantity - remaining + Math.min(remaining, uncovered);
+
+  return {
+    quantity: sellable,
+    deferredQuantity: Math.max(0, quantity - sellable),
+    selection: method === TAX_LOT_METHOD.SPECIFIC_ID ? selection : []
+  };
+}
+
+/**
+ * Tax-aware pass over rebalance actions: blocks wash-sale re-buys, shrinks trims
+ * that would sell lots about to turn long-term and records the lots each SELL
+ * should close. Actions are updated in place.
+ */
+export function applyTaxAwareAdjustments(actions: any[], taxContext: TaxAwareContext, totalValue: number): void {
+  const holdAction = (action: any, note: string) => {
+    action.action = 'HOLD';
+    action.dollarAmount = 0;
+    action.shareChange = 0;
+    action.targetShares = action.currentShares;
+    action.targetValue = action.currentValue;
+    action.targetAllocation = action.currentAllocation;
+    action.reasoning += ` (${note})`;
+  };
+
+  console.log(`🧾 TAX-AWARE ADJUSTMENTS (${taxContext.report.method}):`);
+
+  for (const action of actions) {
+    if (action.action === 'BUY') {
+      const blockedUntil = getWashSaleBlockEnd(taxContext, action.ticker);
+      if (blockedUntil) {
+        console.log(`  ⛔ ${action.ticker}: BUY blocked until ${blockedUntil.slice(0, 10)} to avoid a wash sale`);
+        holdAction(action, `re-buy blocked until ${blockedUntil.slice(0, 10)} to avoid a wash sale`);
+      }
+      continue;
+    }
+
+    if (action.action !== 'SELL' || !(action.currentPrice > 0)) continue;
+
+    const requestedShares = Math.abs(action.shareChange) || action.dollarAmount / action.currentPrice;
+    const isFullExit = action.riskManagerRecommendation === 'EXIT' ||
+      requestedShares >= (Number(action.currentShares) || 0) - 1e-6;
+    const sale = planTaxAwareSale(taxContext, action.ticker, requestedShares, isFullExit);
+
+    if (sale.deferredQuantity > 0) {
+      const shares = Math.trunc(sale.quantity * 100) / 100;
+      if (shares <= 0) {
+        console.log(`  ⏳ ${action.ticker}: SELL deferred - remaining lots turn long-term within ${LONG_TERM_DEFERRAL_DAYS} days`);
+        holdAction(action, `trim deferred until lots turn long-term`);
+        continue;
+      }
+      console.log(`  ⏳ ${action.ticker}: SELL reduced ${requestedShares.toFixed(2)} → ${shares} shares to keep lots turning long-term`);
+      action.shareChange = -shares;
+      action.dollarAmount = shares * action.currentPrice;
+      action.targetShares = Math.max(0, action.currentShares - shares);
+      action.targetValue = action.targetShares * action.currentPrice;
+      action.targetAllocation = (action.targetValue / totalValue) * 100;
+      action.reasoning += ` (reduced to keep lots turning long-term)`;
+      sale.selection = planTaxAwareSale(taxContext, action.ticker, shares, false).selection;
+    }
+
+    if (sale.selection.length > 0) {
+      action.taxLotSelection = sale.selection;
+    }
+  }
+}
+
+export interface ExposureContext {
+  limits: ExposureLimit[];
+  classifications: Record<string, AssetClassification>;
+}
+
+/**
+ * Exposure cap pass over rebalance actions: BUYs that would push a sector,
+ * industry or asset class over its cap are cut back (lowest confidence first)
+ * or turned into HOLDs. Holdings already over a cap are reported, not sold.
+ * Actions are updated in place.
+ */
+export function applyExposureLimits(
+  actions: any[],
+  positions: any[],
+  exposureContext: ExposureContext,
+  totalValue: number,
+  minPositionDollars = 0
+): ExposureLimitReport {
+  const actionByTicker = new Map(actions.map(action => [action.ticker, action]));
+  const holdingsAfter = () => {
+    const holdings = positions
+      .filter(position => !actionByTicker.has(position.symbol))
+      .map(position => ({ symbol: position.symbol, value: Number(position.market_value) || 0 }));
+    for (const action of actions) {
+      holdings.push({ symbol: action.ticker, value: Number(action.targetValue) || 0 });
+    }
+    return holdings;
+  };
+  const holdingsBefore = [
+    ...positions.map(position => ({ symbol: position.symbol, value: Number(position.market_value) || 0 })),
+    ...actions
+      .filter(action => !positions.some(position => position.symbol === action.ticker))
+      .map(action => ({ symbol: action.ticker, value: Number(action.currentValue) || 0 }))
+  ];
+
+  console.log(`🧱 EXPOSURE LIMITS (${exposureContext.limits.length}):`);
+
+  const checks: ExposureCheck[] = exposureContext.limits.map(limit => {
+    const before = calculateExposure(holdingsBefore, exposureContext.classifications, limit, totalValue);
+    let after = calculateExposure(holdingsAfter(), exposureContext.classifications, limit, totalValue);
+    const adjustments: ExposureAdjustment[] = [];
+
+    const buys = actions
+      .filter(action => action.action === 'BUY' && matchesExposureLimit(exposureContext.classifications[action.ticker], limit))
+      .sort((a, b) => (a.confidence || 0) - (b.confidence || 0));
+
+    for (const action of buys) {
+      const excessDollars = (after.percent - limit.maxPercent) / 100 * totalValue;
+      if (excessDollars <= 0.01) break;
+
+      const fromAmount = action.dollarAmount;
+      let toAmount = Math.max(0, Math.floor((fromAmount - excessDollars) * 100) / 100);
+      if (toAmount > 0 && action.currentValue === 0 && toAmount < minPositionDollars) {
+        toAmount = 0;
+      }
+
+      if (toAmount <= 0) {
+        console.log(`  ⛔ ${action.ticker}: BUY $${fromAmount.toFixed(2)} → HOLD (${formatExposureLimit(limit)})`);
+        action.action = 'HOLD';
+        action.dollarAmount = 0;
+        action.shareChange = 0;
+        action.targetShares = action.currentShares;
+        action.targetValue = action.currentValue;
+        action.targetAllocation = action.currentAllocation;
+        action.reasoning += ` (blocked by ${limit.value} exposure cap of ${limit.maxPercent}%)`;
+      } else {
+        console.log(`  ✂️ ${action.ticker}: BUY $${fromAmount.toFixed(2)} → $${toAmount.toFixed(2)} (${formatExposureLimit(limit)})`);
+        const shareChange = Math.trunc((toAmount / action.currentPrice) * 100) / 100;
+        action.dollarAmount = toAmount;
+        action.shareChange = shareChange;
+        action.targetShares = action.currentShares + shareChange;
+        action.targetValue = action.targetShares * action.currentPrice;
+        action.targetAllocation = (action.targetValue / totalValue) * 100;
+        action.reasoning += ` (reduced by ${limit.value} exposure cap of ${limit.maxPercent}%)`;
+      }
+
+      adjustments.push({ ticker: action.ticker, fromAmount, toAmount });
+      after = calculateExposure(holdingsAfter(), exposureContext.classifications, limit, totalValue);
+    }
+
+    const overCap = after.percent > limit.maxPercent + 0.01;
+    const status = overCap
+      ? EXPOSURE_CHECK_STATUS.VIOLATION
+      : adjustments.length > 0 ? EXPOSURE_CHECK_STATUS.ADJUSTED : EXPOSURE_CHECK_STATUS.OK;
+    const note = overCap
+      ? `Existing holdings (${after.symbols.join(', ')}) are ${after.percent.toFixed(1)}% of the portfolio, above the ${limit.maxPercent}% cap; trim them to comply`
+      : adjustments.length > 0
+        ? `Cut ${adjustments.length} BUY${adjustments.length === 1 ? '' : 's'} to stay within the cap`
+        : 'Within cap';
+
+    console.log(`  ${overCap ? '⚠️' : '✅'} ${formatExposureLimit(limit)}: ${before.percent.toFixed(1)}% → ${after.percent.toFixed(1)}%`);
+
+    return {
+      limit,
+      symbols: Array.from(new Set([...before.symbols, ...after.symbols])),
+      beforePercent: Math.round(before.percent * 100) / 100,
+      afterPercent: Math.round(after.percent * 100) / 100,
+      status,
+      adjustments,
+      note
+    };
+  });
+
+  const tickers = new Set([...positions.map(position => position.symbol), ...actions.map(action => action.ticker)]);
+  const unclassified = Array.from(tickers).filter(ticker => {
+    const classification = exposureContext.classifications[ticker];
+    return !classification || (classification.assetClass === ASSET_CLASS.EQUITY && !classification.sector);
+  });
+
+  return { evaluatedAt: new Date().toISOString(), checks, unclassified };
+}
 
 export function calculateOptimalAllocations(
   stocks: string[],
   riskManagerDecisions: Record<string, any>,
   targetCashAllocation: number,
   _totalValue: number,
-  userRiskLevel: 'conservative' | 'moderate' | 'aggressive' = 'moderate'
+  userRiskLevel: 'conservative' | 'moderate' | 'aggressive' = 'moderate',
+  taxContext?: TaxAwareContext | null,
+  exposureContext?: ExposureContext | null
 ): Record<string, number> {
   const allocations: Record<string, number> = {};
   const stockAllocation = 100 - targetCashAllocation;
@@ -14,6 +305,8 @@ export function calculateOptimalAllocations(
   console.log(`  - Total stocks to consider: ${stocks.length}`);
   console.log(`  - Stock allocation budget: ${stockAllocation}%`);
   console.log(`  - User risk level: ${userRiskLevel}`);
+  console.log(`  - Tax-aware: ${taxContext ? `yes (${taxContext.report.method})` : 'no'}`);
+  console.log(`  - Exposure limits: ${exposureContext?.limits.length ? exposureContext.limits.map(formatExposureLimit).join('; ') : 'none'}`);
   console.log(`  - Stocks: ${stocks.join(', ')}`);
 
   // Separate stocks by risk manager recommendation
@@ -30,9 +323,23 @@ export function calculateOptimalAllocations(
     if (!decision) {
       unanalyzedStocks.push(ticker);
     } else if (tradeDirection === 'BUY') {
-      buyStocks.push(ticker);
+      // Tax-aware: a re-buy inside a wash-sale window keeps its current weight
+      if (taxContext && getWashSaleBlockEnd(taxContext, ticker)) {
+        console.log(`  ⛔ ${ticker}: BUY treated as HOLD - wash-sale window still open`);
+        holdStocks.push(ticker);
+      } else {
+        buyStocks.push(ticker);
+      }
     } else if (tradeDirection === 'SELL') {
-      sellStocks.push(ticker);
+      // Tax-aware: a trim that could only sell lots about to turn long-term waits
+      const position = taxContext ? findTaxPosition(taxContext, ticker) : undefined;
+      if (taxContext && intent === 'TRIM' && position && position.quantity > 0 &&
+        planTaxAwareSale(taxContext, ticker, position.quantity, false).quantity <= 0) {
+        console.log(`  ⏳ ${ticker}: TRIM treated as HOLD - lots turn long-term within ${LONG_TERM_DEFERRAL_DAYS} days`);
+        holdStocks.push(ticker);
+      } else {
+        sellStocks.push(ticker);
+      }
     } else {
       holdStocks.push(ticker);
     }
@@ -129,6 +436,21 @@ export function calculateOptimalAllocations(
     });
   }
 
+  // Scale each capped bucket down to its limit; the freed weight stays in cash
+  exposureContext?.limits.forEach(limit => {
+    const bucket = Object.keys(allocations).filter(ticker =>
+      matchesExposureLimit(exposureContext.classifications[ticker], limit)
+    );
+    const bucketAllocation = bucket.reduce((sum, ticker) => sum + allocations[ticker], 0);
+    if (bucketAllocation <= limit.maxPercent) return;
+
+    const scale = limit.maxPercent / bucketAllocation;
+    console.log(`  🧱 ${formatExposureLimit(limit)}: ${bucketAllocation.toFixed(2)}% → ${limit.maxPercent}% across ${bucket.join(', ')}`);
+    bucket.forEach(ticker => {
+      allocations[ticker] *= scale;
+    });
+  });
+
   console.log(`  📊 FINAL ALLOCATIONS:`);
   Object.entries(allocations).forEach(([ticker, allocation]) => {
     console.log(`    - ${ticker}: ${allocation.toFixed(2)}%`);
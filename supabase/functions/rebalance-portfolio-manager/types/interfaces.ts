@@ -1,3 +1,5 @@
+import type { ModelPriceTable } from '../../_shared/aiUsage.ts';
+
 export interface RebalancePortfolioManagerRequest {
   rebalanceRequestId: string;
   tickers?: string[];
@@ -6,6 +8,8 @@ export interface RebalancePortfolioManagerRequest {
     ai_provider: string;
     ai_api_key: string;
     ai_model?: string;
+    ai_base_url?: string | null;
+    ai_model_prices?: ModelPriceTable | null;
     alpaca_paper_api_key?: string;
     alpaca_paper_secret_key?: string;
     alpaca_live_api_key?: string;
@@ -36,7 +40,7 @@ export interface RebalancePortfolioManagerRequest {
 }
 
 // Import shared portfolio types
-export type { AlpacaPortfolioData } from '../../_shared/portfolio/types.ts';
+export type { BrokerPortfolioData } from '../../_shared/portfolio/types.ts';
 
 export interface RebalanceResponse {
   success: boolean;
@@ -0,0 +1,168 @@
+import { ANALYSIS_STATUS } from '../_shared/statusTypes.ts';
+import { describeAgentConfig, getAgentConfigKey } from '../_shared/agentConfig.ts';
+import { BACKTEST_SOURCE, type BacktestDecision, type BacktestParameters } from '../_shared/backtest.ts';
+
+// Keep a run within the edge function time limit
+export const MAX_BACKTEST_DECISIONS = 1000;
+export const MAX_BACKTEST_TICKERS = 100;
+
+const ID_BATCH_SIZE = 200;
+
+const toActions = (parameters: BacktestParameters): string[] =>
+  parameters.includeSells ? ['BUY', 'SELL'] : ['BUY'];
+
+// End of the decision window is inclusive
+const toEndExclusive = (endDate: string): string => {
+  const end = new Date(`${endDate}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end.toISOString();
+};
+
+async function fetchInBatches<T>(
+  ids: string[],
+  fetchBatch: (batch: string[]) => Promise<T[]>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_BATCH_SIZE) {
+    rows.push(...await fetchBatch(ids.slice(i, i + ID_BATCH_SIZE)));
+  }
+  return rows;
+}
+
+/**
+ * Completed individual and rebalance analyses with a BUY/SELL decision
+ */
+async function loadAnalysisDecisions(
+  supabase: any,
+  userId: string,
+  parameters: BacktestParameters
+): Promise<BacktestDecision[]> {
+  let query = supabase
+    .from('analysis_history')
+    .select('id, ticker, decision, confidence, created_at, metadata, rebalance_request_id')
+    .eq('user_id', userId)
+    .eq('analysis_status', ANALYSIS_STATUS.COMPLETED)
+    .in('decision', toActions(parameters))
+    .gte('confidence', parameters.minConfidence)
+    .gte('created_at', `${parameters.startDate}T00:00:00Z`)
+    .lt('created_at', toEndExclusive(parameters.endDate))
+    .order('created_at', { ascending: true })
+    .limit(MAX_BACKTEST_DECISIONS + 1);
+
+  if (parameters.tickers && parameters.tickers.length > 0) {
+    query = query.in('ticker', parameters.tickers);
+  }
+
+  const { data: analyses, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load analyses: ${error.message}`);
+  }
+  if (!analyses || analyses.length === 0) {
+    return [];
+  }
+
+  // Prices recorded on the resulting trade orders, for comparison with simulated fills
+  const referencePrices = new Map<string, number>();
+  const actions = await fetchInBatches(analyses.map((a: any) => a.id), async (batch) => {
+    const { data } = await supabase
+      .from('trading_actions')
+      .select('analysis_id, price')
+      .in('analysis_id', batch);
+    return data || [];
+  });
+  for (const action of actions as any[]) {
+    if (action.analysis_id && Number(action.price) > 0) {
+      referencePrices.set(action.analysis_id, Number(action.price));
+    }
+  }
+
+  return analyses.map((analysis: any) => {
+    const agentConfig = analysis.metadata?.agent_config;
+    return {
+      id: analysis.id,
+      ticker: String(analysis.ticker).toUpperCase(),
+      action: analysis.decision,
+      confidence: analysis.confidence === null ? null : Number(analysis.confidence),
+      decidedAt: analysis.created_at,
+      configKey: getAgentConfigKey(agentConfig),
+      configLabel: describeAgentConfig(agentConfig),
+      referencePrice: referencePrices.get(analysis.id) ?? null,
+      analysisId: analysis.id,
+      rebalanceRequestId: analysis.rebalance_request_id
+    };
+  });
+}
+
+/**
+ * BUY/SELL orders proposed by rebalance plans, whether or not they were executed
+ */
+async function loadRebalanceDecisions(
+  supabase: any,
+  userId: string,
+  parameters: BacktestParameters
+): Promise<BacktestDecision[]> {
+  let query = supabase
+    .from('trading_actions')
+    .select('id, ticker, action, price, created_at, analysis_id, rebalance_request_id')
+    .eq('user_id', userId)
+    .not('rebalance_request_id', 'is', null)
+    .in('action', toActions(parameters))
+    .gte('created_at', `${parameters.startDate}T00:00:00Z`)
+    .lt('created_at', toEndExclusive(parameters.endDate))
+    .order('created_at', { ascending: true })
+    .limit(MAX_BACKTEST_DECISIONS + 1);
+
+  if (parameters.tickers && parameters.tickers.length > 0) {
+    query = query.in('ticker', parameters.tickers);
+  }
+
+  const { data: orders, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load rebalance orders: ${error.message}`);
+  }
+  if (!orders || orders.length === 0) {
+    return [];
+  }
+
+  // Confidence and agent configuration come from the analysis behind each order
+  const analysisIds = Array.from(new Set(orders.map((o: any) => o.analysis_id).filter(Boolean))) as string[];
+  const analyses = await fetchInBatches(analysisIds, async (batch) => {
+    const { data } = await supabase
+      .from('analysis_history')
+      .select('id, confidence, metadata')
+      .in('id', batch);
+    return data || [];
+  });
+  const analysisById = new Map((analyses as any[]).map(a => [a.id, a]));
+
+  return orders
+    .map((order: any) => {
+      const analysis = order.analysis_id ? analysisById.get(order.analysis_id) : null;
+      const agentConfig = analysis?.metadata?.agent_config;
+      return {
+        id: order.id,
+        ticker: String(order.ticker).toUpperCase(),
+        action: order.action,
+        confidence: analysis?.confidence === undefined || analysis?.confidence === null ? null : Number(analysis.confidence),
+        decidedAt: order.created_at,
+        configKey: getAgentConfigKey(agentConfig),
+        configLabel: describeAgentConfig(agentConfig),
+        referencePrice: Number(order.price) > 0 ? Number(order.price) : null,
+        analysisId: order.analysis_id,
+        rebalanceRequestId: order.rebalance_request_id
+      } as BacktestDecision;
+    })
+    .filter((decision: BacktestDecision) =>
+      parameters.minConfidence <= 0 || (decision.confidence ?? 0) >= parameters.minConfidence
+    );
+}
+
+export async function loadBacktestDecisions(
+  supabase: any,
+  userId: string,
+  parameters: BacktestParameters
+): Promise<BacktestDecision[]> {
+  return parameters.source === BACKTEST_SOURCE.REBALANCE
+    ? await loadRebalanceDecisions(supabase, userId, parameters)
+    : await loadAnalysisDecisions(supabase, userId, parameters);
+}
@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import {
+  BACKTEST_SOURCE,
+  BACKTEST_STATUS,
+  DEFAULT_BACKTEST_PARAMETERS,
+  isValidBacktestSource,
+  runBacktest,
+  type BacktestParameters,
+  type DailyBar
+} from '../_shared/backtest.ts';
+import { loadBacktestDecisions, MAX_BACKTEST_DECISIONS, MAX_BACKTEST_TICKERS } from './decisionLoader.ts';
+import { loadDailyBars } from '../_shared/dailyBars.ts';
+
+interface BacktestRequest {
+  name?: string;
+  source?: string;
+  startDate?: string;
+  endDate?: string;
+  holdingDays?: number;
+  benchmark?: string;
+  minConfidence?: number;
+  positionSizePct?: number;
+  includeSells?: boolean;
+  tickers?: string[];
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    },
+    status
+  });
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/**
+ * Validates the request and fills in defaults
+ */
+function parseParameters(body: BacktestRequest): { parameters: BacktestParameters | null; error: string | null } {
+  const source = body.source ?? BACKTEST_SOURCE.ANALYSIS;
+  if (!isValidBacktestSource(source)) {
+    return { parameters: null, error: `Invalid source: ${source}` };
+  }
+  if (!isDateString(body.startDate) || !isDateString(body.endDate)) {
+    return { parameters: null, error: 'startDate and endDate are required (YYYY-MM-DD)' };
+  }
+  if (body.startDate > body.endDate) {
+    return { parameters: null, error: 'startDate must be on or before endDate' };
+  }
+
+  const holdingDays = Math.round(Number(body.holdingDays ?? DEFAULT_BACKTEST_PARAMETERS.holdingDays));
+  if (!Number.isFinite(holdingDays) || holdingDays < 1 || holdingDays > 252) {
+    return { parameters: null, error: 'holdingDays must be between 1 and 252' };
+  }
+
+  const minConfidence = Number(body.minConfidence ?? DEFAULT_BACKTEST_PARAMETERS.minConfidence);
+  if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 100) {
+    return { parameters: null, error: 'minConfidence must be between 0 and 100' };
+  }
+
+  const positionSizePct = Number(body.positionSizePct ?? DEFAULT_BACKTEST_PARAMETERS.positionSizePct);
+  if (!Number.isFinite(positionSizePct) || positionSizePct <= 0 || positionSizePct > 100) {
+    return { parameters: null, error: 'positionSizePct must be greater than 0 and at most 100' };
+  }
+
+  const benchmark = (body.benchmark || DEFAULT_BACKTEST_PARAMETERS.benchmark).trim().toUpperCase();
+  if (!/^[A-Z0-9./-]+$/.test(benchmark)) {
+    return { parameters: null, error: 'Invalid benchmark symbol' };
+  }
+
+  const tickers = Array.isArray(body.tickers)
+    ? body.tickers.map(t => String(t).trim().toUpperCase()).filter(Boolean)
+    : undefined;
+
+  return {
+    parameters: {
+      source,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      holdingDays,
+      benchmark,
+      minConfidence,
+      positionSizePct,
+      includeSells: body.includeSells ?? DEFAULT_BACKTEST_PARAMETERS.includeSells,
+      tickers: tickers && tickers.length > 0 ? tickers : undefined
+    },
+    error: null
+  };
+}
+
+/**
+ * Last date whose bars are needed: the holding period after the final decision,
+ * padded for weekends and holidays, but never in the future
+ */
+function getPriceWindowEnd(endDate: string, holdingDays: number): string {
+  const end = new Date(`${endDate}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + Math.ceil(holdingDays * 7 / 5) + 10);
+  const today = new Date().toISOString().split('T')[0];
+  const candidate = end.toISOString().split('T')[0];
+  return candidate < today ? candidate : today;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      headers: corsHeaders
+    });
+  }
+
+  const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  let runId: string | null = null;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+
+    if (authError || !userId) {
+      console.error('Authentication failed for run-backtest:', authError);
+      return jsonResponse({ error: authError || 'Authentication failed' }, 401);
+    }
+
+    const body: BacktestRequest = await req.json();
+    const { parameters, error: validationError } = parseParameters(body);
+    if (!parameters) {
+      return jsonResponse({ error: validationError }, 400);
+    }
+
+    const { data: apiSettings, error: settingsError } = await supabaseAdmin
+      .from('api_settings')
+      .select('alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading')
+      .eq('user_id', userId)
+      .single();
+
+    if (settingsError || !apiSettings) {
+      return jsonResponse({ error: 'API settings not found' }, 404);
+    }
+
+    // Market data is the same for paper and live keys, so use whichever pair exists
+    const isPaper = apiSettings.alpaca_paper_trading ?? true;
+    const credentials = isPaper && apiSettings.alpaca_paper_api_key
+      ? { apiKey: apiSettings.alpaca_paper_api_key, secretKey: apiSettings.alpaca_paper_secret_key }
+      : apiSettings.alpaca_live_api_key
+        ? { apiKey: apiSettings.alpaca_live_api_key, secretKey: apiSettings.alpaca_live_secret_key }
+        : { apiKey: apiSettings.alpaca_paper_api_key, secretKey: apiSettings.alpaca_paper_secret_key };
+
+    if (!credentials.apiKey || !credentials.secretKey) {
+      return jsonResponse({ error: 'Alpaca credentials are required to load price history. Please configure them in Settings.' }, 400);
+    }
+
+    const { data: run, error: runError } = await supabaseAdmin
+      .from('backtest_runs')
+      .insert({
+        user_id: userId,
+        name: body.name?.trim() || `${parameters.source === BACKTEST_SOURCE.REBALANCE ? 'Rebalance' : 'Analysis'} backtest ${parameters.startDate} – ${parameters.endDate}`,
+        source: parameters.source,
+        status: BACKTEST_STATUS.RUNNING,
+        parameters
+      })
+      .select('id')
+      .single();
+
+    if (runError || !run) {
+      console.error('❌ Failed to create backtest run:', runError);
+      return jsonResponse({ error: 'Failed to create backtest run' }, 500);
+    }
+    runId = run.id;
+
+    console.log(`🧪 Backtest ${runId}: ${parameters.source} decisions ${parameters.startDate} → ${parameters.endDate}, hold ${parameters.holdingDays}d vs ${parameters.benchmark}`);
+
+    const decisions = await loadBacktestDecisions(supabaseAdmin, userId, parameters);
+    if (decisions.length > MAX_BACKTEST_DECISIONS) {
+      throw new Error(`More than ${MAX_BACKTEST_DECISIONS} decisions in this window. Narrow the date range or filter by ticker.`);
+    }
+
+    const tickers = Array.from(new Set(decisions.map(d => d.ticker)));
+    if (tickers.length > MAX_BACKTEST_TICKERS) {
+      throw new Error(`More than ${MAX_BACKTEST_TICKERS} tickers in this window. Narrow the date range or filter by ticker.`);
+    }
+
+    console.log(`📋 Loaded ${decisions.length} decision(s) across ${tickers.length} ticker(s)`);
+
+    const priceEnd = getPriceWindowEnd(parameters.endDate, parameters.holdingDays);
+    const barsByTicker: Record<string, DailyBar[]> = {};
+    for (const ticker of tickers) {
+      barsByTicker[ticker] = await loadDailyBars(supabaseAdmin, ticker, parameters.startDate, priceEnd, credentials);
+    }
+    const benchmarkBars = barsByTicker[parameters.benchmark]
+      ?? await loadDailyBars(supabaseAdmin, parameters.benchmark, parameters.startDate, priceEnd, credentials);
+
+    const results = runBacktest(decisions, barsByTicker, benchmarkBars, parameters);
+
+    const { error: updateError } = await supabaseAdmin
+      .from('backtest_runs')
+      .update({
+        status: BACKTEST_STATUS.COMPLETED,
+        results,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', runId);
+
+    if (updateError) {
+      console.error('❌ Failed to store backtest results:', updateError);
+    }
+
+    console.log(`✅ Backtest ${runId}: ${results.tradesSimulated} trade(s) simulated, ${results.skipped.length} skipped`);
+
+    return jsonResponse({ success: true, runId, results });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ Backtest failed:', error);
+
+    if (runId) {
+      await supabaseAdmin
+        .from('backtest_runs')
+        .update({
+          status: BACKTEST_STATUS.ERROR,
+          error_message: message,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', runId);
+    }
+
+    return jsonResponse({ error: message, runId }, 500);
+  }
+});
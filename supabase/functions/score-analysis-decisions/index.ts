@@ -0,0 +1,307 @@
+import { serve } from 'https://deno.land/std@0.210.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { ANALYSIS_STATUS } from '../_shared/statusTypes.ts';
+import { getAlpacaCredentials } from '../_shared/marketData.ts';
+import { loadDailyBars, type AlpacaDataCredentials } from '../_shared/dailyBars.ts';
+import type { DailyBar } from '../_shared/backtest.ts';
+import {
+  SCORE_BENCHMARK,
+  SCORE_HORIZON,
+  SCORABLE_DECISIONS,
+  getHorizonMaturityDate,
+  isScorableDecision,
+  scoreDecision,
+  type AnalysisScore,
+  type ScoreInput
+} from '../_shared/decisionScore.ts';
+
+// Long enough for the 3-month horizon to mature, with room for holidays
+const DEFAULT_LOOKBACK_DAYS = 130;
+const MAX_LOOKBACK_DAYS = 730;
+
+// Keep a run within the edge function time limit; later runs pick up the rest
+const MAX_ANALYSES_PER_RUN = 1000;
+const MAX_TICKERS_PER_RUN = 150;
+
+const PAGE_SIZE = 1000;
+const ID_BATCH_SIZE = 200;
+const UPSERT_BATCH_SIZE = 500;
+
+const HORIZONS = Object.values(SCORE_HORIZON);
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+/**
+ * Market data credentials per analysis owner: the service's own Alpaca keys
+ * for everyone when configured, otherwise each owner's own keys. Owners
+ * without keys are left out, so one user's keys never load bars for another.
+ */
+async function resolveDataCredentials(supabase: any, userIds: string[]): Promise<Map<string, AlpacaDataCredentials>> {
+  const credentialsByUser = new Map<string, AlpacaDataCredentials>();
+
+  const envCredentials = getAlpacaCredentials(true) || getAlpacaCredentials(false);
+  if (envCredentials) {
+    const shared = { apiKey: envCredentials.apiKey, secretKey: envCredentials.secretKey };
+    userIds.forEach(userId => credentialsByUser.set(userId, shared));
+    return credentialsByUser;
+  }
+
+  for (let i = 0; i < userIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('api_settings')
+      .select('user_id, alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key')
+      .in('user_id', userIds.slice(i, i + ID_BATCH_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to load API settings: ${error.message}`);
+    }
+
+    for (const settings of data || []) {
+      if (settings.alpaca_paper_api_key && settings.alpaca_paper_secret_key) {
+        credentialsByUser.set(settings.user_id, { apiKey: settings.alpaca_paper_api_key, secretKey: settings.alpaca_paper_secret_key });
+      } else if (settings.alpaca_live_api_key && settings.alpaca_live_secret_key) {
+        credentialsByUser.set(settings.user_id, { apiKey: settings.alpaca_live_api_key, secretKey: settings.alpaca_live_secret_key });
+      }
+    }
+  }
+
+  return credentialsByUser;
+}
+
+/**
+ * Completed analyses with a scorable decision since a timestamp, paged so that
+ * fully scored older rows never crowd out newer ones
+ */
+async function loadCompletedAnalyses(supabase: any, since: string): Promise<any[]> {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('analysis_history')
+      .select('id, user_id, ticker, decision, confidence, created_at')
+      .eq('analysis_status', ANALYSIS_STATUS.COMPLETED)
+      .in('decision', [...SCORABLE_DECISIONS])
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load analyses: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Keys (`analysisId:horizon`) of horizons that already have a score
+ */
+async function loadExistingScoreKeys(supabase: any, analysisIds: string[]): Promise<Set<string>> {
+  const keys = new Set<string>();
+  for (let i = 0; i < analysisIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('analysis_scores')
+      .select('analysis_id, horizon')
+      .in('analysis_id', analysisIds.slice(i, i + ID_BATCH_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to load existing scores: ${error.message}`);
+    }
+    for (const row of data || []) {
+      keys.add(`${row.analysis_id}:${row.horizon}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Edge function that scores completed analyses by forward return versus SPY
+ * Called by pg_cron daily after the US close. Each horizon is scored once, as
+ * soon as it has closed; prices come from market_data_cache when it covers the
+ * window, otherwise from Alpaca with the service keys or the analysis owner's
+ * own keys. Analyses of users without keys wait until keys are available.
+ *
+ * Restricted to internal calls only (service role authentication required)
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Restrict access to internal calls only (pg_cron, service role)
+    const authHeader = req.headers.get('authorization');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (!authHeader) {
+      console.log('❌ No authorization header');
+      return jsonResponse({ error: 'Authorization required' }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (!token.startsWith('eyJ')) {
+      console.log('❌ Not a valid JWT token');
+      return jsonResponse({ error: 'Invalid authorization format' }, 401);
+    }
+
+    try {
+      const parts = token.split('.');
+      if (parts.length !== 3) {
+        throw new Error('Unexpected JWT structure');
+      }
+
+      const payload = JSON.parse(atob(parts[1]));
+      if (payload.role !== 'service_role') {
+        console.log('❌ Not a service role token');
+        return jsonResponse({ error: 'Unauthorized: Service role required' }, 401);
+      }
+    } catch (error) {
+      console.error('Failed to decode JWT:', error);
+      return jsonResponse({ error: 'Invalid JWT token' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Optional { lookbackDays } to backfill older analyses
+    let lookbackDays = DEFAULT_LOOKBACK_DAYS;
+    try {
+      const body = await req.json();
+      const requested = Math.round(Number(body?.lookbackDays));
+      if (Number.isFinite(requested) && requested > 0) {
+        lookbackDays = Math.min(requested, MAX_LOOKBACK_DAYS);
+      }
+    } catch {
+      // No body - use the default window
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - lookbackDays);
+
+    console.log(`📐 Scoring analyses completed since ${since.toISOString().split('T')[0]}`);
+
+    const analyses = await loadCompletedAnalyses(supabase, since.toISOString());
+
+    const candidates: ScoreInput[] = analyses
+      .filter((a: any) => isScorableDecision(a.decision) && a.ticker)
+      .map((a: any) => ({
+        analysisId: a.id,
+        userId: a.user_id,
+        ticker: String(a.ticker).toUpperCase(),
+        decision: a.decision,
+        confidence: Number(a.confidence),
+        decidedAt: a.created_at
+      }));
+
+    const existingKeys = await loadExistingScoreKeys(supabase, candidates.map(c => c.analysisId));
+
+    // Only analyses with at least one horizon that has closed but is not scored yet
+    const awaiting = candidates.filter(c => HORIZONS.some(h =>
+      !existingKeys.has(`${c.analysisId}:${h}`) && getHorizonMaturityDate(c.decidedAt, h) <= today
+    ));
+
+    if (awaiting.length === 0) {
+      console.log('✅ No analyses awaiting scores');
+      return jsonResponse({ success: true, analysesChecked: candidates.length, scoresWritten: 0 });
+    }
+
+    const ownerIds = Array.from(new Set(awaiting.map(c => c.userId)));
+    const credentialsByUser = await resolveDataCredentials(supabase, ownerIds);
+    const skippedOwners = ownerIds.filter(userId => !credentialsByUser.has(userId));
+    if (skippedOwners.length > 0) {
+      console.warn(`⚠️ Skipping ${skippedOwners.length} user(s) without Alpaca credentials`);
+    }
+
+    const pending = awaiting
+      .filter(c => credentialsByUser.has(c.userId))
+      .slice(0, MAX_ANALYSES_PER_RUN);
+
+    if (pending.length === 0) {
+      return jsonResponse({
+        success: true,
+        analysesChecked: candidates.length,
+        usersSkipped: skippedOwners.length,
+        scoresWritten: 0
+      });
+    }
+
+    const tickers = Array.from(new Set(pending.map(c => c.ticker))).slice(0, MAX_TICKERS_PER_RUN);
+    const tickerSet = new Set(tickers);
+    const scorable = pending.filter(c => tickerSet.has(c.ticker));
+
+    console.log(`📋 ${scorable.length} analyses across ${tickers.length} ticker(s) awaiting scores`);
+
+    // Bars are loaded once per set of credentials (a single set when the service keys are configured)
+    const barsByCredentials = new Map<AlpacaDataCredentials, Record<string, DailyBar[]>>();
+    const getBars = async (credentials: AlpacaDataCredentials, symbol: string, startDate: string): Promise<DailyBar[]> => {
+      let bars = barsByCredentials.get(credentials);
+      if (!bars) {
+        bars = {};
+        barsByCredentials.set(credentials, bars);
+      }
+      if (!bars[symbol]) {
+        bars[symbol] = await loadDailyBars(supabase, symbol, startDate, today, credentials);
+      }
+      return bars[symbol];
+    };
+
+    const benchmarkStart = scorable[0].decidedAt.slice(0, 10);
+    const scores: AnalysisScore[] = [];
+    let analysesScored = 0;
+
+    for (const candidate of scorable) {
+      const credentials = credentialsByUser.get(candidate.userId)!;
+
+      const benchmarkBars = await getBars(credentials, SCORE_BENCHMARK, benchmarkStart);
+      if (benchmarkBars.length === 0) {
+        console.warn(`⚠️ No ${SCORE_BENCHMARK} price data available for analysis ${candidate.analysisId}`);
+        continue;
+      }
+
+      const tickerStart = scorable.find(c => c.ticker === candidate.ticker)!.decidedAt.slice(0, 10);
+      const tickerBars = await getBars(credentials, candidate.ticker, tickerStart);
+      analysesScored++;
+
+      for (const horizon of HORIZONS) {
+        if (existingKeys.has(`${candidate.analysisId}:${horizon}`)) continue;
+
+        const score = scoreDecision(candidate, horizon, tickerBars, benchmarkBars);
+        if (score) {
+          scores.push(score);
+        }
+      }
+    }
+
+    for (let i = 0; i < scores.length; i += UPSERT_BATCH_SIZE) {
+      const { error: upsertError } = await supabase
+        .from('analysis_scores')
+        .upsert(
+          scores.slice(i, i + UPSERT_BATCH_SIZE).map(score => ({ ...score, scored_at: new Date().toISOString() })),
+          { onConflict: 'analysis_id,horizon' }
+        );
+
+      if (upsertError) {
+        throw new Error(`Failed to store scores: ${upsertError.message}`);
+      }
+    }
+
+    console.log(`✅ Wrote ${scores.length} score(s) for ${analysesScored} analyses`);
+
+    return jsonResponse({
+      success: true,
+      analysesChecked: candidates.length,
+      analysesScored,
+      usersSkipped: skippedOwners.length,
+      scoresWritten: scores.length
+    });
+  } catch (error) {
+    console.error('❌ Error in score-analysis-decisions:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
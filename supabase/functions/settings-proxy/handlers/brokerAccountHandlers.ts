@@ -0,0 +1,257 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseHelpers.ts';
+import { maskCredential, isMaskedValue } from '../utils/credentialHelpers.ts';
+import { validateApiKey } from '../../_shared/apiValidator.ts';
+import {
+  BROKER,
+  BROKER_LABELS,
+  MAX_BROKER_ACCOUNT_NAME_LENGTH,
+  isValidBroker,
+  pickAccountSettings,
+  type Broker,
+  type BrokerAccount
+} from '../../_shared/brokerAccounts.ts';
+import { createBroker } from '../../_shared/brokers/index.ts';
+
+const BROKER_ACCOUNT_COLUMNS = 'id, name, broker, paper_trading, api_key, secret_key, settings, created_at, updated_at';
+
+function maskAccount(account: any) {
+  return {
+    ...account,
+    api_key: maskCredential(account.api_key),
+    secret_key: maskCredential(account.secret_key),
+    settings: pickAccountSettings(account.settings)
+  };
+}
+
+/**
+ * Resolves a submitted credential against the stored one. Masked values must
+ * match the stored key exactly; an empty value keeps the stored key.
+ */
+function resolveCredential(
+  submitted: any,
+  current: string | null | undefined,
+  label: string
+): { value?: string | null; isNew?: boolean; error?: string } {
+  if (isMaskedValue(submitted)) {
+    if (current && submitted === maskCredential(current)) {
+      return { value: current, isNew: false };
+    }
+    return { error: `Invalid masked ${label} provided. Please enter a new ${label} or leave unchanged.` };
+  }
+  if (submitted) {
+    return { value: String(submitted).trim(), isNew: true };
+  }
+  if (current) {
+    return { value: current, isNew: false };
+  }
+  return { error: `${label} is required` };
+}
+
+/**
+ * Checks the keys against the broker's paper/sandbox or live endpoint.
+ * Returns an error message, or null when the keys work.
+ */
+async function validateBrokerCredentials(
+  broker: Broker,
+  paperTrading: boolean,
+  apiKey: string,
+  secretKey: string
+): Promise<string | null> {
+  const label = BROKER_LABELS[broker];
+
+  if (broker === BROKER.ALPACA) {
+    try {
+      const validation = await validateApiKey(
+        paperTrading ? 'alpaca_paper' : 'alpaca_live',
+        apiKey,
+        undefined,
+        secretKey
+      );
+      return validation.valid ? null : `${label} credential validation failed: ${validation.message}`;
+    } catch (error: any) {
+      console.error(`${label} validation error:`, error);
+      return `${label} credential validation failed: ${error.message}`;
+    }
+  }
+
+  // Other brokers are checked by loading the account balances through their adapter
+  try {
+    await createBroker({}, {
+      broker,
+      paper_trading: paperTrading,
+      api_key: apiKey,
+      secret_key: secretKey
+    } as BrokerAccount).getAccount();
+    return null;
+  } catch (error: any) {
+    console.error(`${label} validation error:`, error);
+    return `${label} credential validation failed: ${error.message}`;
+  }
+}
+
+export async function handleGetBrokerAccounts(supabase: SupabaseClient, userId: string): Promise<Response> {
+  const { data, error } = await supabase
+    .from('portfolios')
+    .select(BROKER_ACCOUNT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching broker accounts:', error);
+    return createSuccessResponse({ accounts: [] });
+  }
+
+  return createSuccessResponse({ accounts: (data || []).map(maskAccount) });
+}
+
+export async function handleSaveBrokerAccount(supabase: SupabaseClient, userId: string, body: any): Promise<Response> {
+  const { account } = body;
+
+  if (!account) {
+    return createErrorResponse('Broker account required');
+  }
+
+  const name = typeof account.name === 'string' ? account.name.trim() : '';
+  if (!name) {
+    return createErrorResponse('Account name is required');
+  }
+  if (name.length > MAX_BROKER_ACCOUNT_NAME_LENGTH) {
+    return createErrorResponse(`Account name must be ${MAX_BROKER_ACCOUNT_NAME_LENGTH} characters or fewer`);
+  }
+
+  const broker: Broker = account.broker ?? BROKER.ALPACA;
+  if (!isValidBroker(broker)) {
+    return createErrorResponse(`Unsupported broker: ${account.broker}`);
+  }
+
+  // Get current account if updating
+  let currentAccount: any = null;
+  if (account.id) {
+    const { data } = await supabase
+      .from('portfolios')
+      .select(BROKER_ACCOUNT_COLUMNS)
+      .eq('id', account.id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!data) {
+      return createErrorResponse('Broker account not found', 404);
+    }
+    currentAccount = data;
+  }
+
+  // Keys belong to one broker - switching brokers needs fresh ones
+  const switchedBroker = !!currentAccount && currentAccount.broker !== broker;
+  const keyLabels = broker === BROKER.TRADIER
+    ? { apiKey: 'access token', secretKey: 'account number' }
+    : { apiKey: 'API key', secretKey: 'secret key' };
+
+  // Simulated accounts have no keys and are always paper
+  const isSimulated = broker === BROKER.SIMULATED;
+  const apiKey: ReturnType<typeof resolveCredential> = isSimulated
+    ? { value: null }
+    : resolveCredential(account.api_key, switchedBroker ? null : currentAccount?.api_key, keyLabels.apiKey);
+  if (apiKey.error) return createErrorResponse(apiKey.error);
+  const secretKey: ReturnType<typeof resolveCredential> = isSimulated
+    ? { value: null }
+    : resolveCredential(account.secret_key, switchedBroker ? null : currentAccount?.secret_key, keyLabels.secretKey);
+  if (secretKey.error) return createErrorResponse(secretKey.error);
+
+  const paperTrading = isSimulated || account.paper_trading !== false;
+  const switchedMode = !!currentAccount && currentAccount.paper_trading !== paperTrading;
+
+  // Validate against the paper or live endpoint whenever the keys, broker or mode change
+  if (!isSimulated && (apiKey.isNew || secretKey.isNew || switchedMode || switchedBroker)) {
+    const validationError = await validateBrokerCredentials(broker, paperTrading, apiKey.value!, secretKey.value!);
+    if (validationError) {
+      return createErrorResponse(validationError);
+    }
+  }
+
+  const accountData = {
+    user_id: userId,
+    name,
+    broker,
+    paper_trading: paperTrading,
+    api_key: apiKey.value,
+    secret_key: secretKey.value,
+    settings: account.settings !== undefined
+      ? pickAccountSettings(account.settings)
+      : pickAccountSettings(currentAccount?.settings),
+    updated_at: new Date().toISOString()
+  };
+
+  let result;
+  if (currentAccount) {
+    const { data, error } = await supabase
+      .from('portfolios')
+      .update(accountData)
+      .eq('id', currentAccount.id)
+      .eq('user_id', userId)
+      .select(BROKER_ACCOUNT_COLUMNS)
+      .single();
+    result = { data, error };
+  } else {
+    const { data, error } = await supabase
+      .from('portfolios')
+      .insert(accountData)
+      .select(BROKER_ACCOUNT_COLUMNS)
+      .single();
+    result = { data, error };
+  }
+
+  if (result.error) {
+    console.error('Error saving broker account:', result.error);
+    return createErrorResponse(result.error.message);
+  }
+
+  return createSuccessResponse({ success: true, account: maskAccount(result.data) });
+}
+
+export async function handleDeleteBrokerAccount(supabase: SupabaseClient, userId: string, body: any): Promise<Response> {
+  const { accountId } = body;
+
+  if (!accountId) {
+    return createErrorResponse('Broker account id required');
+  }
+
+  // Watchlist, schedules, orders and rebalances cascade; analyses keep their history with a null account
+  const { data, error } = await supabase
+    .from('portfolios')
+    .delete()
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting broker account:', error);
+    return createErrorResponse(error.message);
+  }
+  if (!data || data.length === 0) {
+    return createErrorResponse('Broker account not found', 404);
+  }
+
+  return createSuccessResponse({ success: true });
+}
+
+/**
+ * Clears a simulated account's cash, positions and orders. The ledger is
+ * reopened with the configured starting cash on its next use.
+ */
+export async function handleResetSimulatedAccount(supabase: SupabaseClient, userId: string, body: any): Promise<Response> {
+  const portfolioId: string | null = body.portfolioId ?? null;
+
+  const query = supabase
+    .from('simulated_accounts')
+    .delete()
+    .eq('user_id', userId);
+  const { error } = await (portfolioId ? query.eq('portfolio_id', portfolioId) : query.is('portfolio_id', null));
+
+  if (error) {
+    console.error('Error resetting simulated account:', error);
+    return createErrorResponse(error.message);
+  }
+
+  return createSuccessResponse({ success: true });
+}
@@ -3,6 +3,7 @@ import { createSuccessResponse, createErrorResponse } from '../utils/responseHel
 import { maskCredential, isMaskedValue } from '../utils/credentialHelpers.ts';
 import { getUserProviderConfigurations } from '../utils/dbHelpers.ts';
 import { validateApiKey } from '../../_shared/apiValidator.ts';
+import { normalizeOpenAICompatibleBaseUrl } from '../../_shared/aiProviders.ts';
 
 export async function handleGetProviderConfigurations(supabase: SupabaseClient, userId: string): Promise<Response> {
   const { configurations, error } = await getUserProviderConfigurations(supabase, userId);
@@ -71,10 +72,19 @@ export async function handleSaveProviderConfiguration(supabase: SupabaseClient,
     return createErrorResponse('API key is required');
   }
 
+  // Self-hosted providers need a base URL; re-validate when it changes even if the key is unchanged
+  const baseUrl = provider.provider === 'openai-compatible'
+    ? normalizeOpenAICompatibleBaseUrl(provider.base_url)
+    : null;
+  if (provider.provider === 'openai-compatible' && !baseUrl) {
+    return createErrorResponse('Base URL is required for OpenAI-compatible providers');
+  }
+  const isNewBaseUrl = !!baseUrl && baseUrl !== currentConfig?.base_url;
+
   // Validate new API keys before saving
-  if (isNewApiKey && finalApiKey) {
+  if ((isNewApiKey || isNewBaseUrl) && finalApiKey) {
     try {
-      const validation = await validateApiKey(provider.provider, finalApiKey);
+      const validation = await validateApiKey(provider.provider, finalApiKey, undefined, undefined, baseUrl || undefined);
       if (!validation.valid) {
         return createErrorResponse(`API key validation failed: ${validation.message}`);
       }
@@ -90,6 +100,7 @@ export async function handleSaveProviderConfiguration(supabase: SupabaseClient,
     nickname: provider.nickname,
     provider: provider.provider,
     api_key: finalApiKey,
+    base_url: baseUrl,
     is_default: provider.is_default || false,
     updated_at: new Date().toISOString()
   };
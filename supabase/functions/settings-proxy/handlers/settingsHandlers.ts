@@ -115,8 +115,11 @@ export async function handleUpdateSettings(supabase: SupabaseClient, userId: str
 
       // Validate the API key if we identified the provider
       if (provider && !provider.includes('alpaca')) {
+        const baseUrl = provider === 'openai-compatible'
+          ? cleanedSettings.ai_base_url ?? currentSettings?.ai_base_url
+          : undefined;
         try {
-          const validation = await validateApiKey(provider, value);
+          const validation = await validateApiKey(provider, value, undefined, undefined, baseUrl);
           if (!validation.valid) {
             return createErrorResponse(`${provider} API key validation failed: ${validation.message}`);
           }
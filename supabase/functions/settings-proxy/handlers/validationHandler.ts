@@ -2,7 +2,7 @@ import { validateApiKey } from '../../_shared/apiValidator.ts';
 import { createSuccessResponse, createJsonResponse } from '../utils/responseHelpers.ts';
 
 export async function handleValidation(body: any): Promise<Response> {
-  const { provider, apiKey, model, secretKey } = body;
+  const { provider, apiKey, model, secretKey, baseUrl } = body;
   
   if (!provider || !apiKey) {
     return createJsonResponse({ 
@@ -12,8 +12,8 @@ export async function handleValidation(body: any): Promise<Response> {
   }
 
   try {
-    // Use real API validation (pass secretKey for Alpaca providers)
-    const result = await validateApiKey(provider, apiKey, model, secretKey);
+    // Use real API validation (pass secretKey for Alpaca providers, baseUrl for openai-compatible servers)
+    const result = await validateApiKey(provider, apiKey, model, secretKey, baseUrl);
     return createSuccessResponse(result);
   } catch (error: any) {
     console.error('Validation error:', error);
@@ -7,6 +7,12 @@ import { handleValidation } from './handlers/validationHandler.ts';
 import { handleCheckConfigured, handleGetSettings, handleUpdateSettings } from './handlers/settingsHandlers.ts';
 import { handleGetProviderConfigurations, handleSaveProviderConfiguration } from './handlers/providerHandlers.ts';
 import { handleCheckCredentialsChanged } from './handlers/credentialHandlers.ts';
+import {
+  handleGetBrokerAccounts,
+  handleSaveBrokerAccount,
+  handleDeleteBrokerAccount,
+  handleResetSimulatedAccount
+} from './handlers/brokerAccountHandlers.ts';
 
 // Import utilities
 import { createErrorResponse } from './utils/responseHelpers.ts';
@@ -53,6 +59,18 @@ Deno.serve(async (req) => {
       case 'save_provider_configuration':
         return await handleSaveProviderConfiguration(supabase, userId, body);
 
+      case 'get_broker_accounts':
+        return await handleGetBrokerAccounts(supabase, userId);
+
+      case 'save_broker_account':
+        return await handleSaveBrokerAccount(supabase, userId, body);
+
+      case 'delete_broker_account':
+        return await handleDeleteBrokerAccount(supabase, userId, body);
+
+      case 'reset_simulated_account':
+        return await handleResetSimulatedAccount(supabase, userId, body);
+
       case 'update_settings':
         return await handleUpdateSettings(supabase, userId, body);
 
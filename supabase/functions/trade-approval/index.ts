@@ -0,0 +1,178 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { corsHeaders } from '../_shared/cors.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { TRADE_ORDER_STATUS } from '../_shared/statusTypes.ts';
+import type { LatestQuote } from '../_shared/marketData.ts';
+import {
+  MAX_APPROVAL_PRICE_DRIFT_PERCENT,
+  TRADE_APPROVAL_ACTION,
+  TRADE_APPROVAL_INVALIDATION,
+  computePriceDriftPercent,
+  consumeTradeApprovalLink,
+  getQuotePrice,
+  isPriceDriftExceeded,
+  loadApprovalQuote,
+  loadTradeApprovalLink,
+  type TradeApprovalLink
+} from '../_shared/tradeApproval.ts';
+
+/**
+ * Redeems one-click approve/reject links from notifications.
+ * The signed token is the only credential, so this function is deployed
+ * without JWT verification. "preview" shows the order against the current
+ * quote; "confirm" consumes the link and runs the same execute-trade path as
+ * the in-app approve/reject buttons.
+ */
+
+interface TradeApprovalRequest {
+  token?: string;
+  action?: 'preview' | 'confirm';
+}
+
+interface ApprovalCheck {
+  order: any;
+  quote: LatestQuote | null;
+  currentPrice: number | null;
+  driftPercent: number | null;
+}
+
+/**
+ * Checks the order is still pending and, for approvals, that the price has not
+ * drifted. Invalidates the link pair when either check fails for good.
+ */
+async function checkLink(
+  supabase: any,
+  link: TradeApprovalLink
+): Promise<{ check: ApprovalCheck | null; error: string | null }> {
+  const { data: order, error: orderError } = await supabase
+    .from('trading_actions')
+    .select('id, ticker, action, shares, dollar_amount, price, status, order_type, limit_price, stop_price, portfolio_id, created_at')
+    .eq('id', link.trade_action_id)
+    .eq('user_id', link.user_id)
+    .maybeSingle();
+
+  if (orderError || !order) {
+    return { check: null, error: 'Trade order not found' };
+  }
+
+  if (order.status !== TRADE_ORDER_STATUS.PENDING) {
+    await consumeTradeApprovalLink(supabase, link, TRADE_APPROVAL_INVALIDATION.ORDER_NOT_PENDING);
+    return { check: null, error: `This order has already been ${order.status}` };
+  }
+
+  const quote = await loadApprovalQuote(supabase, link.user_id, order.ticker, order.portfolio_id);
+  const currentPrice = getQuotePrice(quote);
+  const referencePrice = link.reference_price !== null ? Number(link.reference_price) : null;
+  const driftPercent = computePriceDriftPercent(referencePrice, currentPrice);
+
+  if (link.action === TRADE_APPROVAL_ACTION.APPROVE) {
+    // Without a reference price the drift guard cannot run
+    if (!referencePrice || referencePrice <= 0) {
+      return { check: null, error: 'This link has no reference price to check the current price against. Please approve the order in the app.' };
+    }
+    if (currentPrice === null) {
+      return { check: null, error: 'Unable to fetch a current quote. Please approve the order in the app.' };
+    }
+    if (isPriceDriftExceeded(driftPercent)) {
+      await consumeTradeApprovalLink(supabase, link, TRADE_APPROVAL_INVALIDATION.PRICE_DRIFT);
+      return {
+        check: null,
+        error: `The price moved ${driftPercent!.toFixed(2)}% since the order was created (limit ${MAX_APPROVAL_PRICE_DRIFT_PERCENT}%). Please review the order in the app.`
+      };
+    }
+  }
+
+  return { check: { order, quote, currentPrice, driftPercent }, error: null };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { token, action = 'preview' } = await req.json() as TradeApprovalRequest;
+    if (!token) {
+      return createErrorResponse('token is required');
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { link, error: linkError } = await loadTradeApprovalLink(supabaseAdmin, token);
+    if (!link) {
+      return createErrorResponse(linkError || 'Invalid approval link');
+    }
+
+    const { check, error: checkError } = await checkLink(supabaseAdmin, link);
+    if (!check) {
+      return createErrorResponse(checkError || 'This link is no longer valid');
+    }
+
+    const preview = {
+      linkAction: link.action,
+      expiresAt: link.expires_at,
+      maxDriftPercent: MAX_APPROVAL_PRICE_DRIFT_PERCENT,
+      referencePrice: link.reference_price !== null ? Number(link.reference_price) : null,
+      currentPrice: check.currentPrice,
+      driftPercent: check.driftPercent,
+      quote: check.quote,
+      order: {
+        id: check.order.id,
+        ticker: check.order.ticker,
+        action: check.order.action,
+        shares: Number(check.order.shares) || 0,
+        dollarAmount: Number(check.order.dollar_amount) || 0,
+        orderType: check.order.order_type,
+        limitPrice: check.order.limit_price !== null ? Number(check.order.limit_price) : null,
+        stopPrice: check.order.stop_price !== null ? Number(check.order.stop_price) : null,
+        createdAt: check.order.created_at
+      }
+    };
+
+    if (action === 'preview') {
+      return createSuccessResponse({ preview });
+    }
+
+    if (action !== 'confirm') {
+      return createErrorResponse(`Unknown action: ${action}`);
+    }
+
+    const claimed = await consumeTradeApprovalLink(supabaseAdmin, link);
+    if (!claimed) {
+      return createErrorResponse('This link has already been used');
+    }
+
+    console.log(`🔗 Approval link ${link.id}: ${link.action} order ${link.trade_action_id} for user ${link.user_id}`);
+
+    // Same path as the in-app buttons, authenticated as a server call
+    const response = await supabaseAdmin.functions.invoke('execute-trade', {
+      body: {
+        tradeActionId: link.trade_action_id,
+        action: link.action,
+        userId: link.user_id,
+        isServerCall: true
+      }
+    });
+
+    if (response.error || !response.data?.success) {
+      const message = response.data?.error || response.error?.message || 'Unknown error';
+      console.error(`❌ execute-trade failed for approval link ${link.id}:`, message);
+      return createErrorResponse(`Failed to ${link.action} order: ${message}`, 200, { preview });
+    }
+
+    return createSuccessResponse({
+      preview,
+      message: link.action === TRADE_APPROVAL_ACTION.APPROVE
+        ? `${preview.order.action} order for ${preview.order.ticker} submitted`
+        : `${preview.order.action} order for ${preview.order.ticker} rejected`,
+      result: response.data
+    });
+  } catch (error: any) {
+    console.error('Trade approval error:', error);
+    return createErrorResponse(error.message || 'Internal server error');
+  }
+});
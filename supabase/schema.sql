@@ -1220,6 +1220,93 @@ $$;
 ALTER FUNCTION "public"."extract_discord_id_from_identity"() OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."fill_simulated_order"("p_order_id" "uuid", "p_fill_price" numeric, "p_commission" numeric DEFAULT 0) RETURNS "jsonb"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    AS $$
+DECLARE
+    v_order simulated_orders%ROWTYPE;
+    v_account simulated_accounts%ROWTYPE;
+    v_position simulated_positions%ROWTYPE;
+    v_qty NUMERIC;
+    v_value NUMERIC;
+    v_commission NUMERIC := COALESCE(p_commission, 0);
+    v_reason TEXT;
+BEGIN
+    SELECT * INTO v_order FROM simulated_orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Simulated order % not found', p_order_id;
+    END IF;
+
+    -- Another request already filled, canceled or rejected it
+    IF v_order.status <> 'new' THEN
+        RETURN to_jsonb(v_order);
+    END IF;
+
+    SELECT * INTO v_account FROM simulated_accounts WHERE id = v_order.account_id FOR UPDATE;
+    SELECT * INTO v_position FROM simulated_positions
+    WHERE account_id = v_order.account_id AND symbol = v_order.symbol
+    FOR UPDATE;
+
+    v_qty := COALESCE(v_order.qty, ROUND(v_order.notional / p_fill_price, 9));
+    v_value := v_qty * p_fill_price;
+
+    IF p_fill_price IS NULL OR p_fill_price <= 0 THEN
+        v_reason := 'No price to fill at';
+    ELSIF v_qty <= 0 THEN
+        v_reason := 'Order quantity rounds to zero';
+    ELSIF v_order.side = 'buy' AND v_value + v_commission > v_account.cash THEN
+        v_reason := format('Insufficient cash: order needs %s, account has %s', ROUND(v_value + v_commission, 2), ROUND(v_account.cash, 2));
+    ELSIF v_order.side = 'sell' AND COALESCE(v_position.qty, 0) < v_qty THEN
+        v_reason := format('Insufficient position: selling %s %s, account holds %s', v_qty, v_order.symbol, COALESCE(v_position.qty, 0));
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+        UPDATE simulated_orders
+        SET status = 'rejected', reject_reason = v_reason
+        WHERE id = p_order_id
+        RETURNING * INTO v_order;
+        RETURN to_jsonb(v_order);
+    END IF;
+
+    IF v_order.side = 'buy' THEN
+        UPDATE simulated_accounts SET cash = cash - v_value - v_commission WHERE id = v_account.id;
+
+        INSERT INTO simulated_positions (account_id, user_id, symbol, qty, avg_entry_price)
+        VALUES (v_account.id, v_account.user_id, v_order.symbol, v_qty, p_fill_price)
+        ON CONFLICT (account_id, symbol) DO UPDATE
+        SET avg_entry_price = (simulated_positions.qty * simulated_positions.avg_entry_price + EXCLUDED.qty * EXCLUDED.avg_entry_price)
+                / (simulated_positions.qty + EXCLUDED.qty),
+            qty = simulated_positions.qty + EXCLUDED.qty;
+    ELSE
+        UPDATE simulated_accounts SET cash = cash + v_value - v_commission WHERE id = v_account.id;
+
+        IF v_position.qty - v_qty <= 0 THEN
+            DELETE FROM simulated_positions WHERE id = v_position.id;
+        ELSE
+            UPDATE simulated_positions SET qty = qty - v_qty WHERE id = v_position.id;
+        END IF;
+    END IF;
+
+    UPDATE simulated_orders
+    SET status = 'filled',
+        filled_qty = v_qty,
+        filled_avg_price = p_fill_price,
+        commission = v_commission,
+        filled_at = now()
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+
+    RETURN to_jsonb(v_order);
+END;
+$$;
+
+
+ALTER FUNCTION "public"."fill_simulated_order"("p_order_id" "uuid", "p_fill_price" numeric, "p_commission" numeric) OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."fill_simulated_order"("p_order_id" "uuid", "p_fill_price" numeric, "p_commission" numeric) IS 'Fills an open simulated order at the given price in one transaction: moves cash, updates the position and marks the order filled, or rejects it when cash or shares are short';
+
+
 CREATE OR REPLACE FUNCTION "public"."force_assign_admin_to_first_user"() RETURNS "jsonb"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO 'public'
@@ -1364,6 +1451,27 @@ $_$;
 ALTER FUNCTION "public"."get_admin_role"("user_id" "uuid") OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."get_ai_usage_summary"("p_user_id" "uuid", "p_since" timestamp with time zone) RETURNS TABLE("cost_usd" numeric, "total_tokens" bigint, "calls" bigint)
+    LANGUAGE "sql" STABLE
+    SET "search_path" TO 'public'
+    AS $$
+  SELECT
+    COALESCE(SUM(e.cost_usd), 0)::numeric AS cost_usd,
+    COALESCE(SUM(e.total_tokens), 0)::bigint AS total_tokens,
+    COUNT(*)::bigint AS calls
+  FROM public.ai_usage_events e
+  WHERE e.user_id = p_user_id
+    AND e.created_at >= p_since;
+$$;
+
+
+ALTER FUNCTION "public"."get_ai_usage_summary"("p_user_id" "uuid", "p_since" timestamp with time zone) OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."get_ai_usage_summary"("p_user_id" "uuid", "p_since" timestamp with time zone) IS 'AI spend and tokens recorded for a user since the given time; used to enforce the AI budget. Runs with the caller''s rights so users only see their own usage';
+
+
+
 CREATE OR REPLACE FUNCTION "public"."get_earliest_user"() RETURNS "uuid"
     LANGUAGE "plpgsql" SECURITY DEFINER
     AS $$
@@ -1504,7 +1612,7 @@ $$;
 ALTER FUNCTION "public"."get_role_pricing"("p_role_name" "text") OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."get_upcoming_schedules"("p_minutes_ahead" integer DEFAULT 35) RETURNS TABLE("schedule_id" "uuid", "user_id" "uuid", "selected_tickers" "text"[], "include_watchlist" boolean, "interval_value" integer, "interval_unit" "text", "time_of_day" time without time zone, "timezone" "text", "last_executed_at" timestamp with time zone, "next_scheduled_at" timestamp with time zone, "rebalance_threshold" numeric, "skip_threshold_check" boolean, "skip_opportunity_agent" boolean, "resolved_tickers" "text"[], "resolved_constraints" "jsonb")
+CREATE OR REPLACE FUNCTION "public"."get_upcoming_schedules"("p_minutes_ahead" integer DEFAULT 35) RETURNS TABLE("schedule_id" "uuid", "user_id" "uuid", "selected_tickers" "text"[], "include_watchlist" boolean, "interval_value" integer, "interval_unit" "text", "time_of_day" time without time zone, "timezone" "text", "last_executed_at" timestamp with time zone, "next_scheduled_at" timestamp with time zone, "rebalance_threshold" numeric, "skip_threshold_check" boolean, "skip_opportunity_agent" boolean, "resolved_tickers" "text"[], "resolved_constraints" "jsonb", "portfolio_id" "uuid")
     LANGUAGE "plpgsql" SECURITY DEFINER
     AS $$
 declare
@@ -1555,7 +1663,8 @@ begin
             s.skip_threshold_check,
             s.skip_opportunity_agent,
             s.resolved_tickers,
-            s.resolved_constraints
+            s.resolved_constraints,
+            s.portfolio_id
         from rebalance_schedules s
         where s.enabled = true
         order by s.created_at
@@ -1691,7 +1800,8 @@ begin
             select coalesce(array_agg(distinct ticker), '{}')
             into v_watchlist_tickers
             from watchlist w
-            where w.user_id = v_schedule.user_id;
+            where w.user_id = v_schedule.user_id
+              and w.portfolio_id is not distinct from v_schedule.portfolio_id;
 
             v_final_tickers := coalesce(v_watchlist_tickers, '{}');
         end if;
@@ -1723,7 +1833,8 @@ begin
                     'skipOpportunityAgent', v_schedule.skip_opportunity_agent,
                     'scheduledExecution', true
                 )
-            );
+            ),
+            v_schedule.portfolio_id;
     end loop;
 end;
 $$;
@@ -1756,6 +1867,32 @@ $$;
 ALTER FUNCTION "public"."get_user_by_stripe_customer"("p_customer_id" "text") OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."get_user_max_custom_analysts"("p_user_id" "uuid") RETURNS integer
+    LANGUAGE "plpgsql" STABLE SECURITY DEFINER
+    AS $$
+DECLARE
+    v_max_analysts INTEGER;
+BEGIN
+    -- Get the highest max_custom_analysts from user's active roles
+    SELECT COALESCE(MAX(rl.max_custom_analysts), 0)
+    INTO v_max_analysts
+    FROM public.user_roles ur
+    JOIN public.role_limits rl ON rl.role_id = ur.role_id
+    WHERE ur.user_id = p_user_id
+    AND ur.is_active = true;
+
+    RETURN GREATEST(COALESCE(v_max_analysts, 0), 0);
+END;
+$$;
+
+
+ALTER FUNCTION "public"."get_user_max_custom_analysts"("p_user_id" "uuid") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."get_user_max_custom_analysts"("p_user_id" "uuid") IS 'Returns the maximum number of custom analysts a user may define and run based on their active roles. Returns 0 if no active roles found.';
+
+
+
 CREATE OR REPLACE FUNCTION "public"."get_user_max_debate_rounds"("p_user_id" "uuid") RETURNS integer
     LANGUAGE "plpgsql" STABLE SECURITY DEFINER
     AS $$
@@ -2485,6 +2622,38 @@ The next run time is calculated dynamically based on last_executed_at + frequenc
 
 
 
+CREATE OR REPLACE FUNCTION "public"."mark_schedule_skipped"("p_schedule_id" "uuid", "p_reason" "text", "p_details" "jsonb" DEFAULT NULL::"jsonb") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    AS $$
+BEGIN
+    -- A skipped run still counts as this interval's run so the schedule waits for its next slot
+    UPDATE rebalance_schedules
+    SET 
+        last_executed_at = NOW(),
+        last_execution_status = 'cancelled',
+        last_execution_details = jsonb_build_object(
+            'executed_at', NOW(),
+            'success', false,
+            'skipped', true,
+            'reason', p_reason,
+            'method', 'pg_cron'
+        ) || COALESCE(p_details, '{}'::jsonb),
+        updated_at = NOW()
+    WHERE id = p_schedule_id;
+    
+    RETURN FOUND;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."mark_schedule_skipped"("p_schedule_id" "uuid", "p_reason" "text", "p_details" "jsonb") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."mark_schedule_skipped"("p_schedule_id" "uuid", "p_reason" "text", "p_details" "jsonb") IS 'Records a scheduled run that was skipped without starting a rebalance (for example because the AI budget is exhausted).
+p_details is merged into last_execution_details.';
+
+
+
 CREATE OR REPLACE FUNCTION "public"."notify_discord_role_change"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     AS $$
@@ -2559,6 +2728,73 @@ $$;
 ALTER FUNCTION "public"."process_new_users"() OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_agent_name" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_cached_tokens" integer DEFAULT 0, "p_latency_ms" integer DEFAULT NULL::integer, "p_cost_usd" numeric DEFAULT NULL::numeric, "p_estimated" boolean DEFAULT false, "p_analysis_id" "uuid" DEFAULT NULL::"uuid", "p_rebalance_request_id" "uuid" DEFAULT NULL::"uuid") RETURNS "uuid"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    AS $$
+DECLARE
+    v_event_id UUID;
+    v_rebalance_id UUID := p_rebalance_request_id;
+    v_delta JSONB;
+BEGIN
+    -- Analyses started by a rebalance also count toward the rebalance total
+    IF v_rebalance_id IS NULL AND p_analysis_id IS NOT NULL THEN
+        SELECT rebalance_request_id INTO v_rebalance_id
+        FROM analysis_history
+        WHERE id = p_analysis_id;
+    END IF;
+
+    INSERT INTO ai_usage_events (
+        user_id, analysis_id, rebalance_request_id, agent_name, provider, model,
+        prompt_tokens, completion_tokens, cached_tokens, total_tokens,
+        latency_ms, cost_usd, is_estimated
+    ) VALUES (
+        p_user_id, p_analysis_id, v_rebalance_id, p_agent_name, p_provider, p_model,
+        COALESCE(p_prompt_tokens, 0), COALESCE(p_completion_tokens, 0), COALESCE(p_cached_tokens, 0),
+        COALESCE(p_prompt_tokens, 0) + COALESCE(p_completion_tokens, 0),
+        p_latency_ms, p_cost_usd, COALESCE(p_estimated, false)
+    )
+    RETURNING id INTO v_event_id;
+
+    v_delta := jsonb_build_object(
+        'prompt_tokens', COALESCE(p_prompt_tokens, 0),
+        'completion_tokens', COALESCE(p_completion_tokens, 0),
+        'cached_tokens', COALESCE(p_cached_tokens, 0),
+        'total_tokens', COALESCE(p_prompt_tokens, 0) + COALESCE(p_completion_tokens, 0),
+        'cost_usd', COALESCE(p_cost_usd, 0),
+        'latency_ms', COALESCE(p_latency_ms, 0),
+        'calls', 1
+    );
+
+    -- Roll up in a single UPDATE so concurrent agents do not lose increments
+    IF p_analysis_id IS NOT NULL THEN
+        UPDATE analysis_history ah
+        SET ai_usage = (
+            SELECT jsonb_object_agg(d.key, COALESCE((ah.ai_usage ->> d.key)::numeric, 0) + d.value::numeric)
+            FROM jsonb_each_text(v_delta) d
+        ) || jsonb_build_object('updated_at', now())
+        WHERE ah.id = p_analysis_id;
+    END IF;
+
+    IF v_rebalance_id IS NOT NULL THEN
+        UPDATE rebalance_requests rr
+        SET ai_usage = (
+            SELECT jsonb_object_agg(d.key, COALESCE((rr.ai_usage ->> d.key)::numeric, 0) + d.value::numeric)
+            FROM jsonb_each_text(v_delta) d
+        ) || jsonb_build_object('updated_at', now())
+        WHERE rr.id = v_rebalance_id;
+    END IF;
+
+    RETURN v_event_id;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_agent_name" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_cached_tokens" integer, "p_latency_ms" integer, "p_cost_usd" numeric, "p_estimated" boolean, "p_analysis_id" "uuid", "p_rebalance_request_id" "uuid") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_agent_name" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_cached_tokens" integer, "p_latency_ms" integer, "p_cost_usd" numeric, "p_estimated" boolean, "p_analysis_id" "uuid", "p_rebalance_request_id" "uuid") IS 'Stores one AI provider call in ai_usage_events and adds it to the analysis_history and rebalance_requests ai_usage roll-ups';
+
+
 CREATE OR REPLACE FUNCTION "public"."refresh_admin_users"() RETURNS "void"
     LANGUAGE "plpgsql" SECURITY DEFINER
     AS $$
@@ -3203,6 +3439,25 @@ BEGIN
             RAISE EXCEPTION 'Trade order cannot specify both shares and dollar amount';
         END IF;
     END IF;
+
+    -- Ensure the prices required by the order type are present
+    IF NEW.order_type IN ('limit', 'stop_limit') AND (NEW.limit_price IS NULL OR NEW.limit_price <= 0) THEN
+        RAISE EXCEPTION '% orders require a positive limit_price', NEW.order_type;
+    END IF;
+
+    IF NEW.order_type IN ('stop', 'stop_limit') AND (NEW.stop_price IS NULL OR NEW.stop_price <= 0) THEN
+        RAISE EXCEPTION '% orders require a positive stop_price', NEW.order_type;
+    END IF;
+
+    IF NEW.order_type = 'trailing_stop' THEN
+        IF (NEW.trail_percent IS NULL OR NEW.trail_percent <= 0) AND (NEW.trail_price IS NULL OR NEW.trail_price <= 0) THEN
+            RAISE EXCEPTION 'trailing_stop orders require trail_percent or trail_price';
+        END IF;
+
+        IF NEW.trail_percent > 0 AND NEW.trail_price > 0 THEN
+            RAISE EXCEPTION 'trailing_stop orders cannot specify both trail_percent and trail_price';
+        END IF;
+    END IF;
     
     -- Validate metadata structure if provided
     IF NEW.metadata IS NOT NULL AND NEW.metadata != '{}'::jsonb THEN
@@ -3445,6 +3700,40 @@ CREATE MATERIALIZED VIEW "public"."admin_users" AS
 ALTER MATERIALIZED VIEW "public"."admin_users" OWNER TO "postgres";
 
 
+CREATE TABLE IF NOT EXISTS "public"."ai_usage_events" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "analysis_id" "uuid",
+    "rebalance_request_id" "uuid",
+    "agent_name" "text" NOT NULL,
+    "provider" "text" NOT NULL,
+    "model" "text" NOT NULL,
+    "prompt_tokens" integer DEFAULT 0 NOT NULL,
+    "completion_tokens" integer DEFAULT 0 NOT NULL,
+    "cached_tokens" integer DEFAULT 0 NOT NULL,
+    "total_tokens" integer DEFAULT 0 NOT NULL,
+    "latency_ms" integer,
+    "cost_usd" numeric(12,6),
+    "is_estimated" boolean DEFAULT false NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+
+ALTER TABLE "public"."ai_usage_events" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."ai_usage_events" IS 'Token usage of each AI provider call made by an agent, written by record_ai_usage';
+
+
+
+COMMENT ON COLUMN "public"."ai_usage_events"."cost_usd" IS 'Estimated cost at the time of the call from the model price table (api_settings.ai_model_prices over built-in defaults); NULL when the model has no known price';
+
+
+
+COMMENT ON COLUMN "public"."ai_usage_events"."is_estimated" IS 'TRUE when the provider did not report token counts and they were estimated from the text length';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."analysis_history" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -3461,6 +3750,8 @@ CREATE TABLE IF NOT EXISTS "public"."analysis_history" (
     "analysis_context" "jsonb",
     "analysis_status" "text" DEFAULT 'pending'::"text",
     "metadata" "jsonb" DEFAULT '{}'::"jsonb",
+    "ai_usage" "jsonb",
+    "portfolio_id" "uuid",
     CONSTRAINT "analysis_history_confidence_check" CHECK ((("confidence" >= (0)::numeric) AND ("confidence" <= (100)::numeric))),
     CONSTRAINT "analysis_history_decision_check" CHECK (("decision" = ANY (ARRAY['BUY'::"text", 'SELL'::"text", 'HOLD'::"text", 'PENDING'::"text"]))),
     CONSTRAINT "analysis_history_status_check" CHECK (("analysis_status" = ANY (ARRAY['pending'::"text", 'running'::"text", 'completed'::"text", 'error'::"text", 'cancelled'::"text"])))
@@ -3482,6 +3773,14 @@ COMMENT ON COLUMN "public"."analysis_history"."metadata" IS 'Stores metadata abo
 
 
 
+COMMENT ON COLUMN "public"."analysis_history"."ai_usage" IS 'AI usage totals for the analysis (prompt_tokens, completion_tokens, cached_tokens, total_tokens, cost_usd, latency_ms, calls), maintained by record_ai_usage';
+
+
+
+COMMENT ON COLUMN "public"."analysis_history"."portfolio_id" IS 'Broker account the analysis ran against; NULL is the main account in api_settings';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."analysis_messages" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "analysis_id" "uuid" NOT NULL,
@@ -3501,6 +3800,48 @@ COMMENT ON COLUMN "public"."analysis_messages"."metadata" IS 'Additional metadat
 
 
 
+CREATE TABLE IF NOT EXISTS "public"."analysis_scores" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "analysis_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "ticker" "text" NOT NULL,
+    "decision" "text" NOT NULL,
+    "confidence" numeric(5,2) NOT NULL,
+    "decision_date" "date" NOT NULL,
+    "horizon" "text" NOT NULL,
+    "entry_date" "date" NOT NULL,
+    "entry_price" numeric NOT NULL,
+    "exit_date" "date" NOT NULL,
+    "exit_price" numeric NOT NULL,
+    "ticker_return_pct" numeric NOT NULL,
+    "benchmark_return_pct" numeric NOT NULL,
+    "excess_return_pct" numeric NOT NULL,
+    "correct" boolean NOT NULL,
+    "scored_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "analysis_scores_decision_check" CHECK (("decision" = ANY (ARRAY['BUY'::"text", 'SELL'::"text", 'HOLD'::"text"]))),
+    CONSTRAINT "analysis_scores_horizon_check" CHECK (("horizon" = ANY (ARRAY['1d'::"text", '1w'::"text", '1m'::"text", '3m'::"text"])))
+);
+
+
+ALTER TABLE "public"."analysis_scores" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."analysis_scores" IS 'Forward-return scorecard for completed analyses, one row per horizon, written by the score-analysis-decisions edge function';
+
+
+
+COMMENT ON COLUMN "public"."analysis_scores"."horizon" IS 'Scoring horizon in trading sessions after the decision: 1d (1), 1w (5), 1m (21), 3m (63)';
+
+
+
+COMMENT ON COLUMN "public"."analysis_scores"."excess_return_pct" IS 'Ticker return minus SPY return over the same sessions, in percentage points';
+
+
+
+COMMENT ON COLUMN "public"."analysis_scores"."correct" IS 'BUY beat SPY, SELL lagged SPY, or HOLD stayed within the horizon tolerance band of SPY';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."api_settings" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -3562,11 +3903,39 @@ CREATE TABLE IF NOT EXISTS "public"."api_settings" (
     "near_limit_threshold" integer DEFAULT 20,
     "near_position_threshold" integer DEFAULT 20,
     "auto_near_limit_analysis" boolean DEFAULT false,
-    CONSTRAINT "api_settings_ai_provider_check" CHECK (("ai_provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'openrouter'::"text", 'deepseek'::"text"]))),
+    "default_order_type" "text" DEFAULT 'market'::"text",
+    "default_time_in_force" "text" DEFAULT 'day'::"text",
+    "limit_order_offset" numeric(5,2) DEFAULT 0.5,
+    "exit_order_mode" "text" DEFAULT 'none'::"text",
+    "ai_base_url" "text",
+    "ai_model_prices" "jsonb" DEFAULT '{}'::"jsonb",
+    "ai_budget_period" "text" DEFAULT 'none'::"text",
+    "ai_budget_usd" numeric(10,2),
+    "ai_budget_tokens" bigint,
+    "auto_near_limit_last_execution_details" "jsonb",
+    "workflow_config" "jsonb",
+    "tax_lot_method" "text" DEFAULT 'fifo'::"text",
+    "rebalance_tax_aware" boolean DEFAULT false,
+    "rebalance_exposure_limits" "jsonb" DEFAULT '[]'::"jsonb",
+    "performance_benchmarks" "jsonb" DEFAULT '[]'::"jsonb",
+    "simulated_trading" boolean DEFAULT false,
+    "simulated_starting_cash" numeric(15,2) DEFAULT 100000,
+    "simulated_slippage_bps" numeric(6,2) DEFAULT 5,
+    "simulated_commission" numeric(10,2) DEFAULT 0,
+    "analysis_indicators" "text"[],
+    CONSTRAINT "api_settings_ai_budget_period_check" CHECK (("ai_budget_period" = ANY (ARRAY['none'::"text", 'daily'::"text", 'monthly'::"text"]))),
+    CONSTRAINT "api_settings_ai_budget_tokens_check" CHECK ((("ai_budget_tokens" IS NULL) OR ("ai_budget_tokens" > 0))),
+    CONSTRAINT "api_settings_ai_budget_usd_check" CHECK ((("ai_budget_usd" IS NULL) OR ("ai_budget_usd" > (0)::numeric))),
+    CONSTRAINT "api_settings_ai_provider_check" CHECK (("ai_provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'openrouter'::"text", 'deepseek'::"text", 'openai-compatible'::"text"]))),
     CONSTRAINT "api_settings_analysis_history_days_check" CHECK (("analysis_history_days" = ANY (ARRAY['1M'::"text", '3M'::"text", '6M'::"text", '1Y'::"text"]))),
+    CONSTRAINT "api_settings_analysis_indicators_check" CHECK ((("analysis_indicators" IS NULL) OR ("analysis_indicators" <@ ARRAY['moving_averages'::"text", 'macd'::"text", 'rsi'::"text", 'stochastic'::"text", 'bollinger'::"text", 'atr'::"text", 'volume'::"text", 'support_resistance'::"text", 'adx'::"text", 'ichimoku'::"text", 'vwap'::"text", 'keltner'::"text", 'cci'::"text", 'mfi'::"text", 'williams_r'::"text", 'parabolic_sar'::"text", 'pivot_points'::"text", 'volume_profile'::"text"]))),
     CONSTRAINT "api_settings_analysis_max_tokens_check" CHECK ((("analysis_max_tokens" >= 500) AND ("analysis_max_tokens" <= 8000))),
     CONSTRAINT "api_settings_analysis_optimization_check" CHECK (((("analysis_optimization")::"text" = ANY ((ARRAY['speed'::character varying, 'balanced'::character varying])::"text"[])) OR ("analysis_optimization" IS NULL))),
     CONSTRAINT "api_settings_analysis_search_sources_check" CHECK ((("analysis_search_sources" >= 1) AND ("analysis_search_sources" <= 25))),
+    CONSTRAINT "api_settings_default_order_type_check" CHECK (("default_order_type" = ANY (ARRAY['market'::"text", 'limit'::"text"]))),
+    CONSTRAINT "api_settings_default_time_in_force_check" CHECK (("default_time_in_force" = ANY (ARRAY['day'::"text", 'gtc'::"text"]))),
+    CONSTRAINT "api_settings_exit_order_mode_check" CHECK (("exit_order_mode" = ANY (ARRAY['none'::"text", 'bracket'::"text", 'oco'::"text"]))),
+    CONSTRAINT "api_settings_limit_order_offset_check" CHECK ((("limit_order_offset" >= (0)::numeric) AND ("limit_order_offset" <= (10)::numeric))),
     CONSTRAINT "api_settings_opportunity_market_range_check" CHECK (("opportunity_market_range" = ANY (ARRAY['1D'::"text", '1W'::"text", '1M'::"text", '3M'::"text", '1Y'::"text"]))),
     CONSTRAINT "api_settings_opportunity_max_tokens_check" CHECK ((("opportunity_max_tokens" >= 500) AND ("opportunity_max_tokens" <= 8000))),
     CONSTRAINT "api_settings_portfolio_manager_max_tokens_check" CHECK ((("portfolio_manager_max_tokens" >= 500) AND ("portfolio_manager_max_tokens" <= 8000))),
@@ -3576,8 +3945,12 @@ CREATE TABLE IF NOT EXISTS "public"."api_settings" (
     CONSTRAINT "api_settings_research_debate_rounds_check" CHECK ((("research_debate_rounds" >= 1) AND ("research_debate_rounds" <= 10))),
     CONSTRAINT "api_settings_research_max_tokens_check" CHECK ((("research_max_tokens" >= 500) AND ("research_max_tokens" <= 8000))),
     CONSTRAINT "api_settings_risk_max_tokens_check" CHECK ((("risk_max_tokens" >= 500) AND ("risk_max_tokens" <= 8000))),
+    CONSTRAINT "api_settings_simulated_commission_check" CHECK ((("simulated_commission" IS NULL) OR ("simulated_commission" >= (0)::numeric))),
+    CONSTRAINT "api_settings_simulated_slippage_bps_check" CHECK ((("simulated_slippage_bps" IS NULL) OR (("simulated_slippage_bps" >= (0)::numeric) AND ("simulated_slippage_bps" <= (500)::numeric)))),
+    CONSTRAINT "api_settings_simulated_starting_cash_check" CHECK ((("simulated_starting_cash" IS NULL) OR ("simulated_starting_cash" > (0)::numeric))),
     CONSTRAINT "api_settings_target_cash_allocation_check" CHECK ((("target_cash_allocation" >= (0)::numeric) AND ("target_cash_allocation" <= (100)::numeric))),
     CONSTRAINT "api_settings_target_stock_allocation_check" CHECK ((("target_stock_allocation" >= (0)::numeric) AND ("target_stock_allocation" <= (100)::numeric))),
+    CONSTRAINT "api_settings_tax_lot_method_check" CHECK (("tax_lot_method" = ANY (ARRAY['fifo'::"text", 'lifo'::"text", 'specific_id'::"text"]))),
     CONSTRAINT "api_settings_trading_max_tokens_check" CHECK ((("trading_max_tokens" >= 500) AND ("trading_max_tokens" <= 8000))),
     CONSTRAINT "api_settings_user_risk_level_check" CHECK (("user_risk_level" = ANY (ARRAY['conservative'::"text", 'moderate'::"text", 'aggressive'::"text"]))),
     CONSTRAINT "check_allocation_total" CHECK ((("target_stock_allocation" + "target_cash_allocation") = (100)::numeric)),
@@ -3718,6 +4091,10 @@ COMMENT ON COLUMN "public"."api_settings"."analysis_history_days" IS 'Historical
 
 
 
+COMMENT ON COLUMN "public"."api_settings"."analysis_indicators" IS 'Indicator groups the Market Analyst includes in its prompt (see _shared/technicalIndicators.ts INDICATOR_SET); NULL for the default set of moving averages, MACD, RSI, Bollinger Bands, ATR, volume and support/resistance';
+
+
+
 COMMENT ON COLUMN "public"."api_settings"."analysis_optimization" IS 'Optimization strategy for analysis. Values: speed (faster, less thorough) or balanced (slower, more thorough). Default: speed';
 
 
@@ -3750,143 +4127,396 @@ COMMENT ON COLUMN "public"."api_settings"."auto_near_limit_analysis" IS 'Enable
 
 
 
-CREATE OR REPLACE VIEW "public"."api_settings_unified" WITH ("security_invoker"='true') AS
- SELECT "user_id",
-    "ai_provider",
-    "ai_api_key",
-    "ai_model",
-    "analysis_optimization" AS "news_social_optimization",
-    "analysis_history_days",
-    "research_debate_rounds",
-    "analysis_max_tokens",
-    "research_max_tokens",
-    "trading_max_tokens",
-    "risk_max_tokens",
-    "created_at",
-    "updated_at"
-   FROM "public"."api_settings";
+COMMENT ON COLUMN "public"."api_settings"."default_order_type" IS 'Order type the portfolio managers attach to new trade orders (market or limit)';
 
 
-ALTER VIEW "public"."api_settings_unified" OWNER TO "postgres";
 
+COMMENT ON COLUMN "public"."api_settings"."default_time_in_force" IS 'Time in force the portfolio managers attach to new trade orders (day or gtc)';
 
-COMMENT ON VIEW "public"."api_settings_unified" IS 'Unified API settings view. Uses SECURITY INVOKER to respect user permissions and RLS policies.';
 
 
+COMMENT ON COLUMN "public"."api_settings"."limit_order_offset" IS 'Percentage above (BUY) or below (SELL) the current price used for default limit prices';
 
-CREATE TABLE IF NOT EXISTS "public"."invitations" (
-    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
-    "email" "text" NOT NULL,
-    "name" "text",
-    "invited_by" "uuid",
-    "invited_at" timestamp with time zone DEFAULT "now"(),
-    "confirmed_at" timestamp with time zone,
-    "confirmed_user_id" "uuid",
-    "status" "text" DEFAULT 'pending'::"text",
-    "created_at" timestamp with time zone DEFAULT "now"(),
-    "updated_at" timestamp with time zone DEFAULT "now"(),
-    CONSTRAINT "invitations_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'confirmed'::"text", 'expired'::"text"])))
-);
 
 
-ALTER TABLE "public"."invitations" OWNER TO "postgres";
+COMMENT ON COLUMN "public"."api_settings"."ai_base_url" IS 'API base URL for the default provider when ai_provider is openai-compatible (Ollama, vLLM, LM Studio, ...)';
 
 
-CREATE TABLE IF NOT EXISTS "public"."market_data_cache" (
-    "ticker" "text" NOT NULL,
-    "timeframe" "text" DEFAULT '1Y'::"text" NOT NULL,
-    "historical_data" "jsonb" NOT NULL,
-    "technical_indicators" "jsonb" NOT NULL,
-    "data_points" integer NOT NULL,
-    "analysis_range" "text" NOT NULL,
-    "fetched_date" "date" DEFAULT CURRENT_DATE NOT NULL,
-    "created_at" timestamp with time zone DEFAULT "now"(),
-    "updated_at" timestamp with time zone DEFAULT "now"()
-);
 
+COMMENT ON COLUMN "public"."api_settings"."ai_model_prices" IS 'User overrides for the model price table in USD per 1M tokens, keyed by model: {"model": {"input": n, "cached_input": n, "output": n}}';
 
-ALTER TABLE "public"."market_data_cache" OWNER TO "postgres";
 
 
-COMMENT ON TABLE "public"."market_data_cache" IS 'Market data cache using New York timezone (America/New_York) for all date operations';
+COMMENT ON COLUMN "public"."api_settings"."exit_order_mode" IS 'Take-profit/stop-loss exits for executed BUY orders based on profit_target and stop_loss: none, bracket (attached to the entry order) or oco (placed after the fill)';
 
 
 
-COMMENT ON COLUMN "public"."market_data_cache"."fetched_date" IS 'Date when data was fetched, in New York timezone (YYYY-MM-DD format)';
+COMMENT ON COLUMN "public"."api_settings"."ai_budget_period" IS 'AI spend budget window: none (no budget), daily or monthly (UTC calendar day / month)';
 
 
 
-COMMENT ON COLUMN "public"."market_data_cache"."created_at" IS 'Timestamp when cache entry was created, stored in UTC but represents NY time operation';
+COMMENT ON COLUMN "public"."api_settings"."ai_budget_usd" IS 'Maximum estimated AI spend in USD per budget period; NULL for no dollar cap';
 
 
 
-COMMENT ON COLUMN "public"."market_data_cache"."updated_at" IS 'Timestamp when cache entry was last updated, stored in UTC but represents NY time operation';
+COMMENT ON COLUMN "public"."api_settings"."ai_budget_tokens" IS 'Maximum AI tokens per budget period; NULL for no token cap';
 
 
 
-CREATE OR REPLACE VIEW "public"."market_cache_status" WITH ("security_invoker"='true') AS
- SELECT "ticker",
-    "timeframe",
-    "fetched_date",
-    "data_points",
-    "created_at",
-    "updated_at"
-   FROM "public"."market_data_cache"
-  ORDER BY "created_at" DESC;
+COMMENT ON COLUMN "public"."api_settings"."auto_near_limit_last_execution_details" IS 'Outcome of the most recent auto near-limit analysis run for the user, including why it was skipped';
 
 
-ALTER VIEW "public"."market_cache_status" OWNER TO "postgres";
 
+COMMENT ON COLUMN "public"."api_settings"."workflow_config" IS 'Analysis workflow graph: phases in run order with enabled flags for optional phases and individual agents, {"phases": [{"id": "analysis", "agents": [{"functionName": "agent-macro-analyst", "enabled": false}]}]}; NULL for the default graph';
 
-COMMENT ON VIEW "public"."market_cache_status" IS 'Market data cache status view. Converted to SECURITY INVOKER to respect user permissions and RLS policies.';
 
 
+COMMENT ON COLUMN "public"."api_settings"."tax_lot_method" IS 'Lot method for realized P&L from Alpaca fills: fifo, lifo or specific_id (lots chosen in trading_actions.metadata.tax_lot_selection, FIFO otherwise)';
 
-CREATE TABLE IF NOT EXISTS "public"."permissions" (
-    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
-    "name" character varying(100) NOT NULL,
-    "resource" character varying(50) NOT NULL,
-    "action" character varying(50) NOT NULL,
-    "description" "text",
-    "created_at" timestamp with time zone DEFAULT "now"()
-);
 
 
-ALTER TABLE "public"."permissions" OWNER TO "postgres";
+COMMENT ON COLUMN "public"."api_settings"."rebalance_tax_aware" IS 'When true, rebalancing blocks wash-sale re-buys, defers trims of lots about to turn long-term and picks lots to sell under specific-ID';
 
 
-CREATE TABLE IF NOT EXISTS "public"."portfolios" (
-    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
-    "user_id" "uuid" NOT NULL,
-    "name" "text" NOT NULL,
-    "total_value" numeric(15,2) DEFAULT 0,
-    "cash_available" numeric(15,2) DEFAULT 100000,
-    "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
-    "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP
-);
 
+COMMENT ON COLUMN "public"."api_settings"."simulated_trading" IS 'When true, the main account trades through the built-in simulator (simulated_accounts) instead of Alpaca';
 
-ALTER TABLE "public"."portfolios" OWNER TO "postgres";
 
 
-CREATE TABLE IF NOT EXISTS "public"."positions" (
-    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
-    "portfolio_id" "uuid" NOT NULL,
-    "ticker" "text" NOT NULL,
-    "shares" numeric(15,4) NOT NULL,
-    "avg_cost" numeric(10,2) NOT NULL,
-    "current_price" numeric(10,2),
-    "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
-    "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP
-);
+COMMENT ON COLUMN "public"."api_settings"."simulated_starting_cash" IS 'Cash a simulated account opens with, and is reset to';
 
 
-ALTER TABLE "public"."positions" OWNER TO "postgres";
 
+COMMENT ON COLUMN "public"."api_settings"."simulated_slippage_bps" IS 'Basis points added to simulated market and stop fills against the trader (higher for buys, lower for sells)';
 
-CREATE TABLE IF NOT EXISTS "public"."profiles" (
-    "id" "uuid" NOT NULL,
-    "email" "text",
+
+
+COMMENT ON COLUMN "public"."api_settings"."simulated_commission" IS 'Flat commission in dollars charged on each simulated fill';
+
+
+
+COMMENT ON COLUMN "public"."api_settings"."rebalance_exposure_limits" IS 'Rebalance exposure caps as a share of portfolio value, [{"dimension": "sector" | "industry" | "asset_class", "value": "Semiconductors", "maxPercent": 35}]; classifications come from asset_classifications';
+
+
+
+COMMENT ON COLUMN "public"."api_settings"."performance_benchmarks" IS 'Custom performance chart benchmarks, [{"id", "label", "kind": "ticker" | "basket", "components": [{"symbol": "AAPL", "weight": 50}]}]; SPY and QQQ are always offered';
+
+
+
+CREATE OR REPLACE VIEW "public"."api_settings_unified" WITH ("security_invoker"='true') AS
+ SELECT "user_id",
+    "ai_provider",
+    "ai_api_key",
+    "ai_model",
+    "analysis_optimization" AS "news_social_optimization",
+    "analysis_history_days",
+    "research_debate_rounds",
+    "analysis_max_tokens",
+    "research_max_tokens",
+    "trading_max_tokens",
+    "risk_max_tokens",
+    "created_at",
+    "updated_at"
+   FROM "public"."api_settings";
+
+
+ALTER VIEW "public"."api_settings_unified" OWNER TO "postgres";
+
+
+COMMENT ON VIEW "public"."api_settings_unified" IS 'Unified API settings view. Uses SECURITY INVOKER to respect user permissions and RLS policies.';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."asset_classifications" (
+    "symbol" "text" NOT NULL,
+    "name" "text",
+    "asset_class" "text" NOT NULL,
+    "sector" "text",
+    "industry" "text",
+    "sic_code" "text",
+    "source" "text" DEFAULT 'alpaca'::"text" NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "asset_classifications_asset_class_check" CHECK (("asset_class" = ANY (ARRAY['equity'::"text", 'etf'::"text", 'crypto'::"text", 'option'::"text", 'other'::"text"]))),
+    CONSTRAINT "asset_classifications_source_check" CHECK (("source" = ANY (ARRAY['alpaca'::"text", 'sec'::"text"])))
+);
+
+
+ALTER TABLE "public"."asset_classifications" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."asset_classifications" IS 'Shared cache of symbol classifications used for rebalance exposure caps; refreshed by the rebalance manager after 30 days';
+
+
+
+COMMENT ON COLUMN "public"."asset_classifications"."asset_class" IS 'equity, etf, crypto, option or other, from the Alpaca asset (ETFs recognized by name)';
+
+
+
+COMMENT ON COLUMN "public"."asset_classifications"."sector" IS 'GICS-style sector grouped from the SEC SIC code; NULL for ETFs, crypto and symbols without an EDGAR filing';
+
+
+
+COMMENT ON COLUMN "public"."asset_classifications"."industry" IS 'Industry from the SEC SIC description, shortened for common codes (3674 is Semiconductors)';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."backtest_runs" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "source" "text" DEFAULT 'analysis'::"text" NOT NULL,
+    "status" "text" DEFAULT 'running'::"text" NOT NULL,
+    "parameters" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "results" "jsonb",
+    "error_message" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "completed_at" timestamp with time zone,
+    CONSTRAINT "backtest_runs_source_check" CHECK (("source" = ANY (ARRAY['analysis'::"text", 'rebalance'::"text"]))),
+    CONSTRAINT "backtest_runs_status_check" CHECK (("status" = ANY (ARRAY['running'::"text", 'completed'::"text", 'error'::"text"])))
+);
+
+
+ALTER TABLE "public"."backtest_runs" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."backtest_runs" IS 'Backtests that replay past analysis decisions or rebalance plans against daily bars, written by the run-backtest edge function';
+
+
+
+COMMENT ON COLUMN "public"."backtest_runs"."source" IS 'Decisions replayed: analysis (completed BUY/SELL analyses) or rebalance (orders proposed by rebalance plans)';
+
+
+
+COMMENT ON COLUMN "public"."backtest_runs"."parameters" IS 'Decision window, holding period, benchmark, confidence filter and position size used for the run';
+
+
+
+COMMENT ON COLUMN "public"."backtest_runs"."results" IS 'Simulated trades, equity curves and per agent configuration hit rate, returns, drawdown and benchmark-relative performance';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."custom_analysts" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "system_prompt" "text" NOT NULL,
+    "data_inputs" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    "focus_mode" "text",
+    "phase" "text" DEFAULT 'analysis'::"text" NOT NULL,
+    "enabled" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "custom_analysts_name_check" CHECK ((("char_length"(TRIM(BOTH FROM "name")) >= 1) AND ("char_length"("name") <= 60))),
+    CONSTRAINT "custom_analysts_system_prompt_check" CHECK ((("char_length"(TRIM(BOTH FROM "system_prompt")) >= 1) AND ("char_length"("system_prompt") <= 4000))),
+    CONSTRAINT "custom_analysts_data_inputs_check" CHECK (("data_inputs" <@ ARRAY['price_history'::"text", 'indicators'::"text", 'perplefina'::"text", 'positions'::"text"])),
+    CONSTRAINT "custom_analysts_focus_mode_check" CHECK ((("focus_mode" IS NULL) OR ("focus_mode" = ANY (ARRAY['news'::"text", 'social'::"text", 'fundamentals'::"text", 'macroEconomy'::"text"])))),
+    CONSTRAINT "custom_analysts_phase_check" CHECK (("phase" = ANY (ARRAY['analysis'::"text", 'risk'::"text"])))
+);
+
+
+ALTER TABLE "public"."custom_analysts" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."custom_analysts" IS 'User-defined analysts run by the agent-custom-analyst edge function; enabled rows up to the role''s max_custom_analysts join new analyses';
+
+
+
+COMMENT ON COLUMN "public"."custom_analysts"."data_inputs" IS 'Data the analyst receives: price_history, indicators, perplefina (web research with focus_mode) and positions';
+
+
+
+COMMENT ON COLUMN "public"."custom_analysts"."phase" IS 'Workflow phase the analyst runs in: analysis (reports feed the research debate) or risk (reports feed the Risk Manager)';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."fundamentals_cache" (
+    "symbol" "text" NOT NULL,
+    "provider" "text" DEFAULT 'sec_edgar'::"text" NOT NULL,
+    "data" "jsonb" NOT NULL,
+    "fetched_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "fundamentals_cache_provider_check" CHECK (("provider" = ANY (ARRAY['sec_edgar'::"text"])))
+);
+
+
+ALTER TABLE "public"."fundamentals_cache" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."fundamentals_cache" IS 'Shared cache of structured fundamentals (statements, ratios, quarterly earnings) used by the Fundamentals Analyst; refreshed after 24 hours';
+
+
+
+COMMENT ON COLUMN "public"."fundamentals_cache"."data" IS 'FundamentalsSnapshot from supabase/functions/_shared/fundamentals; each line item is marked reported (from a filing) or calculated';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."invitations" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "email" "text" NOT NULL,
+    "name" "text",
+    "invited_by" "uuid",
+    "invited_at" timestamp with time zone DEFAULT "now"(),
+    "confirmed_at" timestamp with time zone,
+    "confirmed_user_id" "uuid",
+    "status" "text" DEFAULT 'pending'::"text",
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "invitations_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'confirmed'::"text", 'expired'::"text"])))
+);
+
+
+ALTER TABLE "public"."invitations" OWNER TO "postgres";
+
+
+CREATE TABLE IF NOT EXISTS "public"."market_data_cache" (
+    "ticker" "text" NOT NULL,
+    "timeframe" "text" DEFAULT '1Y'::"text" NOT NULL,
+    "historical_data" "jsonb" NOT NULL,
+    "technical_indicators" "jsonb" NOT NULL,
+    "data_points" integer NOT NULL,
+    "analysis_range" "text" NOT NULL,
+    "fetched_date" "date" DEFAULT CURRENT_DATE NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"()
+);
+
+
+ALTER TABLE "public"."market_data_cache" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."market_data_cache" IS 'Market data cache using New York timezone (America/New_York) for all date operations';
+
+
+
+COMMENT ON COLUMN "public"."market_data_cache"."timeframe" IS 'Period and bar size of the cached series: 1M (1Hour bars), 3M (4Hour), 6M and 1Y (1Day), 2Y (1Week); the Market Analyst reads 2Y, 1Y and 1M for its weekly, daily and intraday view';
+
+
+
+COMMENT ON COLUMN "public"."market_data_cache"."fetched_date" IS 'Date when data was fetched, in New York timezone (YYYY-MM-DD format)';
+
+
+
+COMMENT ON COLUMN "public"."market_data_cache"."created_at" IS 'Timestamp when cache entry was created, stored in UTC but represents NY time operation';
+
+
+
+COMMENT ON COLUMN "public"."market_data_cache"."updated_at" IS 'Timestamp when cache entry was last updated, stored in UTC but represents NY time operation';
+
+
+
+CREATE OR REPLACE VIEW "public"."market_cache_status" WITH ("security_invoker"='true') AS
+ SELECT "ticker",
+    "timeframe",
+    "fetched_date",
+    "data_points",
+    "created_at",
+    "updated_at"
+   FROM "public"."market_data_cache"
+  ORDER BY "created_at" DESC;
+
+
+ALTER VIEW "public"."market_cache_status" OWNER TO "postgres";
+
+
+COMMENT ON VIEW "public"."market_cache_status" IS 'Market data cache status view. Converted to SECURITY INVOKER to respect user permissions and RLS policies.';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."notification_preferences" (
+    "user_id" "uuid" NOT NULL,
+    "email_enabled" boolean DEFAULT false NOT NULL,
+    "discord_enabled" boolean DEFAULT false NOT NULL,
+    "webhook_enabled" boolean DEFAULT false NOT NULL,
+    "webhook_url" "text",
+    "webhook_secret" "text",
+    "event_channels" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "notification_preferences_webhook_url_check" CHECK ((("webhook_url" IS NULL) OR ("webhook_url" ~ '^https://'::"text"))),
+    CONSTRAINT "notification_preferences_event_channels_check" CHECK (("jsonb_typeof"("event_channels") = 'object'::"text"))
+);
+
+
+ALTER TABLE "public"."notification_preferences" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."notification_preferences" IS 'Per-user notification settings used by the notifyUser helper in supabase/functions/_shared/notifications.ts';
+
+
+
+COMMENT ON COLUMN "public"."notification_preferences"."webhook_secret" IS 'Optional secret; when set, webhook deliveries carry an X-TradingGoose-Signature HMAC-SHA256 of the body';
+
+
+
+COMMENT ON COLUMN "public"."notification_preferences"."event_channels" IS 'Map of event name (analysis_completed, analysis_failed, rebalance_completed, rebalance_failed, orders_pending, orders_executed, orders_failed) to the channels (email, discord, webhook) it is delivered on';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."permissions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "name" character varying(100) NOT NULL,
+    "resource" character varying(50) NOT NULL,
+    "action" character varying(50) NOT NULL,
+    "description" "text",
+    "created_at" timestamp with time zone DEFAULT "now"()
+);
+
+
+ALTER TABLE "public"."permissions" OWNER TO "postgres";
+
+
+CREATE TABLE IF NOT EXISTS "public"."portfolios" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "total_value" numeric(15,2) DEFAULT 0,
+    "cash_available" numeric(15,2) DEFAULT 100000,
+    "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
+    "broker" "text" DEFAULT 'alpaca'::"text" NOT NULL,
+    "paper_trading" boolean DEFAULT true NOT NULL,
+    "api_key" "text",
+    "secret_key" "text",
+    "settings" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    CONSTRAINT "portfolios_broker_check" CHECK (("broker" = ANY (ARRAY['alpaca'::"text", 'tradier'::"text", 'simulated'::"text"])))
+);
+
+
+ALTER TABLE "public"."portfolios" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."portfolios" IS 'Named broker accounts. The account configured in api_settings stays the main account; rows that reference a portfolio_id of NULL belong to it';
+
+
+
+COMMENT ON COLUMN "public"."portfolios"."broker" IS 'Broker the account trades through: alpaca, tradier or simulated. For tradier, api_key holds the access token and secret_key the account number; simulated accounts have no keys';
+
+
+
+COMMENT ON COLUMN "public"."portfolios"."paper_trading" IS 'TRUE when api_key/secret_key belong to a paper (Alpaca) or sandbox (Tradier) account';
+
+
+
+COMMENT ON COLUMN "public"."portfolios"."settings" IS 'Per-account overrides of api_settings rebalance and allocation columns (rebalance_threshold, rebalance_min_position_size, rebalance_max_position_size, near_position_threshold, rebalance_tax_aware, rebalance_exposure_limits, target_stock_allocation, target_cash_allocation) and, for simulated accounts, simulated_starting_cash, simulated_slippage_bps and simulated_commission';
+
+
+CREATE TABLE IF NOT EXISTS "public"."positions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "portfolio_id" "uuid" NOT NULL,
+    "ticker" "text" NOT NULL,
+    "shares" numeric(15,4) NOT NULL,
+    "avg_cost" numeric(10,2) NOT NULL,
+    "current_price" numeric(10,2),
+    "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP
+);
+
+
+ALTER TABLE "public"."positions" OWNER TO "postgres";
+
+
+CREATE TABLE IF NOT EXISTS "public"."profiles" (
+    "id" "uuid" NOT NULL,
+    "email" "text",
     "name" "text",
     "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
     "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
@@ -3910,7 +4540,9 @@ CREATE TABLE IF NOT EXISTS "public"."provider_configurations" (
     "is_default" boolean DEFAULT false,
     "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
     "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT "provider_configurations_provider_check" CHECK (("provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'deepseek'::"text", 'openrouter'::"text"])))
+    "base_url" "text",
+    CONSTRAINT "provider_configurations_base_url_check" CHECK ((("provider" <> 'openai-compatible'::"text") OR ("base_url" IS NOT NULL))),
+    CONSTRAINT "provider_configurations_provider_check" CHECK (("provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'deepseek'::"text", 'openrouter'::"text", 'openai-compatible'::"text"])))
 );
 
 
@@ -3929,6 +4561,10 @@ COMMENT ON COLUMN "public"."provider_configurations"."is_default" IS 'Whether th
 
 
 
+COMMENT ON COLUMN "public"."provider_configurations"."base_url" IS 'API base URL for openai-compatible providers (e.g. http://localhost:11434/v1 for Ollama)';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."rebalance_history" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "rebalance_request_id" "uuid",
@@ -3946,6 +4582,10 @@ CREATE TABLE IF NOT EXISTS "public"."rebalance_history" (
 ALTER TABLE "public"."rebalance_history" OWNER TO "postgres";
 
 
+COMMENT ON COLUMN "public"."rebalance_history"."tax_implications" IS 'Estimated tax effect of the plan from the tax lot report: per-order realized short/long-term gains, wash-sale warnings and totals';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."rebalance_requests" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -3986,6 +4626,8 @@ CREATE TABLE IF NOT EXISTS "public"."rebalance_requests" (
     "opportunity_evaluation" "jsonb",
     "opportunity_agent_insights" "text",
     "metadata" "jsonb" DEFAULT '{}'::"jsonb",
+    "ai_usage" "jsonb",
+    "portfolio_id" "uuid",
     CONSTRAINT "rebalance_requests_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'running'::"text", 'completed'::"text", 'cancelled'::"text", 'error'::"text"]))),
     CONSTRAINT "rebalance_requests_target_cash_allocation_check" CHECK ((("target_cash_allocation" >= (0)::numeric) AND ("target_cash_allocation" <= (100)::numeric)))
 );
@@ -4067,6 +4709,14 @@ COMMENT ON COLUMN "public"."rebalance_requests"."metadata" IS 'Stores metadata a
 
 
 
+COMMENT ON COLUMN "public"."rebalance_requests"."ai_usage" IS 'AI usage totals for the rebalance including its stock analyses, maintained by record_ai_usage';
+
+
+
+COMMENT ON COLUMN "public"."rebalance_requests"."portfolio_id" IS 'Broker account being rebalanced; NULL is the main account in api_settings, or an account that has since been deleted (the history row is kept)';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."rebalance_schedules" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -4092,6 +4742,7 @@ CREATE TABLE IF NOT EXISTS "public"."rebalance_schedules" (
     "skip_opportunity_agent" boolean DEFAULT false,
     "resolved_tickers" "text"[] DEFAULT '{}'::"text"[],
     "resolved_constraints" "jsonb" DEFAULT '{}'::"jsonb",
+    "portfolio_id" "uuid",
     CONSTRAINT "check_time_of_day_minutes" CHECK (((EXTRACT(minute FROM "time_of_day") = ANY (ARRAY[(0)::numeric, (30)::numeric])) AND (EXTRACT(second FROM "time_of_day") = (0)::numeric))),
     CONSTRAINT "rebalance_schedules_frequency_check" CHECK (("frequency" = 'custom'::"text")),
     CONSTRAINT "rebalance_schedules_interval_unit_check" CHECK (("interval_unit" = ANY (ARRAY['days'::"text", 'weeks'::"text", 'months'::"text"]))),
@@ -4143,11 +4794,44 @@ COMMENT ON COLUMN "public"."rebalance_schedules"."resolved_constraints" IS 'Comp
 
 
 
+COMMENT ON COLUMN "public"."rebalance_schedules"."portfolio_id" IS 'Broker account the schedule rebalances; NULL is the main account in api_settings';
+
+
+
 COMMENT ON CONSTRAINT "check_time_of_day_minutes" ON "public"."rebalance_schedules" IS 'Ensures schedules can only be set for :00 or :30 minutes past the hour 
 to align with GitHub Actions running at :25 and :55';
 
 
 
+CREATE TABLE IF NOT EXISTS "public"."trade_approval_links" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "trade_action_id" "uuid" NOT NULL,
+    "action" "text" NOT NULL,
+    "reference_price" numeric(15,4),
+    "expires_at" timestamp with time zone NOT NULL,
+    "used_at" timestamp with time zone,
+    "invalidated_reason" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "trade_approval_links_action_check" CHECK (("action" = ANY (ARRAY['approve'::"text", 'reject'::"text"])))
+);
+
+
+ALTER TABLE "public"."trade_approval_links" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."trade_approval_links" IS 'Single-use approve/reject links for pending trade orders, sent in notifications and redeemed through the trade-approval edge function';
+
+
+
+COMMENT ON COLUMN "public"."trade_approval_links"."reference_price" IS 'Order price (or the live quote for orders without one) when the link was issued; the link stops working once the live quote drifts too far from it. Approve links without a reference price are refused';
+
+
+
+COMMENT ON COLUMN "public"."trade_approval_links"."used_at" IS 'Set when the link is redeemed or invalidated; a link can only be used once';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."trading_actions" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -4174,10 +4858,18 @@ CREATE TABLE IF NOT EXISTS "public"."trading_actions" (
     "alpaca_order_status" "text",
     "alpaca_filled_qty" numeric(15,4),
     "alpaca_filled_price" numeric(10,2),
+    "order_type" "text" DEFAULT 'market'::"text" NOT NULL,
+    "time_in_force" "text",
+    "limit_price" numeric(15,4),
+    "stop_price" numeric(15,4),
+    "trail_percent" numeric(6,2),
+    "trail_price" numeric(15,4),
     CONSTRAINT "trading_actions_action_check" CHECK (("action" = ANY (ARRAY['BUY'::"text", 'SELL'::"text"]))),
+    CONSTRAINT "trading_actions_order_type_check" CHECK (("order_type" = ANY (ARRAY['market'::"text", 'limit'::"text", 'stop'::"text", 'stop_limit'::"text", 'trailing_stop'::"text"]))),
     CONSTRAINT "trading_actions_order_validation" CHECK (((("shares" > (0)::numeric) AND ("dollar_amount" = (0)::numeric)) OR (("shares" = (0)::numeric) AND ("dollar_amount" > (0)::numeric)) OR (("shares" = (0)::numeric) AND ("dollar_amount" = (0)::numeric) AND ("action" = 'HOLD'::"text")))),
     CONSTRAINT "trading_actions_source_type_check" CHECK (("source_type" = ANY (ARRAY['individual_analysis'::"text", 'rebalance'::"text", 'manual'::"text"]))),
-    CONSTRAINT "trading_actions_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'approved'::"text", 'rejected'::"text"])))
+    CONSTRAINT "trading_actions_status_check" CHECK (("status" = ANY (ARRAY['pending'::"text", 'approved'::"text", 'rejected'::"text"]))),
+    CONSTRAINT "trading_actions_time_in_force_check" CHECK ((("time_in_force" IS NULL) OR ("time_in_force" = ANY (ARRAY['day'::"text", 'gtc'::"text", 'opg'::"text", 'cls'::"text", 'ioc'::"text", 'fok'::"text"]))))
 );
 
 
@@ -4220,9 +4912,19 @@ COMMENT ON COLUMN "public"."trading_actions"."metadata" IS 'JSONB field storing
     submitted_at: Order submission timestamp,
     type: Order type (market, limit, stop, etc),
     time_in_force: Time in force (day, gtc, etc),
+    limit_price / stop_price / trail_percent / trail_price: Submitted order prices,
     filled_qty: Filled quantity,
     filled_avg_price: Average fill price,
     updated_at: Last update timestamp
+  }
+- exit_orders: {
+    mode: bracket or oco,
+    status: pending_fill, placed, skipped or failed,
+    take_profit_percent / stop_loss_percent: Percentages from api_settings,
+    take_profit_price / stop_loss_price: Exit prices,
+    parent_order_id: Entry Alpaca order ID,
+    oco_order_id: OCO order ID (oco mode),
+    legs: [{id, role, type, limit_price, stop_price, status, filled_qty, filled_avg_price}]
   }';
 
 
@@ -4243,6 +4945,34 @@ COMMENT ON COLUMN "public"."trading_actions"."alpaca_filled_price" IS 'Average f
 
 
 
+COMMENT ON COLUMN "public"."trading_actions"."order_type" IS 'Order type submitted to the broker: market, limit, stop, stop_limit or trailing_stop';
+
+
+
+COMMENT ON COLUMN "public"."trading_actions"."time_in_force" IS 'Time in force for the order (day, gtc, opg, cls, ioc, fok). NULL lets execute-trade pick day for stocks and gtc for crypto';
+
+
+
+COMMENT ON COLUMN "public"."trading_actions"."limit_price" IS 'Limit price for limit and stop_limit orders';
+
+
+
+COMMENT ON COLUMN "public"."trading_actions"."stop_price" IS 'Stop (trigger) price for stop and stop_limit orders';
+
+
+
+COMMENT ON COLUMN "public"."trading_actions"."trail_percent" IS 'Trailing distance in percent for trailing_stop orders (alternative to trail_price)';
+
+
+
+COMMENT ON COLUMN "public"."trading_actions"."trail_price" IS 'Trailing distance in dollars for trailing_stop orders (alternative to trail_percent)';
+
+
+
+COMMENT ON COLUMN "public"."trading_actions"."portfolio_id" IS 'Broker account the order is executed in; NULL is the main account in api_settings';
+
+
+
 CREATE OR REPLACE VIEW "public"."rebalance_summary" WITH ("security_invoker"='true') AS
  SELECT "rr"."id",
     "rr"."user_id",
@@ -4333,6 +5063,8 @@ CREATE TABLE IF NOT EXISTS "public"."role_limits" (
     "number_of_search_sources" integer DEFAULT 5,
     "max_debate_rounds" integer DEFAULT 2,
     "near_limit_analysis_access" boolean DEFAULT false,
+    "max_custom_analysts" integer DEFAULT 0,
+    CONSTRAINT "role_limits_max_custom_analysts_check" CHECK ((("max_custom_analysts" >= 0) AND ("max_custom_analysts" <= 10))),
     CONSTRAINT "role_limits_max_debate_rounds_check" CHECK ((("max_debate_rounds" >= 1) AND ("max_debate_rounds" <= 5)))
 );
 
@@ -4372,6 +5104,10 @@ COMMENT ON COLUMN "public"."role_limits"."near_limit_analysis_access" IS 'Contro
 
 
 
+COMMENT ON COLUMN "public"."role_limits"."max_custom_analysts" IS 'Maximum number of custom analysts users with this role can define and run (0-10). 0 disables custom analysts.';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."role_permissions" (
     "role_id" "uuid" NOT NULL,
     "permission_id" "uuid" NOT NULL,
@@ -4435,6 +5171,94 @@ COMMENT ON VIEW "public"."scheduled_rebalance_status" IS 'View of scheduled reba
 
 
 
+CREATE TABLE IF NOT EXISTS "public"."simulated_accounts" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "portfolio_id" "uuid",
+    "starting_cash" numeric(15,2) NOT NULL,
+    "cash" numeric NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "simulated_accounts_starting_cash_check" CHECK (("starting_cash" > (0)::numeric))
+);
+
+
+ALTER TABLE "public"."simulated_accounts" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."simulated_accounts" IS 'Cash balances of the built-in simulated broker, one per user and broker account; written by the broker adapter in _shared/brokers/simulated.ts';
+
+
+
+COMMENT ON COLUMN "public"."simulated_accounts"."portfolio_id" IS 'Named broker account this ledger belongs to; NULL for the main account';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."simulated_orders" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "account_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "client_order_id" "text",
+    "symbol" "text" NOT NULL,
+    "side" "text" NOT NULL,
+    "type" "text" DEFAULT 'market'::"text" NOT NULL,
+    "time_in_force" "text" DEFAULT 'day'::"text" NOT NULL,
+    "qty" numeric,
+    "notional" numeric,
+    "limit_price" numeric,
+    "stop_price" numeric,
+    "status" "text" DEFAULT 'new'::"text" NOT NULL,
+    "filled_qty" numeric DEFAULT 0 NOT NULL,
+    "filled_avg_price" numeric,
+    "commission" numeric DEFAULT 0 NOT NULL,
+    "reject_reason" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "filled_at" timestamp with time zone,
+    "canceled_at" timestamp with time zone,
+    CONSTRAINT "simulated_orders_side_check" CHECK (("side" = ANY (ARRAY['buy'::"text", 'sell'::"text"]))),
+    CONSTRAINT "simulated_orders_size_check" CHECK ((("qty" IS NOT NULL) OR ("notional" IS NOT NULL))),
+    CONSTRAINT "simulated_orders_status_check" CHECK (("status" = ANY (ARRAY['new'::"text", 'filled'::"text", 'canceled'::"text", 'expired'::"text", 'rejected'::"text"]))),
+    CONSTRAINT "simulated_orders_time_in_force_check" CHECK (("time_in_force" = ANY (ARRAY['day'::"text", 'gtc'::"text"]))),
+    CONSTRAINT "simulated_orders_type_check" CHECK (("type" = ANY (ARRAY['market'::"text", 'limit'::"text", 'stop'::"text", 'stop_limit'::"text"])))
+);
+
+
+ALTER TABLE "public"."simulated_orders" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."simulated_orders" IS 'Orders placed with the simulated broker, in Alpaca order fields. Open (new) orders fill against cached daily bars when the account is next read';
+
+
+
+COMMENT ON COLUMN "public"."simulated_orders"."filled_avg_price" IS 'Fill price including slippage; market_data_cache close for market orders, the crossed limit or stop level otherwise';
+
+
+
+COMMENT ON COLUMN "public"."simulated_orders"."reject_reason" IS 'Why the simulator rejected the order (insufficient cash or shares), NULL otherwise';
+
+
+
+CREATE TABLE IF NOT EXISTS "public"."simulated_positions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "account_id" "uuid" NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "symbol" "text" NOT NULL,
+    "qty" numeric NOT NULL,
+    "avg_entry_price" numeric NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "simulated_positions_qty_check" CHECK (("qty" > (0)::numeric))
+);
+
+
+ALTER TABLE "public"."simulated_positions" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."simulated_positions" IS 'Long positions held in simulated accounts; maintained by fill_simulated_order';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."target_allocations" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -4563,6 +5387,7 @@ CREATE TABLE IF NOT EXISTS "public"."watchlist" (
     "added_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
     "last_analysis" timestamp with time zone,
     "last_decision" "text",
+    "portfolio_id" "uuid",
     CONSTRAINT "watchlist_last_decision_check" CHECK (("last_decision" = ANY (ARRAY['BUY'::"text", 'SELL'::"text", 'HOLD'::"text"])))
 );
 
@@ -4570,6 +5395,11 @@ CREATE TABLE IF NOT EXISTS "public"."watchlist" (
 ALTER TABLE "public"."watchlist" OWNER TO "postgres";
 
 
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_pkey" PRIMARY KEY ("id");
+
+
+
 ALTER TABLE ONLY "public"."analysis_history"
     ADD CONSTRAINT "analysis_history_pkey" PRIMARY KEY ("id");
 
@@ -4580,13 +5410,43 @@ ALTER TABLE ONLY "public"."analysis_messages"
 
 
 
-ALTER TABLE ONLY "public"."api_settings"
-    ADD CONSTRAINT "api_settings_pkey" PRIMARY KEY ("id");
+ALTER TABLE ONLY "public"."analysis_scores"
+    ADD CONSTRAINT "analysis_scores_analysis_id_horizon_key" UNIQUE ("analysis_id", "horizon");
+
+
+
+ALTER TABLE ONLY "public"."analysis_scores"
+    ADD CONSTRAINT "analysis_scores_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."api_settings"
+    ADD CONSTRAINT "api_settings_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."api_settings"
+    ADD CONSTRAINT "api_settings_user_id_key" UNIQUE ("user_id");
+
+
+
+ALTER TABLE ONLY "public"."asset_classifications"
+    ADD CONSTRAINT "asset_classifications_pkey" PRIMARY KEY ("symbol");
+
+
+
+ALTER TABLE ONLY "public"."backtest_runs"
+    ADD CONSTRAINT "backtest_runs_pkey" PRIMARY KEY ("id");
+
+
 
+ALTER TABLE ONLY "public"."custom_analysts"
+    ADD CONSTRAINT "custom_analysts_pkey" PRIMARY KEY ("id");
 
 
-ALTER TABLE ONLY "public"."api_settings"
-    ADD CONSTRAINT "api_settings_user_id_key" UNIQUE ("user_id");
+
+ALTER TABLE ONLY "public"."fundamentals_cache"
+    ADD CONSTRAINT "fundamentals_cache_pkey" PRIMARY KEY ("symbol", "provider");
 
 
 
@@ -4600,6 +5460,11 @@ ALTER TABLE ONLY "public"."market_data_cache"
 
 
 
+ALTER TABLE ONLY "public"."notification_preferences"
+    ADD CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("user_id");
+
+
+
 ALTER TABLE ONLY "public"."permissions"
     ADD CONSTRAINT "permissions_name_key" UNIQUE ("name");
 
@@ -4690,6 +5555,31 @@ ALTER TABLE ONLY "public"."roles"
 
 
 
+ALTER TABLE ONLY "public"."simulated_accounts"
+    ADD CONSTRAINT "simulated_accounts_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."simulated_accounts"
+    ADD CONSTRAINT "simulated_accounts_user_id_portfolio_id_key" UNIQUE NULLS NOT DISTINCT ("user_id", "portfolio_id");
+
+
+
+ALTER TABLE ONLY "public"."simulated_orders"
+    ADD CONSTRAINT "simulated_orders_pkey" PRIMARY KEY ("id");
+
+
+
+ALTER TABLE ONLY "public"."simulated_positions"
+    ADD CONSTRAINT "simulated_positions_account_id_symbol_key" UNIQUE ("account_id", "symbol");
+
+
+
+ALTER TABLE ONLY "public"."simulated_positions"
+    ADD CONSTRAINT "simulated_positions_pkey" PRIMARY KEY ("id");
+
+
+
 ALTER TABLE ONLY "public"."target_allocations"
     ADD CONSTRAINT "target_allocations_pkey" PRIMARY KEY ("id");
 
@@ -4700,6 +5590,11 @@ ALTER TABLE ONLY "public"."target_allocations"
 
 
 
+ALTER TABLE ONLY "public"."trade_approval_links"
+    ADD CONSTRAINT "trade_approval_links_pkey" PRIMARY KEY ("id");
+
+
+
 ALTER TABLE ONLY "public"."trading_actions"
     ADD CONSTRAINT "trading_actions_pkey" PRIMARY KEY ("id");
 
@@ -4731,7 +5626,7 @@ ALTER TABLE ONLY "public"."watchlist"
 
 
 ALTER TABLE ONLY "public"."watchlist"
-    ADD CONSTRAINT "watchlist_user_id_ticker_key" UNIQUE ("user_id", "ticker");
+    ADD CONSTRAINT "watchlist_user_id_portfolio_id_ticker_key" UNIQUE NULLS NOT DISTINCT ("user_id", "portfolio_id", "ticker");
 
 
 
@@ -4739,6 +5634,18 @@ CREATE UNIQUE INDEX "admin_users_user_id_idx" ON "public"."admin_users" USING "b
 
 
 
+CREATE INDEX "idx_ai_usage_events_analysis" ON "public"."ai_usage_events" USING "btree" ("analysis_id") WHERE ("analysis_id" IS NOT NULL);
+
+
+
+CREATE INDEX "idx_ai_usage_events_rebalance" ON "public"."ai_usage_events" USING "btree" ("rebalance_request_id") WHERE ("rebalance_request_id" IS NOT NULL);
+
+
+
+CREATE INDEX "idx_ai_usage_events_user_created" ON "public"."ai_usage_events" USING "btree" ("user_id", "created_at" DESC);
+
+
+
 CREATE INDEX "idx_analysis_history_canceled" ON "public"."analysis_history" USING "btree" ("user_id", "is_canceled") WHERE ("is_canceled" = true);
 
 
@@ -4815,6 +5722,10 @@ CREATE INDEX "idx_analysis_messages_metadata" ON "public"."analysis_messages" US
 
 
 
+CREATE INDEX "idx_analysis_scores_user_horizon" ON "public"."analysis_scores" USING "btree" ("user_id", "horizon");
+
+
+
 CREATE INDEX "idx_api_settings_analysis_config" ON "public"."api_settings" USING "btree" ("analysis_optimization", "analysis_search_sources") WHERE ("analysis_optimization" IS NOT NULL);
 
 
@@ -4843,6 +5754,14 @@ CREATE INDEX "idx_api_settings_risk_level" ON "public"."api_settings" USING "btr
 
 
 
+CREATE INDEX "idx_backtest_runs_user_created" ON "public"."backtest_runs" USING "btree" ("user_id", "created_at" DESC);
+
+
+
+CREATE INDEX "idx_custom_analysts_user" ON "public"."custom_analysts" USING "btree" ("user_id", "created_at");
+
+
+
 CREATE INDEX "idx_invitations_email" ON "public"."invitations" USING "btree" ("email");
 
 
@@ -4947,10 +5866,22 @@ CREATE INDEX "idx_roles_stripe_product" ON "public"."roles" USING "btree" ("stri
 
 
 
+CREATE INDEX "idx_simulated_orders_account_created" ON "public"."simulated_orders" USING "btree" ("account_id", "created_at" DESC);
+
+
+
+CREATE INDEX "idx_simulated_orders_open" ON "public"."simulated_orders" USING "btree" ("account_id") WHERE ("status" = 'new'::"text");
+
+
+
 CREATE INDEX "idx_target_allocations_user" ON "public"."target_allocations" USING "btree" ("user_id");
 
 
 
+CREATE INDEX "idx_trade_approval_links_trade_action" ON "public"."trade_approval_links" USING "btree" ("trade_action_id");
+
+
+
 CREATE INDEX "idx_trading_actions_alpaca_order" ON "public"."trading_actions" USING "btree" ("alpaca_order_id") WHERE ("alpaca_order_id" IS NOT NULL);
 
 
@@ -5099,6 +6030,10 @@ CREATE OR REPLACE TRIGGER "update_analysis_history_updated_at" BEFORE UPDATE ON
 
 
 
+CREATE OR REPLACE TRIGGER "update_custom_analysts_updated_at" BEFORE UPDATE ON "public"."custom_analysts" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
 CREATE OR REPLACE TRIGGER "update_invitations_updated_at" BEFORE UPDATE ON "public"."invitations" FOR EACH ROW EXECUTE FUNCTION "public"."update_invitations_updated_at"();
 
 
@@ -5107,6 +6042,10 @@ CREATE OR REPLACE TRIGGER "update_market_cache_updated_at" BEFORE UPDATE ON "pub
 
 
 
+CREATE OR REPLACE TRIGGER "update_notification_preferences_updated_at" BEFORE UPDATE ON "public"."notification_preferences" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
 CREATE OR REPLACE TRIGGER "update_provider_configurations_updated_at" BEFORE UPDATE ON "public"."provider_configurations" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
 
 
@@ -5127,6 +6066,18 @@ CREATE OR REPLACE TRIGGER "update_roles_updated_at" BEFORE UPDATE ON "public"."r
 
 
 
+CREATE OR REPLACE TRIGGER "update_simulated_accounts_updated_at" BEFORE UPDATE ON "public"."simulated_accounts" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE OR REPLACE TRIGGER "update_simulated_orders_updated_at" BEFORE UPDATE ON "public"."simulated_orders" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
+CREATE OR REPLACE TRIGGER "update_simulated_positions_updated_at" BEFORE UPDATE ON "public"."simulated_positions" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
+
+
 CREATE OR REPLACE TRIGGER "update_user_roles_updated_at" BEFORE UPDATE ON "public"."user_roles" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
 
 
@@ -5143,6 +6094,26 @@ CREATE OR REPLACE TRIGGER "validate_trade_order_trigger" BEFORE INSERT OR UPDATE
 
 
 
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_analysis_id_fkey" FOREIGN KEY ("analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_rebalance_request_id_fkey" FOREIGN KEY ("rebalance_request_id") REFERENCES "public"."rebalance_requests"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."analysis_history"
+    ADD CONSTRAINT "analysis_history_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE SET NULL;
+
+
+
 ALTER TABLE ONLY "public"."analysis_history"
     ADD CONSTRAINT "analysis_history_rebalance_request_id_fkey" FOREIGN KEY ("rebalance_request_id") REFERENCES "public"."rebalance_requests"("id") ON DELETE CASCADE;
 
@@ -5158,6 +6129,16 @@ ALTER TABLE ONLY "public"."analysis_messages"
 
 
 
+ALTER TABLE ONLY "public"."analysis_scores"
+    ADD CONSTRAINT "analysis_scores_analysis_id_fkey" FOREIGN KEY ("analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."analysis_scores"
+    ADD CONSTRAINT "analysis_scores_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."api_settings"
     ADD CONSTRAINT "api_settings_analysis_team_provider_id_fkey" FOREIGN KEY ("analysis_team_provider_id") REFERENCES "public"."provider_configurations"("id");
 
@@ -5198,6 +6179,16 @@ ALTER TABLE ONLY "public"."api_settings"
 
 
 
+ALTER TABLE ONLY "public"."backtest_runs"
+    ADD CONSTRAINT "backtest_runs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."custom_analysts"
+    ADD CONSTRAINT "custom_analysts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."invitations"
     ADD CONSTRAINT "invitations_confirmed_user_id_fkey" FOREIGN KEY ("confirmed_user_id") REFERENCES "auth"."users"("id");
 
@@ -5208,6 +6199,11 @@ ALTER TABLE ONLY "public"."invitations"
 
 
 
+ALTER TABLE ONLY "public"."notification_preferences"
+    ADD CONSTRAINT "notification_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."portfolios"
     ADD CONSTRAINT "portfolios_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
@@ -5238,11 +6234,21 @@ ALTER TABLE ONLY "public"."rebalance_history"
 
 
 
+ALTER TABLE ONLY "public"."rebalance_requests"
+    ADD CONSTRAINT "rebalance_requests_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE SET NULL;
+
+
+
 ALTER TABLE ONLY "public"."rebalance_requests"
     ADD CONSTRAINT "rebalance_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
 
 
+ALTER TABLE ONLY "public"."rebalance_schedules"
+    ADD CONSTRAINT "rebalance_schedules_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."rebalance_schedules"
     ADD CONSTRAINT "rebalance_schedules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
@@ -5278,11 +6284,51 @@ ALTER TABLE ONLY "public"."role_permissions"
 
 
 
+ALTER TABLE ONLY "public"."simulated_accounts"
+    ADD CONSTRAINT "simulated_accounts_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."simulated_accounts"
+    ADD CONSTRAINT "simulated_accounts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."simulated_orders"
+    ADD CONSTRAINT "simulated_orders_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "public"."simulated_accounts"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."simulated_orders"
+    ADD CONSTRAINT "simulated_orders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."simulated_positions"
+    ADD CONSTRAINT "simulated_positions_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "public"."simulated_accounts"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."simulated_positions"
+    ADD CONSTRAINT "simulated_positions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."target_allocations"
     ADD CONSTRAINT "target_allocations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
 
 
+ALTER TABLE ONLY "public"."trade_approval_links"
+    ADD CONSTRAINT "trade_approval_links_trade_action_id_fkey" FOREIGN KEY ("trade_action_id") REFERENCES "public"."trading_actions"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."trade_approval_links"
+    ADD CONSTRAINT "trade_approval_links_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."trading_actions"
     ADD CONSTRAINT "trading_actions_analysis_id_fkey" FOREIGN KEY ("analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE CASCADE;
 
@@ -5327,11 +6373,24 @@ ALTER TABLE ONLY "public"."user_usage"
 
 
 
+ALTER TABLE ONLY "public"."watchlist"
+    ADD CONSTRAINT "watchlist_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."watchlist"
     ADD CONSTRAINT "watchlist_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
 
 
+CREATE POLICY "Allow authenticated users to read asset classifications" ON "public"."asset_classifications" FOR SELECT TO "authenticated" USING (true);
+
+
+
+CREATE POLICY "Allow authenticated users to read fundamentals cache" ON "public"."fundamentals_cache" FOR SELECT TO "authenticated" USING (true);
+
+
+
 CREATE POLICY "Allow authenticated users to read market cache" ON "public"."market_data_cache" FOR SELECT TO "authenticated" USING (true);
 
 
@@ -5384,6 +6443,16 @@ CREATE POLICY "Users can create own analysis history" ON "public"."analysis_hist
 
 
 
+CREATE POLICY "Users can create own custom analysts" ON "public"."custom_analysts" FOR INSERT WITH CHECK ((("auth"."uid"() = "user_id") AND (( SELECT "count"(*) AS "count"
+   FROM "public"."custom_analysts" "ca"
+  WHERE ("ca"."user_id" = "auth"."uid"())) < "public"."get_user_max_custom_analysts"("auth"."uid"()))));
+
+
+
+CREATE POLICY "Users can create own notification preferences" ON "public"."notification_preferences" FOR INSERT WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can create own portfolios" ON "public"."portfolios" FOR INSERT WITH CHECK (("auth"."uid"() = "user_id"));
 
 
@@ -5408,6 +6477,18 @@ CREATE POLICY "Users can delete own analysis history" ON "public"."analysis_hist
 
 
 
+CREATE POLICY "Users can delete own backtest runs" ON "public"."backtest_runs" FOR DELETE USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can delete own custom analysts" ON "public"."custom_analysts" FOR DELETE USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can delete own notification preferences" ON "public"."notification_preferences" FOR DELETE USING (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can delete own portfolios" ON "public"."portfolios" FOR DELETE USING (("auth"."uid"() = "user_id"));
 
 
@@ -5456,6 +6537,14 @@ CREATE POLICY "Users can update own analysis history" ON "public"."analysis_hist
 
 
 
+CREATE POLICY "Users can update own custom analysts" ON "public"."custom_analysts" FOR UPDATE USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can update own notification preferences" ON "public"."notification_preferences" FOR UPDATE USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can update own portfolios" ON "public"."portfolios" FOR UPDATE USING (("auth"."uid"() = "user_id"));
 
 
@@ -5488,10 +6577,26 @@ CREATE POLICY "Users can view own analysis history" ON "public"."analysis_histor
 
 
 
+CREATE POLICY "Users can view own analysis scores" ON "public"."analysis_scores" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can view own backtest runs" ON "public"."backtest_runs" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can view own custom analysts" ON "public"."custom_analysts" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can view own detailed trade orders" ON "public"."trading_actions" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
 
 
+CREATE POLICY "Users can view own notification preferences" ON "public"."notification_preferences" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can view own portfolios" ON "public"."portfolios" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
 
@@ -5516,10 +6621,30 @@ CREATE POLICY "Users can view own subscription data" ON "public"."user_roles" FO
 
 
 
+CREATE POLICY "Users can view own simulated accounts" ON "public"."simulated_accounts" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can view own simulated orders" ON "public"."simulated_orders" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can view own simulated positions" ON "public"."simulated_positions" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can view own target allocations" ON "public"."target_allocations" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
 
 
+CREATE POLICY "Users can view own ai usage" ON "public"."ai_usage_events" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
+CREATE POLICY "Users can view own trade approval links" ON "public"."trade_approval_links" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+
+
 CREATE POLICY "Users can view own trading actions" ON "public"."trading_actions" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
 
@@ -5557,12 +6682,18 @@ CREATE POLICY "admin_view_all_profiles" ON "public"."profiles" FOR SELECT USING
 
 
 
+ALTER TABLE "public"."ai_usage_events" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."analysis_history" ENABLE ROW LEVEL SECURITY;
 
 
 ALTER TABLE "public"."analysis_messages" ENABLE ROW LEVEL SECURITY;
 
 
+ALTER TABLE "public"."analysis_scores" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."api_settings" ENABLE ROW LEVEL SECURITY;
 
 
@@ -5620,6 +6751,18 @@ COMMENT ON POLICY "api_settings_update_own" ON "public"."api_settings" IS 'Users
 
 
 
+ALTER TABLE "public"."asset_classifications" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."backtest_runs" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."custom_analysts" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."fundamentals_cache" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."invitations" ENABLE ROW LEVEL SECURITY;
 
 
@@ -5652,6 +6795,9 @@ COMMENT ON POLICY "market_data_cache_access_policy" ON "public"."market_data_cac
 
 
 
+ALTER TABLE "public"."notification_preferences" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."permissions" ENABLE ROW LEVEL SECURITY;
 
 
@@ -5793,9 +6939,21 @@ CREATE POLICY "system_insert_profiles" ON "public"."profiles" FOR INSERT WITH CH
 
 
 
+ALTER TABLE "public"."simulated_accounts" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."simulated_orders" ENABLE ROW LEVEL SECURITY;
+
+
+ALTER TABLE "public"."simulated_positions" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."target_allocations" ENABLE ROW LEVEL SECURITY;
 
 
+ALTER TABLE "public"."trade_approval_links" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."trading_actions" ENABLE ROW LEVEL SECURITY;
 
 
@@ -6313,6 +7471,10 @@ GRANT ALL ON FUNCTION "public"."extract_discord_id_from_identity"() TO "service_
 
 
 
+GRANT ALL ON FUNCTION "public"."fill_simulated_order"("p_order_id" "uuid", "p_fill_price" numeric, "p_commission" numeric) TO "service_role";
+
+
+
 GRANT ALL ON FUNCTION "public"."force_assign_admin_to_first_user"() TO "anon";
 GRANT ALL ON FUNCTION "public"."force_assign_admin_to_first_user"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."force_assign_admin_to_first_user"() TO "service_role";
@@ -6325,6 +7487,11 @@ GRANT ALL ON FUNCTION "public"."get_admin_role"("user_id" "uuid") TO "service_ro
 
 
 
+GRANT ALL ON FUNCTION "public"."get_ai_usage_summary"("p_user_id" "uuid", "p_since" timestamp with time zone) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."get_ai_usage_summary"("p_user_id" "uuid", "p_since" timestamp with time zone) TO "service_role";
+
+
+
 GRANT ALL ON FUNCTION "public"."get_earliest_user"() TO "anon";
 GRANT ALL ON FUNCTION "public"."get_earliest_user"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."get_earliest_user"() TO "service_role";
@@ -6367,6 +7534,12 @@ GRANT ALL ON FUNCTION "public"."get_user_by_stripe_customer"("p_customer_id" "te
 
 
 
+GRANT ALL ON FUNCTION "public"."get_user_max_custom_analysts"("p_user_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."get_user_max_custom_analysts"("p_user_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."get_user_max_custom_analysts"("p_user_id" "uuid") TO "service_role";
+
+
+
 GRANT ALL ON FUNCTION "public"."get_user_max_debate_rounds"("p_user_id" "uuid") TO "anon";
 GRANT ALL ON FUNCTION "public"."get_user_max_debate_rounds"("p_user_id" "uuid") TO "authenticated";
 GRANT ALL ON FUNCTION "public"."get_user_max_debate_rounds"("p_user_id" "uuid") TO "service_role";
@@ -6445,6 +7618,10 @@ GRANT ALL ON FUNCTION "public"."mark_schedule_executed"("p_schedule_id" "uuid",
 
 
 
+GRANT ALL ON FUNCTION "public"."mark_schedule_skipped"("p_schedule_id" "uuid", "p_reason" "text", "p_details" "jsonb") TO "service_role";
+
+
+
 GRANT ALL ON FUNCTION "public"."notify_discord_role_change"() TO "anon";
 GRANT ALL ON FUNCTION "public"."notify_discord_role_change"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."notify_discord_role_change"() TO "service_role";
@@ -6463,6 +7640,10 @@ GRANT ALL ON FUNCTION "public"."process_new_users"() TO "service_role";
 
 
 
+GRANT ALL ON FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_agent_name" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_cached_tokens" integer, "p_latency_ms" integer, "p_cost_usd" numeric, "p_estimated" boolean, "p_analysis_id" "uuid", "p_rebalance_request_id" "uuid") TO "service_role";
+
+
+
 GRANT ALL ON FUNCTION "public"."refresh_admin_users"() TO "anon";
 GRANT ALL ON FUNCTION "public"."refresh_admin_users"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."refresh_admin_users"() TO "service_role";
@@ -6624,6 +7805,12 @@ GRANT ALL ON TABLE "public"."admin_users" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."ai_usage_events" TO "anon";
+GRANT ALL ON TABLE "public"."ai_usage_events" TO "authenticated";
+GRANT ALL ON TABLE "public"."ai_usage_events" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."analysis_history" TO "anon";
 GRANT ALL ON TABLE "public"."analysis_history" TO "authenticated";
 GRANT ALL ON TABLE "public"."analysis_history" TO "service_role";
@@ -6636,11 +7823,36 @@ GRANT ALL ON TABLE "public"."analysis_messages" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."analysis_scores" TO "authenticated";
+GRANT ALL ON TABLE "public"."analysis_scores" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."api_settings" TO "authenticated";
 GRANT ALL ON TABLE "public"."api_settings" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."asset_classifications" TO "authenticated";
+GRANT ALL ON TABLE "public"."asset_classifications" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."backtest_runs" TO "authenticated";
+GRANT ALL ON TABLE "public"."backtest_runs" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."custom_analysts" TO "authenticated";
+GRANT ALL ON TABLE "public"."custom_analysts" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."fundamentals_cache" TO "authenticated";
+GRANT ALL ON TABLE "public"."fundamentals_cache" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."api_settings_unified" TO "authenticated";
 GRANT ALL ON TABLE "public"."api_settings_unified" TO "service_role";
 
@@ -6663,6 +7875,11 @@ GRANT ALL ON TABLE "public"."market_cache_status" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."notification_preferences" TO "authenticated";
+GRANT ALL ON TABLE "public"."notification_preferences" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."permissions" TO "anon";
 GRANT ALL ON TABLE "public"."permissions" TO "authenticated";
 GRANT ALL ON TABLE "public"."permissions" TO "service_role";
@@ -6709,6 +7926,11 @@ GRANT ALL ON TABLE "public"."rebalance_schedules" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."trade_approval_links" TO "authenticated";
+GRANT ALL ON TABLE "public"."trade_approval_links" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."trading_actions" TO "authenticated";
 GRANT ALL ON TABLE "public"."trading_actions" TO "service_role";
 
@@ -6753,6 +7975,21 @@ GRANT ALL ON TABLE "public"."scheduled_rebalance_status" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."simulated_accounts" TO "authenticated";
+GRANT ALL ON TABLE "public"."simulated_accounts" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."simulated_orders" TO "authenticated";
+GRANT ALL ON TABLE "public"."simulated_orders" TO "service_role";
+
+
+
+GRANT ALL ON TABLE "public"."simulated_positions" TO "authenticated";
+GRANT ALL ON TABLE "public"."simulated_positions" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."target_allocations" TO "anon";
 GRANT ALL ON TABLE "public"."target_allocations" TO "authenticated";
 GRANT ALL ON TABLE "public"."target_allocations" TO "service_role";
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the edge function modules, run under Node
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Deno URL import used by the shared modules
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["supabase/functions/**/*.test.ts"],
+  },
+});